@@ -3,18 +3,33 @@
 // SPDX-License-Identifier: Apache-2.0
 
 import { HttpMethod, ITransactionDto } from '@citrineos/base';
+import { BadRequestError, NotFoundError } from 'routing-controllers';
 import { ILogObj, Logger } from 'tslog';
 import { Service } from 'typedi';
 import { OcpiGraphqlClient } from '../graphql/OcpiGraphqlClient';
 import {
+  GetCdrRecordsByTransactionIdQueryResult,
+  GetCdrRecordsByTransactionIdQueryVariables,
+  GetTransactionByTransactionIdQueryResult,
+  GetTransactionByTransactionIdQueryVariables,
+  CdrRecords_Insert_Input,
   InsertCdrRecordMutationResult,
   InsertCdrRecordMutationVariables,
+  InsertReissuedCdrRecordsMutationResult,
+  InsertReissuedCdrRecordsMutationVariables,
 } from '../graphql/operations';
-import { INSERT_CDR_RECORD_MUTATION } from '../graphql/queries/cdr.queries';
+import {
+  GET_CDR_RECORDS_BY_TRANSACTION_ID_QUERY,
+  INSERT_CDR_RECORD_MUTATION,
+  INSERT_REISSUED_CDR_RECORDS_MUTATION,
+} from '../graphql/queries/cdr.queries';
+import { GET_TRANSACTION_BY_ID_QUERY } from '../graphql/queries/transaction.queries';
 import { CdrMapper } from '../mapper';
 import { Cdr } from '../model/Cdr';
-import { OcpiEmptyResponseSchema } from '../model/OcpiEmptyResponse';
-import { CdrsClientApi } from '../trigger/CdrsClientApi';
+import { ModuleId } from '../model/ModuleId';
+import { OcpiParty } from '../services/HubClientInfoService';
+import { InvoiceReferenceService } from '../services/InvoiceReferenceService';
+import { OutboxService } from '../services/OutboxService';
 import { BaseBroadcaster } from './BaseBroadcaster';
 
 @Service()
@@ -22,8 +37,9 @@ export class CdrBroadcaster extends BaseBroadcaster {
   constructor(
     readonly logger: Logger<ILogObj>,
     readonly cdrMapper: CdrMapper,
-    readonly cdrsClientApi: CdrsClientApi,
+    readonly outboxService: OutboxService,
     readonly ocpiGraphqlClient: OcpiGraphqlClient,
+    readonly invoiceReferenceService: InvoiceReferenceService,
   ) {
     super();
   }
@@ -39,80 +55,205 @@ export class CdrBroadcaster extends BaseBroadcaster {
       return;
     }
     const cdrDto = cdrs[0];
+    cdrDto.invoice_reference_id = await this.generateInvoiceReferenceId(
+      cdrDto,
+      transactionDto,
+    );
     const tenantPartner =
       transactionDto.authorization?.tenantPartner ?? undefined;
 
+    // Stored before it is sent, so that the Location header of the delivery can be kept on it
+    try {
+      await this.persistCdrRecord(cdrDto, transactionDto);
+    } catch (e) {
+      this.logger.error(
+        `Failed to persist CdrRecord for CDR ${cdrDto.id} — the CDR is still sent`,
+        e,
+      );
+    }
+
     try {
       if (tenantPartner) {
         // CDR is the bill for this session — only send to the authorizing EMSP
         this.logger.debug(
           `CDR ${cdrDto.id} authorized by partner ${tenantPartner.countryCode}_${tenantPartner.partyId}, targeting them only`,
         );
-        await this.cdrsClientApi.request(
-          cdrDto.country_code!,
-          cdrDto.party_id!,
-          tenantPartner.countryCode!,
-          tenantPartner.partyId!,
+        await this.outboxService.enqueue(
+          tenantPartner,
+          ModuleId.Cdrs,
           HttpMethod.Post,
-          OcpiEmptyResponseSchema,
-          tenantPartner.partnerProfileOCPI!,
-          true,
           undefined,
           cdrDto,
+          this.getTokenOwner(cdrDto),
         );
       }
     } catch (e) {
       this.logger.error(`broadcastPostCdr failed for CDR ${cdrDto.id}`, e);
     }
+  }
+
+  /**
+   * Corrects the CDR issued for a transaction. A credit CDR cancelling the current CDR and a CDR
+   * priced anew are pushed, in that order, to the authorizing eMSP. Both are linked to the
+   * credited CdrRecord, and are stored together before either is pushed. Their ids are claimed by
+   * the unique cdrId of the CdrRecords, so a concurrent reissue of the same CDR fails.
+   */
+  async reissueCdr(
+    transactionId: number,
+  ): Promise<{ creditCdr: Cdr; cdr: Cdr }> {
+    const transactionResponse = await this.ocpiGraphqlClient.request<
+      GetTransactionByTransactionIdQueryResult,
+      GetTransactionByTransactionIdQueryVariables
+    >(GET_TRANSACTION_BY_ID_QUERY, { id: transactionId });
+    const transactionDto = transactionResponse.Transactions[0] as
+      ITransactionDto | undefined;
+    if (!transactionDto) {
+      throw new NotFoundError(`Transaction ${transactionId} not found`);
+    }
+    const tenantPartner = transactionDto.authorization?.tenantPartner;
+    if (!tenantPartner) {
+      throw new BadRequestError(
+        `Transaction ${transactionId} was not authorized by a partner`,
+      );
+    }
+
+    const recordsResponse = await this.ocpiGraphqlClient.request<
+      GetCdrRecordsByTransactionIdQueryResult,
+      GetCdrRecordsByTransactionIdQueryVariables
+    >(GET_CDR_RECORDS_BY_TRANSACTION_ID_QUERY, { transactionId });
+    const records = recordsResponse.CdrRecords;
+    // The latest CDR that is not a credit CDR is the one currently billed
+    const currentRecord = records.filter((record) => !record.credit).pop();
+    if (!currentRecord) {
+      throw new NotFoundError(`No CDR issued for transaction ${transactionId}`);
+    }
+
+    const cdrs = await this.cdrMapper.mapTransactionsToCdrs([transactionDto]);
+    if (cdrs.length === 0) {
+      throw new BadRequestError(
+        `No CDR can be generated for transaction ${transactionId}`,
+      );
+    }
+    const reissueNumber = records.filter((record) => record.credit).length + 1;
+    const originalCdrId = records[0].cdrId;
+
+    const creditCdr = this.cdrMapper.mapToCreditCdr(
+      currentRecord.cdrData as Cdr,
+      `${originalCdrId}-C${reissueNumber}`,
+    );
+    creditCdr.invoice_reference_id = await this.generateInvoiceReferenceId(
+      creditCdr,
+      transactionDto,
+    );
+    const cdr: Cdr = {
+      ...cdrs[0],
+      id: `${originalCdrId}-R${reissueNumber}`,
+    };
+    cdr.invoice_reference_id = await this.generateInvoiceReferenceId(
+      cdr,
+      transactionDto,
+    );
+
+    await this.ocpiGraphqlClient.request<
+      InsertReissuedCdrRecordsMutationResult,
+      InsertReissuedCdrRecordsMutationVariables
+    >(INSERT_REISSUED_CDR_RECORDS_MUTATION, {
+      objects: [creditCdr, cdr].map((reissuedCdr) =>
+        this.toCdrRecord(reissuedCdr, transactionDto, currentRecord.id),
+      ),
+    });
+    for (const reissuedCdr of [creditCdr, cdr]) {
+      await this.outboxService.enqueue(
+        tenantPartner,
+        ModuleId.Cdrs,
+        HttpMethod.Post,
+        undefined,
+        reissuedCdr,
+        this.getTokenOwner(reissuedCdr),
+      );
+    }
+    this.logger.info(
+      `Reissued CDR ${currentRecord.cdrId} of transaction ${transactionId} as ${cdr.id}, credited by ${creditCdr.id}`,
+    );
+    return { creditCdr, cdr };
+  }
 
-    await this.persistCdrRecord(cdrDto, transactionDto);
+  /**
+   * The CDR is addressed to the eMSP of the token, which is not the partner when it goes through
+   * a hub.
+   */
+  private getTokenOwner(cdr: Cdr): OcpiParty {
+    return {
+      countryCode: cdr.cdr_token.country_code,
+      partyId: cdr.cdr_token.party_id,
+    };
   }
 
-  private async persistCdrRecord(
+  private async generateInvoiceReferenceId(
     cdr: Cdr,
     transaction: ITransactionDto,
-  ): Promise<void> {
+  ): Promise<string | undefined> {
+    if (!transaction.tenant) {
+      return undefined;
+    }
     try {
-      const now = new Date().toISOString();
-      const tenantPartnerId =
-        transaction.authorization?.tenantPartner?.id ?? undefined;
-
-      const variables: InsertCdrRecordMutationVariables = {
-        cdrId: cdr.id,
-        transactionId: transaction.id ?? undefined,
-        tenantPartnerId,
-        ocpiSessionId: cdr.session_id ?? undefined,
-        startDateTime: cdr.start_date_time,
-        endDateTime: cdr.end_date_time,
-        currency: cdr.currency,
-        totalEnergy: cdr.total_energy,
-        totalTime: cdr.total_time,
-        totalParkingTime: cdr.total_parking_time ?? 0,
-        totalCostExclVat: cdr.total_cost.excl_vat,
-        totalCostInclVat: cdr.total_cost.incl_vat ?? undefined,
-        totalEnergyCostExclVat: cdr.total_energy_cost?.excl_vat ?? undefined,
-        totalTimeCostExclVat: cdr.total_time_cost?.excl_vat ?? undefined,
-        totalParkingCostExclVat: cdr.total_parking_cost?.excl_vat ?? undefined,
-        totalFixedCostExclVat: cdr.total_fixed_cost?.excl_vat ?? undefined,
-        totalReservationCostExclVat:
-          cdr.total_reservation_cost?.excl_vat ?? undefined,
-        taxRate: undefined,
-        cdrData: cdr as any,
-        createdAt: now,
-        updatedAt: now,
-      };
-
-      await this.ocpiGraphqlClient.request<
-        InsertCdrRecordMutationResult,
-        InsertCdrRecordMutationVariables
-      >(INSERT_CDR_RECORD_MUTATION, variables);
-
-      this.logger.debug(`Persisted CdrRecord for CDR ${cdr.id}`);
+      return await this.invoiceReferenceService.generate(transaction.tenant);
     } catch (e) {
       this.logger.error(
-        `Failed to persist CdrRecord for CDR ${cdr.id} — broadcast was still attempted`,
+        `Failed to generate invoice reference for CDR ${cdr.id}`,
         e,
       );
+      return undefined;
     }
   }
+
+  private async persistCdrRecord(
+    cdr: Cdr,
+    transaction: ITransactionDto,
+  ): Promise<void> {
+    await this.ocpiGraphqlClient.request<
+      InsertCdrRecordMutationResult,
+      InsertCdrRecordMutationVariables
+    >(INSERT_CDR_RECORD_MUTATION, this.toCdrRecord(cdr, transaction));
+
+    this.logger.debug(`Persisted CdrRecord for CDR ${cdr.id}`);
+  }
+
+  private toCdrRecord(
+    cdr: Cdr,
+    transaction: ITransactionDto,
+    originalCdrRecordId?: number,
+  ): CdrRecords_Insert_Input {
+    const now = new Date().toISOString();
+    return {
+      cdrId: cdr.id,
+      transactionId: transaction.id ?? undefined,
+      tenantPartnerId:
+        transaction.authorization?.tenantPartner?.id ?? undefined,
+      ocpiSessionId: cdr.session_id ?? undefined,
+      startDateTime: cdr.start_date_time,
+      endDateTime: cdr.end_date_time,
+      currency: cdr.currency,
+      totalEnergy: cdr.total_energy,
+      totalTime: cdr.total_time,
+      totalParkingTime: cdr.total_parking_time ?? 0,
+      totalCostExclVat: cdr.total_cost.excl_vat,
+      totalCostInclVat: cdr.total_cost.incl_vat ?? undefined,
+      totalEnergyCostExclVat: cdr.total_energy_cost?.excl_vat ?? undefined,
+      totalTimeCostExclVat: cdr.total_time_cost?.excl_vat ?? undefined,
+      totalParkingCostExclVat: cdr.total_parking_cost?.excl_vat ?? undefined,
+      totalFixedCostExclVat: cdr.total_fixed_cost?.excl_vat ?? undefined,
+      totalReservationCostExclVat:
+        cdr.total_reservation_cost?.excl_vat ?? undefined,
+      taxRate: undefined,
+      cdrData: cdr as any,
+      credit: cdr.credit ?? false,
+      creditReferenceId: cdr.credit_reference_id ?? undefined,
+      invoiceReferenceId: cdr.invoice_reference_id ?? undefined,
+      originalCdrRecordId,
+      lastUpdated: cdr.last_updated,
+      createdAt: now,
+      updatedAt: now,
+    };
+  }
 }
@@ -22,8 +22,8 @@ import { LocationDTO } from '../model/DTO/LocationDTO';
 import { EvseStatus } from '../model/EvseStatus';
 import { InterfaceRole } from '../model/InterfaceRole';
 import { ModuleId } from '../model/ModuleId';
-import { OcpiEmptyResponseSchema } from '../model/OcpiEmptyResponse';
 import { CredentialsService } from '../services/CredentialsService';
+import { OutboxService } from '../services/OutboxService';
 import { LocationsClientApi } from '../trigger/LocationsClientApi';
 import { toISOStringIfNeeded } from '../util/DateTimeHelper';
 import { BaseBroadcaster } from './BaseBroadcaster';
@@ -34,6 +34,7 @@ export class LocationsBroadcaster extends BaseBroadcaster {
     readonly logger: Logger<ILogObj>,
     readonly credentialsService: CredentialsService,
     readonly locationsClientApi: LocationsClientApi,
+    readonly outboxService: OutboxService,
   ) {
     super();
   }
@@ -70,6 +71,25 @@ export class LocationsBroadcaster extends BaseBroadcaster {
     );
   }
 
+  /**
+   * Patches OCPI attributes of a location that are not derived from core, e.g. the ones edited
+   * through the OCPI extension store.
+   */
+  async broadcastPatchLocationAttributes(
+    tenant: ITenantDto,
+    locationId: number,
+    location: Partial<LocationDTO>,
+  ): Promise<void> {
+    const path = `/${tenant.countryCode}/${tenant.partyId}/${locationId}`;
+    await this.broadcastLocation(
+      tenant,
+      location,
+      HttpMethod.Patch,
+      path,
+      locationId,
+    );
+  }
+
   private async broadcastLocation(
     tenant: ITenantDto,
     location: Partial<LocationDTO>,
@@ -78,17 +98,13 @@ export class LocationsBroadcaster extends BaseBroadcaster {
     locationId?: number,
   ): Promise<void> {
     try {
-      await this.locationsClientApi.broadcastToClients({
-        cpoCountryCode: tenant.countryCode!,
-        cpoPartyId: tenant.partyId!,
-        moduleId: ModuleId.Locations,
-        interfaceRole: InterfaceRole.RECEIVER,
-        httpMethod: method,
-        schema: OcpiEmptyResponseSchema,
-        body: location,
-        path: path,
+      await this.enqueueForPartners(
+        tenant,
+        location,
+        method,
+        path,
         locationId,
-      });
+      );
     } catch (e) {
       this.logger.error(
         `broadcast${method}Location failed for Location ${path}`,
@@ -142,6 +158,20 @@ export class LocationsBroadcaster extends BaseBroadcaster {
     await this.broadcastEvse(tenant, evse, HttpMethod.Patch, path, locationId);
   }
 
+  /**
+   * Patches OCPI attributes of an EVSE that are not derived from core, e.g. the ones edited
+   * through the OCPI extension store.
+   */
+  async broadcastPatchEvseAttributes(
+    tenant: ITenantDto,
+    locationId: number,
+    evseUid: string,
+    evse: Partial<EvseDTO>,
+  ): Promise<void> {
+    const path = `/${tenant.countryCode}/${tenant.partyId}/${locationId}/${evseUid}`;
+    await this.broadcastEvse(tenant, evse, HttpMethod.Patch, path, locationId);
+  }
+
   private async broadcastEvse(
     tenant: ITenantDto,
     evseData: Partial<EvseDTO>,
@@ -150,17 +180,13 @@ export class LocationsBroadcaster extends BaseBroadcaster {
     locationId?: number,
   ): Promise<void> {
     try {
-      await this.locationsClientApi.broadcastToClients({
-        cpoCountryCode: tenant.countryCode!,
-        cpoPartyId: tenant.partyId!,
-        moduleId: ModuleId.Locations,
-        interfaceRole: InterfaceRole.RECEIVER,
-        httpMethod: method,
-        schema: OcpiEmptyResponseSchema,
-        body: evseData,
-        path: path,
+      await this.enqueueForPartners(
+        tenant,
+        evseData,
+        method,
+        path,
         locationId,
-      });
+      );
     } catch (e) {
       this.logger.error(`broadcast${method}Evse failed for ${path}`, e);
     }
@@ -210,19 +236,44 @@ export class LocationsBroadcaster extends BaseBroadcaster {
     locationId?: number,
   ): Promise<void> {
     try {
-      await this.locationsClientApi.broadcastToClients({
-        cpoCountryCode: tenant.countryCode!,
-        cpoPartyId: tenant.partyId!,
-        moduleId: ModuleId.Locations,
-        interfaceRole: InterfaceRole.RECEIVER,
-        httpMethod: method,
-        schema: OcpiEmptyResponseSchema,
-        body: connectorData,
-        path: path,
+      await this.enqueueForPartners(
+        tenant,
+        connectorData,
+        method,
+        path,
         locationId,
-      });
+      );
     } catch (e) {
       this.logger.error(`broadcast${method}Connector failed for ${path}`, e);
     }
   }
+
+  /**
+   * Queues the push for every partner the location is published to, and for every party connected
+   * to a partner that is a hub.
+   */
+  private async enqueueForPartners(
+    tenant: ITenantDto,
+    body: Partial<LocationDTO | EvseDTO | ConnectorDTO>,
+    method: HttpMethod,
+    path: string,
+    locationId?: number,
+  ): Promise<void> {
+    const partners = await this.locationsClientApi.getBroadcastPartners(
+      tenant.countryCode!,
+      tenant.partyId!,
+      ModuleId.Locations,
+      InterfaceRole.RECEIVER,
+      locationId,
+    );
+    for (const partner of partners) {
+      await this.outboxService.enqueueBroadcast(
+        partner,
+        ModuleId.Locations,
+        method,
+        path,
+        body,
+      );
+    }
+  }
 }
@@ -4,29 +4,104 @@
 
 import {
   HttpMethod,
+  IAuthorizationDto,
   IMeterValueDto,
   ITenantDto,
-  ITenantPartnerDto,
   ITransactionDto,
 } from '@citrineos/base';
 import { ILogObj, Logger } from 'tslog';
-import { Service } from 'typedi';
+import { Inject, Service } from 'typedi';
+import { OcpiConfig, OcpiConfigToken } from '../config/ocpi.types';
+import { OcpiGraphqlClient } from '../graphql/OcpiGraphqlClient';
+import {
+  DeletePendingSessionChargingPeriodsMutationResult,
+  DeletePendingSessionChargingPeriodsMutationVariables,
+  GetPendingSessionChargingPeriodsQueryResult,
+  GetPendingSessionChargingPeriodsQueryVariables,
+  GetTransactionByTransactionIdQueryResult,
+  GetTransactionByTransactionIdQueryVariables,
+  UpsertPendingSessionChargingPeriodsMutationResult,
+  UpsertPendingSessionChargingPeriodsMutationVariables,
+} from '../graphql/operations';
+import {
+  DELETE_PENDING_SESSION_CHARGING_PERIODS_MUTATION,
+  GET_PENDING_SESSION_CHARGING_PERIODS_QUERY,
+  UPSERT_PENDING_SESSION_CHARGING_PERIODS_MUTATION,
+} from '../graphql/queries/pendingSessionChargingPeriods.queries';
+import { GET_TRANSACTION_BY_ID_QUERY } from '../graphql/queries/transaction.queries';
 import { SessionMapper } from '../mapper/SessionMapper';
-import { OcpiEmptyResponseSchema } from '../model/OcpiEmptyResponse';
+import { TokensMapper } from '../mapper/TokensMapper';
+import { ModuleId } from '../model/ModuleId';
 import { Session } from '../model/Session';
-import { SessionsClientApi } from '../trigger/SessionsClientApi';
+import { OutboxService } from '../services/OutboxService';
 import { BaseBroadcaster } from './BaseBroadcaster';
 
+const DEFAULT_AGGREGATION_WINDOW_SECONDS = 60;
+
+/**
+ * Meter values of a session received during the current aggregation window. The window is also
+ * stored in PendingSessionChargingPeriods, from which it is rebuilt after a restart.
+ */
+interface PendingChargingPeriods {
+  tenant: ITenantDto;
+  meterValues: IMeterValueDto[];
+  windowStart?: Date;
+  timer?: NodeJS.Timeout;
+}
+
 @Service()
 export class SessionBroadcaster extends BaseBroadcaster {
+  private readonly pendingChargingPeriods = new Map<
+    number,
+    PendingChargingPeriods
+  >();
+
   constructor(
     readonly logger: Logger<ILogObj>,
-    readonly sessionsClientApi: SessionsClientApi,
+    readonly outboxService: OutboxService,
     readonly sessionMapper: SessionMapper,
+    readonly ocpiGraphqlClient: OcpiGraphqlClient,
+    @Inject(OcpiConfigToken) readonly config: OcpiConfig,
   ) {
     super();
   }
 
+  /**
+   * Rebuilds the aggregation windows open before a restart from the meter values stored since
+   * their start, and pushes them when they close.
+   */
+  async start(): Promise<void> {
+    const response = await this.ocpiGraphqlClient.request<
+      GetPendingSessionChargingPeriodsQueryResult,
+      GetPendingSessionChargingPeriodsQueryVariables
+    >(GET_PENDING_SESSION_CHARGING_PERIODS_QUERY, {});
+    for (const window of response.PendingSessionChargingPeriods) {
+      const transactionDto = await this.getTransaction(window.transactionId);
+      const windowStart = new Date(window.windowStart);
+      if (!transactionDto) {
+        await this.deletePendingChargingPeriods(
+          window.transactionId,
+          windowStart,
+        );
+        continue;
+      }
+      const pending: PendingChargingPeriods = {
+        tenant: transactionDto.tenant!,
+        meterValues: (transactionDto.meterValues ?? []).filter(
+          (meterValue) =>
+            new Date(meterValue.timestamp).getTime() >= windowStart.getTime(),
+        ),
+        windowStart,
+      };
+      this.pendingChargingPeriods.set(window.transactionId, pending);
+      this.scheduleFlush(
+        window.transactionId,
+        pending,
+        new Date(window.flushAt).getTime() - Date.now(),
+      );
+    }
+  }
+
   async broadcastPutSession(
     tenant: ITenantDto,
     transactionDto: ITransactionDto,
@@ -34,14 +109,12 @@ export class SessionBroadcaster extends BaseBroadcaster {
     const session =
       await this.sessionMapper.mapTransactionToSession(transactionDto);
     const path = `/${tenant.countryCode}/${tenant.partyId}/${session.id}`;
-    const tenantPartner =
-      transactionDto.authorization?.tenantPartner ?? undefined;
     await this.broadcastSession(
       tenant,
       session,
       HttpMethod.Put,
       path,
-      tenantPartner,
+      transactionDto.authorization,
     );
   }
 
@@ -49,36 +122,172 @@ export class SessionBroadcaster extends BaseBroadcaster {
     tenant: ITenantDto,
     transactionDto: Partial<ITransactionDto>,
   ): Promise<void> {
+    // Charging periods are pushed before a status change, so that the partner receives them in order
+    if (transactionDto.id && this.isStatusUpdate(transactionDto)) {
+      await this.flushSessionChargingPeriods(transactionDto.id);
+    }
     const session =
       await this.sessionMapper.mapPartialTransactionToPartialSession(
         transactionDto,
       );
     const path = `/${tenant.countryCode}/${tenant.partyId}/${session.id}`;
-    const tenantPartner =
-      transactionDto.authorization?.tenantPartner ?? undefined;
     await this.broadcastSession(
       tenant,
       session,
       HttpMethod.Patch,
       path,
-      tenantPartner,
+      transactionDto.authorization,
     );
   }
 
+  /**
+   * Collects the meter value of a session for the aggregation window it opens or falls into. All
+   * meter values of the window are pushed as a single PATCH when it closes, or earlier when the
+   * status of the session changes.
+   */
   async broadcastPatchSessionChargingPeriod(
     tenant: ITenantDto,
     meterValueDto: IMeterValueDto,
   ): Promise<void> {
-    const charging_periods = await this.sessionMapper.getChargingPeriods(
-      [meterValueDto],
-      meterValueDto.tariffId!.toString(),
+    const transactionId = meterValueDto.transactionDatabaseId;
+    if (!transactionId) {
+      this.logger.warn(
+        `Meter value ${meterValueDto.id} has no transaction, cannot broadcast.`,
+      );
+      return;
+    }
+    const pending = this.pendingChargingPeriods.get(transactionId) ?? {
+      tenant,
+      meterValues: [],
+    };
+    pending.meterValues.push(meterValueDto);
+    this.pendingChargingPeriods.set(transactionId, pending);
+
+    const windowSeconds =
+      this.config.sessionChargingPeriods?.aggregationWindowSeconds ??
+      DEFAULT_AGGREGATION_WINDOW_SECONDS;
+    if (windowSeconds === 0) {
+      await this.flushSessionChargingPeriods(transactionId);
+      return;
+    }
+    const timestamp = new Date(meterValueDto.timestamp);
+    if (!pending.windowStart || timestamp < pending.windowStart) {
+      pending.windowStart = timestamp;
+      const now = new Date();
+      await this.ocpiGraphqlClient.request<
+        UpsertPendingSessionChargingPeriodsMutationResult,
+        UpsertPendingSessionChargingPeriodsMutationVariables
+      >(UPSERT_PENDING_SESSION_CHARGING_PERIODS_MUTATION, {
+        object: {
+          transactionId,
+          windowStart: timestamp.toISOString(),
+          flushAt: new Date(now.getTime() + windowSeconds * 1000).toISOString(),
+          createdAt: now.toISOString(),
+          updatedAt: now.toISOString(),
+        },
+      });
+    }
+    if (!pending.timer) {
+      this.scheduleFlush(transactionId, pending, windowSeconds * 1000);
+    }
+  }
+
+  /**
+   * Pushes the charging periods collected for the session, together with its cumulative kwh and
+   * total_cost, as one PATCH. Only the stored row of the flushed window is removed, a window opened
+   * by a meter value received meanwhile is kept.
+   */
+  async flushSessionChargingPeriods(transactionId: number): Promise<void> {
+    const pending = this.pendingChargingPeriods.get(transactionId);
+    if (!pending) {
+      return;
+    }
+    this.pendingChargingPeriods.delete(transactionId);
+    clearTimeout(pending.timer);
+
+    const transactionDto = await this.getTransaction(transactionId);
+    if (!transactionDto) {
+      this.logger.error(
+        `Transaction ${transactionId} not found, cannot broadcast charging periods.`,
+      );
+      if (pending.windowStart) {
+        await this.deletePendingChargingPeriods(
+          transactionId,
+          pending.windowStart,
+        );
+      }
+      return;
+    }
+    const session = await this.sessionMapper.mapChargingPeriodsToPartialSession(
+      transactionDto,
+      pending.meterValues,
     );
-    const path = `/${tenant.countryCode}/${tenant.partyId}/${meterValueDto.transactionDatabaseId}`;
+    if (session.charging_periods?.length === 0) {
+      delete session.charging_periods;
+    }
+    const path = `/${pending.tenant.countryCode}/${pending.tenant.partyId}/${transactionId}`;
     await this.broadcastSession(
-      tenant,
-      { charging_periods },
+      pending.tenant,
+      session,
       HttpMethod.Patch,
       path,
+      transactionDto.authorization,
+    );
+    if (pending.windowStart) {
+      await this.deletePendingChargingPeriods(
+        transactionId,
+        pending.windowStart,
+      );
+    }
+  }
+
+  private scheduleFlush(
+    transactionId: number,
+    pending: PendingChargingPeriods,
+    delayMs: number,
+  ): void {
+    pending.timer = setTimeout(
+      () => {
+        this.flushSessionChargingPeriods(transactionId).catch((e) =>
+          this.logger.error(
+            `Failed to flush charging periods of Session ${transactionId}`,
+            e,
+          ),
+        );
+      },
+      Math.max(delayMs, 0),
+    );
+  }
+
+  private async getTransaction(
+    transactionId: number,
+  ): Promise<ITransactionDto | undefined> {
+    const response = await this.ocpiGraphqlClient.request<
+      GetTransactionByTransactionIdQueryResult,
+      GetTransactionByTransactionIdQueryVariables
+    >(GET_TRANSACTION_BY_ID_QUERY, { id: transactionId });
+    return response.Transactions[0] as ITransactionDto | undefined;
+  }
+
+  private async deletePendingChargingPeriods(
+    transactionId: number,
+    windowStart: Date,
+  ): Promise<void> {
+    await this.ocpiGraphqlClient.request<
+      DeletePendingSessionChargingPeriodsMutationResult,
+      DeletePendingSessionChargingPeriodsMutationVariables
+    >(DELETE_PENDING_SESSION_CHARGING_PERIODS_MUTATION, {
+      transactionId,
+      windowStart: windowStart.toISOString(),
+    });
+  }
+
+  private isStatusUpdate(transactionDto: Partial<ITransactionDto>): boolean {
+    return (
+      transactionDto.isActive !== undefined ||
+      transactionDto.endTime !== undefined ||
+      transactionDto.chargingState !== undefined ||
+      transactionDto.stoppedReason !== undefined
     );
   }
 
@@ -87,28 +296,23 @@ export class SessionBroadcaster extends BaseBroadcaster {
     session: Partial<Session>,
     method: HttpMethod,
     path: string,
-    tenantPartner?: ITenantPartnerDto,
+    authorization?: IAuthorizationDto,
   ): Promise<void> {
+    const tenantPartner = authorization?.tenantPartner;
     try {
       if (tenantPartner) {
         // Session was authorized by a specific EMSP partner — only push to them
         this.logger.debug(
           `Session ${path} authorized by partner ${tenantPartner.countryCode}_${tenantPartner.partyId}, targeting them only`,
         );
-        await this.sessionsClientApi.request(
-          tenant.countryCode!,
-          tenant.partyId!,
-          tenantPartner.countryCode!,
-          tenantPartner.partyId!,
+        await this.outboxService.enqueue(
+          tenantPartner,
+          ModuleId.Sessions,
           method,
-          OcpiEmptyResponseSchema,
-          tenantPartner.partnerProfileOCPI!,
-          true,
-          undefined,
-          session,
-          undefined,
-          undefined,
           path,
+          session,
+          // The eMSP of the token, which is not the partner when the session goes through a hub
+          TokensMapper.getTokenOwner(authorization!),
         );
       }
     } catch (e) {
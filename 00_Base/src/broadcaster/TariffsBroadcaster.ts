@@ -11,7 +11,7 @@ import { InterfaceRole } from '../model/InterfaceRole';
 import { HttpMethod, ITariffDto, ITenantDto } from '@citrineos/base';
 import { Tariff } from '../model/Tariff';
 import { TariffMapper } from '../mapper/TariffMapper';
-import { OcpiEmptyResponseSchema } from '../model/OcpiEmptyResponse';
+import { OutboxService } from '../services/OutboxService';
 import {
   GET_TARIFF_BY_KEY_QUERY,
   GetTariffByKeyQueryResult,
@@ -25,6 +25,7 @@ export class TariffsBroadcaster extends BaseBroadcaster {
     readonly logger: Logger<ILogObj>,
     readonly tariffsClientApi: TariffsClientApi,
     readonly ocpiGraphqlClient: OcpiGraphqlClient,
+    readonly outboxService: OutboxService,
   ) {
     super();
   }
@@ -36,16 +37,21 @@ export class TariffsBroadcaster extends BaseBroadcaster {
     tariff?: Partial<Tariff>,
   ): Promise<void> {
     try {
-      await this.tariffsClientApi.broadcastToClients({
-        cpoCountryCode: tenant.countryCode!,
-        cpoPartyId: tenant.partyId!,
-        moduleId: ModuleId.Tariffs,
-        interfaceRole: InterfaceRole.RECEIVER,
-        httpMethod: method,
-        schema: OcpiEmptyResponseSchema,
-        body: tariff,
-        path: path,
-      });
+      const partners = await this.tariffsClientApi.getBroadcastPartners(
+        tenant.countryCode!,
+        tenant.partyId!,
+        ModuleId.Tariffs,
+        InterfaceRole.RECEIVER,
+      );
+      for (const partner of partners) {
+        await this.outboxService.enqueueBroadcast(
+          partner,
+          ModuleId.Tariffs,
+          method,
+          path,
+          tariff,
+        );
+      }
     } catch (e) {
       this.logger.error(`broadcast${method} failed for Tariff ${path}`, e);
     }
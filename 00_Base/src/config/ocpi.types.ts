@@ -124,6 +124,8 @@ export const ocpiConfigInputSchema = z.object({
         .object({
           topicPrefix: z.string().optional(),
           topicName: z.string().optional(),
+          // Consumer groups are named <groupIdPrefix>-<module>, defaults to the topic prefix
+          groupIdPrefix: z.string().optional(),
           brokers: z.array(z.string()),
           sasl: z
             .object({
@@ -154,20 +156,158 @@ export const ocpiConfigInputSchema = z.object({
 
   commands: z.object({
     timeout: z.number().int().positive().default(30).optional(),
+    // Interval at which commands not answered within the timeout get their TIMEOUT result
+    timeoutSweepIntervalSeconds: z
+      .number()
+      .int()
+      .positive()
+      .default(5)
+      .optional(),
     ocpiBaseUrl: z.string().default('http://localhost:8085/ocpi').optional(),
     coreHeaders: z.record(z.string()).optional(),
+    // EVSE selection for StartSession commands without evse_uid: name of the policy used by
+    // default and per tenant id, e.g. PREFERRED or FIRST_AVAILABLE
+    evseSelection: z
+      .object({
+        defaultPolicy: z.string().default('PREFERRED').optional(),
+        tenantPolicies: z.record(z.string()).optional(),
+      })
+      .optional(),
     ocpp1_6: z.object({
       remoteStartTransactionRequestUrl: z.string(),
       remoteStopTransactionRequestUrl: z.string(),
       unlockConnectorRequestUrl: z.string(),
+      reserveNowRequestUrl: z.string(),
+      cancelReservationRequestUrl: z.string(),
+      setChargingProfileRequestUrl: z.string(),
+      getCompositeScheduleRequestUrl: z.string(),
+      clearChargingProfileRequestUrl: z.string(),
+      changeAvailabilityRequestUrl: z.string(),
     }),
     ocpp2_0_1: z.object({
       requestStartTransactionRequestUrl: z.string(),
       requestStopTransactionRequestUrl: z.string(),
       unlockConnectorRequestUrl: z.string(),
+      reserveNowRequestUrl: z.string(),
+      cancelReservationRequestUrl: z.string(),
+      setChargingProfileRequestUrl: z.string(),
+      getCompositeScheduleRequestUrl: z.string(),
+      clearChargingProfileRequestUrl: z.string(),
+      changeAvailabilityRequestUrl: z.string(),
     }),
   }),
 
+  // Optional retry settings for the outbound push queue (Sessions, CDRs, Locations, Tariffs)
+  outbox: z
+    .object({
+      maxAttempts: z.number().int().positive().default(10).optional(),
+      initialBackoffSeconds: z.number().int().positive().default(30).optional(),
+      maxBackoffSeconds: z.number().int().positive().default(3600).optional(),
+      pollIntervalSeconds: z.number().int().positive().default(15).optional(),
+      leaseSeconds: z.number().int().positive().default(120).optional(),
+    })
+    .optional(),
+
+  // Audit log of the OCPI requests received from and sent to partners. Bodies are only stored when
+  // enabled, without the values of the redacted fields of the credentials objects
+  trafficAudit: z
+    .object({
+      enabled: z.boolean().default(true).optional(),
+      recordBodies: z.boolean().default(false).optional(),
+      redactedCredentialsFields: z
+        .array(z.string())
+        .default(['token'])
+        .optional(),
+      retentionDays: z.number().int().positive().default(30).optional(),
+    })
+    .optional(),
+
+  // Reconnect backoff of the PostgreSQL notification subscriber, and how long notifications are
+  // kept in the DtoEventJournal for replay
+  pgNotify: z
+    .object({
+      reconnectInitialDelaySeconds: z
+        .number()
+        .int()
+        .positive()
+        .default(1)
+        .optional(),
+      reconnectMaxDelaySeconds: z
+        .number()
+        .int()
+        .positive()
+        .default(60)
+        .optional(),
+      journalRetentionHours: z.number().int().positive().default(72).optional(),
+    })
+    .optional(),
+
+  // Cache of the TenantPartner resolved from the token of a request. With pgNotify, entries are also
+  // invalidated on changes of the TenantPartners table.
+  tenantPartnerCache: z
+    .object({
+      ttlSeconds: z.number().int().positive().default(300).optional(),
+      unknownTokenTtlSeconds: z
+        .number()
+        .int()
+        .positive()
+        .default(30)
+        .optional(),
+      pgNotify: z.boolean().default(false).optional(),
+    })
+    .optional(),
+
+  // Invoice references of issued CDRs. Formats may use {countryCode}, {partyId}, {year} and
+  // {sequence}, where the sequence is counted per tenant. Formats can be overridden per tenant id.
+  invoiceReferences: z
+    .object({
+      format: z
+        .string()
+        .default('{countryCode}{partyId}-{year}-{sequence}')
+        .optional(),
+      tenantFormats: z.record(z.string()).optional(),
+    })
+    .optional(),
+
+  // Meter values of a session received within the window are pushed as one PATCH of their
+  // charging periods with the cumulative kwh and total_cost. 0 pushes every meter value on its own.
+  sessionChargingPeriods: z
+    .object({
+      aggregationWindowSeconds: z
+        .number()
+        .int()
+        .nonnegative()
+        .default(60)
+        .optional(),
+    })
+    .optional(),
+
+  // Background worker applying the start and end of planned EVSE status periods
+  evseStatusSchedules: z
+    .object({
+      pollIntervalSeconds: z.number().int().positive().default(60).optional(),
+    })
+    .optional(),
+
+  // Token pulls from eMSP Tokens sender interfaces. Partners listed in schedules, by TenantPartner
+  // id, are synchronized every given number of seconds with tokens changed since their last pull.
+  tokensSync: z
+    .object({
+      pageLimit: z.number().int().positive().max(200).default(100).optional(),
+      pollIntervalSeconds: z.number().int().positive().default(60).optional(),
+      leaseSeconds: z.number().int().positive().default(120).optional(),
+      schedules: z.record(z.number().int().positive()).optional(),
+    })
+    .optional(),
+
+  // Signed meter data in CDRs. The transparency URL links to software the driver can use to
+  // verify the signed values, e.g. the S.A.F.E. transparency software.
+  signedData: z
+    .object({
+      transparencyUrl: z.string().url().optional(),
+    })
+    .optional(),
+
   // OCPI-specific settings
   logLevel: z.number().min(0).max(6).default(2).optional(),
   defaultPageLimit: z.number().int().positive().default(50).optional(),
@@ -282,6 +422,7 @@ export const ocpiConfigSchema = z.object({
         .object({
           topicPrefix: z.string().optional(),
           topicName: z.string().optional(),
+          groupIdPrefix: z.string().optional(),
           brokers: z.array(z.string()),
           sasl: z
             .object({
@@ -306,20 +447,108 @@ export const ocpiConfigSchema = z.object({
 
   commands: z.object({
     timeout: z.number().int().positive(),
+    timeoutSweepIntervalSeconds: z.number().int().positive().optional(),
     ocpiBaseUrl: z.string(),
     coreHeaders: z.record(z.string()).optional(),
+    evseSelection: z
+      .object({
+        defaultPolicy: z.string(),
+        tenantPolicies: z.record(z.string()).optional(),
+      })
+      .optional(),
     ocpp1_6: z.object({
       remoteStartTransactionRequestUrl: z.string(),
       remoteStopTransactionRequestUrl: z.string(),
       unlockConnectorRequestUrl: z.string(),
+      reserveNowRequestUrl: z.string(),
+      cancelReservationRequestUrl: z.string(),
+      setChargingProfileRequestUrl: z.string(),
+      getCompositeScheduleRequestUrl: z.string(),
+      clearChargingProfileRequestUrl: z.string(),
+      changeAvailabilityRequestUrl: z.string(),
     }),
     ocpp2_0_1: z.object({
       requestStartTransactionRequestUrl: z.string(),
       requestStopTransactionRequestUrl: z.string(),
       unlockConnectorRequestUrl: z.string(),
+      reserveNowRequestUrl: z.string(),
+      cancelReservationRequestUrl: z.string(),
+      setChargingProfileRequestUrl: z.string(),
+      getCompositeScheduleRequestUrl: z.string(),
+      clearChargingProfileRequestUrl: z.string(),
+      changeAvailabilityRequestUrl: z.string(),
     }),
   }),
 
+  outbox: z
+    .object({
+      maxAttempts: z.number().int().positive(),
+      initialBackoffSeconds: z.number().int().positive(),
+      maxBackoffSeconds: z.number().int().positive(),
+      pollIntervalSeconds: z.number().int().positive(),
+      leaseSeconds: z.number().int().positive(),
+    })
+    .optional(),
+
+  trafficAudit: z
+    .object({
+      enabled: z.boolean(),
+      recordBodies: z.boolean(),
+      redactedCredentialsFields: z.array(z.string()),
+      retentionDays: z.number().int().positive(),
+    })
+    .optional(),
+
+  pgNotify: z
+    .object({
+      reconnectInitialDelaySeconds: z.number().int().positive(),
+      reconnectMaxDelaySeconds: z.number().int().positive(),
+      journalRetentionHours: z.number().int().positive(),
+    })
+    .optional(),
+
+  tenantPartnerCache: z
+    .object({
+      ttlSeconds: z.number().int().positive(),
+      unknownTokenTtlSeconds: z.number().int().positive(),
+      pgNotify: z.boolean(),
+    })
+    .optional(),
+
+  invoiceReferences: z
+    .object({
+      format: z.string(),
+      tenantFormats: z.record(z.string()).optional(),
+    })
+    .optional(),
+
+  sessionChargingPeriods: z
+    .object({
+      aggregationWindowSeconds: z.number().int().nonnegative(),
+    })
+    .optional(),
+
+  evseStatusSchedules: z
+    .object({
+      pollIntervalSeconds: z.number().int().positive(),
+    })
+    .optional(),
+
+  tokensSync: z
+    .object({
+      pageLimit: z.number().int().positive().max(200),
+      pollIntervalSeconds: z.number().int().positive(),
+      leaseSeconds: z.number().int().positive(),
+      schedules: z.record(z.number().int().positive()).optional(),
+    })
+    .optional(),
+
+  signedData: z
+    .object({
+      transparencyUrl: z.string().url().optional(),
+    })
+    .optional(),
+
   logLevel: z.number().min(0).max(6),
   defaultPageLimit: z.number().int().positive(),
   maxPageLimit: z.number().int().positive(),
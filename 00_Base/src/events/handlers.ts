@@ -61,6 +61,13 @@ export abstract class AbstractDtoEventReceiver implements IDtoEventReceiver {
     await this._module?.handle(event);
   }
 
+  /**
+   * Transports delivering events per subscription have nothing left to start.
+   */
+  start(): Promise<void> {
+    return Promise.resolve();
+  }
+
   /**
    * Abstract Methods
    */
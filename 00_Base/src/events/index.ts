@@ -24,4 +24,11 @@ export { AbstractDtoModule } from './module';
 export { AbstractDtoEventReceiver, AbstractDtoEventSender } from './handlers';
 export { RabbitMqDtoReceiver } from './rabbitMQ/receiver';
 export { RabbitMqDtoSender } from './rabbitMQ/sender';
+export { KafkaDtoReceiver } from './kafka/receiver';
+export { KafkaDtoSender } from './kafka/sender';
+export {
+  DtoEventSenderToken,
+  createDtoEventReceiver,
+  createDtoEventSender,
+} from './transport';
 export { PgNotifyEventSubscriber } from './pgNotify/subscriber';
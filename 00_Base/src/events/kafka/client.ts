@@ -0,0 +1,82 @@
+// SPDX-FileCopyrightText: 2025 Contributors to the CitrineOS Project
+//
+// SPDX-License-Identifier: Apache-2.0
+
+import { IHeaders, Kafka, SASLOptions } from 'kafkajs';
+import { OcpiConfig } from '../../config/ocpi.types';
+
+const DEFAULT_TOPIC_PREFIX = 'ocpi';
+const DEFAULT_TOPIC_NAME = 'dto-events';
+const CLIENT_ID = 'citrineos-ocpi';
+
+/**
+ * Creates the Kafka client for the configured brokers. SSL is enabled together with SASL.
+ */
+export function createKafkaClient(config: OcpiConfig): Kafka {
+  const kafka = config.messageBroker?.kafka;
+  if (!kafka || kafka.brokers.length === 0) {
+    throw new Error('Kafka brokers are not configured');
+  }
+  return new Kafka({
+    clientId: CLIENT_ID,
+    brokers: kafka.brokers,
+    ssl: !!kafka.sasl,
+    sasl: kafka.sasl
+      ? ({
+          mechanism: kafka.sasl.mechanism.toLowerCase(),
+          username: kafka.sasl.username,
+          password: kafka.sasl.password,
+        } as SASLOptions)
+      : undefined,
+  });
+}
+
+/**
+ * Name of the topic all Dto events are published to.
+ */
+export function getDtoEventTopic(config: OcpiConfig): string {
+  const kafka = config.messageBroker?.kafka;
+  return `${kafka?.topicPrefix ?? DEFAULT_TOPIC_PREFIX}-${kafka?.topicName ?? DEFAULT_TOPIC_NAME}`;
+}
+
+/**
+ * Prefix of the consumer groups, one group per Dto module. OCPI instances sharing the prefix
+ * share the partitions of the topic.
+ */
+export function getDtoEventGroupPrefix(config: OcpiConfig): string {
+  const kafka = config.messageBroker?.kafka;
+  return kafka?.groupIdPrefix ?? kafka?.topicPrefix ?? DEFAULT_TOPIC_PREFIX;
+}
+
+/**
+ * Creates the Dto event topic if it does not exist yet.
+ */
+export async function ensureDtoEventTopic(
+  client: Kafka,
+  topic: string,
+): Promise<void> {
+  const admin = client.admin();
+  await admin.connect();
+  try {
+    const topics = await admin.listTopics();
+    if (!topics.includes(topic)) {
+      await admin.createTopics({ topics: [{ topic }], waitForLeaders: true });
+    }
+  } finally {
+    await admin.disconnect();
+  }
+}
+
+export function decodeHeaders(
+  headers: IHeaders | undefined,
+): Record<string, string> {
+  const decoded: Record<string, string> = {};
+  for (const [key, value] of Object.entries(headers ?? {})) {
+    if (value !== undefined) {
+      decoded[key] = Array.isArray(value)
+        ? value.map((v) => v.toString()).join(',')
+        : value.toString();
+    }
+  }
+  return decoded;
+}
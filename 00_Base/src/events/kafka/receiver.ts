@@ -0,0 +1,147 @@
+// SPDX-FileCopyrightText: 2025 Contributors to the CitrineOS Project
+//
+// SPDX-License-Identifier: Apache-2.0
+
+import { RetryMessageError } from '@citrineos/base';
+import { Consumer, EachMessagePayload, Kafka } from 'kafkajs';
+import { ILogObj, Logger } from 'tslog';
+import {
+  AbstractDtoEventReceiver,
+  DtoEventObjectType,
+  DtoEventType,
+  IDtoEventReceiver,
+  IDtoModule,
+} from '..';
+import { Inject } from 'typedi';
+import { OcpiConfig, OcpiConfigToken } from '../../config/ocpi.types';
+import {
+  createKafkaClient,
+  decodeHeaders,
+  ensureDtoEventTopic,
+  getDtoEventGroupPrefix,
+  getDtoEventTopic,
+} from './client';
+
+/**
+ * Implementation of a {@link IDtoEventReceiver} using Kafka as the underlying transport.
+ *
+ * Each Dto module consumes the topic in its own consumer group, so every module sees every event
+ * while the partitions of a module are shared between the OCPI instances. Events of a partition
+ * are handled one at a time, which keeps the events of a transaction in order.
+ */
+export class KafkaDtoReceiver
+  extends AbstractDtoEventReceiver
+  implements IDtoEventReceiver
+{
+  /**
+   * Fields
+   */
+  protected _client: Kafka;
+  protected _consumer?: Consumer;
+  protected _topic: string;
+  protected _filters: { [k: string]: string }[] = [];
+  private _running = false;
+
+  constructor(
+    @Inject(OcpiConfigToken) config: OcpiConfig,
+    logger?: Logger<ILogObj>,
+    module?: IDtoModule,
+  ) {
+    super(config, logger, module);
+    this._client = createKafkaClient(config);
+    this._topic = getDtoEventTopic(config);
+  }
+
+  async init(): Promise<void> {
+    const groupId = `${getDtoEventGroupPrefix(this._config)}-${this._module?.constructor.name ?? 'dto'}`;
+    await ensureDtoEventTopic(this._client, this._topic);
+    this._consumer = this._client.consumer({ groupId });
+    await this._consumer.connect();
+    await this._consumer.subscribe({ topics: [this._topic] });
+    this._logger.info(`Connected to Kafka, consuming ${this._topic}`, {
+      groupId,
+    });
+  }
+
+  /**
+   * Methods
+   */
+
+  /**
+   * Registers the event context to handle. Events matching none of the subscriptions are skipped.
+   */
+  async subscribe(
+    eventType: DtoEventType,
+    objectType: DtoEventObjectType,
+    filter?: { [k: string]: string },
+  ): Promise<boolean> {
+    if (!this._consumer) {
+      throw new Error('Kafka is down: cannot subscribe.');
+    }
+    this._filters.push({ eventType, objectType, ...filter });
+    this._logger.debug(
+      `Subscribe to ${this._topic} with filter ${JSON.stringify(filter)}.`,
+    );
+    return true;
+  }
+
+  /**
+   * Starts consuming once all subscriptions are registered, so no event is skipped for a
+   * subscription that is not registered yet.
+   */
+  async start(): Promise<void> {
+    if (!this._consumer) {
+      throw new Error('Kafka is down: cannot start consuming.');
+    }
+    if (this._running) {
+      return;
+    }
+    this._running = true;
+    await this._consumer.run({
+      eachMessage: (payload) => this._onEvent(payload),
+    });
+  }
+
+  async shutdown(): Promise<void> {
+    this._running = false;
+    await this._consumer?.disconnect();
+  }
+
+  /**
+   * Protected Methods
+   */
+
+  /**
+   * Underlying Kafka message handler. Throwing makes Kafka redeliver the message, which is only
+   * done for retryable errors.
+   *
+   * @param payload The message with its topic and partition
+   */
+  protected async _onEvent({ message }: EachMessagePayload): Promise<void> {
+    const headers = decodeHeaders(message.headers);
+    if (!this._matches(headers) || !message.value) {
+      return;
+    }
+    try {
+      this._logger.debug(
+        '_onEvent:Received message:',
+        headers,
+        message.value.toString(),
+      );
+      const parsed = JSON.parse(message.value.toString());
+      await this.handle(parsed);
+    } catch (error) {
+      if (error instanceof RetryMessageError) {
+        this._logger.warn('Retrying message: ', error.message);
+        throw error;
+      }
+      this._logger.error('Error while processing message:', error, headers);
+    }
+  }
+
+  protected _matches(headers: Record<string, string>): boolean {
+    return this._filters.some((filter) =>
+      Object.entries(filter).every(([key, value]) => headers[key] === value),
+    );
+  }
+}
@@ -0,0 +1,122 @@
+// SPDX-FileCopyrightText: 2025 Contributors to the CitrineOS Project
+//
+// SPDX-License-Identifier: Apache-2.0
+
+import { instanceToPlain } from 'class-transformer';
+import { Kafka, Producer } from 'kafkajs';
+import { ILogObj, Logger } from 'tslog';
+import {
+  AbstractDtoEventSender,
+  IDtoEvent,
+  IDtoEventSender,
+  IDtoPayload,
+} from '..';
+import { Inject, Service } from 'typedi';
+import { OcpiConfig, OcpiConfigToken } from '../../config/ocpi.types';
+import {
+  createKafkaClient,
+  ensureDtoEventTopic,
+  getDtoEventTopic,
+} from './client';
+
+/**
+ * Implementation of a {@link IDtoEventSender} using Kafka as the underlying transport.
+ *
+ * Events are keyed by the id of the transaction the object belongs to, or else by the id of the
+ * object, so that all events of a transaction land on the same partition and stay in order.
+ */
+@Service()
+export class KafkaDtoSender
+  extends AbstractDtoEventSender
+  implements IDtoEventSender
+{
+  /**
+   * Fields
+   */
+  protected _client: Kafka;
+  protected _producer: Producer;
+  protected _topic: string;
+  private _connected = false;
+
+  /**
+   * Constructor for the class.
+   *
+   * @param {OcpiConfig} config - The system configuration.
+   * @param {Logger<ILogObj>} [logger] - The logger object.
+   */
+  constructor(
+    @Inject(OcpiConfigToken) config: OcpiConfig,
+    logger?: Logger<ILogObj>,
+  ) {
+    super(config, logger);
+    this._client = createKafkaClient(config);
+    this._topic = getDtoEventTopic(config);
+    this._producer = this._client.producer();
+    this._producer.on('producer.connect', () => (this._connected = true));
+    this._producer.on('producer.disconnect', () => {
+      this._connected = false;
+      this._logger.warn('Kafka producer disconnected.');
+    });
+  }
+
+  async init(): Promise<void> {
+    await ensureDtoEventTopic(this._client, this._topic);
+    await this._producer.connect();
+    this._logger.info(`Connected to Kafka, publishing to ${this._topic}`);
+  }
+
+  /**
+   * Methods
+   */
+
+  /**
+   * Sends a Dto event to the Kafka topic. The event context is sent along as message headers.
+   *
+   * @param event - The Dto event to be sent.
+   * @returns A promise that resolves to true once the brokers acknowledged the message.
+   * @throws {Error} If the producer is not connected or the brokers rejected the message.
+   */
+  async sendEvent(event: IDtoEvent<IDtoPayload>): Promise<boolean> {
+    if (!this._connected) {
+      throw new Error('Kafka is down. Cannot send message.');
+    }
+    this._logger.debug(`Publishing to ${this._topic}:`, event);
+
+    await this._producer.send({
+      topic: this._topic,
+      messages: [
+        {
+          key: this._getKey(event),
+          value: JSON.stringify(instanceToPlain(event)),
+          headers: {
+            ...event._context,
+            eventId: event._eventId,
+          },
+        },
+      ],
+    });
+    return true;
+  }
+
+  /**
+   * Shuts down the sender by disconnecting the producer.
+   *
+   * @return {Promise<void>} A promise that resolves when the producer is disconnected.
+   */
+  async shutdown(): Promise<void> {
+    await this._producer.disconnect();
+  }
+
+  /**
+   * Protected Methods
+   */
+
+  protected _getKey(event: IDtoEvent<IDtoPayload>): string | null {
+    const payload = event._payload as {
+      id?: string | number | null;
+      transactionDatabaseId?: string | number | null;
+    };
+    const id = payload.transactionDatabaseId ?? payload.id;
+    return id !== undefined && id !== null ? String(id) : null;
+  }
+}
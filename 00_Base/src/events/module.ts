@@ -3,6 +3,7 @@
 // SPDX-License-Identifier: Apache-2.0
 
 import 'reflect-metadata';
+import { RetryMessageError } from '@citrineos/base';
 import { ILogObj, Logger } from 'tslog';
 import {
   AS_DTO_EVENT_HANDLER_METADATA,
@@ -108,6 +109,10 @@ export abstract class AbstractDtoModule implements IDtoModule {
         );
       }
     } catch (error) {
+      if (error instanceof RetryMessageError) {
+        // Left to the receiver, which has the transport redeliver the message
+        throw error;
+      }
       this._logger.error('Failed handling GraphQL message: ', error, message);
       // Unlike OCPP, GraphQL subscriptions are one-way, so we don't send error responses back
     }
@@ -143,6 +148,7 @@ export abstract class AbstractDtoModule implements IDtoModule {
         );
       }
     }
+    await this._receiver.start();
     this._logger.info(`Initialized in ${Date.now() - this.startTime}ms...`);
   }
 
@@ -4,8 +4,6 @@
 
 import { DtoEventType, IDtoEventSubscriber, IDtoPayload } from '..';
 import { Client, Notification } from 'pg';
-// import { runner, RunnerOption } from 'node-pg-migrate';
-// import path from 'path';
 import { ILogObj, Logger } from 'tslog';
 import { OcpiConfig, OcpiConfigToken } from '../../config/ocpi.types';
 import { Inject, Service } from 'typedi';
@@ -13,20 +11,68 @@ import { Inject, Service } from 'typedi';
 interface IPgNotification {
   operation: DtoEventType;
   data: any;
+  /**
+   * Id of the notification in the DtoEventJournal, absent for channels that are not journaled
+   */
+  journalId?: number | string;
 }
 
 type EventHandler<T = any> = {
-  handleEvent: (event: { eventType: DtoEventType; payload: T }) => void;
+  handleEvent: (event: {
+    eventType: DtoEventType;
+    payload: T;
+  }) => void | Promise<void>;
   handleError: (error: any) => void;
   handleDisconnect?: () => void;
 };
 
+interface ChannelState {
+  /**
+   * Last journal id acknowledged, loaded from DtoEventJournalCursors on the first replay
+   */
+  lastEventId?: number;
+  /**
+   * Journal ids handled recently, to skip notifications that were already replayed
+   */
+  recentIds: Set<number>;
+  /**
+   * Set when a journaled event could not be handled; live events are then skipped until the
+   * replay from the last acknowledged id caught up
+   */
+  stalled: boolean;
+  queue: Promise<void>;
+  retryTimer?: NodeJS.Timeout;
+}
+
+const DEFAULT_RECONNECT_INITIAL_DELAY_SECONDS = 1;
+const DEFAULT_RECONNECT_MAX_DELAY_SECONDS = 60;
+const DEFAULT_JOURNAL_RETENTION_HOURS = 72;
+const REPLAY_BATCH_SIZE = 100;
+const REPLAY_RETRY_DELAY_MS = 5000;
+const RECENT_IDS_LIMIT = 1000;
+const JOURNAL_PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+const UNDEFINED_TABLE_ERROR_CODE = '42P01';
+
+/**
+ * Subscriber of PostgreSQL notifications. The connection is re-established with backoff when it
+ * is lost, and notifications journaled by the triggers are replayed from the last acknowledged id
+ * of each channel, so that events sent while disconnected are not lost.
+ */
 @Service()
 export class PgNotifyEventSubscriber implements IDtoEventSubscriber {
-  protected _pgClient: Client;
+  protected _pgClient?: Client;
+  protected readonly _config: OcpiConfig;
   protected readonly _logger: Logger<ILogObj>;
   protected subscribedChannels = new Set<string>();
   protected eventHandlers = new Map<string, EventHandler>();
+  protected channelStates = new Map<string, ChannelState>();
+
+  private initialized?: Promise<void>;
+  private reconnectTimer?: NodeJS.Timeout;
+  private reconnectAttempts = 0;
+  private pruneTimer?: NodeJS.Timeout;
+  private journalAvailable = true;
+  private shuttingDown = false;
 
   constructor(
     @Inject(OcpiConfigToken) config: OcpiConfig,
@@ -35,81 +81,39 @@ export class PgNotifyEventSubscriber implements IDtoEventSubscriber {
     this._logger = logger
       ? logger.getSubLogger({ name: this.constructor.name })
       : new Logger<ILogObj>({ name: this.constructor.name });
-
-    this._pgClient = new Client({
-      host: config.database.host,
-      port: config.database.port,
-      user: config.database.username,
-      password: config.database.password,
-      database: config.database.database,
-    });
+    this._config = config;
   }
 
+  /**
+   * Connects to PostgreSQL. The subscriber is shared, e.g. by the DtoRouter and the TenantPartner
+   * cache, so only the first call connects.
+   */
   async init(): Promise<void> {
-    await this._pgClient.connect();
-    this._logger.info('Connected to PostgreSQL for notifications');
-
-    /* const runnerOptions: RunnerOption = {
-      dbClient: this._pgClient,
-      migrationsTable: 'pgmigrations',
-      dir: path.join(__dirname, 'migrations'),
-      direction: 'up',
-      logger: this._logger,
-    };
-    const migrations = await runner(runnerOptions);
-    this._logger.info(
-      `Executed migrations: ${migrations.map((m) => m.name).join(', ')}`,
-    );
-*/
-    this._pgClient.on('notification', (msg: Notification) => {
-      const handler = this.eventHandlers.get(msg.channel);
-      if (!handler) return;
-
-      try {
-        const payload: IPgNotification = JSON.parse(msg.payload ?? '{}');
-        handler.handleEvent({
-          eventType: payload.operation,
-          payload: payload.data,
-        });
-      } catch (err) {
-        this._logger.error(`Failed to parse notification payload:`, err);
-        handler.handleError(err);
-      }
-    });
-
-    const callDisconnectHandlers = () => {
-      const called = new Set<() => void>();
-      for (const { handleDisconnect } of this.eventHandlers.values()) {
-        if (handleDisconnect && !called.has(handleDisconnect)) {
-          called.add(handleDisconnect);
-          try {
-            handleDisconnect();
-          } catch (err) {
-            this._logger.warn('Error in handleDisconnect callback:', err);
-          }
-        }
-      }
-    };
-
-    this._pgClient.on('error', (err) => {
-      this._logger.error('Postgres client error:', err);
-      callDisconnectHandlers();
-    });
-
-    this._pgClient.on('end', () => {
-      this._logger.warn('Postgres client disconnected');
-      callDisconnectHandlers();
-    });
+    if (!this.initialized) {
+      this.shuttingDown = false;
+      this.initialized = this.connect().catch((error) => {
+        this.initialized = undefined;
+        throw error;
+      });
+      this.startJournalPruning();
+    }
+    return this.initialized;
   }
 
   async subscribe<T extends IDtoPayload>(
     eventId: string,
-    handleEvent: (event: { eventType: DtoEventType; payload: T }) => void,
+    handleEvent: (event: {
+      eventType: DtoEventType;
+      payload: T;
+    }) => void | Promise<void>,
     handleError: (error: any) => void,
     handleDisconnect?: () => void,
   ): Promise<boolean> {
     try {
       if (!this.subscribedChannels.has(eventId)) {
+        if (!this._pgClient) {
+          throw new Error('PostgreSQL is down: cannot subscribe.');
+        }
         await this._pgClient.query(`LISTEN "${eventId}"`);
         this.subscribedChannels.add(eventId);
         this._logger.info(`Subscribed to event channel "${eventId}"`);
@@ -121,6 +125,9 @@ export class PgNotifyEventSubscriber implements IDtoEventSubscriber {
         handleDisconnect,
       });
 
+      // Catch up on the events sent while the server was down
+      this.enqueueReplay(eventId);
+
       return true;
     } catch (error) {
       this._logger.error(`Failed to subscribe to "${eventId}":`, error);
@@ -130,13 +137,379 @@ export class PgNotifyEventSubscriber implements IDtoEventSubscriber {
   }
 
   async shutdown(): Promise<void> {
+    this.shuttingDown = true;
+    clearTimeout(this.reconnectTimer);
+    clearInterval(this.pruneTimer);
+    this.reconnectTimer = undefined;
+    this.pruneTimer = undefined;
+    for (const state of this.channelStates.values()) {
+      clearTimeout(state.retryTimer);
+    }
+    this.eventHandlers.clear();
+    this.subscribedChannels.clear();
+    this.channelStates.clear();
+    this.initialized = undefined;
+
+    const client = this._pgClient;
+    this._pgClient = undefined;
     try {
-      this.eventHandlers.clear();
-      this.subscribedChannels.clear();
-      await this._pgClient.end();
+      await client?.end();
       this._logger.info('Postgres client closed');
     } catch (err) {
       this._logger.error('Error shutting down pg client:', err);
     }
   }
+
+  /**
+   * Opens a new connection and listens again on all subscribed channels. A pg client cannot be
+   * reconnected once it ended, so every attempt uses a new client.
+   */
+  protected async connect(): Promise<void> {
+    const client = new Client({
+      host: this._config.database.host,
+      port: this._config.database.port,
+      user: this._config.database.username,
+      password: this._config.database.password,
+      database: this._config.database.database,
+    });
+    client.on('notification', (msg: Notification) => this.onNotification(msg));
+    client.on('error', (err) => {
+      this._logger.error('Postgres client error:', err);
+      this.onConnectionLost(client);
+    });
+    client.on('end', () => {
+      this._logger.warn('Postgres client disconnected');
+      this.onConnectionLost(client);
+    });
+
+    await client.connect();
+    this._pgClient = client;
+    this._logger.info('Connected to PostgreSQL for notifications');
+
+    for (const channel of this.subscribedChannels) {
+      await client.query(`LISTEN "${channel}"`);
+    }
+  }
+
+  protected onNotification(msg: Notification): void {
+    const handler = this.eventHandlers.get(msg.channel);
+    if (!handler) return;
+
+    let notification: IPgNotification;
+    try {
+      notification = JSON.parse(msg.payload ?? '{}');
+    } catch (err) {
+      this._logger.error(`Failed to parse notification payload:`, err);
+      handler.handleError(err);
+      return;
+    }
+
+    if (notification.journalId === undefined) {
+      this.enqueue(msg.channel, async (state) => {
+        await this.handle(msg.channel, state, notification);
+      });
+      return;
+    }
+
+    const journalId = Number(notification.journalId);
+    this.enqueue(msg.channel, async (state) => {
+      // Skipped events are replayed once the channel caught up
+      if (state.stalled || state.recentIds.has(journalId)) {
+        return;
+      }
+      if (!(await this.handle(msg.channel, state, notification, journalId))) {
+        state.stalled = true;
+        this.scheduleReplay(msg.channel);
+      }
+    });
+  }
+
+  private onConnectionLost(client: Client): void {
+    // Both 'error' and 'end' are emitted for a lost connection
+    if (client !== this._pgClient || this.shuttingDown) {
+      return;
+    }
+    this._pgClient = undefined;
+    client.end().catch(() => undefined);
+    this.callDisconnectHandlers();
+    this.scheduleReconnect();
+  }
+
+  private callDisconnectHandlers(): void {
+    const called = new Set<() => void>();
+    for (const { handleDisconnect } of this.eventHandlers.values()) {
+      if (handleDisconnect && !called.has(handleDisconnect)) {
+        called.add(handleDisconnect);
+        try {
+          handleDisconnect();
+        } catch (err) {
+          this._logger.warn('Error in handleDisconnect callback:', err);
+        }
+      }
+    }
+  }
+
+  private scheduleReconnect(): void {
+    if (this.reconnectTimer || this.shuttingDown) {
+      return;
+    }
+    const initialDelay =
+      this._config.pgNotify?.reconnectInitialDelaySeconds ??
+      DEFAULT_RECONNECT_INITIAL_DELAY_SECONDS;
+    const maxDelay =
+      this._config.pgNotify?.reconnectMaxDelaySeconds ??
+      DEFAULT_RECONNECT_MAX_DELAY_SECONDS;
+    const delay = Math.min(
+      initialDelay * 2 ** this.reconnectAttempts,
+      maxDelay,
+    );
+    this.reconnectAttempts++;
+    this._logger.warn(
+      `Reconnecting to PostgreSQL in ${delay}s (attempt ${this.reconnectAttempts})`,
+    );
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = undefined;
+      this.reconnect().catch((err) =>
+        this._logger.error('PostgreSQL reconnect failed:', err),
+      );
+    }, delay * 1000);
+  }
+
+  private async reconnect(): Promise<void> {
+    if (this.shuttingDown) {
+      return;
+    }
+    try {
+      await this.connect();
+    } catch (err) {
+      this._logger.error(
+        `PostgreSQL reconnect attempt ${this.reconnectAttempts} failed:`,
+        err,
+      );
+      if (this._pgClient) {
+        // Connected, but listening failed; the lost connection schedules the next attempt
+        this._pgClient.end().catch(() => undefined);
+      } else {
+        this.scheduleReconnect();
+      }
+      return;
+    }
+    this.reconnectAttempts = 0;
+    this._logger.info(
+      `Reconnected to PostgreSQL, listening on ${this.subscribedChannels.size} channels`,
+    );
+    for (const channel of this.subscribedChannels) {
+      this.enqueueReplay(channel);
+    }
+  }
+
+  /**
+   * Runs the task after the previous tasks of the channel, so that its events are handled in order.
+   */
+  private enqueue(
+    channel: string,
+    task: (state: ChannelState) => Promise<void>,
+  ): void {
+    let state = this.channelStates.get(channel);
+    if (!state) {
+      state = {
+        recentIds: new Set<number>(),
+        stalled: false,
+        queue: Promise.resolve(),
+      };
+      this.channelStates.set(channel, state);
+    }
+    const channelState = state;
+    channelState.queue = channelState.queue
+      .then(() => task(channelState))
+      .catch((err) => {
+        this._logger.error(`Failed to process channel "${channel}":`, err);
+      });
+  }
+
+  private enqueueReplay(channel: string): void {
+    this.enqueue(channel, (state) => this.replay(channel, state));
+  }
+
+  private scheduleReplay(channel: string): void {
+    const state = this.channelStates.get(channel);
+    if (!state || state.retryTimer || this.shuttingDown) {
+      return;
+    }
+    state.retryTimer = setTimeout(() => {
+      state.retryTimer = undefined;
+      this.enqueueReplay(channel);
+    }, REPLAY_RETRY_DELAY_MS);
+  }
+
+  /**
+   * Handles the journaled events of the channel after its last acknowledged id.
+   */
+  private async replay(channel: string, state: ChannelState): Promise<void> {
+    const client = this._pgClient;
+    if (!this.journalAvailable || !this.eventHandlers.has(channel)) {
+      return;
+    }
+    if (!client) {
+      // Replayed once reconnected
+      state.stalled = true;
+      return;
+    }
+    try {
+      if (state.lastEventId === undefined) {
+        state.lastEventId = await this.loadCursor(client, channel);
+      }
+      let after = state.lastEventId;
+      let replayed = 0;
+      let rows: { id: string; payload: IPgNotification }[];
+      do {
+        rows = (
+          await client.query<{ id: string; payload: IPgNotification }>(
+            `SELECT "id", "payload" FROM "DtoEventJournal"
+             WHERE "channel" = $1 AND "id" > $2
+             ORDER BY "id"
+             LIMIT $3`,
+            [channel, after, REPLAY_BATCH_SIZE],
+          )
+        ).rows;
+        for (const row of rows) {
+          const journalId = Number(row.id);
+          after = journalId;
+          if (state.recentIds.has(journalId)) {
+            continue;
+          }
+          if (!(await this.handle(channel, state, row.payload, journalId))) {
+            state.stalled = true;
+            this.scheduleReplay(channel);
+            return;
+          }
+          replayed++;
+        }
+      } while (rows.length === REPLAY_BATCH_SIZE);
+
+      state.stalled = false;
+      if (replayed > 0) {
+        this._logger.info(`Replayed ${replayed} events of "${channel}"`);
+      }
+    } catch (err) {
+      if ((err as { code?: string }).code === UNDEFINED_TABLE_ERROR_CODE) {
+        this.journalAvailable = false;
+        state.stalled = false;
+        this._logger.warn(
+          'DtoEventJournal does not exist, missed events are not replayed',
+        );
+        return;
+      }
+      this._logger.error(`Failed to replay events of "${channel}":`, err);
+      state.stalled = true;
+      this.scheduleReplay(channel);
+    }
+  }
+
+  /**
+   * @returns Whether the event was handled; journaled events are then acknowledged.
+   */
+  private async handle(
+    channel: string,
+    state: ChannelState,
+    notification: IPgNotification,
+    journalId?: number,
+  ): Promise<boolean> {
+    const handler = this.eventHandlers.get(channel);
+    if (!handler) {
+      return false;
+    }
+    try {
+      await handler.handleEvent({
+        eventType: notification.operation,
+        payload: notification.data,
+      });
+    } catch (err) {
+      this._logger.error(`Failed to handle event of "${channel}":`, err);
+      handler.handleError(err);
+      return false;
+    }
+    if (journalId !== undefined) {
+      await this.acknowledge(channel, state, journalId);
+    }
+    return true;
+  }
+
+  private async acknowledge(
+    channel: string,
+    state: ChannelState,
+    journalId: number,
+  ): Promise<void> {
+    state.recentIds.add(journalId);
+    if (state.recentIds.size > RECENT_IDS_LIMIT) {
+      const oldest = state.recentIds.values().next().value;
+      state.recentIds.delete(oldest!);
+    }
+    if (state.lastEventId !== undefined && journalId <= state.lastEventId) {
+      return;
+    }
+    state.lastEventId = journalId;
+    try {
+      await this._pgClient?.query(
+        `INSERT INTO "DtoEventJournalCursors" ("channel", "lastEventId", "updatedAt")
+         VALUES ($1, $2, now())
+         ON CONFLICT ("channel") DO UPDATE
+         SET "lastEventId" = GREATEST("DtoEventJournalCursors"."lastEventId", EXCLUDED."lastEventId"),
+             "updatedAt" = now()`,
+        [channel, journalId],
+      );
+    } catch (err) {
+      this._logger.warn(`Failed to acknowledge event ${journalId}:`, err);
+    }
+  }
+
+  /**
+   * Channels without a cursor start at the latest journaled event instead of the whole journal.
+   */
+  private async loadCursor(client: Client, channel: string): Promise<number> {
+    const cursor = await client.query<{ lastEventId: string }>(
+      `SELECT "lastEventId" FROM "DtoEventJournalCursors" WHERE "channel" = $1`,
+      [channel],
+    );
+    if (cursor.rows[0]) {
+      return Number(cursor.rows[0].lastEventId);
+    }
+    const latest = await client.query<{ id: string }>(
+      `SELECT COALESCE(MAX("id"), 0) AS "id" FROM "DtoEventJournal" WHERE "channel" = $1`,
+      [channel],
+    );
+    const lastEventId = Number(latest.rows[0].id);
+    await client.query(
+      `INSERT INTO "DtoEventJournalCursors" ("channel", "lastEventId")
+       VALUES ($1, $2)
+       ON CONFLICT ("channel") DO NOTHING`,
+      [channel, lastEventId],
+    );
+    return lastEventId;
+  }
+
+  private startJournalPruning(): void {
+    if (this.pruneTimer) {
+      return;
+    }
+    const retentionHours =
+      this._config.pgNotify?.journalRetentionHours ??
+      DEFAULT_JOURNAL_RETENTION_HOURS;
+    this.pruneTimer = setInterval(() => {
+      if (!this._pgClient || !this.journalAvailable) {
+        return;
+      }
+      this._pgClient
+        .query(
+          `DELETE FROM "DtoEventJournal" WHERE "createdAt" < now() - make_interval(hours => $1)`,
+          [retentionHours],
+        )
+        .then((result) =>
+          this._logger.debug(`Pruned ${result.rowCount} journaled events`),
+        )
+        .catch((err) =>
+          this._logger.warn('Failed to prune DtoEventJournal:', err),
+        );
+    }, JOURNAL_PRUNE_INTERVAL_MS);
+  }
 }
@@ -0,0 +1,41 @@
+// SPDX-FileCopyrightText: 2025 Contributors to the CitrineOS Project
+//
+// SPDX-License-Identifier: Apache-2.0
+
+import { ILogObj, Logger } from 'tslog';
+import { Token } from 'typedi';
+import { OcpiConfig } from '../config/ocpi.types';
+import { KafkaDtoReceiver } from './kafka/receiver';
+import { KafkaDtoSender } from './kafka/sender';
+import { RabbitMqDtoReceiver } from './rabbitMQ/receiver';
+import { RabbitMqDtoSender } from './rabbitMQ/sender';
+import { IDtoEventReceiver, IDtoEventSender } from './types';
+
+export const DtoEventSenderToken = new Token<IDtoEventSender>(
+  'dto.event.sender',
+);
+
+/**
+ * Kafka is used when it is configured, RabbitMQ otherwise.
+ */
+function usesKafka(config: OcpiConfig): boolean {
+  return !!config.messageBroker?.kafka;
+}
+
+export function createDtoEventSender(
+  config: OcpiConfig,
+  logger?: Logger<ILogObj>,
+): IDtoEventSender {
+  return usesKafka(config)
+    ? new KafkaDtoSender(config, logger)
+    : new RabbitMqDtoSender(config, logger);
+}
+
+export function createDtoEventReceiver(
+  config: OcpiConfig,
+  logger?: Logger<ILogObj>,
+): IDtoEventReceiver {
+  return usesKafka(config)
+    ? new KafkaDtoReceiver(config, logger)
+    : new RabbitMqDtoReceiver(config, logger);
+}
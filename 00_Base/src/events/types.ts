@@ -82,6 +82,11 @@ export interface IDtoEventReceiver {
     filter?: { [k: string]: string },
   ): Promise<boolean>;
 
+  /**
+   * Starts delivering events once all subscriptions of the module are registered.
+   */
+  start(): Promise<void>;
+
   /**
    * Handles incoming Dto events.
    * @param event - The event to be handled.
@@ -166,14 +171,18 @@ export interface IDtoEventSubscriber {
    * Subscribes to a Dto event.
    *
    * @param eventId - The identifier of the event to subscribe to.
-   * @param handleEvent - The function to handle the event when it occurs.
+   * @param handleEvent - The function to handle the event when it occurs. A rejected promise
+   * leaves the event unacknowledged, so that it is delivered again.
    * @param handleError - The function to handle errors that occur during subscription.
    * @param handleDisconnect - Optional. The function to handle disconnection events.
    * @returns A promise that resolves to a boolean indicating whether the subscription was successful.
    */
   subscribe<T extends IDtoPayload>(
     eventId: string,
-    handleEvent: (event: { eventType: DtoEventType; payload: T }) => void,
+    handleEvent: (event: {
+      eventType: DtoEventType;
+      payload: T;
+    }) => void | Promise<void>,
     handleError: (error: any) => void,
     handleDisconnect?: () => void,
   ): Promise<boolean>;
@@ -45,6 +45,8 @@ export type Authorizations_Set_Input = {
   updatedAt: Scalars['timestamptz']['input'];
 };
 export type Locations_Bool_Exp = {
+  _or?: InputMaybe<Array<Locations_Bool_Exp>>;
+  id?: InputMaybe<Int_Comparison_Exp>;
   updatedAt?: InputMaybe<Timestamptz_Comparison_Exp>;
   Tenant?: InputMaybe<Tenants_Bool_Exp>;
   TenantPartnerLocations?: InputMaybe<TenantPartnerLocations_Bool_Exp>;
@@ -54,6 +56,7 @@ export type Tariffs_Bool_Exp = {
   Tenant?: InputMaybe<Tenants_Bool_Exp>;
 };
 export type Transactions_Bool_Exp = {
+  isActive?: InputMaybe<Boolean_Comparison_Exp>;
   updatedAt?: InputMaybe<Timestamptz_Comparison_Exp>;
   Authorization?: InputMaybe<Authorizations_Bool_Exp>;
   Tenant?: InputMaybe<Tenants_Bool_Exp>;
@@ -64,25 +67,303 @@ export type Authorizations_Bool_Exp = {
 export type Timestamptz_Comparison_Exp = {
   _gte?: InputMaybe<Scalars['timestamptz']['input']>;
   _lte?: InputMaybe<Scalars['timestamptz']['input']>;
+  _is_null?: InputMaybe<Scalars['Boolean']['input']>;
 };
 export type Tenants_Bool_Exp = {
   countryCode?: InputMaybe<String_Comparison_Exp>;
   partyId?: InputMaybe<String_Comparison_Exp>;
+  TenantPartners?: InputMaybe<TenantPartners_Bool_Exp>;
 };
 export type TenantPartners_Bool_Exp = {
+  id?: InputMaybe<Int_Comparison_Exp>;
   countryCode?: InputMaybe<String_Comparison_Exp>;
   partyId?: InputMaybe<String_Comparison_Exp>;
+  publishAllLocations?: InputMaybe<Boolean_Comparison_Exp>;
 };
 export type String_Comparison_Exp = {
   _eq?: InputMaybe<Scalars['String']['input']>;
+  _in?: InputMaybe<Array<Scalars['String']['input']>>;
+  _is_null?: InputMaybe<Scalars['Boolean']['input']>;
+};
+export type Boolean_Comparison_Exp = {
+  _eq?: InputMaybe<Scalars['Boolean']['input']>;
 };
 export type Int_Comparison_Exp = {
   _eq?: InputMaybe<Scalars['Int']['input']>;
+  _in?: InputMaybe<Array<Scalars['Int']['input']>>;
 };
 export type TenantPartnerLocations_Bool_Exp = {
   tenantPartnerId?: InputMaybe<Int_Comparison_Exp>;
 };
-export type InsertCdrRecordMutationVariables = Exact<{
+export type TenantPartnerLocations_Insert_Input = {
+  tenantPartnerId: Scalars['Int']['input'];
+  locationId: Scalars['Int']['input'];
+  createdAt: Scalars['timestamptz']['input'];
+  updatedAt: Scalars['timestamptz']['input'];
+};
+export type TenantPartnerLocationPushes_Bool_Exp = {
+  tenantPartnerId?: InputMaybe<Int_Comparison_Exp>;
+  locationId?: InputMaybe<Int_Comparison_Exp>;
+};
+export type TenantPartnerLocationPushes_Insert_Input = {
+  tenantPartnerId: Scalars['Int']['input'];
+  locationId: Scalars['Int']['input'];
+  httpMethod: Scalars['String']['input'];
+  path: Scalars['String']['input'];
+  lastPushedAt: Scalars['timestamptz']['input'];
+  createdAt: Scalars['timestamptz']['input'];
+  updatedAt: Scalars['timestamptz']['input'];
+};
+export type LocationGroups_Bool_Exp = {
+  id?: InputMaybe<Int_Comparison_Exp>;
+  tenantId?: InputMaybe<Int_Comparison_Exp>;
+};
+export type LocationGroupLocations_Insert_Input = {
+  locationGroupId?: InputMaybe<Scalars['Int']['input']>;
+  locationId: Scalars['Int']['input'];
+  createdAt: Scalars['timestamptz']['input'];
+  updatedAt: Scalars['timestamptz']['input'];
+};
+export type LocationGroups_Insert_Input = {
+  tenantId: Scalars['Int']['input'];
+  name: Scalars['String']['input'];
+  createdAt: Scalars['timestamptz']['input'];
+  updatedAt: Scalars['timestamptz']['input'];
+  LocationGroupLocations: {
+    data: Array<LocationGroupLocations_Insert_Input>;
+  };
+};
+export type OcpiLocationExtensions_Insert_Input = {
+  locationId: Scalars['Int']['input'];
+  openingTimes?: InputMaybe<Scalars['jsonb']['input']>;
+  facilities?: InputMaybe<Scalars['jsonb']['input']>;
+  images?: InputMaybe<Scalars['jsonb']['input']>;
+  energyMix?: InputMaybe<Scalars['jsonb']['input']>;
+  parkingType?: InputMaybe<Scalars['String']['input']>;
+  relatedLocations?: InputMaybe<Scalars['jsonb']['input']>;
+  directions?: InputMaybe<Scalars['jsonb']['input']>;
+  operator?: InputMaybe<Scalars['jsonb']['input']>;
+  suboperator?: InputMaybe<Scalars['jsonb']['input']>;
+  owner?: InputMaybe<Scalars['jsonb']['input']>;
+  chargingWhenClosed?: InputMaybe<Scalars['Boolean']['input']>;
+  createdAt: Scalars['timestamptz']['input'];
+  updatedAt: Scalars['timestamptz']['input'];
+};
+export type OcpiEvseExtensions_Insert_Input = {
+  evseId: Scalars['Int']['input'];
+  parkingRestrictions?: InputMaybe<Scalars['jsonb']['input']>;
+  floorLevel?: InputMaybe<Scalars['String']['input']>;
+  physicalReference?: InputMaybe<Scalars['String']['input']>;
+  createdAt: Scalars['timestamptz']['input'];
+  updatedAt: Scalars['timestamptz']['input'];
+};
+export type EvseStatusSchedules_Insert_Input = {
+  evseId: Scalars['Int']['input'];
+  status: Scalars['String']['input'];
+  periodBegin: Scalars['timestamptz']['input'];
+  periodEnd?: InputMaybe<Scalars['timestamptz']['input']>;
+  changeAvailability: Scalars['Boolean']['input'];
+  createdAt: Scalars['timestamptz']['input'];
+  updatedAt: Scalars['timestamptz']['input'];
+};
+export type EvseStatusSchedules_Set_Input = {
+  startedAt?: InputMaybe<Scalars['timestamptz']['input']>;
+  endedAt?: InputMaybe<Scalars['timestamptz']['input']>;
+  updatedAt?: InputMaybe<Scalars['timestamptz']['input']>;
+};
+export type CdrRecords_Bool_Exp = {
+  tenantPartnerId?: InputMaybe<Int_Comparison_Exp>;
+  lastUpdated?: InputMaybe<Timestamptz_Comparison_Exp>;
+};
+export type OutboxMessages_Bool_Exp = {
+  id?: InputMaybe<Int_Comparison_Exp>;
+  tenantPartnerId?: InputMaybe<Int_Comparison_Exp>;
+  moduleId?: InputMaybe<String_Comparison_Exp>;
+  status?: InputMaybe<String_Comparison_Exp>;
+};
+export type OutboxMessages_Insert_Input = {
+  tenantPartnerId: Scalars['Int']['input'];
+  moduleId: Scalars['String']['input'];
+  httpMethod: Scalars['String']['input'];
+  path?: InputMaybe<Scalars['String']['input']>;
+  body?: InputMaybe<Scalars['jsonb']['input']>;
+  toCountryCode?: InputMaybe<Scalars['String']['input']>;
+  toPartyId?: InputMaybe<Scalars['String']['input']>;
+  queueKey: Scalars['String']['input'];
+  status: Scalars['String']['input'];
+  attempts: Scalars['Int']['input'];
+  nextAttemptAt: Scalars['timestamptz']['input'];
+  createdAt: Scalars['timestamptz']['input'];
+  updatedAt: Scalars['timestamptz']['input'];
+};
+export type OutboxMessages_Set_Input = {
+  status?: InputMaybe<Scalars['String']['input']>;
+  attempts?: InputMaybe<Scalars['Int']['input']>;
+  nextAttemptAt?: InputMaybe<Scalars['timestamptz']['input']>;
+  lastAttemptAt?: InputMaybe<Scalars['timestamptz']['input']>;
+  lastError?: InputMaybe<Scalars['String']['input']>;
+  updatedAt: Scalars['timestamptz']['input'];
+};
+export type OcpiCommands_Bool_Exp = {
+  id?: InputMaybe<String_Comparison_Exp>;
+  tenantPartnerId?: InputMaybe<Int_Comparison_Exp>;
+  sessionId?: InputMaybe<String_Comparison_Exp>;
+  authorizationReference?: InputMaybe<String_Comparison_Exp>;
+  state?: InputMaybe<String_Comparison_Exp>;
+  result?: InputMaybe<String_Comparison_Exp>;
+};
+export type OcpiCommands_Insert_Input = {
+  id: Scalars['String']['input'];
+  tenantPartnerId: Scalars['Int']['input'];
+  stationId: Scalars['String']['input'];
+  command: Scalars['String']['input'];
+  responseUrl: Scalars['String']['input'];
+  sessionId?: InputMaybe<Scalars['String']['input']>;
+  authorizationReference?: InputMaybe<Scalars['String']['input']>;
+  state: Scalars['String']['input'];
+  transitions: Scalars['jsonb']['input'];
+  expiresAt: Scalars['timestamptz']['input'];
+  resultDeliveryStatus: Scalars['String']['input'];
+  createdAt: Scalars['timestamptz']['input'];
+  updatedAt: Scalars['timestamptz']['input'];
+};
+export type OcpiCommands_Set_Input = {
+  correlationId?: InputMaybe<Scalars['String']['input']>;
+  state?: InputMaybe<Scalars['String']['input']>;
+  result?: InputMaybe<Scalars['String']['input']>;
+  resultDeliveryStatus?: InputMaybe<Scalars['String']['input']>;
+  resultDeliveredAt?: InputMaybe<Scalars['timestamptz']['input']>;
+  resultError?: InputMaybe<Scalars['String']['input']>;
+  updatedAt: Scalars['timestamptz']['input'];
+};
+export type OcpiCommands_Append_Input = {
+  transitions?: InputMaybe<Scalars['jsonb']['input']>;
+};
+export type OcpiTrafficLogs_Bool_Exp = {
+  tenantPartnerId?: InputMaybe<Int_Comparison_Exp>;
+  module?: InputMaybe<String_Comparison_Exp>;
+  correlationId?: InputMaybe<String_Comparison_Exp>;
+  sessionId?: InputMaybe<String_Comparison_Exp>;
+  createdAt?: InputMaybe<Timestamptz_Comparison_Exp>;
+};
+export type OcpiTrafficLogs_Insert_Input = {
+  id: Scalars['String']['input'];
+  direction: Scalars['String']['input'];
+  tenantPartnerId?: InputMaybe<Scalars['Int']['input']>;
+  module?: InputMaybe<Scalars['String']['input']>;
+  method: Scalars['String']['input'];
+  url: Scalars['String']['input'];
+  fromCountryCode?: InputMaybe<Scalars['String']['input']>;
+  fromPartyId?: InputMaybe<Scalars['String']['input']>;
+  toCountryCode?: InputMaybe<Scalars['String']['input']>;
+  toPartyId?: InputMaybe<Scalars['String']['input']>;
+  requestId?: InputMaybe<Scalars['String']['input']>;
+  correlationId?: InputMaybe<Scalars['String']['input']>;
+  sessionId?: InputMaybe<Scalars['String']['input']>;
+  httpStatus?: InputMaybe<Scalars['Int']['input']>;
+  ocpiStatusCode?: InputMaybe<Scalars['Int']['input']>;
+  latencyMs: Scalars['Int']['input'];
+  requestBody?: InputMaybe<Scalars['jsonb']['input']>;
+  responseBody?: InputMaybe<Scalars['jsonb']['input']>;
+  error?: InputMaybe<Scalars['String']['input']>;
+  createdAt: Scalars['timestamptz']['input'];
+};
+export type AsyncJobStatuses_Bool_Exp = {
+  jobName?: InputMaybe<String_Comparison_Exp>;
+  tenantPartnerId?: InputMaybe<Int_Comparison_Exp>;
+  finishedAt?: InputMaybe<Timestamptz_Comparison_Exp>;
+  stoppedAt?: InputMaybe<Timestamptz_Comparison_Exp>;
+  stopScheduled?: InputMaybe<Boolean_Comparison_Exp>;
+  isFailed?: InputMaybe<Boolean_Comparison_Exp>;
+  _or?: InputMaybe<Array<AsyncJobStatuses_Bool_Exp>>;
+};
+export type AsyncJobStatuses_Insert_Input = {
+  jobId: Scalars['String']['input'];
+  jobName: Scalars['String']['input'];
+  tenantPartnerId: Scalars['Int']['input'];
+  stopScheduled: Scalars['Boolean']['input'];
+  isFailed: Scalars['Boolean']['input'];
+  paginationParams: Scalars['json']['input'];
+  createdAt: Scalars['timestamptz']['input'];
+  updatedAt: Scalars['timestamptz']['input'];
+};
+export type AsyncJobStatuses_Set_Input = {
+  finishedAt?: InputMaybe<Scalars['timestamptz']['input']>;
+  stoppedAt?: InputMaybe<Scalars['timestamptz']['input']>;
+  stopScheduled?: InputMaybe<Scalars['Boolean']['input']>;
+  isFailed?: InputMaybe<Scalars['Boolean']['input']>;
+  paginationParams?: InputMaybe<Scalars['json']['input']>;
+  totalObjects?: InputMaybe<Scalars['Int']['input']>;
+  lockedBy?: InputMaybe<Scalars['String']['input']>;
+  lockedUntil?: InputMaybe<Scalars['timestamptz']['input']>;
+  updatedAt: Scalars['timestamptz']['input'];
+};
+export type HubClientInfos_Bool_Exp = {
+  tenantPartnerId?: InputMaybe<Int_Comparison_Exp>;
+  countryCode?: InputMaybe<String_Comparison_Exp>;
+  partyId?: InputMaybe<String_Comparison_Exp>;
+  status?: InputMaybe<String_Comparison_Exp>;
+};
+export type HubClientInfos_Insert_Input = {
+  tenantPartnerId: Scalars['Int']['input'];
+  countryCode: Scalars['String']['input'];
+  partyId: Scalars['String']['input'];
+  role: Scalars['String']['input'];
+  status: Scalars['String']['input'];
+  lastUpdated: Scalars['timestamptz']['input'];
+  createdAt: Scalars['timestamptz']['input'];
+  updatedAt: Scalars['timestamptz']['input'];
+};
+export type OcpiReservations_Insert_Input = {
+  tenantPartnerId: Scalars['Int']['input'];
+  reservationId: Scalars['String']['input'];
+  locationId: Scalars['Int']['input'];
+  evseUid?: InputMaybe<Scalars['String']['input']>;
+  stationId: Scalars['String']['input'];
+  expiryDate: Scalars['timestamptz']['input'];
+  tokenUid: Scalars['String']['input'];
+  authorizationReference?: InputMaybe<Scalars['String']['input']>;
+  status: Scalars['String']['input'];
+  commandId?: InputMaybe<Scalars['String']['input']>;
+  createdAt: Scalars['timestamptz']['input'];
+  updatedAt: Scalars['timestamptz']['input'];
+};
+export type OcpiReservations_Set_Input = {
+  status?: InputMaybe<Scalars['String']['input']>;
+  commandId?: InputMaybe<Scalars['String']['input']>;
+  updatedAt: Scalars['timestamptz']['input'];
+};
+export type SessionChargingPreferences_Insert_Input = {
+  tenantPartnerId: Scalars['Int']['input'];
+  transactionId: Scalars['Int']['input'];
+  profileType: Scalars['String']['input'];
+  departureTime?: InputMaybe<Scalars['timestamptz']['input']>;
+  energyNeed?: InputMaybe<Scalars['numeric']['input']>;
+  dischargeAllowed?: InputMaybe<Scalars['Boolean']['input']>;
+  createdAt: Scalars['timestamptz']['input'];
+  updatedAt: Scalars['timestamptz']['input'];
+};
+export type SessionChargingProfiles_Insert_Input = {
+  tenantPartnerId: Scalars['Int']['input'];
+  transactionId: Scalars['Int']['input'];
+  stationId: Scalars['String']['input'];
+  chargingProfile: Scalars['jsonb']['input'];
+  commandId?: InputMaybe<Scalars['String']['input']>;
+  createdAt: Scalars['timestamptz']['input'];
+  updatedAt: Scalars['timestamptz']['input'];
+};
+export type PendingSessionChargingPeriods_Insert_Input = {
+  transactionId: Scalars['Int']['input'];
+  windowStart: Scalars['timestamptz']['input'];
+  flushAt: Scalars['timestamptz']['input'];
+  createdAt: Scalars['timestamptz']['input'];
+  updatedAt: Scalars['timestamptz']['input'];
+};
+export type SessionChargingProfiles_Set_Input = {
+  commandId?: InputMaybe<Scalars['String']['input']>;
+  updatedAt: Scalars['timestamptz']['input'];
+};
+export type CdrRecords_Insert_Input = {
   cdrId: Scalars['String']['input'];
   transactionId?: InputMaybe<Scalars['Int']['input']>;
   tenantPartnerId?: InputMaybe<Scalars['Int']['input']>;
@@ -102,9 +383,16 @@ export type InsertCdrRecordMutationVariables = Exact<{
   totalReservationCostExclVat?: InputMaybe<Scalars['numeric']['input']>;
   taxRate?: InputMaybe<Scalars['numeric']['input']>;
   cdrData: Scalars['jsonb']['input'];
+  credit?: InputMaybe<Scalars['Boolean']['input']>;
+  creditReferenceId?: InputMaybe<Scalars['String']['input']>;
+  invoiceReferenceId?: InputMaybe<Scalars['String']['input']>;
+  originalCdrRecordId?: InputMaybe<Scalars['Int']['input']>;
+  lastUpdated?: InputMaybe<Scalars['timestamptz']['input']>;
   createdAt: Scalars['timestamptz']['input'];
   updatedAt: Scalars['timestamptz']['input'];
-}>;
+};
+
+export type InsertCdrRecordMutationVariables = Exact<CdrRecords_Insert_Input>;
 
 export type InsertCdrRecordMutationResult = {
   insert_CdrRecords_one?: {
@@ -113,6 +401,92 @@ export type InsertCdrRecordMutationResult = {
   } | null;
 };
 
+export type InsertReissuedCdrRecordsMutationVariables = Exact<{
+  objects: Array<CdrRecords_Insert_Input>;
+}>;
+
+export type InsertReissuedCdrRecordsMutationResult = {
+  insert_CdrRecords?: {
+    returning: Array<{
+      id: number;
+      cdrId: string;
+    }>;
+  } | null;
+};
+
+export type GetCdrRecordsByTransactionIdQueryVariables = Exact<{
+  transactionId: Scalars['Int']['input'];
+}>;
+
+export type GetCdrRecordsByTransactionIdQueryResult = {
+  CdrRecords: Array<{
+    id: number;
+    cdrId: string;
+    tenantPartnerId?: number | null;
+    credit: boolean;
+    originalCdrRecordId?: number | null;
+    cdrData: any;
+  }>;
+};
+
+export type GetCdrRecordsQueryVariables = Exact<{
+  where: CdrRecords_Bool_Exp;
+  offset?: InputMaybe<Scalars['Int']['input']>;
+  limit?: InputMaybe<Scalars['Int']['input']>;
+}>;
+
+export type GetCdrRecordsQueryResult = {
+  CdrRecords: Array<{
+    id: number;
+    cdrId: string;
+    cdrData: any;
+  }>;
+  CdrRecords_aggregate: {
+    aggregate?: {
+      count: number;
+    } | null;
+  };
+};
+
+export type GetCdrRecordByCdrIdQueryVariables = Exact<{
+  cdrId: Scalars['String']['input'];
+  tenantPartnerId: Scalars['Int']['input'];
+}>;
+
+export type GetCdrRecordByCdrIdQueryResult = {
+  CdrRecords: Array<{
+    id: number;
+    cdrId: string;
+    locationUrl?: string | null;
+    cdrData: any;
+  }>;
+};
+
+export type UpdateCdrRecordLocationUrlMutationVariables = Exact<{
+  cdrId: Scalars['String']['input'];
+  tenantPartnerId: Scalars['Int']['input'];
+  locationUrl: Scalars['String']['input'];
+  updatedAt: Scalars['timestamptz']['input'];
+}>;
+
+export type UpdateCdrRecordLocationUrlMutationResult = {
+  update_CdrRecords?: {
+    affected_rows: number;
+  } | null;
+};
+
+export type NextInvoiceReferenceSequenceMutationVariables = Exact<{
+  tenantId: Scalars['Int']['input'];
+  now: Scalars['timestamptz']['input'];
+}>;
+
+export type NextInvoiceReferenceSequenceMutationResult = {
+  update_InvoiceReferenceSequences_by_pk?: {
+    tenantId: number;
+    lastValue: number;
+  } | null;
+};
+
 export type GetChargingStationByIdQueryVariables = Exact<{
   id: Scalars['String']['input'];
 }>;
@@ -153,6 +527,7 @@ export type GetChargingStationByIdQueryResult = {
       evseId?: number | null;
       connectorId: number;
       evseTypeConnectorId?: number | null;
+      maximumPowerWatts?: number | null;
       status?: any | null;
       errorCode?: any | null;
       timestamp?: any | null;
@@ -169,6 +544,14 @@ export type GetChargingStationByIdQueryResult = {
   }>;
 };
 
+export type GetChargingStationsByLocationIdQueryVariables = Exact<{
+  location: Locations_Bool_Exp;
+}>;
+
+export type GetChargingStationsByLocationIdQueryResult = {
+  ChargingStations: GetChargingStationByIdQueryResult['ChargingStations'];
+};
+
 export type GetSequenceQueryVariables = Exact<{
   tenantId: Scalars['Int']['input'];
   stationId: Scalars['String']['input'];
@@ -195,6 +578,34 @@ export type UpsertSequenceMutationResult = {
   } | null;
 };
 
+export type OcpiLocationExtensionFields = {
+  openingTimes?: any | null;
+  facilities?: any | null;
+  images?: any | null;
+  energyMix?: any | null;
+  parkingType?: string | null;
+  relatedLocations?: any | null;
+  directions?: any | null;
+  operator?: any | null;
+  suboperator?: any | null;
+  owner?: any | null;
+  chargingWhenClosed?: boolean | null;
+  updatedAt: any;
+};
+
+export type OcpiEvseExtensionFields = {
+  parkingRestrictions?: any | null;
+  floorLevel?: string | null;
+  physicalReference?: string | null;
+  updatedAt: any;
+};
+
+export type EvseStatusScheduleFields = {
+  status: string;
+  periodBegin: any;
+  periodEnd?: any | null;
+};
+
 export type GetLocationsQueryVariables = Exact<{
   limit?: InputMaybe<Scalars['Int']['input']>;
   offset?: InputMaybe<Scalars['Int']['input']>;
@@ -222,6 +633,7 @@ export type GetLocationsQueryResult = {
       partyId: string;
       countryCode: string;
     };
+    ocpiExtension?: OcpiLocationExtensionFields | null;
     chargingPool: Array<{
       id: string;
       isOnline?: boolean | null;
@@ -251,6 +663,8 @@ export type GetLocationsQueryResult = {
         removed?: boolean | null;
         createdAt: any;
         updatedAt: any;
+        ocpiExtension?: OcpiEvseExtensionFields | null;
+        statusSchedules?: Array<EvseStatusScheduleFields>;
         connectors: Array<{
           id: number;
           stationId: string;
@@ -279,6 +693,11 @@ export type GetLocationsQueryResult = {
       }>;
     }>;
   }>;
+  Locations_aggregate: {
+    aggregate?: {
+      count: number;
+    } | null;
+  };
 };
 
 export type GetLocationByIdQueryVariables = Exact<{
@@ -306,6 +725,7 @@ export type GetLocationByIdQueryResult = {
       partyId: string;
       countryCode: string;
     };
+    ocpiExtension?: OcpiLocationExtensionFields | null;
     chargingPool: Array<{
       id: string;
       isOnline?: boolean | null;
@@ -335,6 +755,8 @@ export type GetLocationByIdQueryResult = {
         removed?: boolean | null;
         createdAt: any;
         updatedAt: any;
+        ocpiExtension?: OcpiEvseExtensionFields | null;
+        statusSchedules?: Array<EvseStatusScheduleFields>;
         connectors: Array<{
           id: number;
           stationId: string;
@@ -402,6 +824,8 @@ export type GetEvseByIdQueryResult = {
         removed?: boolean | null;
         createdAt: any;
         updatedAt: any;
+        ocpiExtension?: OcpiEvseExtensionFields | null;
+        statusSchedules?: Array<EvseStatusScheduleFields>;
       }>;
     }>;
   }>;
@@ -463,7 +887,15 @@ export type GetTariffByKeyQueryResult = {
     pricePerSession?: any | null;
     stationId?: string | null;
     taxRate?: any | null;
-    tariffAltText?: string | null;
+    tariffAltText?: any | null;
+    tariffAltUrl?: string | null;
+    tariffType?: string | null;
+    elements?: any | null;
+    minPrice?: any | null;
+    maxPrice?: any | null;
+    energyMix?: any | null;
+    startDateTime?: any | null;
+    endDateTime?: any | null;
     updatedAt: any;
     tenant: {
       countryCode: string;
@@ -490,7 +922,15 @@ export type GetTariffsQueryResult = {
     pricePerSession?: any | null;
     stationId?: string | null;
     taxRate?: any | null;
-    tariffAltText?: string | null;
+    tariffAltText?: any | null;
+    tariffAltUrl?: string | null;
+    tariffType?: string | null;
+    elements?: any | null;
+    minPrice?: any | null;
+    maxPrice?: any | null;
+    energyMix?: any | null;
+    startDateTime?: any | null;
+    endDateTime?: any | null;
     updatedAt: any;
     tenant: {
       countryCode: string;
@@ -567,6 +1007,9 @@ export type DeleteTenantPartnerByServerTokenMutationVariables = Exact<{
 export type DeleteTenantPartnerByServerTokenMutationResult = {
   delete_TenantPartners?: {
     affected_rows: number;
+    returning: Array<{
+      id: number;
+    }>;
   } | null;
 };
 
@@ -865,6 +1308,8 @@ export type GetTransactionsQueryResult = {
     transactionEvents: Array<{
       id: number;
       eventType?: string | null;
+      triggerReason?: string | null;
+      reservationId?: number | null;
       transactionInfo?: any | null;
       EvseType?: {
         id?: number | null;
@@ -881,6 +1326,11 @@ export type GetTransactionsQueryResult = {
       sampledValue?: any | null;
     }>;
   }>;
+  Transactions_aggregate: {
+    aggregate?: {
+      count: number;
+    } | null;
+  };
 };
 
 export type UpdateTransactionCustomDataMutationVariables = Exact<{
@@ -923,12 +1373,14 @@ export type GetTransactionByTransactionIdQueryResult = {
     tariffId?: number | null;
     customData?: any | null;
     tenant: {
+      id: number;
       countryCode: string;
       partyId: string;
     };
     authorization?: {
       idToken: string;
       additionalInfo?: any | null;
+      customData?: any | null;
       tenantPartner?: {
         id: number;
         countryCode: string;
@@ -949,6 +1401,8 @@ export type GetTransactionByTransactionIdQueryResult = {
     transactionEvents: Array<{
       id: number;
       eventType?: string | null;
+      triggerReason?: string | null;
+      reservationId?: number | null;
       transactionInfo?: any | null;
       EvseType?: {
         id?: number | null;
@@ -966,3 +1420,874 @@ export type GetTransactionByTransactionIdQueryResult = {
     }>;
   }>;
 };
+
+export type InsertOutboxMessageMutationVariables = Exact<{
+  object: OutboxMessages_Insert_Input;
+}>;
+
+export type InsertOutboxMessageMutationResult = {
+  insert_OutboxMessages_one?: {
+    id: number;
+  } | null;
+};
+
+export type GetOutboxQueueHeadsQueryVariables = Exact<{
+  tenantPartnerId: Scalars['Int']['input'];
+}>;
+
+export type GetOutboxQueueHeadsQueryResult = {
+  OutboxMessages: Array<{
+    id: number;
+    tenantPartnerId: number;
+    moduleId: string;
+    httpMethod: string;
+    path?: string | null;
+    body?: any | null;
+    toCountryCode?: string | null;
+    toPartyId?: string | null;
+    queueKey: string;
+    status: string;
+    attempts: number;
+    nextAttemptAt: any;
+    TenantPartner: {
+      id: number;
+      countryCode: string;
+      partyId: string;
+      partnerProfileOCPI?: any | null;
+      tenantId: number;
+      tenant: {
+        id: number;
+        countryCode: string;
+        partyId: string;
+      };
+    };
+  }>;
+};
+
+export type GetDueOutboxPartnersQueryVariables = Exact<{
+  now: Scalars['timestamptz']['input'];
+}>;
+
+export type GetDueOutboxPartnersQueryResult = {
+  OutboxMessages: Array<{
+    tenantPartnerId: number;
+  }>;
+};
+
+export type ClaimOutboxMessageMutationVariables = Exact<{
+  id: Scalars['Int']['input'];
+  now: Scalars['timestamptz']['input'];
+  leasedUntil: Scalars['timestamptz']['input'];
+}>;
+
+export type ClaimOutboxMessageMutationResult = {
+  update_OutboxMessages?: {
+    affected_rows: number;
+  } | null;
+};
+
+export type UpdateOutboxMessageMutationVariables = Exact<{
+  id: Scalars['Int']['input'];
+  set: OutboxMessages_Set_Input;
+}>;
+
+export type UpdateOutboxMessageMutationResult = {
+  update_OutboxMessages_by_pk?: {
+    id: number;
+  } | null;
+};
+
+export type DeleteOutboxMessageMutationVariables = Exact<{
+  id: Scalars['Int']['input'];
+}>;
+
+export type DeleteOutboxMessageMutationResult = {
+  delete_OutboxMessages_by_pk?: {
+    id: number;
+  } | null;
+};
+
+export type ListOutboxMessagesQueryVariables = Exact<{
+  where: OutboxMessages_Bool_Exp;
+  offset?: InputMaybe<Scalars['Int']['input']>;
+  limit?: InputMaybe<Scalars['Int']['input']>;
+}>;
+
+export type ListOutboxMessagesQueryResult = {
+  OutboxMessages: Array<{
+    id: number;
+    tenantPartnerId: number;
+    moduleId: string;
+    httpMethod: string;
+    path?: string | null;
+    body?: any | null;
+    toCountryCode?: string | null;
+    toPartyId?: string | null;
+    queueKey: string;
+    status: string;
+    attempts: number;
+    nextAttemptAt: any;
+    lastAttemptAt?: any | null;
+    lastError?: string | null;
+    createdAt: any;
+    updatedAt: any;
+  }>;
+  OutboxMessages_aggregate: {
+    aggregate?: {
+      count: number;
+    } | null;
+  };
+};
+
+export type RetryOutboxMessagesMutationVariables = Exact<{
+  where: OutboxMessages_Bool_Exp;
+  now: Scalars['timestamptz']['input'];
+}>;
+
+export type RetryOutboxMessagesMutationResult = {
+  update_OutboxMessages?: {
+    affected_rows: number;
+  } | null;
+};
+
+export type DeleteOutboxMessagesMutationVariables = Exact<{
+  where: OutboxMessages_Bool_Exp;
+}>;
+
+export type DeleteOutboxMessagesMutationResult = {
+  delete_OutboxMessages?: {
+    affected_rows: number;
+  } | null;
+};
+
+export type UpsertHubClientInfoMutationVariables = Exact<{
+  object: HubClientInfos_Insert_Input;
+}>;
+
+export type UpsertHubClientInfoMutationResult = {
+  insert_HubClientInfos_one?: {
+    id: number;
+  } | null;
+};
+
+export type GetHubClientInfosQueryVariables = Exact<{
+  where: HubClientInfos_Bool_Exp;
+}>;
+
+export type GetHubClientInfosQueryResult = {
+  HubClientInfos: Array<{
+    id: number;
+    tenantPartnerId: number;
+    countryCode: string;
+    partyId: string;
+    role: string;
+    status: string;
+    lastUpdated: any;
+  }>;
+};
+
+export type UpsertOcpiReservationMutationVariables = Exact<{
+  object: OcpiReservations_Insert_Input;
+}>;
+
+export type UpsertOcpiReservationMutationResult = {
+  insert_OcpiReservations_one?: {
+    id: number;
+    reservationId: string;
+    stationId: string;
+    status: string;
+  } | null;
+};
+
+export type GetOcpiReservationQueryVariables = Exact<{
+  tenantPartnerId: Scalars['Int']['input'];
+  reservationId: Scalars['String']['input'];
+}>;
+
+export type GetOcpiReservationQueryResult = {
+  OcpiReservations: Array<{
+    id: number;
+    tenantPartnerId: number;
+    reservationId: string;
+    locationId: number;
+    evseUid?: string | null;
+    stationId: string;
+    expiryDate: any;
+    tokenUid: string;
+    authorizationReference?: string | null;
+    status: string;
+    commandId?: string | null;
+    createdAt: any;
+    updatedAt: any;
+  }>;
+};
+
+export type UpdateOcpiReservationMutationVariables = Exact<{
+  id: Scalars['Int']['input'];
+  set: OcpiReservations_Set_Input;
+}>;
+
+export type UpdateOcpiReservationMutationResult = {
+  update_OcpiReservations_by_pk?: {
+    id: number;
+  } | null;
+};
+
+export type UpdateOcpiReservationByCommandIdMutationVariables = Exact<{
+  commandId: Scalars['String']['input'];
+  set: OcpiReservations_Set_Input;
+}>;
+
+export type UpdateOcpiReservationByCommandIdMutationResult = {
+  update_OcpiReservations?: {
+    affected_rows: number;
+  } | null;
+};
+
+export type UpsertSessionChargingPreferencesMutationVariables = Exact<{
+  object: SessionChargingPreferences_Insert_Input;
+}>;
+
+export type UpsertSessionChargingPreferencesMutationResult = {
+  insert_SessionChargingPreferences_one?: {
+    id: number;
+  } | null;
+};
+
+export type UpsertSessionChargingProfileMutationVariables = Exact<{
+  object: SessionChargingProfiles_Insert_Input;
+}>;
+
+export type UpsertSessionChargingProfileMutationResult = {
+  insert_SessionChargingProfiles_one?: {
+    id: number;
+  } | null;
+};
+
+export type GetSessionChargingProfileQueryVariables = Exact<{
+  transactionId: Scalars['Int']['input'];
+}>;
+
+export type GetSessionChargingProfileQueryResult = {
+  SessionChargingProfiles: Array<{
+    id: number;
+    tenantPartnerId: number;
+    transactionId: number;
+    stationId: string;
+    chargingProfile: any;
+    commandId?: string | null;
+  }>;
+};
+
+export type UpdateSessionChargingProfileMutationVariables = Exact<{
+  id: Scalars['Int']['input'];
+  set: SessionChargingProfiles_Set_Input;
+}>;
+
+export type UpdateSessionChargingProfileMutationResult = {
+  update_SessionChargingProfiles_by_pk?: {
+    id: number;
+  } | null;
+};
+
+export type DeleteSessionChargingProfileByCommandIdMutationVariables = Exact<{
+  commandId: Scalars['String']['input'];
+}>;
+
+export type DeleteSessionChargingProfileByCommandIdMutationResult = {
+  delete_SessionChargingProfiles?: {
+    affected_rows: number;
+  } | null;
+};
+
+export type UpsertPendingSessionChargingPeriodsMutationVariables = Exact<{
+  object: PendingSessionChargingPeriods_Insert_Input;
+}>;
+
+export type UpsertPendingSessionChargingPeriodsMutationResult = {
+  insert_PendingSessionChargingPeriods_one?: {
+    id: number;
+  } | null;
+};
+
+export type DeletePendingSessionChargingPeriodsMutationVariables = Exact<{
+  transactionId: Scalars['Int']['input'];
+  windowStart: Scalars['timestamptz']['input'];
+}>;
+
+export type DeletePendingSessionChargingPeriodsMutationResult = {
+  delete_PendingSessionChargingPeriods?: {
+    affected_rows: number;
+  } | null;
+};
+
+export type GetPendingSessionChargingPeriodsQueryVariables = Exact<{
+  [key: string]: never;
+}>;
+
+export type GetPendingSessionChargingPeriodsQueryResult = {
+  PendingSessionChargingPeriods: Array<{
+    transactionId: number;
+    windowStart: any;
+    flushAt: any;
+  }>;
+};
+
+export type AsyncJobStatusFields = {
+  jobId: string;
+  jobName: string;
+  tenantPartnerId: number;
+  createdAt: any;
+  updatedAt: any;
+  finishedAt?: any | null;
+  stoppedAt?: any | null;
+  stopScheduled: boolean;
+  isFailed: boolean;
+  paginationParams: any;
+  totalObjects?: number | null;
+  lockedUntil?: any | null;
+};
+
+export type InsertAsyncJobStatusMutationVariables = Exact<{
+  object: AsyncJobStatuses_Insert_Input;
+}>;
+
+export type InsertAsyncJobStatusMutationResult = {
+  insert_AsyncJobStatuses_one?: AsyncJobStatusFields | null;
+};
+
+export type UpdateAsyncJobStatusMutationVariables = Exact<{
+  jobId: Scalars['String']['input'];
+  set: AsyncJobStatuses_Set_Input;
+}>;
+
+export type UpdateAsyncJobStatusMutationResult = {
+  update_AsyncJobStatuses_by_pk?: AsyncJobStatusFields | null;
+};
+
+export type GetAsyncJobStatusQueryVariables = Exact<{
+  jobId: Scalars['String']['input'];
+}>;
+
+export type GetAsyncJobStatusQueryResult = {
+  AsyncJobStatuses_by_pk?: AsyncJobStatusFields | null;
+};
+
+export type GetAsyncJobStatusesQueryVariables = Exact<{
+  where: AsyncJobStatuses_Bool_Exp;
+}>;
+
+export type GetAsyncJobStatusesQueryResult = {
+  AsyncJobStatuses: Array<AsyncJobStatusFields>;
+};
+
+export type DeleteAsyncJobStatusMutationVariables = Exact<{
+  jobId: Scalars['String']['input'];
+}>;
+
+export type DeleteAsyncJobStatusMutationResult = {
+  delete_AsyncJobStatuses_by_pk?: AsyncJobStatusFields | null;
+};
+
+export type ClaimAsyncJobStatusMutationVariables = Exact<{
+  jobId: Scalars['String']['input'];
+  owner: Scalars['String']['input'];
+  now: Scalars['timestamptz']['input'];
+  lockedUntil: Scalars['timestamptz']['input'];
+}>;
+
+export type ClaimAsyncJobStatusMutationResult = {
+  update_AsyncJobStatuses?: {
+    affected_rows: number;
+  } | null;
+};
+
+export type UpsertTenantPartnerLocationsMutationVariables = Exact<{
+  objects: Array<TenantPartnerLocations_Insert_Input>;
+}>;
+
+export type UpsertTenantPartnerLocationsMutationResult = {
+  insert_TenantPartnerLocations?: {
+    affected_rows: number;
+  } | null;
+};
+
+export type DeleteTenantPartnerLocationsMutationVariables = Exact<{
+  tenantPartnerId: Scalars['Int']['input'];
+  locationIds: Array<Scalars['Int']['input']>;
+}>;
+
+export type DeleteTenantPartnerLocationsMutationResult = {
+  delete_TenantPartnerLocations?: {
+    affected_rows: number;
+  } | null;
+};
+
+export type UpdateTenantPartnerPublishAllLocationsMutationVariables = Exact<{
+  id: Scalars['Int']['input'];
+  publishAllLocations: Scalars['Boolean']['input'];
+}>;
+
+export type UpdateTenantPartnerPublishAllLocationsMutationResult = {
+  update_TenantPartners_by_pk?: {
+    id: number;
+  } | null;
+};
+
+export type GetLocationPublicationQueryVariables = Exact<{
+  tenantPartnerId: Scalars['Int']['input'];
+}>;
+
+export type GetLocationPublicationQueryResult = {
+  TenantPartners_by_pk?: {
+    id: number;
+    publishAllLocations: boolean;
+    TenantPartnerLocations: Array<{
+      locationId: number;
+      createdAt: any;
+    }>;
+  } | null;
+};
+
+export type GetUnlinkedLocationIdsQueryVariables = Exact<{
+  tenantId: Scalars['Int']['input'];
+  tenantPartnerId: Scalars['Int']['input'];
+}>;
+
+export type GetUnlinkedLocationIdsQueryResult = {
+  Locations: Array<{
+    id: number;
+  }>;
+};
+
+export type UpsertTenantPartnerLocationPushMutationVariables = Exact<{
+  object: TenantPartnerLocationPushes_Insert_Input;
+}>;
+
+export type UpsertTenantPartnerLocationPushMutationResult = {
+  insert_TenantPartnerLocationPushes_one?: {
+    id: number;
+  } | null;
+};
+
+export type GetTenantPartnerLocationPushesQueryVariables = Exact<{
+  where: TenantPartnerLocationPushes_Bool_Exp;
+  offset: Scalars['Int']['input'];
+  limit: Scalars['Int']['input'];
+}>;
+
+export type GetTenantPartnerLocationPushesQueryResult = {
+  TenantPartnerLocationPushes: Array<{
+    tenantPartnerId: number;
+    locationId: number;
+    httpMethod: string;
+    path: string;
+    lastPushedAt: any;
+  }>;
+  TenantPartnerLocationPushes_aggregate: {
+    aggregate?: {
+      count: number;
+    } | null;
+  };
+};
+
+export type GetTenantLocationIdsQueryVariables = Exact<{
+  tenantId: Scalars['Int']['input'];
+  locationIds: Array<Scalars['Int']['input']>;
+}>;
+
+export type GetTenantLocationIdsQueryResult = {
+  Locations: Array<{
+    id: number;
+  }>;
+};
+
+export type GetLocationGroupsQueryVariables = Exact<{
+  where: LocationGroups_Bool_Exp;
+}>;
+
+export type GetLocationGroupsQueryResult = {
+  LocationGroups: Array<{
+    id: number;
+    tenantId: number;
+    name: string;
+    LocationGroupLocations: Array<{
+      locationId: number;
+    }>;
+  }>;
+};
+
+export type InsertLocationGroupMutationVariables = Exact<{
+  object: LocationGroups_Insert_Input;
+}>;
+
+export type InsertLocationGroupMutationResult = {
+  insert_LocationGroups_one?: {
+    id: number;
+  } | null;
+};
+
+export type UpdateLocationGroupMutationVariables = Exact<{
+  id: Scalars['Int']['input'];
+  name: Scalars['String']['input'];
+  updatedAt: Scalars['timestamptz']['input'];
+  objects: Array<LocationGroupLocations_Insert_Input>;
+}>;
+
+export type UpdateLocationGroupMutationResult = {
+  update_LocationGroups_by_pk?: {
+    id: number;
+  } | null;
+};
+
+export type DeleteLocationGroupMutationVariables = Exact<{
+  id: Scalars['Int']['input'];
+}>;
+
+export type DeleteLocationGroupMutationResult = {
+  delete_LocationGroups_by_pk?: {
+    id: number;
+  } | null;
+};
+
+export type GetLocationExtensionsQueryVariables = Exact<{
+  locationId: Scalars['Int']['input'];
+}>;
+
+export type GetLocationExtensionsQueryResult = {
+  OcpiLocationExtensions: Array<
+    OcpiLocationExtensionFields & {
+      locationId: number;
+      createdAt: any;
+    }
+  >;
+  OcpiEvseExtensions: Array<
+    OcpiEvseExtensionFields & {
+      evseId: number;
+      evse: {
+        stationId?: string | null;
+      };
+      createdAt: any;
+    }
+  >;
+};
+
+export type UpsertOcpiLocationExtensionMutationVariables = Exact<{
+  object: OcpiLocationExtensions_Insert_Input;
+}>;
+
+export type UpsertOcpiLocationExtensionMutationResult = {
+  insert_OcpiLocationExtensions_one?: {
+    id: number;
+  } | null;
+};
+
+export type UpsertOcpiEvseExtensionMutationVariables = Exact<{
+  object: OcpiEvseExtensions_Insert_Input;
+}>;
+
+export type UpsertOcpiEvseExtensionMutationResult = {
+  insert_OcpiEvseExtensions_one?: {
+    id: number;
+  } | null;
+};
+
+export type DeleteLocationExtensionsMutationVariables = Exact<{
+  locationId: Scalars['Int']['input'];
+}>;
+
+export type DeleteLocationExtensionsMutationResult = {
+  delete_OcpiLocationExtensions?: {
+    affected_rows: number;
+  } | null;
+  delete_OcpiEvseExtensions?: {
+    affected_rows: number;
+  } | null;
+};
+
+export type EvseStatusScheduleRecord = EvseStatusScheduleFields & {
+  id: number;
+  evseId: number;
+  changeAvailability: boolean;
+  startedAt?: any | null;
+  endedAt?: any | null;
+  createdAt: any;
+  updatedAt: any;
+};
+
+export type GetEvseStatusSchedulesQueryVariables = Exact<{
+  evseId: Scalars['Int']['input'];
+}>;
+
+export type GetEvseStatusSchedulesQueryResult = {
+  EvseStatusSchedules: Array<EvseStatusScheduleRecord>;
+};
+
+export type GetEvseForStatusScheduleQueryVariables = Exact<{
+  id: Scalars['Int']['input'];
+}>;
+
+export type GetEvseForStatusScheduleQueryResult = {
+  Evses_by_pk?: {
+    id: number;
+    stationId?: string | null;
+    evseTypeId?: number | null;
+    updatedAt: any;
+    connectors: Array<{
+      id: number;
+      connectorId: number;
+      status?: string | null;
+    }>;
+    chargingStation?: {
+      id: string;
+      tenantId: number;
+      protocol?: string | null;
+      locationId?: number | null;
+      tenant: {
+        id: number;
+        countryCode?: string | null;
+        partyId?: string | null;
+      };
+    } | null;
+    statusSchedules: Array<
+      EvseStatusScheduleFields & {
+        id: number;
+        changeAvailability: boolean;
+        startedAt?: any | null;
+      }
+    >;
+  } | null;
+};
+
+export type GetDueEvseStatusSchedulesQueryVariables = Exact<{
+  now: Scalars['timestamptz']['input'];
+  limit: Scalars['Int']['input'];
+}>;
+
+export type GetDueEvseStatusSchedulesQueryResult = {
+  EvseStatusSchedules: Array<{
+    id: number;
+    evseId: number;
+    periodEnd?: any | null;
+    startedAt?: any | null;
+    endedAt?: any | null;
+  }>;
+};
+
+export type InsertEvseStatusScheduleMutationVariables = Exact<{
+  object: EvseStatusSchedules_Insert_Input;
+}>;
+
+export type InsertEvseStatusScheduleMutationResult = {
+  insert_EvseStatusSchedules_one?: EvseStatusScheduleRecord | null;
+};
+
+export type UpdateEvseStatusScheduleMutationVariables = Exact<{
+  id: Scalars['Int']['input'];
+  set: EvseStatusSchedules_Set_Input;
+}>;
+
+export type UpdateEvseStatusScheduleMutationResult = {
+  update_EvseStatusSchedules_by_pk?: {
+    id: number;
+  } | null;
+};
+
+export type DeleteEvseStatusScheduleMutationVariables = Exact<{
+  id: Scalars['Int']['input'];
+}>;
+
+export type DeleteEvseStatusScheduleMutationResult = {
+  delete_EvseStatusSchedules_by_pk?: {
+    id: number;
+  } | null;
+};
+
+export type OcpiCommandFields = {
+  id: string;
+  tenantPartnerId: number;
+  stationId: string;
+  command: string;
+  responseUrl: string;
+  sessionId?: string | null;
+  authorizationReference?: string | null;
+  correlationId?: string | null;
+  state: string;
+  transitions: any;
+  expiresAt: any;
+  result?: string | null;
+  resultDeliveryStatus: string;
+  resultDeliveredAt?: any | null;
+  resultError?: string | null;
+  createdAt: any;
+  updatedAt: any;
+};
+
+export type InsertOcpiCommandMutationVariables = Exact<{
+  object: OcpiCommands_Insert_Input;
+}>;
+
+export type InsertOcpiCommandMutationResult = {
+  insert_OcpiCommands_one?: {
+    id: string;
+  } | null;
+};
+
+export type GetOcpiCommandQueryVariables = Exact<{
+  id: Scalars['String']['input'];
+}>;
+
+export type GetOcpiCommandQueryResult = {
+  OcpiCommands_by_pk?: OcpiCommandFields | null;
+};
+
+export type ListOcpiCommandsQueryVariables = Exact<{
+  where: OcpiCommands_Bool_Exp;
+  offset?: InputMaybe<Scalars['Int']['input']>;
+  limit?: InputMaybe<Scalars['Int']['input']>;
+}>;
+
+export type ListOcpiCommandsQueryResult = {
+  OcpiCommands: Array<OcpiCommandFields>;
+  OcpiCommands_aggregate: {
+    aggregate?: {
+      count: number;
+    } | null;
+  };
+};
+
+export type GetExpiredOcpiCommandsQueryVariables = Exact<{
+  states: Array<Scalars['String']['input']>;
+  now: Scalars['timestamptz']['input'];
+  limit: Scalars['Int']['input'];
+}>;
+
+export type GetExpiredOcpiCommandsQueryResult = {
+  OcpiCommands: Array<{
+    id: string;
+    command: string;
+    responseUrl: string;
+    TenantPartner: {
+      id: number;
+      countryCode: string;
+      partyId: string;
+      partnerProfileOCPI?: any | null;
+      tenant: {
+        id: number;
+        countryCode: string;
+        partyId: string;
+      };
+    };
+  }>;
+};
+
+export type UpdateOcpiCommandsMutationVariables = Exact<{
+  where: OcpiCommands_Bool_Exp;
+  set: OcpiCommands_Set_Input;
+  append: OcpiCommands_Append_Input;
+}>;
+
+export type UpdateOcpiCommandsMutationResult = {
+  update_OcpiCommands?: {
+    affected_rows: number;
+  } | null;
+};
+
+export type GetTokenConnectorHistoryQueryVariables = Exact<{
+  tenantPartnerId: Scalars['Int']['input'];
+  idToken: Scalars['String']['input'];
+  limit: Scalars['Int']['input'];
+}>;
+
+export type GetTokenConnectorHistoryQueryResult = {
+  Transactions: Array<{
+    id: number;
+    connector?: {
+      type?: string | null;
+      powerType?: string | null;
+      maximumPowerWatts?: number | null;
+    } | null;
+  }>;
+};
+
+export type GetStationDataTransfersQueryVariables = Exact<{
+  tenantId: Scalars['Int']['input'];
+  stationId: Scalars['String']['input'];
+  action: Scalars['String']['input'];
+  origin: Scalars['String']['input'];
+  from: Scalars['timestamptz']['input'];
+  to: Scalars['timestamptz']['input'];
+}>;
+
+export type GetStationDataTransfersQueryResult = {
+  OCPPMessages: Array<{
+    message: any;
+    timestamp: any;
+  }>;
+};
+
+export type OcpiTrafficLogFields = {
+  id: string;
+  direction: string;
+  tenantPartnerId?: number | null;
+  module?: string | null;
+  method: string;
+  url: string;
+  fromCountryCode?: string | null;
+  fromPartyId?: string | null;
+  toCountryCode?: string | null;
+  toPartyId?: string | null;
+  requestId?: string | null;
+  correlationId?: string | null;
+  sessionId?: string | null;
+  httpStatus?: number | null;
+  ocpiStatusCode?: number | null;
+  latencyMs: number;
+  requestBody?: any | null;
+  responseBody?: any | null;
+  error?: string | null;
+  createdAt: any;
+};
+
+export type InsertOcpiTrafficLogMutationVariables = Exact<{
+  object: OcpiTrafficLogs_Insert_Input;
+}>;
+
+export type InsertOcpiTrafficLogMutationResult = {
+  insert_OcpiTrafficLogs_one?: {
+    id: string;
+  } | null;
+};
+
+export type GetOcpiTrafficLogQueryVariables = Exact<{
+  id: Scalars['String']['input'];
+}>;
+
+export type GetOcpiTrafficLogQueryResult = {
+  OcpiTrafficLogs_by_pk?: OcpiTrafficLogFields | null;
+};
+
+export type ListOcpiTrafficLogsQueryVariables = Exact<{
+  where: OcpiTrafficLogs_Bool_Exp;
+  offset?: InputMaybe<Scalars['Int']['input']>;
+  limit?: InputMaybe<Scalars['Int']['input']>;
+}>;
+
+export type ListOcpiTrafficLogsQueryResult = {
+  OcpiTrafficLogs: Array<OcpiTrafficLogFields>;
+  OcpiTrafficLogs_aggregate: {
+    aggregate?: {
+      count: number;
+    } | null;
+  };
+};
+
+export type DeleteOcpiTrafficLogsMutationVariables = Exact<{
+  before: Scalars['timestamptz']['input'];
+}>;
+
+export type DeleteOcpiTrafficLogsMutationResult = {
+  delete_OcpiTrafficLogs?: {
+    affected_rows: number;
+  } | null;
+};
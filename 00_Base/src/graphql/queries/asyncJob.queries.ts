@@ -1,94 +1,130 @@
 // SPDX-FileCopyrightText: 2025 Contributors to the CitrineOS Project
 //
 // SPDX-License-Identifier: Apache-2.0
-// import { gql } from 'graphql-request';
 
-// export const CREATE_ASYNC_JOB_STATUS_MUTATION = gql`
-//   mutation CreateAsyncJobStatus($asyncJobStatus: AsyncJobStatusInput!) {
-//     createAsyncJobStatus(asyncJobStatus: $asyncJobStatus) {
-//       jobId
-//       jobName
-//       tenantPartnerId
-//       tenantPartner {
-//         id
-//         name
-//       }
-//       createdAt
-//       finishedAt
-//       stoppedAt
-//       stopScheduled
-//       isFailed
-//       paginatedParams
-//       totalObjects
-//     }
-//   }
-// `;
+import { gql } from 'graphql-request';
 
-// export const UPDATE_ASYNC_JOB_STATUS_MUTATION = gql`
-//   mutation UpdateAsyncJobStatus($asyncJobStatus: AsyncJobStatusInput!) {
-//     updateAsyncJobStatus(asyncJobStatus: $asyncJobStatus) {
-//       jobId
-//       jobName
-//       tenantPartnerId
-//       tenantPartner {
-//         id
-//         name
-//       }
-//       createdAt
-//       finishedAt
-//       stoppedAt
-//       stopScheduled
-//       isFailed
-//       paginatedParams
-//       totalObjects
-//     }
-//   }
-// `;
+export const INSERT_ASYNC_JOB_STATUS_MUTATION = gql`
+  mutation InsertAsyncJobStatus($object: AsyncJobStatuses_insert_input!) {
+    insert_AsyncJobStatuses_one(object: $object) {
+      jobId
+      jobName
+      tenantPartnerId
+      createdAt
+      updatedAt
+      finishedAt
+      stoppedAt
+      stopScheduled
+      isFailed
+      paginationParams
+      totalObjects
+      lockedUntil
+    }
+  }
+`;
 
-// export const GET_ASYNC_JOB_STATUS_QUERY = gql`
-//   query GetAsyncJobStatus($jobId: String!) {
-//     asyncJobStatus(jobId: $jobId) {
-//       jobId
-//       jobName
-//       tenantPartnerId
-//       tenantPartner {
-//         id
-//         name
-//       }
-//       createdAt
-//       finishedAt
-//       stoppedAt
-//       stopScheduled
-//       isFailed
-//       paginatedParams
-//       totalObjects
-//     }
-//   }
-// `;
+export const UPDATE_ASYNC_JOB_STATUS_MUTATION = gql`
+  mutation UpdateAsyncJobStatus(
+    $jobId: String!
+    $set: AsyncJobStatuses_set_input!
+  ) {
+    update_AsyncJobStatuses_by_pk(pk_columns: { jobId: $jobId }, _set: $set) {
+      jobId
+      jobName
+      tenantPartnerId
+      createdAt
+      updatedAt
+      finishedAt
+      stoppedAt
+      stopScheduled
+      isFailed
+      paginationParams
+      totalObjects
+      lockedUntil
+    }
+  }
+`;
 
-// export const GET_ASYNC_JOB_STATUSES_QUERY = gql`
-//   query GetAsyncJobStatuses($where: AsyncJobStatusWhereInput) {
-//     asyncJobStatuses(where: $where) {
-//       jobId
-//       jobName
-//       tenantPartnerId
-//       tenantPartner {
-//         id
-//         name
-//       }
-//       createdAt
-//       finishedAt
-//       stoppedAt
-//       stopScheduled
-//       isFailed
-//       paginatedParams
-//       totalObjects
-//     }
-//   }
-// `;
+export const GET_ASYNC_JOB_STATUS_QUERY = gql`
+  query GetAsyncJobStatus($jobId: String!) {
+    AsyncJobStatuses_by_pk(jobId: $jobId) {
+      jobId
+      jobName
+      tenantPartnerId
+      createdAt
+      updatedAt
+      finishedAt
+      stoppedAt
+      stopScheduled
+      isFailed
+      paginationParams
+      totalObjects
+      lockedUntil
+    }
+  }
+`;
 
-// export const DELETE_ASYNC_JOB_STATUS_MUTATION = gql`
-//   mutation DeleteAsyncJobStatus($jobId: String!) {
-//     deleteAsyncJobStatus(jobId: $jobId)
-//   }
-// `;
+export const GET_ASYNC_JOB_STATUSES_QUERY = gql`
+  query GetAsyncJobStatuses($where: AsyncJobStatuses_bool_exp!) {
+    AsyncJobStatuses(where: $where, order_by: { createdAt: desc }) {
+      jobId
+      jobName
+      tenantPartnerId
+      createdAt
+      updatedAt
+      finishedAt
+      stoppedAt
+      stopScheduled
+      isFailed
+      paginationParams
+      totalObjects
+      lockedUntil
+    }
+  }
+`;
+
+export const DELETE_ASYNC_JOB_STATUS_MUTATION = gql`
+  mutation DeleteAsyncJobStatus($jobId: String!) {
+    delete_AsyncJobStatuses_by_pk(jobId: $jobId) {
+      jobId
+      jobName
+      tenantPartnerId
+      createdAt
+      updatedAt
+      finishedAt
+      stoppedAt
+      stopScheduled
+      isFailed
+      paginationParams
+      totalObjects
+      lockedUntil
+    }
+  }
+`;
+
+// Leases the job to an instance, unless another instance holds an unexpired lease. The instance
+// holding the lease renews it with the same mutation
+export const CLAIM_ASYNC_JOB_STATUS_MUTATION = gql`
+  mutation ClaimAsyncJobStatus(
+    $jobId: String!
+    $owner: String!
+    $now: timestamptz!
+    $lockedUntil: timestamptz!
+  ) {
+    update_AsyncJobStatuses(
+      where: {
+        jobId: { _eq: $jobId }
+        finishedAt: { _is_null: true }
+        stoppedAt: { _is_null: true }
+        _or: [
+          { lockedUntil: { _is_null: true } }
+          { lockedUntil: { _lt: $now } }
+          { lockedBy: { _eq: $owner } }
+        ]
+      }
+      _set: { lockedBy: $owner, lockedUntil: $lockedUntil }
+    ) {
+      affected_rows
+    }
+  }
+`;
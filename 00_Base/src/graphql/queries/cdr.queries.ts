@@ -25,6 +25,11 @@ export const INSERT_CDR_RECORD_MUTATION = gql`
     $totalReservationCostExclVat: numeric
     $taxRate: numeric
     $cdrData: jsonb!
+    $credit: Boolean
+    $creditReferenceId: String
+    $invoiceReferenceId: String
+    $originalCdrRecordId: Int
+    $lastUpdated: timestamptz
     $createdAt: timestamptz!
     $updatedAt: timestamptz!
   ) {
@@ -49,6 +54,11 @@ export const INSERT_CDR_RECORD_MUTATION = gql`
         totalReservationCostExclVat: $totalReservationCostExclVat
         taxRate: $taxRate
         cdrData: $cdrData
+        credit: $credit
+        creditReferenceId: $creditReferenceId
+        invoiceReferenceId: $invoiceReferenceId
+        originalCdrRecordId: $originalCdrRecordId
+        lastUpdated: $lastUpdated
         createdAt: $createdAt
         updatedAt: $updatedAt
       }
@@ -62,3 +72,87 @@ export const INSERT_CDR_RECORD_MUTATION = gql`
     }
   }
 `;
+
+// Without on_conflict, so that a reissue whose CDR ids were taken by a concurrent one fails as a
+// whole instead of sending CDRs that are not stored
+export const INSERT_REISSUED_CDR_RECORDS_MUTATION = gql`
+  mutation InsertReissuedCdrRecords($objects: [CdrRecords_insert_input!]!) {
+    insert_CdrRecords(objects: $objects) {
+      returning {
+        id
+        cdrId
+      }
+    }
+  }
+`;
+
+export const GET_CDR_RECORDS_BY_TRANSACTION_ID_QUERY = gql`
+  query GetCdrRecordsByTransactionId($transactionId: Int!) {
+    CdrRecords(
+      where: { transactionId: { _eq: $transactionId } }
+      order_by: { id: asc }
+    ) {
+      id
+      cdrId
+      tenantPartnerId
+      credit
+      originalCdrRecordId
+      cdrData
+    }
+  }
+`;
+
+export const GET_CDR_RECORDS_QUERY = gql`
+  query GetCdrRecords($where: CdrRecords_bool_exp!, $offset: Int, $limit: Int) {
+    CdrRecords(
+      where: $where
+      order_by: [{ lastUpdated: asc }, { id: asc }]
+      offset: $offset
+      limit: $limit
+    ) {
+      id
+      cdrId
+      cdrData
+    }
+    CdrRecords_aggregate(where: $where) {
+      aggregate {
+        count
+      }
+    }
+  }
+`;
+
+export const GET_CDR_RECORD_BY_CDR_ID_QUERY = gql`
+  query GetCdrRecordByCdrId($cdrId: String!, $tenantPartnerId: Int!) {
+    CdrRecords(
+      where: {
+        cdrId: { _eq: $cdrId }
+        tenantPartnerId: { _eq: $tenantPartnerId }
+      }
+    ) {
+      id
+      cdrId
+      locationUrl
+      cdrData
+    }
+  }
+`;
+
+export const UPDATE_CDR_RECORD_LOCATION_URL_MUTATION = gql`
+  mutation UpdateCdrRecordLocationUrl(
+    $cdrId: String!
+    $tenantPartnerId: Int!
+    $locationUrl: String!
+    $updatedAt: timestamptz!
+  ) {
+    update_CdrRecords(
+      where: {
+        cdrId: { _eq: $cdrId }
+        tenantPartnerId: { _eq: $tenantPartnerId }
+      }
+      _set: { locationUrl: $locationUrl, updatedAt: $updatedAt }
+    ) {
+      affected_rows
+    }
+  }
+`;
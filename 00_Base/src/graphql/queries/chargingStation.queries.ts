@@ -41,6 +41,62 @@ export const GET_CHARGING_STATION_BY_ID_QUERY = gql`
         evseId
         connectorId
         evseTypeConnectorId
+        maximumPowerWatts
+        status
+        errorCode
+        timestamp
+        info
+        vendorId
+        vendorErrorCode
+        createdAt
+        updatedAt
+      }
+      tenant: Tenant {
+        partyId
+        countryCode
+      }
+    }
+  }
+`;
+
+export const GET_CHARGING_STATIONS_BY_LOCATION_ID_QUERY = gql`
+  query GetChargingStationsByLocationId($location: Locations_bool_exp!) {
+    ChargingStations(where: { Location: $location }, order_by: { id: asc }) {
+      id
+      tenantId
+      isOnline
+      protocol
+      chargePointVendor
+      chargePointModel
+      chargePointSerialNumber
+      chargeBoxSerialNumber
+      firmwareVersion
+      iccid
+      imsi
+      meterType
+      meterSerialNumber
+      locationId
+      createdAt
+      updatedAt
+      evses: Evses {
+        id
+        tenantId
+        stationId
+        evseTypeId
+        evseId
+        physicalReference
+        removed
+        createdAt
+        updatedAt
+      }
+      connectors: Connectors {
+        id
+        tenantId
+        stationId
+        evseId
+        connectorId
+        evseTypeConnectorId
+        maximumPowerWatts
         status
         errorCode
         timestamp
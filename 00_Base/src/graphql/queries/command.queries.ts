@@ -0,0 +1,120 @@
+// SPDX-FileCopyrightText: 2025 Contributors to the CitrineOS Project
+//
+// SPDX-License-Identifier: Apache-2.0
+
+import { gql } from 'graphql-request';
+
+export const INSERT_OCPI_COMMAND_MUTATION = gql`
+  mutation InsertOcpiCommand($object: OcpiCommands_insert_input!) {
+    insert_OcpiCommands_one(object: $object) {
+      id
+    }
+  }
+`;
+
+export const GET_OCPI_COMMAND_QUERY = gql`
+  query GetOcpiCommand($id: String!) {
+    OcpiCommands_by_pk(id: $id) {
+      id
+      tenantPartnerId
+      stationId
+      command
+      responseUrl
+      sessionId
+      authorizationReference
+      correlationId
+      state
+      transitions
+      expiresAt
+      result
+      resultDeliveryStatus
+      resultDeliveredAt
+      resultError
+      createdAt
+      updatedAt
+    }
+  }
+`;
+
+export const LIST_OCPI_COMMANDS_QUERY = gql`
+  query ListOcpiCommands(
+    $where: OcpiCommands_bool_exp!
+    $offset: Int
+    $limit: Int
+  ) {
+    OcpiCommands(
+      where: $where
+      order_by: { createdAt: asc }
+      offset: $offset
+      limit: $limit
+    ) {
+      id
+      tenantPartnerId
+      stationId
+      command
+      responseUrl
+      sessionId
+      authorizationReference
+      correlationId
+      state
+      transitions
+      expiresAt
+      result
+      resultDeliveryStatus
+      resultDeliveredAt
+      resultError
+      createdAt
+      updatedAt
+    }
+    OcpiCommands_aggregate(where: $where) {
+      aggregate {
+        count
+      }
+    }
+  }
+`;
+
+export const GET_EXPIRED_OCPI_COMMANDS_QUERY = gql`
+  query GetExpiredOcpiCommands(
+    $states: [String!]!
+    $now: timestamptz!
+    $limit: Int!
+  ) {
+    OcpiCommands(
+      where: {
+        state: { _in: $states }
+        result: { _is_null: true }
+        expiresAt: { _lte: $now }
+      }
+      order_by: { expiresAt: asc }
+      limit: $limit
+    ) {
+      id
+      command
+      responseUrl
+      TenantPartner {
+        id
+        countryCode
+        partyId
+        partnerProfileOCPI
+        tenant: Tenant {
+          id
+          countryCode
+          partyId
+        }
+      }
+    }
+  }
+`;
+
+export const UPDATE_OCPI_COMMANDS_MUTATION = gql`
+  mutation UpdateOcpiCommands(
+    $where: OcpiCommands_bool_exp!
+    $set: OcpiCommands_set_input!
+    $append: OcpiCommands_append_input!
+  ) {
+    update_OcpiCommands(where: $where, _set: $set, _append: $append) {
+      affected_rows
+    }
+  }
+`;
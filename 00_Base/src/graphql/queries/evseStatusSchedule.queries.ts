@@ -0,0 +1,122 @@
+// SPDX-FileCopyrightText: 2025 Contributors to the CitrineOS Project
+//
+// SPDX-License-Identifier: Apache-2.0
+
+import { gql } from 'graphql-request';
+
+export const GET_EVSE_STATUS_SCHEDULES_QUERY = gql`
+  query GetEvseStatusSchedules($evseId: Int!) {
+    EvseStatusSchedules(
+      where: { evseId: { _eq: $evseId } }
+      order_by: { periodBegin: asc }
+    ) {
+      id
+      evseId
+      status
+      periodBegin
+      periodEnd
+      changeAvailability
+      startedAt
+      endedAt
+      createdAt
+      updatedAt
+    }
+  }
+`;
+
+export const GET_EVSE_FOR_STATUS_SCHEDULE_QUERY = gql`
+  query GetEvseForStatusSchedule($id: Int!) {
+    Evses_by_pk(id: $id) {
+      id
+      stationId
+      evseTypeId
+      updatedAt
+      connectors: Connectors {
+        id
+        connectorId
+        status
+      }
+      chargingStation: ChargingStation {
+        id
+        tenantId
+        protocol
+        locationId
+        tenant: Tenant {
+          id
+          countryCode
+          partyId
+        }
+      }
+      statusSchedules: EvseStatusSchedules(
+        where: { endedAt: { _is_null: true } }
+        order_by: { periodBegin: asc }
+      ) {
+        id
+        status
+        periodBegin
+        periodEnd
+        changeAvailability
+        startedAt
+      }
+    }
+  }
+`;
+
+export const GET_DUE_EVSE_STATUS_SCHEDULES_QUERY = gql`
+  query GetDueEvseStatusSchedules($now: timestamptz!, $limit: Int!) {
+    EvseStatusSchedules(
+      where: {
+        _or: [
+          { startedAt: { _is_null: true }, periodBegin: { _lte: $now } }
+          { endedAt: { _is_null: true }, periodEnd: { _lte: $now } }
+        ]
+      }
+      order_by: { periodBegin: asc }
+      limit: $limit
+    ) {
+      id
+      evseId
+      periodEnd
+      startedAt
+      endedAt
+    }
+  }
+`;
+
+export const INSERT_EVSE_STATUS_SCHEDULE_MUTATION = gql`
+  mutation InsertEvseStatusSchedule(
+    $object: EvseStatusSchedules_insert_input!
+  ) {
+    insert_EvseStatusSchedules_one(object: $object) {
+      id
+      evseId
+      status
+      periodBegin
+      periodEnd
+      changeAvailability
+      startedAt
+      endedAt
+      createdAt
+      updatedAt
+    }
+  }
+`;
+
+export const UPDATE_EVSE_STATUS_SCHEDULE_MUTATION = gql`
+  mutation UpdateEvseStatusSchedule(
+    $id: Int!
+    $set: EvseStatusSchedules_set_input!
+  ) {
+    update_EvseStatusSchedules_by_pk(pk_columns: { id: $id }, _set: $set) {
+      id
+    }
+  }
+`;
+
+export const DELETE_EVSE_STATUS_SCHEDULE_MUTATION = gql`
+  mutation DeleteEvseStatusSchedule($id: Int!) {
+    delete_EvseStatusSchedules_by_pk(id: $id) {
+      id
+    }
+  }
+`;
@@ -0,0 +1,33 @@
+// SPDX-FileCopyrightText: 2025 Contributors to the CitrineOS Project
+//
+// SPDX-License-Identifier: Apache-2.0
+
+import { gql } from 'graphql-request';
+
+export const UPSERT_HUB_CLIENT_INFO_MUTATION = gql`
+  mutation UpsertHubClientInfo($object: HubClientInfos_insert_input!) {
+    insert_HubClientInfos_one(
+      object: $object
+      on_conflict: {
+        constraint: HubClientInfos_tenantPartnerId_countryCode_partyId_role_key
+        update_columns: [status, lastUpdated, updatedAt]
+      }
+    ) {
+      id
+    }
+  }
+`;
+
+export const GET_HUB_CLIENT_INFOS_QUERY = gql`
+  query GetHubClientInfos($where: HubClientInfos_bool_exp!) {
+    HubClientInfos(where: $where, order_by: { lastUpdated: desc }) {
+      id
+      tenantPartnerId
+      countryCode
+      partyId
+      role
+      status
+      lastUpdated
+    }
+  }
+`;
@@ -2,14 +2,27 @@
 //
 // SPDX-License-Identifier: Apache-2.0
 
+export * from './asyncJob.queries';
 export * from './cdr.queries';
 export * from './chargingStation.queries';
 export * from './chargingStationSequence.queries';
+export * from './command.queries';
 // export * from './cpoTenant.queries';
+export * from './evseStatusSchedule.queries';
+export * from './hubClientInfo.queries';
+export * from './invoiceReferenceSequence.queries';
 export * from './location.queries';
+export * from './locationExtension.queries';
+export * from './locationPublication.queries';
+export * from './outbox.queries';
+export * from './pendingSessionChargingPeriods.queries';
+export * from './reservation.queries';
+export * from './sessionChargingPreferences.queries';
+export * from './sessionChargingProfile.queries';
 export * from './tariff.queries';
 export * from './tenant.mutations';
 export * from './tenantPartner.queries';
 export * from './tenantVersionEndpoints.queries';
 export * from './token.queries';
+export * from './trafficLog.queries';
 export * from './transaction.queries';
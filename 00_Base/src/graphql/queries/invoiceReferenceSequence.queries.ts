@@ -0,0 +1,34 @@
+// SPDX-FileCopyrightText: 2025 Contributors to the CitrineOS Project
+//
+// SPDX-License-Identifier: Apache-2.0
+
+import { gql } from 'graphql-request';
+
+// Mutation fields run in order in one transaction: the sequence row is created if missing, then
+// incremented atomically.
+export const NEXT_INVOICE_REFERENCE_SEQUENCE_MUTATION = gql`
+  mutation NextInvoiceReferenceSequence($tenantId: Int!, $now: timestamptz!) {
+    insert_InvoiceReferenceSequences_one(
+      object: {
+        tenantId: $tenantId
+        lastValue: 0
+        createdAt: $now
+        updatedAt: $now
+      }
+      on_conflict: {
+        constraint: InvoiceReferenceSequences_pkey
+        update_columns: []
+      }
+    ) {
+      tenantId
+    }
+    update_InvoiceReferenceSequences_by_pk(
+      pk_columns: { tenantId: $tenantId }
+      _inc: { lastValue: 1 }
+      _set: { updatedAt: $now }
+    ) {
+      tenantId
+      lastValue
+    }
+  }
+`;
@@ -31,6 +31,20 @@ export const GET_LOCATIONS_QUERY = gql`
         partyId
         countryCode
       }
+      ocpiExtension: OcpiLocationExtension {
+        openingTimes
+        facilities
+        images
+        energyMix
+        parkingType
+        relatedLocations
+        directions
+        operator
+        suboperator
+        owner
+        chargingWhenClosed
+        updatedAt
+      }
       chargingPool: ChargingStations {
         id
         isOnline
@@ -60,6 +74,20 @@ export const GET_LOCATIONS_QUERY = gql`
           removed
           createdAt
           updatedAt
+          ocpiExtension: OcpiEvseExtension {
+            parkingRestrictions
+            floorLevel
+            physicalReference
+            updatedAt
+          }
+          statusSchedules: EvseStatusSchedules(
+            where: { endedAt: { _is_null: true } }
+            order_by: { periodBegin: asc }
+          ) {
+            status
+            periodBegin
+            periodEnd
+          }
           connectors: Connectors {
             id
             stationId
@@ -88,6 +116,11 @@ export const GET_LOCATIONS_QUERY = gql`
         }
       }
     }
+    Locations_aggregate(where: $where) {
+      aggregate {
+        count
+      }
+    }
   }
 `;
 
@@ -113,6 +146,20 @@ export const GET_LOCATION_BY_ID_QUERY = gql`
         partyId
         countryCode
       }
+      ocpiExtension: OcpiLocationExtension {
+        openingTimes
+        facilities
+        images
+        energyMix
+        parkingType
+        relatedLocations
+        directions
+        operator
+        suboperator
+        owner
+        chargingWhenClosed
+        updatedAt
+      }
       chargingPool: ChargingStations {
         id
         isOnline
@@ -142,6 +189,20 @@ export const GET_LOCATION_BY_ID_QUERY = gql`
           removed
           createdAt
           updatedAt
+          ocpiExtension: OcpiEvseExtension {
+            parkingRestrictions
+            floorLevel
+            physicalReference
+            updatedAt
+          }
+          statusSchedules: EvseStatusSchedules(
+            where: { endedAt: { _is_null: true } }
+            order_by: { periodBegin: asc }
+          ) {
+            status
+            periodBegin
+            periodEnd
+          }
           connectors: Connectors {
             id
             stationId
@@ -205,6 +266,20 @@ export const GET_EVSE_BY_ID_QUERY = gql`
           removed
           createdAt
           updatedAt
+          ocpiExtension: OcpiEvseExtension {
+            parkingRestrictions
+            floorLevel
+            physicalReference
+            updatedAt
+          }
+          statusSchedules: EvseStatusSchedules(
+            where: { endedAt: { _is_null: true } }
+            order_by: { periodBegin: asc }
+          ) {
+            status
+            periodBegin
+            periodEnd
+          }
         }
       }
     }
@@ -0,0 +1,101 @@
+// SPDX-FileCopyrightText: 2025 Contributors to the CitrineOS Project
+//
+// SPDX-License-Identifier: Apache-2.0
+
+import { gql } from 'graphql-request';
+
+export const GET_LOCATION_EXTENSIONS_QUERY = gql`
+  query GetLocationExtensions($locationId: Int!) {
+    OcpiLocationExtensions(where: { locationId: { _eq: $locationId } }) {
+      locationId
+      openingTimes
+      facilities
+      images
+      energyMix
+      parkingType
+      relatedLocations
+      directions
+      operator
+      suboperator
+      owner
+      chargingWhenClosed
+      createdAt
+      updatedAt
+    }
+    OcpiEvseExtensions(
+      where: { Evse: { ChargingStation: { locationId: { _eq: $locationId } } } }
+      order_by: { evseId: asc }
+    ) {
+      evseId
+      evse: Evse {
+        stationId
+      }
+      parkingRestrictions
+      floorLevel
+      physicalReference
+      createdAt
+      updatedAt
+    }
+  }
+`;
+
+export const UPSERT_OCPI_LOCATION_EXTENSION_MUTATION = gql`
+  mutation UpsertOcpiLocationExtension(
+    $object: OcpiLocationExtensions_insert_input!
+  ) {
+    insert_OcpiLocationExtensions_one(
+      object: $object
+      on_conflict: {
+        constraint: OcpiLocationExtensions_locationId_key
+        update_columns: [
+          openingTimes
+          facilities
+          images
+          energyMix
+          parkingType
+          relatedLocations
+          directions
+          operator
+          suboperator
+          owner
+          chargingWhenClosed
+          updatedAt
+        ]
+      }
+    ) {
+      id
+    }
+  }
+`;
+
+export const UPSERT_OCPI_EVSE_EXTENSION_MUTATION = gql`
+  mutation UpsertOcpiEvseExtension($object: OcpiEvseExtensions_insert_input!) {
+    insert_OcpiEvseExtensions_one(
+      object: $object
+      on_conflict: {
+        constraint: OcpiEvseExtensions_evseId_key
+        update_columns: [
+          parkingRestrictions
+          floorLevel
+          physicalReference
+          updatedAt
+        ]
+      }
+    ) {
+      id
+    }
+  }
+`;
+
+export const DELETE_LOCATION_EXTENSIONS_MUTATION = gql`
+  mutation DeleteLocationExtensions($locationId: Int!) {
+    delete_OcpiLocationExtensions(where: { locationId: { _eq: $locationId } }) {
+      affected_rows
+    }
+    delete_OcpiEvseExtensions(
+      where: { Evse: { ChargingStation: { locationId: { _eq: $locationId } } } }
+    ) {
+      affected_rows
+    }
+  }
+`;
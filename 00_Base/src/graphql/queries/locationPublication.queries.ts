@@ -0,0 +1,183 @@
+// SPDX-FileCopyrightText: 2025 Contributors to the CitrineOS Project
+//
+// SPDX-License-Identifier: Apache-2.0
+
+import { gql } from 'graphql-request';
+
+export const UPSERT_TENANT_PARTNER_LOCATIONS_MUTATION = gql`
+  mutation UpsertTenantPartnerLocations(
+    $objects: [TenantPartnerLocations_insert_input!]!
+  ) {
+    insert_TenantPartnerLocations(
+      objects: $objects
+      on_conflict: {
+        constraint: TenantPartnerLocations_tenantPartnerId_locationId_key
+        update_columns: [updatedAt]
+      }
+    ) {
+      affected_rows
+    }
+  }
+`;
+
+export const DELETE_TENANT_PARTNER_LOCATIONS_MUTATION = gql`
+  mutation DeleteTenantPartnerLocations(
+    $tenantPartnerId: Int!
+    $locationIds: [Int!]!
+  ) {
+    delete_TenantPartnerLocations(
+      where: {
+        tenantPartnerId: { _eq: $tenantPartnerId }
+        locationId: { _in: $locationIds }
+      }
+    ) {
+      affected_rows
+    }
+  }
+`;
+
+export const UPDATE_TENANT_PARTNER_PUBLISH_ALL_LOCATIONS_MUTATION = gql`
+  mutation UpdateTenantPartnerPublishAllLocations(
+    $id: Int!
+    $publishAllLocations: Boolean!
+  ) {
+    update_TenantPartners_by_pk(
+      pk_columns: { id: $id }
+      _set: { publishAllLocations: $publishAllLocations }
+    ) {
+      id
+    }
+  }
+`;
+
+export const GET_LOCATION_PUBLICATION_QUERY = gql`
+  query GetLocationPublication($tenantPartnerId: Int!) {
+    TenantPartners_by_pk(id: $tenantPartnerId) {
+      id
+      publishAllLocations
+      TenantPartnerLocations(order_by: { locationId: asc }) {
+        locationId
+        createdAt
+      }
+    }
+  }
+`;
+
+export const GET_UNLINKED_LOCATION_IDS_QUERY = gql`
+  query GetUnlinkedLocationIds($tenantId: Int!, $tenantPartnerId: Int!) {
+    Locations(
+      where: {
+        tenantId: { _eq: $tenantId }
+        _not: {
+          TenantPartnerLocations: { tenantPartnerId: { _eq: $tenantPartnerId } }
+        }
+      }
+      order_by: { id: asc }
+    ) {
+      id
+    }
+  }
+`;
+
+export const UPSERT_TENANT_PARTNER_LOCATION_PUSH_MUTATION = gql`
+  mutation UpsertTenantPartnerLocationPush(
+    $object: TenantPartnerLocationPushes_insert_input!
+  ) {
+    insert_TenantPartnerLocationPushes_one(
+      object: $object
+      on_conflict: {
+        constraint: TenantPartnerLocationPushes_tenantPartnerId_locationId_key
+        update_columns: [httpMethod, path, lastPushedAt, updatedAt]
+      }
+    ) {
+      id
+    }
+  }
+`;
+
+export const GET_TENANT_PARTNER_LOCATION_PUSHES_QUERY = gql`
+  query GetTenantPartnerLocationPushes(
+    $where: TenantPartnerLocationPushes_bool_exp!
+    $offset: Int!
+    $limit: Int!
+  ) {
+    TenantPartnerLocationPushes(
+      where: $where
+      offset: $offset
+      limit: $limit
+      order_by: { lastPushedAt: desc }
+    ) {
+      tenantPartnerId
+      locationId
+      httpMethod
+      path
+      lastPushedAt
+    }
+    TenantPartnerLocationPushes_aggregate(where: $where) {
+      aggregate {
+        count
+      }
+    }
+  }
+`;
+
+export const GET_TENANT_LOCATION_IDS_QUERY = gql`
+  query GetTenantLocationIds($tenantId: Int!, $locationIds: [Int!]!) {
+    Locations(
+      where: { tenantId: { _eq: $tenantId }, id: { _in: $locationIds } }
+    ) {
+      id
+    }
+  }
+`;
+
+export const GET_LOCATION_GROUPS_QUERY = gql`
+  query GetLocationGroups($where: LocationGroups_bool_exp!) {
+    LocationGroups(where: $where, order_by: { id: asc }) {
+      id
+      tenantId
+      name
+      LocationGroupLocations(order_by: { locationId: asc }) {
+        locationId
+      }
+    }
+  }
+`;
+
+export const INSERT_LOCATION_GROUP_MUTATION = gql`
+  mutation InsertLocationGroup($object: LocationGroups_insert_input!) {
+    insert_LocationGroups_one(object: $object) {
+      id
+    }
+  }
+`;
+
+export const UPDATE_LOCATION_GROUP_MUTATION = gql`
+  mutation UpdateLocationGroup(
+    $id: Int!
+    $name: String!
+    $updatedAt: timestamptz!
+    $objects: [LocationGroupLocations_insert_input!]!
+  ) {
+    update_LocationGroups_by_pk(
+      pk_columns: { id: $id }
+      _set: { name: $name, updatedAt: $updatedAt }
+    ) {
+      id
+    }
+    delete_LocationGroupLocations(where: { locationGroupId: { _eq: $id } }) {
+      affected_rows
+    }
+    insert_LocationGroupLocations(objects: $objects) {
+      affected_rows
+    }
+  }
+`;
+
+export const DELETE_LOCATION_GROUP_MUTATION = gql`
+  mutation DeleteLocationGroup($id: Int!) {
+    delete_LocationGroups_by_pk(id: $id) {
+      id
+    }
+  }
+`;
@@ -0,0 +1,163 @@
+// SPDX-FileCopyrightText: 2025 Contributors to the CitrineOS Project
+//
+// SPDX-License-Identifier: Apache-2.0
+
+import { gql } from 'graphql-request';
+
+export const INSERT_OUTBOX_MESSAGE_MUTATION = gql`
+  mutation InsertOutboxMessage($object: OutboxMessages_insert_input!) {
+    insert_OutboxMessages_one(object: $object) {
+      id
+    }
+  }
+`;
+
+export const GET_OUTBOX_QUEUE_HEADS_QUERY = gql`
+  query GetOutboxQueueHeads($tenantPartnerId: Int!) {
+    OutboxMessages(
+      where: {
+        tenantPartnerId: { _eq: $tenantPartnerId }
+        status: { _in: ["PENDING", "DEAD_LETTER"] }
+      }
+      distinct_on: queueKey
+      order_by: [{ queueKey: asc }, { id: asc }]
+    ) {
+      id
+      tenantPartnerId
+      moduleId
+      httpMethod
+      path
+      body
+      toCountryCode
+      toPartyId
+      queueKey
+      status
+      attempts
+      nextAttemptAt
+      TenantPartner {
+        id
+        countryCode
+        partyId
+        partnerProfileOCPI
+        tenantId
+        tenant: Tenant {
+          id
+          countryCode
+          partyId
+        }
+      }
+    }
+  }
+`;
+
+export const GET_DUE_OUTBOX_PARTNERS_QUERY = gql`
+  query GetDueOutboxPartners($now: timestamptz!) {
+    OutboxMessages(
+      where: { status: { _eq: "PENDING" }, nextAttemptAt: { _lte: $now } }
+      distinct_on: tenantPartnerId
+      order_by: { tenantPartnerId: asc }
+    ) {
+      tenantPartnerId
+    }
+  }
+`;
+
+// Leases a due message by moving its next attempt past the send, only one instance can claim it
+export const CLAIM_OUTBOX_MESSAGE_MUTATION = gql`
+  mutation ClaimOutboxMessage(
+    $id: Int!
+    $now: timestamptz!
+    $leasedUntil: timestamptz!
+  ) {
+    update_OutboxMessages(
+      where: {
+        id: { _eq: $id }
+        status: { _eq: "PENDING" }
+        nextAttemptAt: { _lte: $now }
+      }
+      _set: { nextAttemptAt: $leasedUntil, updatedAt: $now }
+    ) {
+      affected_rows
+    }
+  }
+`;
+
+export const UPDATE_OUTBOX_MESSAGE_MUTATION = gql`
+  mutation UpdateOutboxMessage($id: Int!, $set: OutboxMessages_set_input!) {
+    update_OutboxMessages_by_pk(pk_columns: { id: $id }, _set: $set) {
+      id
+    }
+  }
+`;
+
+export const DELETE_OUTBOX_MESSAGE_MUTATION = gql`
+  mutation DeleteOutboxMessage($id: Int!) {
+    delete_OutboxMessages_by_pk(id: $id) {
+      id
+    }
+  }
+`;
+
+export const LIST_OUTBOX_MESSAGES_QUERY = gql`
+  query ListOutboxMessages(
+    $where: OutboxMessages_bool_exp!
+    $offset: Int
+    $limit: Int
+  ) {
+    OutboxMessages(
+      where: $where
+      order_by: { id: asc }
+      offset: $offset
+      limit: $limit
+    ) {
+      id
+      tenantPartnerId
+      moduleId
+      httpMethod
+      path
+      body
+      toCountryCode
+      toPartyId
+      queueKey
+      status
+      attempts
+      nextAttemptAt
+      lastAttemptAt
+      lastError
+      createdAt
+      updatedAt
+    }
+    OutboxMessages_aggregate(where: $where) {
+      aggregate {
+        count
+      }
+    }
+  }
+`;
+
+export const RETRY_OUTBOX_MESSAGES_MUTATION = gql`
+  mutation RetryOutboxMessages(
+    $where: OutboxMessages_bool_exp!
+    $now: timestamptz!
+  ) {
+    update_OutboxMessages(
+      where: $where
+      _set: {
+        status: "PENDING"
+        attempts: 0
+        nextAttemptAt: $now
+        updatedAt: $now
+      }
+    ) {
+      affected_rows
+    }
+  }
+`;
+
+export const DELETE_OUTBOX_MESSAGES_MUTATION = gql`
+  mutation DeleteOutboxMessages($where: OutboxMessages_bool_exp!) {
+    delete_OutboxMessages(where: $where) {
+      affected_rows
+    }
+  }
+`;
@@ -0,0 +1,47 @@
+// SPDX-FileCopyrightText: 2025 Contributors to the CitrineOS Project
+//
+// SPDX-License-Identifier: Apache-2.0
+
+import { gql } from 'graphql-request';
+
+export const UPSERT_PENDING_SESSION_CHARGING_PERIODS_MUTATION = gql`
+  mutation UpsertPendingSessionChargingPeriods(
+    $object: PendingSessionChargingPeriods_insert_input!
+  ) {
+    insert_PendingSessionChargingPeriods_one(
+      object: $object
+      on_conflict: {
+        constraint: PendingSessionChargingPeriods_transactionId_key
+        update_columns: [windowStart, flushAt, updatedAt]
+      }
+    ) {
+      id
+    }
+  }
+`;
+
+export const DELETE_PENDING_SESSION_CHARGING_PERIODS_MUTATION = gql`
+  mutation DeletePendingSessionChargingPeriods(
+    $transactionId: Int!
+    $windowStart: timestamptz!
+  ) {
+    delete_PendingSessionChargingPeriods(
+      where: {
+        transactionId: { _eq: $transactionId }
+        windowStart: { _eq: $windowStart }
+      }
+    ) {
+      affected_rows
+    }
+  }
+`;
+
+export const GET_PENDING_SESSION_CHARGING_PERIODS_QUERY = gql`
+  query GetPendingSessionChargingPeriods {
+    PendingSessionChargingPeriods(order_by: { flushAt: asc }) {
+      transactionId
+      windowStart
+      flushAt
+    }
+  }
+`;
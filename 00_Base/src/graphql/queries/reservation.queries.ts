@@ -0,0 +1,79 @@
+// SPDX-FileCopyrightText: 2025 Contributors to the CitrineOS Project
+//
+// SPDX-License-Identifier: Apache-2.0
+
+import { gql } from 'graphql-request';
+
+export const UPSERT_OCPI_RESERVATION_MUTATION = gql`
+  mutation UpsertOcpiReservation($object: OcpiReservations_insert_input!) {
+    insert_OcpiReservations_one(
+      object: $object
+      on_conflict: {
+        constraint: OcpiReservations_tenantPartnerId_reservationId_key
+        update_columns: [
+          locationId
+          evseUid
+          stationId
+          expiryDate
+          tokenUid
+          authorizationReference
+          status
+          commandId
+          updatedAt
+        ]
+      }
+    ) {
+      id
+      reservationId
+      stationId
+      status
+    }
+  }
+`;
+
+export const GET_OCPI_RESERVATION_QUERY = gql`
+  query GetOcpiReservation($tenantPartnerId: Int!, $reservationId: String!) {
+    OcpiReservations(
+      where: {
+        tenantPartnerId: { _eq: $tenantPartnerId }
+        reservationId: { _eq: $reservationId }
+      }
+    ) {
+      id
+      tenantPartnerId
+      reservationId
+      locationId
+      evseUid
+      stationId
+      expiryDate
+      tokenUid
+      authorizationReference
+      status
+      commandId
+      createdAt
+      updatedAt
+    }
+  }
+`;
+
+export const UPDATE_OCPI_RESERVATION_MUTATION = gql`
+  mutation UpdateOcpiReservation($id: Int!, $set: OcpiReservations_set_input!) {
+    update_OcpiReservations_by_pk(pk_columns: { id: $id }, _set: $set) {
+      id
+    }
+  }
+`;
+
+export const UPDATE_OCPI_RESERVATION_BY_COMMAND_ID_MUTATION = gql`
+  mutation UpdateOcpiReservationByCommandId(
+    $commandId: String!
+    $set: OcpiReservations_set_input!
+  ) {
+    update_OcpiReservations(
+      where: { commandId: { _eq: $commandId } }
+      _set: $set
+    ) {
+      affected_rows
+    }
+  }
+`;
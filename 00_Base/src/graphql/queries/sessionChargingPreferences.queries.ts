@@ -0,0 +1,28 @@
+// SPDX-FileCopyrightText: 2025 Contributors to the CitrineOS Project
+//
+// SPDX-License-Identifier: Apache-2.0
+
+import { gql } from 'graphql-request';
+
+export const UPSERT_SESSION_CHARGING_PREFERENCES_MUTATION = gql`
+  mutation UpsertSessionChargingPreferences(
+    $object: SessionChargingPreferences_insert_input!
+  ) {
+    insert_SessionChargingPreferences_one(
+      object: $object
+      on_conflict: {
+        constraint: SessionChargingPreferences_transactionId_key
+        update_columns: [
+          tenantPartnerId
+          profileType
+          departureTime
+          energyNeed
+          dischargeAllowed
+          updatedAt
+        ]
+      }
+    ) {
+      id
+    }
+  }
+`;
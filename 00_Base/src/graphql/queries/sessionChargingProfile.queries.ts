@@ -0,0 +1,59 @@
+// SPDX-FileCopyrightText: 2025 Contributors to the CitrineOS Project
+//
+// SPDX-License-Identifier: Apache-2.0
+
+import { gql } from 'graphql-request';
+
+export const UPSERT_SESSION_CHARGING_PROFILE_MUTATION = gql`
+  mutation UpsertSessionChargingProfile(
+    $object: SessionChargingProfiles_insert_input!
+  ) {
+    insert_SessionChargingProfiles_one(
+      object: $object
+      on_conflict: {
+        constraint: SessionChargingProfiles_transactionId_key
+        update_columns: [
+          tenantPartnerId
+          stationId
+          chargingProfile
+          commandId
+          updatedAt
+        ]
+      }
+    ) {
+      id
+    }
+  }
+`;
+
+export const GET_SESSION_CHARGING_PROFILE_QUERY = gql`
+  query GetSessionChargingProfile($transactionId: Int!) {
+    SessionChargingProfiles(where: { transactionId: { _eq: $transactionId } }) {
+      id
+      tenantPartnerId
+      transactionId
+      stationId
+      chargingProfile
+      commandId
+    }
+  }
+`;
+
+export const UPDATE_SESSION_CHARGING_PROFILE_MUTATION = gql`
+  mutation UpdateSessionChargingProfile(
+    $id: Int!
+    $set: SessionChargingProfiles_set_input!
+  ) {
+    update_SessionChargingProfiles_by_pk(pk_columns: { id: $id }, _set: $set) {
+      id
+    }
+  }
+`;
+
+export const DELETE_SESSION_CHARGING_PROFILE_BY_COMMAND_ID_MUTATION = gql`
+  mutation DeleteSessionChargingProfileByCommandId($commandId: String!) {
+    delete_SessionChargingProfiles(where: { commandId: { _eq: $commandId } }) {
+      affected_rows
+    }
+  }
+`;
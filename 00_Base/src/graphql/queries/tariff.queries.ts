@@ -26,6 +26,14 @@ export const GET_TARIFF_BY_KEY_QUERY = gql`
       stationId
       taxRate
       tariffAltText
+      tariffAltUrl
+      tariffType
+      elements
+      minPrice
+      maxPrice
+      energyMix
+      startDateTime
+      endDateTime
       updatedAt
       tenant: Tenant {
         countryCode
@@ -58,6 +66,14 @@ export const GET_TARIFFS_QUERY = gql`
       stationId
       taxRate
       tariffAltText
+      tariffAltUrl
+      tariffType
+      elements
+      minPrice
+      maxPrice
+      energyMix
+      startDateTime
+      endDateTime
       updatedAt
       tenant: Tenant {
         countryCode
@@ -56,6 +56,9 @@ export const DELETE_TENANT_PARTNER_BY_SERVER_TOKEN = gql`
       }
     ) {
       affected_rows
+      returning {
+        id
+      }
     }
   }
 `;
@@ -140,7 +143,10 @@ export const LIST_TENANT_PARTNERS_BY_CPO_AND_LOCATION = gql`
         partnerProfileOCPI: {
           _contains: { endpoints: [{ identifier: $endpointIdentifier }] }
         }
-        TenantPartnerLocations: { locationId: { _eq: $locationId } }
+        _or: [
+          { TenantPartnerLocations: { locationId: { _eq: $locationId } } }
+          { publishAllLocations: { _eq: true } }
+        ]
       }
     ) {
       id
@@ -0,0 +1,89 @@
+// SPDX-FileCopyrightText: 2025 Contributors to the CitrineOS Project
+//
+// SPDX-License-Identifier: Apache-2.0
+
+import { gql } from 'graphql-request';
+
+export const INSERT_OCPI_TRAFFIC_LOG_MUTATION = gql`
+  mutation InsertOcpiTrafficLog($object: OcpiTrafficLogs_insert_input!) {
+    insert_OcpiTrafficLogs_one(object: $object) {
+      id
+    }
+  }
+`;
+
+export const GET_OCPI_TRAFFIC_LOG_QUERY = gql`
+  query GetOcpiTrafficLog($id: String!) {
+    OcpiTrafficLogs_by_pk(id: $id) {
+      id
+      direction
+      tenantPartnerId
+      module
+      method
+      url
+      fromCountryCode
+      fromPartyId
+      toCountryCode
+      toPartyId
+      requestId
+      correlationId
+      sessionId
+      httpStatus
+      ocpiStatusCode
+      latencyMs
+      requestBody
+      responseBody
+      error
+      createdAt
+    }
+  }
+`;
+
+export const LIST_OCPI_TRAFFIC_LOGS_QUERY = gql`
+  query ListOcpiTrafficLogs(
+    $where: OcpiTrafficLogs_bool_exp!
+    $offset: Int
+    $limit: Int
+  ) {
+    OcpiTrafficLogs(
+      where: $where
+      order_by: { createdAt: desc }
+      offset: $offset
+      limit: $limit
+    ) {
+      id
+      direction
+      tenantPartnerId
+      module
+      method
+      url
+      fromCountryCode
+      fromPartyId
+      toCountryCode
+      toPartyId
+      requestId
+      correlationId
+      sessionId
+      httpStatus
+      ocpiStatusCode
+      latencyMs
+      requestBody
+      responseBody
+      error
+      createdAt
+    }
+    OcpiTrafficLogs_aggregate(where: $where) {
+      aggregate {
+        count
+      }
+    }
+  }
+`;
+
+export const DELETE_OCPI_TRAFFIC_LOGS_MUTATION = gql`
+  mutation DeleteOcpiTrafficLogs($before: timestamptz!) {
+    delete_OcpiTrafficLogs(where: { createdAt: { _lte: $before } }) {
+      affected_rows
+    }
+  }
+`;
@@ -44,6 +44,8 @@ export const GET_TRANSACTIONS_QUERY = gql`
       transactionEvents: TransactionEvents {
         id
         eventType
+        triggerReason
+        reservationId
         EvseType {
           id
         }
@@ -60,6 +62,11 @@ export const GET_TRANSACTIONS_QUERY = gql`
         sampledValue
       }
     }
+    Transactions_aggregate(where: $where) {
+      aggregate {
+        count
+      }
+    }
   }
 `;
 
@@ -80,6 +87,7 @@ export const GET_TRANSACTION_BY_ID_QUERY = gql`
   query GetTransactionByTransactionId($id: Int!) {
     Transactions(where: { id: { _eq: $id } }) {
       tenant: Tenant {
+        id
         countryCode
         partyId
       }
@@ -117,6 +125,7 @@ export const GET_TRANSACTION_BY_ID_QUERY = gql`
         }
         idToken
         additionalInfo
+        customData
       }
       chargingStation: ChargingStation {
         id
@@ -126,6 +135,8 @@ export const GET_TRANSACTION_BY_ID_QUERY = gql`
       transactionEvents: TransactionEvents {
         id
         eventType
+        triggerReason
+        reservationId
         EvseType {
           id
         }
@@ -144,3 +155,55 @@ export const GET_TRANSACTION_BY_ID_QUERY = gql`
     }
   }
 `;
+
+export const GET_TOKEN_CONNECTOR_HISTORY_QUERY = gql`
+  query GetTokenConnectorHistory(
+    $tenantPartnerId: Int!
+    $idToken: String!
+    $limit: Int!
+  ) {
+    Transactions(
+      where: {
+        Authorization: {
+          idToken: { _eq: $idToken }
+          tenantPartnerId: { _eq: $tenantPartnerId }
+        }
+        connectorId: { _is_null: false }
+      }
+      order_by: { createdAt: desc }
+      limit: $limit
+    ) {
+      id
+      connector: Connector {
+        type
+        powerType
+        maximumPowerWatts
+      }
+    }
+  }
+`;
+
+export const GET_STATION_DATA_TRANSFERS_QUERY = gql`
+  query GetStationDataTransfers(
+    $tenantId: Int!
+    $stationId: String!
+    $action: String!
+    $origin: String!
+    $from: timestamptz!
+    $to: timestamptz!
+  ) {
+    OCPPMessages(
+      where: {
+        tenantId: { _eq: $tenantId }
+        stationId: { _eq: $stationId }
+        action: { _eq: $action }
+        origin: { _eq: $origin }
+        timestamp: { _gte: $from, _lte: $to }
+      }
+      order_by: { timestamp: asc }
+    ) {
+      message
+      timestamp
+    }
+  }
+`;
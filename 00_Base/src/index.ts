@@ -10,12 +10,18 @@ import Koa from 'koa';
 import { ICache } from '@citrineos/base';
 import { ILogObj, Logger } from 'tslog';
 import { CacheWrapper } from './util/CacheWrapper';
-// import { SessionBroadcaster } from './broadcaster/SessionBroadcaster';
+import { SessionBroadcaster } from './broadcaster/SessionBroadcaster';
 // import { CdrBroadcaster } from './broadcaster/CdrBroadcaster';
 import { version } from '../../package.json';
 import { OcpiConfig, OcpiConfigToken } from './config/ocpi.types';
 import { IDtoModule } from './events';
 import { OcpiGraphqlClient } from './graphql/OcpiGraphqlClient';
+import { CommandTimeoutService } from './services/CommandTimeoutService';
+import { EvseStatusScheduleService } from './services/EvseStatusScheduleService';
+import { OcpiTrafficAuditService } from './services/OcpiTrafficAuditService';
+import { OutboxService } from './services/OutboxService';
+import { TenantPartnerTokenResolver } from './services/TenantPartnerTokenResolver';
+import { TokensAdminService } from './services/TokensAdminService';
 
 export * from './broadcaster';
 export * from './mapper';
@@ -52,6 +58,16 @@ export {
   OCPP1_6_CommandHandler,
   OCPP2_0_1_CommandHandler,
 } from './util/ocppCommandHandlers';
+export {
+  ConnectorUsage,
+  EVSE_SELECTION_POLICY,
+  EvseCandidate,
+  EvseSelection,
+  EvseSelectionContext,
+  EvseSelectionPolicy,
+  FirstAvailableEvseSelectionPolicy,
+  PreferredEvseSelectionPolicy,
+} from './util/evseSelection';
 export {
   ChargingPreferencesResponse,
   ChargingPreferencesResponseSchema,
@@ -63,6 +79,9 @@ export {
   PaginatedSessionResponseSchema,
   PaginatedSessionResponseSchemaName,
 } from './model/Session';
+export { SessionAuthorization } from './model/SessionAuthorization';
+export { AuthMethod } from './model/AuthMethod';
+export { SessionStatus } from './model/SessionStatus';
 export { Role } from './model/Role';
 export { ImageCategory } from './model/ImageCategory';
 export { ImageType } from './model/ImageType';
@@ -72,7 +91,7 @@ export { InterfaceRole } from './model/InterfaceRole';
 export { AlreadyRegisteredException } from './exception/AlreadyRegisteredException';
 export { NotRegisteredException } from './exception/NotRegisteredException';
 export { VersionsClientApi } from './trigger/VersionsClientApi';
-// export { ChargingProfilesClientApi } from './trigger/ChargingProfilesClientApi';
+export { ChargingProfilesClientApi } from './trigger/ChargingProfilesClientApi';
 export {
   CredentialsDTO,
   CredentialsDTOSchema,
@@ -106,6 +125,15 @@ export { ClearChargingProfileResult } from './model/ChargingprofilesClearProfile
 export { ChargingProfileResponse } from './model/ChargingProfileResponse';
 export { ChargingProfileResult } from './model/ChargingProfileResult';
 export { ChargingProfileResultType } from './model/ChargingProfileResult';
+export { ChargingProfilesCommandType } from './model/ChargingProfilesCommandType';
+export {
+  SessionChargingPreferences,
+  SessionChargingPreferencesSchema,
+} from './model/SessionChargingPreferences';
+export {
+  SessionChargingProfile,
+  SessionChargingProfileSchema,
+} from './model/SessionChargingProfile';
 export {
   generateMockForSchema,
   generateMockOcpiPaginatedResponse,
@@ -127,6 +155,11 @@ export {
   ReserveNowSchema,
   ReserveNowSchemaName,
 } from './model/ReserveNow';
+export {
+  OcpiReservation,
+  OcpiReservationSchema,
+  OcpiReservationStatus,
+} from './model/OcpiReservation';
 export {
   SetChargingProfile,
   SetChargingProfileSchema,
@@ -261,13 +294,20 @@ export { BaseClientApi } from './trigger/BaseClientApi';
 export { LocationsClientApi } from './trigger/LocationsClientApi';
 
 export { CommandsService } from './services/CommandsService';
+export { CommandLedgerService } from './services/CommandLedgerService';
+export { CommandTimeoutService } from './services/CommandTimeoutService';
+export {
+  OcpiTrafficAuditService,
+  OcpiTrafficRecord,
+} from './services/OcpiTrafficAuditService';
+export { OcpiTrafficAuditMiddleware } from './util/middleware/OcpiTrafficAuditMiddleware';
 export { CredentialsService } from './services/CredentialsService';
 export { TokensService } from './services/TokensService';
-// export { TokensAdminService } from './services/TokensAdminService';
+export { TokensAdminService } from './services/TokensAdminService';
 export { LocationsService } from './services/LocationsService';
 export { VersionService } from './services/VersionService';
 export { SessionsService } from './services/SessionsService';
-// export { AdminLocationsService } from './services/AdminLocationsService';
+export { AdminLocationsService } from './services/AdminLocationsService';
 
 // Export AsyncJob types
 export {
@@ -284,13 +324,94 @@ export { TariffMapper } from './mapper/TariffMapper';
 export { OcpiHttpHeader } from './util/OcpiHttpHeader';
 
 export { CdrsService } from './services/CdrsService';
-export { PaginatedCdrResponse } from './model/Cdr';
+export { OutboxService } from './services/OutboxService';
+export {
+  HubClientInfoService,
+  OcpiParty,
+} from './services/HubClientInfoService';
+export {
+  ClientInfo,
+  ClientInfoResponse,
+  ClientInfoResponseSchema,
+  ClientInfoResponseSchemaName,
+  ClientInfoSchema,
+  ClientInfoSchemaName,
+} from './model/ClientInfo';
+export { ConnectionStatus } from './model/ConnectionStatus';
+export * from './model/v211';
+export { V211TranslationService } from './services/V211TranslationService';
+export { VersionedResponse } from './util/decorators/VersionedResponse';
+export { InvoiceReferenceService } from './services/InvoiceReferenceService';
+export {
+  TenantPartnerTokenCacheMetrics,
+  TenantPartnerTokenResolver,
+  TokenTenantPartner,
+} from './services/TenantPartnerTokenResolver';
+export {
+  LocationGroup,
+  LocationGroupRequest,
+  LocationGroupRequestSchema,
+  LocationGroupRequestSchemaName,
+  LocationGroupSchema,
+  LocationGroupSchemaName,
+  LocationPublication,
+  LocationPublicationModeRequest,
+  LocationPublicationModeRequestSchema,
+  LocationPublicationModeRequestSchemaName,
+  LocationPublicationRequest,
+  LocationPublicationRequestSchema,
+  LocationPublicationRequestSchemaName,
+  LocationPublicationSchema,
+  LocationPublicationSchemaName,
+  LocationPush,
+  LocationPushListResponse,
+  LocationPushListResponseSchema,
+  LocationPushListResponseSchemaName,
+} from './model/LocationPublication';
+export { LocationPublicationService } from './services/LocationPublicationService';
+export {
+  OutboxMessage,
+  OutboxMessageListResponse,
+  OutboxMessageListResponseSchema,
+  OutboxMessageListResponseSchemaName,
+  OutboxMessageStatus,
+} from './model/OutboxMessage';
+export {
+  OcpiCommand,
+  OcpiCommandListResponse,
+  OcpiCommandListResponseSchema,
+  OcpiCommandListResponseSchemaName,
+  OcpiCommandResultDeliveryStatus,
+  OcpiCommandSchema,
+  OcpiCommandSchemaName,
+  OcpiCommandState,
+  OcpiCommandTransition,
+} from './model/OcpiCommand';
+export {
+  OcpiTrafficDirection,
+  OcpiTrafficLog,
+  OcpiTrafficLogListResponse,
+  OcpiTrafficLogListResponseSchema,
+  OcpiTrafficLogListResponseSchemaName,
+  OcpiTrafficLogSchema,
+  OcpiTrafficLogSchemaName,
+} from './model/OcpiTrafficLog';
+export {
+  Cdr,
+  CdrResponse,
+  CdrResponseSchema,
+  CdrResponseSchemaName,
+  PaginatedCdrResponse,
+} from './model/Cdr';
 export { BaseBroadcaster } from './broadcaster/BaseBroadcaster';
 export {
   PaginatedTariffResponse,
   TariffDTO,
   PaginatedTariffResponseSchema,
   PaginatedTariffResponseSchemaName,
+  TariffResponse,
+  TariffResponseSchema,
+  TariffResponseSchemaName,
 } from './model/DTO/tariffs/TariffDTO';
 export { BodyWithExample } from './util/decorators/BodyWithExample';
 export { CommandExecutor } from './util/CommandExecutor';
@@ -301,9 +422,20 @@ export {
 } from './model/DTO/tariffs/PutTariffRequest';
 export {
   AdminLocationDTO,
+  AdminLocationDTOSchema,
+  AdminLocationDTOSchemaName,
   AdminEvseDTO,
-  AdminConnectorDTO,
 } from './model/DTO/admin/AdminLocationDTO';
+export {
+  AdminEvseStatusScheduleDTO,
+  AdminEvseStatusScheduleDTOSchema,
+  AdminEvseStatusScheduleDTOSchemaName,
+  AdminEvseStatusScheduleRequest,
+  AdminEvseStatusScheduleRequestSchema,
+  AdminEvseStatusScheduleRequestSchemaName,
+} from './model/DTO/admin/AdminEvseStatusScheduleDTO';
+export { EvseStatusScheduleService } from './services/EvseStatusScheduleService';
+export { EvseSelectionService } from './services/EvseSelectionService';
 export {
   ChargingStationVariableAttributes,
   CONSTRUCT_CHARGING_STATION_VARIABLE_ATTRIBUTES_QUERY,
@@ -326,6 +458,7 @@ export * from './events';
 import Ajv from 'ajv';
 import addFormats from 'ajv-formats';
 import { HealthController } from './util/KoaServerHealthController';
+import { OcpiTrafficAuditMiddleware } from './util/middleware/OcpiTrafficAuditMiddleware';
 
 useContainer(Container);
 
@@ -386,7 +519,7 @@ export class OcpiServer extends KoaServer {
       const options: RoutingControllersOptions = {
         controllers: [...controllers, HealthController],
         routePrefix: '/ocpi',
-        middlewares: [],
+        middlewares: [OcpiTrafficAuditMiddleware],
         defaultErrorHandler: false,
       } as RoutingControllersOptions;
       this.initApp(options);
@@ -441,8 +574,22 @@ export class OcpiServer extends KoaServer {
   }
 
   private onContainerInitialized() {
-    // Container.get(SessionBroadcaster); // init session broadcaster
     // Container.get(CdrBroadcaster);
+    Container.get(OutboxService).start();
+    Container.get(TokensAdminService).start();
+    Container.get(EvseStatusScheduleService).start();
+    Container.get(CommandTimeoutService).start();
+    Container.get(OcpiTrafficAuditService).start();
+    Container.get(SessionBroadcaster)
+      .start()
+      .catch((error) =>
+        this.logger.error('Failed to restore session charging periods', error),
+      );
+    Container.get(TenantPartnerTokenResolver)
+      .start()
+      .catch((error) =>
+        this.logger.error('Failed to start TenantPartner token cache', error),
+      );
   }
 }
 
@@ -2,23 +2,43 @@
 //
 // SPDX-License-Identifier: Apache-2.0
 
-import { ITariffDto, ITransactionDto } from '@citrineos/base';
+import {
+  ITariffDto,
+  ITransactionDto,
+  MessageOrigin,
+  MessageTypeId,
+  OCPP1_6,
+  OCPP1_6_CallAction,
+} from '@citrineos/base';
 import { ILogObj, Logger } from 'tslog';
-import { Service } from 'typedi';
+import { Inject, Service } from 'typedi';
+import { OcpiConfig, OcpiConfigToken } from '../config/ocpi.types';
 import { OcpiGraphqlClient } from '../graphql/OcpiGraphqlClient';
+import {
+  GetStationDataTransfersQueryResult,
+  GetStationDataTransfersQueryVariables,
+} from '../graphql/operations';
+import { GET_STATION_DATA_TRANSFERS_QUERY } from '../graphql/queries/transaction.queries';
 import { Cdr } from '../model/Cdr';
-import { CdrDimensionType } from '../model/CdrDimensionType';
 import { CdrLocation } from '../model/CdrLocation';
 import { LocationDTO } from '../model/DTO/LocationDTO';
 import { Price } from '../model/Price';
 import { Session } from '../model/Session';
-import { SignedData } from '../model/SignedData';
+import { SessionStatus } from '../model/SessionStatus';
 import { Tariff as OcpiTariff } from '../model/Tariff';
 import { LocationsService } from '../services/LocationsService';
-import { MINUTES_IN_HOUR } from '../util/Consts';
 import { toISOStringIfNeeded } from '../util/DateTimeHelper';
+import {
+  SignedDataTransfer,
+  SignedMeterDataUtil,
+} from '../util/SignedMeterDataUtil';
+import { TariffPricingEngine } from '../util/TariffPricingEngine';
 import { BaseTransactionMapper } from './BaseTransactionMapper';
 import { SessionMapper } from './SessionMapper';
+import { TariffMapper } from './TariffMapper';
+
+// Stations may send the signed end reading in a DataTransfer shortly after the transaction ended
+const SIGNED_DATA_TRANSFER_GRACE_MS = 5 * 60 * 1000;
 
 @Service()
 export class CdrMapper extends BaseTransactionMapper {
@@ -27,6 +47,7 @@ export class CdrMapper extends BaseTransactionMapper {
     protected locationsService: LocationsService,
     protected ocpiGraphqlClient: OcpiGraphqlClient,
     readonly sessionMapper: SessionMapper,
+    @Inject(OcpiConfigToken) private readonly config: OcpiConfig,
   ) {
     super(logger, locationsService, ocpiGraphqlClient);
   }
@@ -51,6 +72,12 @@ export class CdrMapper extends BaseTransactionMapper {
         );
       return await this.mapSessionsToCDRs(
         sessions,
+        new Map(
+          validTransactions.map((transaction) => [
+            transaction.id!.toString(),
+            transaction,
+          ]),
+        ),
         transactionIdToLocationMap,
         transactionIdToTariffMap,
         transactionIdToOcpiTariffMap,
@@ -72,21 +99,57 @@ export class CdrMapper extends BaseTransactionMapper {
     return this.sessionMapper.mapTransactionsToSessions(transactions);
   }
 
+  /**
+   * OCPP 1.6 stations can send their signed meter data in DataTransfer requests, which core only
+   * stores as OCPP messages of the station.
+   */
+  private async getSignedDataTransfers(
+    transaction: ITransactionDto,
+  ): Promise<SignedDataTransfer[]> {
+    if (!transaction.startTime || !transaction.endTime) {
+      return [];
+    }
+    const result = await this.ocpiGraphqlClient.request<
+      GetStationDataTransfersQueryResult,
+      GetStationDataTransfersQueryVariables
+    >(GET_STATION_DATA_TRANSFERS_QUERY, {
+      tenantId: transaction.tenantId,
+      stationId: transaction.stationId,
+      action: OCPP1_6_CallAction.DataTransfer,
+      origin: MessageOrigin.ChargingStation,
+      from: transaction.startTime,
+      to: new Date(
+        new Date(transaction.endTime).getTime() + SIGNED_DATA_TRANSFER_GRACE_MS,
+      ).toISOString(),
+    });
+    return result.OCPPMessages.filter(
+      ({ message }) =>
+        Array.isArray(message) && message[0] === MessageTypeId.Call,
+    ).map(({ message, timestamp }) => ({
+      timestamp,
+      request: message[3] as OCPP1_6.DataTransferRequest,
+    }));
+  }
+
   private async mapSessionsToCDRs(
     sessions: Session[],
+    transactionIdToTransactionMap: Map<string, ITransactionDto>,
     transactionIdToLocationMap: Map<string, LocationDTO>,
     transactionIdToTariffMap: Map<string, ITariffDto>,
     transactionIdToOcpiTariffMap: Map<string, OcpiTariff>,
   ): Promise<Cdr[]> {
     return Promise.all(
       sessions
+        // INVALID sessions are not billed
+        .filter((session) => session.status !== SessionStatus.INVALID)
         .filter((session) => transactionIdToTariffMap.has(session.id))
         .map((session) =>
           this.mapSessionToCDR(
             session,
+            transactionIdToTransactionMap.get(session.id),
             transactionIdToLocationMap.get(session.id)!,
             transactionIdToTariffMap.get(session.id)!,
-            transactionIdToOcpiTariffMap.get(session.id)!,
+            transactionIdToOcpiTariffMap.get(session.id),
           ),
         ),
     );
@@ -94,22 +157,30 @@ export class CdrMapper extends BaseTransactionMapper {
 
   private async mapSessionToCDR(
     session: Session,
+    transaction: ITransactionDto | undefined,
     location: LocationDTO,
     tariff: ITariffDto,
-    ocpiTariff: OcpiTariff,
+    ocpiTariff: OcpiTariff | undefined,
   ): Promise<Cdr> {
     const totalEnergy = session.kwh;
     const totalTime = this.calculateTotalTime(session);
-    const totalParkingTime = this.calculateTotalParkingTimeFromPeriods(session);
-
-    const totalEnergyCost = this.computeEnergyCost(totalEnergy, tariff);
-    const totalTimeCost = this.computeTimeCost(totalTime, tariff);
-    const totalFixedCost = this.computeFixedCost(tariff);
-
-    const totalCost = this.sumCosts(
-      [totalEnergyCost, totalTimeCost, totalFixedCost],
-      tariff,
-    );
+    if (!ocpiTariff) {
+      this.logger.warn(
+        `No OCPI tariff found for session ${session.id}, pricing with core tariff ${tariff.id}`,
+      );
+    }
+    const prices = TariffPricingEngine.price({
+      tariff: ocpiTariff ?? {
+        elements: TariffMapper.getTariffElements(tariff),
+        min_price: (tariff.minPrice as Price) ?? undefined,
+        max_price: (tariff.maxPrice as Price) ?? undefined,
+      },
+      chargingPeriods: session.charging_periods ?? [],
+      startDateTime: session.start_date_time,
+      endDateTime: session.end_date_time ?? session.last_updated,
+      totalEnergy,
+      timeZone: location.time_zone,
+    });
 
     return {
       country_code: session.country_code,
@@ -124,26 +195,66 @@ export class CdrMapper extends BaseTransactionMapper {
       cdr_location: await this.createCdrLocation(location, session),
       meter_id: session.meter_id,
       currency: session.currency,
-      tariffs: [ocpiTariff],
+      tariffs: ocpiTariff ? [ocpiTariff] : undefined,
       charging_periods: session.charging_periods || [],
-      signed_data: await this.getSignedData(session),
-      total_cost: totalCost,
-      total_fixed_cost: totalFixedCost,
+      signed_data: transaction
+        ? SignedMeterDataUtil.getSignedData(
+            transaction,
+            await this.getSignedDataTransfers(transaction),
+            this.config.signedData?.transparencyUrl,
+          )
+        : undefined,
+      total_cost: prices.total_cost,
+      total_fixed_cost: prices.total_fixed_cost,
       total_energy: totalEnergy,
-      total_energy_cost: totalEnergyCost,
+      total_energy_cost: prices.total_energy_cost,
       total_time: totalTime,
-      total_time_cost: totalTimeCost,
-      total_parking_time: totalParkingTime,
-      total_parking_cost: undefined,
-      total_reservation_cost: undefined,
+      total_time_cost: prices.total_time_cost,
+      total_parking_time: prices.total_parking_time,
+      total_parking_cost: prices.total_parking_cost,
+      total_reservation_cost: prices.total_reservation_cost,
       remark: this.generateRemark(session),
-      invoice_reference_id: await this.generateInvoiceReferenceId(session),
-      credit: this.isCredit(session, tariff),
-      credit_reference_id: this.generateCreditReferenceId(session, tariff),
+      // Assigned by CdrBroadcaster when the CDR is issued
+      invoice_reference_id: undefined,
+      credit: false,
       last_updated: toISOStringIfNeeded(session.last_updated, true),
     };
   }
 
+  /**
+   * Builds the credit CDR cancelling a CDR. It repeats the original CDR with negative costs, as
+   * required by OCPI, and references it through credit_reference_id.
+   */
+  public mapToCreditCdr(cdr: Cdr, creditCdrId: string): Cdr {
+    return {
+      ...cdr,
+      id: creditCdrId,
+      invoice_reference_id: undefined,
+      credit: true,
+      credit_reference_id: cdr.id,
+      total_cost: this.negatePrice(cdr.total_cost)!,
+      total_fixed_cost: this.negatePrice(cdr.total_fixed_cost),
+      total_energy_cost: this.negatePrice(cdr.total_energy_cost),
+      total_time_cost: this.negatePrice(cdr.total_time_cost),
+      total_parking_cost: this.negatePrice(cdr.total_parking_cost),
+      total_reservation_cost: this.negatePrice(cdr.total_reservation_cost),
+      last_updated: new Date().toISOString(),
+    };
+  }
+
+  private negatePrice(price?: Price | null): Price | undefined {
+    if (!price) {
+      return undefined;
+    }
+    return {
+      excl_vat: -price.excl_vat,
+      incl_vat:
+        price.incl_vat === undefined || price.incl_vat === null
+          ? price.incl_vat
+          : -price.incl_vat,
+    };
+  }
+
   private generateCdrId(session: Session): string {
     return `CDR**REX**${session.id.padStart(5, '0')}`;
   }
@@ -209,97 +320,6 @@ export class CdrMapper extends BaseTransactionMapper {
     return connectorDto?.power_type || '';
   }
 
-  private async getSignedData(
-    _session: Session,
-  ): Promise<SignedData | undefined> {
-    // TODO: Implement signed data logic if required
-    return undefined;
-  }
-
-  /**
-   * Flat session fee (OCPI FLAT tariff dimension).
-   * Returns undefined if no per-session fee is configured on the tariff.
-   */
-  private computeFixedCost(tariff: ITariffDto): Price | undefined {
-    if (!tariff.pricePerSession) return undefined;
-    const excl_vat = this.round4(tariff.pricePerSession);
-    return this.buildPrice(excl_vat, tariff.taxRate);
-  }
-
-  /**
-   * Energy cost: kWh consumed × pricePerKwh (OCPI ENERGY tariff dimension).
-   * Returns undefined when the tariff has no energy rate.
-   */
-  private computeEnergyCost(
-    totalKwh: number,
-    tariff: ITariffDto,
-  ): Price | undefined {
-    if (!tariff.pricePerKwh) return undefined;
-    const excl_vat = this.round4(totalKwh * tariff.pricePerKwh);
-    return this.buildPrice(excl_vat, tariff.taxRate);
-  }
-
-  /**
-   * Time cost: session duration in hours × pricePerMin × 60 (OCPI TIME dimension).
-   * TariffMapper stores the TIME price component as pricePerMin*60 (per-hour rate),
-   * so we multiply total_time (hours) by that same per-hour rate here.
-   * Returns undefined when the tariff has no time rate.
-   */
-  private computeTimeCost(
-    totalTimeHours: number,
-    tariff: ITariffDto,
-  ): Price | undefined {
-    if (!tariff.pricePerMin) return undefined;
-    const pricePerHour = tariff.pricePerMin * MINUTES_IN_HOUR;
-    const excl_vat = this.round4(totalTimeHours * pricePerHour);
-    return this.buildPrice(excl_vat, tariff.taxRate);
-  }
-
-  /**
-   * Sum PARKING_TIME CdrDimension volumes from charging periods.
-   * Per OCPI 2.2.1 spec the volume unit for PARKING_TIME is hours.
-   */
-  private calculateTotalParkingTimeFromPeriods(session: Session): number {
-    let totalHours = 0;
-    for (const period of session.charging_periods ?? []) {
-      for (const dim of period.dimensions) {
-        if (dim.type === CdrDimensionType.PARKING_TIME) {
-          totalHours += dim.volume;
-        }
-      }
-    }
-    return totalHours;
-  }
-
-  /**
-   * Grand total cost = sum of all non-null cost components.
-   * Includes incl_vat when a taxRate is present on the tariff.
-   */
-  private sumCosts(costs: (Price | undefined)[], tariff: ITariffDto): Price {
-    const excl_vat = costs.reduce(
-      (acc, cost) => acc + (cost?.excl_vat ?? 0),
-      0,
-    );
-    return this.buildPrice(this.round4(excl_vat), tariff.taxRate);
-  }
-
-  /**
-   * Build a Price with optional incl_vat derived from taxRate.
-   */
-  private buildPrice(excl_vat: number, taxRate?: number | null): Price {
-    if (taxRate) {
-      return {
-        excl_vat,
-        incl_vat: this.round4(excl_vat * (1 + taxRate)),
-      };
-    }
-    return { excl_vat };
-  }
-
-  private round4(value: number): number {
-    return Math.round(value * 10000) / 10000;
-  }
-
   private calculateTotalTime(session: Session): number {
     if (session.end_date_time) {
       return (
@@ -316,29 +336,6 @@ export class CdrMapper extends BaseTransactionMapper {
     return undefined;
   }
 
-  private async generateInvoiceReferenceId(
-    _session: Session,
-  ): Promise<string | undefined> {
-    // TODO: Generate invoice reference ID if needed
-    return undefined;
-  }
-
-  private isCredit(
-    _session: Session,
-    _tariff: ITariffDto,
-  ): boolean | undefined {
-    // TODO: Return whether CDR is a Credit CDR if needed
-    return undefined;
-  }
-
-  private generateCreditReferenceId(
-    _session: Session,
-    _tariff: ITariffDto,
-  ): string | undefined {
-    // TODO: Return Credit Reference ID for Credit CDR if needed
-    return undefined;
-  }
-
   private getCompletedTransactions(
     transactions: ITransactionDto[],
   ): ITransactionDto[] {
@@ -0,0 +1,80 @@
+// SPDX-FileCopyrightText: 2025 Contributors to the CitrineOS Project
+//
+// SPDX-License-Identifier: Apache-2.0
+
+import { ChargingPreferences } from '../model/ChargingPreferences';
+import { ChargingProfile } from '../model/ChargingProfile';
+import { ProfileType } from '../model/ProfileType';
+
+const WATT_RATE_UNIT = 'W';
+
+export class ChargingPreferencesMapper {
+  /**
+   * Translates accepted charging preferences into a charging profile for the session.
+   *
+   * FAST charges at the maximum power of the connector. There are no price or energy mix
+   * forecasts available, so CHEAP and GREEN spread the remaining energy need evenly until the
+   * departure time, using the lowest constant power that still meets it. REGULAR leaves charging
+   * to the charging station, for which no profile is returned.
+   *
+   * @param maxPowerWatts - Maximum power of the connector used by the session, if known.
+   * @param energyDeliveredKwh - Energy already delivered in the session.
+   */
+  public static toChargingProfile(
+    preferences: ChargingPreferences,
+    maxPowerWatts: number | undefined,
+    energyDeliveredKwh: number,
+    now: Date = new Date(),
+  ): ChargingProfile | undefined {
+    switch (preferences.profile_type) {
+      case ProfileType.FAST:
+        if (!maxPowerWatts) {
+          return undefined;
+        }
+        return {
+          charging_rate_unit: WATT_RATE_UNIT,
+          charging_profile_period: [{ start_period: 0, limit: maxPowerWatts }],
+        };
+      case ProfileType.CHEAP:
+      case ProfileType.GREEN: {
+        const durationSeconds = ChargingPreferencesMapper.getSecondsUntil(
+          preferences.departure_time!,
+          now,
+        );
+        const limit = Math.ceil(
+          (ChargingPreferencesMapper.getRemainingEnergyNeedKwh(
+            preferences,
+            energyDeliveredKwh,
+          ) *
+            1000 *
+            3600) /
+            durationSeconds,
+        );
+        return {
+          start_date_time: now.toISOString(),
+          duration: durationSeconds,
+          charging_rate_unit: WATT_RATE_UNIT,
+          charging_profile_period: [
+            {
+              start_period: 0,
+              limit: maxPowerWatts ? Math.min(limit, maxPowerWatts) : limit,
+            },
+          ],
+        };
+      }
+      default:
+        return undefined;
+    }
+  }
+
+  public static getRemainingEnergyNeedKwh(
+    preferences: ChargingPreferences,
+    energyDeliveredKwh: number,
+  ): number {
+    return Math.max((preferences.energy_need ?? 0) - energyDeliveredKwh, 0);
+  }
+
+  public static getSecondsUntil(dateTime: string, now: Date = new Date()) {
+    return Math.floor((new Date(dateTime).getTime() - now.getTime()) / 1000);
+  }
+}
@@ -32,10 +32,27 @@ import { ParkingType } from '../model/ParkingType';
 import { Facilities } from '../model/Facilities';
 import { Hours } from '../model/Hours';
 import { toISOStringIfNeeded } from '../util/DateTimeHelper';
+import {
+  EvseStatusScheduleFields,
+  OcpiEvseExtensionFields,
+  OcpiLocationExtensionFields,
+} from '../graphql/operations';
+import { EvseStatusSchedule } from '../model/EvseStatusSchedule';
+
+/**
+ * Location and EVSE as queried together with their OCPI attributes that core cannot hold.
+ */
+type WithLocationExtension = {
+  ocpiExtension?: OcpiLocationExtensionFields | null;
+};
+type WithEvseExtension = {
+  ocpiExtension?: OcpiEvseExtensionFields | null;
+  statusSchedules?: EvseStatusScheduleFields[];
+};
 
 export class LocationMapper {
   static fromGraphql(location: ILocationDto): LocationDTO {
-    return {
+    const locationDto: LocationDTO = {
       id: location.id!.toString(),
       country_code: location.tenant!.countryCode!,
       party_id: location.tenant!.partyId!,
@@ -66,6 +83,51 @@ export class LocationMapper {
         : undefined,
       last_updated: toISOStringIfNeeded(location.updatedAt, true),
     };
+    return LocationMapper.applyExtension(
+      locationDto,
+      (location as ILocationDto & WithLocationExtension).ocpiExtension,
+    );
+  }
+
+  /**
+   * Overrides the attributes derived from core with the ones set in the OCPI extension store.
+   * The location counts as updated when either of them was.
+   */
+  static applyExtension(
+    location: LocationDTO,
+    extension?: OcpiLocationExtensionFields | null,
+  ): LocationDTO {
+    if (!extension) {
+      return location;
+    }
+    return {
+      ...location,
+      opening_times: extension.openingTimes ?? location.opening_times,
+      facilities: extension.facilities ?? location.facilities,
+      images: extension.images ?? location.images,
+      energy_mix: extension.energyMix ?? location.energy_mix,
+      parking_type:
+        (extension.parkingType as ParkingType | null) ?? location.parking_type,
+      related_locations:
+        extension.relatedLocations ?? location.related_locations,
+      directions: extension.directions ?? location.directions,
+      operator: extension.operator ?? location.operator,
+      suboperator: extension.suboperator ?? location.suboperator,
+      owner: extension.owner ?? location.owner,
+      charging_when_closed:
+        extension.chargingWhenClosed ?? location.charging_when_closed,
+      last_updated: LocationMapper.latest(
+        location.last_updated,
+        extension.updatedAt,
+      ),
+    };
+  }
+
+  static latest(lastUpdated: string, extensionUpdatedAt: any): string {
+    const extensionLastUpdated = toISOStringIfNeeded(extensionUpdatedAt, true);
+    return new Date(extensionLastUpdated) > new Date(lastUpdated)
+      ? extensionLastUpdated
+      : lastUpdated;
   }
 
   static fromPartialGraphql(
@@ -218,7 +280,7 @@ export class EvseMapper {
       // TODO: solve this case
     }
 
-    return {
+    const evseDto: EvseDTO = {
       uid: UID_FORMAT(station.id, evse.id!),
       evse_id: evse.evseId,
       status: connectors
@@ -245,6 +307,85 @@ export class EvseMapper {
       floor_level: station.floorLevel,
       last_updated: toISOStringIfNeeded(evse.updatedAt, true),
     };
+    return EvseMapper.applyStatusSchedules(
+      EvseMapper.applyExtension(
+        evseDto,
+        (evse as IEvseDto & WithEvseExtension).ocpiExtension,
+      ),
+      (evse as IEvseDto & WithEvseExtension).statusSchedules,
+    );
+  }
+
+  /**
+   * Overrides the attributes derived from the charging station with the ones set in the OCPI
+   * extension store.
+   */
+  static applyExtension(
+    evse: EvseDTO,
+    extension?: OcpiEvseExtensionFields | null,
+  ): EvseDTO {
+    if (!extension) {
+      return evse;
+    }
+    return {
+      ...evse,
+      parking_restrictions:
+        extension.parkingRestrictions ?? evse.parking_restrictions,
+      floor_level: extension.floorLevel ?? evse.floor_level,
+      physical_reference:
+        extension.physicalReference ?? evse.physical_reference,
+      last_updated: LocationMapper.latest(
+        evse.last_updated,
+        extension.updatedAt,
+      ),
+    };
+  }
+
+  /**
+   * Publishes the planned periods that have not ended yet as status_schedule, and the status of the
+   * period in progress instead of the one derived from the connectors.
+   */
+  static applyStatusSchedules(
+    evse: EvseDTO,
+    schedules?: EvseStatusScheduleFields[],
+    now: Date = new Date(),
+  ): EvseDTO {
+    const statusSchedule = EvseMapper.mapStatusSchedule(schedules, now);
+    if (statusSchedule.length === 0) {
+      return evse;
+    }
+    return {
+      ...evse,
+      status: EvseMapper.getScheduledStatus(schedules, now) ?? evse.status,
+      status_schedule: statusSchedule,
+    };
+  }
+
+  static mapStatusSchedule(
+    schedules: EvseStatusScheduleFields[] | undefined,
+    now: Date = new Date(),
+  ): EvseStatusSchedule[] {
+    return (schedules ?? [])
+      .filter(
+        (schedule) => !schedule.periodEnd || new Date(schedule.periodEnd) > now,
+      )
+      .map((schedule) => ({
+        period_begin: new Date(schedule.periodBegin),
+        period_end: schedule.periodEnd ? new Date(schedule.periodEnd) : null,
+        status: schedule.status as EvseStatus,
+      }));
+  }
+
+  /**
+   * Status of the planned period in progress, if any.
+   */
+  static getScheduledStatus(
+    schedules: EvseStatusScheduleFields[] | undefined,
+    now: Date = new Date(),
+  ): EvseStatus | undefined {
+    return EvseMapper.mapStatusSchedule(schedules, now).find(
+      (schedule) => schedule.period_begin <= now,
+    )?.status;
   }
 
   static fromPartialGraphql(
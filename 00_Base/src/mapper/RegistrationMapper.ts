@@ -259,6 +259,12 @@ export class RegistrationMapper {
         if (value.role === InterfaceRole.RECEIVER)
           return EndpointIdentifier.CHARGING_PROFILES_RECEIVER;
         break;
+      case ModuleId.Hubclientinfo:
+        if (value.role === InterfaceRole.SENDER)
+          return EndpointIdentifier.HUBCLIENTINFO_SENDER;
+        if (value.role === InterfaceRole.RECEIVER)
+          return EndpointIdentifier.HUBCLIENTINFO_RECEIVER;
+        break;
       default:
         throw new Error(`Unknown module identifier: ${value.identifier}`);
     }
@@ -308,6 +314,16 @@ export class RegistrationMapper {
           identifier: ModuleId.ChargingProfiles,
           role: InterfaceRole.RECEIVER,
         };
+      case EndpointIdentifier.HUBCLIENTINFO_SENDER:
+        return {
+          identifier: ModuleId.Hubclientinfo,
+          role: InterfaceRole.SENDER,
+        };
+      case EndpointIdentifier.HUBCLIENTINFO_RECEIVER:
+        return {
+          identifier: ModuleId.Hubclientinfo,
+          role: InterfaceRole.RECEIVER,
+        };
       default:
         throw new Error(`Unknown endpoint identifier: ${value.identifier}`);
     }
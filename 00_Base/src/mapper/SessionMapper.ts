@@ -24,6 +24,28 @@ import {
   IMeterValueDto,
 } from '@citrineos/base';
 import { toISOStringIfNeeded } from '../util/DateTimeHelper';
+import {
+  GetTransactionByTransactionIdQueryResult,
+  GetTransactionByTransactionIdQueryVariables,
+} from '../graphql/operations';
+import { GET_TRANSACTION_BY_ID_QUERY } from '../graphql/queries/transaction.queries';
+import { Price } from '../model/Price';
+import { TariffPricingEngine } from '../util/TariffPricingEngine';
+import { TariffMapper } from './TariffMapper';
+
+// Fields of a transaction the session status and auth method are derived from
+const STATUS_FIELDS: (keyof ITransactionDto)[] = [
+  'endTime',
+  'isActive',
+  'totalKwh',
+  'chargingState',
+  'stoppedReason',
+  'transactionEvents',
+];
+const AUTH_METHOD_FIELDS: (keyof ITransactionDto)[] = [
+  'customData',
+  'remoteStartId',
+];
 
 @Service()
 export class SessionMapper extends BaseTransactionMapper {
@@ -78,6 +100,9 @@ export class SessionMapper extends BaseTransactionMapper {
       return this.mapPartialTransactionWithoutContext(transaction);
     }
 
+    const fullTransaction =
+      await this.getFullTransactionForDerivedFields(transaction);
+
     try {
       // Try to fetch context data, but handle failures gracefully
       const [locationMap, tokenMap, tariffMap] =
@@ -94,13 +119,17 @@ export class SessionMapper extends BaseTransactionMapper {
         location,
         token,
         tariff,
+        fullTransaction,
       );
     } catch (error) {
       this.logger.warn(
         `Failed to fetch context for partial transaction ${transaction.id}. Mapping without context.`,
         error,
       );
-      return this.mapPartialTransactionWithoutContext(transaction);
+      return this.mapPartialTransactionWithoutContext(
+        transaction,
+        fullTransaction,
+      );
     }
   }
 
@@ -171,6 +200,7 @@ export class SessionMapper extends BaseTransactionMapper {
     location?: LocationDTO,
     token?: TokenDTO,
     tariff?: ITariffDto,
+    fullTransaction?: ITransactionDto,
   ): Partial<Session> {
     const session: Partial<Session> = {};
 
@@ -238,15 +268,7 @@ export class SessionMapper extends BaseTransactionMapper {
       );
     }
 
-    // Map status if we can determine it
-    if (transaction.endTime !== undefined) {
-      session.status = this.getTransactionStatus(
-        transaction as ITransactionDto,
-      );
-    }
-
-    // Set default auth method
-    session.auth_method = AuthMethod.WHITELIST;
+    this.setPartialStatusAndAuthMethod(session, transaction, fullTransaction);
 
     // Set optional fields that are typically null in your implementation
     session.authorization_reference =
@@ -261,6 +283,7 @@ export class SessionMapper extends BaseTransactionMapper {
    */
   private mapPartialTransactionWithoutContext(
     transaction: Partial<ITransactionDto>,
+    fullTransaction?: ITransactionDto,
   ): Partial<Session> {
     const session: Partial<Session> = {};
 
@@ -296,14 +319,9 @@ export class SessionMapper extends BaseTransactionMapper {
       session.connector_id = transaction.connectorId.toString();
     }
 
-    if (transaction.endTime !== undefined) {
-      session.status = this.getTransactionStatus(
-        transaction as ITransactionDto,
-      );
-    }
+    this.setPartialStatusAndAuthMethod(session, transaction, fullTransaction);
 
     // Set defaults for fields that don't depend on external context
-    session.auth_method = AuthMethod.WHITELIST;
     session.authorization_reference =
       transaction.customData?.authorization_reference || undefined;
     session.meter_id = null;
@@ -311,6 +329,64 @@ export class SessionMapper extends BaseTransactionMapper {
     return session;
   }
 
+  /**
+   * The status and auth method are only sent when the update changes a field they are derived
+   * from, and are then derived from the full transaction, as an update rarely carries all of them.
+   * Without the full transaction, they are only sent when the update alone determines them.
+   */
+  private setPartialStatusAndAuthMethod(
+    session: Partial<Session>,
+    transaction: Partial<ITransactionDto>,
+    fullTransaction?: ITransactionDto,
+  ): void {
+    if (this.hasAnyField(transaction, STATUS_FIELDS)) {
+      const status = fullTransaction
+        ? this.getSessionStatus(fullTransaction)
+        : this.getPartialSessionStatus(transaction);
+      if (status) {
+        session.status = status;
+      }
+    }
+    if (this.hasAnyField(transaction, AUTH_METHOD_FIELDS)) {
+      const authMethod = fullTransaction
+        ? this.getAuthMethod(fullTransaction)
+        : this.getPartialAuthMethod(transaction);
+      if (authMethod) {
+        session.auth_method = authMethod;
+      }
+    }
+  }
+
+  private async getFullTransactionForDerivedFields(
+    transaction: Partial<ITransactionDto>,
+  ): Promise<ITransactionDto | undefined> {
+    if (
+      !this.hasAnyField(transaction, [...STATUS_FIELDS, ...AUTH_METHOD_FIELDS])
+    ) {
+      return undefined;
+    }
+    try {
+      const response = await this.ocpiGraphqlClient.request<
+        GetTransactionByTransactionIdQueryResult,
+        GetTransactionByTransactionIdQueryVariables
+      >(GET_TRANSACTION_BY_ID_QUERY, { id: transaction.id! });
+      return response.Transactions[0] as ITransactionDto | undefined;
+    } catch (error) {
+      this.logger.warn(
+        `Failed to fetch transaction ${transaction.id} to derive the session status and auth method`,
+        error,
+      );
+      return undefined;
+    }
+  }
+
+  private hasAnyField(
+    transaction: Partial<ITransactionDto>,
+    fields: (keyof ITransactionDto)[],
+  ): boolean {
+    return fields.some((field) => transaction[field] !== undefined);
+  }
+
   private mapTransactionWithContextToSession(
     transaction: ITransactionDto,
     location: LocationDTO,
@@ -334,8 +410,7 @@ export class SessionMapper extends BaseTransactionMapper {
         : null,
       kwh: transaction.totalKwh || 0,
       cdr_token: this.createCdrToken(token),
-      // TODO: Implement other auth methods
-      auth_method: AuthMethod.WHITELIST,
+      auth_method: this.getAuthMethod(transaction),
       location_id: this.getLocationId(location),
       evse_uid: this.getEvseUid(transaction),
       connector_id: transaction.connectorId!.toString(),
@@ -344,7 +419,7 @@ export class SessionMapper extends BaseTransactionMapper {
         transaction.meterValues,
         String(tariff?.id),
       ),
-      status: this.getTransactionStatus(transaction),
+      status: this.getSessionStatus(transaction),
       last_updated: toISOStringIfNeeded(transaction.updatedAt!, true),
       authorization_reference: transaction.customData
         ? transaction.customData?.authorization_reference
@@ -418,6 +493,83 @@ export class SessionMapper extends BaseTransactionMapper {
       });
   }
 
+  /**
+   * Maps meter values of an ongoing session that were not pushed yet to a PATCH appending their
+   * charging periods, with the cumulative kwh and total_cost of the session. Energy volumes are
+   * computed against the previous meter value of the session, pushed or not. The total_cost is
+   * priced with all elements of the tariff, as in the CDR, up to now.
+   */
+  public async mapChargingPeriodsToPartialSession(
+    transaction: ITransactionDto,
+    meterValues: IMeterValueDto[],
+  ): Promise<Partial<Session>> {
+    const tariffMap = await this.getTariffsForTransactions([transaction]);
+    const tariff = tariffMap.get(transaction.id!.toString());
+    const tariffId = String(
+      tariff?.id ?? transaction.tariffId ?? meterValues[0]?.tariffId,
+    );
+
+    const newTimestamps = new Set(
+      meterValues.map((meterValue) =>
+        toISOStringIfNeeded(meterValue.timestamp, true),
+      ),
+    );
+    const allMeterValues = [...(transaction.meterValues ?? [])];
+    const storedTimestamps = new Set(
+      allMeterValues.map((meterValue) =>
+        toISOStringIfNeeded(meterValue.timestamp, true),
+      ),
+    );
+    for (const meterValue of meterValues) {
+      const timestamp = toISOStringIfNeeded(meterValue.timestamp, true);
+      if (!storedTimestamps.has(timestamp)) {
+        allMeterValues.push(meterValue);
+      }
+    }
+    const allChargingPeriods = this.getChargingPeriods(
+      allMeterValues,
+      tariffId,
+    );
+
+    const kwh =
+      transaction.totalKwh ||
+      allChargingPeriods
+        .flatMap((chargingPeriod) => chargingPeriod.dimensions)
+        .filter((dimension) => dimension.type === CdrDimensionType.ENERGY)
+        .reduce((sum, dimension) => sum + dimension.volume, 0);
+    const session: Partial<Session> = {
+      charging_periods: allChargingPeriods.filter(
+        (chargingPeriod) =>
+          newTimestamps.has(chargingPeriod.start_date_time as string) &&
+          chargingPeriod.dimensions.length > 0,
+      ),
+      kwh,
+      last_updated: new Date().toISOString(),
+    };
+    if (tariff) {
+      const locationMap = await this.getLocationDTOsForTransactions([
+        transaction,
+      ]);
+      session.currency = tariff.currency;
+      session.total_cost = TariffPricingEngine.price({
+        tariff: {
+          elements: TariffMapper.getTariffElements(tariff),
+          min_price: (tariff.minPrice as Price) ?? undefined,
+          max_price: (tariff.maxPrice as Price) ?? undefined,
+        },
+        chargingPeriods: allChargingPeriods,
+        startDateTime:
+          transaction.startTime ??
+          allChargingPeriods[0]?.start_date_time ??
+          session.last_updated!,
+        endDateTime: session.last_updated!,
+        totalEnergy: kwh,
+        timeZone: locationMap.get(transaction.id!.toString())?.time_zone,
+      }).total_cost;
+    }
+    return session;
+  }
+
   private mapMeterValueToChargingPeriod(
     meterValue: IMeterValueDto,
     tariffId: string,
@@ -484,8 +636,86 @@ export class SessionMapper extends BaseTransactionMapper {
   }
 
 
-  private getTransactionStatus(transaction: ITransactionDto): SessionStatus {
-    // TODO: Implement other session status
-    return transaction.endTime ? SessionStatus.COMPLETED : SessionStatus.ACTIVE;
+  /**
+   * Derives the OCPI session status from the transaction and its events. A session is PENDING (or
+   * RESERVATION when it was started on a reservation) until energy is transferred for the first
+   * time, and INVALID when the station deauthorized it before any energy was transferred, as such
+   * a session will not be billed.
+   */
+  public getSessionStatus(
+    transaction: Partial<ITransactionDto>,
+  ): SessionStatus {
+    const hasTransferredEnergy =
+      Number(transaction.totalKwh ?? 0) > 0 ||
+      transaction.chargingState === OCPP2_0_1.ChargingStateEnumType.Charging;
+    const events = transaction.transactionEvents ?? [];
+
+    if (transaction.endTime || transaction.isActive === false) {
+      const deauthorized =
+        transaction.stoppedReason === OCPP2_0_1.ReasonEnumType.DeAuthorized ||
+        events.some(
+          (event) =>
+            event.triggerReason ===
+            OCPP2_0_1.TriggerReasonEnumType.Deauthorized,
+        );
+      return deauthorized && !hasTransferredEnergy
+        ? SessionStatus.INVALID
+        : SessionStatus.COMPLETED;
+    }
+    if (hasTransferredEnergy) {
+      return SessionStatus.ACTIVE;
+    }
+    return events.some((event) => event.reservationId)
+      ? SessionStatus.RESERVATION
+      : SessionStatus.PENDING;
+  }
+
+  /**
+   * Status as far as the update alone determines it: ACTIVE or COMPLETED once energy is
+   * transferred, and INVALID only when the update shows no energy was transferred. PENDING cannot
+   * be told apart from an update without events.
+   */
+  private getPartialSessionStatus(
+    transaction: Partial<ITransactionDto>,
+  ): SessionStatus | undefined {
+    const ended = !!transaction.endTime || transaction.isActive === false;
+    if (!ended) {
+      return Number(transaction.totalKwh ?? 0) > 0 ||
+        transaction.chargingState === OCPP2_0_1.ChargingStateEnumType.Charging
+        ? SessionStatus.ACTIVE
+        : undefined;
+    }
+    return transaction.totalKwh !== undefined
+      ? this.getSessionStatus(transaction)
+      : SessionStatus.COMPLETED;
+  }
+
+  private getPartialAuthMethod(
+    transaction: Partial<ITransactionDto>,
+  ): AuthMethod | undefined {
+    const authMethod = transaction.customData?.auth_method;
+    if (Object.values(AuthMethod).includes(authMethod)) {
+      return authMethod as AuthMethod;
+    }
+    return transaction.remoteStartId !== undefined &&
+      transaction.remoteStartId !== null
+      ? AuthMethod.COMMAND
+      : undefined;
+  }
+
+  /**
+   * The authorization path is stored in customData when the transaction is created, see
+   * {@link SessionAuthorization}. Transactions started remotely without it were started by a
+   * StartSession command.
+   */
+  private getAuthMethod(transaction: Partial<ITransactionDto>): AuthMethod {
+    const authMethod = transaction.customData?.auth_method;
+    if (Object.values(AuthMethod).includes(authMethod)) {
+      return authMethod as AuthMethod;
+    }
+    return transaction.remoteStartId !== undefined &&
+      transaction.remoteStartId !== null
+      ? AuthMethod.COMMAND
+      : AuthMethod.WHITELIST;
   }
 }
@@ -4,12 +4,17 @@
 
 import { ITariffDto } from '@citrineos/base';
 import { TariffDTO } from '../model/DTO/tariffs/TariffDTO';
+import { DisplayText } from '../model/DisplayText';
+import { EnergyMix } from '../model/EnergyMix';
+import { Price } from '../model/Price';
 import { TariffDimensionType } from '../model/TariffDimensionType';
 import { TariffElement } from '../model/TariffElement';
 import { TariffType } from '../model/TariffType';
 import { MINUTES_IN_HOUR } from '../util/Consts';
 import { toISOStringIfNeeded } from '../util/DateTimeHelper';
 
+const PERCENT = 100;
+
 export class TariffMapper {
   constructor() {}
 
@@ -19,20 +24,31 @@ export class TariffMapper {
       country_code: coreTariff.tenant!.countryCode!,
       party_id: coreTariff.tenant!.partyId!,
       currency: coreTariff.currency!,
-      type: TariffType.REGULAR,
-      // tariff_alt_text: coreTariff.tariffAltText
-      //   ? (coreTariff.tariffAltText[0] as any)?.text
-      //   : undefined,
-      tariff_alt_url: undefined,
-      min_price: undefined,
-      max_price: undefined,
-      elements: [TariffMapper.getTariffElement(coreTariff)],
-      energy_mix: undefined,
-      start_date_time: undefined,
-      end_date_time: undefined,
+      type: (coreTariff.tariffType as TariffType) ?? TariffType.REGULAR,
+      tariff_alt_text: (coreTariff.tariffAltText as DisplayText[]) ?? undefined,
+      tariff_alt_url: coreTariff.tariffAltUrl ?? undefined,
+      min_price: (coreTariff.minPrice as Price) ?? undefined,
+      max_price: (coreTariff.maxPrice as Price) ?? undefined,
+      elements: TariffMapper.getTariffElements(coreTariff),
+      energy_mix: (coreTariff.energyMix as EnergyMix) ?? undefined,
+      start_date_time: toISOStringIfNeeded(coreTariff.startDateTime),
+      end_date_time: toISOStringIfNeeded(coreTariff.endDateTime),
       last_updated: toISOStringIfNeeded(coreTariff.updatedAt, true),
     };
   }
+
+  /**
+   * Tariffs created before elements were stored only know the flat price columns, which are
+   * mapped to a single element.
+   */
+  public static getTariffElements(
+    coreTariff: Partial<ITariffDto>,
+  ): TariffElement[] {
+    return coreTariff.elements?.length
+      ? (coreTariff.elements as TariffElement[])
+      : [TariffMapper.getTariffElement(coreTariff)];
+  }
+
   private static getTariffElement(
     coreTariff: Partial<ITariffDto>,
   ): TariffElement {
@@ -43,7 +59,7 @@ export class TariffMapper {
               {
                 type: TariffDimensionType.ENERGY,
                 price: coreTariff.pricePerKwh,
-                vat: coreTariff.taxRate ?? 0,
+                vat: TariffMapper.toVatPercentage(coreTariff.taxRate),
                 step_size: 1,
               },
             ]
@@ -53,7 +69,7 @@ export class TariffMapper {
               {
                 type: TariffDimensionType.TIME,
                 price: coreTariff.pricePerMin * MINUTES_IN_HOUR,
-                vat: coreTariff.taxRate ?? 0,
+                vat: TariffMapper.toVatPercentage(coreTariff.taxRate),
                 step_size: 1,
               },
             ]
@@ -63,7 +79,7 @@ export class TariffMapper {
               {
                 type: TariffDimensionType.FLAT,
                 price: coreTariff.pricePerSession,
-                vat: coreTariff.taxRate ?? 0,
+                vat: TariffMapper.toVatPercentage(coreTariff.taxRate),
                 step_size: 1,
               },
             ]
@@ -73,28 +89,14 @@ export class TariffMapper {
     };
   }
 
-  // TODO make flexible for more complicated tariffs
-  private mapTariffElementToCoreTariff(
-    tariffElements: TariffElement[],
-  ): Partial<ITariffDto> {
-    const tariffElement = tariffElements[0];
-    const priceComponents = tariffElement.price_components ?? [];
-    const pricePerKwh =
-      priceComponents.find((pc) => pc.type === TariffDimensionType.ENERGY)
-        ?.price ?? 0;
-    const pricePerMin =
-      (priceComponents.find((pc) => pc.type === TariffDimensionType.TIME)
-        ?.price ?? 0) / MINUTES_IN_HOUR;
-    const pricePerSession =
-      priceComponents.find((pc) => pc.type === TariffDimensionType.FLAT)
-        ?.price ?? 0;
-    const taxRate = priceComponents.find((pc) => pc.vat)?.vat ?? 0;
+  /**
+   * Core stores the tax rate as a fraction (0.21), OCPI the VAT as a percentage (21).
+   */
+  private static toVatPercentage(taxRate?: number | null): number {
+    return TariffMapper.round(Number(taxRate ?? 0) * PERCENT);
+  }
 
-    return {
-      pricePerKwh,
-      pricePerMin,
-      pricePerSession,
-      taxRate,
-    };
+  private static round(value: number): number {
+    return Math.round(value * 1000000) / 1000000;
   }
 }
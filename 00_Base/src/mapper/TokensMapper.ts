@@ -12,6 +12,7 @@ import {
 import { TokenType } from '../model/TokenType';
 
 import { TokenDTO } from '../model/DTO/TokenDTO';
+import { OcpiParty } from '../services/HubClientInfoService';
 import { WhitelistType } from '../model/WhitelistType';
 import { toISOStringIfNeeded } from '../util/DateTimeHelper';
 import { createHash } from 'crypto';
@@ -24,9 +25,10 @@ export class TokensMapper {
       (authorization as any).customData?.original_token_uid ||
       authorization.idToken;
 
+    const owner = TokensMapper.getTokenOwner(authorization);
     const tokenDto: TokenDTO = {
-      country_code: authorization.tenantPartner!.countryCode!,
-      party_id: authorization.tenantPartner!.partyId!,
+      country_code: owner.countryCode,
+      party_id: owner.partyId,
       uid: originalTokenUid,
       type: TokensMapper.mapOcppIdTokenTypeToOcpiTokenType(
         authorization.idTokenType ? authorization.idTokenType : null,
@@ -46,6 +48,24 @@ export class TokensMapper {
     return tokenDto;
   }
 
+  /**
+   * The eMSP the token belongs to. It is the partner that pushed the token, unless the partner is a
+   * hub pushing the tokens of its connected eMSPs.
+   */
+  public static getTokenOwner(authorization: IAuthorizationDto): OcpiParty {
+    const customData = (authorization as any).customData;
+    if (customData?.country_code && customData?.party_id) {
+      return {
+        countryCode: customData.country_code,
+        partyId: customData.party_id,
+      };
+    }
+    return {
+      countryCode: authorization.tenantPartner!.countryCode!,
+      partyId: authorization.tenantPartner!.partyId!,
+    };
+  }
+
   public static mapOcpiTokenTypeToOcppIdTokenType(
     type: TokenType,
   ): IdTokenType {
@@ -173,11 +193,15 @@ export class TokensMapper {
     const realTimeAuth: AuthorizationWhitelistType | null | undefined =
       TokensMapper.mapWhitelistType(tokenDto.whitelist);
 
-    // Store original token UID in customData if it was normalized
-    const customData =
-      originalTokenUid && originalTokenUid !== idToken
+    // Store original token UID in customData if it was normalized, and the owner of the token
+    const customData = {
+      ...(originalTokenUid && originalTokenUid !== idToken
         ? { original_token_uid: originalTokenUid }
-        : undefined;
+        : {}),
+      ...(tokenDto.country_code && tokenDto.party_id
+        ? { country_code: tokenDto.country_code, party_id: tokenDto.party_id }
+        : {}),
+    };
 
     // Note: customData exists in DB but not in IAuthorizationDto TypeScript interface
     // Return with type assertion to include customData
@@ -190,7 +214,7 @@ export class TokensMapper {
       realTimeAuth,
     };
 
-    if (customData) {
+    if (Object.keys(customData).length > 0) {
       (result as any).customData = customData;
     }
 
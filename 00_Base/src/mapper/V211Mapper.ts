@@ -0,0 +1,460 @@
+// SPDX-FileCopyrightText: 2025 Contributors to the CitrineOS Project
+//
+// SPDX-License-Identifier: Apache-2.0
+
+import { AuthMethod } from '../model/AuthMethod';
+import { AuthorizationInfo } from '../model/AuthorizationInfo';
+import { Cdr } from '../model/Cdr';
+import { ChargingPeriod } from '../model/ChargingPeriod';
+import { ConnectorFormat } from '../model/ConnectorFormat';
+import { ConnectorType } from '../model/ConnectorType';
+import { ConnectorDTO } from '../model/DTO/ConnectorDTO';
+import { CredentialsDTO } from '../model/DTO/CredentialsDTO';
+import { EvseDTO } from '../model/DTO/EvseDTO';
+import { LocationDTO } from '../model/DTO/LocationDTO';
+import { TokenDTO } from '../model/DTO/TokenDTO';
+import { Endpoint } from '../model/Endpoint';
+import { EvseStatus } from '../model/EvseStatus';
+import { InterfaceRole } from '../model/InterfaceRole';
+import { ModuleId } from '../model/ModuleId';
+import { ParkingType } from '../model/ParkingType';
+import { PowerType } from '../model/PowerType';
+import { Role } from '../model/Role';
+import { Session } from '../model/Session';
+import { SessionStatus } from '../model/SessionStatus';
+import { Tariff } from '../model/Tariff';
+import { TariffElement } from '../model/TariffElement';
+import { VersionNumber } from '../model/VersionNumber';
+import { V211Cdr } from '../model/v211/V211Cdr';
+import {
+  V211CdrDimensionType,
+  V211ChargingPeriod,
+} from '../model/v211/V211ChargingPeriod';
+import { V211Credentials } from '../model/v211/V211Credentials';
+import {
+  V211Capability,
+  V211Connector,
+  V211Evse,
+  V211Location,
+  V211LocationType,
+  V211PowerType,
+} from '../model/v211/V211Location';
+import {
+  V211AuthMethod,
+  V211Session,
+  V211SessionStatus,
+} from '../model/v211/V211Session';
+import { V211Tariff, V211TariffElement } from '../model/v211/V211Tariff';
+import { V211AuthorizationInfo, V211Token } from '../model/v211/V211Token';
+import { V211Endpoint } from '../model/v211/V211VersionDetails';
+
+/**
+ * Translates between the OCPI 2.2.1 payloads used throughout the application and their OCPI 2.1.1
+ * counterparts, for partners that have not upgraded yet.
+ *
+ * Translations to 2.1.1 accept partial payloads so that PATCH bodies can be translated as well: only
+ * the fields present in the 2.2.1 payload are set in the result.
+ */
+export class V211Mapper {
+  static isV211(version?: string | null): boolean {
+    return version === VersionNumber.TWO_DOT_ONE_DOT_ONE;
+  }
+
+  static toCredentials(credentials: CredentialsDTO): V211Credentials {
+    const role =
+      credentials.roles.find((value) => value.role === Role.CPO) ??
+      credentials.roles[0];
+    return {
+      token: credentials.token,
+      url: credentials.url,
+      business_details: role.business_details,
+      party_id: role.party_id,
+      country_code: role.country_code,
+    };
+  }
+
+  /**
+   * The only role of a 2.1.1 party talking to a CPO is the eMSP role.
+   */
+  static fromCredentials(credentials: V211Credentials): CredentialsDTO {
+    return {
+      token: credentials.token,
+      url: credentials.url,
+      roles: [
+        {
+          role: Role.EMSP,
+          party_id: credentials.party_id,
+          country_code: credentials.country_code,
+          business_details: credentials.business_details,
+        },
+      ],
+    };
+  }
+
+  /**
+   * Lists each module once, as 2.1.1 endpoints have no interface role.
+   */
+  static toEndpoints(endpoints: Endpoint[]): V211Endpoint[] {
+    return endpoints
+      .filter(
+        (endpoint, index) =>
+          endpoints.findIndex(
+            (other) => other.identifier === endpoint.identifier,
+          ) === index,
+      )
+      .map((endpoint) => ({
+        identifier: endpoint.identifier,
+        url: endpoint.url,
+      }));
+  }
+
+  /**
+   * Derives the interface role of a 2.1.1 eMSP endpoint: the eMSP is the sender of tokens and the
+   * receiver of everything the CPO pushes.
+   */
+  static fromEndpoint(endpoint: V211Endpoint): Endpoint {
+    return {
+      identifier: endpoint.identifier,
+      role:
+        endpoint.identifier === ModuleId.Tokens ||
+        endpoint.identifier === ModuleId.Credentials
+          ? InterfaceRole.SENDER
+          : InterfaceRole.RECEIVER,
+      url: endpoint.url,
+    };
+  }
+
+  static toLocation(location: Partial<LocationDTO>): Partial<V211Location> {
+    return V211Mapper.compact({
+      id: location.id,
+      // A complete location always has an address, partial ones only a type when it changed
+      type:
+        location.address !== undefined || 'parking_type' in location
+          ? V211Mapper.toLocationType(location.parking_type)
+          : undefined,
+      name: location.name,
+      address: location.address,
+      city: location.city,
+      postal_code: location.postal_code ?? undefined,
+      country: location.country,
+      coordinates: location.coordinates,
+      related_locations: location.related_locations,
+      evses: location.evses?.map((evse) => V211Mapper.toEvse(evse) as V211Evse),
+      directions: location.directions,
+      operator: location.operator,
+      suboperator: location.suboperator,
+      owner: location.owner,
+      facilities: location.facilities,
+      time_zone: location.time_zone,
+      opening_times: location.opening_times,
+      charging_when_closed: location.charging_when_closed,
+      images: location.images,
+      energy_mix: location.energy_mix,
+      last_updated: location.last_updated,
+    });
+  }
+
+  static toEvse(evse: Partial<EvseDTO>): Partial<V211Evse> {
+    return V211Mapper.compact({
+      uid: evse.uid,
+      evse_id: evse.evse_id,
+      status: evse.status,
+      status_schedule: evse.status_schedule,
+      capabilities: evse.capabilities?.filter((capability) =>
+        (Object.values(V211Capability) as string[]).includes(capability),
+      ) as unknown as V211Capability[] | undefined,
+      connectors: evse.connectors?.map(
+        (connector) => V211Mapper.toConnector(connector) as V211Connector,
+      ),
+      floor_level: evse.floor_level,
+      coordinates: evse.coordinates,
+      physical_reference: evse.physical_reference,
+      directions: evse.directions,
+      parking_restrictions: evse.parking_restrictions,
+      last_updated: evse.last_updated,
+    });
+  }
+
+  static toConnector(connector: Partial<ConnectorDTO>): Partial<V211Connector> {
+    return V211Mapper.compact({
+      id: connector.id,
+      standard: connector.standard,
+      format: connector.format,
+      power_type: connector.power_type
+        ? V211Mapper.toPowerType(connector.power_type)
+        : undefined,
+      voltage: connector.max_voltage,
+      amperage: connector.max_amperage,
+      // 2.1.1 connectors reference a single tariff
+      tariff_id: connector.tariff_ids?.[0],
+      terms_and_conditions: connector.terms_and_conditions,
+      last_updated: connector.last_updated,
+    });
+  }
+
+  /**
+   * @param location - Location of the session holding only its EVSE and connector, required for a
+   * complete session.
+   */
+  static toSession(
+    session: Partial<Session>,
+    location?: V211Location,
+  ): Partial<V211Session> {
+    return V211Mapper.compact({
+      id: session.id,
+      start_datetime: session.start_date_time,
+      end_datetime: session.end_date_time,
+      kwh: session.kwh,
+      auth_id: session.cdr_token?.uid,
+      auth_method: session.auth_method
+        ? V211Mapper.toAuthMethod(session.auth_method)
+        : undefined,
+      location,
+      meter_id: session.meter_id,
+      currency: session.currency,
+      charging_periods: session.charging_periods
+        ? V211Mapper.toChargingPeriods(session.charging_periods)
+        : session.charging_periods,
+      total_cost: session.total_cost
+        ? session.total_cost.excl_vat
+        : session.total_cost,
+      status: session.status
+        ? V211Mapper.toSessionStatus(session.status)
+        : undefined,
+      last_updated: session.last_updated,
+    });
+  }
+
+  /**
+   * @param connector - Current state of the connector the session took place at, which provides the
+   * voltage and amperage the CDR location of 2.2.1 does not hold.
+   */
+  static toCdr(cdr: Cdr, connector?: ConnectorDTO): V211Cdr {
+    const cdrLocation = cdr.cdr_location;
+    const location: V211Location = {
+      id: cdrLocation.id,
+      type: V211LocationType.UNKNOWN,
+      name: cdrLocation.name,
+      address: cdrLocation.address,
+      city: cdrLocation.city,
+      postal_code: cdrLocation.postal_code ?? '',
+      country: cdrLocation.country,
+      coordinates: cdrLocation.coordinates,
+      evses: [
+        {
+          uid: cdrLocation.evse_uid,
+          evse_id: cdrLocation.evse_id,
+          status: EvseStatus.UNKNOWN,
+          connectors: [
+            {
+              id: cdrLocation.connector_id,
+              standard: cdrLocation.connector_standard as ConnectorType,
+              format: cdrLocation.connector_format as ConnectorFormat,
+              power_type: V211Mapper.toPowerType(
+                cdrLocation.connector_power_type as PowerType,
+              ),
+              voltage: connector?.max_voltage ?? 0,
+              amperage: connector?.max_amperage ?? 0,
+              last_updated: cdr.last_updated,
+            },
+          ],
+          last_updated: cdr.last_updated,
+        },
+      ],
+      last_updated: cdr.last_updated,
+    };
+    return V211Mapper.compact({
+      id: cdr.id,
+      start_date_time: cdr.start_date_time,
+      stop_date_time: cdr.end_date_time,
+      auth_id: cdr.cdr_token.uid,
+      auth_method: V211Mapper.toAuthMethod(cdr.auth_method),
+      location,
+      meter_id: cdr.meter_id,
+      currency: cdr.currency,
+      tariffs: cdr.tariffs?.map(
+        (tariff) => V211Mapper.toTariff(tariff) as V211Tariff,
+      ),
+      charging_periods: V211Mapper.toChargingPeriods(cdr.charging_periods),
+      total_cost: cdr.total_cost.excl_vat,
+      total_energy: cdr.total_energy,
+      total_time: cdr.total_time,
+      total_parking_time: cdr.total_parking_time,
+      remark: cdr.remark,
+      last_updated: cdr.last_updated,
+    }) as V211Cdr;
+  }
+
+  static toTariff(tariff: Partial<Tariff>): Partial<V211Tariff> {
+    return V211Mapper.compact({
+      id: tariff.id,
+      currency: tariff.currency,
+      tariff_alt_text: tariff.tariff_alt_text,
+      tariff_alt_url: tariff.tariff_alt_url,
+      elements: tariff.elements?.map((element) =>
+        V211Mapper.toTariffElement(element),
+      ),
+      energy_mix: tariff.energy_mix,
+      last_updated: tariff.last_updated,
+    });
+  }
+
+  static toToken(token: TokenDTO): V211Token {
+    return V211Mapper.compact({
+      uid: token.uid,
+      type: token.type,
+      auth_id: token.contract_id,
+      visual_number: token.visual_number,
+      issuer: token.issuer,
+      valid: token.valid,
+      whitelist: token.whitelist,
+      language: token.language,
+      last_updated: token.last_updated,
+    }) as V211Token;
+  }
+
+  /**
+   * 2.1.1 tokens belong to the eMSP that sent them, whose country code and party id are given by the
+   * request path.
+   */
+  static fromToken(
+    token: Partial<V211Token>,
+    countryCode: string,
+    partyId: string,
+  ): Partial<TokenDTO> {
+    return V211Mapper.compact({
+      country_code: countryCode,
+      party_id: partyId,
+      uid: token.uid,
+      type: token.type,
+      contract_id: token.auth_id,
+      visual_number: token.visual_number,
+      issuer: token.issuer,
+      valid: token.valid,
+      whitelist: token.whitelist,
+      language: token.language,
+      last_updated: token.last_updated,
+    });
+  }
+
+  /**
+   * 2.1.1 authorizations carry neither the token nor an authorization reference, so the token is
+   * filled in with what the request knows about it.
+   */
+  static fromAuthorizationInfo(
+    authorizationInfo: V211AuthorizationInfo,
+    token: Partial<TokenDTO>,
+  ): AuthorizationInfo {
+    return {
+      allowed: authorizationInfo.allowed,
+      token: token as TokenDTO,
+      authorization_reference: '',
+      info: authorizationInfo.info ?? undefined,
+      location: authorizationInfo.location
+        ? {
+            location_id: authorizationInfo.location.location_id,
+            evse_uids: authorizationInfo.location.evse_uids ?? [],
+          }
+        : undefined,
+    };
+  }
+
+  private static toTariffElement(element: TariffElement): V211TariffElement {
+    const restrictions = element.restrictions;
+    return {
+      price_components: element.price_components.map((component) => ({
+        type: component.type,
+        price: component.price,
+        step_size: component.step_size,
+      })),
+      restrictions: restrictions
+        ? V211Mapper.compact({
+            start_time: restrictions.start_time,
+            end_time: restrictions.end_time,
+            start_date: restrictions.start_date,
+            end_date: restrictions.end_date,
+            min_kwh: restrictions.min_kwh,
+            max_kwh: restrictions.max_kwh,
+            min_power: restrictions.min_power,
+            max_power: restrictions.max_power,
+            min_duration: restrictions.min_duration,
+            max_duration: restrictions.max_duration,
+            day_of_week: restrictions.day_of_week,
+          })
+        : restrictions,
+    };
+  }
+
+  /**
+   * Drops the dimensions 2.1.1 does not know, and the periods left without dimensions.
+   */
+  private static toChargingPeriods(
+    chargingPeriods: ChargingPeriod[],
+  ): V211ChargingPeriod[] {
+    const dimensionTypes = Object.values(V211CdrDimensionType) as string[];
+    return chargingPeriods
+      .map((chargingPeriod) => ({
+        start_date_time: chargingPeriod.start_date_time,
+        dimensions: chargingPeriod.dimensions
+          .filter((dimension) => dimensionTypes.includes(dimension.type))
+          .map((dimension) => ({
+            type: dimension.type as unknown as V211CdrDimensionType,
+            volume: dimension.volume,
+          })),
+      }))
+      .filter((chargingPeriod) => chargingPeriod.dimensions.length > 0);
+  }
+
+  private static toLocationType(
+    parkingType?: ParkingType | null,
+  ): V211LocationType {
+    switch (parkingType) {
+      case ParkingType.ON_STREET:
+        return V211LocationType.ON_STREET;
+      case ParkingType.PARKING_GARAGE:
+        return V211LocationType.PARKING_GARAGE;
+      case ParkingType.UNDERGROUND_GARAGE:
+        return V211LocationType.UNDERGROUND_GARAGE;
+      case ParkingType.PARKING_LOT:
+        return V211LocationType.PARKING_LOT;
+      case ParkingType.ALONG_MOTORWAY:
+      case ParkingType.ON_DRIVEWAY:
+        return V211LocationType.OTHER;
+      default:
+        return V211LocationType.UNKNOWN;
+    }
+  }
+
+  private static toPowerType(powerType: PowerType): V211PowerType {
+    switch (powerType) {
+      case PowerType.AC_3_PHASE:
+        return V211PowerType.AC_3_PHASE;
+      case PowerType.DC:
+        return V211PowerType.DC;
+      default:
+        return V211PowerType.AC_1_PHASE;
+    }
+  }
+
+  /**
+   * Remote starts are authorized by the eMSP, which 2.1.1 can only express as an authorization
+   * request.
+   */
+  private static toAuthMethod(authMethod: AuthMethod): V211AuthMethod {
+    return authMethod === AuthMethod.WHITELIST
+      ? V211AuthMethod.WHITELIST
+      : V211AuthMethod.AUTH_REQUEST;
+  }
+
+  private static toSessionStatus(status: SessionStatus): V211SessionStatus {
+    return status === SessionStatus.RESERVATION
+      ? V211SessionStatus.PENDING
+      : (status as unknown as V211SessionStatus);
+  }
+
+  private static compact<T extends object>(value: T): T {
+    return Object.fromEntries(
+      Object.entries(value).filter(([, entry]) => entry !== undefined),
+    ) as T;
+  }
+}
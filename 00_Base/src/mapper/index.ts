@@ -3,8 +3,10 @@
 // SPDX-License-Identifier: Apache-2.0
 
 export * from './CdrMapper';
+export * from './ChargingPreferencesMapper';
 export * from './SessionMapper';
 export * from './TariffMapper';
 export * from './LocationMapper';
 export * from './RegistrationMapper';
 export * from './TokensMapper';
+export * from './V211Mapper';
@@ -52,10 +52,11 @@ export const CdrResponseSchema = z.object({
   status_code: z.nativeEnum(OcpiResponseStatusCode),
   status_message: z.string().optional(),
   timestamp: OcpiDateTimeSchema,
-  data: CdrSchema,
+  data: CdrSchema.optional(),
 });
 
 export type CdrResponse = z.infer<typeof CdrResponseSchema>;
+export const CdrResponseSchemaName = 'CdrResponse';
 
 export const PaginatedCdrResponseSchema = z.object({
   status_code: z.nativeEnum(OcpiResponseStatusCode),
@@ -0,0 +1,12 @@
+// SPDX-FileCopyrightText: 2025 Contributors to the CitrineOS Project
+//
+// SPDX-License-Identifier: Apache-2.0
+
+/**
+ * Requests of the ChargingProfiles module that are answered asynchronously on the eMSP's response_url.
+ */
+export enum ChargingProfilesCommandType {
+  GET_ACTIVE_CHARGING_PROFILE = 'GET_ACTIVE_CHARGING_PROFILE',
+  SET_CHARGING_PROFILE = 'SET_CHARGING_PROFILE',
+  CLEAR_CHARGING_PROFILE = 'CLEAR_CHARGING_PROFILE',
+}
@@ -2,10 +2,13 @@
 //
 // SPDX-License-Identifier: Apache-2.0
 
-import { IsNotEmpty, IsString } from 'class-validator';
+import { z } from 'zod';
+import { ChargingProfileResultType } from './ChargingProfileResult';
 
-export class ClearChargingProfileResult {
-  @IsString()
-  @IsNotEmpty()
-  result!: string;
-}
+export const ClearChargingProfileResultSchema = z.object({
+  result: z.nativeEnum(ChargingProfileResultType),
+});
+
+export type ClearChargingProfileResult = z.infer<
+  typeof ClearChargingProfileResultSchema
+>;
@@ -0,0 +1,38 @@
+// SPDX-FileCopyrightText: 2025 Contributors to the CitrineOS Project
+//
+// SPDX-License-Identifier: Apache-2.0
+
+import { z } from 'zod';
+import { ConnectionStatus } from './ConnectionStatus';
+import { OcpiDateTimeSchema } from './OcpiDateTime';
+import { OcpiResponseSchema } from './OcpiResponse';
+import { PaginatedResponseSchema } from './PaginatedResponse';
+import { Role } from './Role';
+
+/**
+ * Information about a party connected to a hub, pushed by the hub through the hubclientinfo module.
+ */
+export const ClientInfoSchema = z.object({
+  party_id: z.string().max(3),
+  country_code: z.string().length(2),
+  role: z.nativeEnum(Role),
+  status: z.nativeEnum(ConnectionStatus),
+  last_updated: OcpiDateTimeSchema,
+});
+export const ClientInfoSchemaName = 'ClientInfo';
+
+export type ClientInfo = z.infer<typeof ClientInfoSchema>;
+
+export const ClientInfoResponseSchema = OcpiResponseSchema(ClientInfoSchema);
+export const ClientInfoResponseSchemaName = 'ClientInfoResponseSchema';
+
+export type ClientInfoResponse = z.infer<typeof ClientInfoResponseSchema>;
+
+export const PaginatedClientInfoResponseSchema =
+  PaginatedResponseSchema(ClientInfoSchema);
+export const PaginatedClientInfoResponseSchemaName =
+  'PaginatedClientInfoResponseSchema';
+
+export type PaginatedClientInfoResponse = z.infer<
+  typeof PaginatedClientInfoResponseSchema
+>;
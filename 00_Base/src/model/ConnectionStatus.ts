@@ -0,0 +1,10 @@
+// SPDX-FileCopyrightText: 2025 Contributors to the CitrineOS Project
+//
+// SPDX-License-Identifier: Apache-2.0
+
+export enum ConnectionStatus {
+  CONNECTED = 'CONNECTED',
+  OFFLINE = 'OFFLINE',
+  PLANNED = 'PLANNED',
+  SUSPENDED = 'SUSPENDED',
+}
@@ -16,6 +16,8 @@ import { EnergyMixSchema } from '../EnergyMix';
 import { OcpiResponseSchema } from '../OcpiResponse';
 import { PaginatedResponseSchema } from '../PaginatedResponse';
 import { OcpiDateTimeSchema } from '../OcpiDateTime';
+import { DisplayTextSchema } from '../DisplayText';
+import { ImageSchema } from '../Image';
 
 export const LocationDTOSchema = z.object({
   country_code: z.string().min(2).max(2),
@@ -33,15 +35,15 @@ export const LocationDTOSchema = z.object({
   related_locations: z.array(AdditionalGeoLocationSchema).nullable().optional(),
   parking_type: z.nativeEnum(ParkingType).nullable().optional(),
   evses: z.array(EvseDTOSchema).nullable().optional(),
-  directions: z.null().optional(),
+  directions: z.array(DisplayTextSchema).nullable().optional(),
   operator: BusinessDetailsSchema.nullable().optional(),
   suboperator: BusinessDetailsSchema.nullable().optional(),
   owner: BusinessDetailsSchema.nullable().optional(),
   facilities: z.array(z.nativeEnum(Facilities)).nullable().optional(),
   time_zone: z.string().max(255),
   opening_times: HoursSchema.nullable().optional(),
-  charging_when_closed: z.null().optional(),
-  images: z.null().optional(),
+  charging_when_closed: z.boolean().nullable().optional(),
+  images: z.array(ImageSchema).nullable().optional(),
   energy_mix: EnergyMixSchema.nullable().optional(),
   last_updated: OcpiDateTimeSchema,
 });
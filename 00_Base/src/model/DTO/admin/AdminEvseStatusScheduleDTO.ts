@@ -0,0 +1,43 @@
+// SPDX-FileCopyrightText: 2025 Contributors to the CitrineOS Project
+//
+// SPDX-License-Identifier: Apache-2.0
+
+import { z } from 'zod';
+import { EvseStatus } from '../../EvseStatus';
+import { EvseStatusScheduleSchema } from '../../EvseStatusSchedule';
+
+/**
+ * Planned period an EVSE is not available, e.g. a maintenance window. Without period_end the EVSE
+ * stays unavailable until the schedule is deleted. With change_availability, the station is also
+ * sent an OCPP ChangeAvailability when the period starts and ends.
+ */
+export const AdminEvseStatusScheduleRequestSchema =
+  EvseStatusScheduleSchema.extend({
+    status: z.enum([
+      EvseStatus.INOPERATIVE,
+      EvseStatus.OUTOFORDER,
+      EvseStatus.BLOCKED,
+    ]),
+    change_availability: z.boolean().optional(),
+  });
+export const AdminEvseStatusScheduleRequestSchemaName =
+  'AdminEvseStatusScheduleRequestSchema';
+
+export type AdminEvseStatusScheduleRequest = z.infer<
+  typeof AdminEvseStatusScheduleRequestSchema
+>;
+
+export const AdminEvseStatusScheduleDTOSchema =
+  AdminEvseStatusScheduleRequestSchema.extend({
+    id: z.number().int(),
+    evse_id: z.number().int(),
+    change_availability: z.boolean(),
+    started_at: z.coerce.date().nullable(),
+    ended_at: z.coerce.date().nullable(),
+  });
+export const AdminEvseStatusScheduleDTOSchemaName =
+  'AdminEvseStatusScheduleDTOSchema';
+
+export type AdminEvseStatusScheduleDTO = z.infer<
+  typeof AdminEvseStatusScheduleDTOSchema
+>;
@@ -3,35 +3,43 @@
 // SPDX-License-Identifier: Apache-2.0
 
 import { z } from 'zod';
-import { GeoLocationSchema } from '../../GeoLocation';
+import { EvseDTOSchema } from '../EvseDTO';
+import { LocationDTOSchema } from '../LocationDTO';
 
-export const AdminConnectorDTOSchema = z.object({
-  id: z.number(),
-});
-export type AdminConnectorDTO = z.infer<typeof AdminConnectorDTOSchema>;
-
-export const AdminEvseDTOSchema = z.object({
+/**
+ * OCPI attributes of an EVSE that core cannot hold. An omitted attribute is left as it is, a null
+ * one is removed so that the value derived from the charging station is published again.
+ */
+export const AdminEvseDTOSchema = EvseDTOSchema.pick({
+  parking_restrictions: true,
+  floor_level: true,
+  physical_reference: true,
+}).extend({
   station_id: z.string(),
   id: z.number(),
-  physical_reference: z.string().optional(),
-  removed: z.boolean().optional(),
-  connectors: z.array(AdminConnectorDTOSchema).optional(),
 });
 export type AdminEvseDTO = z.infer<typeof AdminEvseDTOSchema>;
 
-export const AdminLocationDTOSchema = z.object({
-  id: z.number().optional(), // optional for both CREATE/UPDATE
-  country_code: z.string().max(2).optional(), // required on CREATE, optional on UPDATE
-  party_id: z.string().max(3).optional(),
-  name: z.string().optional(),
-  address: z.string().optional(),
-  city: z.string().optional(),
-  state: z.string().optional(),
-  postal_code: z.string().optional(),
-  country: z.string().optional(),
-  coordinates: GeoLocationSchema.optional(), // required on CREATE, optional on UPDATE
-  time_zone: z.string().optional(),
-  publish: z.boolean().optional(),
+/**
+ * OCPI attributes of a location that core cannot hold, with the same semantics as
+ * {@link AdminEvseDTOSchema}.
+ */
+export const AdminLocationDTOSchema = LocationDTOSchema.pick({
+  opening_times: true,
+  facilities: true,
+  images: true,
+  energy_mix: true,
+  parking_type: true,
+  related_locations: true,
+  directions: true,
+  operator: true,
+  suboperator: true,
+  owner: true,
+  charging_when_closed: true,
+}).extend({
+  id: z.number(),
   evses: z.array(AdminEvseDTOSchema).optional(),
 });
+export const AdminLocationDTOSchemaName = 'AdminLocationDTOSchema';
+
 export type AdminLocationDTO = z.infer<typeof AdminLocationDTOSchema>;
@@ -9,6 +9,7 @@ import { PriceSchema } from '../../Price';
 import { TariffElementSchema } from '../../TariffElement';
 import { EnergyMixSchema } from '../../EnergyMix';
 import { PaginatedResponseSchema } from '../../PaginatedResponse';
+import { OcpiResponseSchema } from '../../OcpiResponse';
 import { OcpiDateTimeSchema } from '../../OcpiDateTime';
 
 export const TariffDTOSchema = z.object({
@@ -30,6 +31,11 @@ export const TariffDTOSchema = z.object({
 
 export type TariffDTO = z.infer<typeof TariffDTOSchema>;
 
+export const TariffResponseSchema = OcpiResponseSchema(TariffDTOSchema);
+export const TariffResponseSchemaName = 'TariffResponseSchema';
+
+export type TariffResponse = z.infer<typeof TariffResponseSchema>;
+
 export const PaginatedTariffResponseSchema =
   PaginatedResponseSchema(TariffDTOSchema);
 export const PaginatedTariffResponseSchemaName =
@@ -26,4 +26,6 @@ export enum EndpointIdentifier {
     COMMANDS_RECEIVER = `${ModuleId.Commands}_${InterfaceRole.RECEIVER}`,
     CHARGING_PROFILES_SENDER = `${ModuleId.ChargingProfiles}_${InterfaceRole.SENDER}`,
     CHARGING_PROFILES_RECEIVER = `${ModuleId.ChargingProfiles}_${InterfaceRole.RECEIVER}`,
+    HUBCLIENTINFO_SENDER = `${ModuleId.Hubclientinfo}_${InterfaceRole.SENDER}`,
+    HUBCLIENTINFO_RECEIVER = `${ModuleId.Hubclientinfo}_${InterfaceRole.RECEIVER}`,
 }
\ No newline at end of file
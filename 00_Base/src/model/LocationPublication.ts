@@ -0,0 +1,84 @@
+// SPDX-FileCopyrightText: 2025 Contributors to the CitrineOS Project
+//
+// SPDX-License-Identifier: Apache-2.0
+
+import { z } from 'zod';
+import { HttpMethod } from '@citrineos/base';
+
+export const LocationPublicationSchema = z.object({
+  tenantPartnerId: z.number().int(),
+  publishAllLocations: z.boolean(),
+  locationIds: z.array(z.number().int()),
+});
+export const LocationPublicationSchemaName = 'LocationPublicationSchema';
+
+export type LocationPublication = z.infer<typeof LocationPublicationSchema>;
+
+export const LocationPublicationRequestSchema = z
+  .object({
+    locationIds: z.array(z.number().int()).optional(),
+    locationGroupIds: z.array(z.number().int()).optional(),
+  })
+  .refine(
+    (request) =>
+      !!request.locationIds?.length || !!request.locationGroupIds?.length,
+    { message: 'At least one location or location group is required' },
+  );
+export const LocationPublicationRequestSchemaName =
+  'LocationPublicationRequestSchema';
+
+export type LocationPublicationRequest = z.infer<
+  typeof LocationPublicationRequestSchema
+>;
+
+export const LocationPublicationModeRequestSchema = z.object({
+  publishAllLocations: z.boolean(),
+});
+export const LocationPublicationModeRequestSchemaName =
+  'LocationPublicationModeRequestSchema';
+
+export type LocationPublicationModeRequest = z.infer<
+  typeof LocationPublicationModeRequestSchema
+>;
+
+export const LocationGroupSchema = z.object({
+  id: z.number().int(),
+  tenantId: z.number().int(),
+  name: z.string(),
+  locationIds: z.array(z.number().int()),
+});
+export const LocationGroupSchemaName = 'LocationGroupSchema';
+
+export type LocationGroup = z.infer<typeof LocationGroupSchema>;
+
+export const LocationGroupRequestSchema = z.object({
+  name: z.string().min(1),
+  locationIds: z.array(z.number().int()),
+});
+export const LocationGroupRequestSchemaName = 'LocationGroupRequestSchema';
+
+export type LocationGroupRequest = z.infer<typeof LocationGroupRequestSchema>;
+
+export const LocationPushSchema = z.object({
+  tenantPartnerId: z.number().int(),
+  locationId: z.number().int(),
+  httpMethod: z.nativeEnum(HttpMethod),
+  path: z.string(),
+  lastPushedAt: z.string(),
+});
+export const LocationPushSchemaName = 'LocationPushSchema';
+
+export type LocationPush = z.infer<typeof LocationPushSchema>;
+
+export const LocationPushListResponseSchema = z.object({
+  data: z.array(LocationPushSchema),
+  total: z.number().int().nonnegative(),
+  offset: z.number().int().nonnegative(),
+  limit: z.number().int().nonnegative(),
+});
+export const LocationPushListResponseSchemaName =
+  'LocationPushListResponseSchema';
+
+export type LocationPushListResponse = z.infer<
+  typeof LocationPushListResponseSchema
+>;
@@ -0,0 +1,67 @@
+// SPDX-FileCopyrightText: 2025 Contributors to the CitrineOS Project
+//
+// SPDX-License-Identifier: Apache-2.0
+
+import { z } from 'zod';
+
+export enum OcpiCommandState {
+  REQUESTED = 'REQUESTED',
+  SENT = 'SENT',
+  SEND_FAILED = 'SEND_FAILED',
+  RESPONDED = 'RESPONDED',
+  TIMED_OUT = 'TIMED_OUT',
+}
+
+export enum OcpiCommandResultDeliveryStatus {
+  PENDING = 'PENDING',
+  DELIVERED = 'DELIVERED',
+  FAILED = 'FAILED',
+  NOT_REQUIRED = 'NOT_REQUIRED',
+}
+
+export const OcpiCommandTransitionSchema = z.object({
+  state: z.nativeEnum(OcpiCommandState).optional(),
+  result: z.string().optional(),
+  deliveryStatus: z.nativeEnum(OcpiCommandResultDeliveryStatus).optional(),
+  detail: z.any().optional(),
+  timestamp: z.string(),
+});
+
+export type OcpiCommandTransition = z.infer<typeof OcpiCommandTransitionSchema>;
+
+export const OcpiCommandSchema = z.object({
+  // Command id used in the OCPP callback url and in the result posted to the response_url
+  id: z.string(),
+  tenantPartnerId: z.number().int(),
+  stationId: z.string(),
+  command: z.string(),
+  responseUrl: z.string(),
+  sessionId: z.string().max(36).nullable().optional(),
+  authorizationReference: z.string().max(36).nullable().optional(),
+  correlationId: z.string().nullable().optional(),
+  state: z.nativeEnum(OcpiCommandState),
+  transitions: z.array(OcpiCommandTransitionSchema),
+  expiresAt: z.string(),
+  result: z.string().nullable().optional(),
+  resultDeliveryStatus: z.nativeEnum(OcpiCommandResultDeliveryStatus),
+  resultDeliveredAt: z.string().nullable().optional(),
+  resultError: z.string().nullable().optional(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+export const OcpiCommandSchemaName = 'OcpiCommandSchema';
+
+export type OcpiCommand = z.infer<typeof OcpiCommandSchema>;
+
+export const OcpiCommandListResponseSchema = z.object({
+  data: z.array(OcpiCommandSchema),
+  total: z.number().int().nonnegative(),
+  offset: z.number().int().nonnegative(),
+  limit: z.number().int().nonnegative(),
+});
+export const OcpiCommandListResponseSchemaName =
+  'OcpiCommandListResponseSchema';
+
+export type OcpiCommandListResponse = z.infer<
+  typeof OcpiCommandListResponseSchema
+>;
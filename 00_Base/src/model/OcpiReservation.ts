@@ -3,16 +3,27 @@
 // SPDX-License-Identifier: Apache-2.0
 
 import { z } from 'zod';
-import { CountryCode } from '../util/Util';
+
+export enum OcpiReservationStatus {
+  PENDING = 'PENDING',
+  RESERVED = 'RESERVED',
+  REJECTED = 'REJECTED',
+  CANCELLED = 'CANCELLED',
+}
 
 export const OcpiReservationSchema = z.object({
-  coreReservationId: z.number(),
-  locationId: z.number(),
+  // Also the reservation id sent to the charging station, see OCPI 2.2.1 Commands: ReserveNow
+  id: z.number().int(),
+  tenantPartnerId: z.number().int(),
   reservationId: z.string().max(36),
-  countryCode: z.nativeEnum(CountryCode),
-  partyId: z.string().max(3),
+  locationId: z.number().int(),
   evseUid: z.string().max(36).nullable().optional(),
+  stationId: z.string(),
+  expiryDate: z.coerce.date(),
+  tokenUid: z.string().max(36),
   authorizationReference: z.string().max(36).nullable().optional(),
+  status: z.nativeEnum(OcpiReservationStatus),
+  commandId: z.string().nullable().optional(),
 });
 
 export type OcpiReservation = z.infer<typeof OcpiReservationSchema>;
@@ -0,0 +1,51 @@
+// SPDX-FileCopyrightText: 2025 Contributors to the CitrineOS Project
+//
+// SPDX-License-Identifier: Apache-2.0
+
+import { z } from 'zod';
+
+export enum OcpiTrafficDirection {
+  INBOUND = 'INBOUND',
+  OUTBOUND = 'OUTBOUND',
+}
+
+export const OcpiTrafficLogSchema = z.object({
+  id: z.string(),
+  direction: z.nativeEnum(OcpiTrafficDirection),
+  tenantPartnerId: z.number().int().nullable().optional(),
+  module: z.string().nullable().optional(),
+  method: z.string(),
+  url: z.string(),
+  fromCountryCode: z.string().nullable().optional(),
+  fromPartyId: z.string().nullable().optional(),
+  toCountryCode: z.string().nullable().optional(),
+  toPartyId: z.string().nullable().optional(),
+  requestId: z.string().nullable().optional(),
+  correlationId: z.string().nullable().optional(),
+  sessionId: z.string().nullable().optional(),
+  // HTTP status code, absent when no response was received
+  httpStatus: z.number().int().nullable().optional(),
+  // status_code of the OCPI response
+  ocpiStatusCode: z.number().int().nullable().optional(),
+  latencyMs: z.number().int(),
+  requestBody: z.any().nullable().optional(),
+  responseBody: z.any().nullable().optional(),
+  error: z.string().nullable().optional(),
+  createdAt: z.string(),
+});
+export const OcpiTrafficLogSchemaName = 'OcpiTrafficLogSchema';
+
+export type OcpiTrafficLog = z.infer<typeof OcpiTrafficLogSchema>;
+
+export const OcpiTrafficLogListResponseSchema = z.object({
+  data: z.array(OcpiTrafficLogSchema),
+  total: z.number().int().nonnegative(),
+  offset: z.number().int().nonnegative(),
+  limit: z.number().int().nonnegative(),
+});
+export const OcpiTrafficLogListResponseSchemaName =
+  'OcpiTrafficLogListResponseSchema';
+
+export type OcpiTrafficLogListResponse = z.infer<
+  typeof OcpiTrafficLogListResponseSchema
+>;
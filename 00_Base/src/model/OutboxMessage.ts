@@ -0,0 +1,47 @@
+// SPDX-FileCopyrightText: 2025 Contributors to the CitrineOS Project
+//
+// SPDX-License-Identifier: Apache-2.0
+
+import { z } from 'zod';
+import { HttpMethod } from '@citrineos/base';
+import { ModuleId } from './ModuleId';
+
+export enum OutboxMessageStatus {
+  PENDING = 'PENDING',
+  DEAD_LETTER = 'DEAD_LETTER',
+}
+
+export const OutboxMessageSchema = z.object({
+  id: z.number().int(),
+  tenantPartnerId: z.number().int(),
+  moduleId: z.nativeEnum(ModuleId),
+  httpMethod: z.nativeEnum(HttpMethod),
+  path: z.string().nullable().optional(),
+  body: z.any().optional(),
+  toCountryCode: z.string().length(2).nullable().optional(),
+  toPartyId: z.string().max(3).nullable().optional(),
+  queueKey: z.string(),
+  status: z.nativeEnum(OutboxMessageStatus),
+  attempts: z.number().int().nonnegative(),
+  nextAttemptAt: z.string(),
+  lastAttemptAt: z.string().nullable().optional(),
+  lastError: z.string().nullable().optional(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+export const OutboxMessageSchemaName = 'OutboxMessageSchema';
+
+export type OutboxMessage = z.infer<typeof OutboxMessageSchema>;
+
+export const OutboxMessageListResponseSchema = z.object({
+  data: z.array(OutboxMessageSchema),
+  total: z.number().int().nonnegative(),
+  offset: z.number().int().nonnegative(),
+  limit: z.number().int().nonnegative(),
+});
+export const OutboxMessageListResponseSchemaName =
+  'OutboxMessageListResponseSchema';
+
+export type OutboxMessageListResponse = z.infer<
+  typeof OutboxMessageListResponseSchema
+>;
@@ -0,0 +1,14 @@
+// SPDX-FileCopyrightText: 2025 Contributors to the CitrineOS Project
+//
+// SPDX-License-Identifier: Apache-2.0
+
+import { AuthMethod } from './AuthMethod';
+
+/**
+ * How the token of a session was authorized. Cached by token uid when the authorization happens
+ * and stored in the customData of the transaction it started.
+ */
+export interface SessionAuthorization {
+  auth_method: AuthMethod;
+  authorization_reference?: string | null;
+}
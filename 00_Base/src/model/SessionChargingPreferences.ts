@@ -0,0 +1,21 @@
+// SPDX-FileCopyrightText: 2025 Contributors to the CitrineOS Project
+//
+// SPDX-License-Identifier: Apache-2.0
+
+import { z } from 'zod';
+import { ProfileType } from './ProfileType';
+
+export const SessionChargingPreferencesSchema = z.object({
+  id: z.number().int(),
+  tenantPartnerId: z.number().int(),
+  // Transactions.id, which is the OCPI session id
+  transactionId: z.number().int(),
+  profileType: z.nativeEnum(ProfileType),
+  departureTime: z.coerce.date().nullable().optional(),
+  energyNeed: z.number().nullable().optional(),
+  dischargeAllowed: z.boolean().nullable().optional(),
+});
+
+export type SessionChargingPreferences = z.infer<
+  typeof SessionChargingPreferencesSchema
+>;
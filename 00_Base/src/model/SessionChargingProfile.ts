@@ -3,11 +3,17 @@
 // SPDX-License-Identifier: Apache-2.0
 
 import { z } from 'zod';
+import { ChargingProfileSchema } from './ChargingProfile';
 
 export const SessionChargingProfileSchema = z.object({
-  sessionId: z.string(),
-  chargingProfileId: z.number(),
-  chargingScheduleId: z.number(),
+  // Also the charging profile id sent to the charging station
+  id: z.number().int(),
+  tenantPartnerId: z.number().int(),
+  // Transactions.id, which is the OCPI session id
+  transactionId: z.number().int(),
+  stationId: z.string(),
+  chargingProfile: ChargingProfileSchema,
+  commandId: z.string().nullable().optional(),
 });
 
 export type SessionChargingProfile = z.infer<
@@ -0,0 +1,34 @@
+// SPDX-FileCopyrightText: 2025 Contributors to the CitrineOS Project
+//
+// SPDX-License-Identifier: Apache-2.0
+
+import { z } from 'zod';
+import { OcpiDateTimeSchema } from '../OcpiDateTime';
+import { V211ChargingPeriodSchema } from './V211ChargingPeriod';
+import { V211LocationSchema } from './V211Location';
+import { V211AuthMethod } from './V211Session';
+import { V211TariffSchema } from './V211Tariff';
+
+/**
+ * OCPI 2.1.1 CDR, referencing a `location` where 2.2.1 has a `cdr_location`.
+ */
+export const V211CdrSchema = z.object({
+  id: z.string().max(36),
+  start_date_time: OcpiDateTimeSchema,
+  stop_date_time: OcpiDateTimeSchema,
+  auth_id: z.string().max(36),
+  auth_method: z.nativeEnum(V211AuthMethod),
+  location: V211LocationSchema,
+  meter_id: z.string().max(255).nullable().optional(),
+  currency: z.string().length(3),
+  tariffs: z.array(V211TariffSchema).nullable().optional(),
+  charging_periods: z.array(V211ChargingPeriodSchema).min(1),
+  total_cost: z.number(),
+  total_energy: z.number(),
+  total_time: z.number(),
+  total_parking_time: z.number().nullable().optional(),
+  remark: z.string().max(255).nullable().optional(),
+  last_updated: OcpiDateTimeSchema,
+});
+
+export type V211Cdr = z.infer<typeof V211CdrSchema>;
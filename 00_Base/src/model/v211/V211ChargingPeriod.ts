@@ -0,0 +1,28 @@
+// SPDX-FileCopyrightText: 2025 Contributors to the CitrineOS Project
+//
+// SPDX-License-Identifier: Apache-2.0
+
+import { z } from 'zod';
+import { OcpiDateTimeSchema } from '../OcpiDateTime';
+
+export enum V211CdrDimensionType {
+  ENERGY = 'ENERGY',
+  FLAT = 'FLAT',
+  MAX_CURRENT = 'MAX_CURRENT',
+  MIN_CURRENT = 'MIN_CURRENT',
+  PARKING_TIME = 'PARKING_TIME',
+  TIME = 'TIME',
+}
+
+export const V211CdrDimensionSchema = z.object({
+  type: z.nativeEnum(V211CdrDimensionType),
+  volume: z.number(),
+});
+
+export const V211ChargingPeriodSchema = z.object({
+  start_date_time: OcpiDateTimeSchema,
+  dimensions: z.array(V211CdrDimensionSchema).min(1),
+});
+
+export type V211CdrDimension = z.infer<typeof V211CdrDimensionSchema>;
+export type V211ChargingPeriod = z.infer<typeof V211ChargingPeriodSchema>;
@@ -0,0 +1,29 @@
+// SPDX-FileCopyrightText: 2025 Contributors to the CitrineOS Project
+//
+// SPDX-License-Identifier: Apache-2.0
+
+import { z } from 'zod';
+import { BusinessDetailsSchema } from '../BusinessDetails';
+import { OcpiResponseSchema } from '../OcpiResponse';
+
+/**
+ * OCPI 2.1.1 credentials, holding the single role of the party instead of a list of roles.
+ */
+export const V211CredentialsSchema = z.object({
+  token: z.string().max(64),
+  url: z.string().url(),
+  business_details: BusinessDetailsSchema,
+  party_id: z.string().length(3),
+  country_code: z.string().length(2),
+});
+export const V211CredentialsSchemaName = 'V211Credentials';
+
+export type V211Credentials = z.infer<typeof V211CredentialsSchema>;
+
+export const V211CredentialsResponseSchema = OcpiResponseSchema(
+  V211CredentialsSchema,
+);
+
+export type V211CredentialsResponse = z.infer<
+  typeof V211CredentialsResponseSchema
+>;
@@ -0,0 +1,103 @@
+// SPDX-FileCopyrightText: 2025 Contributors to the CitrineOS Project
+//
+// SPDX-License-Identifier: Apache-2.0
+
+import { z } from 'zod';
+import { AdditionalGeoLocationSchema } from '../AdditionalGeoLocation';
+import { BusinessDetailsSchema } from '../BusinessDetails';
+import { ConnectorFormat } from '../ConnectorFormat';
+import { ConnectorType } from '../ConnectorType';
+import { DisplayTextSchema } from '../DisplayText';
+import { EnergyMixSchema } from '../EnergyMix';
+import { EvseStatus } from '../EvseStatus';
+import { EvseStatusScheduleSchema } from '../EvseStatusSchedule';
+import { Facilities } from '../Facilities';
+import { GeoLocationSchema } from '../GeoLocation';
+import { HoursSchema } from '../Hours';
+import { ImageSchema } from '../Image';
+import { OcpiDateTimeSchema } from '../OcpiDateTime';
+import { ParkingRestriction } from '../ParkingRestriction';
+
+export enum V211LocationType {
+  ON_STREET = 'ON_STREET',
+  PARKING_GARAGE = 'PARKING_GARAGE',
+  UNDERGROUND_GARAGE = 'UNDERGROUND_GARAGE',
+  PARKING_LOT = 'PARKING_LOT',
+  OTHER = 'OTHER',
+  UNKNOWN = 'UNKNOWN',
+}
+
+export enum V211PowerType {
+  AC_1_PHASE = 'AC_1_PHASE',
+  AC_3_PHASE = 'AC_3_PHASE',
+  DC = 'DC',
+}
+
+export enum V211Capability {
+  CHARGING_PROFILE_CAPABLE = 'CHARGING_PROFILE_CAPABLE',
+  CREDIT_CARD_PAYABLE = 'CREDIT_CARD_PAYABLE',
+  REMOTE_START_STOP_CAPABLE = 'REMOTE_START_STOP_CAPABLE',
+  RESERVABLE = 'RESERVABLE',
+  RFID_READER = 'RFID_READER',
+  UNLOCK_CAPABLE = 'UNLOCK_CAPABLE',
+}
+
+export const V211ConnectorSchema = z.object({
+  id: z.string().max(36),
+  standard: z.nativeEnum(ConnectorType),
+  format: z.nativeEnum(ConnectorFormat),
+  power_type: z.nativeEnum(V211PowerType),
+  voltage: z.number().int(),
+  amperage: z.number().int(),
+  tariff_id: z.string().max(36).nullable().optional(),
+  terms_and_conditions: z.string().url().nullable().optional(),
+  last_updated: OcpiDateTimeSchema,
+});
+
+export type V211Connector = z.infer<typeof V211ConnectorSchema>;
+
+export const V211EvseSchema = z.object({
+  uid: z.string().max(39),
+  evse_id: z.string().max(48).nullable().optional(),
+  status: z.nativeEnum(EvseStatus),
+  status_schedule: z.array(EvseStatusScheduleSchema).nullable().optional(),
+  capabilities: z.array(z.nativeEnum(V211Capability)).nullable().optional(),
+  connectors: z.array(V211ConnectorSchema).min(1),
+  floor_level: z.string().max(4).nullable().optional(),
+  coordinates: GeoLocationSchema.nullable().optional(),
+  physical_reference: z.string().max(16).nullable().optional(),
+  directions: z.array(DisplayTextSchema).nullable().optional(),
+  parking_restrictions: z
+    .array(z.nativeEnum(ParkingRestriction))
+    .nullable()
+    .optional(),
+  last_updated: OcpiDateTimeSchema,
+});
+
+export type V211Evse = z.infer<typeof V211EvseSchema>;
+
+export const V211LocationSchema = z.object({
+  id: z.string().max(39),
+  type: z.nativeEnum(V211LocationType),
+  name: z.string().max(255).nullable().optional(),
+  address: z.string().max(45),
+  city: z.string().max(45),
+  postal_code: z.string().max(10),
+  country: z.string().length(3),
+  coordinates: GeoLocationSchema,
+  related_locations: z.array(AdditionalGeoLocationSchema).nullable().optional(),
+  evses: z.array(V211EvseSchema).nullable().optional(),
+  directions: z.array(DisplayTextSchema).nullable().optional(),
+  operator: BusinessDetailsSchema.nullable().optional(),
+  suboperator: BusinessDetailsSchema.nullable().optional(),
+  owner: BusinessDetailsSchema.nullable().optional(),
+  facilities: z.array(z.nativeEnum(Facilities)).nullable().optional(),
+  time_zone: z.string().max(255).nullable().optional(),
+  opening_times: HoursSchema.nullable().optional(),
+  charging_when_closed: z.boolean().nullable().optional(),
+  images: z.array(ImageSchema).nullable().optional(),
+  energy_mix: EnergyMixSchema.nullable().optional(),
+  last_updated: OcpiDateTimeSchema,
+});
+
+export type V211Location = z.infer<typeof V211LocationSchema>;
@@ -0,0 +1,41 @@
+// SPDX-FileCopyrightText: 2025 Contributors to the CitrineOS Project
+//
+// SPDX-License-Identifier: Apache-2.0
+
+import { z } from 'zod';
+import { OcpiDateTimeSchema } from '../OcpiDateTime';
+import { V211ChargingPeriodSchema } from './V211ChargingPeriod';
+import { V211LocationSchema } from './V211Location';
+
+export enum V211AuthMethod {
+  AUTH_REQUEST = 'AUTH_REQUEST',
+  WHITELIST = 'WHITELIST',
+}
+
+export enum V211SessionStatus {
+  ACTIVE = 'ACTIVE',
+  COMPLETED = 'COMPLETED',
+  INVALID = 'INVALID',
+  PENDING = 'PENDING',
+}
+
+/**
+ * OCPI 2.1.1 session. The location holds only the EVSE and connector the session takes place at.
+ */
+export const V211SessionSchema = z.object({
+  id: z.string().max(36),
+  start_datetime: OcpiDateTimeSchema,
+  end_datetime: OcpiDateTimeSchema.nullable().optional(),
+  kwh: z.number(),
+  auth_id: z.string().max(36),
+  auth_method: z.nativeEnum(V211AuthMethod),
+  location: V211LocationSchema,
+  meter_id: z.string().max(255).nullable().optional(),
+  currency: z.string().length(3),
+  charging_periods: z.array(V211ChargingPeriodSchema).nullable().optional(),
+  total_cost: z.number().nullable().optional(),
+  status: z.nativeEnum(V211SessionStatus),
+  last_updated: OcpiDateTimeSchema,
+});
+
+export type V211Session = z.infer<typeof V211SessionSchema>;
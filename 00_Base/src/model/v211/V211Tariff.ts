@@ -0,0 +1,51 @@
+// SPDX-FileCopyrightText: 2025 Contributors to the CitrineOS Project
+//
+// SPDX-License-Identifier: Apache-2.0
+
+import { z } from 'zod';
+import { DayOfWeek } from '../DayOfWeek';
+import { DisplayTextSchema } from '../DisplayText';
+import { EnergyMixSchema } from '../EnergyMix';
+import { OcpiDateTimeSchema } from '../OcpiDateTime';
+import { TariffDimensionType } from '../TariffDimensionType';
+
+export const V211PriceComponentSchema = z.object({
+  type: z.nativeEnum(TariffDimensionType),
+  price: z.number(),
+  step_size: z.number().int(),
+});
+
+export const V211TariffRestrictionsSchema = z.object({
+  start_time: z.string().length(5).nullable().optional(),
+  end_time: z.string().length(5).nullable().optional(),
+  start_date: z.string().length(10).nullable().optional(),
+  end_date: z.string().length(10).nullable().optional(),
+  min_kwh: z.number().nullable().optional(),
+  max_kwh: z.number().nullable().optional(),
+  min_power: z.number().nullable().optional(),
+  max_power: z.number().nullable().optional(),
+  min_duration: z.number().int().nullable().optional(),
+  max_duration: z.number().int().nullable().optional(),
+  day_of_week: z.array(z.nativeEnum(DayOfWeek)).nullable().optional(),
+});
+
+export const V211TariffElementSchema = z.object({
+  price_components: z.array(V211PriceComponentSchema).min(1),
+  restrictions: V211TariffRestrictionsSchema.nullable().optional(),
+});
+
+export const V211TariffSchema = z.object({
+  id: z.string().max(36),
+  currency: z.string().length(3),
+  tariff_alt_text: z.array(DisplayTextSchema).nullable().optional(),
+  tariff_alt_url: z.string().url().nullable().optional(),
+  elements: z.array(V211TariffElementSchema).min(1),
+  energy_mix: EnergyMixSchema.nullable().optional(),
+  last_updated: OcpiDateTimeSchema,
+});
+
+export type V211TariffRestrictions = z.infer<
+  typeof V211TariffRestrictionsSchema
+>;
+export type V211TariffElement = z.infer<typeof V211TariffElementSchema>;
+export type V211Tariff = z.infer<typeof V211TariffSchema>;
@@ -0,0 +1,63 @@
+// SPDX-FileCopyrightText: 2025 Contributors to the CitrineOS Project
+//
+// SPDX-License-Identifier: Apache-2.0
+
+import { z } from 'zod';
+import { AuthorizationInfoAllowed } from '../AuthorizationInfoAllowed';
+import { DisplayTextSchema } from '../DisplayText';
+import { OcpiDateTimeSchema } from '../OcpiDateTime';
+import { OcpiResponseSchema } from '../OcpiResponse';
+import { PaginatedResponseSchema } from '../PaginatedResponse';
+import { TokenType } from '../TokenType';
+import { WhitelistType } from '../WhitelistType';
+
+/**
+ * OCPI 2.1.1 token, identified by the eMSP it was received from instead of its own country code and
+ * party id, and with an `auth_id` where 2.2.1 has a `contract_id`.
+ */
+export const V211TokenSchema = z.object({
+  uid: z.string().max(36),
+  type: z.nativeEnum(TokenType),
+  auth_id: z.string().max(36),
+  visual_number: z.string().max(64).nullable().optional(),
+  issuer: z.string().max(64),
+  valid: z.boolean(),
+  whitelist: z.nativeEnum(WhitelistType),
+  language: z.string().length(2).nullable().optional(),
+  last_updated: OcpiDateTimeSchema,
+});
+
+export type V211Token = z.infer<typeof V211TokenSchema>;
+
+export const V211PaginatedTokenResponseSchema =
+  PaginatedResponseSchema(V211TokenSchema);
+
+export type V211PaginatedTokenResponse = z.infer<
+  typeof V211PaginatedTokenResponseSchema
+>;
+
+export const V211LocationReferencesSchema = z.object({
+  location_id: z.string().max(39),
+  evse_uids: z.array(z.string().max(39)).nullable().optional(),
+  connector_ids: z.array(z.string().max(36)).nullable().optional(),
+});
+
+export type V211LocationReferences = z.infer<
+  typeof V211LocationReferencesSchema
+>;
+
+export const V211AuthorizationInfoSchema = z.object({
+  allowed: z.nativeEnum(AuthorizationInfoAllowed),
+  location: V211LocationReferencesSchema.nullable().optional(),
+  info: DisplayTextSchema.nullable().optional(),
+});
+
+export type V211AuthorizationInfo = z.infer<typeof V211AuthorizationInfoSchema>;
+
+export const V211AuthorizationInfoResponseSchema = OcpiResponseSchema(
+  V211AuthorizationInfoSchema,
+);
+
+export type V211AuthorizationInfoResponse = z.infer<
+  typeof V211AuthorizationInfoResponseSchema
+>;
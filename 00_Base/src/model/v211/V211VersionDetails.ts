@@ -0,0 +1,33 @@
+// SPDX-FileCopyrightText: 2025 Contributors to the CitrineOS Project
+//
+// SPDX-License-Identifier: Apache-2.0
+
+import { z } from 'zod';
+import { ModuleId } from '../ModuleId';
+import { OcpiResponseSchema } from '../OcpiResponse';
+import { VersionNumber } from '../VersionNumber';
+
+/**
+ * OCPI 2.1.1 endpoints have no interface role, every module is implemented in a single role.
+ */
+export const V211EndpointSchema = z.object({
+  identifier: z.nativeEnum(ModuleId),
+  url: z.string().url(),
+});
+
+export type V211Endpoint = z.infer<typeof V211EndpointSchema>;
+
+export const V211VersionDetailsSchema = z.object({
+  version: z.nativeEnum(VersionNumber),
+  endpoints: z.array(V211EndpointSchema).min(1),
+});
+
+export type V211VersionDetails = z.infer<typeof V211VersionDetailsSchema>;
+
+export const V211VersionDetailsResponseSchema = OcpiResponseSchema(
+  V211VersionDetailsSchema,
+);
+
+export type V211VersionDetailsResponse = z.infer<
+  typeof V211VersionDetailsResponseSchema
+>;
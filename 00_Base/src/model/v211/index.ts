@@ -0,0 +1,12 @@
+// SPDX-FileCopyrightText: 2025 Contributors to the CitrineOS Project
+//
+// SPDX-License-Identifier: Apache-2.0
+
+export * from './V211Cdr';
+export * from './V211ChargingPeriod';
+export * from './V211Credentials';
+export * from './V211Location';
+export * from './V211Session';
+export * from './V211Tariff';
+export * from './V211Token';
+export * from './V211VersionDetails';
@@ -2,147 +2,316 @@
 //
 // SPDX-License-Identifier: Apache-2.0
 
-// import { Service } from 'typedi';
-// import { type ILogObj, Logger } from 'tslog';
-// import { ChargingStation, Location } from '@citrineos/data';
-// import { OcpiLocation } from '../model/OcpiLocation';
-// import { OcpiEvse } from '../model/OcpiEvse';
-// import { OcpiConnector } from '../model/OcpiConnector';
-// import { LocationsBroadcaster } from '../broadcaster/LocationsBroadcaster';
-// import { AdminConnectorDTO, AdminEvseDTO, AdminLocationDTO } from '../model/DTO/admin/AdminLocationDTO';
-// import { LocationDTO } from '../model/DTO/LocationDTO';
-// import { InvalidParamException } from '../exception/InvalidParamException';
-// import { validate } from 'class-validator';
-// import { CREATE, UPDATE } from '../util/Consts';
-// import { OcpiGraphqlClient } from '../graphql/OcpiGraphqlClient';
-// import { CREATE_OR_UPDATE_LOCATION_MUTATION } from '../graphql/queries/adminLocation.mutations';
-// import type { CreateOrUpdateLocationMutation } from '../graphql/types/graphql';
-
-// @Service()
-// export class AdminLocationsService {
-//   constructor(
-//     private logger: Logger<ILogObj>,
-//     private locationsBroadcaster: LocationsBroadcaster,
-//     private ocpiGraphqlClient: OcpiGraphqlClient,
-//   ) {}
-
-//   public async createOrUpdateLocation(
-//     adminLocationDto: AdminLocationDTO,
-//     broadcast: boolean,
-//   ): Promise<LocationDTO> {
-//     this.logger.debug(
-//       adminLocationDto.id
-//         ? `Updating Location ${adminLocationDto.id}`
-//         : `Creating Location ${adminLocationDto.name}`,
-//     );
-
-//     const validationErrors = await validate(adminLocationDto, {
-//       groups: [adminLocationDto.id ? UPDATE : CREATE],
-//       validationError: { target: false },
-//     });
-
-//     if (validationErrors.length > 0) {
-//       throw new InvalidParamException(
-//         `The following properties cannot be empty: ${validationErrors.map((ve) => ve.property).join(', ')}`,
-//       );
-//     }
-
-//     const [coreLocation, ocpiLocation] =
-//       this.mapAdminLocationDtoToEntities(adminLocationDto);
-
-//     const evses = [];
-//     const connectors = [];
-
-//     for (const adminEvse of adminLocationDto.evses ?? []) {
-//       evses.push(this.mapAdminEvseDtoToOcpiEvse(adminEvse));
-//       for (const adminConnector of adminEvse.connectors ?? []) {
-//         connectors.push(
-//           this.mapAdminConnectorToOcpiConnector(adminConnector, adminEvse),
-//         );
-//       }
-//     }
-
-//     const variables = {
-//       coreLocation,
-//       ocpiLocation,
-//       evses,
-//       connectors,
-//     };
-//     const response = await this.ocpiGraphqlClient.request<CreateOrUpdateLocationMutation>(CREATE_OR_UPDATE_LOCATION_MUTATION, variables);
-//     const locationDto = response.insert_Locations_one  as unknown as LocationDTO
-
-//     if (broadcast) {
-//       await this.locationsBroadcaster.broadcastOnLocationCreateOrUpdate(
-//         locationDto,
-//       );
-//     }
-
-//     return locationDto;
-//   }
-
-//   mapAdminLocationDtoToEntities(
-//     adminLocationDto: AdminLocationDTO,
-//   ): [Partial<Location>, Partial<OcpiLocation>] {
-//     const ocpiLocation: Partial<OcpiLocation> = {};
-//     ocpiLocation.countryCode = adminLocationDto.country_code;
-//     ocpiLocation.partyId = adminLocationDto.party_id;
-//     ocpiLocation.publish = adminLocationDto.publish;
-//     ocpiLocation.lastUpdated = new Date();
-//     ocpiLocation.timeZone = adminLocationDto.time_zone;
-
-//     const coreLocation: Partial<Location> = {};
-//     coreLocation.id = adminLocationDto.id;
-//     coreLocation.name = adminLocationDto.name;
-//     coreLocation.address = adminLocationDto.address;
-//     coreLocation.city = adminLocationDto.city;
-//     coreLocation.postalCode = adminLocationDto.postal_code;
-//     coreLocation.state = adminLocationDto.state;
-//     coreLocation.country = adminLocationDto.country;
-
-//     if (adminLocationDto.coordinates) {
-//       coreLocation.coordinates = {
-//         type: 'Point',
-//         coordinates: [
-//           Number(adminLocationDto.coordinates.longitude),
-//           Number(adminLocationDto.coordinates.latitude),
-//         ],
-//       };
-//     }
-
-//     if (adminLocationDto.evses) {
-//       const newStationIds = [
-//         ...new Set(adminLocationDto.evses.map((evse) => evse.station_id)),
-//       ];
-//       for (const stationId of newStationIds) {
-//         const chargingStation = ChargingStation.build({ id: stationId });
-//         coreLocation.chargingPool = coreLocation.chargingPool
-//           ? [...coreLocation.chargingPool, chargingStation]
-//           : [chargingStation];
-//       }
-//     }
-
-//     return [coreLocation, ocpiLocation];
-//   }
-
-//   mapAdminEvseDtoToOcpiEvse(adminEvseDto: AdminEvseDTO): OcpiEvse {
-//     const ocpiEvse = new OcpiEvse();
-//     ocpiEvse.evseId = adminEvseDto.id;
-//     ocpiEvse.stationId = adminEvseDto.station_id;
-//     ocpiEvse.physicalReference = adminEvseDto.physical_reference;
-//     ocpiEvse.removed = adminEvseDto.removed;
-//     ocpiEvse.lastUpdated = new Date();
-//     return ocpiEvse;
-//   }
-
-//   mapAdminConnectorToOcpiConnector(
-//     adminConnectorDto: AdminConnectorDTO,
-//     adminEvseDto: AdminEvseDTO,
-//   ): OcpiConnector {
-//     const ocpiConnector = new OcpiConnector();
-//     ocpiConnector.connectorId = adminConnectorDto.id;
-//     ocpiConnector.evseId = adminEvseDto.id;
-//     ocpiConnector.stationId = adminEvseDto.station_id;
-//     ocpiConnector.lastUpdated = new Date();
-//     return ocpiConnector;
-//   }
-// }
+import { ITenantDto } from '@citrineos/base';
+import { type ILogObj, Logger } from 'tslog';
+import { Service } from 'typedi';
+import { LocationsBroadcaster } from '../broadcaster/LocationsBroadcaster';
+import { InvalidParamException } from '../exception/InvalidParamException';
+import { NotFoundException } from '../exception/NotFoundException';
+import { OcpiGraphqlClient } from '../graphql/OcpiGraphqlClient';
+import {
+  DeleteLocationExtensionsMutationResult,
+  DeleteLocationExtensionsMutationVariables,
+  GetLocationExtensionsQueryResult,
+  GetLocationExtensionsQueryVariables,
+  OcpiEvseExtensionFields,
+  OcpiEvseExtensions_Insert_Input,
+  OcpiLocationExtensionFields,
+  OcpiLocationExtensions_Insert_Input,
+  UpsertOcpiEvseExtensionMutationResult,
+  UpsertOcpiEvseExtensionMutationVariables,
+  UpsertOcpiLocationExtensionMutationResult,
+  UpsertOcpiLocationExtensionMutationVariables,
+} from '../graphql/operations';
+import {
+  DELETE_LOCATION_EXTENSIONS_MUTATION,
+  GET_LOCATION_EXTENSIONS_QUERY,
+  UPSERT_OCPI_EVSE_EXTENSION_MUTATION,
+  UPSERT_OCPI_LOCATION_EXTENSION_MUTATION,
+} from '../graphql/queries/locationExtension.queries';
+import {
+  AdminEvseDTO,
+  AdminLocationDTO,
+} from '../model/DTO/admin/AdminLocationDTO';
+import { EvseDTO, UID_FORMAT } from '../model/DTO/EvseDTO';
+import { LocationDTO } from '../model/DTO/LocationDTO';
+import { LocationsService } from './LocationsService';
+
+type LocationAttribute = Exclude<keyof AdminLocationDTO, 'id' | 'evses'>;
+type EvseAttribute = Exclude<keyof AdminEvseDTO, 'station_id' | 'id'>;
+type LocationColumn = Exclude<keyof OcpiLocationExtensionFields, 'updatedAt'>;
+type EvseColumn = Exclude<keyof OcpiEvseExtensionFields, 'updatedAt'>;
+
+// OCPI attribute of a location and the column of OcpiLocationExtensions holding it
+const LOCATION_ATTRIBUTES: Record<LocationAttribute, LocationColumn> = {
+  opening_times: 'openingTimes',
+  facilities: 'facilities',
+  images: 'images',
+  energy_mix: 'energyMix',
+  parking_type: 'parkingType',
+  related_locations: 'relatedLocations',
+  directions: 'directions',
+  operator: 'operator',
+  suboperator: 'suboperator',
+  owner: 'owner',
+  charging_when_closed: 'chargingWhenClosed',
+};
+
+// OCPI attribute of an EVSE and the column of OcpiEvseExtensions holding it
+const EVSE_ATTRIBUTES: Record<EvseAttribute, EvseColumn> = {
+  parking_restrictions: 'parkingRestrictions',
+  floor_level: 'floorLevel',
+  physical_reference: 'physicalReference',
+};
+
+/**
+ * Maintains the OCPI attributes of locations and EVSEs that core cannot hold. They are stored on
+ * the OCPI side, merged into the published locations by the LocationMapper, and every edit is
+ * pushed to the partners as a PATCH of the edited attributes.
+ */
+@Service()
+export class AdminLocationsService {
+  constructor(
+    private logger: Logger<ILogObj>,
+    private locationsBroadcaster: LocationsBroadcaster,
+    private locationsService: LocationsService,
+    private ocpiGraphqlClient: OcpiGraphqlClient,
+  ) {}
+
+  async getLocationExtensions(locationId: number): Promise<AdminLocationDTO> {
+    await this.getLocation(locationId);
+    const extensions = await this.queryExtensions(locationId);
+    const locationExtension = extensions.OcpiLocationExtensions[0];
+    const adminLocationDto: Partial<AdminLocationDTO> = { id: locationId };
+    for (const [attribute, column] of this.entries(LOCATION_ATTRIBUTES)) {
+      this.setAttribute(
+        adminLocationDto,
+        attribute,
+        locationExtension?.[column] ?? null,
+      );
+    }
+    adminLocationDto.evses = extensions.OcpiEvseExtensions.map(
+      (evseExtension) => {
+        const adminEvseDto: Partial<AdminEvseDTO> = {
+          station_id: evseExtension.evse.stationId!,
+          id: evseExtension.evseId,
+        };
+        for (const [attribute, column] of this.entries(EVSE_ATTRIBUTES)) {
+          this.setAttribute(
+            adminEvseDto,
+            attribute,
+            evseExtension[column] ?? null,
+          );
+        }
+        return adminEvseDto as AdminEvseDTO;
+      },
+    );
+    return adminLocationDto as AdminLocationDTO;
+  }
+
+  /**
+   * Sets the given attributes of the location and its EVSEs. Omitted attributes are left as they
+   * are, null ones are removed so that the value derived from core is published again.
+   */
+  public async createOrUpdateLocation(
+    adminLocationDto: AdminLocationDTO,
+  ): Promise<LocationDTO> {
+    this.logger.debug(
+      `Updating OCPI attributes of Location ${adminLocationDto.id}`,
+    );
+    const locationId = adminLocationDto.id;
+    const location = await this.getLocation(locationId);
+    const evseUids = new Set(location.evses?.map((evse) => evse.uid));
+    for (const adminEvseDto of adminLocationDto.evses ?? []) {
+      const uid = UID_FORMAT(adminEvseDto.station_id, adminEvseDto.id);
+      if (!evseUids.has(uid)) {
+        throw new InvalidParamException(
+          `EVSE ${uid} does not belong to Location ${locationId}`,
+        );
+      }
+    }
+
+    const extensions = await this.queryExtensions(locationId);
+    const now = new Date().toISOString();
+
+    const locationAttributes = this.keys(LOCATION_ATTRIBUTES).filter(
+      (attribute) => attribute in adminLocationDto,
+    );
+    if (locationAttributes.length > 0) {
+      const existing = extensions.OcpiLocationExtensions[0];
+      const object: OcpiLocationExtensions_Insert_Input = {
+        locationId,
+        createdAt: existing?.createdAt ?? now,
+        updatedAt: now,
+      };
+      for (const [attribute, column] of this.entries(LOCATION_ATTRIBUTES)) {
+        this.setAttribute(
+          object,
+          column,
+          locationAttributes.includes(attribute)
+            ? (adminLocationDto[attribute] ?? null)
+            : (existing?.[column] ?? null),
+        );
+      }
+      await this.ocpiGraphqlClient.request<
+        UpsertOcpiLocationExtensionMutationResult,
+        UpsertOcpiLocationExtensionMutationVariables
+      >(UPSERT_OCPI_LOCATION_EXTENSION_MUTATION, { object });
+    }
+
+    const evseAttributes = new Map<AdminEvseDTO, EvseAttribute[]>();
+    for (const adminEvseDto of adminLocationDto.evses ?? []) {
+      const attributes = this.keys(EVSE_ATTRIBUTES).filter(
+        (attribute) => attribute in adminEvseDto,
+      );
+      if (attributes.length === 0) {
+        continue;
+      }
+      evseAttributes.set(adminEvseDto, attributes);
+      const existing = extensions.OcpiEvseExtensions.find(
+        (evseExtension) => evseExtension.evseId === adminEvseDto.id,
+      );
+      const object: OcpiEvseExtensions_Insert_Input = {
+        evseId: adminEvseDto.id,
+        createdAt: existing?.createdAt ?? now,
+        updatedAt: now,
+      };
+      for (const [attribute, column] of this.entries(EVSE_ATTRIBUTES)) {
+        this.setAttribute(
+          object,
+          column,
+          attributes.includes(attribute)
+            ? (adminEvseDto[attribute] ?? null)
+            : (existing?.[column] ?? null),
+        );
+      }
+      await this.ocpiGraphqlClient.request<
+        UpsertOcpiEvseExtensionMutationResult,
+        UpsertOcpiEvseExtensionMutationVariables
+      >(UPSERT_OCPI_EVSE_EXTENSION_MUTATION, { object });
+    }
+
+    const updatedLocation = await this.getLocation(locationId);
+    await this.broadcastAttributes(
+      updatedLocation,
+      locationAttributes,
+      [...evseAttributes].map(([adminEvseDto, attributes]) => [
+        UID_FORMAT(adminEvseDto.station_id, adminEvseDto.id),
+        attributes,
+      ]),
+      now,
+    );
+    return updatedLocation;
+  }
+
+  /**
+   * Removes all OCPI attributes of the location and its EVSEs, publishing the values derived from
+   * core again.
+   */
+  async deleteLocationExtensions(locationId: number): Promise<LocationDTO> {
+    this.logger.debug(`Removing OCPI attributes of Location ${locationId}`);
+    await this.getLocation(locationId);
+    const extensions = await this.queryExtensions(locationId);
+    await this.ocpiGraphqlClient.request<
+      DeleteLocationExtensionsMutationResult,
+      DeleteLocationExtensionsMutationVariables
+    >(DELETE_LOCATION_EXTENSIONS_MUTATION, { locationId });
+
+    const locationExtension = extensions.OcpiLocationExtensions[0];
+    const updatedLocation = await this.getLocation(locationId);
+    await this.broadcastAttributes(
+      updatedLocation,
+      locationExtension
+        ? this.keys(LOCATION_ATTRIBUTES).filter(
+            (attribute) =>
+              locationExtension[LOCATION_ATTRIBUTES[attribute]] !== null,
+          )
+        : [],
+      extensions.OcpiEvseExtensions.map((evseExtension) => [
+        UID_FORMAT(evseExtension.evse.stationId!, evseExtension.evseId),
+        this.keys(EVSE_ATTRIBUTES).filter(
+          (attribute) => evseExtension[EVSE_ATTRIBUTES[attribute]] !== null,
+        ),
+      ]),
+      new Date().toISOString(),
+    );
+    return updatedLocation;
+  }
+
+  /**
+   * Patches the attributes with their published value, null when neither core nor the extension
+   * store holds one.
+   */
+  private async broadcastAttributes(
+    location: LocationDTO,
+    locationAttributes: LocationAttribute[],
+    evseAttributes: [string, EvseAttribute[]][],
+    lastUpdated: string,
+  ): Promise<void> {
+    const tenant: ITenantDto = {
+      countryCode: location.country_code,
+      partyId: location.party_id,
+    } as ITenantDto;
+    const locationId = Number(location.id);
+    if (locationAttributes.length > 0) {
+      const patch: Partial<LocationDTO> = { last_updated: lastUpdated };
+      for (const attribute of locationAttributes) {
+        this.setAttribute(patch, attribute, location[attribute] ?? null);
+      }
+      await this.locationsBroadcaster.broadcastPatchLocationAttributes(
+        tenant,
+        locationId,
+        patch,
+      );
+    }
+    for (const [evseUid, attributes] of evseAttributes) {
+      const evse = location.evses?.find((evse) => evse.uid === evseUid);
+      if (!evse || attributes.length === 0) {
+        continue;
+      }
+      const patch: Partial<EvseDTO> = { last_updated: lastUpdated };
+      for (const attribute of attributes) {
+        this.setAttribute(patch, attribute, evse[attribute] ?? null);
+      }
+      await this.locationsBroadcaster.broadcastPatchEvseAttributes(
+        tenant,
+        locationId,
+        evseUid,
+        patch,
+      );
+    }
+  }
+
+  private async getLocation(locationId: number): Promise<LocationDTO> {
+    const response = await this.locationsService.getLocationById(locationId);
+    if (!response.data) {
+      throw new NotFoundException(`Location ${locationId} not found`);
+    }
+    return response.data;
+  }
+
+  private queryExtensions(
+    locationId: number,
+  ): Promise<GetLocationExtensionsQueryResult> {
+    return this.ocpiGraphqlClient.request<
+      GetLocationExtensionsQueryResult,
+      GetLocationExtensionsQueryVariables
+    >(GET_LOCATION_EXTENSIONS_QUERY, { locationId });
+  }
+
+  private keys<K extends string>(record: Record<K, unknown>): K[] {
+    return Object.keys(record) as K[];
+  }
+
+  private entries<K extends string, V>(record: Record<K, V>): [K, V][] {
+    return Object.entries(record) as [K, V][];
+  }
+
+  private setAttribute<T, K extends keyof T>(
+    target: T,
+    key: K,
+    value: T[K],
+  ): void {
+    target[key] = value;
+  }
+}
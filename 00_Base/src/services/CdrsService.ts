@@ -3,70 +3,108 @@
 // SPDX-License-Identifier: Apache-2.0
 
 import { Service } from 'typedi';
-import { DEFAULT_LIMIT, DEFAULT_OFFSET } from '../model/PaginatedResponse';
+import {
+  buildOcpiPaginatedResponse,
+  DEFAULT_LIMIT,
+  DEFAULT_OFFSET,
+} from '../model/PaginatedResponse';
 import { OcpiGraphqlClient } from '../graphql/OcpiGraphqlClient';
-import { CdrMapper } from '../mapper/CdrMapper';
-import { GET_TRANSACTIONS_QUERY } from '../graphql/queries/transaction.queries';
-import { ITransactionDto } from '@citrineos/base';
+import { CdrBroadcaster } from '../broadcaster/CdrBroadcaster';
+import { Cdr, CdrResponse, PaginatedCdrResponse } from '../model/Cdr';
+import {
+  buildOcpiResponse,
+  OcpiResponseStatusCode,
+} from '../model/OcpiResponse';
+import { buildOcpiErrorResponse } from '../model/OcpiErrorResponse';
 import {
-  GetTransactionsQueryResult,
-  GetTransactionsQueryVariables,
-  Transactions_Bool_Exp,
+  GET_CDR_RECORD_BY_CDR_ID_QUERY,
+  GET_CDR_RECORDS_QUERY,
+} from '../graphql/queries/cdr.queries';
+import { ITenantPartnerDto } from '@citrineos/base';
+import {
+  CdrRecords_Bool_Exp,
+  GetCdrRecordByCdrIdQueryResult,
+  GetCdrRecordByCdrIdQueryVariables,
+  GetCdrRecordsQueryResult,
+  GetCdrRecordsQueryVariables,
+  Timestamptz_Comparison_Exp,
 } from '../graphql/operations';
 
 @Service()
 export class CdrsService {
   constructor(
     private readonly ocpiGraphqlClient: OcpiGraphqlClient,
-    private readonly cdrMapper: CdrMapper,
+    private readonly cdrBroadcaster: CdrBroadcaster,
   ) {}
 
+  /**
+   * Returns the CDRs issued to the requesting partner as they were stored when they were sent, so
+   * that a pulled CDR is identical to the pushed one even if the tariff changed since.
+   */
   public async getCdrs(
-    fromCountryCode: string,
-    fromPartyId: string,
-    toCountryCode: string,
-    toPartyId: string,
+    tenantPartner: ITenantPartnerDto,
     dateFrom?: Date,
     dateTo?: Date,
     offset: number = DEFAULT_OFFSET,
     limit: number = DEFAULT_LIMIT,
-  ) {
-    const where: Transactions_Bool_Exp = {
-      Tenant: {
-        countryCode: { _eq: toCountryCode },
-        partyId: { _eq: toPartyId },
-      },
-      Authorization: {
-        TenantPartner: {
-          countryCode: { _eq: fromCountryCode },
-          partyId: { _eq: fromPartyId },
-        },
-      },
+  ): Promise<PaginatedCdrResponse> {
+    const where: CdrRecords_Bool_Exp = {
+      tenantPartnerId: { _eq: tenantPartner.id! },
     };
-    const dateFilters: any = {};
+    const dateFilters: Timestamptz_Comparison_Exp = {};
     if (dateFrom) dateFilters._gte = dateFrom.toISOString();
     if (dateTo) dateFilters._lte = dateTo.toISOString();
     if (Object.keys(dateFilters).length > 0) {
-      where.updatedAt = dateFilters;
+      where.lastUpdated = dateFilters;
     }
-    const variables = {
-      offset,
+    const result = await this.ocpiGraphqlClient.request<
+      GetCdrRecordsQueryResult,
+      GetCdrRecordsQueryVariables
+    >(GET_CDR_RECORDS_QUERY, { where, offset, limit });
+
+    return buildOcpiPaginatedResponse(
+      OcpiResponseStatusCode.GenericSuccessCode,
+      result.CdrRecords_aggregate.aggregate?.count ?? 0,
       limit,
-      where,
-    };
+      offset,
+      result.CdrRecords.map((cdrRecord) => cdrRecord.cdrData as Cdr),
+    ) as PaginatedCdrResponse;
+  }
+
+  /**
+   * Returns a CDR as it was sent to the requesting partner.
+   */
+  public async getCdrById(
+    cdrId: string,
+    tenantPartner: ITenantPartnerDto,
+  ): Promise<CdrResponse> {
     const result = await this.ocpiGraphqlClient.request<
-      GetTransactionsQueryResult,
-      GetTransactionsQueryVariables
-    >(GET_TRANSACTIONS_QUERY, variables);
-    const mappedCdr = await this.cdrMapper.mapTransactionsToCdrs(
-      result.Transactions as ITransactionDto[],
-    );
+      GetCdrRecordByCdrIdQueryResult,
+      GetCdrRecordByCdrIdQueryVariables
+    >(GET_CDR_RECORD_BY_CDR_ID_QUERY, {
+      cdrId,
+      tenantPartnerId: tenantPartner.id!,
+    });
+    const cdrRecord = result.CdrRecords[0];
+    if (!cdrRecord) {
+      return buildOcpiErrorResponse(
+        OcpiResponseStatusCode.ClientGenericError,
+        `CDR ${cdrId} not found`,
+      ) as CdrResponse;
+    }
+    return buildOcpiResponse(
+      OcpiResponseStatusCode.GenericSuccessCode,
+      cdrRecord.cdrData as Cdr,
+    ) as CdrResponse;
+  }
 
-    return {
-      data: mappedCdr,
-      total: result.Transactions.length,
-      offset: offset,
-      limit: limit,
-    };
+  /**
+   * Replaces the CDR of a transaction by a credit CDR and a corrected CDR, see
+   * CdrBroadcaster.reissueCdr.
+   */
+  public async reissueCdr(
+    transactionId: number,
+  ): Promise<{ creditCdr: Cdr; cdr: Cdr }> {
+    return this.cdrBroadcaster.reissueCdr(transactionId);
   }
 }
@@ -2,124 +2,220 @@
 //
 // SPDX-License-Identifier: Apache-2.0
 
-import { Service } from 'typedi';
-// import { CommandExecutor } from '../util/CommandExecutor';
+import { Inject, Service } from 'typedi';
+import { IChargingStationDto, ITenantPartnerDto } from '@citrineos/base';
+import { BadRequestError } from 'routing-controllers';
 import {
   ChargingProfileResponse,
   ChargingProfileResultType,
 } from '../model/ChargingProfileResponse';
 import { NotFoundException } from '../exception/NotFoundException';
 import { SetChargingProfile } from '../model/SetChargingProfile';
-import { NotFoundError } from 'routing-controllers';
+import { OcpiConfig, OcpiConfigToken } from '../config/ocpi.types';
+import { OcpiGraphqlClient } from '../graphql/OcpiGraphqlClient';
+import {
+  GetChargingStationByIdQueryResult,
+  GetChargingStationByIdQueryVariables,
+  GetTransactionByTransactionIdQueryResult,
+  GetTransactionByTransactionIdQueryVariables,
+} from '../graphql/operations';
+import { GET_CHARGING_STATION_BY_ID_QUERY } from '../graphql/queries/chargingStation.queries';
+import { GET_TRANSACTION_BY_ID_QUERY } from '../graphql/queries/transaction.queries';
+import { CommandExecutor } from '../util/CommandExecutor';
+import { OcpiLogger } from '../util/OcpiLogger';
 import { ResponseGenerator } from '../util/response.generator';
 
+type SessionTransaction =
+  GetTransactionByTransactionIdQueryResult['Transactions'][number];
+
 @Service()
 export class ChargingProfilesService {
-  readonly TIMEOUT = 30;
+  constructor(private readonly logger: OcpiLogger) {}
+
+  @Inject()
+  protected ocpiGraphqlClient!: OcpiGraphqlClient;
 
-  // constructor(private commandExecutor: CommandExecutor) {}
+  @Inject()
+  protected commandExecutor!: CommandExecutor;
+
+  @Inject(OcpiConfigToken) readonly config!: OcpiConfig;
 
   async getActiveChargingProfile(
     sessionId: string,
     duration: number,
     responseUrl: string,
+    tenantPartner: ITenantPartnerDto,
   ): Promise<ChargingProfileResponse> {
     try {
-      // await this.commandExecutor.executeGetActiveChargingProfile(
-      //   sessionId,
-      //   duration,
-      //   responseUrl,
-      // );
+      const { transaction, chargingStation } = await this.getActiveSession(
+        sessionId,
+        tenantPartner,
+      );
+      this.commandExecutor
+        .executeGetActiveChargingProfile(
+          duration,
+          responseUrl,
+          tenantPartner,
+          chargingStation,
+          transaction,
+        )
+        .catch((error) => {
+          this.logger.error(
+            'Failed to execute GetActiveChargingProfile command',
+            error,
+          );
+        });
       return ResponseGenerator.buildGenericSuccessResponse({
         result: ChargingProfileResultType.ACCEPTED,
-        timeout: this.TIMEOUT,
+        timeout: this.config.commands.timeout,
       });
     } catch (e: any) {
-      if (e instanceof NotFoundError) {
-        return ResponseGenerator.buildUnknownSessionResponse(
-          {
-            result: ChargingProfileResultType.UNKNOWN_SESSION,
-            timeout: this.TIMEOUT,
-          },
-          e as NotFoundException,
-        );
-      }
-      return ResponseGenerator.buildGenericServerErrorResponse(
-        {
-          result: ChargingProfileResultType.REJECTED,
-          timeout: this.TIMEOUT,
-        },
-        e.message,
-        e,
-      );
+      return this.buildErrorResponse(e);
     }
   }
 
   async deleteChargingProfile(
     sessionId: string,
     responseUrl: string,
+    tenantPartner: ITenantPartnerDto,
   ): Promise<ChargingProfileResponse> {
     try {
-      // await this.commandExecutor.executeClearChargingProfile(
-      //   sessionId,
-      //   responseUrl,
-      // );
+      const { transaction, chargingStation } = await this.getActiveSession(
+        sessionId,
+        tenantPartner,
+      );
+      this.commandExecutor
+        .executeClearChargingProfile(
+          responseUrl,
+          tenantPartner,
+          chargingStation,
+          transaction,
+        )
+        .catch((error) => {
+          this.logger.error(
+            'Failed to execute ClearChargingProfile command',
+            error,
+          );
+        });
       return ResponseGenerator.buildGenericSuccessResponse({
         result: ChargingProfileResultType.ACCEPTED,
-        timeout: this.TIMEOUT,
+        timeout: this.config.commands.timeout,
       });
     } catch (e: any) {
-      if (e instanceof NotFoundError) {
-        return ResponseGenerator.buildUnknownSessionResponse(
-          {
-            result: ChargingProfileResultType.UNKNOWN_SESSION,
-            timeout: this.TIMEOUT,
-          },
-          e as NotFoundException,
-        );
-      }
-      return ResponseGenerator.buildGenericServerErrorResponse(
-        {
-          result: ChargingProfileResultType.REJECTED,
-          timeout: this.TIMEOUT,
-        },
-        e.message,
-        e,
-      );
+      return this.buildErrorResponse(e);
     }
   }
 
   async putChargingProfile(
     sessionId: string,
     setChargingProfile: SetChargingProfile,
+    tenantPartner: ITenantPartnerDto,
   ): Promise<ChargingProfileResponse> {
     try {
-      // await this.commandExecutor.executePutChargingProfile(
-      //   sessionId,
-      //   setChargingProfile,
-      // );
+      if (
+        !setChargingProfile.charging_profile.charging_profile_period?.length
+      ) {
+        throw new BadRequestError('Charging profile has no periods');
+      }
+      const { transaction, chargingStation } = await this.getActiveSession(
+        sessionId,
+        tenantPartner,
+      );
+      this.commandExecutor
+        .executePutChargingProfile(
+          setChargingProfile,
+          tenantPartner,
+          chargingStation,
+          transaction,
+        )
+        .catch((error) => {
+          this.logger.error(
+            'Failed to execute SetChargingProfile command',
+            error,
+          );
+        });
       return ResponseGenerator.buildGenericSuccessResponse({
         result: ChargingProfileResultType.ACCEPTED,
-        timeout: this.TIMEOUT,
+        timeout: this.config.commands.timeout,
       });
     } catch (e: any) {
-      if (e instanceof NotFoundError) {
-        return ResponseGenerator.buildUnknownSessionResponse(
-          {
-            result: ChargingProfileResultType.UNKNOWN_SESSION,
-            timeout: this.TIMEOUT,
-          },
-          e as NotFoundException,
-        );
-      }
-      return ResponseGenerator.buildGenericServerErrorResponse(
+      return this.buildErrorResponse(e);
+    }
+  }
+
+  /**
+   * Resolves the session (transaction) a charging profile request is for, together with the
+   * charging station including its EVSEs and connectors. Throws NotFoundException if the session
+   * does not exist or belongs to another partner, and BadRequestError if it cannot be controlled.
+   */
+  private async getActiveSession(
+    sessionId: string,
+    tenantPartner: ITenantPartnerDto,
+  ): Promise<{
+    transaction: SessionTransaction;
+    chargingStation: IChargingStationDto;
+  }> {
+    const transactionResponse = await this.ocpiGraphqlClient.request<
+      GetTransactionByTransactionIdQueryResult,
+      GetTransactionByTransactionIdQueryVariables
+    >(GET_TRANSACTION_BY_ID_QUERY, {
+      id: Number(sessionId),
+    });
+    const transaction = transactionResponse.Transactions[0];
+    const sessionPartner = transaction?.authorization?.tenantPartner;
+    if (
+      !transaction ||
+      sessionPartner?.countryCode !== tenantPartner.countryCode ||
+      sessionPartner?.partyId !== tenantPartner.partyId
+    ) {
+      throw new NotFoundException('Session not found');
+    }
+    if (!transaction.isActive) {
+      throw new BadRequestError('Session is not active');
+    }
+
+    const chargingStationResponse = await this.ocpiGraphqlClient.request<
+      GetChargingStationByIdQueryResult,
+      GetChargingStationByIdQueryVariables
+    >(GET_CHARGING_STATION_BY_ID_QUERY, {
+      id: transaction.stationId!,
+    });
+    const chargingStation = chargingStationResponse.ChargingStations[0] as
+      IChargingStationDto | undefined;
+    if (!chargingStation?.isOnline) {
+      throw new BadRequestError('Charging station is offline');
+    }
+    return { transaction, chargingStation };
+  }
+
+  private buildErrorResponse(e: any): ChargingProfileResponse {
+    if (e instanceof NotFoundException) {
+      return ResponseGenerator.buildUnknownSessionResponse(
+        {
+          result: ChargingProfileResultType.UNKNOWN_SESSION,
+          timeout: this.config.commands.timeout,
+        },
+        e,
+      );
+    }
+    if (e instanceof BadRequestError) {
+      return ResponseGenerator.buildGenericClientErrorResponse(
         {
           result: ChargingProfileResultType.REJECTED,
-          timeout: this.TIMEOUT,
+          timeout: this.config.commands.timeout,
         },
         e.message,
         e,
       );
     }
+    this.logger.error('Failed to handle charging profile request', e);
+    return ResponseGenerator.buildGenericServerErrorResponse(
+      {
+        result: ChargingProfileResultType.REJECTED,
+        timeout: this.config.commands.timeout,
+      },
+      e.message,
+      e,
+    );
   }
 }
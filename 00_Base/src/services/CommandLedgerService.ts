@@ -0,0 +1,300 @@
+// SPDX-FileCopyrightText: 2025 Contributors to the CitrineOS Project
+//
+// SPDX-License-Identifier: Apache-2.0
+
+import { ITenantPartnerDto } from '@citrineos/base';
+import { ILogObj, Logger } from 'tslog';
+import { Inject, Service } from 'typedi';
+import { OcpiConfig, OcpiConfigToken } from '../config/ocpi.types';
+import { NotFoundException } from '../exception/NotFoundException';
+import { OcpiGraphqlClient } from '../graphql/OcpiGraphqlClient';
+import {
+  GetExpiredOcpiCommandsQueryResult,
+  GetExpiredOcpiCommandsQueryVariables,
+  GetOcpiCommandQueryResult,
+  GetOcpiCommandQueryVariables,
+  InsertOcpiCommandMutationResult,
+  InsertOcpiCommandMutationVariables,
+  ListOcpiCommandsQueryResult,
+  ListOcpiCommandsQueryVariables,
+  OcpiCommands_Bool_Exp,
+  OcpiCommands_Set_Input,
+  UpdateOcpiCommandsMutationResult,
+  UpdateOcpiCommandsMutationVariables,
+} from '../graphql/operations';
+import {
+  GET_EXPIRED_OCPI_COMMANDS_QUERY,
+  GET_OCPI_COMMAND_QUERY,
+  INSERT_OCPI_COMMAND_MUTATION,
+  LIST_OCPI_COMMANDS_QUERY,
+  UPDATE_OCPI_COMMANDS_MUTATION,
+} from '../graphql/queries/command.queries';
+import { ChargingProfilesCommandType } from '../model/ChargingProfilesCommandType';
+import { CommandType } from '../model/CommandType';
+import {
+  OcpiCommand,
+  OcpiCommandListResponse,
+  OcpiCommandResultDeliveryStatus,
+  OcpiCommandState,
+  OcpiCommandTransition,
+} from '../model/OcpiCommand';
+import { DEFAULT_LIMIT, DEFAULT_OFFSET } from '../model/PaginatedResponse';
+import { COMMAND_RESPONSE_URL_NONE } from '../util/Consts';
+
+/**
+ * States in which a command still waits for the charging station and can time out.
+ */
+const OPEN_STATES = [OcpiCommandState.REQUESTED, OcpiCommandState.SENT];
+
+export type ExpiredOcpiCommand =
+  GetExpiredOcpiCommandsQueryResult['OcpiCommands'][number];
+
+/**
+ * Persisted history of the commands sent to charging stations on behalf of a TenantPartner.
+ *
+ * The result of a command is set once: the charging station's answer and the timeout sweeper
+ * both claim it first, and only the one that succeeds posts it to the partner.
+ */
+@Service()
+export class CommandLedgerService {
+  constructor(
+    private readonly logger: Logger<ILogObj>,
+    @Inject(OcpiConfigToken) private readonly config: OcpiConfig,
+    private readonly ocpiGraphqlClient: OcpiGraphqlClient,
+  ) {}
+
+  async record(
+    commandId: string,
+    command: CommandType | ChargingProfilesCommandType,
+    responseUrl: string,
+    tenantPartner: ITenantPartnerDto,
+    stationId: string,
+    references?: {
+      sessionId?: string | null;
+      authorizationReference?: string | null;
+    },
+  ): Promise<void> {
+    const now = new Date();
+    const expiresAt = new Date(
+      now.getTime() + this.config.commands.timeout * 1000,
+    );
+    const transition: OcpiCommandTransition = {
+      state: OcpiCommandState.REQUESTED,
+      timestamp: now.toISOString(),
+    };
+    await this.ocpiGraphqlClient.request<
+      InsertOcpiCommandMutationResult,
+      InsertOcpiCommandMutationVariables
+    >(INSERT_OCPI_COMMAND_MUTATION, {
+      object: {
+        id: commandId,
+        tenantPartnerId: tenantPartner.id!,
+        stationId,
+        command,
+        responseUrl,
+        sessionId: references?.sessionId ?? null,
+        authorizationReference: references?.authorizationReference ?? null,
+        state: OcpiCommandState.REQUESTED,
+        transitions: [transition],
+        expiresAt: expiresAt.toISOString(),
+        resultDeliveryStatus:
+          responseUrl === COMMAND_RESPONSE_URL_NONE
+            ? OcpiCommandResultDeliveryStatus.NOT_REQUIRED
+            : OcpiCommandResultDeliveryStatus.PENDING,
+        createdAt: now.toISOString(),
+        updatedAt: now.toISOString(),
+      },
+    });
+  }
+
+  async findCommand(commandId: string): Promise<OcpiCommand | undefined> {
+    const response = await this.ocpiGraphqlClient.request<
+      GetOcpiCommandQueryResult,
+      GetOcpiCommandQueryVariables
+    >(GET_OCPI_COMMAND_QUERY, { id: commandId });
+    return (response.OcpiCommands_by_pk as OcpiCommand | null) ?? undefined;
+  }
+
+  async getCommand(commandId: string): Promise<OcpiCommand> {
+    const command = await this.findCommand(commandId);
+    if (!command) {
+      throw new NotFoundException(`Command ${commandId} not found`);
+    }
+    return command;
+  }
+
+  async listCommands(
+    filter: {
+      tenantPartnerId?: number;
+      sessionId?: string;
+      authorizationReference?: string;
+    },
+    offset: number = DEFAULT_OFFSET,
+    limit: number = DEFAULT_LIMIT,
+  ): Promise<OcpiCommandListResponse> {
+    const where: OcpiCommands_Bool_Exp = {};
+    if (filter.tenantPartnerId !== undefined) {
+      where.tenantPartnerId = { _eq: filter.tenantPartnerId };
+    }
+    if (filter.sessionId !== undefined) {
+      where.sessionId = { _eq: filter.sessionId };
+    }
+    if (filter.authorizationReference !== undefined) {
+      where.authorizationReference = { _eq: filter.authorizationReference };
+    }
+    const response = await this.ocpiGraphqlClient.request<
+      ListOcpiCommandsQueryResult,
+      ListOcpiCommandsQueryVariables
+    >(LIST_OCPI_COMMANDS_QUERY, { where, offset, limit });
+    return {
+      data: response.OcpiCommands as OcpiCommand[],
+      total: response.OcpiCommands_aggregate.aggregate?.count ?? 0,
+      offset,
+      limit,
+    };
+  }
+
+  /**
+   * Core accepted the OCPP request, the charging station's answer arrives on the callback url.
+   */
+  async recordSent(commandId: string, correlationId?: string): Promise<void> {
+    const sent = await this.transition(
+      commandId,
+      { state: OcpiCommandState.SENT, correlationId },
+      { state: OcpiCommandState.SENT, detail: { correlationId } },
+      { state: { _eq: OcpiCommandState.REQUESTED } },
+    );
+    if (!sent) {
+      // The charging station answered before core confirmed the request
+      await this.transition(
+        commandId,
+        { correlationId },
+        { detail: { correlationId } },
+      );
+    }
+  }
+
+  async recordSendFailed(commandId: string): Promise<void> {
+    await this.transition(
+      commandId,
+      { state: OcpiCommandState.SEND_FAILED },
+      { state: OcpiCommandState.SEND_FAILED },
+      { state: { _eq: OcpiCommandState.REQUESTED } },
+    );
+  }
+
+  /**
+   * Moves an open command to RESPONDED. A late answer to a command that already timed out is only
+   * added to its history, so that the command stays TIMED_OUT.
+   */
+  async recordResponse(commandId: string, response: unknown): Promise<void> {
+    const responded = await this.transition(
+      commandId,
+      { state: OcpiCommandState.RESPONDED },
+      { state: OcpiCommandState.RESPONDED, detail: response },
+      { state: { _in: OPEN_STATES } },
+    );
+    if (!responded) {
+      this.logger.warn('Response to a command that is no longer open', {
+        commandId,
+      });
+      await this.transition(commandId, {}, { detail: response });
+    }
+  }
+
+  /**
+   * Moves a command that was not answered in time to TIMED_OUT.
+   * @returns Whether the command was still open, i.e. this caller is responsible for its timeout.
+   */
+  async recordTimeout(commandId: string): Promise<boolean> {
+    return this.transition(
+      commandId,
+      { state: OcpiCommandState.TIMED_OUT },
+      { state: OcpiCommandState.TIMED_OUT },
+      { state: { _in: OPEN_STATES }, result: { _is_null: true } },
+    );
+  }
+
+  /**
+   * Sets the result of the command before it is posted to the partner.
+   * @returns Whether the result should be posted: false when the command was already resolved,
+   * e.g. a late answer of the charging station after the command timed out. Results of commands
+   * that are not in the ledger are always posted.
+   */
+  async claimResult(commandId: string, result: string): Promise<boolean> {
+    const claimed = await this.transition(
+      commandId,
+      { result },
+      { result },
+      { result: { _is_null: true } },
+    );
+    if (claimed) {
+      return true;
+    }
+    const command = await this.findCommand(commandId);
+    if (command) {
+      this.logger.warn('Command already resolved, result is not posted', {
+        commandId,
+        result,
+        previousResult: command.result,
+      });
+      return false;
+    }
+    return true;
+  }
+
+  async recordDelivery(commandId: string, error?: unknown): Promise<void> {
+    const deliveryStatus = error
+      ? OcpiCommandResultDeliveryStatus.FAILED
+      : OcpiCommandResultDeliveryStatus.DELIVERED;
+    const resultError = error
+      ? error instanceof Error
+        ? error.message
+        : String(error)
+      : null;
+    await this.transition(
+      commandId,
+      {
+        resultDeliveryStatus: deliveryStatus,
+        resultDeliveredAt: error ? null : new Date().toISOString(),
+        resultError,
+      },
+      { deliveryStatus, detail: resultError ?? undefined },
+    );
+  }
+
+  async getExpiredCommands(limit: number): Promise<ExpiredOcpiCommand[]> {
+    const response = await this.ocpiGraphqlClient.request<
+      GetExpiredOcpiCommandsQueryResult,
+      GetExpiredOcpiCommandsQueryVariables
+    >(GET_EXPIRED_OCPI_COMMANDS_QUERY, {
+      states: OPEN_STATES,
+      now: new Date().toISOString(),
+      limit,
+    });
+    return response.OcpiCommands;
+  }
+
+  /**
+   * Updates the command and appends the transition to its history.
+   * @returns Whether the command matched the given condition.
+   */
+  private async transition(
+    commandId: string,
+    set: Omit<OcpiCommands_Set_Input, 'updatedAt'>,
+    transition: Omit<OcpiCommandTransition, 'timestamp'>,
+    condition: OcpiCommands_Bool_Exp = {},
+  ): Promise<boolean> {
+    const now = new Date().toISOString();
+    const entry: OcpiCommandTransition = { ...transition, timestamp: now };
+    const response = await this.ocpiGraphqlClient.request<
+      UpdateOcpiCommandsMutationResult,
+      UpdateOcpiCommandsMutationVariables
+    >(UPDATE_OCPI_COMMANDS_MUTATION, {
+      where: { ...condition, id: { _eq: commandId } },
+      set: { ...set, updatedAt: now },
+      append: { transitions: [entry] },
+    });
+    return (response.update_OcpiCommands?.affected_rows ?? 0) > 0;
+  }
+}
@@ -0,0 +1,132 @@
+// SPDX-FileCopyrightText: 2025 Contributors to the CitrineOS Project
+//
+// SPDX-License-Identifier: Apache-2.0
+
+import { ITenantPartnerDto } from '@citrineos/base';
+import { ILogObj, Logger } from 'tslog';
+import { Inject, Service } from 'typedi';
+import { OcpiConfig, OcpiConfigToken } from '../config/ocpi.types';
+import { ChargingProfileResultType } from '../model/ChargingProfileResult';
+import { ChargingProfilesCommandType } from '../model/ChargingProfilesCommandType';
+import { CommandResultType } from '../model/CommandResult';
+import { ChargingProfilesClientApi } from '../trigger/ChargingProfilesClientApi';
+import { CommandsClientApi } from '../trigger/CommandsClientApi';
+import { COMMAND_RESPONSE_URL_NONE } from '../util/Consts';
+import {
+  CommandLedgerService,
+  ExpiredOcpiCommand,
+} from './CommandLedgerService';
+
+const DEFAULT_POLL_INTERVAL_SECONDS = 5;
+const BATCH_SIZE = 100;
+
+/**
+ * Background worker answering commands the charging station did not answer in time. As the
+ * commands are read from the command ledger, commands sent before a restart also time out.
+ */
+@Service()
+export class CommandTimeoutService {
+  private pollTimer?: NodeJS.Timeout;
+  private sweeping = false;
+
+  constructor(
+    private readonly logger: Logger<ILogObj>,
+    @Inject(OcpiConfigToken) private readonly config: OcpiConfig,
+    private readonly commandLedgerService: CommandLedgerService,
+    private readonly commandsClientApi: CommandsClientApi,
+    private readonly chargingProfilesClientApi: ChargingProfilesClientApi,
+  ) {}
+
+  start(): void {
+    if (this.pollTimer) {
+      return;
+    }
+    const intervalSeconds =
+      this.config.commands.timeoutSweepIntervalSeconds ??
+      DEFAULT_POLL_INTERVAL_SECONDS;
+    this.pollTimer = setInterval(() => {
+      this.sweepExpiredCommands().catch((e) =>
+        this.logger.error('Command timeout sweep failed', e),
+      );
+    }, intervalSeconds * 1000);
+  }
+
+  stop(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = undefined;
+    }
+  }
+
+  async sweepExpiredCommands(): Promise<void> {
+    if (this.sweeping) {
+      return;
+    }
+    this.sweeping = true;
+    try {
+      const commands =
+        await this.commandLedgerService.getExpiredCommands(BATCH_SIZE);
+      for (const command of commands) {
+        try {
+          await this.timeOut(command);
+        } catch (e) {
+          this.logger.error('Failed to post command timeout result', {
+            commandId: command.id,
+            error: e,
+          });
+        }
+      }
+    } finally {
+      this.sweeping = false;
+    }
+  }
+
+  private async timeOut(command: ExpiredOcpiCommand): Promise<void> {
+    // Another instance, or the charging station's answer, may have resolved the command meanwhile
+    if (!(await this.commandLedgerService.recordTimeout(command.id))) {
+      return;
+    }
+    this.logger.warn('Command timed out', {
+      commandId: command.id,
+      command: command.command,
+    });
+    if (command.responseUrl === COMMAND_RESPONSE_URL_NONE) {
+      return;
+    }
+
+    const tenantPartner = command.TenantPartner as ITenantPartnerDto;
+    if (
+      Object.values(ChargingProfilesCommandType).includes(
+        command.command as ChargingProfilesCommandType,
+      )
+    ) {
+      await this.chargingProfilesClientApi.postChargingProfileResult(
+        tenantPartner.countryCode!,
+        tenantPartner.partyId!,
+        tenantPartner.tenant!.countryCode!,
+        tenantPartner.tenant!.partyId!,
+        tenantPartner.partnerProfileOCPI!,
+        command.responseUrl,
+        { result: ChargingProfileResultType.REJECTED },
+        command.id,
+      );
+      return;
+    }
+    await this.commandsClientApi.postCommandResult(
+      tenantPartner.countryCode!,
+      tenantPartner.partyId!,
+      tenantPartner.tenant!.countryCode!,
+      tenantPartner.tenant!.partyId!,
+      tenantPartner.partnerProfileOCPI!,
+      command.responseUrl,
+      {
+        result: CommandResultType.TIMEOUT,
+        message: {
+          language: 'en',
+          text: 'Charging station communication failed',
+        },
+      },
+      command.id,
+    );
+  }
+}
@@ -20,17 +20,30 @@ import { OcpiGraphqlClient } from '../graphql/OcpiGraphqlClient';
 import {
   GetChargingStationByIdQueryResult,
   GetChargingStationByIdQueryVariables,
+  GetChargingStationsByLocationIdQueryResult,
+  GetChargingStationsByLocationIdQueryVariables,
+  GetOcpiReservationQueryResult,
+  GetOcpiReservationQueryVariables,
   GetTransactionByTransactionIdQueryResult,
   GetTransactionByTransactionIdQueryVariables,
 } from '../graphql/operations';
-import { GET_CHARGING_STATION_BY_ID_QUERY } from '../graphql/queries/chargingStation.queries';
+import {
+  GET_CHARGING_STATION_BY_ID_QUERY,
+  GET_CHARGING_STATIONS_BY_LOCATION_ID_QUERY,
+} from '../graphql/queries/chargingStation.queries';
+import { GET_OCPI_RESERVATION_QUERY } from '../graphql/queries/reservation.queries';
 import { GET_TRANSACTION_BY_ID_QUERY } from '../graphql/queries/transaction.queries';
-import { EXTRACT_STATION_ID } from '../model/DTO/EvseDTO';
+import { CommandResultType } from '../model/CommandResult';
+import { EXTRACT_EVSE_ID, EXTRACT_STATION_ID } from '../model/DTO/EvseDTO';
+import { OcpiReservationStatus } from '../model/OcpiReservation';
 import { TokenDTO } from '../model/DTO/TokenDTO';
+import { EvseSelectionService } from './EvseSelectionService';
 import { TokensService } from './TokensService';
 import { CommandExecutor } from '../util/CommandExecutor';
+import { CommandsClientApi } from '../trigger/CommandsClientApi';
 import { OcpiLogger } from '../util/OcpiLogger';
 import { ResponseGenerator } from '../util/response.generator';
+import { v4 as uuidv4 } from 'uuid';
 
 @Service()
 export class CommandsService {
@@ -45,6 +58,12 @@ export class CommandsService {
   @Inject()
   protected commandExecutor!: CommandExecutor;
 
+  @Inject()
+  protected commandsClientApi!: CommandsClientApi;
+
+  @Inject()
+  protected evseSelectionService!: EvseSelectionService;
+
   @Inject(OcpiConfigToken) readonly config!: OcpiConfig;
 
   /**
@@ -114,11 +133,90 @@ export class CommandsService {
   }
 
   private async handleCancelReservation(
-    _cancelReservation: CancelReservation,
-    _tenantPartner: ITenantPartnerDto,
+    cancelReservation: CancelReservation,
+    tenantPartner: ITenantPartnerDto,
   ): Promise<OcpiCommandResponse> {
+    const reservationResponse = await this.ocpiGraphqlClient.request<
+      GetOcpiReservationQueryResult,
+      GetOcpiReservationQueryVariables
+    >(GET_OCPI_RESERVATION_QUERY, {
+      tenantPartnerId: tenantPartner.id!,
+      reservationId: cancelReservation.reservation_id,
+    });
+    const reservation = reservationResponse.OcpiReservations[0];
+    if (
+      !reservation ||
+      (reservation.status !== OcpiReservationStatus.PENDING &&
+        reservation.status !== OcpiReservationStatus.RESERVED) ||
+      new Date(reservation.expiryDate) <= new Date()
+    ) {
+      this.logger.error('Unknown reservation', {
+        reservationId: cancelReservation.reservation_id,
+      });
+      this.commandsClientApi
+        .postCommandResult(
+          tenantPartner.countryCode!,
+          tenantPartner.partyId!,
+          tenantPartner.tenant!.countryCode!,
+          tenantPartner.tenant!.partyId!,
+          tenantPartner.partnerProfileOCPI!,
+          cancelReservation.response_url,
+          {
+            result: CommandResultType.UNKNOWN_RESERVATION,
+            message: {
+              language: 'en',
+              text: 'Reservation not found',
+            },
+          },
+          uuidv4(),
+        )
+        .catch((error) => {
+          this.handleCommandExecutionError(
+            'Failed to post CancelReservation result',
+            error,
+          );
+        });
+      return ResponseGenerator.buildGenericSuccessResponse({
+        result: CommandResponseType.ACCEPTED,
+        timeout: this.config.commands.timeout,
+      });
+    }
+
+    const chargingStationResponse = await this.ocpiGraphqlClient.request<
+      GetChargingStationByIdQueryResult,
+      GetChargingStationByIdQueryVariables
+    >(GET_CHARGING_STATION_BY_ID_QUERY, {
+      id: reservation.stationId,
+    });
+    const chargingStation = chargingStationResponse.ChargingStations[0] as
+      IChargingStationDto | undefined;
+    if (!chargingStation?.isOnline) {
+      this.logger.error('Charging station is offline', {
+        stationId: reservation.stationId,
+      });
+      return ResponseGenerator.buildInvalidOrMissingParametersResponse(
+        {
+          result: CommandResponseType.REJECTED,
+          timeout: this.config.commands.timeout,
+        },
+        'Charging station is offline',
+      );
+    }
+    this.commandExecutor
+      .executeCancelReservation(
+        cancelReservation,
+        tenantPartner,
+        chargingStation,
+        reservation.id,
+      )
+      .catch((error) => {
+        this.handleCommandExecutionError(
+          'Failed to execute CancelReservation command',
+          error,
+        );
+      });
     return ResponseGenerator.buildGenericSuccessResponse({
-      result: CommandResponseType.NOT_SUPPORTED,
+      result: CommandResponseType.ACCEPTED,
       timeout: this.config.commands.timeout,
     });
   }
@@ -140,6 +238,18 @@ export class CommandsService {
         'Token information does not match credentials',
       );
     }
+    if (reserveNow.expiry_date <= new Date()) {
+      this.logger.error('Reservation expiry date is in the past', {
+        expiryDate: reserveNow.expiry_date,
+      });
+      return ResponseGenerator.buildInvalidOrMissingParametersResponse(
+        {
+          result: CommandResponseType.REJECTED,
+          timeout: this.config.commands.timeout,
+        },
+        'Expiry date is in the past',
+      );
+    }
 
     try {
       reserveNow.token = await this.validateTokenAndNormalizeToken(
@@ -160,26 +270,106 @@ export class CommandsService {
       );
     }
 
+    const chargingStation = await this.findChargingStationForReservation(
+      reserveNow,
+      tenantPartner,
+    );
+    if (!chargingStation) {
+      this.logger.error('Charging station not found for reservation', {
+        locationId: reserveNow.location_id,
+        evseUid: reserveNow.evse_uid,
+      });
+      return ResponseGenerator.buildInvalidOrMissingParametersResponse(
+        {
+          result: CommandResponseType.REJECTED,
+          timeout: this.config.commands.timeout,
+        },
+        reserveNow.evse_uid ? 'Unknown EVSE' : 'Unknown location',
+      );
+    }
+    if (!chargingStation.isOnline) {
+      this.logger.error('Charging station is offline', {
+        stationId: chargingStation.id,
+      });
+      return ResponseGenerator.buildInvalidOrMissingParametersResponse(
+        {
+          result: CommandResponseType.REJECTED,
+          timeout: this.config.commands.timeout,
+        },
+        'Charging station is offline',
+      );
+    }
+    this.commandExecutor
+      .executeReserveNow(reserveNow, tenantPartner, chargingStation)
+      .catch((error) => {
+        this.handleCommandExecutionError(
+          'Failed to execute ReserveNow command',
+          error,
+        );
+      });
     return ResponseGenerator.buildGenericSuccessResponse({
-      result: CommandResponseType.NOT_SUPPORTED,
+      result: CommandResponseType.ACCEPTED,
       timeout: this.config.commands.timeout,
     });
   }
 
+  /**
+   * Resolves the charging station a reservation is sent to. With an evse_uid this is the station
+   * of that EVSE, otherwise the reservation is for the location as a whole and the first online
+   * station of the location is used. The location must belong to the tenant of the partner and be
+   * published to it, as in the Locations module.
+   */
+  private async findChargingStationForReservation(
+    reserveNow: ReserveNow,
+    tenantPartner: ITenantPartnerDto,
+  ): Promise<IChargingStationDto | undefined> {
+    const chargingStationsResponse = await this.ocpiGraphqlClient.request<
+      GetChargingStationsByLocationIdQueryResult,
+      GetChargingStationsByLocationIdQueryVariables
+    >(GET_CHARGING_STATIONS_BY_LOCATION_ID_QUERY, {
+      location: {
+        id: { _eq: Number(reserveNow.location_id) },
+        Tenant: { TenantPartners: { id: { _eq: tenantPartner.id } } },
+        _or: [
+          {
+            TenantPartnerLocations: {
+              tenantPartnerId: { _eq: tenantPartner.id },
+            },
+          },
+          {
+            Tenant: {
+              TenantPartners: {
+                id: { _eq: tenantPartner.id },
+                publishAllLocations: { _eq: true },
+              },
+            },
+          },
+        ],
+      },
+    });
+    const chargingStations =
+      chargingStationsResponse.ChargingStations as IChargingStationDto[];
+    if (reserveNow.evse_uid) {
+      const stationId = EXTRACT_STATION_ID(reserveNow.evse_uid);
+      const evseId = Number(EXTRACT_EVSE_ID(reserveNow.evse_uid));
+      return chargingStations.find(
+        (chargingStation) =>
+          chargingStation.id === stationId &&
+          Array.from(chargingStation.evses || []).some(
+            (evse) => evse.id === evseId,
+          ),
+      );
+    }
+    return (
+      chargingStations.find((chargingStation) => chargingStation.isOnline) ??
+      chargingStations[0]
+    );
+  }
+
   private async handleStartSession(
     startSession: StartSession,
     tenantPartner: ITenantPartnerDto,
   ): Promise<OcpiCommandResponse> {
-    if (!startSession.evse_uid) {
-      this.logger.error('EVSE UID is required for StartSession command');
-      return ResponseGenerator.buildInvalidOrMissingParametersResponse(
-        {
-          result: CommandResponseType.REJECTED,
-          timeout: this.config.commands.timeout,
-        },
-        'EVSE UID required by this CPO',
-      );
-    }
     if (
       tenantPartner.countryCode !== startSession.token.country_code ||
       tenantPartner.partyId !== startSession.token.party_id
@@ -213,6 +403,34 @@ export class CommandsService {
       );
     }
 
+    if (!startSession.evse_uid) {
+      // The session is started on an EVSE of the location picked by the CPO, the Session pushed
+      // once the transaction starts carries the chosen EVSE.
+      const selection = await this.evseSelectionService.selectEvse(
+        startSession,
+        tenantPartner,
+      );
+      if (!selection) {
+        this.logger.error('No EVSE available at location for StartSession', {
+          locationId: startSession.location_id,
+        });
+        // The request itself is valid, the CPO rejects the command
+        return ResponseGenerator.buildGenericSuccessResponse(
+          {
+            result: CommandResponseType.REJECTED,
+            timeout: this.config.commands.timeout,
+            message: {
+              language: 'en',
+              text: 'No EVSE available at this location',
+            },
+          },
+          'No EVSE available at this location',
+        );
+      }
+      startSession.evse_uid = selection.evse.uid;
+      startSession.connector_id = selection.connector.id;
+    }
+
     const chargingStationResponse = await this.ocpiGraphqlClient.request<
       GetChargingStationByIdQueryResult,
       GetChargingStationByIdQueryVariables
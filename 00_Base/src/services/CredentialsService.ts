@@ -24,17 +24,15 @@ import { AdminCredentialsRequestDTO } from '../model/DTO/AdminCredentialsRequest
 import {
   DELETE_TENANT_PARTNER_BY_SERVER_TOKEN,
   GET_TENANT_PARTNER_BY_CPO_AND_AND_CLIENT,
-  GET_TENANT_PARTNER_BY_SERVER_TOKEN,
 } from '../graphql/queries/tenantPartner.queries';
 import { ITenantPartnerDto } from '@citrineos/base';
 import { RegistrationMapper } from '../mapper/RegistrationMapper';
+import { TenantPartnerTokenResolver } from './TenantPartnerTokenResolver';
 import {
   DeleteTenantPartnerByServerTokenMutationResult,
   DeleteTenantPartnerByServerTokenMutationVariables,
   GetTenantPartnerByCpoClientAndModuleIdQueryResult,
   GetTenantPartnerByCpoClientAndModuleIdQueryVariables,
-  GetTenantPartnerByServerTokenQueryResult,
-  GetTenantPartnerByServerTokenQueryVariables,
   UpdateTenantPartnerProfileMutationResult,
   UpdateTenantPartnerProfileMutationVariables,
 } from '../graphql/operations';
@@ -64,6 +62,7 @@ export class CredentialsService {
     readonly ocpiGraphqlClient: OcpiGraphqlClient,
     readonly versionsClientApi: VersionsClientApi,
     readonly credentialsClientApi: CredentialsClientApi,
+    readonly tenantPartnerTokenResolver: TenantPartnerTokenResolver,
   ) {}
 
   // async getClientTokenByClientCountryCodeAndPartyId(
@@ -129,6 +128,9 @@ export class CredentialsService {
       partnerId: tenantPartner.id!,
       input: tenantPartner.partnerProfileOCPI!,
     });
+    await this.tenantPartnerTokenResolver.invalidateTenantPartner(
+      tenantPartner.id!,
+    );
 
     return RegistrationMapper.tenantPartnerToCredentialsDto(tenantPartner);
   }
@@ -159,6 +161,9 @@ export class CredentialsService {
       partnerId: tenantPartner.id!,
       input: tenantPartner.partnerProfileOCPI!,
     });
+    await this.tenantPartnerTokenResolver.invalidateTenantPartner(
+      tenantPartner.id!,
+    );
 
     return RegistrationMapper.tenantPartnerToCredentialsDto(tenantPartner);
   }
@@ -168,6 +173,10 @@ export class CredentialsService {
       DeleteTenantPartnerByServerTokenMutationResult,
       DeleteTenantPartnerByServerTokenMutationVariables
     >(DELETE_TENANT_PARTNER_BY_SERVER_TOKEN, { serverToken: token });
+    await this.tenantPartnerTokenResolver.invalidateToken(
+      token,
+      response.delete_TenantPartners?.returning[0]?.id,
+    );
     if (!response.delete_TenantPartners?.affected_rows) {
       throw new NotFoundError(
         'No client information found for the provided token',
@@ -279,6 +288,9 @@ export class CredentialsService {
         partnerId: tenantPartner.id!,
         input: tenantPartner.partnerProfileOCPI!,
       });
+      await this.tenantPartnerTokenResolver.invalidateTenantPartner(
+        tenantPartner.id!,
+      );
 
       const putCredentialsResponse =
         await this.credentialsClientApi.putCredentials(
@@ -412,6 +424,9 @@ export class CredentialsService {
     await this.ocpiGraphqlClient.request(DELETE_TENANT_PARTNER_BY_ID, {
       id: tenantPartner.id,
     });
+    await this.tenantPartnerTokenResolver.invalidateTenantPartner(
+      tenantPartner.id!,
+    );
   }
 
   async generateCredentialsTokenA(
@@ -0,0 +1,212 @@
+// SPDX-FileCopyrightText: 2025 Contributors to the CitrineOS Project
+//
+// SPDX-License-Identifier: Apache-2.0
+
+import {
+  ConnectorPowerType,
+  ConnectorTypeEnum,
+  IChargingStationDto,
+  IEvseDto,
+  ITenantPartnerDto,
+} from '@citrineos/base';
+import { ILogObj, Logger } from 'tslog';
+import { Inject, InjectMany, Service } from 'typedi';
+import { OcpiConfig, OcpiConfigToken } from '../config/ocpi.types';
+import { OcpiGraphqlClient } from '../graphql/OcpiGraphqlClient';
+import {
+  GetLocationsQueryResult,
+  GetLocationsQueryVariables,
+  GetTokenConnectorHistoryQueryResult,
+  GetTokenConnectorHistoryQueryVariables,
+} from '../graphql/operations';
+import { GET_LOCATIONS_QUERY } from '../graphql/queries/location.queries';
+import { GET_TOKEN_CONNECTOR_HISTORY_QUERY } from '../graphql/queries/transaction.queries';
+import { TokensMapper } from '../mapper/TokensMapper';
+import { ConnectorMapper, EvseMapper } from '../mapper/LocationMapper';
+import { EvseStatus } from '../model/EvseStatus';
+import { StartSession } from '../model/StartSession';
+import {
+  ConnectorUsage,
+  EVSE_SELECTION_POLICY,
+  EvseCandidate,
+  EvseSelection,
+  EvseSelectionPolicy,
+} from '../util/evseSelection';
+
+const DEFAULT_POLICY = 'PREFERRED';
+const TOKEN_HISTORY_LIMIT = 20;
+
+/**
+ * Statuses of an EVSE a session can be started on. UNKNOWN is kept as the station may just not
+ * have reported the status of its connectors yet.
+ */
+const STARTABLE_STATUSES = [EvseStatus.AVAILABLE, EvseStatus.UNKNOWN];
+
+/**
+ * Picks the EVSE of a location a StartSession without evse_uid is sent to, using the policy
+ * configured for the tenant.
+ */
+@Service()
+export class EvseSelectionService {
+  private readonly policies = new Map<string, EvseSelectionPolicy>();
+
+  constructor(
+    private readonly logger: Logger<ILogObj>,
+    @Inject(OcpiConfigToken) private readonly config: OcpiConfig,
+    private readonly ocpiGraphqlClient: OcpiGraphqlClient,
+    @InjectMany(EVSE_SELECTION_POLICY) policies: EvseSelectionPolicy[],
+  ) {
+    policies.forEach((policy) => this.policies.set(policy.name, policy));
+  }
+
+  /**
+   * @returns The EVSE and connector to start the session on, undefined when the location is not
+   * published to the partner or no EVSE of the location is online and free.
+   */
+  async selectEvse(
+    startSession: StartSession,
+    tenantPartner: ITenantPartnerDto,
+  ): Promise<EvseSelection | undefined> {
+    const policy = this.getPolicy(tenantPartner.tenant!.id!);
+    const candidates = await this.getCandidates(
+      Number(startSession.location_id),
+      tenantPartner,
+    );
+    if (candidates.length === 0) {
+      return undefined;
+    }
+    const tokenHistory = await this.getTokenHistory(
+      startSession,
+      tenantPartner,
+    );
+    const selection = policy.selectEvse(candidates, {
+      startSession,
+      tenantPartner,
+      tokenHistory,
+    });
+    this.logger.debug('EVSE selected for StartSession', {
+      policy: policy.name,
+      locationId: startSession.location_id,
+      evseUid: selection?.evse.uid,
+      connectorId: selection?.connector.id,
+    });
+    return selection;
+  }
+
+  private getPolicy(tenantId: number): EvseSelectionPolicy {
+    const evseSelection = this.config.commands.evseSelection;
+    const name =
+      evseSelection?.tenantPolicies?.[tenantId.toString()] ??
+      evseSelection?.defaultPolicy ??
+      DEFAULT_POLICY;
+    const policy = this.policies.get(name);
+    if (policy) {
+      return policy;
+    }
+    this.logger.warn(`Unknown EVSE selection policy ${name}, using default`, {
+      tenantId,
+    });
+    return this.policies.get(DEFAULT_POLICY)!;
+  }
+
+  /**
+   * Online EVSEs of the location that a session can be started on. The location must belong to
+   * the tenant of the partner and be published to it, as in the Locations module.
+   */
+  private async getCandidates(
+    locationId: number,
+    tenantPartner: ITenantPartnerDto,
+  ): Promise<EvseCandidate[]> {
+    const response = await this.ocpiGraphqlClient.request<
+      GetLocationsQueryResult,
+      GetLocationsQueryVariables
+    >(GET_LOCATIONS_QUERY, {
+      limit: 1,
+      offset: 0,
+      where: {
+        id: { _eq: locationId },
+        Tenant: { TenantPartners: { id: { _eq: tenantPartner.id } } },
+        _or: [
+          {
+            TenantPartnerLocations: {
+              tenantPartnerId: { _eq: tenantPartner.id },
+            },
+          },
+          {
+            Tenant: {
+              TenantPartners: {
+                id: { _eq: tenantPartner.id },
+                publishAllLocations: { _eq: true },
+              },
+            },
+          },
+        ],
+      },
+    });
+    const location = response.Locations[0];
+    if (!location) {
+      this.logger.warn('Location of StartSession not published to partner', {
+        locationId,
+        tenantPartnerId: tenantPartner.id,
+      });
+      return [];
+    }
+    const chargingStations = (location.chargingPool ??
+      []) as IChargingStationDto[];
+
+    const candidates: EvseCandidate[] = [];
+    for (const chargingStation of chargingStations) {
+      if (!chargingStation.isOnline) {
+        continue;
+      }
+      for (const evse of Array.from(chargingStation.evses ?? [])) {
+        if ((evse as IEvseDto & { removed?: boolean | null }).removed) {
+          continue;
+        }
+        const evseDto = EvseMapper.fromGraphql(chargingStation, evse);
+        if (
+          evseDto &&
+          evseDto.connectors.length > 0 &&
+          STARTABLE_STATUSES.includes(evseDto.status)
+        ) {
+          candidates.push({ chargingStation, evse: evseDto });
+        }
+      }
+    }
+    return candidates;
+  }
+
+  private async getTokenHistory(
+    startSession: StartSession,
+    tenantPartner: ITenantPartnerDto,
+  ): Promise<ConnectorUsage[]> {
+    const response = await this.ocpiGraphqlClient.request<
+      GetTokenConnectorHistoryQueryResult,
+      GetTokenConnectorHistoryQueryVariables
+    >(GET_TOKEN_CONNECTOR_HISTORY_QUERY, {
+      tenantPartnerId: tenantPartner.id!,
+      idToken: TokensMapper.normalizeToken(startSession.token.uid) || '',
+      limit: TOKEN_HISTORY_LIMIT,
+    });
+    const usages: ConnectorUsage[] = [];
+    for (const { connector } of response.Transactions) {
+      if (!connector?.type || !connector.powerType) {
+        continue;
+      }
+      const standard = ConnectorMapper.mapConnectorType(
+        connector.type as ConnectorTypeEnum,
+      );
+      const powerType = ConnectorMapper.mapConnectorPowerType(
+        connector.powerType as ConnectorPowerType,
+      );
+      if (standard && powerType) {
+        usages.push({
+          standard,
+          power_type: powerType,
+          max_electric_power: connector.maximumPowerWatts,
+        });
+      }
+    }
+    return usages;
+  }
+}
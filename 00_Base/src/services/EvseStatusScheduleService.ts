@@ -0,0 +1,394 @@
+// SPDX-FileCopyrightText: 2025 Contributors to the CitrineOS Project
+//
+// SPDX-License-Identifier: Apache-2.0
+
+import {
+  IChargingStationDto,
+  IConnectorDto,
+  ITenantDto,
+} from '@citrineos/base';
+import { ILogObj, Logger } from 'tslog';
+import { Inject, Service } from 'typedi';
+import { LocationsBroadcaster } from '../broadcaster/LocationsBroadcaster';
+import { OcpiConfig, OcpiConfigToken } from '../config/ocpi.types';
+import { InvalidParamException } from '../exception/InvalidParamException';
+import { NotFoundException } from '../exception/NotFoundException';
+import { OcpiGraphqlClient } from '../graphql/OcpiGraphqlClient';
+import {
+  DeleteEvseStatusScheduleMutationResult,
+  DeleteEvseStatusScheduleMutationVariables,
+  EvseStatusScheduleRecord,
+  GetDueEvseStatusSchedulesQueryResult,
+  GetDueEvseStatusSchedulesQueryVariables,
+  GetEvseForStatusScheduleQueryResult,
+  GetEvseForStatusScheduleQueryVariables,
+  GetEvseStatusSchedulesQueryResult,
+  GetEvseStatusSchedulesQueryVariables,
+  InsertEvseStatusScheduleMutationResult,
+  InsertEvseStatusScheduleMutationVariables,
+  UpdateEvseStatusScheduleMutationResult,
+  UpdateEvseStatusScheduleMutationVariables,
+} from '../graphql/operations';
+import {
+  DELETE_EVSE_STATUS_SCHEDULE_MUTATION,
+  GET_DUE_EVSE_STATUS_SCHEDULES_QUERY,
+  GET_EVSE_FOR_STATUS_SCHEDULE_QUERY,
+  GET_EVSE_STATUS_SCHEDULES_QUERY,
+  INSERT_EVSE_STATUS_SCHEDULE_MUTATION,
+  UPDATE_EVSE_STATUS_SCHEDULE_MUTATION,
+} from '../graphql/queries/evseStatusSchedule.queries';
+import { EvseMapper } from '../mapper/LocationMapper';
+import {
+  AdminEvseStatusScheduleDTO,
+  AdminEvseStatusScheduleRequest,
+} from '../model/DTO/admin/AdminEvseStatusScheduleDTO';
+import { EvseDTO, UID_FORMAT } from '../model/DTO/EvseDTO';
+import { EvseStatus } from '../model/EvseStatus';
+import { CommandExecutor } from '../util/CommandExecutor';
+
+const DEFAULT_POLL_INTERVAL_SECONDS = 60;
+const DUE_SCHEDULES_LIMIT = 100;
+
+type ScheduledEvse = NonNullable<
+  GetEvseForStatusScheduleQueryResult['Evses_by_pk']
+>;
+type OpenSchedule = ScheduledEvse['statusSchedules'][number];
+
+/**
+ * Planned periods an EVSE is not available, e.g. maintenance windows. Periods that have not ended
+ * are published in the status_schedule of the EVSE, and the status of the period in progress
+ * replaces the one derived from the connectors. A background worker pushes the EVSE status when a
+ * period starts and ends, and changes the availability of the EVSE at the station for periods
+ * created with change_availability.
+ */
+@Service()
+export class EvseStatusScheduleService {
+  private readonly synchronizations = new Map<number, Promise<void>>();
+  private pollTimer?: NodeJS.Timeout;
+
+  constructor(
+    private readonly logger: Logger<ILogObj>,
+    @Inject(OcpiConfigToken) private readonly config: OcpiConfig,
+    private readonly ocpiGraphqlClient: OcpiGraphqlClient,
+    private readonly locationsBroadcaster: LocationsBroadcaster,
+    private readonly commandExecutor: CommandExecutor,
+  ) {}
+
+  /**
+   * Starts the background worker that applies the start and end of planned periods.
+   */
+  start(): void {
+    if (this.pollTimer) {
+      return;
+    }
+    const intervalSeconds =
+      this.config.evseStatusSchedules?.pollIntervalSeconds ??
+      DEFAULT_POLL_INTERVAL_SECONDS;
+    this.pollTimer = setInterval(() => {
+      this.processDueSchedules().catch((e) =>
+        this.logger.error('EVSE status schedule poll failed', e),
+      );
+    }, intervalSeconds * 1000);
+  }
+
+  stop(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = undefined;
+    }
+  }
+
+  async getSchedules(evseId: number): Promise<AdminEvseStatusScheduleDTO[]> {
+    await this.getEvse(evseId);
+    const response = await this.ocpiGraphqlClient.request<
+      GetEvseStatusSchedulesQueryResult,
+      GetEvseStatusSchedulesQueryVariables
+    >(GET_EVSE_STATUS_SCHEDULES_QUERY, { evseId });
+    return response.EvseStatusSchedules.map((schedule) => this.toDto(schedule));
+  }
+
+  /**
+   * Plans a period and pushes the new status_schedule of the EVSE. A period that has already begun
+   * is applied right away.
+   */
+  async createSchedule(
+    evseId: number,
+    request: AdminEvseStatusScheduleRequest,
+  ): Promise<AdminEvseStatusScheduleDTO> {
+    const periodBegin = request.period_begin;
+    const periodEnd = request.period_end ?? undefined;
+    if (periodEnd && periodEnd <= periodBegin) {
+      throw new InvalidParamException('period_end must be after period_begin');
+    }
+    if (periodEnd && periodEnd <= new Date()) {
+      throw new InvalidParamException('period_end must be in the future');
+    }
+    await this.getEvse(evseId);
+    const now = new Date().toISOString();
+    const response = await this.ocpiGraphqlClient.request<
+      InsertEvseStatusScheduleMutationResult,
+      InsertEvseStatusScheduleMutationVariables
+    >(INSERT_EVSE_STATUS_SCHEDULE_MUTATION, {
+      object: {
+        evseId,
+        status: request.status,
+        periodBegin: periodBegin.toISOString(),
+        periodEnd: periodEnd?.toISOString() ?? null,
+        changeAvailability: request.change_availability ?? false,
+        createdAt: now,
+        updatedAt: now,
+      },
+    });
+    const schedule = response.insert_EvseStatusSchedules_one;
+    if (!schedule) {
+      throw new Error(`Failed to create status schedule for EVSE ${evseId}`);
+    }
+    this.logger.info(
+      `Planned ${schedule.status} from ${schedule.periodBegin} for EVSE ${evseId}`,
+    );
+    await this.synchronize(evseId, true);
+    return this.toDto(schedule);
+  }
+
+  /**
+   * Removes a period. When it is in progress, the EVSE gets back the status derived from its
+   * connectors and is made operative again if the period changed its availability.
+   */
+  async deleteSchedule(
+    evseId: number,
+    scheduleId: number,
+  ): Promise<AdminEvseStatusScheduleDTO> {
+    const schedules = await this.getSchedules(evseId);
+    const schedule = schedules.find((schedule) => schedule.id === scheduleId);
+    if (!schedule) {
+      throw new NotFoundException(
+        `Status schedule ${scheduleId} not found for EVSE ${evseId}`,
+      );
+    }
+    const evse = await this.getEvse(evseId);
+    const openSchedule = evse.statusSchedules.find(
+      (schedule) => schedule.id === scheduleId,
+    );
+    await this.ocpiGraphqlClient.request<
+      DeleteEvseStatusScheduleMutationResult,
+      DeleteEvseStatusScheduleMutationVariables
+    >(DELETE_EVSE_STATUS_SCHEDULE_MUTATION, { id: scheduleId });
+    this.logger.info(`Removed status schedule ${scheduleId} of EVSE ${evseId}`);
+    await this.synchronize(
+      evseId,
+      openSchedule !== undefined,
+      openSchedule?.startedAt ? openSchedule : undefined,
+    );
+    return schedule;
+  }
+
+  /**
+   * Status of the planned period in progress for the EVSE, which takes precedence over the live
+   * status of its connectors.
+   */
+  async getScheduledStatus(evseId: number): Promise<EvseStatus | undefined> {
+    const response = await this.ocpiGraphqlClient.request<
+      GetEvseForStatusScheduleQueryResult,
+      GetEvseForStatusScheduleQueryVariables
+    >(GET_EVSE_FOR_STATUS_SCHEDULE_QUERY, { id: evseId });
+    return EvseMapper.getScheduledStatus(response.Evses_by_pk?.statusSchedules);
+  }
+
+  private async processDueSchedules(): Promise<void> {
+    const response = await this.ocpiGraphqlClient.request<
+      GetDueEvseStatusSchedulesQueryResult,
+      GetDueEvseStatusSchedulesQueryVariables
+    >(GET_DUE_EVSE_STATUS_SCHEDULES_QUERY, {
+      now: new Date().toISOString(),
+      limit: DUE_SCHEDULES_LIMIT,
+    });
+    const evseIds = new Set(
+      response.EvseStatusSchedules.map((schedule) => schedule.evseId),
+    );
+    for (const evseId of evseIds) {
+      try {
+        await this.synchronize(evseId, false);
+      } catch (e) {
+        this.logger.error(
+          `Failed to apply status schedules of EVSE ${evseId}`,
+          e,
+        );
+      }
+    }
+  }
+
+  /**
+   * Applies the start and end of the due periods of an EVSE, one run at a time per EVSE.
+   * @param changed - Push the EVSE even when no period started or ended, e.g. after an edit.
+   * @param removed - Period in progress that was deleted, ended as if its period_end was reached.
+   */
+  private synchronize(
+    evseId: number,
+    changed: boolean,
+    removed?: OpenSchedule,
+  ): Promise<void> {
+    const previous = this.synchronizations.get(evseId) ?? Promise.resolve();
+    const next = previous
+      .catch(() => undefined)
+      .then(() => this.applySchedules(evseId, changed, removed));
+    this.synchronizations.set(evseId, next);
+    return next.finally(() => {
+      if (this.synchronizations.get(evseId) === next) {
+        this.synchronizations.delete(evseId);
+      }
+    });
+  }
+
+  private async applySchedules(
+    evseId: number,
+    changed: boolean,
+    removed?: OpenSchedule,
+  ): Promise<void> {
+    const evse = await this.getEvse(evseId);
+    const now = new Date();
+    const started: OpenSchedule[] = [];
+    const ended: OpenSchedule[] = removed ? [removed] : [];
+    for (const schedule of evse.statusSchedules) {
+      if (schedule.periodEnd && new Date(schedule.periodEnd) <= now) {
+        ended.push(schedule);
+      } else if (!schedule.startedAt && new Date(schedule.periodBegin) <= now) {
+        started.push(schedule);
+      }
+    }
+    if (!changed && started.length === 0 && ended.length === 0) {
+      return;
+    }
+
+    const open = evse.statusSchedules.filter(
+      (schedule) => !ended.includes(schedule),
+    );
+    const active = open.filter(
+      (schedule) => new Date(schedule.periodBegin) <= now,
+    );
+    const chargingStation = evse.chargingStation;
+    if (chargingStation?.locationId) {
+      const patch: Partial<EvseDTO> = {
+        status:
+          EvseMapper.getScheduledStatus(open, now) ??
+          EvseMapper.mapEvseStatusFromConnectors(
+            evse.connectors as IConnectorDto[],
+          ),
+        status_schedule: EvseMapper.mapStatusSchedule(open, now),
+        last_updated: now.toISOString(),
+      };
+      await this.locationsBroadcaster.broadcastPatchEvseAttributes(
+        {
+          countryCode: chargingStation.tenant.countryCode,
+          partyId: chargingStation.tenant.partyId,
+        } as ITenantDto,
+        chargingStation.locationId,
+        UID_FORMAT(chargingStation.id, evse.id),
+        patch,
+      );
+    } else {
+      this.logger.warn(
+        `EVSE ${evseId} is not part of a location, status not pushed`,
+      );
+    }
+
+    // The station is only made operative again once no active period changes its availability
+    const wasInoperative = evse.statusSchedules.some(
+      (schedule) =>
+        schedule.changeAvailability &&
+        schedule.startedAt &&
+        !ended.includes(schedule),
+    );
+    const inoperative = active.some((schedule) => schedule.changeAvailability);
+    const endedInoperative = ended.some(
+      (schedule) => schedule.changeAvailability && schedule.startedAt,
+    );
+    if (inoperative && !wasInoperative) {
+      await this.changeAvailability(evse, false);
+    } else if (!inoperative && !wasInoperative && endedInoperative) {
+      await this.changeAvailability(evse, true);
+    }
+
+    const timestamp = now.toISOString();
+    for (const schedule of started) {
+      await this.updateSchedule(schedule.id, {
+        startedAt: timestamp,
+        updatedAt: timestamp,
+      });
+    }
+    for (const schedule of ended) {
+      if (schedule === removed) {
+        continue;
+      }
+      await this.updateSchedule(schedule.id, {
+        startedAt: schedule.startedAt ?? timestamp,
+        endedAt: timestamp,
+        updatedAt: timestamp,
+      });
+    }
+  }
+
+  private async changeAvailability(
+    evse: ScheduledEvse,
+    operative: boolean,
+  ): Promise<void> {
+    const chargingStation = evse.chargingStation;
+    if (!chargingStation) {
+      return;
+    }
+    const accepted = await this.commandExecutor.executeChangeAvailability(
+      chargingStation.tenantId,
+      {
+        id: chargingStation.id,
+        protocol: chargingStation.protocol,
+        evses: [{ id: evse.id, evseTypeId: evse.evseTypeId }],
+        connectors: evse.connectors.map((connector) => ({
+          ...connector,
+          evseId: evse.id,
+        })),
+      } as IChargingStationDto,
+      evse.id,
+      operative,
+    );
+    if (!accepted) {
+      this.logger.warn(
+        `ChangeAvailability to ${operative ? 'Operative' : 'Inoperative'} not accepted for EVSE ${evse.id}`,
+      );
+    }
+  }
+
+  private async updateSchedule(
+    id: number,
+    set: UpdateEvseStatusScheduleMutationVariables['set'],
+  ): Promise<void> {
+    await this.ocpiGraphqlClient.request<
+      UpdateEvseStatusScheduleMutationResult,
+      UpdateEvseStatusScheduleMutationVariables
+    >(UPDATE_EVSE_STATUS_SCHEDULE_MUTATION, { id, set });
+  }
+
+  private async getEvse(evseId: number): Promise<ScheduledEvse> {
+    const response = await this.ocpiGraphqlClient.request<
+      GetEvseForStatusScheduleQueryResult,
+      GetEvseForStatusScheduleQueryVariables
+    >(GET_EVSE_FOR_STATUS_SCHEDULE_QUERY, { id: evseId });
+    if (!response.Evses_by_pk) {
+      throw new NotFoundException(`EVSE ${evseId} not found`);
+    }
+    return response.Evses_by_pk;
+  }
+
+  private toDto(
+    schedule: EvseStatusScheduleRecord,
+  ): AdminEvseStatusScheduleDTO {
+    return {
+      id: schedule.id,
+      evse_id: schedule.evseId,
+      status: schedule.status as AdminEvseStatusScheduleDTO['status'],
+      period_begin: new Date(schedule.periodBegin),
+      period_end: schedule.periodEnd ? new Date(schedule.periodEnd) : null,
+      change_availability: schedule.changeAvailability,
+      started_at: schedule.startedAt ? new Date(schedule.startedAt) : null,
+      ended_at: schedule.endedAt ? new Date(schedule.endedAt) : null,
+    };
+  }
+}
@@ -0,0 +1,140 @@
+// SPDX-FileCopyrightText: 2025 Contributors to the CitrineOS Project
+//
+// SPDX-License-Identifier: Apache-2.0
+
+import { ITenantPartnerDto } from '@citrineos/base';
+import { Service } from 'typedi';
+import { OcpiGraphqlClient } from '../graphql/OcpiGraphqlClient';
+import {
+  GetHubClientInfosQueryResult,
+  GetHubClientInfosQueryVariables,
+  HubClientInfos_Bool_Exp,
+  UpsertHubClientInfoMutationResult,
+  UpsertHubClientInfoMutationVariables,
+} from '../graphql/operations';
+import {
+  GET_HUB_CLIENT_INFOS_QUERY,
+  UPSERT_HUB_CLIENT_INFO_MUTATION,
+} from '../graphql/queries/hubClientInfo.queries';
+import { ClientInfo } from '../model/ClientInfo';
+import { ConnectionStatus } from '../model/ConnectionStatus';
+import { Role } from '../model/Role';
+import { toISOStringIfNeeded } from '../util/DateTimeHelper';
+import { TenantPartnerTokenResolver } from './TenantPartnerTokenResolver';
+
+/**
+ * Party a push is addressed to, i.e. the values of the OCPI-to-country-code and OCPI-to-party-id
+ * routing headers.
+ */
+export interface OcpiParty {
+  countryCode: string;
+  partyId: string;
+}
+
+// Roles that receive the CPO's locations and tariffs through a hub
+const BROADCAST_ROLES: string[] = [
+  Role.EMSP,
+  Role.NAP,
+  Role.NSP,
+  Role.OTHER,
+  Role.SCSP,
+];
+
+/**
+ * Keeps track of the parties connected to a hub partner, as pushed by the hub through its
+ * hubclientinfo module, so that pushes to the hub can be addressed to each of them.
+ */
+@Service()
+export class HubClientInfoService {
+  constructor(
+    private readonly ocpiGraphqlClient: OcpiGraphqlClient,
+    private readonly tenantPartnerTokenResolver: TenantPartnerTokenResolver,
+  ) {}
+
+  async getClientInfo(
+    hubPartner: ITenantPartnerDto,
+    countryCode: string,
+    partyId: string,
+  ): Promise<ClientInfo | undefined> {
+    const clientInfos = await this.getClientInfos({
+      tenantPartnerId: { _eq: hubPartner.id! },
+      countryCode: { _eq: countryCode },
+      partyId: { _eq: partyId },
+    });
+    return clientInfos[0];
+  }
+
+  async putClientInfo(
+    hubPartner: ITenantPartnerDto,
+    clientInfo: ClientInfo,
+  ): Promise<void> {
+    const now = new Date().toISOString();
+    await this.ocpiGraphqlClient.request<
+      UpsertHubClientInfoMutationResult,
+      UpsertHubClientInfoMutationVariables
+    >(UPSERT_HUB_CLIENT_INFO_MUTATION, {
+      object: {
+        tenantPartnerId: hubPartner.id!,
+        countryCode: clientInfo.country_code,
+        partyId: clientInfo.party_id,
+        role: clientInfo.role,
+        status: clientInfo.status,
+        lastUpdated: new Date(clientInfo.last_updated).toISOString(),
+        createdAt: now,
+        updatedAt: now,
+      },
+    });
+    await this.tenantPartnerTokenResolver.invalidateHubClients(hubPartner.id!);
+  }
+
+  /**
+   * Returns the parties a broadcast to the partner has to be addressed to. A partner that never
+   * pushed client info is not a hub and receives the push itself. A hub receives one push per
+   * connected party that takes locations and tariffs.
+   */
+  async getBroadcastRecipients(
+    partner: ITenantPartnerDto,
+  ): Promise<OcpiParty[]> {
+    const clientInfos = await this.getClientInfos({
+      tenantPartnerId: { _eq: partner.id! },
+    });
+    if (clientInfos.length === 0) {
+      return [{ countryCode: partner.countryCode!, partyId: partner.partyId! }];
+    }
+    const recipients = clientInfos
+      .filter(
+        (clientInfo) =>
+          clientInfo.status === ConnectionStatus.CONNECTED &&
+          BROADCAST_ROLES.includes(clientInfo.role),
+      )
+      .map((clientInfo) => ({
+        countryCode: clientInfo.country_code,
+        partyId: clientInfo.party_id,
+      }));
+    // A party with several roles receives the push once
+    return recipients.filter(
+      (recipient, index) =>
+        recipients.findIndex(
+          (other) =>
+            other.countryCode === recipient.countryCode &&
+            other.partyId === recipient.partyId,
+        ) === index,
+    );
+  }
+
+  private async getClientInfos(
+    where: HubClientInfos_Bool_Exp,
+  ): Promise<ClientInfo[]> {
+    const response = await this.ocpiGraphqlClient.request<
+      GetHubClientInfosQueryResult,
+      GetHubClientInfosQueryVariables
+    >(GET_HUB_CLIENT_INFOS_QUERY, { where });
+    return response.HubClientInfos.map((hubClientInfo) => ({
+      country_code: hubClientInfo.countryCode,
+      party_id: hubClientInfo.partyId,
+      role: hubClientInfo.role as Role,
+      status: hubClientInfo.status as ConnectionStatus,
+      last_updated: toISOStringIfNeeded(hubClientInfo.lastUpdated, true),
+    }));
+  }
+}
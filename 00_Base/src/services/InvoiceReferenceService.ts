@@ -0,0 +1,73 @@
+// SPDX-FileCopyrightText: 2025 Contributors to the CitrineOS Project
+//
+// SPDX-License-Identifier: Apache-2.0
+
+import { ITenantDto } from '@citrineos/base';
+import { Inject, Service } from 'typedi';
+import { OcpiConfig, OcpiConfigToken } from '../config/ocpi.types';
+import { OcpiGraphqlClient } from '../graphql/OcpiGraphqlClient';
+import {
+  NextInvoiceReferenceSequenceMutationResult,
+  NextInvoiceReferenceSequenceMutationVariables,
+} from '../graphql/operations';
+import { NEXT_INVOICE_REFERENCE_SEQUENCE_MUTATION } from '../graphql/queries/invoiceReferenceSequence.queries';
+
+const DEFAULT_FORMAT = '{countryCode}{partyId}-{year}-{sequence}';
+const SEQUENCE_LENGTH = 6;
+// Maximum length of CDR.invoice_reference_id
+const MAX_INVOICE_REFERENCE_LENGTH = 39;
+
+/**
+ * Generates invoice references for issued CDRs from the configured format of the tenant, using a
+ * sequence that is counted per tenant.
+ */
+@Service()
+export class InvoiceReferenceService {
+  constructor(
+    @Inject(OcpiConfigToken) private readonly config: OcpiConfig,
+    private readonly ocpiGraphqlClient: OcpiGraphqlClient,
+  ) {}
+
+  async generate(
+    tenant: Pick<ITenantDto, 'id' | 'countryCode' | 'partyId'>,
+    now: Date = new Date(),
+  ): Promise<string> {
+    const result = await this.ocpiGraphqlClient.request<
+      NextInvoiceReferenceSequenceMutationResult,
+      NextInvoiceReferenceSequenceMutationVariables
+    >(NEXT_INVOICE_REFERENCE_SEQUENCE_MUTATION, {
+      tenantId: tenant.id!,
+      now: now.toISOString(),
+    });
+    const sequence = result.update_InvoiceReferenceSequences_by_pk?.lastValue;
+    if (sequence === undefined) {
+      throw new Error(
+        `Failed to increment invoice reference sequence of tenant ${tenant.id}`,
+      );
+    }
+
+    const invoiceReference = this.getFormat(tenant.id!)
+      .replace('{countryCode}', tenant.countryCode ?? '')
+      .replace('{partyId}', tenant.partyId ?? '')
+      .replace('{year}', now.getUTCFullYear().toString())
+      .replace(
+        '{sequence}',
+        sequence.toString().padStart(SEQUENCE_LENGTH, '0'),
+      );
+    if (invoiceReference.length > MAX_INVOICE_REFERENCE_LENGTH) {
+      throw new Error(
+        `Invoice reference ${invoiceReference} exceeds ${MAX_INVOICE_REFERENCE_LENGTH} characters`,
+      );
+    }
+    return invoiceReference;
+  }
+
+  private getFormat(tenantId: number): string {
+    const invoiceReferences = this.config.invoiceReferences;
+    return (
+      invoiceReferences?.tenantFormats?.[tenantId.toString()] ??
+      invoiceReferences?.format ??
+      DEFAULT_FORMAT
+    );
+  }
+}
@@ -0,0 +1,508 @@
+// SPDX-FileCopyrightText: 2025 Contributors to the CitrineOS Project
+//
+// SPDX-License-Identifier: Apache-2.0
+
+import { HttpMethod, ITenantPartnerDto } from '@citrineos/base';
+import { ILogObj, Logger } from 'tslog';
+import { Service } from 'typedi';
+import { NotFoundException } from '../exception/NotFoundException';
+import { OcpiGraphqlClient } from '../graphql/OcpiGraphqlClient';
+import {
+  DeleteLocationGroupMutationResult,
+  DeleteLocationGroupMutationVariables,
+  DeleteTenantPartnerLocationsMutationResult,
+  DeleteTenantPartnerLocationsMutationVariables,
+  GetLocationGroupsQueryResult,
+  GetLocationGroupsQueryVariables,
+  GetLocationPublicationQueryResult,
+  GetLocationPublicationQueryVariables,
+  GetTenantLocationIdsQueryResult,
+  GetTenantLocationIdsQueryVariables,
+  GetTenantPartnerByIdQueryResult,
+  GetTenantPartnerByIdQueryVariables,
+  GetTenantPartnerLocationPushesQueryResult,
+  GetTenantPartnerLocationPushesQueryVariables,
+  GetUnlinkedLocationIdsQueryResult,
+  GetUnlinkedLocationIdsQueryVariables,
+  InsertLocationGroupMutationResult,
+  InsertLocationGroupMutationVariables,
+  LocationGroups_Bool_Exp,
+  TenantPartnerLocationPushes_Bool_Exp,
+  UpdateLocationGroupMutationResult,
+  UpdateLocationGroupMutationVariables,
+  UpdateTenantPartnerPublishAllLocationsMutationResult,
+  UpdateTenantPartnerPublishAllLocationsMutationVariables,
+  UpsertTenantPartnerLocationsMutationResult,
+  UpsertTenantPartnerLocationsMutationVariables,
+} from '../graphql/operations';
+import {
+  DELETE_LOCATION_GROUP_MUTATION,
+  DELETE_TENANT_PARTNER_LOCATIONS_MUTATION,
+  GET_LOCATION_GROUPS_QUERY,
+  GET_LOCATION_PUBLICATION_QUERY,
+  GET_TENANT_LOCATION_IDS_QUERY,
+  GET_TENANT_PARTNER_LOCATION_PUSHES_QUERY,
+  GET_UNLINKED_LOCATION_IDS_QUERY,
+  INSERT_LOCATION_GROUP_MUTATION,
+  UPDATE_LOCATION_GROUP_MUTATION,
+  UPDATE_TENANT_PARTNER_PUBLISH_ALL_LOCATIONS_MUTATION,
+  UPSERT_TENANT_PARTNER_LOCATIONS_MUTATION,
+} from '../graphql/queries/locationPublication.queries';
+import { GET_TENANT_PARTNER_BY_ID } from '../graphql/queries/tenantPartner.queries';
+import { LocationDTO } from '../model/DTO/LocationDTO';
+import { EvseStatus } from '../model/EvseStatus';
+import {
+  LocationGroup,
+  LocationGroupRequest,
+  LocationPublication,
+  LocationPush,
+  LocationPushListResponse,
+} from '../model/LocationPublication';
+import { ModuleId } from '../model/ModuleId';
+import { DEFAULT_LIMIT, DEFAULT_OFFSET } from '../model/PaginatedResponse';
+import { LocationsService } from './LocationsService';
+import { OutboxService } from './OutboxService';
+
+/**
+ * Manages which locations are published to an eMSP partner. A location is published to a partner
+ * when it is linked to it through TenantPartnerLocations, or when the partner publishes all
+ * locations of the tenant. Publishing pushes the full location to the partner, unpublishing pushes
+ * it with all its EVSEs REMOVED, as OCPI has no way to delete a location. Locations can be
+ * published and unpublished one by one or as the location groups of the tenant they belong to.
+ *
+ * The pushes are enqueued in the background, so that publishing many locations does not hold the
+ * request until every location has been read and enqueued.
+ */
+@Service()
+export class LocationPublicationService {
+  constructor(
+    private readonly logger: Logger<ILogObj>,
+    private readonly ocpiGraphqlClient: OcpiGraphqlClient,
+    private readonly locationsService: LocationsService,
+    private readonly outboxService: OutboxService,
+  ) {}
+
+  async getPublication(tenantPartnerId: number): Promise<LocationPublication> {
+    const response = await this.ocpiGraphqlClient.request<
+      GetLocationPublicationQueryResult,
+      GetLocationPublicationQueryVariables
+    >(GET_LOCATION_PUBLICATION_QUERY, { tenantPartnerId });
+    const tenantPartner = response.TenantPartners_by_pk;
+    if (!tenantPartner) {
+      throw new NotFoundException(`TenantPartner ${tenantPartnerId} not found`);
+    }
+    return {
+      tenantPartnerId,
+      publishAllLocations: tenantPartner.publishAllLocations,
+      locationIds: tenantPartner.TenantPartnerLocations.map(
+        (tenantPartnerLocation) => tenantPartnerLocation.locationId,
+      ),
+    };
+  }
+
+  /**
+   * Links the locations, and the locations of the groups, to the partner and pushes each of them
+   * in full. The locations must belong to the tenant of the partner.
+   */
+  async publish(
+    tenantPartnerId: number,
+    locationIds: number[] = [],
+    locationGroupIds: number[] = [],
+  ): Promise<LocationPublication> {
+    const tenantPartner = await this.getTenantPartner(tenantPartnerId);
+    const publishedLocationIds = await this.getTenantLocationIds(
+      tenantPartner.tenantId!,
+      locationIds,
+      locationGroupIds,
+    );
+    if (publishedLocationIds.length > 0) {
+      const now = new Date().toISOString();
+      await this.ocpiGraphqlClient.request<
+        UpsertTenantPartnerLocationsMutationResult,
+        UpsertTenantPartnerLocationsMutationVariables
+      >(UPSERT_TENANT_PARTNER_LOCATIONS_MUTATION, {
+        objects: publishedLocationIds.map((locationId) => ({
+          tenantPartnerId,
+          locationId,
+          createdAt: now,
+          updatedAt: now,
+        })),
+      });
+    }
+    this.pushLocations(tenantPartner, publishedLocationIds, false);
+    return this.getPublication(tenantPartnerId);
+  }
+
+  /**
+   * Unlinks the locations, and the locations of the groups, from the partner and pushes them with
+   * all their EVSEs REMOVED. Locations the partner still receives because it publishes all
+   * locations are not pushed.
+   */
+  async unpublish(
+    tenantPartnerId: number,
+    locationIds: number[] = [],
+    locationGroupIds: number[] = [],
+  ): Promise<LocationPublication> {
+    const tenantPartner = await this.getTenantPartner(tenantPartnerId);
+    const publication = await this.getPublication(tenantPartnerId);
+    const unpublishedLocationIds = await this.getTenantLocationIds(
+      tenantPartner.tenantId!,
+      locationIds,
+      locationGroupIds,
+    );
+    await this.ocpiGraphqlClient.request<
+      DeleteTenantPartnerLocationsMutationResult,
+      DeleteTenantPartnerLocationsMutationVariables
+    >(DELETE_TENANT_PARTNER_LOCATIONS_MUTATION, {
+      tenantPartnerId,
+      locationIds: unpublishedLocationIds,
+    });
+    if (!publication.publishAllLocations) {
+      this.pushLocations(tenantPartner, unpublishedLocationIds, true);
+    }
+    return this.getPublication(tenantPartnerId);
+  }
+
+  /**
+   * Switches the partner between receiving all locations of the tenant and only the linked ones.
+   * The locations that are not linked to the partner are pushed in full when switching to all
+   * locations, and pushed REMOVED when switching back.
+   */
+  async setPublishAllLocations(
+    tenantPartnerId: number,
+    publishAllLocations: boolean,
+  ): Promise<LocationPublication> {
+    const tenantPartner = await this.getTenantPartner(tenantPartnerId);
+    const publication = await this.getPublication(tenantPartnerId);
+    if (publication.publishAllLocations === publishAllLocations) {
+      return publication;
+    }
+    await this.ocpiGraphqlClient.request<
+      UpdateTenantPartnerPublishAllLocationsMutationResult,
+      UpdateTenantPartnerPublishAllLocationsMutationVariables
+    >(UPDATE_TENANT_PARTNER_PUBLISH_ALL_LOCATIONS_MUTATION, {
+      id: tenantPartnerId,
+      publishAllLocations,
+    });
+    const response = await this.ocpiGraphqlClient.request<
+      GetUnlinkedLocationIdsQueryResult,
+      GetUnlinkedLocationIdsQueryVariables
+    >(GET_UNLINKED_LOCATION_IDS_QUERY, {
+      tenantId: tenantPartner.tenantId!,
+      tenantPartnerId,
+    });
+    this.pushLocations(
+      tenantPartner,
+      response.Locations.map((location) => location.id),
+      !publishAllLocations,
+    );
+    return this.getPublication(tenantPartnerId);
+  }
+
+  async getLocationGroups(tenantId: number): Promise<LocationGroup[]> {
+    return this.findLocationGroups({ tenantId: { _eq: tenantId } });
+  }
+
+  /**
+   * Creates a group of locations of the tenant. Publishing the group publishes the locations it
+   * holds at that time, later changes to the group are not pushed.
+   */
+  async createLocationGroup(
+    tenantId: number,
+    request: LocationGroupRequest,
+  ): Promise<LocationGroup> {
+    const locationIds = await this.getTenantLocationIds(
+      tenantId,
+      request.locationIds,
+    );
+    const now = new Date().toISOString();
+    const response = await this.ocpiGraphqlClient.request<
+      InsertLocationGroupMutationResult,
+      InsertLocationGroupMutationVariables
+    >(INSERT_LOCATION_GROUP_MUTATION, {
+      object: {
+        tenantId,
+        name: request.name,
+        createdAt: now,
+        updatedAt: now,
+        LocationGroupLocations: {
+          data: locationIds.map((locationId) => ({
+            locationId,
+            createdAt: now,
+            updatedAt: now,
+          })),
+        },
+      },
+    });
+    return this.getLocationGroup(
+      tenantId,
+      response.insert_LocationGroups_one!.id,
+    );
+  }
+
+  /**
+   * Renames the group and replaces its locations.
+   */
+  async updateLocationGroup(
+    tenantId: number,
+    locationGroupId: number,
+    request: LocationGroupRequest,
+  ): Promise<LocationGroup> {
+    await this.getLocationGroup(tenantId, locationGroupId);
+    const locationIds = await this.getTenantLocationIds(
+      tenantId,
+      request.locationIds,
+    );
+    const now = new Date().toISOString();
+    await this.ocpiGraphqlClient.request<
+      UpdateLocationGroupMutationResult,
+      UpdateLocationGroupMutationVariables
+    >(UPDATE_LOCATION_GROUP_MUTATION, {
+      id: locationGroupId,
+      name: request.name,
+      updatedAt: now,
+      objects: locationIds.map((locationId) => ({
+        locationGroupId,
+        locationId,
+        createdAt: now,
+        updatedAt: now,
+      })),
+    });
+    return this.getLocationGroup(tenantId, locationGroupId);
+  }
+
+  /**
+   * Deletes the group. The locations stay published to the partners the group was published to.
+   */
+  async deleteLocationGroup(
+    tenantId: number,
+    locationGroupId: number,
+  ): Promise<LocationGroup> {
+    const locationGroup = await this.getLocationGroup(
+      tenantId,
+      locationGroupId,
+    );
+    await this.ocpiGraphqlClient.request<
+      DeleteLocationGroupMutationResult,
+      DeleteLocationGroupMutationVariables
+    >(DELETE_LOCATION_GROUP_MUTATION, { id: locationGroupId });
+    return locationGroup;
+  }
+
+  /**
+   * Lists when each location was last pushed to the partner, most recent first.
+   */
+  async getPushes(
+    tenantPartnerId: number,
+    locationId?: number,
+    offset: number = DEFAULT_OFFSET,
+    limit: number = DEFAULT_LIMIT,
+  ): Promise<LocationPushListResponse> {
+    const where: TenantPartnerLocationPushes_Bool_Exp = {
+      tenantPartnerId: { _eq: tenantPartnerId },
+    };
+    if (locationId !== undefined) {
+      where.locationId = { _eq: locationId };
+    }
+    const response = await this.ocpiGraphqlClient.request<
+      GetTenantPartnerLocationPushesQueryResult,
+      GetTenantPartnerLocationPushesQueryVariables
+    >(GET_TENANT_PARTNER_LOCATION_PUSHES_QUERY, { where, offset, limit });
+    return {
+      data: response.TenantPartnerLocationPushes as LocationPush[],
+      total:
+        response.TenantPartnerLocationPushes_aggregate.aggregate?.count ?? 0,
+      offset,
+      limit,
+    };
+  }
+
+  /**
+   * Reads and enqueues the locations one by one in the background. A location that cannot be read
+   * or enqueued is logged and does not stop the others.
+   */
+  private pushLocations(
+    tenantPartner: ITenantPartnerDto,
+    locationIds: number[],
+    removed: boolean,
+  ): void {
+    this.enqueueLocations(tenantPartner, locationIds, removed).catch((e) =>
+      this.logger.error(
+        `Failed to push Locations to TenantPartner ${tenantPartner.id}`,
+        e,
+      ),
+    );
+  }
+
+  private async enqueueLocations(
+    tenantPartner: ITenantPartnerDto,
+    locationIds: number[],
+    removed: boolean,
+  ): Promise<void> {
+    for (const locationId of locationIds) {
+      try {
+        const response =
+          await this.locationsService.getLocationById(locationId);
+        if (!response.data) {
+          throw new NotFoundException(`Location ${locationId} not found`);
+        }
+        if (removed) {
+          await this.pushRemovedLocation(tenantPartner, response.data);
+        } else {
+          await this.pushLocation(tenantPartner, response.data);
+        }
+      } catch (e) {
+        this.logger.error(
+          `Failed to push Location ${locationId} to TenantPartner ${tenantPartner.id}`,
+          e,
+        );
+      }
+    }
+  }
+
+  private async pushLocation(
+    tenantPartner: ITenantPartnerDto,
+    location: LocationDTO,
+  ): Promise<void> {
+    this.logger.debug(
+      `Publishing Location ${location.id} to TenantPartner ${tenantPartner.id}`,
+    );
+    await this.outboxService.enqueueBroadcast(
+      tenantPartner,
+      ModuleId.Locations,
+      HttpMethod.Put,
+      this.getPath(tenantPartner, location),
+      location,
+    );
+  }
+
+  private async pushRemovedLocation(
+    tenantPartner: ITenantPartnerDto,
+    location: LocationDTO,
+  ): Promise<void> {
+    this.logger.debug(
+      `Unpublishing Location ${location.id} from TenantPartner ${tenantPartner.id}`,
+    );
+    const now = new Date();
+    await this.outboxService.enqueueBroadcast(
+      tenantPartner,
+      ModuleId.Locations,
+      HttpMethod.Put,
+      this.getPath(tenantPartner, location),
+      {
+        ...location,
+        evses: location.evses?.map((evse) => ({
+          ...evse,
+          status: EvseStatus.REMOVED,
+          last_updated: now,
+        })),
+        last_updated: now,
+      },
+    );
+  }
+
+  private getPath(
+    tenantPartner: ITenantPartnerDto,
+    location: LocationDTO,
+  ): string {
+    return `/${tenantPartner.tenant!.countryCode}/${tenantPartner.tenant!.partyId}/${location.id}`;
+  }
+
+  /**
+   * Returns the ids of the locations and of the locations of the groups, failing when any of them
+   * does not belong to the tenant.
+   */
+  private async getTenantLocationIds(
+    tenantId: number,
+    locationIds: number[] = [],
+    locationGroupIds: number[] = [],
+  ): Promise<number[]> {
+    const tenantLocationIds = new Set<number>();
+    if (locationIds.length > 0) {
+      const response = await this.ocpiGraphqlClient.request<
+        GetTenantLocationIdsQueryResult,
+        GetTenantLocationIdsQueryVariables
+      >(GET_TENANT_LOCATION_IDS_QUERY, { tenantId, locationIds });
+      response.Locations.forEach((location) =>
+        tenantLocationIds.add(location.id),
+      );
+      const missingLocationId = locationIds.find(
+        (locationId) => !tenantLocationIds.has(locationId),
+      );
+      if (missingLocationId !== undefined) {
+        throw new NotFoundException(
+          `Location ${missingLocationId} not found for Tenant ${tenantId}`,
+        );
+      }
+    }
+    if (locationGroupIds.length > 0) {
+      const locationGroups = await this.findLocationGroups({
+        tenantId: { _eq: tenantId },
+        id: { _in: locationGroupIds },
+      });
+      const missingLocationGroupId = locationGroupIds.find(
+        (locationGroupId) =>
+          !locationGroups.some(
+            (locationGroup) => locationGroup.id === locationGroupId,
+          ),
+      );
+      if (missingLocationGroupId !== undefined) {
+        throw new NotFoundException(
+          `LocationGroup ${missingLocationGroupId} not found for Tenant ${tenantId}`,
+        );
+      }
+      locationGroups.forEach((locationGroup) =>
+        locationGroup.locationIds.forEach((locationId) =>
+          tenantLocationIds.add(locationId),
+        ),
+      );
+    }
+    return [...tenantLocationIds];
+  }
+
+  private async getLocationGroup(
+    tenantId: number,
+    locationGroupId: number,
+  ): Promise<LocationGroup> {
+    const [locationGroup] = await this.findLocationGroups({
+      tenantId: { _eq: tenantId },
+      id: { _eq: locationGroupId },
+    });
+    if (!locationGroup) {
+      throw new NotFoundException(
+        `LocationGroup ${locationGroupId} not found for Tenant ${tenantId}`,
+      );
+    }
+    return locationGroup;
+  }
+
+  private async findLocationGroups(
+    where: LocationGroups_Bool_Exp,
+  ): Promise<LocationGroup[]> {
+    const response = await this.ocpiGraphqlClient.request<
+      GetLocationGroupsQueryResult,
+      GetLocationGroupsQueryVariables
+    >(GET_LOCATION_GROUPS_QUERY, { where });
+    return response.LocationGroups.map((locationGroup) => ({
+      id: locationGroup.id,
+      tenantId: locationGroup.tenantId,
+      name: locationGroup.name,
+      locationIds: locationGroup.LocationGroupLocations.map(
+        (locationGroupLocation) => locationGroupLocation.locationId,
+      ),
+    }));
+  }
+
+  private async getTenantPartner(
+    tenantPartnerId: number,
+  ): Promise<ITenantPartnerDto> {
+    const response = await this.ocpiGraphqlClient.request<
+      GetTenantPartnerByIdQueryResult,
+      GetTenantPartnerByIdQueryVariables
+    >(GET_TENANT_PARTNER_BY_ID, { id: tenantPartnerId });
+    if (!response.TenantPartners_by_pk) {
+      throw new NotFoundException(`TenantPartner ${tenantPartnerId} not found`);
+    }
+    return response.TenantPartners_by_pk as ITenantPartnerDto;
+  }
+}
@@ -81,9 +81,20 @@ export class LocationsService {
       },
     };
     if (tenantPartnerId) {
-      where.TenantPartnerLocations = {
-        tenantPartnerId: { _eq: tenantPartnerId },
-      };
+      // Locations published to the partner, or all of them when the partner publishes all locations
+      where._or = [
+        {
+          TenantPartnerLocations: { tenantPartnerId: { _eq: tenantPartnerId } },
+        },
+        {
+          Tenant: {
+            TenantPartners: {
+              id: { _eq: tenantPartnerId },
+              publishAllLocations: { _eq: true },
+            },
+          },
+        },
+      ];
     }
     const dateFilters: any = {};
     if (paginatedParams?.dateFrom)
@@ -109,7 +120,7 @@ export class LocationsService {
       response.Locations.map((value) =>
         LocationMapper.fromGraphql(value as ILocationDto),
       ) ?? [];
-    const locationsTotal = locations.length;
+    const locationsTotal = response.Locations_aggregate.aggregate?.count ?? 0;
 
     return buildOcpiPaginatedResponse(
       OcpiResponseStatusCode.GenericSuccessCode,
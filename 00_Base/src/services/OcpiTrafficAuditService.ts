@@ -0,0 +1,333 @@
+// SPDX-FileCopyrightText: 2025 Contributors to the CitrineOS Project
+//
+// SPDX-License-Identifier: Apache-2.0
+
+import { ILogObj, Logger } from 'tslog';
+import { Inject, Service } from 'typedi';
+import { v4 as uuidv4 } from 'uuid';
+import { OcpiConfig, OcpiConfigToken } from '../config/ocpi.types';
+import { NotFoundException } from '../exception/NotFoundException';
+import { OcpiGraphqlClient } from '../graphql/OcpiGraphqlClient';
+import {
+  DeleteOcpiTrafficLogsMutationResult,
+  DeleteOcpiTrafficLogsMutationVariables,
+  GetOcpiTrafficLogQueryResult,
+  GetOcpiTrafficLogQueryVariables,
+  GetTenantPartnerByCpoClientAndModuleIdQueryResult,
+  GetTenantPartnerByCpoClientAndModuleIdQueryVariables,
+  InsertOcpiTrafficLogMutationResult,
+  InsertOcpiTrafficLogMutationVariables,
+  ListOcpiTrafficLogsQueryResult,
+  ListOcpiTrafficLogsQueryVariables,
+  OcpiTrafficLogs_Bool_Exp,
+} from '../graphql/operations';
+import { GET_TENANT_PARTNER_BY_CPO_AND_AND_CLIENT } from '../graphql/queries/tenantPartner.queries';
+import {
+  DELETE_OCPI_TRAFFIC_LOGS_MUTATION,
+  GET_OCPI_TRAFFIC_LOG_QUERY,
+  INSERT_OCPI_TRAFFIC_LOG_MUTATION,
+  LIST_OCPI_TRAFFIC_LOGS_QUERY,
+} from '../graphql/queries/trafficLog.queries';
+import { ModuleId } from '../model/ModuleId';
+import {
+  OcpiTrafficDirection,
+  OcpiTrafficLog,
+  OcpiTrafficLogListResponse,
+} from '../model/OcpiTrafficLog';
+import { DEFAULT_LIMIT, DEFAULT_OFFSET } from '../model/PaginatedResponse';
+
+const DEFAULT_RETENTION_DAYS = 30;
+const DEFAULT_REDACTED_CREDENTIALS_FIELDS = ['token'];
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+const REDACTED = '***';
+
+export interface OcpiTrafficRecord {
+  direction: OcpiTrafficDirection;
+  tenantPartnerId?: number;
+  module?: string;
+  method: string;
+  url: string;
+  fromCountryCode?: string;
+  fromPartyId?: string;
+  toCountryCode?: string;
+  toPartyId?: string;
+  requestId?: string;
+  correlationId?: string;
+  httpStatus?: number;
+  latencyMs: number;
+  requestBody?: unknown;
+  responseBody?: unknown;
+  error?: unknown;
+}
+
+/**
+ * Audit log of the OCPI requests received from and sent to partners. Records are written in the
+ * background so that auditing neither delays nor fails the request, and are deleted once older
+ * than the configured retention.
+ */
+@Service()
+export class OcpiTrafficAuditService {
+  private pruneTimer?: NodeJS.Timeout;
+  // TenantPartner ids of outbound calls by CPO and partner, as the calls only know the parties
+  private readonly tenantPartnerIds = new Map<string, number | undefined>();
+
+  constructor(
+    private readonly logger: Logger<ILogObj>,
+    @Inject(OcpiConfigToken) private readonly config: OcpiConfig,
+    private readonly ocpiGraphqlClient: OcpiGraphqlClient,
+  ) {}
+
+  get enabled(): boolean {
+    return this.config.trafficAudit?.enabled ?? true;
+  }
+
+  /**
+   * Prunes right away and then hourly, also while recording is disabled so that the logs recorded
+   * before are deleted once past the retention.
+   */
+  start(): void {
+    if (this.pruneTimer) {
+      return;
+    }
+    const prune = () =>
+      this.pruneTrafficLogs().catch((e) =>
+        this.logger.error('OCPI traffic log pruning failed', e),
+      );
+    prune();
+    this.pruneTimer = setInterval(prune, PRUNE_INTERVAL_MS);
+  }
+
+  stop(): void {
+    if (this.pruneTimer) {
+      clearInterval(this.pruneTimer);
+      this.pruneTimer = undefined;
+    }
+  }
+
+  /**
+   * Records the request in the background.
+   */
+  record(record: OcpiTrafficRecord): void {
+    if (!this.enabled) {
+      return;
+    }
+    this.insert(record).catch((e) =>
+      this.logger.warn('Failed to record OCPI traffic', {
+        method: record.method,
+        url: record.url,
+        error: e,
+      }),
+    );
+  }
+
+  async getTrafficLog(id: string): Promise<OcpiTrafficLog> {
+    const response = await this.ocpiGraphqlClient.request<
+      GetOcpiTrafficLogQueryResult,
+      GetOcpiTrafficLogQueryVariables
+    >(GET_OCPI_TRAFFIC_LOG_QUERY, { id });
+    if (!response.OcpiTrafficLogs_by_pk) {
+      throw new NotFoundException(`Traffic log ${id} not found`);
+    }
+    return response.OcpiTrafficLogs_by_pk as OcpiTrafficLog;
+  }
+
+  async listTrafficLogs(
+    filter: {
+      tenantPartnerId?: number;
+      module?: string;
+      correlationId?: string;
+      sessionId?: string;
+      from?: Date;
+      to?: Date;
+    },
+    offset: number = DEFAULT_OFFSET,
+    limit: number = DEFAULT_LIMIT,
+  ): Promise<OcpiTrafficLogListResponse> {
+    const where: OcpiTrafficLogs_Bool_Exp = {};
+    if (filter.tenantPartnerId !== undefined) {
+      where.tenantPartnerId = { _eq: filter.tenantPartnerId };
+    }
+    if (filter.module !== undefined) {
+      where.module = { _eq: filter.module };
+    }
+    if (filter.correlationId !== undefined) {
+      where.correlationId = { _eq: filter.correlationId };
+    }
+    if (filter.sessionId !== undefined) {
+      where.sessionId = { _eq: filter.sessionId };
+    }
+    if (filter.from || filter.to) {
+      where.createdAt = {
+        _gte: filter.from?.toISOString(),
+        _lte: filter.to?.toISOString(),
+      };
+    }
+    const response = await this.ocpiGraphqlClient.request<
+      ListOcpiTrafficLogsQueryResult,
+      ListOcpiTrafficLogsQueryVariables
+    >(LIST_OCPI_TRAFFIC_LOGS_QUERY, { where, offset, limit });
+    return {
+      data: response.OcpiTrafficLogs as OcpiTrafficLog[],
+      total: response.OcpiTrafficLogs_aggregate.aggregate?.count ?? 0,
+      offset,
+      limit,
+    };
+  }
+
+  async pruneTrafficLogs(): Promise<number> {
+    const retentionDays =
+      this.config.trafficAudit?.retentionDays ?? DEFAULT_RETENTION_DAYS;
+    const before = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000);
+    const response = await this.ocpiGraphqlClient.request<
+      DeleteOcpiTrafficLogsMutationResult,
+      DeleteOcpiTrafficLogsMutationVariables
+    >(DELETE_OCPI_TRAFFIC_LOGS_MUTATION, { before: before.toISOString() });
+    const deleted = response.delete_OcpiTrafficLogs?.affected_rows ?? 0;
+    if (deleted > 0) {
+      this.logger.debug(`Pruned ${deleted} OCPI traffic logs`);
+    }
+    return deleted;
+  }
+
+  private async insert(record: OcpiTrafficRecord): Promise<void> {
+    const tenantPartnerId =
+      record.tenantPartnerId ??
+      (record.direction === OcpiTrafficDirection.OUTBOUND
+        ? await this.getOutboundTenantPartnerId(record)
+        : undefined);
+    const recordBodies = this.config.trafficAudit?.recordBodies ?? false;
+    await this.ocpiGraphqlClient.request<
+      InsertOcpiTrafficLogMutationResult,
+      InsertOcpiTrafficLogMutationVariables
+    >(INSERT_OCPI_TRAFFIC_LOG_MUTATION, {
+      object: {
+        id: uuidv4(),
+        direction: record.direction,
+        tenantPartnerId: tenantPartnerId ?? null,
+        module: record.module ?? null,
+        method: record.method,
+        url: record.url,
+        fromCountryCode: record.fromCountryCode ?? null,
+        fromPartyId: record.fromPartyId ?? null,
+        toCountryCode: record.toCountryCode ?? null,
+        toPartyId: record.toPartyId ?? null,
+        requestId: record.requestId ?? null,
+        correlationId: record.correlationId ?? null,
+        sessionId: this.getSessionId(record) ?? null,
+        httpStatus: record.httpStatus ?? null,
+        ocpiStatusCode: this.getOcpiStatusCode(record.responseBody) ?? null,
+        latencyMs: Math.round(record.latencyMs),
+        requestBody: recordBodies
+          ? this.redact(record.module, record.requestBody)
+          : null,
+        responseBody: recordBodies
+          ? this.redact(record.module, record.responseBody, true)
+          : null,
+        error: record.error
+          ? record.error instanceof Error
+            ? record.error.message
+            : String(record.error)
+          : null,
+        createdAt: new Date().toISOString(),
+      },
+    });
+  }
+
+  private async getOutboundTenantPartnerId(
+    record: OcpiTrafficRecord,
+  ): Promise<number | undefined> {
+    if (
+      !record.fromCountryCode ||
+      !record.fromPartyId ||
+      !record.toCountryCode ||
+      !record.toPartyId
+    ) {
+      return undefined;
+    }
+    const key = `${record.fromCountryCode}:${record.fromPartyId}:${record.toCountryCode}:${record.toPartyId}`;
+    if (!this.tenantPartnerIds.has(key)) {
+      const response = await this.ocpiGraphqlClient.request<
+        GetTenantPartnerByCpoClientAndModuleIdQueryResult,
+        GetTenantPartnerByCpoClientAndModuleIdQueryVariables
+      >(GET_TENANT_PARTNER_BY_CPO_AND_AND_CLIENT, {
+        cpoCountryCode: record.fromCountryCode,
+        cpoPartyId: record.fromPartyId,
+        clientCountryCode: record.toCountryCode,
+        clientPartyId: record.toPartyId,
+      });
+      this.tenantPartnerIds.set(key, response.TenantPartners[0]?.id);
+    }
+    return this.tenantPartnerIds.get(key);
+  }
+
+  /**
+   * Session the request is about: the session_id of CDRs and commands, or the id of a session
+   * that is pushed or requested.
+   */
+  private getSessionId(record: OcpiTrafficRecord): string | undefined {
+    const responseData = this.asObject(record.responseBody)?.data;
+    for (const body of [record.requestBody, responseData]) {
+      const sessionId = this.asObject(body)?.session_id;
+      if (typeof sessionId === 'string') {
+        return sessionId;
+      }
+    }
+    if (record.module !== ModuleId.Sessions) {
+      return undefined;
+    }
+    const id = this.asObject(record.requestBody)?.id;
+    if (typeof id === 'string') {
+      return id;
+    }
+    // PUT and PATCH of a session address it as .../{country_code}/{party_id}/{session_id}
+    if (record.method === 'PUT' || record.method === 'PATCH') {
+      const path = new URL(record.url, 'http://localhost').pathname;
+      return path.split('/').filter(Boolean).pop();
+    }
+    return undefined;
+  }
+
+  private getOcpiStatusCode(responseBody: unknown): number | undefined {
+    const statusCode = this.asObject(responseBody)?.status_code;
+    return typeof statusCode === 'number' ? statusCode : undefined;
+  }
+
+  /**
+   * Replaces the configured fields of the credentials object sent in the Credentials module, i.e.
+   * the request body or the data of the response, so that credentials tokens are not stored.
+   */
+  private redact(
+    module: string | undefined,
+    body: unknown,
+    isResponse = false,
+  ): unknown {
+    if (body === undefined || body === null || body === '') {
+      return null;
+    }
+    // Serialized first, so that e.g. dates are stored the way they were sent
+    const serialized: unknown = JSON.parse(JSON.stringify(body));
+    if (module !== ModuleId.Credentials) {
+      return serialized;
+    }
+    const credentials = isResponse
+      ? this.asObject(this.asObject(serialized)?.data)
+      : this.asObject(serialized);
+    if (credentials) {
+      const redactedFields =
+        this.config.trafficAudit?.redactedCredentialsFields ??
+        DEFAULT_REDACTED_CREDENTIALS_FIELDS;
+      for (const field of redactedFields) {
+        if (field in credentials) {
+          credentials[field] = REDACTED;
+        }
+      }
+    }
+    return serialized;
+  }
+
+  private asObject(value: unknown): Record<string, unknown> | undefined {
+    return value && typeof value === 'object' && !Array.isArray(value)
+      ? (value as Record<string, unknown>)
+      : undefined;
+  }
+}
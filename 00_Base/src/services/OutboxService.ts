@@ -0,0 +1,544 @@
+// SPDX-FileCopyrightText: 2025 Contributors to the CitrineOS Project
+//
+// SPDX-License-Identifier: Apache-2.0
+
+import { HttpMethod, ITenantPartnerDto } from '@citrineos/base';
+import { ILogObj, Logger } from 'tslog';
+import { Inject, Service } from 'typedi';
+import { v4 as uuidv4 } from 'uuid';
+import { OcpiConfig, OcpiConfigToken } from '../config/ocpi.types';
+import { NotFoundException } from '../exception/NotFoundException';
+import { OcpiGraphqlClient } from '../graphql/OcpiGraphqlClient';
+import {
+  ClaimOutboxMessageMutationResult,
+  ClaimOutboxMessageMutationVariables,
+  DeleteOutboxMessageMutationResult,
+  DeleteOutboxMessageMutationVariables,
+  DeleteOutboxMessagesMutationResult,
+  DeleteOutboxMessagesMutationVariables,
+  GetDueOutboxPartnersQueryResult,
+  GetDueOutboxPartnersQueryVariables,
+  GetOutboxQueueHeadsQueryResult,
+  GetOutboxQueueHeadsQueryVariables,
+  InsertOutboxMessageMutationResult,
+  InsertOutboxMessageMutationVariables,
+  ListOutboxMessagesQueryResult,
+  ListOutboxMessagesQueryVariables,
+  OutboxMessages_Bool_Exp,
+  RetryOutboxMessagesMutationResult,
+  RetryOutboxMessagesMutationVariables,
+  UpdateCdrRecordLocationUrlMutationResult,
+  UpdateCdrRecordLocationUrlMutationVariables,
+  UpdateOutboxMessageMutationResult,
+  UpdateOutboxMessageMutationVariables,
+  UpsertTenantPartnerLocationPushMutationResult,
+  UpsertTenantPartnerLocationPushMutationVariables,
+} from '../graphql/operations';
+import { UPDATE_CDR_RECORD_LOCATION_URL_MUTATION } from '../graphql/queries/cdr.queries';
+import { UPSERT_TENANT_PARTNER_LOCATION_PUSH_MUTATION } from '../graphql/queries/locationPublication.queries';
+import {
+  CLAIM_OUTBOX_MESSAGE_MUTATION,
+  DELETE_OUTBOX_MESSAGE_MUTATION,
+  DELETE_OUTBOX_MESSAGES_MUTATION,
+  GET_DUE_OUTBOX_PARTNERS_QUERY,
+  GET_OUTBOX_QUEUE_HEADS_QUERY,
+  INSERT_OUTBOX_MESSAGE_MUTATION,
+  LIST_OUTBOX_MESSAGES_QUERY,
+  RETRY_OUTBOX_MESSAGES_MUTATION,
+  UPDATE_OUTBOX_MESSAGE_MUTATION,
+} from '../graphql/queries/outbox.queries';
+import { V211Mapper } from '../mapper/V211Mapper';
+import { ModuleId } from '../model/ModuleId';
+import { OcpiEmptyResponseSchema } from '../model/OcpiEmptyResponse';
+import {
+  OutboxMessage,
+  OutboxMessageListResponse,
+  OutboxMessageStatus,
+} from '../model/OutboxMessage';
+import { DEFAULT_LIMIT, DEFAULT_OFFSET } from '../model/PaginatedResponse';
+import { BaseClientApi } from '../trigger/BaseClientApi';
+import { CdrsClientApi } from '../trigger/CdrsClientApi';
+import { LocationsClientApi } from '../trigger/LocationsClientApi';
+import { SessionsClientApi } from '../trigger/SessionsClientApi';
+import { TariffsClientApi } from '../trigger/TariffsClientApi';
+import { OcpiHttpHeader } from '../util/OcpiHttpHeader';
+import { HubClientInfoService, OcpiParty } from './HubClientInfoService';
+import { V211TranslationService } from './V211TranslationService';
+
+const DEFAULT_MAX_ATTEMPTS = 10;
+const DEFAULT_INITIAL_BACKOFF_SECONDS = 30;
+const DEFAULT_MAX_BACKOFF_SECONDS = 3600;
+const DEFAULT_POLL_INTERVAL_SECONDS = 15;
+const DEFAULT_LEASE_SECONDS = 120;
+
+/**
+ * Durable queue for pushes to partner receiver endpoints.
+ *
+ * Every push is stored before it is sent and removed once the partner accepted it.
+ * Messages are delivered in insertion order per TenantPartner, module and object, e.g. a
+ * session: a failing message only blocks the later updates of the same object, and a
+ * dead-lettered one holds them until it is retried or purged. A message is leased before it is
+ * sent, so that instances sharing the table never send it twice.
+ */
+@Service()
+export class OutboxService {
+  private readonly clients: Map<ModuleId, BaseClientApi>;
+  private readonly drains = new Map<number, Promise<void>>();
+  private pollTimer?: NodeJS.Timeout;
+
+  constructor(
+    private readonly logger: Logger<ILogObj>,
+    @Inject(OcpiConfigToken) private readonly config: OcpiConfig,
+    private readonly ocpiGraphqlClient: OcpiGraphqlClient,
+    private readonly hubClientInfoService: HubClientInfoService,
+    private readonly v211TranslationService: V211TranslationService,
+    sessionsClientApi: SessionsClientApi,
+    cdrsClientApi: CdrsClientApi,
+    locationsClientApi: LocationsClientApi,
+    tariffsClientApi: TariffsClientApi,
+  ) {
+    this.clients = new Map<ModuleId, BaseClientApi>([
+      [ModuleId.Sessions, sessionsClientApi],
+      [ModuleId.Cdrs, cdrsClientApi],
+      [ModuleId.Locations, locationsClientApi],
+      [ModuleId.Tariffs, tariffsClientApi],
+    ]);
+  }
+
+  /**
+   * Starts the background worker that retries pending messages once their backoff has expired.
+   */
+  start(): void {
+    if (this.pollTimer) {
+      return;
+    }
+    const intervalSeconds =
+      this.config.outbox?.pollIntervalSeconds ?? DEFAULT_POLL_INTERVAL_SECONDS;
+    this.pollTimer = setInterval(() => {
+      this.processDueMessages().catch((e) =>
+        this.logger.error('Outbox poll failed', e),
+      );
+    }, intervalSeconds * 1000);
+  }
+
+  stop(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = undefined;
+    }
+  }
+
+  /**
+   * Stores a push for the given partner and starts delivering the partner's queue in the
+   * background, i.e. the returned promise resolves once the push is stored, not delivered.
+   * The recipient defaults to the partner itself and is set when the partner is a hub forwarding
+   * the push to one of its connected parties.
+   */
+  async enqueue(
+    tenantPartner: ITenantPartnerDto,
+    moduleId: ModuleId,
+    httpMethod: HttpMethod,
+    path?: string,
+    body?: any,
+    recipient?: OcpiParty,
+  ): Promise<void> {
+    const now = new Date().toISOString();
+    await this.ocpiGraphqlClient.request<
+      InsertOutboxMessageMutationResult,
+      InsertOutboxMessageMutationVariables
+    >(INSERT_OUTBOX_MESSAGE_MUTATION, {
+      object: {
+        tenantPartnerId: tenantPartner.id!,
+        moduleId,
+        httpMethod,
+        path,
+        body,
+        toCountryCode: recipient?.countryCode,
+        toPartyId: recipient?.partyId,
+        queueKey: this.getQueueKey(moduleId, path, body),
+        status: OutboxMessageStatus.PENDING,
+        attempts: 0,
+        nextAttemptAt: now,
+        createdAt: now,
+        updatedAt: now,
+      },
+    });
+    void this.drain(tenantPartner.id!);
+  }
+
+  /**
+   * Stores a push that is broadcast to the given partner, once per party connected to it when the
+   * partner is a hub.
+   */
+  async enqueueBroadcast(
+    tenantPartner: ITenantPartnerDto,
+    moduleId: ModuleId,
+    httpMethod: HttpMethod,
+    path?: string,
+    body?: any,
+  ): Promise<void> {
+    const recipients =
+      await this.hubClientInfoService.getBroadcastRecipients(tenantPartner);
+    for (const recipient of recipients) {
+      await this.enqueue(
+        tenantPartner,
+        moduleId,
+        httpMethod,
+        path,
+        body,
+        recipient,
+      );
+    }
+  }
+
+  async processDueMessages(): Promise<void> {
+    const response = await this.ocpiGraphqlClient.request<
+      GetDueOutboxPartnersQueryResult,
+      GetDueOutboxPartnersQueryVariables
+    >(GET_DUE_OUTBOX_PARTNERS_QUERY, { now: new Date().toISOString() });
+    for (const { tenantPartnerId } of response.OutboxMessages) {
+      await this.drain(tenantPartnerId);
+    }
+  }
+
+  /**
+   * Delivers the partner's pending messages in order. Concurrent calls for the same
+   * partner are chained so that two drains never send out of order.
+   */
+  drain(tenantPartnerId: number): Promise<void> {
+    const previous = this.drains.get(tenantPartnerId) ?? Promise.resolve();
+    const next = previous
+      .then(() => this.deliverPending(tenantPartnerId))
+      .catch((e) => {
+        this.logger.error(
+          `Outbox delivery failed for TenantPartner ${tenantPartnerId}`,
+          e,
+        );
+      })
+      .finally(() => {
+        if (this.drains.get(tenantPartnerId) === next) {
+          this.drains.delete(tenantPartnerId);
+        }
+      });
+    this.drains.set(tenantPartnerId, next);
+    return next;
+  }
+
+  async listMessages(
+    tenantPartnerId: number,
+    status?: OutboxMessageStatus,
+    offset: number = DEFAULT_OFFSET,
+    limit: number = DEFAULT_LIMIT,
+  ): Promise<OutboxMessageListResponse> {
+    const response = await this.ocpiGraphqlClient.request<
+      ListOutboxMessagesQueryResult,
+      ListOutboxMessagesQueryVariables
+    >(LIST_OUTBOX_MESSAGES_QUERY, {
+      where: this.buildWhere(tenantPartnerId, status),
+      offset,
+      limit,
+    });
+    return {
+      data: response.OutboxMessages as OutboxMessage[],
+      total: response.OutboxMessages_aggregate.aggregate?.count ?? 0,
+      offset,
+      limit,
+    };
+  }
+
+  /**
+   * Resets the attempts of the partner's dead-lettered messages (or a single message)
+   * and puts them back in the queue.
+   */
+  async retryMessages(
+    tenantPartnerId: number,
+    messageId?: number,
+  ): Promise<number> {
+    const where = this.buildWhere(
+      tenantPartnerId,
+      messageId === undefined ? OutboxMessageStatus.DEAD_LETTER : undefined,
+      messageId,
+    );
+    const response = await this.ocpiGraphqlClient.request<
+      RetryOutboxMessagesMutationResult,
+      RetryOutboxMessagesMutationVariables
+    >(RETRY_OUTBOX_MESSAGES_MUTATION, {
+      where,
+      now: new Date().toISOString(),
+    });
+    const affectedRows = response.update_OutboxMessages?.affected_rows ?? 0;
+    if (messageId !== undefined && affectedRows === 0) {
+      throw new NotFoundException(
+        `Outbox message ${messageId} not found for TenantPartner ${tenantPartnerId}`,
+      );
+    }
+    void this.drain(tenantPartnerId);
+    return affectedRows;
+  }
+
+  /**
+   * Deletes the partner's messages with the given status, dead-lettered messages by default.
+   */
+  async purgeMessages(
+    tenantPartnerId: number,
+    status: OutboxMessageStatus = OutboxMessageStatus.DEAD_LETTER,
+  ): Promise<number> {
+    const response = await this.ocpiGraphqlClient.request<
+      DeleteOutboxMessagesMutationResult,
+      DeleteOutboxMessagesMutationVariables
+    >(DELETE_OUTBOX_MESSAGES_MUTATION, {
+      where: this.buildWhere(tenantPartnerId, status),
+    });
+    return response.delete_OutboxMessages?.affected_rows ?? 0;
+  }
+
+  /**
+   * Delivers the due head of every queue of the partner, oldest first, until no head is due.
+   * Heads that are dead-lettered, waiting for their backoff or leased by another instance hold
+   * the rest of their queue.
+   */
+  private async deliverPending(tenantPartnerId: number): Promise<void> {
+    for (;;) {
+      const response = await this.ocpiGraphqlClient.request<
+        GetOutboxQueueHeadsQueryResult,
+        GetOutboxQueueHeadsQueryVariables
+      >(GET_OUTBOX_QUEUE_HEADS_QUERY, { tenantPartnerId });
+      const now = new Date();
+      const due = response.OutboxMessages.filter(
+        (message) =>
+          message.status === OutboxMessageStatus.PENDING &&
+          new Date(message.nextAttemptAt) <= now,
+      ).sort((a, b) => a.id - b.id);
+      if (due.length === 0) {
+        return;
+      }
+      for (const message of due) {
+        if (await this.claim(message.id)) {
+          await this.deliver(message);
+        }
+      }
+    }
+  }
+
+  /**
+   * Leases a due message by moving its next attempt to the end of the lease. Returns false when
+   * another instance claimed it first. The lease expires if the instance stops before the message
+   * is delivered or rescheduled.
+   */
+  private async claim(messageId: number): Promise<boolean> {
+    const now = new Date();
+    const leaseSeconds =
+      this.config.outbox?.leaseSeconds ?? DEFAULT_LEASE_SECONDS;
+    const response = await this.ocpiGraphqlClient.request<
+      ClaimOutboxMessageMutationResult,
+      ClaimOutboxMessageMutationVariables
+    >(CLAIM_OUTBOX_MESSAGE_MUTATION, {
+      id: messageId,
+      now: now.toISOString(),
+      leasedUntil: new Date(now.getTime() + leaseSeconds * 1000).toISOString(),
+    });
+    return (response.update_OutboxMessages?.affected_rows ?? 0) > 0;
+  }
+
+  /**
+   * Sends a single message. A failed message is scheduled for another attempt after its backoff,
+   * or dead-lettered after the max number of attempts.
+   */
+  private async deliver(
+    message: GetOutboxQueueHeadsQueryResult['OutboxMessages'][number],
+  ): Promise<void> {
+    const tenantPartner = message.TenantPartner;
+    const toCountryCode = message.toCountryCode ?? tenantPartner.countryCode;
+    const toPartyId = message.toPartyId ?? tenantPartner.partyId;
+    const attempts = message.attempts + 1;
+    try {
+      const client = this.clients.get(message.moduleId as ModuleId);
+      if (!client) {
+        throw new Error(`No client api for module ${message.moduleId}`);
+      }
+      // Bodies are stored in 2.2.1 and sent in the version the partner negotiated
+      let body = message.body ?? undefined;
+      if (
+        V211Mapper.isV211(tenantPartner.partnerProfileOCPI?.version?.version)
+      ) {
+        body = await this.v211TranslationService.toV211(
+          message.moduleId as ModuleId,
+          body,
+        );
+      }
+      let locationUrl: string | undefined;
+      await client.request(
+        tenantPartner.tenant.countryCode,
+        tenantPartner.tenant.partyId,
+        toCountryCode,
+        toPartyId,
+        message.httpMethod as HttpMethod,
+        OcpiEmptyResponseSchema,
+        tenantPartner.partnerProfileOCPI,
+        true,
+        undefined,
+        body,
+        undefined,
+        undefined,
+        message.path ?? undefined,
+        undefined,
+        (headers) => {
+          locationUrl = headers[OcpiHttpHeader.Location.toLowerCase()] as
+            string | undefined;
+        },
+      );
+      await this.ocpiGraphqlClient.request<
+        DeleteOutboxMessageMutationResult,
+        DeleteOutboxMessageMutationVariables
+      >(DELETE_OUTBOX_MESSAGE_MUTATION, { id: message.id });
+      this.logger.debug(
+        `Outbox message ${message.id} delivered to ${toCountryCode}_${toPartyId} after ${attempts} attempt(s)`,
+      );
+      if (
+        message.moduleId === ModuleId.Cdrs &&
+        message.httpMethod === HttpMethod.Post &&
+        locationUrl
+      ) {
+        await this.storeCdrLocationUrl(message, locationUrl);
+      }
+      if (message.moduleId === ModuleId.Locations && message.path) {
+        await this.storeLocationPush(message);
+      }
+    } catch (e) {
+      const maxAttempts =
+        this.config.outbox?.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+      const deadLetter = attempts >= maxAttempts;
+      const now = new Date();
+      await this.ocpiGraphqlClient.request<
+        UpdateOutboxMessageMutationResult,
+        UpdateOutboxMessageMutationVariables
+      >(UPDATE_OUTBOX_MESSAGE_MUTATION, {
+        id: message.id,
+        set: {
+          status: deadLetter
+            ? OutboxMessageStatus.DEAD_LETTER
+            : OutboxMessageStatus.PENDING,
+          attempts,
+          nextAttemptAt: new Date(
+            now.getTime() + this.getBackoffMillis(attempts),
+          ).toISOString(),
+          lastAttemptAt: now.toISOString(),
+          lastError: e instanceof Error ? e.message : String(e),
+          updatedAt: now.toISOString(),
+        },
+      });
+      if (deadLetter) {
+        this.logger.error(
+          `Outbox message ${message.id} to ${toCountryCode}_${toPartyId} dead-lettered after ${attempts} attempts`,
+          e,
+        );
+      } else {
+        this.logger.warn(
+          `Outbox message ${message.id} to ${toCountryCode}_${toPartyId} failed (attempt ${attempts}/${maxAttempts})`,
+          e,
+        );
+      }
+    }
+  }
+
+  /**
+   * Keeps the URL of a posted CDR in the eMSP system, as returned in the Location header, on its
+   * CdrRecord for later reconciliation.
+   */
+  private async storeCdrLocationUrl(
+    message: GetOutboxQueueHeadsQueryResult['OutboxMessages'][number],
+    locationUrl: string,
+  ): Promise<void> {
+    const cdrId = (message.body as { id?: string } | null)?.id;
+    if (!cdrId) {
+      return;
+    }
+    try {
+      await this.ocpiGraphqlClient.request<
+        UpdateCdrRecordLocationUrlMutationResult,
+        UpdateCdrRecordLocationUrlMutationVariables
+      >(UPDATE_CDR_RECORD_LOCATION_URL_MUTATION, {
+        cdrId,
+        tenantPartnerId: message.tenantPartnerId,
+        locationUrl,
+        updatedAt: new Date().toISOString(),
+      });
+    } catch (e) {
+      this.logger.error(`Failed to store Location of CDR ${cdrId}`, e);
+    }
+  }
+
+  /**
+   * Records when the location a delivered push belongs to was last pushed to the partner.
+   */
+  private async storeLocationPush(
+    message: GetOutboxQueueHeadsQueryResult['OutboxMessages'][number],
+  ): Promise<void> {
+    // Paths are /{country_code}/{party_id}/{location_id}[/{evse_uid}[/{connector_id}]]
+    const locationId = Number(message.path!.split('/')[3]);
+    if (!Number.isInteger(locationId)) {
+      return;
+    }
+    const now = new Date().toISOString();
+    try {
+      await this.ocpiGraphqlClient.request<
+        UpsertTenantPartnerLocationPushMutationResult,
+        UpsertTenantPartnerLocationPushMutationVariables
+      >(UPSERT_TENANT_PARTNER_LOCATION_PUSH_MUTATION, {
+        object: {
+          tenantPartnerId: message.tenantPartnerId,
+          locationId,
+          httpMethod: message.httpMethod,
+          path: message.path!,
+          lastPushedAt: now,
+          createdAt: now,
+          updatedAt: now,
+        },
+      });
+    } catch (e) {
+      this.logger.error(
+        `Failed to record push of Location ${locationId} to TenantPartner ${message.tenantPartnerId}`,
+        e,
+      );
+    }
+  }
+
+  /**
+   * Queue of a push: its module and the object it is about. The object is the first three path
+   * segments (/{country_code}/{party_id}/{id}), so that e.g. EVSE PATCHes follow the PUT of their
+   * location. CDRs are posted without a path and are queued by session, so that a credit CDR
+   * precedes the CDR reissued for the same session.
+   */
+  private getQueueKey(moduleId: ModuleId, path?: string, body?: any): string {
+    const object = path
+      ? path.split('/').filter(Boolean).slice(0, 3).join('/')
+      : undefined;
+    return `${moduleId}:${object || body?.session_id || body?.id || uuidv4()}`;
+  }
+
+  private getBackoffMillis(attempts: number): number {
+    const initial =
+      this.config.outbox?.initialBackoffSeconds ??
+      DEFAULT_INITIAL_BACKOFF_SECONDS;
+    const max =
+      this.config.outbox?.maxBackoffSeconds ?? DEFAULT_MAX_BACKOFF_SECONDS;
+    return Math.min(initial * Math.pow(2, attempts - 1), max) * 1000;
+  }
+
+  private buildWhere(
+    tenantPartnerId: number,
+    status?: OutboxMessageStatus,
+    messageId?: number,
+  ): OutboxMessages_Bool_Exp {
+    const where: OutboxMessages_Bool_Exp = {
+      tenantPartnerId: { _eq: tenantPartnerId },
+    };
+    if (status) {
+      where.status = { _eq: status };
+    }
+    if (messageId !== undefined) {
+      where.id = { _eq: messageId };
+    }
+    return where;
+  }
+}
@@ -2,7 +2,7 @@
 //
 // SPDX-License-Identifier: Apache-2.0
 
-import Container, { Service } from 'typedi';
+import { Inject, Service } from 'typedi';
 import { PaginatedSessionResponse } from '../model/Session';
 import {
   buildOcpiPaginatedResponse,
@@ -11,19 +11,50 @@ import {
 } from '../model/PaginatedResponse';
 import { OcpiResponseStatusCode } from '../model/OcpiResponse';
 import { OcpiGraphqlClient } from '../graphql/OcpiGraphqlClient';
-import { GET_TRANSACTIONS_QUERY } from '../graphql/queries/transaction.queries';
+import {
+  GET_TRANSACTION_BY_ID_QUERY,
+  GET_TRANSACTIONS_QUERY,
+} from '../graphql/queries/transaction.queries';
+import { GET_CHARGING_STATION_BY_ID_QUERY } from '../graphql/queries/chargingStation.queries';
+import { UPSERT_SESSION_CHARGING_PREFERENCES_MUTATION } from '../graphql/queries/sessionChargingPreferences.queries';
 import { SessionMapper } from '../mapper/SessionMapper';
-import { ITransactionDto } from '@citrineos/base';
+import { ChargingPreferencesMapper } from '../mapper/ChargingPreferencesMapper';
+import {
+  IChargingStationDto,
+  ITenantPartnerDto,
+  ITransactionDto,
+} from '@citrineos/base';
 import {
+  GetChargingStationByIdQueryResult,
+  GetChargingStationByIdQueryVariables,
+  GetTransactionByTransactionIdQueryResult,
+  GetTransactionByTransactionIdQueryVariables,
   GetTransactionsQueryResult,
   GetTransactionsQueryVariables,
   Transactions_Bool_Exp,
+  UpsertSessionChargingPreferencesMutationResult,
+  UpsertSessionChargingPreferencesMutationVariables,
 } from '../graphql/operations';
+import { ChargingPreferences } from '../model/ChargingPreferences';
+import {
+  ChargingPreferencesResponse,
+  ChargingPreferencesResponseType,
+} from '../model/ChargingPreferencesResponse';
+import { ProfileType } from '../model/ProfileType';
+import { NotFoundException } from '../exception/NotFoundException';
+import { CommandExecutor } from '../util/CommandExecutor';
+import { OcpiLogger } from '../util/OcpiLogger';
+import { ResponseGenerator } from '../util/response.generator';
+
 @Service()
 export class SessionsService {
+  @Inject()
+  protected commandExecutor!: CommandExecutor;
+
   constructor(
     private readonly ocpiGraphqlClient: OcpiGraphqlClient,
     private readonly sessionMapper: SessionMapper,
+    private readonly logger: OcpiLogger,
   ) {}
 
   public async getSessions(
@@ -55,6 +86,10 @@ export class SessionsService {
     if (Object.keys(dateFilters).length > 0) {
       where.updatedAt = dateFilters;
     }
+    if (endedOnly) {
+      // Ended sessions are COMPLETED or INVALID, see SessionMapper.getSessionStatus
+      where.isActive = { _eq: false };
+    }
     const queryOptions = {
       offset,
       limit,
@@ -65,17 +100,13 @@ export class SessionsService {
       GetTransactionsQueryVariables
     >(GET_TRANSACTIONS_QUERY, queryOptions);
 
-    let mappedSessions = await this.sessionMapper.mapTransactionsToSessions(
+    const mappedSessions = await this.sessionMapper.mapTransactionsToSessions(
       result.Transactions as ITransactionDto[],
     );
 
-    if (endedOnly) {
-      mappedSessions = mappedSessions.filter((session) => session.kwh > 0);
-    }
-
     const response = buildOcpiPaginatedResponse(
       OcpiResponseStatusCode.GenericSuccessCode,
-      result.Transactions.length,
+      result.Transactions_aggregate.aggregate?.count ?? 0,
       limit,
       offset,
       mappedSessions,
@@ -83,4 +114,181 @@ export class SessionsService {
 
     return response as PaginatedSessionResponse;
   }
+
+  /**
+   * Validates the charging preferences of an active session against the charging station and,
+   * once accepted, stores them and applies them to the station as a charging profile.
+   */
+  public async updateChargingPreferences(
+    sessionId: string,
+    chargingPreferences: ChargingPreferences,
+    tenantPartner: ITenantPartnerDto,
+  ): Promise<ChargingPreferencesResponse> {
+    const transactionResponse = await this.ocpiGraphqlClient.request<
+      GetTransactionByTransactionIdQueryResult,
+      GetTransactionByTransactionIdQueryVariables
+    >(GET_TRANSACTION_BY_ID_QUERY, {
+      id: Number(sessionId),
+    });
+    const transaction = transactionResponse.Transactions[0];
+    const sessionPartner = transaction?.authorization?.tenantPartner;
+    if (
+      !transaction ||
+      sessionPartner?.countryCode !== tenantPartner.countryCode ||
+      sessionPartner?.partyId !== tenantPartner.partyId
+    ) {
+      return ResponseGenerator.buildUnknownSessionResponse(
+        ChargingPreferencesResponseType.NOT_POSSIBLE,
+        new NotFoundException('Session not found'),
+      );
+    }
+
+    const chargingStationResponse = await this.ocpiGraphqlClient.request<
+      GetChargingStationByIdQueryResult,
+      GetChargingStationByIdQueryVariables
+    >(GET_CHARGING_STATION_BY_ID_QUERY, {
+      id: transaction.stationId!,
+    });
+    const chargingStation = chargingStationResponse.ChargingStations[0] as
+      IChargingStationDto | undefined;
+
+    const result = this.validateChargingPreferences(
+      chargingPreferences,
+      transaction,
+      chargingStation,
+    );
+    if (result !== ChargingPreferencesResponseType.ACCEPTED) {
+      this.logger.info('Charging preferences not accepted', {
+        sessionId,
+        chargingPreferences,
+        result,
+      });
+      return ResponseGenerator.buildGenericSuccessResponse(result);
+    }
+
+    await this.ocpiGraphqlClient.request<
+      UpsertSessionChargingPreferencesMutationResult,
+      UpsertSessionChargingPreferencesMutationVariables
+    >(UPSERT_SESSION_CHARGING_PREFERENCES_MUTATION, {
+      object: {
+        tenantPartnerId: tenantPartner.id!,
+        transactionId: transaction.id,
+        profileType: chargingPreferences.profile_type,
+        departureTime: chargingPreferences.departure_time,
+        energyNeed: chargingPreferences.energy_need,
+        dischargeAllowed: chargingPreferences.discharge_allowed,
+        createdAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString(),
+      },
+    });
+
+    const chargingProfile = ChargingPreferencesMapper.toChargingProfile(
+      chargingPreferences,
+      this.getMaxPowerWatts(chargingStation!, transaction),
+      Number(transaction.totalKwh ?? 0),
+    );
+    if (chargingProfile) {
+      this.commandExecutor
+        .executeChargingPreferencesProfile(
+          chargingProfile,
+          tenantPartner,
+          chargingStation!,
+          transaction,
+        )
+        .catch((error) => {
+          this.logger.error(
+            'Failed to apply charging preferences to charging station',
+            error,
+          );
+        });
+    }
+    return ResponseGenerator.buildGenericSuccessResponse(
+      ChargingPreferencesResponseType.ACCEPTED,
+    );
+  }
+
+  private validateChargingPreferences(
+    chargingPreferences: ChargingPreferences,
+    transaction: GetTransactionByTransactionIdQueryResult['Transactions'][number],
+    chargingStation: IChargingStationDto | undefined,
+  ): ChargingPreferencesResponseType {
+    if (!transaction.isActive || !chargingStation) {
+      return ChargingPreferencesResponseType.NOT_POSSIBLE;
+    }
+    if (chargingPreferences.profile_type === ProfileType.REGULAR) {
+      // Nothing is sent to the charging station, charging continues as is
+      return ChargingPreferencesResponseType.ACCEPTED;
+    }
+    if (
+      !this.commandExecutor.isSupportedOcppVersion(chargingStation.protocol)
+    ) {
+      return ChargingPreferencesResponseType.PROFILE_TYPE_NOT_SUPPORTED;
+    }
+
+    // CHEAP and GREEN shift charging within the time the car is connected, which needs both
+    const isScheduled =
+      chargingPreferences.profile_type === ProfileType.CHEAP ||
+      chargingPreferences.profile_type === ProfileType.GREEN;
+    if (isScheduled && !chargingPreferences.departure_time) {
+      return ChargingPreferencesResponseType.DEPARTURE_REQUIRED;
+    }
+    if (isScheduled && chargingPreferences.energy_need === undefined) {
+      return ChargingPreferencesResponseType.ENERGY_NEED_REQUIRED;
+    }
+    if (
+      chargingPreferences.departure_time &&
+      ChargingPreferencesMapper.getSecondsUntil(
+        chargingPreferences.departure_time,
+      ) <= 0
+    ) {
+      return ChargingPreferencesResponseType.NOT_POSSIBLE;
+    }
+    if (!chargingStation.isOnline) {
+      return ChargingPreferencesResponseType.NOT_POSSIBLE;
+    }
+
+    const maxPowerWatts = this.getMaxPowerWatts(chargingStation, transaction);
+    if (
+      maxPowerWatts &&
+      chargingPreferences.departure_time &&
+      chargingPreferences.energy_need !== undefined
+    ) {
+      const deliverableKwh =
+        (maxPowerWatts / 1000) *
+        (ChargingPreferencesMapper.getSecondsUntil(
+          chargingPreferences.departure_time,
+        ) /
+          3600);
+      const remainingKwh = ChargingPreferencesMapper.getRemainingEnergyNeedKwh(
+        chargingPreferences,
+        Number(transaction.totalKwh ?? 0),
+      );
+      if (remainingKwh > deliverableKwh) {
+        return ChargingPreferencesResponseType.NOT_POSSIBLE;
+      }
+    }
+    return ChargingPreferencesResponseType.ACCEPTED;
+  }
+
+  /**
+   * Maximum power of the connector used by the session, falling back to the most powerful
+   * connector of the charging station.
+   */
+  private getMaxPowerWatts(
+    chargingStation: IChargingStationDto,
+    transaction: GetTransactionByTransactionIdQueryResult['Transactions'][number],
+  ): number | undefined {
+    const connectors = Array.from(chargingStation.connectors || []);
+    const sessionConnector = connectors.find(
+      (connector) => connector.id === transaction.connectorId,
+    );
+    if (sessionConnector?.maximumPowerWatts) {
+      return sessionConnector.maximumPowerWatts;
+    }
+    const maxPowerWatts = Math.max(
+      0,
+      ...connectors.map((connector) => connector.maximumPowerWatts ?? 0),
+    );
+    return maxPowerWatts || undefined;
+  }
 }
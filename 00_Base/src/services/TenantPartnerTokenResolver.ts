@@ -0,0 +1,254 @@
+// SPDX-FileCopyrightText: 2025 Contributors to the CitrineOS Project
+//
+// SPDX-License-Identifier: Apache-2.0
+
+import { ICache } from '@citrineos/base';
+import { createHash } from 'crypto';
+import { ILogObj, Logger } from 'tslog';
+import { Inject, Service } from 'typedi';
+import { OcpiConfig, OcpiConfigToken } from '../config/ocpi.types';
+import { DtoEventType } from '../events/types';
+import { PgNotifyEventSubscriber } from '../events/pgNotify/subscriber';
+import { OcpiGraphqlClient } from '../graphql/OcpiGraphqlClient';
+import {
+  GetHubClientInfosQueryResult,
+  GetHubClientInfosQueryVariables,
+  GetTenantPartnerByServerTokenQueryResult,
+  GetTenantPartnerByServerTokenQueryVariables,
+} from '../graphql/operations';
+import { GET_HUB_CLIENT_INFOS_QUERY } from '../graphql/queries/hubClientInfo.queries';
+import { GET_TENANT_PARTNER_BY_SERVER_TOKEN } from '../graphql/queries/tenantPartner.queries';
+import { ConnectionStatus } from '../model/ConnectionStatus';
+import { CacheWrapper } from '../util/CacheWrapper';
+import { OcpiNamespace } from '../util/OcpiNamespace';
+import { OcpiParty } from './HubClientInfoService';
+
+export type TokenTenantPartner =
+  GetTenantPartnerByServerTokenQueryResult['TenantPartners'][number];
+
+export interface TenantPartnerTokenCacheMetrics {
+  hits: number;
+  misses: number;
+  invalidations: number;
+  // Lookups in the database on a cache miss
+  lookups: number;
+  totalLookupMillis: number;
+  averageLookupMillis: number;
+}
+
+const DEFAULT_TTL_SECONDS = 300;
+const DEFAULT_UNKNOWN_TOKEN_TTL_SECONDS = 30;
+// Channel of the notifications sent by the TenantPartners trigger
+export const TENANT_PARTNER_CHANGED_CHANNEL = 'TenantPartnerChanged';
+
+/**
+ * Resolves the TenantPartner a server token was issued to, caching the result in the {@link ICache}.
+ *
+ * Tokens are cached under their SHA-256 hash, with a second entry per TenantPartner id pointing at the
+ * cached token so that entries can be invalidated by partner. Entries expire after the configured TTL and
+ * are invalidated by {@link CredentialsService} whenever a partner's token changes, and optionally on every
+ * change of the TenantPartners table via pg NOTIFY. Unknown tokens are cached as well, for a shorter TTL,
+ * so that neither the decoded variant of a plain 2.1.1/2.2 token nor a wrong token costs a lookup each.
+ *
+ * The parties connected to a hub partner are cached per TenantPartner id as well, so that requests a
+ * hub forwards for them are authorized without a lookup each.
+ */
+@Service()
+export class TenantPartnerTokenResolver {
+  private readonly cache: ICache;
+  private readonly metrics = {
+    hits: 0,
+    misses: 0,
+    invalidations: 0,
+    lookups: 0,
+    totalLookupMillis: 0,
+  };
+
+  constructor(
+    private readonly logger: Logger<ILogObj>,
+    @Inject(OcpiConfigToken) private readonly config: OcpiConfig,
+    private readonly ocpiGraphqlClient: OcpiGraphqlClient,
+    @Inject() cacheWrapper: CacheWrapper,
+    private readonly pgNotifyEventSubscriber: PgNotifyEventSubscriber,
+  ) {
+    this.cache = cacheWrapper.cache;
+  }
+
+  /**
+   * Subscribes to changes of the TenantPartners table when enabled in the configuration. The
+   * subscriber is the one shared with the DtoRouter, its connection is only opened once.
+   */
+  async start(): Promise<void> {
+    if (!this.config.tenantPartnerCache?.pgNotify) {
+      return;
+    }
+    await this.pgNotifyEventSubscriber.init();
+    await this.pgNotifyEventSubscriber.subscribe<any>(
+      TENANT_PARTNER_CHANGED_CHANNEL,
+      (event: { eventType: DtoEventType; payload: { id?: number } }) => {
+        if (event.payload?.id !== undefined) {
+          this.invalidateTenantPartner(event.payload.id).catch((error) =>
+            this.logger.error(
+              `Failed to invalidate cached token of TenantPartner ${event.payload.id}`,
+              error,
+            ),
+          );
+        }
+      },
+      (error) =>
+        this.logger.error('TenantPartner change notification failed', error),
+    );
+  }
+
+  async resolve(token: string): Promise<TokenTenantPartner | undefined> {
+    return (await this.resolveAll(token))[0];
+  }
+
+  /**
+   * All TenantPartners the token was issued to, i.e. one per role of credentials holding several.
+   */
+  async resolveAll(token: string): Promise<TokenTenantPartner[]> {
+    const key = this.hashToken(token);
+    const cached = await this.cache.get<string>(
+      key,
+      OcpiNamespace.TenantPartnerToken,
+    );
+    if (cached) {
+      this.metrics.hits++;
+      return this.parseTenantPartners(cached);
+    }
+    this.metrics.misses++;
+
+    const start = Date.now();
+    const response = await this.ocpiGraphqlClient.request<
+      GetTenantPartnerByServerTokenQueryResult,
+      GetTenantPartnerByServerTokenQueryVariables
+    >(GET_TENANT_PARTNER_BY_SERVER_TOKEN, { serverToken: token });
+    this.metrics.lookups++;
+    this.metrics.totalLookupMillis += Date.now() - start;
+
+    const tenantPartners = response.TenantPartners;
+    await this.cache.set(
+      key,
+      JSON.stringify(tenantPartners),
+      OcpiNamespace.TenantPartnerToken,
+      tenantPartners.length > 0
+        ? this.ttlSeconds
+        : (this.config.tenantPartnerCache?.unknownTokenTtlSeconds ??
+            DEFAULT_UNKNOWN_TOKEN_TTL_SECONDS),
+    );
+    for (const tenantPartner of tenantPartners) {
+      await this.cache.set(
+        tenantPartner.id.toString(),
+        key,
+        OcpiNamespace.TenantPartnerTokenKey,
+        this.ttlSeconds,
+      );
+    }
+    return tenantPartners;
+  }
+
+  /**
+   * Parties connected to the hub partner, as last pushed by the hub through its hubclientinfo
+   * module. Empty for partners that are not a hub.
+   */
+  async getConnectedHubClients(tenantPartnerId: number): Promise<OcpiParty[]> {
+    const cached = await this.cache.get<string>(
+      tenantPartnerId.toString(),
+      OcpiNamespace.HubClients,
+    );
+    if (cached) {
+      return JSON.parse(cached) as OcpiParty[];
+    }
+    const response = await this.ocpiGraphqlClient.request<
+      GetHubClientInfosQueryResult,
+      GetHubClientInfosQueryVariables
+    >(GET_HUB_CLIENT_INFOS_QUERY, {
+      where: {
+        tenantPartnerId: { _eq: tenantPartnerId },
+        status: { _eq: ConnectionStatus.CONNECTED },
+      },
+    });
+    const hubClients = response.HubClientInfos.map((hubClientInfo) => ({
+      countryCode: hubClientInfo.countryCode,
+      partyId: hubClientInfo.partyId,
+    }));
+    await this.cache.set(
+      tenantPartnerId.toString(),
+      JSON.stringify(hubClients),
+      OcpiNamespace.HubClients,
+      this.ttlSeconds,
+    );
+    return hubClients;
+  }
+
+  async invalidateHubClients(tenantPartnerId: number): Promise<void> {
+    await this.cache.remove(
+      tenantPartnerId.toString(),
+      OcpiNamespace.HubClients,
+    );
+  }
+
+  /**
+   * Removes the cached token and, when the TenantPartner it belonged to is given, the partner's
+   * entry pointing at it.
+   */
+  async invalidateToken(
+    token: string,
+    tenantPartnerId?: number,
+  ): Promise<void> {
+    this.metrics.invalidations++;
+    await this.cache.remove(
+      this.hashToken(token),
+      OcpiNamespace.TenantPartnerToken,
+    );
+    if (tenantPartnerId !== undefined) {
+      await this.cache.remove(
+        tenantPartnerId.toString(),
+        OcpiNamespace.TenantPartnerTokenKey,
+      );
+    }
+  }
+
+  async invalidateTenantPartner(tenantPartnerId: number): Promise<void> {
+    const key = await this.cache.get<string>(
+      tenantPartnerId.toString(),
+      OcpiNamespace.TenantPartnerTokenKey,
+    );
+    if (!key) {
+      return;
+    }
+    this.metrics.invalidations++;
+    await this.cache.remove(key, OcpiNamespace.TenantPartnerToken);
+    await this.cache.remove(
+      tenantPartnerId.toString(),
+      OcpiNamespace.TenantPartnerTokenKey,
+    );
+  }
+
+  getMetrics(): TenantPartnerTokenCacheMetrics {
+    return {
+      ...this.metrics,
+      averageLookupMillis: this.metrics.lookups
+        ? this.metrics.totalLookupMillis / this.metrics.lookups
+        : 0,
+    };
+  }
+
+  private get ttlSeconds(): number {
+    return this.config.tenantPartnerCache?.ttlSeconds ?? DEFAULT_TTL_SECONDS;
+  }
+
+  /**
+   * Entries cached before all TenantPartners of a token were cached hold a single one.
+   */
+  private parseTenantPartners(cached: string): TokenTenantPartner[] {
+    const parsed = JSON.parse(cached) as
+      TokenTenantPartner | TokenTenantPartner[];
+    return Array.isArray(parsed) ? parsed : [parsed];
+  }
+
+  private hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+}
@@ -2,311 +2,591 @@
 //
 // SPDX-License-Identifier: Apache-2.0
 
-// import { Service } from 'typedi';
-// import { OcpiLogger } from '../util/OcpiLogger';
-// import { TokensClientApi } from '../trigger/TokensClientApi';
-// import { OcpiResponseStatusCode } from '../model/OcpiResponse';
-// import { UnsuccessfulRequestException } from '../exception/UnsuccessfulRequestException';
-// import { CredentialsService } from './CredentialsService';
-// import { ClientInformation } from '../model/ClientInformation';
-// import { OcpiGraphqlClient } from '../graphql/OcpiGraphqlClient';
-// import { UPDATE_TOKEN_MUTATION } from '../graphql/queries/token.queries';
-// import {
-//   CREATE_ASYNC_JOB_STATUS_MUTATION,
-//   DELETE_ASYNC_JOB_STATUS_MUTATION,
-//   GET_ASYNC_JOB_STATUS_QUERY,
-//   GET_ASYNC_JOB_STATUSES_QUERY,
-//   UPDATE_ASYNC_JOB_STATUS_MUTATION,
-// } from '../graphql/queries/asyncJob.queries';
-// import { PaginatedTokenResponse, TokenDTO } from '../model/DTO/TokenDTO';
-
-// // Import AsyncJob types from local definitions
-// import {
-//   AsyncJobName,
-//   AsyncJobRequest,
-//   AsyncJobStatusResponse,
-// } from '../types/asyncJob.types';
-// import { buildPaginatedParams } from '../trigger/param/PaginatedParams';
-// import { Authorization } from '@citrineos/data';
-// import { TokensMapper } from '../mapper/TokensMapper';
-
-// @Service()
-// export class TokensAdminService {
-//   constructor(
-//     private readonly logger: OcpiLogger,
-//     private readonly client: TokensClientApi,
-//     private readonly credentialsService: CredentialsService,
-//     private readonly ocpiGraphqlClient: OcpiGraphqlClient,
-//   ) {}
-
-//   async startFetchTokensByParty(
-//     asyncJobRequest: AsyncJobRequest,
-//   ): Promise<AsyncJobStatusResponse> {
-//     const existingJob = await this.getFetchTokensJobs(
-//       asyncJobRequest.tenantPartnerId,
-//     );
-
-//     if (existingJob && existingJob.length > 0) {
-//       throw new UnsuccessfulRequestException(
-//         `Another job for TenantPartner ${asyncJobRequest.tenantPartnerId} is already in progress with ID ${existingJob[0].jobId}`,
-//       );
-//     }
-
-//     // TODO: Update this to get client credentials by tenantPartnerId
-//     // const clientCredentials = await this.credentialsService.getClientInformationByTenantPartnerId(
-//     //   asyncJobRequest.tenantPartnerId,
-//     // );
-
-//     const asyncJobStatusInput = {
-//       jobName: AsyncJobName.FETCH_OCPI_TOKENS,
-//       paginatedParams: {
-//         limit: asyncJobRequest.paginatedParams?.limit ?? 1000,
-//         offset: asyncJobRequest.paginatedParams?.offset ?? 0,
-//       },
-//       tenantPartnerId: asyncJobRequest.tenantPartnerId,
-//       isFailed: false,
-//       stopScheduled: false,
-//     };
-
-//     const asyncJobStatus: any = await this.ocpiGraphqlClient.request(
-//       CREATE_ASYNC_JOB_STATUS_MUTATION,
-//       { asyncJobStatus: asyncJobStatusInput },
-//     );
-
-//     // TODO: Pass the tenant partner or client credentials when available
-//     // this.fetchTokens(asyncJobStatus.createAsyncJobStatus, clientCredentials);
-
-//     return asyncJobStatus.createAsyncJobStatus;
-//   }
-
-//   async fetchTokens(
-//     asyncJobStatus: AsyncJobStatusResponse,
-//     clientCredentials: ClientInformation,
-//   ) {
-//     try {
-//       // const clientToken = clientCredentials[ClientInformationProps.clientToken];
-//       // const clientVersions = await clientCredentials.$get(
-//       //   ClientInformationProps.clientVersionDetails,
-//       // );
-
-//       // this.client.baseUrl = clientVersions[0].url;
-
-//       const params = buildPaginatedParams(
-//         asyncJobStatus.paginatedParams.offset,
-//         asyncJobStatus.paginatedParams.limit,
-//         asyncJobStatus.paginatedParams.dateFrom,
-//         asyncJobStatus.paginatedParams.dateTo,
-//       );
-//       // params.authorization = clientToken;
-//       // params.version = clientVersions[0].version;
-
-//       let finished = false;
-
-//       do {
-//         const response: PaginatedTokenResponse = await this.client.getTokens(
-//           asyncJobStatus.tenantPartner!.tenant!.countryCode!,
-//           asyncJobStatus.tenantPartner!.tenant!.partyId!,
-//           asyncJobStatus.tenantPartner!.countryCode!,
-//           asyncJobStatus.tenantPartner!.partyId!,
-//           asyncJobStatus.tenantPartner!.partnerProfileOCPI!,
-//           params,
-//         );
-//         if (
-//           response.status_code === OcpiResponseStatusCode.GenericSuccessCode
-//         ) {
-//           await this.updateTokens([response?.data as any]);
-
-//           const updateResult: any = await this.ocpiGraphqlClient.request(
-//             UPDATE_ASYNC_JOB_STATUS_MUTATION,
-//             {
-//               asyncJobStatus: {
-//                 jobId: asyncJobStatus.jobId,
-//                 paginatedParams: {
-//                   ...asyncJobStatus.paginatedParams,
-//                   offset: params.offset,
-//                 },
-//               },
-//             },
-//           );
-
-//           asyncJobStatus = updateResult.updateAsyncJobStatus;
-
-//           if (asyncJobStatus.stopScheduled) {
-//             finished = true;
-//             break;
-//           }
-
-//           params.offset = response.offset;
-//           params.limit = response.limit;
-
-//           finished = !response.link;
-//         } else {
-//           this.logger.error(
-//             'Received non-successful response from Tokens fetch for job ' +
-//               asyncJobStatus.jobId,
-//             response,
-//           );
-//           asyncJobStatus.isFailed = true;
-//           break;
-//         }
-//       } while (!finished);
-//     } catch (e) {
-//       this.logger.error(
-//         'Failed to fetch tokens for job ' + asyncJobStatus.jobId,
-//         e,
-//       );
-//       asyncJobStatus.isFailed = true;
-//     }
-
-//     if (asyncJobStatus.stopScheduled) {
-//       await this.ocpiGraphqlClient.request(UPDATE_ASYNC_JOB_STATUS_MUTATION, {
-//         asyncJobStatus: {
-//           jobId: asyncJobStatus.jobId,
-//           stoppedAt: new Date(),
-//           isFailed: asyncJobStatus.isFailed,
-//         },
-//       });
-//     } else {
-//       await this.ocpiGraphqlClient.request(UPDATE_ASYNC_JOB_STATUS_MUTATION, {
-//         asyncJobStatus: {
-//           jobId: asyncJobStatus.jobId,
-//           finishedAt: new Date(),
-//           isFailed: asyncJobStatus.isFailed,
-//         },
-//       });
-//     }
-//   }
-
-//   async stopFetchTokens(jobId: string): Promise<AsyncJobStatusResponse> {
-//     const existingJob = await this.getFetchTokensJob(jobId);
-
-//     if (!existingJob) {
-//       throw new UnsuccessfulRequestException(
-//         `No job found for job ID: ${jobId}`,
-//       );
-//     }
-
-//     const result: any = await this.ocpiGraphqlClient.request(
-//       UPDATE_ASYNC_JOB_STATUS_MUTATION,
-//       {
-//         asyncJobStatus: {
-//           jobId: jobId,
-//           stopScheduled: true,
-//         },
-//       },
-//     );
-
-//     return result.updateAsyncJobStatus;
-//   }
-
-//   async resumeFetchTokens(jobId: string): Promise<AsyncJobStatusResponse> {
-//     const existingJob = await this.getFetchTokensJob(jobId);
-
-//     if (!existingJob) {
-//       throw new UnsuccessfulRequestException(
-//         `No job found for job ID: ${jobId}`,
-//       );
-//     }
-
-//     if (!existingJob.stopScheduled) {
-//       throw new UnsuccessfulRequestException(
-//         `Job ${jobId} is not stopped. Cannot resume.`,
-//       );
-//     }
-
-//     // TODO: Update this to get client credentials by tenantPartnerId
-//     // const clientCredentials = await this.credentialsService.getClientInformationByTenantPartnerId(
-//     //   existingJob.tenantPartnerId,
-//     // );
-
-//     const result: any = await this.ocpiGraphqlClient.request(
-//       UPDATE_ASYNC_JOB_STATUS_MUTATION,
-//       {
-//         asyncJobStatus: {
-//           jobId: jobId,
-//           stopScheduled: false,
-//         },
-//       },
-//     );
-
-//     // TODO: Pass the tenant partner or client credentials when available
-//     // this.fetchTokens(result.updateAsyncJobStatus, clientCredentials);
-
-//     return result.updateAsyncJobStatus;
-//   }
-
-//   async getFetchTokensJob(
-//     jobId: string,
-//   ): Promise<AsyncJobStatusResponse | undefined> {
-//     const result: any = await this.ocpiGraphqlClient.request(
-//       GET_ASYNC_JOB_STATUS_QUERY,
-//       { jobId },
-//     );
-//     return result.asyncJobStatus;
-//   }
-
-//   async getFetchTokensJobs(
-//     tenantPartnerId: number,
-//     active?: boolean,
-//   ): Promise<AsyncJobStatusResponse[]> {
-//     const whereConditions: any = {
-//       jobName: AsyncJobName.FETCH_OCPI_TOKENS,
-//       tenantPartnerId: tenantPartnerId,
-//     };
-
-//     if (active) {
-//       whereConditions.finishedAt = null;
-//       whereConditions.stoppedAt = null;
-//     } else if (active === false) {
-//       // Either finished or stopped
-//       whereConditions.OR = [
-//         { finishedAt: { not: null } },
-//         { stoppedAt: { not: null } },
-//       ];
-//     }
-
-//     const result: any = await this.ocpiGraphqlClient.request(
-//       GET_ASYNC_JOB_STATUSES_QUERY,
-//       { where: whereConditions },
-//     );
-//     return result.asyncJobStatuses || [];
-//   }
-
-//   async deleteFetchTokensJob(
-//     jobId: string,
-//   ): Promise<AsyncJobStatusResponse | undefined> {
-//     const result: any = await this.ocpiGraphqlClient.request(
-//       DELETE_ASYNC_JOB_STATUS_MUTATION,
-//       { jobId },
-//     );
-//     return result.deleteAsyncJobStatus;
-//   }
-
-//   private async updateTokens(tokens: TokenDTO[]) {
-//     for (const token of tokens) {
-//       try {
-//         const authorization =
-//           TokensMapper.mapOcpiTokenToPartialOcppAuthorization(token);
-//         const variables = {
-//           idToken: authorization.idToken,
-//           type: authorization.idTokenType,
-//           countryCode: token.country_code,
-//           partyId: token.party_id,
-//           additionalInfo: authorization.additionalInfo,
-//           status: authorization.status,
-//           language1: authorization.language1,
-//         };
-//         const result = await this.ocpiGraphqlClient.request<any>(
-//           UPDATE_TOKEN_MUTATION,
-//           variables,
-//         );
-//         const updatedToken = result.updateToken;
-//         if (!updatedToken) {
-//           this.logger.error(`Failed to update token ${token.uid}`);
-//         }
-//       } catch (e) {
-//         this.logger.error(`Failed to update token ${token.uid}`, e);
-//       }
-//     }
-//   }
-// }
+import { ILogObj, Logger } from 'tslog';
+import { Inject, Service } from 'typedi';
+import { v4 as uuidv4 } from 'uuid';
+import { OcpiConfig, OcpiConfigToken } from '../config/ocpi.types';
+import { InvalidParamException } from '../exception/InvalidParamException';
+import { NotFoundException } from '../exception/NotFoundException';
+import { UnsuccessfulRequestException } from '../exception/UnsuccessfulRequestException';
+import { OcpiGraphqlClient } from '../graphql/OcpiGraphqlClient';
+import {
+  AsyncJobStatusFields,
+  AsyncJobStatuses_Bool_Exp,
+  AsyncJobStatuses_Set_Input,
+  ClaimAsyncJobStatusMutationResult,
+  ClaimAsyncJobStatusMutationVariables,
+  DeleteAsyncJobStatusMutationResult,
+  DeleteAsyncJobStatusMutationVariables,
+  GetAsyncJobStatusesQueryResult,
+  GetAsyncJobStatusesQueryVariables,
+  GetAsyncJobStatusQueryResult,
+  GetAsyncJobStatusQueryVariables,
+  GetTenantPartnerByIdQueryResult,
+  GetTenantPartnerByIdQueryVariables,
+  InsertAsyncJobStatusMutationResult,
+  InsertAsyncJobStatusMutationVariables,
+  UpdateAsyncJobStatusMutationResult,
+  UpdateAsyncJobStatusMutationVariables,
+} from '../graphql/operations';
+import {
+  CLAIM_ASYNC_JOB_STATUS_MUTATION,
+  DELETE_ASYNC_JOB_STATUS_MUTATION,
+  GET_ASYNC_JOB_STATUS_QUERY,
+  GET_ASYNC_JOB_STATUSES_QUERY,
+  INSERT_ASYNC_JOB_STATUS_MUTATION,
+  UPDATE_ASYNC_JOB_STATUS_MUTATION,
+} from '../graphql/queries/asyncJob.queries';
+import { GET_TENANT_PARTNER_BY_ID } from '../graphql/queries/tenantPartner.queries';
+import { TokenDTO } from '../model/DTO/TokenDTO';
+import { OcpiResponseStatusCode } from '../model/OcpiResponse';
+import { buildPaginatedParams } from '../trigger/param/PaginatedParams';
+import { TokensClientApi } from '../trigger/TokensClientApi';
+import {
+  AsyncJobName,
+  AsyncJobPaginatedParams,
+  AsyncJobRequest,
+  AsyncJobStatusResponse,
+} from '../types/asyncJob.types';
+import { TokensService } from './TokensService';
+
+const DEFAULT_PAGE_LIMIT = 100;
+const DEFAULT_POLL_INTERVAL_SECONDS = 60;
+const DEFAULT_LEASE_SECONDS = 120;
+
+type TenantPartner = NonNullable<
+  GetTenantPartnerByIdQueryResult['TenantPartners_by_pk']
+>;
+
+/**
+ * Pulls the tokens of an eMSP from its Tokens sender interface, following the Link header page by
+ * page. Every pull is recorded as an AsyncJobStatus holding the offset of the next page, so that it
+ * can be stopped, resumed, and continued after a restart. Partners with a schedule are pulled
+ * periodically with the tokens changed since the start of their last successful pull.
+ *
+ * A job runs in the instance holding its lease in the database, which is renewed while the job
+ * runs. Jobs whose lease expired, e.g. because their instance stopped, are taken over by the next
+ * instance polling for interrupted jobs.
+ */
+@Service()
+export class TokensAdminService {
+  private readonly running = new Map<string, Promise<void>>();
+  private readonly instanceId = uuidv4();
+  private pollTimer?: NodeJS.Timeout;
+
+  constructor(
+    private readonly logger: Logger<ILogObj>,
+    @Inject(OcpiConfigToken) private readonly config: OcpiConfig,
+    private readonly ocpiGraphqlClient: OcpiGraphqlClient,
+    private readonly tokensClientApi: TokensClientApi,
+    private readonly tokensService: TokensService,
+  ) {}
+
+  /**
+   * Continues the jobs interrupted by a restart and starts the scheduled pulls, then polls for
+   * both.
+   */
+  start(): void {
+    if (this.pollTimer) {
+      return;
+    }
+    this.poll();
+    const intervalSeconds =
+      this.config.tokensSync?.pollIntervalSeconds ??
+      DEFAULT_POLL_INTERVAL_SECONDS;
+    this.pollTimer = setInterval(() => this.poll(), intervalSeconds * 1000);
+  }
+
+  stop(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = undefined;
+    }
+  }
+
+  async startFetchTokensByParty(
+    asyncJobRequest: AsyncJobRequest,
+  ): Promise<AsyncJobStatusResponse> {
+    const activeJobs = await this.getFetchTokensJobs(
+      asyncJobRequest.tenantPartnerId,
+      true,
+    );
+    if (activeJobs.length > 0) {
+      throw new InvalidParamException(
+        `Another job for TenantPartner ${asyncJobRequest.tenantPartnerId} is already in progress with ID ${activeJobs[0].jobId}`,
+      );
+    }
+    // Fails early for unknown partners
+    await this.getTenantPartner(asyncJobRequest.tenantPartnerId);
+
+    const now = new Date().toISOString();
+    const response = await this.ocpiGraphqlClient.request<
+      InsertAsyncJobStatusMutationResult,
+      InsertAsyncJobStatusMutationVariables
+    >(INSERT_ASYNC_JOB_STATUS_MUTATION, {
+      object: {
+        jobId: uuidv4(),
+        jobName: AsyncJobName.FETCH_OCPI_TOKENS,
+        tenantPartnerId: asyncJobRequest.tenantPartnerId,
+        stopScheduled: false,
+        isFailed: false,
+        paginationParams: {
+          offset: asyncJobRequest.paginatedParams?.offset ?? 0,
+          limit:
+            asyncJobRequest.paginatedParams?.limit ??
+            this.config.tokensSync?.pageLimit ??
+            DEFAULT_PAGE_LIMIT,
+          dateFrom: asyncJobRequest.paginatedParams?.dateFrom,
+          dateTo: asyncJobRequest.paginatedParams?.dateTo,
+        },
+        createdAt: now,
+        updatedAt: now,
+      },
+    });
+    const asyncJobStatus = this.toAsyncJobStatusResponse(
+      response.insert_AsyncJobStatuses_one!,
+    );
+    this.run(asyncJobStatus);
+    return asyncJobStatus;
+  }
+
+  /**
+   * Stops a job after the page it is fetching. A job that is not running in any instance is stopped
+   * right away.
+   */
+  async stopFetchTokens(jobId: string): Promise<AsyncJobStatusResponse> {
+    const existingJob = await this.getExistingJob(jobId);
+    if (existingJob.finishedAt || existingJob.stoppedAt) {
+      throw new InvalidParamException(`Job ${jobId} is not in progress`);
+    }
+    return this.updateJob(jobId, {
+      stopScheduled: true,
+      stoppedAt: this.isRunning(existingJob)
+        ? undefined
+        : new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Resumes a stopped or failed job from the page it did not complete.
+   */
+  async resumeFetchTokens(jobId: string): Promise<AsyncJobStatusResponse> {
+    const existingJob = await this.getExistingJob(jobId);
+    if (!existingJob.stopScheduled && !existingJob.isFailed) {
+      throw new InvalidParamException(
+        `Job ${jobId} is not stopped. Cannot resume.`,
+      );
+    }
+    if (this.isRunning(existingJob)) {
+      throw new InvalidParamException(`Job ${jobId} is still stopping`);
+    }
+    const activeJobs = await this.getFetchTokensJobs(
+      existingJob.tenantPartnerId,
+      true,
+    );
+    const otherJob = activeJobs.find((job) => job.jobId !== jobId);
+    if (otherJob) {
+      throw new InvalidParamException(
+        `Another job for TenantPartner ${existingJob.tenantPartnerId} is already in progress with ID ${otherJob.jobId}`,
+      );
+    }
+    const asyncJobStatus = await this.updateJob(jobId, {
+      stopScheduled: false,
+      isFailed: false,
+      stoppedAt: null,
+      finishedAt: null,
+    });
+    this.run(asyncJobStatus);
+    return asyncJobStatus;
+  }
+
+  async getFetchTokensJob(
+    jobId: string,
+  ): Promise<AsyncJobStatusResponse | undefined> {
+    const job = await this.getJob(jobId);
+    return job ? this.toAsyncJobStatusResponse(job) : undefined;
+  }
+
+  /**
+   * Lists the jobs of a partner, newest first. Active jobs are neither finished nor stopped.
+   */
+  async getFetchTokensJobs(
+    tenantPartnerId: number,
+    active?: boolean,
+  ): Promise<AsyncJobStatusResponse[]> {
+    const where: AsyncJobStatuses_Bool_Exp = {
+      jobName: { _eq: AsyncJobName.FETCH_OCPI_TOKENS },
+      tenantPartnerId: { _eq: tenantPartnerId },
+    };
+    if (active) {
+      where.finishedAt = { _is_null: true };
+      where.stoppedAt = { _is_null: true };
+    } else if (active === false) {
+      where._or = [
+        { finishedAt: { _is_null: false } },
+        { stoppedAt: { _is_null: false } },
+      ];
+    }
+    return this.getJobs(where);
+  }
+
+  async deleteFetchTokensJob(
+    jobId: string,
+  ): Promise<AsyncJobStatusResponse | undefined> {
+    const job = await this.getJob(jobId);
+    if (job && this.isRunning(job)) {
+      throw new InvalidParamException(
+        `Job ${jobId} is in progress and must be stopped first`,
+      );
+    }
+    const response = await this.ocpiGraphqlClient.request<
+      DeleteAsyncJobStatusMutationResult,
+      DeleteAsyncJobStatusMutationVariables
+    >(DELETE_ASYNC_JOB_STATUS_MUTATION, { jobId });
+    return response.delete_AsyncJobStatuses_by_pk
+      ? this.toAsyncJobStatusResponse(response.delete_AsyncJobStatuses_by_pk)
+      : undefined;
+  }
+
+  private poll(): void {
+    this.resumeInterruptedJobs().catch((e) =>
+      this.logger.error('Failed to resume token pulls', e),
+    );
+    this.startScheduledJobs().catch((e) =>
+      this.logger.error('Token pull schedule failed', e),
+    );
+  }
+
+  /**
+   * Runs the job in the background once this instance holds its lease, which is renewed until
+   * the job ends. The job is left to the instance holding the lease otherwise.
+   */
+  private run(asyncJobStatus: AsyncJobStatusResponse): void {
+    const jobId = asyncJobStatus.jobId;
+    const execution = this.claim(jobId)
+      .then(async (claimed) => {
+        if (!claimed) {
+          this.logger.debug(`Token pull ${jobId} runs in another instance`);
+          return;
+        }
+        const lease = { lost: false };
+        const heartbeat = setInterval(
+          () => {
+            this.claim(jobId)
+              .then((renewed) => {
+                lease.lost = !renewed;
+              })
+              .catch((e) =>
+                this.logger.error(`Failed to renew token pull ${jobId}`, e),
+              );
+          },
+          (this.leaseSeconds * 1000) / 3,
+        );
+        try {
+          await this.fetchTokens(asyncJobStatus, lease);
+        } finally {
+          clearInterval(heartbeat);
+        }
+      })
+      .catch((e) => {
+        this.logger.error(`Failed to complete token pull ${jobId}`, e);
+      })
+      .finally(() => this.running.delete(jobId));
+    this.running.set(jobId, execution);
+  }
+
+  /**
+   * Leases the job to this instance, or renews the lease it holds. Returns false when another
+   * instance holds the lease or the job ended.
+   */
+  private async claim(jobId: string): Promise<boolean> {
+    const now = new Date();
+    const response = await this.ocpiGraphqlClient.request<
+      ClaimAsyncJobStatusMutationResult,
+      ClaimAsyncJobStatusMutationVariables
+    >(CLAIM_ASYNC_JOB_STATUS_MUTATION, {
+      jobId,
+      owner: this.instanceId,
+      now: now.toISOString(),
+      lockedUntil: new Date(
+        now.getTime() + this.leaseSeconds * 1000,
+      ).toISOString(),
+    });
+    return (response.update_AsyncJobStatuses?.affected_rows ?? 0) > 0;
+  }
+
+  /**
+   * Whether the job runs in this instance or holds an unexpired lease of another one.
+   */
+  private isRunning(job: AsyncJobStatusFields): boolean {
+    return (
+      this.running.has(job.jobId) ||
+      (!!job.lockedUntil && new Date(job.lockedUntil) > new Date())
+    );
+  }
+
+  private get leaseSeconds(): number {
+    return this.config.tokensSync?.leaseSeconds ?? DEFAULT_LEASE_SECONDS;
+  }
+
+  /**
+   * Pulls the pages of the job. A job whose lease was taken over by another instance is left to it
+   * after the current page.
+   */
+  private async fetchTokens(
+    asyncJobStatus: AsyncJobStatusResponse,
+    lease: { lost: boolean },
+  ): Promise<void> {
+    const jobId = asyncJobStatus.jobId;
+    const paginatedParams = { ...asyncJobStatus.paginatedParams };
+    let stopped = false;
+    let isFailed = false;
+    try {
+      const tenantPartner = await this.getTenantPartner(
+        asyncJobStatus.tenantPartnerId,
+      );
+      const params = buildPaginatedParams(
+        paginatedParams.offset,
+        paginatedParams.limit,
+        paginatedParams.dateFrom,
+        paginatedParams.dateTo,
+      );
+      let finished = false;
+      while (!finished) {
+        const response = await this.tokensClientApi.getTokens(
+          tenantPartner.tenant.countryCode,
+          tenantPartner.tenant.partyId,
+          tenantPartner.countryCode,
+          tenantPartner.partyId,
+          tenantPartner.partnerProfileOCPI,
+          params,
+        );
+        if (
+          response.status_code !== OcpiResponseStatusCode.GenericSuccessCode
+        ) {
+          throw new UnsuccessfulRequestException(
+            `Tokens sender responded with status ${response.status_code}: ${response.status_message}`,
+          );
+        }
+        for (const token of response.data ?? []) {
+          await this.upsertToken(token as TokenDTO, tenantPartner);
+        }
+
+        // The offset of the next page is taken from the Link header, there is none after the last page
+        finished = !response.link;
+        if (!finished) {
+          params.offset = response.offset;
+          params.limit = response.limit || params.limit;
+        }
+        paginatedParams.offset = params.offset;
+        paginatedParams.limit = params.limit;
+        if (lease.lost) {
+          this.logger.warn(
+            `Token pull ${jobId} lost its lease, leaving it to the instance holding it`,
+          );
+          return;
+        }
+        const updated = await this.updateJob(jobId, {
+          paginationParams: paginatedParams,
+          totalObjects: response.total,
+        });
+        if (!finished && updated.stopScheduled) {
+          stopped = true;
+          break;
+        }
+      }
+    } catch (e) {
+      this.logger.error(`Token pull ${jobId} failed`, e);
+      isFailed = true;
+    }
+
+    const now = new Date().toISOString();
+    await this.updateJob(jobId, {
+      ...(stopped ? { stoppedAt: now } : { finishedAt: now, isFailed }),
+      lockedBy: null,
+      lockedUntil: null,
+    });
+  }
+
+  /**
+   * A token the partner rejects or that cannot be stored does not fail the rest of the pull.
+   */
+  private async upsertToken(
+    token: TokenDTO,
+    tenantPartner: TenantPartner,
+  ): Promise<void> {
+    try {
+      await this.tokensService.upsertToken(
+        token,
+        tenantPartner.tenantId,
+        tenantPartner.id,
+      );
+    } catch (e) {
+      this.logger.error(`Failed to upsert pulled token ${token.uid}`, e);
+    }
+  }
+
+  /**
+   * Takes over the active jobs that no instance holds a lease of, i.e. whose instance stopped
+   * while running them.
+   */
+  private async resumeInterruptedJobs(): Promise<void> {
+    const jobs = await this.getJobs({
+      jobName: { _eq: AsyncJobName.FETCH_OCPI_TOKENS },
+      finishedAt: { _is_null: true },
+      stoppedAt: { _is_null: true },
+    });
+    for (const job of jobs) {
+      if (this.running.has(job.jobId)) {
+        continue;
+      }
+      if (job.stopScheduled) {
+        // Stop was requested before the instance running the job stopped
+        if (await this.claim(job.jobId)) {
+          await this.updateJob(job.jobId, {
+            stoppedAt: new Date().toISOString(),
+            lockedBy: null,
+            lockedUntil: null,
+          });
+        }
+      } else {
+        this.logger.info(`Resuming token pull ${job.jobId}`);
+        this.run(job);
+      }
+    }
+  }
+
+  /**
+   * Starts a delta pull for every scheduled partner whose last successful pull started longer ago
+   * than its interval. A partner without a successful pull gets a full pull.
+   */
+  private async startScheduledJobs(): Promise<void> {
+    const schedules = this.config.tokensSync?.schedules ?? {};
+    for (const [tenantPartnerId, intervalSeconds] of Object.entries(
+      schedules,
+    )) {
+      try {
+        const jobs = await this.getFetchTokensJobs(Number(tenantPartnerId));
+        if (jobs.some((job) => !job.finishedAt && !job.stoppedAt)) {
+          continue;
+        }
+        const lastSuccessfulJob = jobs.find(
+          (job) => job.finishedAt && !job.isFailed,
+        );
+        if (
+          lastSuccessfulJob &&
+          lastSuccessfulJob.createdAt.getTime() + intervalSeconds * 1000 >
+            Date.now()
+        ) {
+          continue;
+        }
+        await this.startFetchTokensByParty({
+          tenantPartnerId: Number(tenantPartnerId),
+          paginatedParams: {
+            dateFrom: lastSuccessfulJob?.createdAt,
+          },
+        });
+      } catch (e) {
+        this.logger.error(
+          `Failed to start scheduled token pull for TenantPartner ${tenantPartnerId}`,
+          e,
+        );
+      }
+    }
+  }
+
+  private async getJob(
+    jobId: string,
+  ): Promise<AsyncJobStatusFields | undefined> {
+    const response = await this.ocpiGraphqlClient.request<
+      GetAsyncJobStatusQueryResult,
+      GetAsyncJobStatusQueryVariables
+    >(GET_ASYNC_JOB_STATUS_QUERY, { jobId });
+    return response.AsyncJobStatuses_by_pk ?? undefined;
+  }
+
+  private async getExistingJob(jobId: string): Promise<AsyncJobStatusFields> {
+    const existingJob = await this.getJob(jobId);
+    if (!existingJob) {
+      throw new NotFoundException(`No job found for job ID: ${jobId}`);
+    }
+    return existingJob;
+  }
+
+  private async getJobs(
+    where: AsyncJobStatuses_Bool_Exp,
+  ): Promise<AsyncJobStatusResponse[]> {
+    const response = await this.ocpiGraphqlClient.request<
+      GetAsyncJobStatusesQueryResult,
+      GetAsyncJobStatusesQueryVariables
+    >(GET_ASYNC_JOB_STATUSES_QUERY, { where });
+    return response.AsyncJobStatuses.map((asyncJobStatus) =>
+      this.toAsyncJobStatusResponse(asyncJobStatus),
+    );
+  }
+
+  private async updateJob(
+    jobId: string,
+    set: Omit<AsyncJobStatuses_Set_Input, 'updatedAt'>,
+  ): Promise<AsyncJobStatusResponse> {
+    const response = await this.ocpiGraphqlClient.request<
+      UpdateAsyncJobStatusMutationResult,
+      UpdateAsyncJobStatusMutationVariables
+    >(UPDATE_ASYNC_JOB_STATUS_MUTATION, {
+      jobId,
+      set: { ...set, updatedAt: new Date().toISOString() },
+    });
+    if (!response.update_AsyncJobStatuses_by_pk) {
+      throw new NotFoundException(`No job found for job ID: ${jobId}`);
+    }
+    return this.toAsyncJobStatusResponse(
+      response.update_AsyncJobStatuses_by_pk,
+    );
+  }
+
+  private async getTenantPartner(
+    tenantPartnerId: number,
+  ): Promise<TenantPartner> {
+    const response = await this.ocpiGraphqlClient.request<
+      GetTenantPartnerByIdQueryResult,
+      GetTenantPartnerByIdQueryVariables
+    >(GET_TENANT_PARTNER_BY_ID, { id: tenantPartnerId });
+    if (!response.TenantPartners_by_pk) {
+      throw new NotFoundException(`TenantPartner ${tenantPartnerId} not found`);
+    }
+    return response.TenantPartners_by_pk;
+  }
+
+  private toAsyncJobStatusResponse(
+    asyncJobStatus: AsyncJobStatusFields,
+  ): AsyncJobStatusResponse {
+    const paginationParams = asyncJobStatus.paginationParams ?? {};
+    const paginatedParams: AsyncJobPaginatedParams = {
+      offset: paginationParams.offset,
+      limit: paginationParams.limit,
+      dateFrom: paginationParams.dateFrom
+        ? new Date(paginationParams.dateFrom)
+        : undefined,
+      dateTo: paginationParams.dateTo
+        ? new Date(paginationParams.dateTo)
+        : undefined,
+    };
+    return {
+      jobId: asyncJobStatus.jobId,
+      jobName: asyncJobStatus.jobName as AsyncJobName,
+      tenantPartnerId: asyncJobStatus.tenantPartnerId,
+      finishedAt: asyncJobStatus.finishedAt
+        ? new Date(asyncJobStatus.finishedAt)
+        : undefined,
+      stoppedAt: asyncJobStatus.stoppedAt
+        ? new Date(asyncJobStatus.stoppedAt)
+        : null,
+      stopScheduled: asyncJobStatus.stopScheduled,
+      isFailed: asyncJobStatus.isFailed,
+      paginatedParams,
+      totalObjects: asyncJobStatus.totalObjects ?? undefined,
+      createdAt: new Date(asyncJobStatus.createdAt),
+      updatedAt: new Date(asyncJobStatus.updatedAt),
+    };
+  }
+}
@@ -2,7 +2,7 @@
 //
 // SPDX-License-Identifier: Apache-2.0
 
-import { Service } from 'typedi';
+import { Inject, Service } from 'typedi';
 import { OcpiLogger } from '../util/OcpiLogger';
 import { SingleTokenRequest, TokenDTO } from '../model/DTO/TokenDTO';
 import { TokenType } from '../model/TokenType';
@@ -53,6 +53,11 @@ import { GET_CHARGING_STATION_BY_ID_QUERY } from '../graphql/queries/chargingSta
 import { LocationReferences } from '../model/LocationReferences';
 import { UID_FORMAT } from '../model/DTO/EvseDTO';
 import { OcpiResponseStatusCode } from '../model/OcpiResponse';
+import { AuthorizationInfoAllowed } from '../model/AuthorizationInfoAllowed';
+import { AuthMethod } from '../model/AuthMethod';
+import { SessionAuthorization } from '../model/SessionAuthorization';
+import { CacheWrapper } from '../util/CacheWrapper';
+import { TOKEN_ID_TO_AUTH_REF_CACHE_NAMESPACE } from '../util/Consts';
 
 @Service()
 export class TokensService {
@@ -60,6 +65,7 @@ export class TokensService {
     private readonly logger: OcpiLogger,
     private readonly ocpiGraphqlClient: OcpiGraphqlClient,
     private readonly tokensClientApi: TokensClientApi,
+    @Inject() private readonly cacheWrapper: CacheWrapper,
   ) {}
 
   async getToken(
@@ -210,7 +216,10 @@ export class TokensService {
       }
     }
     if ((authorization as any).customData !== undefined) {
-      set.customData = (authorization as any).customData;
+      set.customData = {
+        ...existingAuth.Authorizations[0].customData,
+        ...(authorization as any).customData,
+      };
     }
     if (authorization.status) set.status = authorization.status;
     if (authorization.language1) set.language1 = authorization.language1;
@@ -303,6 +312,20 @@ export class TokensService {
       );
     }
 
+    if (postTokenResult.data!.allowed === AuthorizationInfoAllowed.Allowed) {
+      // Remembered for the transaction this authorization starts, see SessionsModule
+      const sessionAuthorization: SessionAuthorization = {
+        auth_method: AuthMethod.AUTH_REQUEST,
+        authorization_reference: postTokenResult.data!.authorization_reference,
+      };
+      await this.cacheWrapper.cache.set(
+        TokensMapper.normalizeToken(realTimeAuthRequest.idToken) || '',
+        JSON.stringify(sessionAuthorization),
+        TOKEN_ID_TO_AUTH_REF_CACHE_NAMESPACE,
+        60,
+      );
+    }
+
     return {
       timestamp:
         typeof postTokenResult.timestamp === 'string'
@@ -0,0 +1,154 @@
+// SPDX-FileCopyrightText: 2025 Contributors to the CitrineOS Project
+//
+// SPDX-License-Identifier: Apache-2.0
+
+import { ILogObj, Logger } from 'tslog';
+import { Service } from 'typedi';
+import { V211Mapper } from '../mapper/V211Mapper';
+import { Cdr } from '../model/Cdr';
+import { ConnectorDTO } from '../model/DTO/ConnectorDTO';
+import { CredentialsDTO } from '../model/DTO/CredentialsDTO';
+import { EvseDTO } from '../model/DTO/EvseDTO';
+import { LocationDTO } from '../model/DTO/LocationDTO';
+import { TokenDTO } from '../model/DTO/TokenDTO';
+import { ModuleId } from '../model/ModuleId';
+import { Session } from '../model/Session';
+import { Tariff } from '../model/Tariff';
+import { V211Location } from '../model/v211/V211Location';
+import { LocationsService } from './LocationsService';
+
+/**
+ * Translates the payloads of a module into their OCPI 2.1.1 shape, both for responses to 2.1.1
+ * requests and for pushes to partners that negotiated 2.1.1. Unlike {@link V211Mapper}, it looks up
+ * the location of sessions and CDRs that 2.1.1 embeds but 2.2.1 only references.
+ */
+@Service()
+export class V211TranslationService {
+  constructor(
+    private readonly logger: Logger<ILogObj>,
+    private readonly locationsService: LocationsService,
+  ) {}
+
+  /**
+   * Translates a single payload or a page of payloads. Payloads of modules that did not change
+   * between the versions are returned as they are.
+   */
+  async toV211(moduleId: ModuleId, payload: any): Promise<any> {
+    if (!payload) {
+      return payload;
+    }
+    if (Array.isArray(payload)) {
+      const locations = new Map<string, Promise<LocationDTO | undefined>>();
+      const translated = [];
+      for (const item of payload) {
+        translated.push(await this.translate(moduleId, item, locations));
+      }
+      return translated;
+    }
+    return this.translate(moduleId, payload, new Map());
+  }
+
+  private async translate(
+    moduleId: ModuleId,
+    payload: any,
+    locations: Map<string, Promise<LocationDTO | undefined>>,
+  ): Promise<any> {
+    switch (moduleId) {
+      case ModuleId.Credentials:
+        return V211Mapper.toCredentials(payload as CredentialsDTO);
+      case ModuleId.Locations:
+        return this.translateLocationsPayload(payload);
+      case ModuleId.Sessions:
+        return this.translateSession(payload as Partial<Session>, locations);
+      case ModuleId.Cdrs:
+        return this.translateCdr(payload as Cdr, locations);
+      case ModuleId.Tariffs:
+        return V211Mapper.toTariff(payload as Partial<Tariff>);
+      case ModuleId.Tokens:
+        return V211Mapper.toToken(payload as TokenDTO);
+      default:
+        return payload;
+    }
+  }
+
+  /**
+   * The locations module exchanges locations, EVSEs and connectors, told apart by their fields.
+   */
+  private translateLocationsPayload(
+    payload: Partial<LocationDTO | EvseDTO | ConnectorDTO>,
+  ): any {
+    if ('address' in payload || 'parking_type' in payload) {
+      return V211Mapper.toLocation(payload as Partial<LocationDTO>);
+    }
+    if ('connectors' in payload || 'uid' in payload) {
+      return V211Mapper.toEvse(payload as Partial<EvseDTO>);
+    }
+    if (
+      'standard' in payload ||
+      'max_voltage' in payload ||
+      'tariff_ids' in payload
+    ) {
+      return V211Mapper.toConnector(payload as Partial<ConnectorDTO>);
+    }
+    return payload;
+  }
+
+  private async translateSession(
+    session: Partial<Session>,
+    locations: Map<string, Promise<LocationDTO | undefined>>,
+  ): Promise<any> {
+    let location: V211Location | undefined;
+    if (session.location_id && session.evse_uid && session.connector_id) {
+      const locationDto = await this.getLocation(
+        session.location_id,
+        locations,
+      );
+      if (locationDto) {
+        location = V211Mapper.toLocation({
+          ...locationDto,
+          evses: locationDto.evses
+            ?.filter((evse) => evse.uid === session.evse_uid)
+            .map((evse) => ({
+              ...evse,
+              connectors: evse.connectors.filter(
+                (connector) => connector.id === session.connector_id,
+              ),
+            })),
+        }) as V211Location;
+      }
+    }
+    return V211Mapper.toSession(session, location);
+  }
+
+  private async translateCdr(
+    cdr: Cdr,
+    locations: Map<string, Promise<LocationDTO | undefined>>,
+  ): Promise<any> {
+    const cdrLocation = cdr.cdr_location;
+    const locationDto = await this.getLocation(cdrLocation.id, locations);
+    const connector = locationDto?.evses
+      ?.find((evse) => evse.uid === cdrLocation.evse_uid)
+      ?.connectors.find(
+        (connector) => connector.id === cdrLocation.connector_id,
+      );
+    return V211Mapper.toCdr(cdr, connector);
+  }
+
+  private getLocation(
+    locationId: string,
+    locations: Map<string, Promise<LocationDTO | undefined>>,
+  ): Promise<LocationDTO | undefined> {
+    let location = locations.get(locationId);
+    if (!location) {
+      location = this.locationsService
+        .getLocationById(Number(locationId))
+        .then((response) => response.data)
+        .catch((e) => {
+          this.logger.warn(`Location ${locationId} not found`, e);
+          return undefined;
+        });
+      locations.set(locationId, location);
+    }
+    return location;
+  }
+}
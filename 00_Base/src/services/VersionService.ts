@@ -12,6 +12,8 @@ import { VersionListResponseDTO } from '../model/DTO/VersionListResponseDTO';
 import { OcpiResponseStatusCode } from '../model/OcpiResponse';
 import { ITenantDto, OCPIRegistration } from '@citrineos/base';
 import { RegistrationMapper } from '../mapper/RegistrationMapper';
+import { V211Mapper } from '../mapper/V211Mapper';
+import { V211VersionDetailsResponse } from '../model/v211/V211VersionDetails';
 import {
   GetTenantByIdQueryResult,
   GetTenantByIdQueryVariables,
@@ -43,7 +45,7 @@ export class VersionService {
   async getVersionDetails(
     tenantId: number,
     version: VersionNumber,
-  ): Promise<VersionDetailsResponseDTO> {
+  ): Promise<VersionDetailsResponseDTO | V211VersionDetailsResponse> {
     const response = await this.ocpiGraphqlClient.request<
       GetTenantByIdQueryResult,
       GetTenantByIdQueryVariables
@@ -57,19 +59,21 @@ export class VersionService {
     if (!tenantVersionEndpoints) {
       throw new NotFoundError('Version not found');
     }
+    const endpoints =
+      tenantVersionEndpoints.map((value: OCPIRegistration.Endpoint) => {
+        const { identifier, role } = RegistrationMapper.toModuleAndRole(value);
+        return {
+          identifier,
+          role,
+          url: value.url,
+        };
+      }) || [];
     return {
       data: {
         version: version,
-        endpoints:
-          tenantVersionEndpoints.map((value: OCPIRegistration.Endpoint) => {
-            const { identifier, role } =
-              RegistrationMapper.toModuleAndRole(value);
-            return {
-              identifier,
-              role,
-              url: value.url,
-            };
-          }) || [],
+        endpoints: V211Mapper.isV211(version)
+          ? V211Mapper.toEndpoints(endpoints)
+          : endpoints,
       },
       status_code: OcpiResponseStatusCode.GenericSuccessCode,
       timestamp: new Date().toISOString(),
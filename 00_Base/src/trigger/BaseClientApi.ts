@@ -29,9 +29,12 @@ import {
   LIST_TENANT_PARTNERS_BY_CPO,
   LIST_TENANT_PARTNERS_BY_CPO_AND_LOCATION,
 } from '../graphql/queries/tenantPartner.queries';
+import { V211Mapper } from '../mapper/V211Mapper';
 import { InterfaceRole } from '../model/InterfaceRole';
 import { ModuleId } from '../model/ModuleId';
+import { OcpiTrafficDirection } from '../model/OcpiTrafficLog';
 import { VersionNumber } from '../model/VersionNumber';
+import { OcpiTrafficAuditService } from '../services/OcpiTrafficAuditService';
 import { OcpiHttpHeader } from '../util/OcpiHttpHeader';
 import { base64Encode } from '../util/Util';
 import { PaginatedParams } from './param/PaginatedParams';
@@ -87,11 +90,28 @@ export interface TriggerRequestOptions extends IRequestOptions {
   async?: boolean;
 }
 
+/**
+ * Error the RestClient rejects with for a non-2xx response, carrying its status and body.
+ */
+interface RestClientError extends Error {
+  statusCode: number;
+  result?: unknown;
+}
+
+function isRestClientError(error: unknown): error is RestClientError {
+  return (
+    error instanceof Error &&
+    typeof (error as Partial<RestClientError>).statusCode === 'number'
+  );
+}
+
 export abstract class BaseClientApi {
   @Inject()
   protected logger!: Logger<ILogObj>;
   @Inject()
   protected ocpiGraphqlClient!: OcpiGraphqlClient;
+  @Inject()
+  protected trafficAuditService!: OcpiTrafficAuditService;
 
   CONTROLLER_PATH = 'null';
   private restClient!: RestClient;
@@ -142,6 +162,7 @@ export abstract class BaseClientApi {
     otherParams?: Record<string, string | number | (string | number)[]>,
     path?: string,
     overrideToken?: string,
+    onResponseHeaders?: (headers: IHeaders) => void,
   ): Promise<any> {
     if (!partnerProfile) {
       const response = await this.ocpiGraphqlClient.request<
@@ -163,11 +184,13 @@ export abstract class BaseClientApi {
       url += path;
     }
     const additionalHeaders = this.getHeaders(partnerProfile, overrideToken);
-    if (routingHeaders) {
-      // additionalHeaders[OcpiHttpHeader.OcpiFromCountryCode] = fromCountryCode;
-      // additionalHeaders[OcpiHttpHeader.OcpiFromPartyId] = fromPartyId;
-      // additionalHeaders[OcpiHttpHeader.OcpiToCountryCode] = toCountryCode;
-      // additionalHeaders[OcpiHttpHeader.OcpiToPartyId] = toPartyId;
+    // 2.1.1 has no routing headers
+    if (routingHeaders && !V211Mapper.isV211(partnerProfile.version?.version)) {
+      // Addressed to the final recipient, which is not the partner itself when it is a hub
+      additionalHeaders[OcpiHttpHeader.OcpiFromCountryCode] = fromCountryCode;
+      additionalHeaders[OcpiHttpHeader.OcpiFromPartyId] = fromPartyId;
+      additionalHeaders[OcpiHttpHeader.OcpiToCountryCode] = toCountryCode;
+      additionalHeaders[OcpiHttpHeader.OcpiToPartyId] = toPartyId;
     }
     const options: IRequestOptions = { additionalHeaders };
     const queryParameters: IRequestQueryParams = {
@@ -198,32 +221,67 @@ export abstract class BaseClientApi {
       }
     }
     options.queryParameters = queryParameters;
+
+    const start = Date.now();
+    const audit = (
+      response?: IRestResponse<unknown>,
+      error?: unknown,
+    ): void => {
+      const restClientError = isRestClientError(error) ? error : undefined;
+      this.trafficAuditService.record({
+        direction: OcpiTrafficDirection.OUTBOUND,
+        module:
+          this.CONTROLLER_PATH !== 'null' ? this.CONTROLLER_PATH : undefined,
+        method: httpMethod,
+        url: url!,
+        fromCountryCode,
+        fromPartyId,
+        toCountryCode,
+        toPartyId,
+        requestId: additionalHeaders[OcpiHttpHeader.XRequestId],
+        correlationId: additionalHeaders[OcpiHttpHeader.XCorrelationId],
+        httpStatus: response?.statusCode ?? restClientError?.statusCode,
+        latencyMs: Date.now() - start,
+        requestBody: body,
+        responseBody: response?.result ?? restClientError?.result,
+        error,
+      });
+    };
+    let response: IRestResponse<unknown>;
+    try {
+      response = await this.sendRaw(httpMethod, url, body, options);
+    } catch (error) {
+      audit(undefined, error);
+      throw error;
+    }
+    audit(response);
+    return this.handleResponse(schema, response, onResponseHeaders);
+  }
+
+  private sendRaw(
+    httpMethod: HttpMethod,
+    url: string,
+    body: any,
+    options: IRequestOptions,
+  ): Promise<IRestResponse<unknown>> {
     switch (httpMethod) {
       case HttpMethod.Get:
         this.logger.debug(`Sending GET request to ${url}`);
-        return this.getRaw<T>(url, options).then((response) =>
-          this.handleResponse(schema, response),
-        );
+        return this.getRaw(url, options);
       case HttpMethod.Post:
         this.logger.debug(`Sending POST request to ${url}`, body);
-        return this.createRaw<T>(url, body, options).then((response) =>
-          this.handleResponse(schema, response),
-        );
+        return this.createRaw(url, body, options);
       case HttpMethod.Put:
         this.logger.debug(`Sending PUT request to ${url}`, body);
-        return this.replaceRaw<T>(url, body, options).then((response) =>
-          this.handleResponse(schema, response),
-        );
+        return this.replaceRaw(url, body, options);
       case HttpMethod.Patch:
         this.logger.debug(`Sending PATCH request to ${url}`, body);
-        return this.updateRaw<T>(url, body, options).then((response) =>
-          this.handleResponse(schema, response),
-        );
+        return this.updateRaw(url, body, options);
       case HttpMethod.Delete:
         this.logger.debug(`Sending DELETE request to ${url}`);
-        return this.delRaw<T>(url, options).then((response) =>
-          this.handleResponse(schema, response),
-        );
+        return this.delRaw(url, options);
+      default:
+        throw new Error(`Unsupported HTTP method ${httpMethod}`);
     }
   }
 
@@ -274,6 +332,41 @@ export abstract class BaseClientApi {
     return 0;
   }
 
+  /**
+   * Lists the partners of a CPO that registered the given module endpoint.
+   * When a locationId is given, only partners the location is published to are returned.
+   */
+  public async getBroadcastPartners(
+    cpoCountryCode: string,
+    cpoPartyId: string,
+    moduleId: ModuleId,
+    interfaceRole: InterfaceRole,
+    locationId?: number,
+  ): Promise<ITenantPartnerDto[]> {
+    const endpointIdentifier = `${moduleId}_${interfaceRole}`;
+    if (locationId !== undefined) {
+      const response = await this.ocpiGraphqlClient.request<
+        TenantPartnersListByLocationQueryResult,
+        TenantPartnersListByLocationQueryVariables
+      >(LIST_TENANT_PARTNERS_BY_CPO_AND_LOCATION, {
+        cpoCountryCode,
+        cpoPartyId,
+        endpointIdentifier,
+        locationId,
+      });
+      return response.TenantPartners as ITenantPartnerDto[];
+    }
+    const response = await this.ocpiGraphqlClient.request<
+      TenantPartnersListQueryResult,
+      TenantPartnersListQueryVariables
+    >(LIST_TENANT_PARTNERS_BY_CPO, {
+      cpoCountryCode,
+      cpoPartyId,
+      endpointIdentifier,
+    });
+    return response.TenantPartners as ITenantPartnerDto[];
+  }
+
   public async broadcastToClients<T extends ZodTypeAny>(
     params: BroadcastParams<T>,
   ): Promise<BroadcastResponse<T>> {
@@ -301,30 +394,13 @@ export abstract class BaseClientApi {
     this.logger.debug(`Using URL: ${url} with path ${path}`);
     const successes: Array<{ partner: ITenantPartnerDto; response: T }> = [];
     const failures: Array<{ partner: ITenantPartnerDto; error: Error }> = [];
-    const endpointIdentifier = `${moduleId}_${interfaceRole}`;
-    let partners: ITenantPartnerDto[];
-    if (locationId !== undefined) {
-      const response = await this.ocpiGraphqlClient.request<
-        TenantPartnersListByLocationQueryResult,
-        TenantPartnersListByLocationQueryVariables
-      >(LIST_TENANT_PARTNERS_BY_CPO_AND_LOCATION, {
-        cpoCountryCode,
-        cpoPartyId,
-        endpointIdentifier,
-        locationId,
-      });
-      partners = response.TenantPartners as ITenantPartnerDto[];
-    } else {
-      const response = await this.ocpiGraphqlClient.request<
-        TenantPartnersListQueryResult,
-        TenantPartnersListQueryVariables
-      >(LIST_TENANT_PARTNERS_BY_CPO, {
-        cpoCountryCode,
-        cpoPartyId,
-        endpointIdentifier,
-      });
-      partners = response.TenantPartners as ITenantPartnerDto[];
-    }
+    const partners = await this.getBroadcastPartners(
+      cpoCountryCode,
+      cpoPartyId,
+      moduleId,
+      interfaceRole,
+      locationId,
+    );
     for (const partner of partners) {
       this.logger.debug(
         `Broadcasting partner ${partner.countryCode}_${partner.partyId}`,
@@ -363,9 +439,13 @@ export abstract class BaseClientApi {
   protected handleResponse<T extends ZodTypeAny>(
     schema: T,
     response: IRestResponse<unknown>,
+    onResponseHeaders?: (headers: IHeaders) => void,
   ): T {
     if (response.statusCode >= 200 && response.statusCode <= 299) {
       const result = response.result;
+      if (onResponseHeaders && response.headers) {
+        onResponseHeaders(response.headers as IHeaders);
+      }
 
       // Check if this is a paginated response by checking expected shape or keys
       const isPaginated =
@@ -2,54 +2,71 @@
 //
 // SPDX-License-Identifier: Apache-2.0
 
-// import { BaseClientApi } from './BaseClientApi';
-// import { PutChargingProfileParams } from './param/charging.profiles/PutChargingProfileParams';
-// import { IHeaders } from 'typed-rest-client/Interfaces';
-// import { Service } from 'typedi';
-// import { ModuleId } from '../model/ModuleId';
-// import { InterfaceRole } from '../model/InterfaceRole';
-// import { OcpiEmptyResponse } from '../model/OcpiEmptyResponse';
+import { BaseClientApi, MissingRequiredParamException } from './BaseClientApi';
+import { Inject, Service } from 'typedi';
+import {
+  OcpiEmptyResponse,
+  OcpiEmptyResponseSchema,
+} from '../model/OcpiEmptyResponse';
+import { ModuleId } from '../model/ModuleId';
+import { HttpMethod, OCPIRegistration } from '@citrineos/base';
+import { ActiveChargingProfileResult } from '../model/ActiveChargingProfileResult';
+import { ChargingProfileResult } from '../model/ChargingProfileResult';
+import { ClearChargingProfileResult } from '../model/ChargingprofilesClearProfileResult';
+import { CommandLedgerService } from '../services/CommandLedgerService';
 
-// @Service()
-// export class ChargingProfilesClientApi extends BaseClientApi {
-//   CONTROLLER_PATH = ModuleId.ChargingProfiles;
+@Service()
+export class ChargingProfilesClientApi extends BaseClientApi {
+  constructor(@Inject() readonly commandLedgerService: CommandLedgerService) {
+    super();
+  }
 
-//   async putChargingProfile(
-//     params: PutChargingProfileParams,
-//   ): Promise<OcpiEmptyResponse> {
-//     this.validateRequiredParam(params, 'sessionId', 'activeChargingProfile');
+  CONTROLLER_PATH = ModuleId.ChargingProfiles;
 
-//     params.authorization = await this.getAuthToken(
-//       params.fromCountryCode,
-//       params.fromPartyId,
-//       params.toCountryCode,
-//       params.toPartyId,
-//     );
+  getUrl(): string {
+    throw new MissingRequiredParamException(
+      `url must be provided by the charging profile request`,
+    );
+  }
 
-//     const endpoint = await this.getEndpointWithVersion(
-//       params.fromCountryCode,
-//       params.fromPartyId,
-//       params.toCountryCode,
-//       params.toPartyId,
-//       ModuleId.ChargingProfiles,
-//       InterfaceRole.RECEIVER,
-//     );
-//     params.version = endpoint.clientVersion.version;
+  async postChargingProfileResult(
+    fromCountryCode: string,
+    fromPartyId: string,
+    toCountryCode: string,
+    toPartyId: string,
+    partnerProfile: OCPIRegistration.PartnerProfile,
+    url: string, // Provided in the request
+    body:
+      | ActiveChargingProfileResult
+      | ChargingProfileResult
+      | ClearChargingProfileResult,
+    commandId: string,
+  ): Promise<OcpiEmptyResponse | undefined> {
+    // The result is claimed first so that the request is answered only once, e.g. not after it timed out
+    if (
+      !(await this.commandLedgerService.claimResult(commandId, body.result))
+    ) {
+      return undefined;
+    }
 
-//     this.baseUrl = endpoint.url;
-//     const additionalHeaders: IHeaders = this.getOcpiHeaders(params);
-
-//     return await this.replace(
-//       OcpiEmptyResponse,
-//       {
-//         version: params.version,
-//         path: '{sessionId}'.replace(
-//           '{sessionId}',
-//           encodeURIComponent(params.sessionId),
-//         ),
-//         additionalHeaders,
-//       },
-//       params.activeChargingProfile,
-//     );
-//   }
-// }
+    try {
+      const response = await this.request(
+        fromCountryCode,
+        fromPartyId,
+        toCountryCode,
+        toPartyId,
+        HttpMethod.Post,
+        OcpiEmptyResponseSchema,
+        partnerProfile,
+        true,
+        url,
+        body,
+      );
+      await this.commandLedgerService.recordDelivery(commandId);
+      return response;
+    } catch (error) {
+      await this.commandLedgerService.recordDelivery(commandId, error);
+      throw error;
+    }
+  }
+}
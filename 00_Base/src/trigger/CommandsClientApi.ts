@@ -9,13 +9,9 @@ import {
   OcpiEmptyResponseSchema,
 } from '../model/OcpiEmptyResponse';
 import { ModuleId } from '../model/ModuleId';
-import { HttpMethod, ICache, OCPIRegistration } from '@citrineos/base';
+import { HttpMethod, OCPIRegistration } from '@citrineos/base';
 import { CommandResult } from '../model/CommandResult';
-import {
-  COMMAND_RESPONSE_URL_CACHE_NAMESPACE,
-  COMMAND_RESPONSE_URL_CACHE_RESOLVED,
-} from '../util/Consts';
-import { CacheWrapper } from '../util/CacheWrapper';
+import { CommandLedgerService } from '../services/CommandLedgerService';
 import { ILogObj, Logger } from 'tslog';
 
 @Service()
@@ -23,11 +19,8 @@ export class CommandsClientApi extends BaseClientApi {
   @Inject()
   protected logger!: Logger<ILogObj>;
 
-  protected cache!: ICache;
-
-  constructor(@Inject() cacheWrapper: CacheWrapper) {
+  constructor(@Inject() readonly commandLedgerService: CommandLedgerService) {
     super();
-    this.cache = cacheWrapper.cache;
   }
 
   CONTROLLER_PATH = ModuleId.Commands;
@@ -45,34 +38,32 @@ export class CommandsClientApi extends BaseClientApi {
     url: string, // Provided in the command
     body: CommandResult,
     commandId: string,
-  ): Promise<OcpiEmptyResponse> {
-    await this.cache.set(
-      commandId,
-      COMMAND_RESPONSE_URL_CACHE_RESOLVED,
-      COMMAND_RESPONSE_URL_CACHE_NAMESPACE,
-      5, // Flush the resolution after a few seconds so that it doesn't stay in cache indefinitely
-    );
-
-    // Debug: Verify cache value was set correctly
-    const cachedValue = await this.cache.get(
-      commandId,
-      COMMAND_RESPONSE_URL_CACHE_NAMESPACE,
-    );
-    this.logger.debug(
-      `Cache retrieval after set - commandId: ${commandId}, cachedValue: ${JSON.stringify(cachedValue)}`,
-    );
+  ): Promise<OcpiEmptyResponse | undefined> {
+    // The result is claimed first so that a command is answered only once, e.g. not after it timed out
+    if (
+      !(await this.commandLedgerService.claimResult(commandId, body.result))
+    ) {
+      return undefined;
+    }
 
-    return this.request(
-      fromCountryCode,
-      fromPartyId,
-      toCountryCode,
-      toPartyId,
-      HttpMethod.Post,
-      OcpiEmptyResponseSchema,
-      partnerProfile,
-      true,
-      url,
-      body,
-    );
+    try {
+      const response = await this.request(
+        fromCountryCode,
+        fromPartyId,
+        toCountryCode,
+        toPartyId,
+        HttpMethod.Post,
+        OcpiEmptyResponseSchema,
+        partnerProfile,
+        true,
+        url,
+        body,
+      );
+      await this.commandLedgerService.recordDelivery(commandId);
+      return response;
+    } catch (error) {
+      await this.commandLedgerService.recordDelivery(commandId, error);
+      throw error;
+    }
   }
 }
@@ -16,6 +16,11 @@ import {
 import { HttpMethod, OCPIRegistration } from '@citrineos/base';
 import { EndpointIdentifier } from '../model/EndpointIdentifier';
 import { CredentialsDTO } from '..';
+import { V211Mapper } from '../mapper/V211Mapper';
+import {
+  V211CredentialsResponse,
+  V211CredentialsResponseSchema,
+} from '../model/v211/V211Credentials';
 
 @Service()
 export class CredentialsClientApi extends BaseClientApi {
@@ -62,6 +67,18 @@ export class CredentialsClientApi extends BaseClientApi {
     body: CredentialsDTO,
     overrideToken?: string,
   ): Promise<CredentialsResponse> {
+    if (V211Mapper.isV211(partnerProfile.version?.version)) {
+      return this.requestV211(
+        fromCountryCode,
+        fromPartyId,
+        toCountryCode,
+        toPartyId,
+        HttpMethod.Post,
+        partnerProfile,
+        body,
+        overrideToken,
+      );
+    }
     return this.request(
       fromCountryCode,
       fromPartyId,
@@ -89,6 +106,18 @@ export class CredentialsClientApi extends BaseClientApi {
     body: CredentialsDTO,
     overrideToken?: string,
   ): Promise<CredentialsResponse> {
+    if (V211Mapper.isV211(partnerProfile.version?.version)) {
+      return this.requestV211(
+        fromCountryCode,
+        fromPartyId,
+        toCountryCode,
+        toPartyId,
+        HttpMethod.Put,
+        partnerProfile,
+        body,
+        overrideToken,
+      );
+    }
     return this.request(
       fromCountryCode,
       fromPartyId,
@@ -125,4 +154,39 @@ export class CredentialsClientApi extends BaseClientApi {
       false,
     );
   }
+
+  /**
+   * Exchanges single-role credentials with a partner that negotiated 2.1.1.
+   */
+  private async requestV211(
+    fromCountryCode: string,
+    fromPartyId: string,
+    toCountryCode: string,
+    toPartyId: string,
+    method: HttpMethod,
+    partnerProfile: OCPIRegistration.PartnerProfile,
+    body: CredentialsDTO,
+    overrideToken?: string,
+  ): Promise<CredentialsResponse> {
+    const response: V211CredentialsResponse = await this.request(
+      fromCountryCode,
+      fromPartyId,
+      toCountryCode,
+      toPartyId,
+      method,
+      V211CredentialsResponseSchema,
+      partnerProfile,
+      false,
+      undefined,
+      V211Mapper.toCredentials(body),
+      undefined,
+      undefined,
+      undefined,
+      overrideToken,
+    );
+    return {
+      ...response,
+      data: response.data && V211Mapper.fromCredentials(response.data),
+    } as CredentialsResponse;
+  }
 }
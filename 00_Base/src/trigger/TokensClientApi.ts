@@ -18,6 +18,13 @@ import {
   AuthorizationInfoResponse,
   AuthorizationInfoResponseSchema,
 } from '../model/AuthorizationInfo';
+import { V211Mapper } from '../mapper/V211Mapper';
+import {
+  V211AuthorizationInfoResponse,
+  V211AuthorizationInfoResponseSchema,
+  V211PaginatedTokenResponse,
+  V211PaginatedTokenResponseSchema,
+} from '../model/v211/V211Token';
 
 @Service()
 export class TokensClientApi extends BaseClientApi {
@@ -44,6 +51,27 @@ export class TokensClientApi extends BaseClientApi {
     partnerProfile: OCPIRegistration.PartnerProfile,
     paginatedParams: PaginatedParams,
   ): Promise<PaginatedTokenResponse> {
+    if (V211Mapper.isV211(partnerProfile.version?.version)) {
+      const response: V211PaginatedTokenResponse = await this.request(
+        fromCountryCode,
+        fromPartyId,
+        toCountryCode,
+        toPartyId,
+        HttpMethod.Get,
+        V211PaginatedTokenResponseSchema,
+        partnerProfile,
+        true,
+        undefined,
+        undefined,
+        paginatedParams,
+      );
+      return {
+        ...response,
+        data: response.data?.map((token) =>
+          V211Mapper.fromToken(token, toCountryCode, toPartyId),
+        ),
+      } as PaginatedTokenResponse;
+    }
     return this.request(
       fromCountryCode,
       fromPartyId,
@@ -73,6 +101,33 @@ export class TokensClientApi extends BaseClientApi {
     const otherParams: Record<string, string> | undefined = tokenType && {
       type: tokenType,
     };
+    if (V211Mapper.isV211(partnerProfile.version?.version)) {
+      const response: V211AuthorizationInfoResponse = await this.request(
+        fromCountryCode,
+        fromPartyId,
+        toCountryCode,
+        toPartyId,
+        HttpMethod.Post,
+        V211AuthorizationInfoResponseSchema,
+        partnerProfile,
+        true,
+        `${this.getUrl(partnerProfile)}/${path}`,
+        body,
+        undefined,
+        otherParams,
+      );
+      return {
+        ...response,
+        data:
+          response.data &&
+          V211Mapper.fromAuthorizationInfo(response.data, {
+            country_code: toCountryCode,
+            party_id: toPartyId,
+            uid: tokenId,
+            type: tokenType,
+          }),
+      } as AuthorizationInfoResponse;
+    }
     return this.request(
       fromCountryCode,
       fromPartyId,
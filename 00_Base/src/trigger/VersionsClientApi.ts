@@ -15,9 +15,17 @@ import {
 } from '../model/DTO/VersionListResponseDTO';
 import { HttpMethod, OCPIRegistration } from '@citrineos/base';
 import { VersionsInterface } from '../model/EndpointIdentifier';
+import { V211Mapper } from '../mapper/V211Mapper';
+import { ModuleId } from '../model/ModuleId';
+import {
+  V211VersionDetailsResponse,
+  V211VersionDetailsResponseSchema,
+} from '../model/v211/V211VersionDetails';
 
 @Service()
 export class VersionsClientApi extends BaseClientApi {
+  CONTROLLER_PATH = ModuleId.Versions;
+
   getUrl(
     partnerProfile: OCPIRegistration.PartnerProfile,
     versionInterface = VersionsInterface.VERSIONS,
@@ -76,6 +84,33 @@ export class VersionsClientApi extends BaseClientApi {
   ): Promise<VersionDetailsResponseDTO> {
     try {
       url = url || this.getUrl(partnerProfile, VersionsInterface.DETAILS);
+      if (V211Mapper.isV211(partnerProfile.version?.version)) {
+        const response: V211VersionDetailsResponse = await this.request(
+          fromCountryCode,
+          fromPartyId,
+          toCountryCode,
+          toPartyId,
+          HttpMethod.Get,
+          V211VersionDetailsResponseSchema,
+          partnerProfile,
+          false,
+          url,
+          undefined,
+          undefined,
+          undefined,
+          undefined,
+          overrideToken,
+        );
+        return {
+          ...response,
+          data: response.data && {
+            version: response.data.version,
+            endpoints: response.data.endpoints.map((endpoint) =>
+              V211Mapper.fromEndpoint(endpoint),
+            ),
+          },
+        } as VersionDetailsResponseDTO;
+      }
       return this.request(
         fromCountryCode,
         fromPartyId,
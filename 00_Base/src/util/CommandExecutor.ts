@@ -12,26 +12,48 @@ import { OCPPVersion } from '@citrineos/base';
 import { Inject, InjectMany, Service } from 'typedi';
 import type { StopSession } from '../model/StopSession.js';
 import type { SetChargingProfile } from '../model/SetChargingProfile.js';
+import type { ChargingProfile } from '../model/ChargingProfile.js';
 import type { ReserveNow } from '../model/ReserveNow.js';
 import type { CancelReservation } from '../model/CancelReservation.js';
+import type { SessionAuthorization } from '../model/SessionAuthorization.js';
+import { AuthMethod } from '../model/AuthMethod.js';
 import type { OcpiConfig, UnlockConnector } from '../index.js';
 import {
   CacheWrapper,
+  ChargingProfileResultType,
+  ChargingProfilesCommandType,
   CommandResultType,
   CommandType,
   OcpiConfigToken,
+  OcpiReservationStatus,
   TokensMapper,
 } from '../index.js';
 import type { ILogObj } from 'tslog';
 import { Logger } from 'tslog';
 import type {
+  GetSessionChargingProfileQueryResult,
+  GetSessionChargingProfileQueryVariables,
   GetTenantPartnerByIdQueryResult,
   GetTenantPartnerByIdQueryVariables,
+  UpdateOcpiReservationMutationResult,
+  UpdateOcpiReservationMutationVariables,
+  UpdateSessionChargingProfileMutationResult,
+  UpdateSessionChargingProfileMutationVariables,
+  UpsertOcpiReservationMutationResult,
+  UpsertOcpiReservationMutationVariables,
+  UpsertSessionChargingProfileMutationResult,
+  UpsertSessionChargingProfileMutationVariables,
 } from '../graphql/index.js';
 import {
+  GET_SESSION_CHARGING_PROFILE_QUERY,
   GET_TENANT_PARTNER_BY_ID,
   OcpiGraphqlClient,
+  UPDATE_OCPI_RESERVATION_MUTATION,
+  UPDATE_SESSION_CHARGING_PROFILE_MUTATION,
+  UPSERT_OCPI_RESERVATION_MUTATION,
+  UPSERT_SESSION_CHARGING_PROFILE_MUTATION,
 } from '../graphql/index.js';
+import { ChargingProfilesClientApi } from '../trigger/ChargingProfilesClientApi.js';
 import { CommandsClientApi } from '../trigger/CommandsClientApi.js';
 import { v4 as uuidv4 } from 'uuid';
 import {
@@ -39,10 +61,10 @@ import {
   OCPPCommandHandler,
 } from './ocppCommandHandlers/index.js';
 import {
-  COMMAND_RESPONSE_URL_CACHE_NAMESPACE,
-  COMMAND_RESPONSE_URL_CACHE_RESOLVED,
+  COMMAND_RESPONSE_URL_NONE,
   TOKEN_ID_TO_AUTH_REF_CACHE_NAMESPACE,
 } from './Consts.js';
+import { CommandLedgerService } from '../services/CommandLedgerService.js';
 
 @Service()
 export class CommandExecutor {
@@ -52,6 +74,10 @@ export class CommandExecutor {
   protected ocpiGraphqlClient!: OcpiGraphqlClient;
   @Inject()
   protected commandsClientApi!: CommandsClientApi;
+  @Inject()
+  protected chargingProfilesClientApi!: ChargingProfilesClientApi;
+  @Inject()
+  protected commandLedgerService!: CommandLedgerService;
   @Inject(OcpiConfigToken)
   protected config!: OcpiConfig;
 
@@ -76,8 +102,11 @@ export class CommandExecutor {
     this.logger.info('Executing StartSession command', { startSession });
 
     const commandId = await this.generateCommandId(
+      CommandType.START_SESSION,
       startSession.response_url,
       tenantPartner,
+      chargingStation,
+      { authorizationReference: startSession.authorization_reference },
     );
 
     const commandHandler = this.getCommandHandler(
@@ -94,11 +123,15 @@ export class CommandExecutor {
         commandId,
       );
 
-      //Associate token.uid with the authorization_reference in cache for later use in transaction
-      if (startSession.token.uid && startSession.authorization_reference) {
+      //Associate token.uid with the authorization in cache for later use in transaction
+      if (startSession.token.uid) {
+        const sessionAuthorization: SessionAuthorization = {
+          auth_method: AuthMethod.COMMAND,
+          authorization_reference: startSession.authorization_reference,
+        };
         await this.cache.set(
           TokensMapper.normalizeToken(startSession.token.uid) || '',
-          startSession.authorization_reference,
+          JSON.stringify(sessionAuthorization),
           TOKEN_ID_TO_AUTH_REF_CACHE_NAMESPACE,
           60,
         );
@@ -118,8 +151,11 @@ export class CommandExecutor {
     this.logger.info('Executing StopSession command', { stopSession });
 
     const commandId = await this.generateCommandId(
+      CommandType.STOP_SESSION,
       stopSession.response_url,
       tenantPartner,
+      chargingStation,
+      { sessionId: stopSession.session_id },
     );
 
     const commandHandler = this.getCommandHandler(
@@ -150,8 +186,10 @@ export class CommandExecutor {
     this.logger.info('Executing UnlockConnector command', { unlockConnector });
 
     const commandId = await this.generateCommandId(
+      CommandType.UNLOCK_CONNECTOR,
       unlockConnector.response_url,
       tenantPartner,
+      chargingStation,
     );
 
     const commandHandler = this.getCommandHandler(
@@ -173,318 +211,428 @@ export class CommandExecutor {
     return;
   }
 
+  /**
+   * Makes the EVSE operative or inoperative on behalf of the CPO, e.g. for a maintenance window.
+   * @returns Whether core accepted the request.
+   */
+  public async executeChangeAvailability(
+    tenantId: number,
+    chargingStation: IChargingStationDto,
+    evseId: number,
+    operative: boolean,
+  ): Promise<boolean> {
+    this.logger.info('Executing ChangeAvailability command', {
+      stationId: chargingStation.id,
+      evseId,
+      operative,
+    });
+
+    const commandHandler =
+      chargingStation.protocol &&
+      this.handlerRegistry.get(chargingStation.protocol);
+    if (!commandHandler) {
+      this.logger.warn('Unsupported OCPP version for ChangeAvailability', {
+        protocol: chargingStation.protocol,
+      });
+      return false;
+    }
+    return commandHandler.sendChangeAvailabilityCommand(
+      tenantId,
+      chargingStation,
+      evseId,
+      operative,
+    );
+  }
+
   public async executeGetActiveChargingProfile(
-    _sessionId: string,
-    _duration: number,
-    _responseUrl: string,
-  ) {
-    // based on the current assumption, transactionId is equal to sessionId
-    // If this map assumption changes, this needs to be changed
-    // const transaction =
-    //   await this.transactionRepo.findByTransactionId(sessionId);
-    // if (!transaction) {
-    //   throw new NotFoundError('Transaction not found');
-    // }
-    // const session = (
-    //   await this.sessionMapper.mapTransactionsToSessions([transaction])
-    // )[0];
-    // if (!session) {
-    //   throw new NotFoundError('Session not found');
-    // }
-    // const correlationId = uuidv4();
-    // await this.responseUrlRepo.saveResponseUrl(
-    //   correlationId,
-    //   responseUrl,
-    //   new OcpiParams(
-    //     session.country_code,
-    //     session.party_id,
-    //     session.cdr_token.country_code,
-    //     session.cdr_token.party_id,
-    //   ),
-    // );
-    // const request = {
-    //   duration: duration,
-    //   evseId: transaction.evse?.id,
-    // } as OCPP2_0_1.GetCompositeScheduleRequest;
-    // await this.abstractModule.sendCall(
-    //   transaction.stationId,
-    //   'tenantId',
-    //   OCPPVersion.OCPP2_0_1,
-    //   OCPP2_0_1_CallAction.GetCompositeSchedule,
-    //   request,
-    //   undefined,
-    //   correlationId,
-    //   MessageOrigin.ChargingStationManagementSystem,
-    // );
+    duration: number,
+    responseUrl: string,
+    tenantPartner: ITenantPartnerDto,
+    chargingStation: IChargingStationDto,
+    transaction: any,
+  ): Promise<void> {
+    this.logger.info('Executing GetActiveChargingProfile command', {
+      sessionId: transaction.id,
+      duration,
+    });
+
+    const commandId = await this.generateCommandId(
+      ChargingProfilesCommandType.GET_ACTIVE_CHARGING_PROFILE,
+      responseUrl,
+      tenantPartner,
+      chargingStation,
+      { sessionId: String(transaction.id) },
+    );
+
+    const commandHandler = await this.getChargingProfileHandler(
+      chargingStation.protocol || undefined,
+      tenantPartner,
+      responseUrl,
+      commandId,
+    );
+    if (commandHandler) {
+      await commandHandler.sendGetCompositeScheduleCommand(
+        duration,
+        responseUrl,
+        tenantPartner,
+        chargingStation,
+        commandId,
+        transaction,
+      );
+    } else {
+      this.logger.warn('GetActiveChargingProfile failed');
+    }
   }
 
   public async executeClearChargingProfile(
-    _sessionId: string,
-    _responseUrl: string,
-  ) {
-    // based on the current assumption, transactionId is equal to sessionId
-    // If this map assumption changes, this needs to be changed
-    // const transaction =
-    //   await this.transactionRepo.findByTransactionId(sessionId);
-    // if (!transaction) {
-    //   throw new NotFoundError('Transaction not found');
-    // }
-    // const session = (
-    //   await this.sessionMapper.mapTransactionsToSessions([transaction])
-    // )[0];
-    // if (!session) {
-    //   throw new NotFoundError('Session not found');
-    // }
-    // const chargingProfiles =
-    //   await this.sessionChargingProfileRepo.readAllByQuery({
-    //     where: {
-    //       sessionId: sessionId, // sessionId is unique constraint
-    //     },
-    //   });
-    // if (!chargingProfiles || chargingProfiles.length === 0) {
-    //   throw new NotFoundError('Charging profile not found');
-    // }
-    // const correlationId = uuidv4();
-    // await this.responseUrlRepo.saveResponseUrl(
-    //   correlationId,
-    //   responseUrl,
-    //   new OcpiParams(
-    //     session.country_code,
-    //     session.party_id,
-    //     session.cdr_token.country_code,
-    //     session.cdr_token.party_id,
-    //   ),
-    // );
-    // const request = {
-    //   chargingProfileId: chargingProfiles[0].chargingProfileId,
-    // } as OCPP2_0_1.ClearChargingProfileRequest;
-    // await this.abstractModule.sendCall(
-    //   transaction.stationId,
-    //   'tenantId',
-    //   OCPPVersion.OCPP2_0_1,
-    //   OCPP2_0_1_CallAction.ClearChargingProfile,
-    //   request,
-    //   undefined,
-    //   correlationId,
-    //   MessageOrigin.ChargingStationManagementSystem,
-    // );
+    responseUrl: string,
+    tenantPartner: ITenantPartnerDto,
+    chargingStation: IChargingStationDto,
+    transaction: any,
+  ): Promise<void> {
+    this.logger.info('Executing ClearChargingProfile command', {
+      sessionId: transaction.id,
+    });
+
+    const commandId = await this.generateCommandId(
+      ChargingProfilesCommandType.CLEAR_CHARGING_PROFILE,
+      responseUrl,
+      tenantPartner,
+      chargingStation,
+      { sessionId: String(transaction.id) },
+    );
+
+    const commandHandler = await this.getChargingProfileHandler(
+      chargingStation.protocol || undefined,
+      tenantPartner,
+      responseUrl,
+      commandId,
+    );
+    if (commandHandler) {
+      const sessionChargingProfileResponse =
+        await this.ocpiGraphqlClient.request<
+          GetSessionChargingProfileQueryResult,
+          GetSessionChargingProfileQueryVariables
+        >(GET_SESSION_CHARGING_PROFILE_QUERY, {
+          transactionId: transaction.id,
+        });
+      const sessionChargingProfile =
+        sessionChargingProfileResponse.SessionChargingProfiles[0];
+      if (sessionChargingProfile) {
+        // The command id is stored so that the profile can be removed once the station accepts
+        await this.ocpiGraphqlClient.request<
+          UpdateSessionChargingProfileMutationResult,
+          UpdateSessionChargingProfileMutationVariables
+        >(UPDATE_SESSION_CHARGING_PROFILE_MUTATION, {
+          id: sessionChargingProfile.id,
+          set: { commandId, updatedAt: new Date().toISOString() },
+        });
+      }
+      await commandHandler.sendClearChargingProfileCommand(
+        responseUrl,
+        tenantPartner,
+        chargingStation,
+        commandId,
+        transaction,
+        sessionChargingProfile?.id,
+      );
+    } else {
+      this.logger.warn('ClearChargingProfile failed');
+    }
   }
 
   public async executePutChargingProfile(
-    _sessionId: string,
-    _setChargingProfile: SetChargingProfile,
-  ) {
-    // based on the current assumption, transactionId is equal to sessionId
-    // If this map assumption changes, this needs to be changed
-    // const transaction =
-    //   await this.transactionRepo.findByTransactionId(sessionId);
-    // if (!transaction) {
-    //   throw new NotFoundError('Transaction not found');
-    // }
-    // const session = (
-    //   await this.sessionMapper.mapTransactionsToSessions([transaction])
-    // )[0];
-    // if (!session) {
-    //   throw new NotFoundError('Session not found');
-    // }
-    // if (!transaction.evse) {
-    //   throw new NotFoundError('Evse not found');
-    // }
-    // const evseId = transaction.evse.id;
-    // const correlationId = uuidv4();
-    // await this.responseUrlRepo.saveResponseUrl(
-    //   correlationId,
-    //   setChargingProfile.response_url,
-    //   new OcpiParams(
-    //     session.country_code,
-    //     session.party_id,
-    //     session.cdr_token.country_code,
-    //     session.cdr_token.party_id,
-    //   ),
-    // );
-    // const stationId = transaction.stationId;
-    // const setChargingProfileRequest = await this.mapSetChargingProfileRequest(
-    //   setChargingProfile.charging_profile,
-    //   evseId,
-    //   sessionId,
-    //   stationId,
-    // );
-    // await this.chargingProfileRepo.createOrUpdateChargingProfile(
-    //   setChargingProfileRequest.chargingProfile,
-    //   stationId,
-    //   evseId,
-    // );
-    // await this.sessionChargingProfileRepo.createOrUpdateSessionChargingProfile(
-    //   sessionId,
-    //   setChargingProfileRequest.chargingProfile.id,
-    //   setChargingProfileRequest.chargingProfile.chargingSchedule[0].id,
-    // );
-    // await this.abstractModule.sendCall(
-    //   stationId,
-    //   'tenantId',
-    //   OCPPVersion.OCPP2_0_1,
-    //   OCPP2_0_1_CallAction.SetChargingProfile,
-    //   setChargingProfileRequest,
-    //   undefined,
-    //   correlationId,
-    //   MessageOrigin.ChargingStationManagementSystem,
-    // );
+    setChargingProfile: SetChargingProfile,
+    tenantPartner: ITenantPartnerDto,
+    chargingStation: IChargingStationDto,
+    transaction: any,
+  ): Promise<void> {
+    this.logger.info('Executing SetChargingProfile command', {
+      sessionId: transaction.id,
+      setChargingProfile,
+    });
+
+    const responseUrl = setChargingProfile.response_url;
+    const commandId = await this.generateCommandId(
+      ChargingProfilesCommandType.SET_CHARGING_PROFILE,
+      responseUrl,
+      tenantPartner,
+      chargingStation,
+      { sessionId: String(transaction.id) },
+    );
+
+    const commandHandler = await this.getChargingProfileHandler(
+      chargingStation.protocol || undefined,
+      tenantPartner,
+      responseUrl,
+      commandId,
+    );
+    if (commandHandler) {
+      // A session has a single profile: a new profile reuses the stored id so that it replaces
+      // the previous one on the charging station.
+      const sessionChargingProfileResponse =
+        await this.ocpiGraphqlClient.request<
+          UpsertSessionChargingProfileMutationResult,
+          UpsertSessionChargingProfileMutationVariables
+        >(UPSERT_SESSION_CHARGING_PROFILE_MUTATION, {
+          object: {
+            tenantPartnerId: tenantPartner.id!,
+            transactionId: transaction.id,
+            stationId: chargingStation.id,
+            chargingProfile: setChargingProfile.charging_profile,
+            commandId,
+            createdAt: new Date().toISOString(),
+            updatedAt: new Date().toISOString(),
+          },
+        });
+      const sessionChargingProfile =
+        sessionChargingProfileResponse.insert_SessionChargingProfiles_one;
+      if (!sessionChargingProfile) {
+        throw new Error(
+          `Could not store charging profile for session ${transaction.id}`,
+        );
+      }
+      await commandHandler.sendSetChargingProfileCommand(
+        setChargingProfile,
+        tenantPartner,
+        chargingStation,
+        commandId,
+        transaction,
+        sessionChargingProfile.id,
+      );
+    } else {
+      this.logger.warn('SetChargingProfile failed');
+    }
+  }
+
+  /**
+   * Sets a charging profile the CPO derived itself, e.g. from the session's charging preferences.
+   * There is no eMSP response url, so the station's answer is only logged.
+   */
+  public async executeChargingPreferencesProfile(
+    chargingProfile: ChargingProfile,
+    tenantPartner: ITenantPartnerDto,
+    chargingStation: IChargingStationDto,
+    transaction: any,
+  ): Promise<void> {
+    this.logger.info(
+      'Executing SetChargingProfile command for charging preferences',
+      {
+        sessionId: transaction.id,
+        chargingProfile,
+      },
+    );
+
+    const commandHandler = chargingStation.protocol
+      ? this.handlerRegistry.get(chargingStation.protocol)
+      : undefined;
+    if (!commandHandler) {
+      this.logger.warn('Unsupported OCPP version for charging profile', {
+        protocol: chargingStation.protocol,
+      });
+      return;
+    }
+
+    const commandId = await this.generateCommandId(
+      ChargingProfilesCommandType.SET_CHARGING_PROFILE,
+      COMMAND_RESPONSE_URL_NONE,
+      tenantPartner,
+      chargingStation,
+      { sessionId: String(transaction.id) },
+    );
+    const sessionChargingProfileResponse = await this.ocpiGraphqlClient.request<
+      UpsertSessionChargingProfileMutationResult,
+      UpsertSessionChargingProfileMutationVariables
+    >(UPSERT_SESSION_CHARGING_PROFILE_MUTATION, {
+      object: {
+        tenantPartnerId: tenantPartner.id!,
+        transactionId: transaction.id,
+        stationId: chargingStation.id,
+        chargingProfile,
+        commandId,
+        createdAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString(),
+      },
+    });
+    const sessionChargingProfile =
+      sessionChargingProfileResponse.insert_SessionChargingProfiles_one;
+    if (!sessionChargingProfile) {
+      throw new Error(
+        `Could not store charging profile for session ${transaction.id}`,
+      );
+    }
+    await commandHandler.sendSetChargingProfileCommand(
+      {
+        charging_profile: chargingProfile,
+        response_url: COMMAND_RESPONSE_URL_NONE,
+      },
+      tenantPartner,
+      chargingStation,
+      commandId,
+      transaction,
+      sessionChargingProfile.id,
+    );
+  }
+
+  /**
+   * Whether commands, including charging profiles, can be sent to stations using the OCPP version.
+   */
+  public isSupportedOcppVersion(ocppVersion?: OCPPVersion | null): boolean {
+    return !!ocppVersion && this.handlerRegistry.has(ocppVersion);
   }
 
   public async executeReserveNow(
-    _reserveNow: ReserveNow,
-    _countryCode: string,
-    _partyId: string,
+    reserveNow: ReserveNow,
+    tenantPartner: ITenantPartnerDto,
+    chargingStation: IChargingStationDto,
   ): Promise<void> {
-    // Currently, it rejects the request if the evse_uid is missing
-    // When we have the solution to handle the optional evse_uid, we should change this
-    // if (!reserveNow.evse_uid) {
-    //   throw new BadRequestError('Missing evse_uid');
-    // }
-    // const evseId = Number(EXTRACT_EVSE_ID(reserveNow.evse_uid!));
-    // const stationId = EXTRACT_STATION_ID(reserveNow.evse_uid!);
-    // // Check if evse exists and given evse_uid matches the given location_id
-    // if (
-    //   !(await this.locationsDatasource.getEvse(
-    //     Number(reserveNow.location_id),
-    //     stationId,
-    //     evseId,
-    //   ))
-    // ) {
-    //   throw new NotFoundError('EVSE not found');
-    // }
-    // const ocpiLocation =
-    //   await this.ocpiLocationRepo.getLocationByCoreLocationId(
-    //     Number(reserveNow.location_id),
-    //   );
-    // if (!ocpiLocation) {
-    //   throw new NotFoundError('Location not found');
-    // }
-    // const correlationId = uuidv4();
-    // await this.responseUrlRepo.saveResponseUrl(
-    //   correlationId,
-    //   reserveNow.response_url,
-    //   new OcpiParams(
-    //     ocpiLocation[OcpiLocationProps.countryCode],
-    //     ocpiLocation[OcpiLocationProps.partyId],
-    //     countryCode,
-    //     partyId,
-    //   ),
-    // );
-    // const [request, coreReservationDBId] =
-    //   await this.createAndStoreReservations(
-    //     reserveNow,
-    //     stationId,
-    //     evseId,
-    //     countryCode,
-    //     partyId,
-    //   );
-    // // Store the correlationId and core reservationDBId in the call message so that we can update the corresponding
-    // // core reservation when the response is received
-    // await this.callMessageRepo.create(
-    //   CallMessage.build({
-    //     correlationId,
-    //     reservationId: coreReservationDBId,
-    //   }),
-    // );
-    // await this.abstractModule.sendCall(
-    //   stationId,
-    //   'tenantId',
-    //   OCPPVersion.OCPP2_0_1,
-    //   OCPP2_0_1_CallAction.ReserveNow,
-    //   request,
-    //   undefined,
-    //   correlationId,
-    //   MessageOrigin.ChargingStationManagementSystem,
-    // );
+    this.logger.info('Executing ReserveNow command', { reserveNow });
+
+    const commandId = await this.generateCommandId(
+      CommandType.RESERVE_NOW,
+      reserveNow.response_url,
+      tenantPartner,
+      chargingStation,
+      { authorizationReference: reserveNow.authorization_reference },
+    );
+
+    const commandHandler = this.getCommandHandler(
+      chargingStation.protocol || undefined,
+      tenantPartner,
+      reserveNow.response_url,
+      commandId,
+    );
+    if (commandHandler) {
+      // Based on OCPI, the reservation_id sent by the eMSP SHALL NOT be sent directly to a Charge Point,
+      // the id of the stored reservation is used instead as it is unique across eMSPs.
+      const reservationResponse = await this.ocpiGraphqlClient.request<
+        UpsertOcpiReservationMutationResult,
+        UpsertOcpiReservationMutationVariables
+      >(UPSERT_OCPI_RESERVATION_MUTATION, {
+        object: {
+          tenantPartnerId: tenantPartner.id!,
+          reservationId: reserveNow.reservation_id,
+          locationId: Number(reserveNow.location_id),
+          evseUid: reserveNow.evse_uid ?? null,
+          stationId: chargingStation.id,
+          expiryDate: reserveNow.expiry_date.toISOString(),
+          tokenUid: reserveNow.token.uid,
+          authorizationReference: reserveNow.authorization_reference ?? null,
+          status: OcpiReservationStatus.PENDING,
+          commandId,
+          createdAt: new Date().toISOString(),
+          updatedAt: new Date().toISOString(),
+        },
+      });
+      const reservation = reservationResponse.insert_OcpiReservations_one;
+      if (!reservation) {
+        throw new Error(
+          `Could not store reservation ${reserveNow.reservation_id}`,
+        );
+      }
+      await commandHandler.sendReserveNowCommand(
+        reserveNow,
+        tenantPartner,
+        chargingStation,
+        commandId,
+        reservation.id,
+      );
+    } else {
+      this.logger.warn('ReserveNow failed');
+    }
+    return;
   }
 
   public async executeCancelReservation(
-    _cancelReservation: CancelReservation,
-    _countryCode: string,
-    _partyId: string,
+    cancelReservation: CancelReservation,
+    tenantPartner: ITenantPartnerDto,
+    chargingStation: IChargingStationDto,
+    reservationId: number,
   ): Promise<void> {
-    // const existingOcpiReservation =
-    //   await this.ocpiReservationRepo.readOnlyOneByQuery({
-    //     where: {
-    //       // unique constraint
-    //       [OcpiReservationProps.reservationId]:
-    //         cancelReservation.reservation_id,
-    //       [OcpiReservationProps.countryCode]: countryCode,
-    //       [OcpiReservationProps.partyId]: partyId,
-    //     },
-    //     include: [Reservation, OcpiLocation],
-    //   });
-    // if (!existingOcpiReservation) {
-    //   throw new NotFoundError(
-    //     `Reservation ${cancelReservation.reservation_id} not found`,
-    //   );
-    // }
-    // const correlationId = uuidv4();
-    // await this.responseUrlRepo.saveResponseUrl(
-    //   correlationId,
-    //   cancelReservation.response_url,
-    //   new OcpiParams(
-    //     existingOcpiReservation[OcpiReservationProps.location][
-    //       OcpiLocationProps.countryCode
-    //     ],
-    //     existingOcpiReservation[OcpiReservationProps.location][
-    //       OcpiLocationProps.partyId
-    //     ],
-    //     countryCode,
-    //     partyId,
-    //   ),
-    // );
-    // const existingCoreReservation = existingOcpiReservation.coreReservation;
-    // await this.callMessageRepo.create(
-    //   CallMessage.build({
-    //     correlationId,
-    //     reservationId: existingCoreReservation.databaseId,
-    //   }),
-    // );
-    // await this.abstractModule.sendCall(
-    //   existingCoreReservation.stationId,
-    //   'tenantId',
-    //   OCPPVersion.OCPP2_0_1,
-    //   OCPP2_0_1_CallAction.CancelReservation,
-    //   {
-    //     reservationId: existingCoreReservation.id,
-    //   } as OCPP2_0_1.CancelReservationRequest,
-    //   undefined,
-    //   correlationId,
-    //   MessageOrigin.ChargingStationManagementSystem,
-    // );
+    this.logger.info('Executing CancelReservation command', {
+      cancelReservation,
+    });
+
+    const commandId = await this.generateCommandId(
+      CommandType.CANCEL_RESERVATION,
+      cancelReservation.response_url,
+      tenantPartner,
+      chargingStation,
+    );
+
+    const commandHandler = this.getCommandHandler(
+      chargingStation.protocol || undefined,
+      tenantPartner,
+      cancelReservation.response_url,
+      commandId,
+    );
+    if (commandHandler) {
+      // The command id is stored so that the response can be matched to the reservation
+      await this.ocpiGraphqlClient.request<
+        UpdateOcpiReservationMutationResult,
+        UpdateOcpiReservationMutationVariables
+      >(UPDATE_OCPI_RESERVATION_MUTATION, {
+        id: reservationId,
+        set: { commandId, updatedAt: new Date().toISOString() },
+      });
+      await commandHandler.sendCancelReservationCommand(
+        cancelReservation,
+        tenantPartner,
+        chargingStation,
+        commandId,
+        reservationId,
+      );
+    } else {
+      this.logger.warn('CancelReservation failed');
+    }
+    return;
   }
 
+  /**
+   * Completes a command with the response of the charging station. The result is sent to the
+   * partner that issued the command according to the command ledger, a callback naming another
+   * partner is rejected.
+   */
   public async handleAsyncCommandResponse(
     tenantPartnerId: number,
     ocppVersion: OCPPVersion,
-    command: CommandType,
+    command: CommandType | ChargingProfilesCommandType,
     commandId: string,
     response: any,
   ): Promise<void> {
-    const responseUrl: string | null = await this.cache.get(
-      commandId,
-      COMMAND_RESPONSE_URL_CACHE_NAMESPACE,
-    );
-    if (!responseUrl) {
-      this.logger.error('Response URL not found in cache', {
+    const ocpiCommand = await this.commandLedgerService.findCommand(commandId);
+    if (!ocpiCommand) {
+      this.logger.error('Command not found in command ledger', {
         commandId,
       });
       return;
     }
+    if (ocpiCommand.tenantPartnerId !== Number(tenantPartnerId)) {
+      this.logger.error(
+        'Command response for another tenant partner than the one that issued the command, rejecting',
+        {
+          tenantPartnerId,
+          commandTenantPartnerId: ocpiCommand.tenantPartnerId,
+          command,
+          commandId,
+        },
+      );
+      return;
+    }
+    await this.commandLedgerService.recordResponse(commandId, response);
+    const responseUrl = ocpiCommand.responseUrl;
 
     const tenantPartnerResponse = await this.ocpiGraphqlClient.request<
       GetTenantPartnerByIdQueryResult,
       GetTenantPartnerByIdQueryVariables
     >(GET_TENANT_PARTNER_BY_ID, {
-      id: tenantPartnerId,
+      id: ocpiCommand.tenantPartnerId,
     });
     if (!tenantPartnerResponse.TenantPartners_by_pk) {
       this.logger.error(
         'Tenant partner not found, unable to complete command',
         {
-          tenantPartnerId,
+          tenantPartnerId: ocpiCommand.tenantPartnerId,
           command,
           commandId,
         },
@@ -517,73 +665,29 @@ export class CommandExecutor {
     }
   }
 
+  /**
+   * Generates a command id and records the command in the command ledger. When the command is not
+   * resolved within the configured timeout, the CommandTimeoutService posts its timeout result.
+   */
   private async generateCommandId(
+    command: CommandType | ChargingProfilesCommandType,
     responseUrl: string,
     tenantPartner: ITenantPartnerDto,
+    chargingStation: IChargingStationDto,
+    references?: {
+      sessionId?: string | null;
+      authorizationReference?: string | null;
+    },
   ): Promise<string> {
     const commandId = uuidv4();
-    await this.cache.set(
+    await this.commandLedgerService.record(
       commandId,
+      command,
       responseUrl,
-      COMMAND_RESPONSE_URL_CACHE_NAMESPACE,
-      this.config.commands.timeout,
+      tenantPartner,
+      chargingStation.id,
+      references,
     );
-
-    this.cache
-      .onChange(
-        commandId,
-        this.config.commands.timeout,
-        COMMAND_RESPONSE_URL_CACHE_NAMESPACE,
-      )
-      .then((value) => {
-        this.logger.debug('Command cache onChange triggered', {
-          commandId,
-          value,
-        });
-        // Check if command completed successfully or timed out
-        if (value !== COMMAND_RESPONSE_URL_CACHE_RESOLVED) {
-          this.logger.warn('Command timed out', {
-            commandId,
-          });
-          this.commandsClientApi
-            .postCommandResult(
-              tenantPartner.countryCode!,
-              tenantPartner.partyId!,
-              tenantPartner.tenant!.countryCode!,
-              tenantPartner.tenant!.partyId!,
-              tenantPartner.partnerProfileOCPI!,
-              responseUrl,
-              {
-                result: CommandResultType.TIMEOUT,
-                message: {
-                  language: 'en',
-                  text: 'Charging station communication failed',
-                },
-              },
-              commandId,
-            )
-            .catch((error: any) => {
-              this.logger.error(
-                'Error posting command result on command timeout',
-                {
-                  commandId,
-                  error,
-                },
-              );
-            });
-        } else {
-          this.logger.debug('Command completed successfully', {
-            commandId,
-          });
-        }
-      })
-      .catch((error: any) => {
-        this.logger.error('Error in command cache onChange', {
-          commandId,
-          error,
-        });
-      });
-
     return commandId;
   }
 
@@ -630,139 +734,33 @@ export class CommandExecutor {
     }
   }
 
-  // private async mapSetChargingProfileRequest(
-  //   chargingProfile: ChargingProfile,
-  //   evseId: number,
-  //   sessionId: string,
-  //   stationId: string,
-  // ): Promise<OCPP2_0_1.SetChargingProfileRequest> {
-  // const startDateTime = chargingProfile.start_date_time
-  //   ? new Date(chargingProfile.start_date_time)
-  //   : undefined;
-  // const duration = chargingProfile.duration;
-  // let endDateTime;
-  // if (startDateTime && duration) {
-  //   endDateTime = new Date(startDateTime);
-  //   endDateTime.setSeconds(endDateTime.getSeconds() + duration);
-  // }
-  // // Charging profile periods are required in OCPP SetChargingProfileRequest
-  // if (!chargingProfile.charging_profile_period) {
-  //   throw new BadRequestError(
-  //     'Validation failed: Missing charging_profile_period',
-  //   );
-  // }
-  // const scheduleId =
-  //   await this.chargingProfileRepo.getNextChargingScheduleId(stationId);
-  // const chargingSchedule = {
-  //   id: scheduleId,
-  //   startSchedule: startDateTime?.toISOString(),
-  //   duration: duration,
-  //   chargingRateUnit: chargingProfile.charging_rate_unit.toUpperCase(),
-  //   minChargingRate: chargingProfile.min_charging_rate,
-  //   chargingSchedulePeriod: chargingProfile.charging_profile_period.map(
-  //     (period) => ({
-  //       startPeriod: period.start_period,
-  //       limit: period.limit,
-  //     }),
-  //   ),
-  // } as OCPP2_0_1.ChargingScheduleType;
-  // const profileId =
-  //   await this.chargingProfileRepo.getNextChargingProfileId(stationId);
-  // const setChargingProfileRequest = {
-  //   evseId,
-  //   chargingProfile: {
-  //     id: profileId,
-  //     stackLevel: 0,
-  //     chargingProfilePurpose:
-  //       OCPP2_0_1.ChargingProfilePurposeEnumType.TxProfile,
-  //     chargingProfileKind: startDateTime
-  //       ? OCPP2_0_1.ChargingProfileKindEnumType.Absolute
-  //       : OCPP2_0_1.ChargingProfileKindEnumType.Relative,
-  //     validFrom: startDateTime?.toISOString(),
-  //     validTo: endDateTime?.toISOString(),
-  //     chargingSchedule: [chargingSchedule],
-  //     transactionId: sessionId,
-  //   } as OCPP2_0_1.ChargingProfileType,
-  // } as OCPP2_0_1.SetChargingProfileRequest;
-  // console.log(
-  //   `Mapped SetChargingProfileRequest: ${JSON.stringify(setChargingProfileRequest)}`,
-  // );
-  // return setChargingProfileRequest;
-  // }
-
   /**
-   * Create and store reservation related objects, including the core reservation, the ocpi reservation and the
-   * reserveNow request
-   *
-   * @param reserveNow - OCPI reserveNow
-   * @param evse - OCPI evse
-   * @param countryCode - MSP country code
-   * @param partyId - MSP party id
-   * @returns [reserveNowRequest, coreReservationDatabaseId]
+   * Charging profile requests are answered with a ChargingProfileResult instead of a CommandResult,
+   * a station with an unsupported OCPP version gets a REJECTED result.
    */
-  // private async createAndStoreReservations(
-  //   reserveNow: ReserveNow,
-  //   stationId: string,
-  //   evseId: number,
-  //   countryCode: string,
-  //   partyId: string,
-  // ): Promise<[OCPP2_0_1.ReserveNowRequest, number]> {
-  // const existingOcpiReservation =
-  //   await this.ocpiReservationRepo.readOnlyOneByQuery({
-  //     where: {
-  //       // unique constraint
-  //       [OcpiReservationProps.reservationId]: reserveNow.reservation_id,
-  //       [OcpiReservationProps.countryCode]: countryCode,
-  //       [OcpiReservationProps.partyId]: partyId,
-  //     },
-  //     include: [Reservation],
-  //   });
-  // let coreReservationId;
-  // if (!existingOcpiReservation) {
-  //   // Based on OCPI 2.1.1, The reservation_id sent by the Sender (eMSP) to the Receiver (CPO) SHALL NOT be sent
-  //   // directly to a Charge Point. The CPO SHALL make sure the Reservation ID sent to the Charge Point is unique and
-  //   // is not used by another Sender(eMSP).
-  //   coreReservationId =
-  //     await this.coreReservationRepo.getNextReservationId(stationId);
-  // } else {
-  //   coreReservationId = existingOcpiReservation.coreReservation.id;
-  // }
-  // if (!coreReservationId) {
-  //   throw new Error('Could not get core reservation id.');
-  // }
-  // const request = {
-  //   id: coreReservationId,
-  //   expiryDateTime: reserveNow.expiry_date.toISOString(),
-  //   idToken: {
-  //     idToken: reserveNow.token.uid,
-  //     type: OcpiTokensMapper.mapOcpiTokenTypeToOcppIdTokenType(
-  //       reserveNow.token.type,
-  //     ),
-  //   },
-  //   evseId,
-  // } as OCPP2_0_1.ReserveNowRequest;
-  // const storedCoreReservation =
-  //   await this.coreReservationRepo.createOrUpdateReservation(
-  //     request,
-  //     stationId,
-  //     false,
-  //   );
-  // if (!storedCoreReservation) {
-  //   throw new Error('Could not create or update reservation in core.');
-  // }
-  // await this.ocpiReservationRepo.createOrUpdateReservation(
-  //   OcpiReservation.build({
-  //     [OcpiReservationProps.coreReservationId]:
-  //       storedCoreReservation.databaseId,
-  //     [OcpiReservationProps.reservationId]: reserveNow.reservation_id,
-  //     [OcpiReservationProps.countryCode]: countryCode,
-  //     [OcpiReservationProps.partyId]: partyId,
-  //     [OcpiReservationProps.locationId]: reserveNow.location_id,
-  //     [OcpiReservationProps.evseUid]: reserveNow.evse_uid ?? null,
-  //     [OcpiReservationProps.authorizationReference]:
-  //       reserveNow.authorization_reference ?? null,
-  //   }),
-  // );
-  // return [request, storedCoreReservation.databaseId];
-  // }
+  private async getChargingProfileHandler(
+    ocppVersion: OCPPVersion | undefined,
+    tenantPartner: ITenantPartnerDto,
+    responseUrl: string,
+    commandId: string,
+  ): Promise<OCPPCommandHandler | undefined> {
+    const commandHandler = ocppVersion && this.handlerRegistry.get(ocppVersion);
+    if (commandHandler) {
+      return commandHandler;
+    }
+    this.logger.warn('Unsupported OCPP version for charging profile', {
+      protocol: ocppVersion,
+    });
+    await this.chargingProfilesClientApi.postChargingProfileResult(
+      tenantPartner.countryCode!,
+      tenantPartner.partyId!,
+      tenantPartner.tenant!.countryCode!,
+      tenantPartner.tenant!.partyId!,
+      tenantPartner.partnerProfileOCPI!,
+      responseUrl,
+      { result: ChargingProfileResultType.REJECTED },
+      commandId,
+    );
+    return undefined;
+  }
 }
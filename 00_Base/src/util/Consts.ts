@@ -12,10 +12,9 @@ export const NOT_APPLICABLE = 'N/A';
 export const MINUTES_IN_HOUR = 60;
 export const CREATE = 'create';
 export const UPDATE = 'update';
-export const COMMAND_RESPONSE_URL_CACHE_NAMESPACE = 'commands';
 export const TOKEN_ID_TO_AUTH_REF_CACHE_NAMESPACE = 'tokenIdToAuthRef';
 /**
- * Used to replace response url in cache so that the timeout handler knows the command
- * was resolved instead of timed out and doesn't attempt to send a command result.
+ * Used as response url for charging profiles set by the CPO itself, e.g. to apply charging
+ * preferences, where there is no eMSP waiting for the result.
  */
-export const COMMAND_RESPONSE_URL_CACHE_RESOLVED = 'resolved';
+export const COMMAND_RESPONSE_URL_NONE = 'none';
@@ -12,4 +12,5 @@ export enum OcpiHttpHeader {
   Link = 'Link',
   XTotalCount = 'X-Total-Count',
   XLimit = 'X-Limit',
+  Location = 'Location',
 }
@@ -21,4 +21,7 @@ export enum OcpiNamespace {
   OcpiConnector = 'OcpiConnector',
   OcpiReservation = 'OcpiReservation',
   ResponseUrlCorrelationId = 'ResponseUrlCorrelationId',
+  TenantPartnerToken = 'TenantPartnerToken',
+  TenantPartnerTokenKey = 'TenantPartnerTokenKey',
+  HubClients = 'HubClients',
 }
@@ -0,0 +1,288 @@
+// SPDX-FileCopyrightText: 2025 Contributors to the CitrineOS Project
+//
+// SPDX-License-Identifier: Apache-2.0
+
+import {
+  ITransactionDto,
+  OCPP1_6,
+  OCPP2_0_1,
+  SampledValue,
+} from '@citrineos/base';
+import { SignedData } from '../model/SignedData';
+import { SignedValue } from '../model/SignedValue';
+
+export const OCMF_ENCODING_METHOD = 'OCMF';
+export const EDL_ENCODING_METHOD = 'EDL40 E-Mobility Extension';
+
+const OCMF_PREFIX = 'OCMF|';
+const MAX_PLAIN_DATA_LENGTH = 512;
+const MAX_SIGNED_DATA_LENGTH = 5000;
+const MAX_PUBLIC_KEY_LENGTH = 512;
+
+export enum SignedValueNature {
+  Start = 'Start',
+  End = 'End',
+  Intermediate = 'Intermediate',
+}
+
+/**
+ * An OCPP 1.6 DataTransfer request sent by the station during the transaction, as stored by core.
+ */
+export interface SignedDataTransfer {
+  timestamp: string;
+  request: OCPP1_6.DataTransferRequest;
+}
+
+interface SignedReading {
+  encodingMethod: string;
+  publicKey?: string;
+  signedValue: SignedValue;
+}
+
+interface SignedPayload {
+  signedMeterData: string;
+  encodingMethod?: string;
+  publicKey?: string;
+  transactionId?: string;
+}
+
+/**
+ * Collects the signed meter readings of a transaction into the OCPI SignedData of its CDR, so that
+ * the eMSP and the driver can verify the billed energy as required by calibration law.
+ *
+ * OCPP 2.0.1 stations send the signed data in the signedMeterValue of a sampled value. OCPP 1.6
+ * stations send it either as the value of a sampled value in the SignedData format, holding the
+ * raw OCMF or EDL string or a JSON object with it, or in a DataTransfer request, holding a JSON
+ * object with the signed data and the transactionId it was read for. The signatures themselves
+ * are validated by core's SignedMeterValuesUtil when the meter values are received.
+ */
+export class SignedMeterDataUtil {
+  public static getSignedData(
+    transaction: Pick<ITransactionDto, 'transactionId' | 'meterValues'>,
+    dataTransfers: SignedDataTransfer[] = [],
+    transparencyUrl?: string,
+  ): SignedData | undefined {
+    const readings = [
+      ...(transaction.meterValues ?? []).flatMap((meterValue) =>
+        meterValue.sampledValue.map((sampledValue) => ({
+          timestamp: meterValue.timestamp,
+          reading: SignedMeterDataUtil.getSampledValueReading(sampledValue),
+        })),
+      ),
+      ...dataTransfers.map((dataTransfer) => ({
+        timestamp: dataTransfer.timestamp,
+        reading: SignedMeterDataUtil.getDataTransferReading(
+          dataTransfer.request,
+          transaction.transactionId,
+        ),
+      })),
+    ]
+      .sort(
+        (a, b) =>
+          new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime(),
+      )
+      .map(({ reading }) => reading)
+      .filter((reading): reading is SignedReading => !!reading);
+
+    // A reading can be repeated in the meter values of several transaction events
+    const uniqueReadings = readings.filter(
+      (reading, index) =>
+        readings.findIndex(
+          (other) =>
+            other.signedValue.signed_data === reading.signedValue.signed_data,
+        ) === index,
+    );
+    if (uniqueReadings.length === 0) {
+      return undefined;
+    }
+
+    const encodingMethod = uniqueReadings[0].encodingMethod;
+    const signedValues = uniqueReadings.filter(
+      (reading) => reading.encodingMethod === encodingMethod,
+    );
+    const publicKey = signedValues.find(
+      (reading) =>
+        reading.publicKey && reading.publicKey.length <= MAX_PUBLIC_KEY_LENGTH,
+    )?.publicKey;
+    return {
+      encoding_method: encodingMethod,
+      public_key: publicKey,
+      signed_values: signedValues.map((reading) => reading.signedValue),
+      url: transparencyUrl,
+    };
+  }
+
+  /**
+   * Parses the payload of an OCPP 1.6 SignedData sampled value or DataTransfer, which is either
+   * the signed data itself or a JSON object holding it.
+   */
+  public static parseSignedPayload(payload: string): SignedPayload {
+    try {
+      const parsed = JSON.parse(payload);
+      if (typeof parsed?.signedMeterData === 'string') {
+        return {
+          signedMeterData: parsed.signedMeterData,
+          encodingMethod: parsed.encodingMethod,
+          publicKey: parsed.publicKey,
+          transactionId: parsed.transactionId?.toString(),
+        };
+      }
+    } catch {
+      // Not JSON, the payload is the signed data
+    }
+    return { signedMeterData: payload };
+  }
+
+  private static getSampledValueReading(
+    sampledValue: SampledValue,
+  ): SignedReading | undefined {
+    if ('signedMeterValue' in sampledValue) {
+      const signedMeterValue = sampledValue.signedMeterValue;
+      if (!signedMeterValue?.signedMeterData) {
+        return undefined;
+      }
+      const unit = sampledValue.unitOfMeasure?.unit;
+      return SignedMeterDataUtil.getSignedReading(
+        {
+          signedMeterData: SignedMeterDataUtil.decodeSignedMeterData(
+            signedMeterValue.signedMeterData,
+          ),
+          encodingMethod: signedMeterValue.encodingMethod,
+          publicKey: signedMeterValue.publicKey || undefined,
+        },
+        sampledValue.context ?? undefined,
+        unit ? `${sampledValue.value} ${unit}` : String(sampledValue.value),
+      );
+    }
+    if (
+      'format' in sampledValue &&
+      sampledValue.format === OCPP1_6.MeterValuesRequestFormat.SignedData
+    ) {
+      return SignedMeterDataUtil.getSignedReading(
+        SignedMeterDataUtil.parseSignedPayload(sampledValue.value),
+        sampledValue.context ?? undefined,
+      );
+    }
+    return undefined;
+  }
+
+  /**
+   * DataTransfers are read for the whole transaction window of the station, which may charge other
+   * transactions on its other connectors, so only payloads naming the transaction are read.
+   * Payloads that hold no known signed data are vendor messages.
+   */
+  private static getDataTransferReading(
+    request: OCPP1_6.DataTransferRequest,
+    transactionId: string,
+  ): SignedReading | undefined {
+    if (!request.data) {
+      return undefined;
+    }
+    const payload = SignedMeterDataUtil.parseSignedPayload(request.data);
+    if (payload.transactionId !== transactionId) {
+      return undefined;
+    }
+    return SignedMeterDataUtil.getSignedReading(payload);
+  }
+
+  /**
+   * @param plainData The reading as it was sent next to the signed data. When there is none, as
+   * for OCPP 1.6 where the value is the signed data itself, it is taken from the OCMF payload.
+   */
+  private static getSignedReading(
+    payload: SignedPayload,
+    context?: string,
+    plainData?: string,
+  ): SignedReading | undefined {
+    if (payload.signedMeterData.length > MAX_SIGNED_DATA_LENGTH) {
+      return undefined;
+    }
+    const encodingMethod = SignedMeterDataUtil.getEncodingMethod(payload);
+    if (!encodingMethod) {
+      return undefined;
+    }
+    return {
+      encodingMethod,
+      publicKey: payload.publicKey,
+      signedValue: {
+        nature: SignedMeterDataUtil.getNature(context, payload.signedMeterData),
+        plain_data: (
+          plainData ?? SignedMeterDataUtil.getOcmfPlainData(payload)
+        ).substring(0, MAX_PLAIN_DATA_LENGTH),
+        signed_data: payload.signedMeterData,
+      },
+    };
+  }
+
+  /**
+   * OCPP 2.0.1 signed meter data is base64 encoded. OCMF is sent as plain text so that
+   * transparency software can read it, other encodings are kept as they were received.
+   */
+  private static decodeSignedMeterData(signedMeterData: string): string {
+    const decoded = Buffer.from(signedMeterData, 'base64').toString('utf8');
+    return decoded.startsWith(OCMF_PREFIX) ? decoded : signedMeterData;
+  }
+
+  private static getEncodingMethod(payload: SignedPayload): string | undefined {
+    if (
+      payload.signedMeterData.startsWith(OCMF_PREFIX) ||
+      payload.encodingMethod?.toUpperCase().startsWith(OCMF_ENCODING_METHOD)
+    ) {
+      return OCMF_ENCODING_METHOD;
+    }
+    if (payload.encodingMethod?.toUpperCase().startsWith('EDL')) {
+      return EDL_ENCODING_METHOD;
+    }
+    return payload.encodingMethod || undefined;
+  }
+
+  /**
+   * The transaction context of OCMF readings is part of the signed data (TX), other readings use
+   * the context of the sampled value.
+   */
+  private static getNature(
+    context: string | undefined,
+    signedMeterData: string,
+  ): SignedValueNature {
+    const ocmfContext = SignedMeterDataUtil.getOcmfReading(signedMeterData)?.TX;
+    if (
+      ocmfContext === 'B' ||
+      context === OCPP2_0_1.ReadingContextEnumType.Transaction_Begin
+    ) {
+      return SignedValueNature.Start;
+    }
+    if (
+      ocmfContext === 'E' ||
+      context === OCPP2_0_1.ReadingContextEnumType.Transaction_End
+    ) {
+      return SignedValueNature.End;
+    }
+    return SignedValueNature.Intermediate;
+  }
+
+  /**
+   * First reading (RD) of the OCMF payload, holding the value (RV), unit (RU) and transaction
+   * context (TX).
+   */
+  private static getOcmfReading(
+    signedMeterData: string,
+  ): { RV?: number; RU?: string; TX?: string } | undefined {
+    if (!signedMeterData.startsWith(OCMF_PREFIX)) {
+      return undefined;
+    }
+    const sections = signedMeterData.split('|');
+    try {
+      return JSON.parse(sections[1])?.RD?.[0];
+    } catch {
+      return undefined;
+    }
+  }
+
+  private static getOcmfPlainData(payload: SignedPayload): string {
+    const ocmfReading = SignedMeterDataUtil.getOcmfReading(
+      payload.signedMeterData,
+    );
+    const value = ocmfReading?.RV?.toString() ?? '';
+    return ocmfReading?.RU && value ? `${value} ${ocmfReading.RU}` : value;
+  }
+}
@@ -0,0 +1,580 @@
+// SPDX-FileCopyrightText: 2025 Contributors to the CitrineOS Project
+//
+// SPDX-License-Identifier: Apache-2.0
+
+import { CdrDimensionType } from '../model/CdrDimensionType';
+import { ChargingPeriod } from '../model/ChargingPeriod';
+import { DayOfWeek } from '../model/DayOfWeek';
+import { Price } from '../model/Price';
+import { PriceComponent } from '../model/PriceComponent';
+import { Tariff } from '../model/Tariff';
+import { TariffDimensionType } from '../model/TariffDimensionType';
+import { TariffRestrictions } from '../model/TariffRestrictions';
+
+const SECONDS_IN_HOUR = 3600;
+const WH_IN_KWH = 1000;
+const MINUTES_IN_DAY = 24 * 60;
+
+export type PricedTariff = Pick<Tariff, 'elements' | 'min_price' | 'max_price'>;
+
+export interface PricingInput {
+  tariff: PricedTariff;
+  chargingPeriods: ChargingPeriod[];
+  startDateTime: Date | string;
+  endDateTime: Date | string;
+  // Used when the session has no charging periods
+  totalEnergy: number;
+  // IANA time zone of the location, restrictions on time and date are evaluated in local time
+  timeZone?: string;
+}
+
+export interface PricingResult {
+  total_cost: Price;
+  total_fixed_cost?: Price;
+  total_energy_cost?: Price;
+  total_time_cost?: Price;
+  total_parking_time: number;
+  total_parking_cost?: Price;
+  total_reservation_cost?: Price;
+}
+
+interface PeriodContext {
+  start: Date;
+  end: Date;
+  energyKwh: number;
+  chargingHours: number;
+  parkingHours: number;
+  // Energy delivered in the session before the period
+  energyBeforeKwh: number;
+  // Seconds since the start of the session
+  elapsedSeconds: number;
+  currentA?: number;
+  powerKw?: number;
+}
+
+interface BilledVolume {
+  component: PriceComponent;
+  volume: number;
+}
+
+type BilledDimension =
+  | TariffDimensionType.ENERGY
+  | TariffDimensionType.TIME
+  | TariffDimensionType.PARKING_TIME;
+
+/**
+ * Prices a session according to the OCPI 2.2.1 tariff rules.
+ *
+ * Charging periods are first split where a restriction of the tariff starts or stops to apply, e.g.
+ * at the start_time of a peak element or once max_kwh has been charged, assuming energy is
+ * delivered evenly within a period. For every resulting period and dimension, the first
+ * TariffElement whose restrictions are met and that has a PriceComponent for the dimension is
+ * active. The step_size of a dimension is only
+ * applied to the volume billed with the component that is active last, earlier volumes are billed
+ * exactly. FLAT is billed once, using the first element that has a FLAT component. The total cost
+ * is clamped to min_price and max_price of the tariff.
+ */
+export class TariffPricingEngine {
+  public static price(input: PricingInput): PricingResult {
+    const elements = input.tariff.elements;
+    const periods = TariffPricingEngine.splitAtRestrictionBoundaries(
+      TariffPricingEngine.getPeriodContexts(input),
+      elements.map((element) => element.restrictions),
+      new Date(input.startDateTime),
+      input.timeZone,
+    );
+
+    const billed: Record<BilledDimension, BilledVolume[]> = {
+      [TariffDimensionType.ENERGY]: [],
+      [TariffDimensionType.TIME]: [],
+      [TariffDimensionType.PARKING_TIME]: [],
+    };
+    let flatComponent: PriceComponent | undefined;
+
+    for (const period of periods) {
+      const activeElements = elements.filter((element) =>
+        TariffPricingEngine.isActive(
+          element.restrictions,
+          period,
+          input.timeZone,
+        ),
+      );
+      const findComponent = (type: TariffDimensionType) =>
+        activeElements
+          .flatMap((element) => element.price_components)
+          .find((component) => component.type === type);
+
+      flatComponent ??= findComponent(TariffDimensionType.FLAT);
+      const volumes: [BilledDimension, number][] = [
+        [TariffDimensionType.ENERGY, period.energyKwh],
+        [TariffDimensionType.TIME, period.chargingHours],
+        [TariffDimensionType.PARKING_TIME, period.parkingHours],
+      ];
+      for (const [type, volume] of volumes) {
+        const component = findComponent(type);
+        if (!component || volume <= 0) {
+          continue;
+        }
+        const last = billed[type][billed[type].length - 1];
+        if (last?.component === component) {
+          last.volume += volume;
+        } else {
+          billed[type].push({ component, volume });
+        }
+      }
+    }
+
+    const totalEnergyCost = TariffPricingEngine.cost(
+      billed[TariffDimensionType.ENERGY],
+      WH_IN_KWH,
+    );
+    const totalTimeCost = TariffPricingEngine.cost(
+      billed[TariffDimensionType.TIME],
+      SECONDS_IN_HOUR,
+    );
+    const totalParkingCost = TariffPricingEngine.cost(
+      billed[TariffDimensionType.PARKING_TIME],
+      SECONDS_IN_HOUR,
+    );
+    const totalFixedCost = flatComponent
+      ? TariffPricingEngine.buildPrice(flatComponent.price, flatComponent.vat)
+      : undefined;
+
+    const totalCost = TariffPricingEngine.clamp(
+      TariffPricingEngine.sum([
+        totalFixedCost,
+        totalEnergyCost,
+        totalTimeCost,
+        totalParkingCost,
+      ]),
+      input.tariff,
+    );
+
+    return {
+      total_cost: totalCost,
+      total_fixed_cost: totalFixedCost,
+      total_energy_cost: totalEnergyCost,
+      total_time_cost: totalTimeCost,
+      total_parking_time: TariffPricingEngine.round4(
+        periods.reduce((acc, period) => acc + period.parkingHours, 0),
+      ),
+      total_parking_cost: totalParkingCost,
+      // Reservations are not part of the charging periods of a session
+      total_reservation_cost: undefined,
+    };
+  }
+
+  /**
+   * Splits the session into periods, each lasting until the next period starts or the session
+   * ends. The first period is extended back to the start of the session. A period that has a
+   * PARKING_TIME dimension, or that delivered no energy, counts as parking time.
+   */
+  private static getPeriodContexts(input: PricingInput): PeriodContext[] {
+    const sessionStart = new Date(input.startDateTime);
+    const sessionEnd = new Date(input.endDateTime);
+    const chargingPeriods = [...input.chargingPeriods].sort(
+      (a, b) =>
+        new Date(a.start_date_time).getTime() -
+        new Date(b.start_date_time).getTime(),
+    );
+    if (chargingPeriods.length === 0) {
+      chargingPeriods.push({
+        start_date_time: sessionStart.toISOString(),
+        dimensions: [
+          { type: CdrDimensionType.ENERGY, volume: input.totalEnergy },
+        ],
+      });
+    }
+
+    const contexts: PeriodContext[] = [];
+    let energyBeforeKwh = 0;
+    chargingPeriods.forEach((chargingPeriod, index) => {
+      const start =
+        index === 0 ? sessionStart : new Date(chargingPeriod.start_date_time);
+      const end =
+        index + 1 < chargingPeriods.length
+          ? new Date(chargingPeriods[index + 1].start_date_time)
+          : sessionEnd;
+      const hours = Math.max(end.getTime() - start.getTime(), 0) / 3600000;
+      const volumeOf = (type: CdrDimensionType) =>
+        chargingPeriod.dimensions.find((dimension) => dimension.type === type)
+          ?.volume;
+
+      const energyKwh = volumeOf(CdrDimensionType.ENERGY);
+      const parkingTime = volumeOf(CdrDimensionType.PARKING_TIME);
+      const parkingHours =
+        parkingTime !== undefined
+          ? Math.min(parkingTime, hours)
+          : energyKwh === 0
+            ? hours
+            : 0;
+      const chargingHours = hours - parkingHours;
+      const averagePowerKw =
+        energyKwh && chargingHours > 0 ? energyKwh / chargingHours : undefined;
+
+      contexts.push({
+        start,
+        end: end > start ? end : start,
+        energyKwh: energyKwh ?? 0,
+        chargingHours,
+        parkingHours,
+        energyBeforeKwh,
+        elapsedSeconds: (start.getTime() - sessionStart.getTime()) / 1000,
+        currentA: volumeOf(CdrDimensionType.CURRENT),
+        powerKw: volumeOf(CdrDimensionType.POWER) ?? averagePowerKw,
+      });
+      energyBeforeKwh += energyKwh ?? 0;
+    });
+    return contexts;
+  }
+
+  /**
+   * Splits the periods at the moments a restriction on the time of day, date, day of week, energy
+   * or duration changes, so that every resulting period is priced with a single set of elements.
+   * The volumes of a period are divided proportionally to the duration of its parts.
+   */
+  private static splitAtRestrictionBoundaries(
+    periods: PeriodContext[],
+    restrictions: (TariffRestrictions | null | undefined)[],
+    sessionStart: Date,
+    timeZone?: string,
+  ): PeriodContext[] {
+    const defined = restrictions.filter(
+      (restriction): restriction is TariffRestrictions => !!restriction,
+    );
+    const times = new Set<number>();
+    const kwhs = new Set<number>();
+    const durations = new Set<number>();
+    for (const restriction of defined) {
+      [restriction.start_time, restriction.end_time]
+        .map(TariffPricingEngine.toMinutes)
+        .forEach((minutes) => minutes !== undefined && times.add(minutes));
+      if (
+        restriction.day_of_week?.length ||
+        restriction.start_date ||
+        restriction.end_date
+      ) {
+        times.add(0);
+      }
+      [restriction.min_kwh, restriction.max_kwh].forEach(
+        (kwh) => kwh !== undefined && kwh !== null && kwhs.add(kwh),
+      );
+      [restriction.min_duration, restriction.max_duration].forEach(
+        (duration) =>
+          duration !== undefined &&
+          duration !== null &&
+          durations.add(duration),
+      );
+    }
+    if (times.size === 0 && kwhs.size === 0 && durations.size === 0) {
+      return periods;
+    }
+
+    return periods.flatMap((period) => {
+      const startMs = period.start.getTime();
+      const durationMs = period.end.getTime() - startMs;
+      if (durationMs <= 0) {
+        return [period];
+      }
+      const boundaries = new Set<number>();
+      const addBoundary = (ms: number) => {
+        const rounded = Math.round(ms);
+        if (rounded > startMs && rounded < startMs + durationMs) {
+          boundaries.add(rounded);
+        }
+      };
+      TariffPricingEngine.getTimeOfDayBoundaries(
+        period.start,
+        period.end,
+        [...times],
+        timeZone,
+      ).forEach(addBoundary);
+      if (period.energyKwh > 0) {
+        kwhs.forEach((kwh) =>
+          addBoundary(
+            startMs +
+              ((kwh - period.energyBeforeKwh) / period.energyKwh) * durationMs,
+          ),
+        );
+      }
+      durations.forEach((duration) =>
+        addBoundary(sessionStart.getTime() + duration * 1000),
+      );
+      if (boundaries.size === 0) {
+        return [period];
+      }
+
+      const splits = [...boundaries].sort((a, b) => a - b);
+      const edges = [startMs, ...splits, startMs + durationMs];
+      const parts: PeriodContext[] = [];
+      let energyBeforeKwh = period.energyBeforeKwh;
+      for (let i = 0; i + 1 < edges.length; i++) {
+        const fraction = (edges[i + 1] - edges[i]) / durationMs;
+        const start = new Date(edges[i]);
+        parts.push({
+          ...period,
+          start,
+          end: new Date(edges[i + 1]),
+          energyKwh: period.energyKwh * fraction,
+          chargingHours: period.chargingHours * fraction,
+          parkingHours: period.parkingHours * fraction,
+          // Rounded so that a part starting at a kWh boundary meets min_kwh
+          energyBeforeKwh: TariffPricingEngine.round4(energyBeforeKwh),
+          elapsedSeconds: (edges[i] - sessionStart.getTime()) / 1000,
+        });
+        energyBeforeKwh += period.energyKwh * fraction;
+      }
+      return parts;
+    });
+  }
+
+  /**
+   * Moments in [start, end) at which the local time of day is one of the given minutes of the
+   * day.
+   */
+  private static getTimeOfDayBoundaries(
+    start: Date,
+    end: Date,
+    minutesOfDay: number[],
+    timeZone?: string,
+  ): number[] {
+    if (minutesOfDay.length === 0) {
+      return [];
+    }
+    const boundaries: number[] = [];
+    let current = start.getTime();
+    while (current < end.getTime()) {
+      const local = TariffPricingEngine.getLocalDateTime(
+        new Date(current),
+        timeZone,
+      );
+      const minuteStart = current - (current % 60000);
+      const delta = Math.min(
+        ...minutesOfDay.map(
+          (minutes) =>
+            (minutes - local.minutes + MINUTES_IN_DAY) % MINUTES_IN_DAY ||
+            MINUTES_IN_DAY,
+        ),
+      );
+      let next = minuteStart + delta * 60000;
+      // Corrects for a change of the UTC offset (DST) in between
+      const target = (local.minutes + delta) % MINUTES_IN_DAY;
+      const actual = TariffPricingEngine.getLocalDateTime(
+        new Date(next),
+        timeZone,
+      ).minutes;
+      let drift = target - actual;
+      if (drift > MINUTES_IN_DAY / 2) drift -= MINUTES_IN_DAY;
+      if (drift < -MINUTES_IN_DAY / 2) drift += MINUTES_IN_DAY;
+      if (next + drift * 60000 > current) {
+        next += drift * 60000;
+      }
+      boundaries.push(next);
+      current = next;
+    }
+    return boundaries;
+  }
+
+  private static isActive(
+    restrictions: TariffRestrictions | null | undefined,
+    period: PeriodContext,
+    timeZone?: string,
+  ): boolean {
+    if (!restrictions) {
+      return true;
+    }
+    const local = TariffPricingEngine.getLocalDateTime(period.start, timeZone);
+
+    const startMinutes = TariffPricingEngine.toMinutes(restrictions.start_time);
+    const endMinutes = TariffPricingEngine.toMinutes(restrictions.end_time);
+    if (startMinutes !== undefined && endMinutes !== undefined) {
+      const inWindow =
+        startMinutes <= endMinutes
+          ? local.minutes >= startMinutes && local.minutes < endMinutes
+          : // The window passes midnight, e.g. 22:00 - 06:00
+            local.minutes >= startMinutes || local.minutes < endMinutes;
+      if (!inWindow) return false;
+    } else if (startMinutes !== undefined && local.minutes < startMinutes) {
+      return false;
+    } else if (endMinutes !== undefined && local.minutes >= endMinutes) {
+      return false;
+    }
+
+    if (restrictions.start_date && local.date < restrictions.start_date) {
+      return false;
+    }
+    if (restrictions.end_date && local.date >= restrictions.end_date) {
+      return false;
+    }
+    if (
+      restrictions.day_of_week?.length &&
+      !restrictions.day_of_week.includes(local.dayOfWeek)
+    ) {
+      return false;
+    }
+    if (
+      !TariffPricingEngine.inRange(
+        period.energyBeforeKwh,
+        restrictions.min_kwh,
+        restrictions.max_kwh,
+      ) ||
+      !TariffPricingEngine.inRange(
+        period.elapsedSeconds,
+        restrictions.min_duration,
+        restrictions.max_duration,
+      ) ||
+      !TariffPricingEngine.inRange(
+        period.currentA,
+        restrictions.min_current,
+        restrictions.max_current,
+      ) ||
+      !TariffPricingEngine.inRange(
+        period.powerKw,
+        restrictions.min_power,
+        restrictions.max_power,
+      )
+    ) {
+      return false;
+    }
+    // Elements restricted to reservations do not apply to charging periods
+    return !restrictions.reservation;
+  }
+
+  /**
+   * Whether value is within [min, max). A restricted value that is not known does not match.
+   */
+  private static inRange(
+    value: number | undefined,
+    min?: number | null,
+    max?: number | null,
+  ): boolean {
+    if (min === undefined || min === null) {
+      if (max === undefined || max === null) return true;
+    }
+    if (value === undefined) {
+      return false;
+    }
+    return (
+      (min === undefined || min === null || value >= min) &&
+      (max === undefined || max === null || value < max)
+    );
+  }
+
+  /**
+   * Sums the cost of the billed volumes. The volume billed with the last component is rounded up
+   * to its step_size, which is given in Wh for energy and in seconds for time.
+   *
+   * @param stepSizesPerUnit - Number of step size units per billed unit (kWh or hour).
+   */
+  private static cost(
+    billedVolumes: BilledVolume[],
+    stepSizesPerUnit: number,
+  ): Price | undefined {
+    if (billedVolumes.length === 0) {
+      return undefined;
+    }
+    const prices = billedVolumes.map(({ component, volume }, index) => {
+      let billedVolume = volume;
+      if (index === billedVolumes.length - 1 && component.step_size > 0) {
+        const step = component.step_size / stepSizesPerUnit;
+        billedVolume =
+          Math.ceil(TariffPricingEngine.round4(volume / step)) * step;
+      }
+      return TariffPricingEngine.buildPrice(
+        billedVolume * component.price,
+        component.vat,
+      );
+    });
+    return TariffPricingEngine.sum(prices);
+  }
+
+  private static clamp(total: Price, tariff: PricedTariff): Price {
+    if (tariff.min_price && total.excl_vat < tariff.min_price.excl_vat) {
+      return TariffPricingEngine.withVatOf(tariff.min_price, total);
+    }
+    if (tariff.max_price && total.excl_vat > tariff.max_price.excl_vat) {
+      return TariffPricingEngine.withVatOf(tariff.max_price, total);
+    }
+    return total;
+  }
+
+  /**
+   * Uses incl_vat of the limit when given, otherwise applies the VAT ratio of the computed total.
+   */
+  private static withVatOf(limit: Price, total: Price): Price {
+    const vatRatio =
+      total.excl_vat > 0
+        ? (total.incl_vat ?? total.excl_vat) / total.excl_vat
+        : 1;
+    return {
+      excl_vat: limit.excl_vat,
+      incl_vat:
+        limit.incl_vat ?? TariffPricingEngine.round4(limit.excl_vat * vatRatio),
+    };
+  }
+
+  private static sum(prices: (Price | undefined)[]): Price {
+    return {
+      excl_vat: TariffPricingEngine.round4(
+        prices.reduce((acc, price) => acc + (price?.excl_vat ?? 0), 0),
+      ),
+      incl_vat: TariffPricingEngine.round4(
+        prices.reduce(
+          (acc, price) => acc + (price?.incl_vat ?? price?.excl_vat ?? 0),
+          0,
+        ),
+      ),
+    };
+  }
+
+  /**
+   * VAT is a percentage; when it is omitted no VAT applies.
+   */
+  private static buildPrice(exclVat: number, vat?: number | null): Price {
+    return {
+      excl_vat: TariffPricingEngine.round4(exclVat),
+      incl_vat: TariffPricingEngine.round4(exclVat * (1 + (vat ?? 0) / 100)),
+    };
+  }
+
+  private static getLocalDateTime(
+    dateTime: Date,
+    timeZone?: string,
+  ): { date: string; minutes: number; dayOfWeek: DayOfWeek } {
+    let parts: Intl.DateTimeFormatPart[];
+    try {
+      parts = new Intl.DateTimeFormat('en-US', {
+        timeZone: timeZone || 'UTC',
+        year: 'numeric',
+        month: '2-digit',
+        day: '2-digit',
+        hour: '2-digit',
+        minute: '2-digit',
+        weekday: 'long',
+        hourCycle: 'h23',
+      }).formatToParts(dateTime);
+    } catch {
+      // Unknown time zone
+      return TariffPricingEngine.getLocalDateTime(dateTime, 'UTC');
+    }
+    const part = (type: Intl.DateTimeFormatPartTypes) =>
+      parts.find((p) => p.type === type)!.value;
+    return {
+      date: `${part('year')}-${part('month')}-${part('day')}`,
+      minutes: Number(part('hour')) * 60 + Number(part('minute')),
+      dayOfWeek: part('weekday').toUpperCase() as DayOfWeek,
+    };
+  }
+
+  private static toMinutes(time?: string | null): number | undefined {
+    if (!time) {
+      return undefined;
+    }
+    const [hours, minutes] = time.split(':').map(Number);
+    return hours * 60 + minutes;
+  }
+
+  private static round4(value: number): number {
+    return Math.round(value * 10000) / 10000;
+  }
+}
@@ -0,0 +1,29 @@
+// SPDX-FileCopyrightText: 2025 Contributors to the CitrineOS Project
+//
+// SPDX-License-Identifier: Apache-2.0
+
+import { Context, Next } from 'koa';
+import { UseBefore } from 'routing-controllers';
+import { Container } from 'typedi';
+import { V211Mapper } from '../../mapper/V211Mapper';
+import { ModuleId } from '../../model/ModuleId';
+import { V211TranslationService } from '../../services/V211TranslationService';
+import { versionIdParam } from './VersionNumberParam';
+
+/**
+ * VersionedResponse decorator translates the data of the endpoint's response into the OCPI version of
+ * the request path, for endpoints returning the payloads of the given module in 2.2.1.
+ */
+export const VersionedResponse = (moduleId: ModuleId) =>
+  function (object: any, methodName: string) {
+    UseBefore(async (context: Context, next: Next) => {
+      await next();
+      const body = context.response.body as any;
+      if (V211Mapper.isV211(context.params?.[versionIdParam]) && body?.data) {
+        body.data = await Container.get(V211TranslationService).toV211(
+          moduleId,
+          body.data,
+        );
+      }
+    })(object, methodName);
+  };
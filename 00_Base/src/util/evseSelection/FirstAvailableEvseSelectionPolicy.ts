@@ -0,0 +1,28 @@
+// SPDX-FileCopyrightText: 2025 Contributors to the CitrineOS Project
+//
+// SPDX-License-Identifier: Apache-2.0
+
+import { Service } from 'typedi';
+import { EvseStatus } from '../../model/EvseStatus';
+import {
+  EVSE_SELECTION_POLICY,
+  EvseCandidate,
+  EvseSelection,
+  EvseSelectionPolicy,
+} from './base';
+
+/**
+ * Picks the first AVAILABLE EVSE in location order, e.g. for locations whose EVSEs are all alike.
+ */
+@Service({ id: EVSE_SELECTION_POLICY, multiple: true })
+export class FirstAvailableEvseSelectionPolicy extends EvseSelectionPolicy {
+  public readonly name = 'FIRST_AVAILABLE';
+
+  selectEvse(candidates: EvseCandidate[]): EvseSelection | undefined {
+    const candidate =
+      candidates.find(({ evse }) => evse.status === EvseStatus.AVAILABLE) ??
+      candidates[0];
+    const connector = candidate.evse.connectors[0];
+    return connector ? { ...candidate, connector } : undefined;
+  }
+}
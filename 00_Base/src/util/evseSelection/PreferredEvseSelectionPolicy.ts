@@ -0,0 +1,64 @@
+// SPDX-FileCopyrightText: 2025 Contributors to the CitrineOS Project
+//
+// SPDX-License-Identifier: Apache-2.0
+
+import { Service } from 'typedi';
+import { ConnectorDTO } from '../../model/DTO/ConnectorDTO';
+import { EvseStatus } from '../../model/EvseStatus';
+import {
+  ConnectorUsage,
+  EVSE_SELECTION_POLICY,
+  EvseCandidate,
+  EvseSelection,
+  EvseSelectionContext,
+  EvseSelectionPolicy,
+} from './base';
+
+/**
+ * Default policy: prefers AVAILABLE EVSEs, then connectors matching the standard and power type
+ * the token charged with before, then the most powerful connector. Ties keep the location order.
+ */
+@Service({ id: EVSE_SELECTION_POLICY, multiple: true })
+export class PreferredEvseSelectionPolicy extends EvseSelectionPolicy {
+  public readonly name = 'PREFERRED';
+
+  selectEvse(
+    candidates: EvseCandidate[],
+    context: EvseSelectionContext,
+  ): EvseSelection | undefined {
+    let best: { selection: EvseSelection; score: number[] } | undefined;
+    for (const candidate of candidates) {
+      for (const connector of candidate.evse.connectors) {
+        const score = [
+          candidate.evse.status === EvseStatus.AVAILABLE ? 1 : 0,
+          this.countMatchingUsages(connector, context.tokenHistory),
+          connector.max_electric_power ?? 0,
+        ];
+        if (!best || this.compareScores(score, best.score) > 0) {
+          best = { selection: { ...candidate, connector }, score };
+        }
+      }
+    }
+    return best?.selection;
+  }
+
+  private countMatchingUsages(
+    connector: ConnectorDTO,
+    tokenHistory: ConnectorUsage[],
+  ): number {
+    return tokenHistory.filter(
+      (usage) =>
+        usage.standard === connector.standard &&
+        usage.power_type === connector.power_type,
+    ).length;
+  }
+
+  private compareScores(a: number[], b: number[]): number {
+    for (let i = 0; i < a.length; i++) {
+      if (a[i] !== b[i]) {
+        return a[i] - b[i];
+      }
+    }
+    return 0;
+  }
+}
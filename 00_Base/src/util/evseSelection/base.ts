@@ -0,0 +1,63 @@
+// SPDX-FileCopyrightText: 2025 Contributors to the CitrineOS Project
+//
+// SPDX-License-Identifier: Apache-2.0
+
+import { IChargingStationDto, ITenantPartnerDto } from '@citrineos/base';
+import { Token } from 'typedi';
+import { ConnectorType } from '../../model/ConnectorType';
+import { ConnectorDTO } from '../../model/DTO/ConnectorDTO';
+import { EvseDTO } from '../../model/DTO/EvseDTO';
+import { PowerType } from '../../model/PowerType';
+import { StartSession } from '../../model/StartSession';
+
+export const EVSE_SELECTION_POLICY = new Token<EvseSelectionPolicy>(
+  'EVSE_SELECTION_POLICY',
+);
+
+/**
+ * EVSE of the location a session can be started on: its charging station is online and its status
+ * allows starting a session.
+ */
+export interface EvseCandidate {
+  chargingStation: IChargingStationDto;
+  evse: EvseDTO;
+}
+
+export interface EvseSelection extends EvseCandidate {
+  connector: ConnectorDTO;
+}
+
+/**
+ * Connector used in a previous session of the token.
+ */
+export interface ConnectorUsage {
+  standard: ConnectorType;
+  power_type: PowerType;
+  max_electric_power?: number | null;
+}
+
+export interface EvseSelectionContext {
+  startSession: StartSession;
+  tenantPartner: ITenantPartnerDto;
+  /**
+   * Most recent first.
+   */
+  tokenHistory: ConnectorUsage[];
+}
+
+/**
+ * Picks the EVSE a StartSession without evse_uid is sent to. Policies are selected per tenant by
+ * name, see the commands.evseSelection config.
+ */
+export abstract class EvseSelectionPolicy {
+  abstract readonly name: string;
+
+  /**
+   * @param candidates - EVSEs of the location in location order, never empty.
+   * @returns The EVSE and connector to start the session on, undefined when none fits.
+   */
+  abstract selectEvse(
+    candidates: EvseCandidate[],
+    context: EvseSelectionContext,
+  ): EvseSelection | undefined;
+}
@@ -0,0 +1,20 @@
+// SPDX-FileCopyrightText: 2025 Contributors to the CitrineOS Project
+//
+// SPDX-License-Identifier: Apache-2.0
+
+/**
+ * Import all EVSE selection policies, so that they are resolved by @InjectMany
+ */
+import './FirstAvailableEvseSelectionPolicy';
+import './PreferredEvseSelectionPolicy';
+
+export { FirstAvailableEvseSelectionPolicy } from './FirstAvailableEvseSelectionPolicy';
+export { PreferredEvseSelectionPolicy } from './PreferredEvseSelectionPolicy';
+export {
+  ConnectorUsage,
+  EVSE_SELECTION_POLICY,
+  EvseCandidate,
+  EvseSelection,
+  EvseSelectionContext,
+  EvseSelectionPolicy,
+} from './base';
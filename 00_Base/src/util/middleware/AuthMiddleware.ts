@@ -12,20 +12,19 @@ import { BaseMiddleware } from './BaseMiddleware';
 import { ContentType } from '../ContentType';
 import { buildOcpiErrorResponse } from '../../model/OcpiErrorResponse';
 import { OcpiResponseStatusCode } from '../../model/OcpiResponse';
-import { OcpiGraphqlClient } from '../../graphql/OcpiGraphqlClient';
-import {
-  GET_TENANT_PARTNER_BY_CPO_AND_AND_CLIENT,
-  GET_TENANT_PARTNER_BY_SERVER_TOKEN,
-} from '../../graphql/queries/tenantPartner.queries';
-import {
-  GetTenantPartnerByCpoClientAndModuleIdQueryResult,
-  GetTenantPartnerByCpoClientAndModuleIdQueryVariables,
-  GetTenantPartnerByServerTokenQueryResult,
-  GetTenantPartnerByServerTokenQueryVariables,
-} from '../../graphql/operations';
+import { ModuleId } from '../../model/ModuleId';
+import { VersionNumber } from '../../model/VersionNumber';
+import { GetTenantPartnerByServerTokenQueryResult } from '../../graphql/operations';
+import { TenantPartnerTokenResolver } from '../../services/TenantPartnerTokenResolver';
 
 const permittedRoutes: string[] = ['/docs', '/docs/spec', '/favicon.png'];
-const registrationModules: string[] = ['versions', 'credentials'];
+const registrationModules: string[] = [ModuleId.Versions, ModuleId.Credentials];
+// Routing headers were introduced in OCPI 2.2
+const versionsWithoutRoutingHeaders: string[] = [
+  VersionNumber.TWO_DOT_ZERO,
+  VersionNumber.TWO_DOT_ONE,
+  VersionNumber.TWO_DOT_ONE_DOT_ONE,
+];
 
 type TenantPartner =
   GetTenantPartnerByServerTokenQueryResult['TenantPartners'][0];
@@ -35,31 +34,49 @@ declare module 'koa' {
   }
 }
 
+/**
+ * Rejection of an authenticated request, answered with the given HTTP status and OCPI status code.
+ */
+class AccessDeniedError extends Error {
+  constructor(
+    readonly httpStatus: HttpStatus,
+    readonly statusCode: OcpiResponseStatusCode,
+    message: string,
+  ) {
+    super(message);
+  }
+}
+
 /**
  * AuthMiddleware is applied via the {@link AsOcpiEndpoint} and {@link AsOcpiOpenRoutingEndpoint} decorators. Endpoints
  * that are annotated with these decorators will have this middleware running. The middleware will check for presense
  * of the auth header, and try and call {@link CredentialsService#authorizeToken} with token, countryCode and partyId.
  * If authentication fails, {@link OcpiErrorResponse} will be thrown with HttpStatus.UNAUTHORIZED which should be handled
  * by global exception handler.
+ *
+ * Functional modules additionally require the OCPI routing headers (from OCPI 2.2 on) to name a party of the
+ * credentials, or a party connected to the hub holding the credentials, and the tenant they were issued by, and the
+ * partner to have registered an endpoint of the module.
+ * Registration modules ({@link ModuleId.Versions} and {@link ModuleId.Credentials}) are exempt.
  */
 @Service()
 export class AuthMiddleware
   extends BaseMiddleware
   implements KoaMiddlewareInterface
 {
-  constructor(readonly ocpiGraphqlClient: OcpiGraphqlClient) {
+  constructor(readonly tenantPartnerTokenResolver: TenantPartnerTokenResolver) {
     super();
   }
 
-  throwError(ctx: any) {
+  throwError(
+    ctx: any,
+    httpStatus: HttpStatus = HttpStatus.UNAUTHORIZED,
+    statusCode: OcpiResponseStatusCode = OcpiResponseStatusCode.ClientNotEnoughInformation,
+    message = 'Not Authorized',
+  ) {
     ctx.type = ContentType.JSON;
-    ctx.status = HttpStatus.UNAUTHORIZED;
-    ctx.body = JSON.stringify(
-      buildOcpiErrorResponse(
-        OcpiResponseStatusCode.ClientNotEnoughInformation,
-        'Not Authorized',
-      ),
-    );
+    ctx.status = httpStatus;
+    ctx.body = JSON.stringify(buildOcpiErrorResponse(statusCode, message));
   }
 
   async use(context: any, next: (err?: any) => Promise<any>): Promise<any> {
@@ -81,21 +98,18 @@ export class AuthMiddleware
         const tokens = extractToken(authHeader, true);
         const tokenArray = Array.isArray(tokens) ? tokens : [tokens];
 
-        let tenantPartner = null;
+        let tenantPartners: TenantPartner[] = [];
 
-        // Try each token variant to find the matching tenant partner
+        // Try each token variant to find the matching tenant partners
         for (const token of tokenArray) {
-          const response = await this.ocpiGraphqlClient.request<
-            GetTenantPartnerByServerTokenQueryResult,
-            GetTenantPartnerByServerTokenQueryVariables
-          >(GET_TENANT_PARTNER_BY_SERVER_TOKEN, { serverToken: token });
-
-          if (response.TenantPartners[0]) {
-            tenantPartner = response.TenantPartners[0];
+          tenantPartners =
+            await this.tenantPartnerTokenResolver.resolveAll(token);
+          if (tenantPartners.length > 0) {
             break;
           }
         }
 
+        let tenantPartner: TenantPartner | undefined = tenantPartners[0];
         if (!tenantPartner) {
           logger.debug(
             `Authorization failed - tenant partner not found for any token variant`,
@@ -106,45 +120,28 @@ export class AuthMiddleware
           );
         }
 
-        // if (
-        //   !registrationModules.some((value) =>
-        //     (context.request.originalUrl as string).includes(value),
-        //   )
-        // ) {
-        //   const fromCountryCode = this.getHeader(
-        //     context,
-        //     OcpiHttpHeader.OcpiFromCountryCode,
-        //   );
-        //   const fromPartyId = this.getHeader(
-        //     context,
-        //     OcpiHttpHeader.OcpiFromPartyId,
-        //   );
-        //   const toCountryCode = this.getHeader(
-        //     context,
-        //     OcpiHttpHeader.OcpiToCountryCode,
-        //   );
-        //   const toPartyId = this.getHeader(
-        //     context,
-        //     OcpiHttpHeader.OcpiToPartyId,
-        //   );
-        //   if (
-        //     tenantPartner.countryCode !== fromCountryCode ||
-        //     tenantPartner.partyId !== fromPartyId ||
-        //     tenantPartner.tenant.countryCode !== toCountryCode ||
-        //     tenantPartner.tenant.partyId !== toPartyId
-        //   ) {
-        //     logger.debug(
-        //       `String token matched tenantPartner with incorrect routing headers - ${tenantPartner.countryCode}:${fromCountryCode}, ${tenantPartner.partyId}:${fromPartyId}, ${tenantPartner.tenant.countryCode}:${toCountryCode}, ${tenantPartner.tenant.partyId}:${toPartyId}`,
-        //     );
-        //     throw new UnauthorizedException(
-        //       'Credentials not found for given token',
-        //     );
-        //   }
-        // }
+        const { moduleId, version } = this.getRequestTarget(context);
+        if (moduleId && !registrationModules.includes(moduleId)) {
+          if (!version || !versionsWithoutRoutingHeaders.includes(version)) {
+            tenantPartner = await this.getRoutedTenantPartner(
+              context,
+              tenantPartners,
+            );
+          }
+          this.checkModuleAccess(tenantPartner, moduleId);
+        }
 
         context.state.tenantPartner = tenantPartner;
       } catch (error: any) {
         logger.debug(`Authorization error: ${error.message}`);
+        if (error instanceof AccessDeniedError) {
+          return this.throwError(
+            context,
+            error.httpStatus,
+            error.statusCode,
+            error.message,
+          );
+        }
         return this.throwError(context);
       }
     } else {
@@ -152,4 +149,108 @@ export class AuthMiddleware
     }
     return await next();
   }
+
+  /**
+   * Module and OCPI version of the request, taken from the path, e.g. /ocpi/2.2.1/sessions/123.
+   */
+  private getRequestTarget(context: any): {
+    moduleId?: string;
+    version?: string;
+  } {
+    const segments = (context.request.path as string).split('/');
+    const moduleIds: string[] = Object.values(ModuleId);
+    const versions: string[] = Object.values(VersionNumber);
+    return {
+      moduleId: segments.find((segment) => moduleIds.includes(segment)),
+      version: segments.find((segment) => versions.includes(segment)),
+    };
+  }
+
+  /**
+   * Validates the routing headers against the tenant partners of the token. When the credentials hold several roles,
+   * the OCPI-from party may be any tenant partner sharing the token, which is then returned. When the credentials are
+   * those of a hub, the OCPI-from party may also be a party connected to the hub, and the hub is returned.
+   */
+  private async getRoutedTenantPartner(
+    context: any,
+    tenantPartners: TenantPartner[],
+  ): Promise<TenantPartner> {
+    const fromCountryCode = this.getHeader(
+      context,
+      OcpiHttpHeader.OcpiFromCountryCode,
+    );
+    const fromPartyId = this.getHeader(context, OcpiHttpHeader.OcpiFromPartyId);
+    const toCountryCode = this.getHeader(
+      context,
+      OcpiHttpHeader.OcpiToCountryCode,
+    );
+    const toPartyId = this.getHeader(context, OcpiHttpHeader.OcpiToPartyId);
+    if (!fromCountryCode || !fromPartyId || !toCountryCode || !toPartyId) {
+      throw new AccessDeniedError(
+        HttpStatus.BAD_REQUEST,
+        OcpiResponseStatusCode.ClientInvalidOrMissingParameters,
+        'Missing OCPI routing headers',
+      );
+    }
+    const receiverTenantPartners = tenantPartners.filter(
+      (tenantPartner) =>
+        tenantPartner.tenant.countryCode === toCountryCode &&
+        tenantPartner.tenant.partyId === toPartyId,
+    );
+    if (receiverTenantPartners.length === 0) {
+      throw new AccessDeniedError(
+        HttpStatus.BAD_REQUEST,
+        OcpiResponseStatusCode.ClientInvalidOrMissingParameters,
+        `Unknown receiver ${toCountryCode}*${toPartyId}`,
+      );
+    }
+    const sender = receiverTenantPartners.find(
+      (tenantPartner) =>
+        tenantPartner.countryCode === fromCountryCode &&
+        tenantPartner.partyId === fromPartyId,
+    );
+    if (sender) {
+      return sender;
+    }
+    for (const tenantPartner of receiverTenantPartners) {
+      const hubClients =
+        await this.tenantPartnerTokenResolver.getConnectedHubClients(
+          tenantPartner.id,
+        );
+      if (
+        hubClients.some(
+          (hubClient) =>
+            hubClient.countryCode === fromCountryCode &&
+            hubClient.partyId === fromPartyId,
+        )
+      ) {
+        return tenantPartner;
+      }
+    }
+    throw new AccessDeniedError(
+      HttpStatus.UNAUTHORIZED,
+      OcpiResponseStatusCode.ClientUnknownToken,
+      `Token is not valid for sender ${fromCountryCode}*${fromPartyId}`,
+    );
+  }
+
+  /**
+   * Only modules the partner registered an endpoint for, in any role, may be called.
+   */
+  private checkModuleAccess(tenantPartner: TenantPartner, moduleId: string) {
+    const endpoints: { identifier: string }[] =
+      tenantPartner.partnerProfileOCPI?.endpoints ?? [];
+    const registered = endpoints.some(
+      (endpoint) =>
+        endpoint.identifier === moduleId ||
+        endpoint.identifier.startsWith(`${moduleId}_`),
+    );
+    if (!registered) {
+      throw new AccessDeniedError(
+        HttpStatus.FORBIDDEN,
+        OcpiResponseStatusCode.ClientGenericError,
+        `Module ${moduleId} is not registered for partner ${tenantPartner.countryCode}*${tenantPartner.partyId}`,
+      );
+    }
+  }
 }
@@ -0,0 +1,89 @@
+// SPDX-FileCopyrightText: 2025 Contributors to the CitrineOS Project
+//
+// SPDX-License-Identifier: Apache-2.0
+
+import { HttpHeader } from '@citrineos/base';
+import { KoaMiddlewareInterface, Middleware } from 'routing-controllers';
+import { Service } from 'typedi';
+import { Context } from 'vm';
+import { ModuleId } from '../../model/ModuleId';
+import { OcpiTrafficDirection } from '../../model/OcpiTrafficLog';
+import { OcpiTrafficAuditService } from '../../services/OcpiTrafficAuditService';
+import { OcpiHttpHeader } from '../OcpiHttpHeader';
+import { BaseMiddleware } from './BaseMiddleware';
+
+const MODULE_IDS: string[] = Object.values(ModuleId);
+
+/**
+ * OcpiTrafficAuditMiddleware records the OCPI requests of partners, i.e. requests to a module
+ * authorized with a credentials token, in the {@link OcpiTrafficAuditService}. Admin requests are
+ * not recorded.
+ */
+@Middleware({ type: 'before' })
+@Service()
+export class OcpiTrafficAuditMiddleware
+  extends BaseMiddleware
+  implements KoaMiddlewareInterface
+{
+  constructor(private readonly trafficAuditService: OcpiTrafficAuditService) {
+    super();
+  }
+
+  public async use(
+    context: Context,
+    next: (err?: any) => Promise<any>,
+  ): Promise<any> {
+    const module = this.getModule(context);
+    const authorization = this.getHeader(context, HttpHeader.Authorization);
+    if (
+      !this.trafficAuditService.enabled ||
+      !module ||
+      typeof authorization !== 'string' ||
+      !authorization.startsWith('Token ')
+    ) {
+      return await next();
+    }
+
+    const start = Date.now();
+    let error: unknown;
+    try {
+      return await next();
+    } catch (err) {
+      error = err;
+      throw err;
+    } finally {
+      this.trafficAuditService.record({
+        direction: OcpiTrafficDirection.INBOUND,
+        tenantPartnerId: context.state.tenantPartner?.id,
+        module,
+        method: context.request.method,
+        url: context.request.url,
+        fromCountryCode: this.getHeader(
+          context,
+          OcpiHttpHeader.OcpiFromCountryCode,
+        ),
+        fromPartyId: this.getHeader(context, OcpiHttpHeader.OcpiFromPartyId),
+        toCountryCode: this.getHeader(
+          context,
+          OcpiHttpHeader.OcpiToCountryCode,
+        ),
+        toPartyId: this.getHeader(context, OcpiHttpHeader.OcpiToPartyId),
+        requestId: this.getHeader(context, OcpiHttpHeader.XRequestId),
+        correlationId: this.getHeader(context, OcpiHttpHeader.XCorrelationId),
+        httpStatus: error ? undefined : context.status,
+        latencyMs: Date.now() - start,
+        requestBody: context.request.body,
+        responseBody: error ? undefined : context.body,
+        error,
+      });
+    }
+  }
+
+  /**
+   * Module of the request, taken from the path, e.g. /ocpi/2.2.1/sessions/123.
+   */
+  private getModule(context: Context): string | undefined {
+    const segments = (context.request.path as string).split('/');
+    return segments.find((segment) => MODULE_IDS.includes(segment));
+  }
+}
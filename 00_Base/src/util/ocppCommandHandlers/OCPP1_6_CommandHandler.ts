@@ -11,10 +11,27 @@ import type { StartSession } from '../../model/StartSession.js';
 import type { IRequestQueryParams } from 'typed-rest-client/Interfaces.js';
 import { CommandType } from '../../model/CommandType.js';
 import type { StopSession } from '../../model/StopSession.js';
-import type { UnlockConnector } from '../../index.js';
-import { CommandResultType } from '../../index.js';
+import type {
+  CancelReservation,
+  ReserveNow,
+  SetChargingProfile,
+  UnlockConnector,
+} from '../../index.js';
+import {
+  ChargingProfileResultType,
+  ChargingProfilesCommandType,
+  CommandResultType,
+  OcpiReservationStatus,
+} from '../../index.js';
+import type {
+  DeleteSessionChargingProfileByCommandIdMutationResult,
+  DeleteSessionChargingProfileByCommandIdMutationVariables,
+} from '../../graphql/index.js';
+import { DELETE_SESSION_CHARGING_PROFILE_BY_COMMAND_ID_MUTATION } from '../../graphql/index.js';
+import { EXTRACT_EVSE_ID } from '../../model/DTO/EvseDTO.js';
 import { ILogObj, Logger } from 'tslog';
 import { TokensMapper } from '../../mapper/TokensMapper.js';
+import { COMMAND_RESPONSE_URL_NONE } from '../Consts.js';
 
 @Service({ id: OCPP_COMMAND_HANDLER, multiple: true })
 export class OCPP1_6_CommandHandler extends OCPPCommandHandler {
@@ -154,9 +171,319 @@ export class OCPP1_6_CommandHandler extends OCPPCommandHandler {
     );
   }
 
+  public async sendReserveNowCommand(
+    reserveNow: ReserveNow,
+    tenantPartner: ITenantPartnerDto,
+    chargingStation: IChargingStationDto,
+    commandId: string,
+    reservationId: number,
+  ): Promise<void> {
+    const options: IRequestOptions = {
+      additionalHeaders: this.config.commands.coreHeaders,
+    };
+    const queryParameters: IRequestQueryParams = {
+      params: {},
+    };
+    queryParameters.params['identifier'] = chargingStation.id;
+    queryParameters.params['tenantId'] = tenantPartner.tenant!.id!;
+    queryParameters.params['callbackUrl'] =
+      this.config.commands.ocpiBaseUrl +
+      `/2.2.1/commands/callback/${tenantPartner.id}/${this.supportedVersion}/${CommandType.RESERVE_NOW}/${commandId}`;
+    options.queryParameters = queryParameters;
+
+    // OCPP 1.6 reserves connectors, connector 0 reserves the charge point as a whole
+    let connectorId: number | undefined = 0;
+    if (reserveNow.evse_uid) {
+      const evseId = Number(EXTRACT_EVSE_ID(reserveNow.evse_uid));
+      connectorId = Array.from(chargingStation.connectors || []).find(
+        (connector) => connector.evseId === evseId,
+      )?.connectorId;
+    }
+    if (connectorId === undefined) {
+      this.logger.error('ReserveNow failed, Connector not found', {
+        reserveNow,
+      });
+      await this.updateReservationStatus(
+        commandId,
+        OcpiReservationStatus.REJECTED,
+      );
+      this.commandsClientApi
+        .postCommandResult(
+          tenantPartner.countryCode!,
+          tenantPartner.partyId!,
+          tenantPartner.tenant!.countryCode!,
+          tenantPartner.tenant!.partyId!,
+          tenantPartner.partnerProfileOCPI!,
+          reserveNow.response_url,
+          {
+            result: CommandResultType.FAILED,
+            message: {
+              language: 'en',
+              text: 'Charging station communication failed',
+            },
+          },
+          commandId,
+        )
+        .catch((error) => {
+          this.logger.error('Failed to post command result', { error });
+        });
+      return;
+    }
+    const reserveNowRequest: OCPP1_6.ReserveNowRequest = {
+      connectorId,
+      expiryDate: reserveNow.expiry_date.toISOString(),
+      idTag: TokensMapper.normalizeToken(reserveNow.token.uid)!,
+      reservationId,
+    };
+    await this.sendOCPPMessage(
+      this.config.commands.ocpp1_6.reserveNowRequestUrl,
+      reserveNowRequest,
+      options,
+      tenantPartner,
+      reserveNow.response_url,
+      commandId,
+    );
+  }
+
+  public async sendCancelReservationCommand(
+    cancelReservation: CancelReservation,
+    tenantPartner: ITenantPartnerDto,
+    chargingStation: IChargingStationDto,
+    commandId: string,
+    reservationId: number,
+  ): Promise<void> {
+    const options: IRequestOptions = {
+      additionalHeaders: this.config.commands.coreHeaders,
+    };
+    const queryParameters: IRequestQueryParams = {
+      params: {},
+    };
+    queryParameters.params['identifier'] = chargingStation.id;
+    queryParameters.params['tenantId'] = tenantPartner.tenant!.id!;
+    queryParameters.params['callbackUrl'] =
+      this.config.commands.ocpiBaseUrl +
+      `/2.2.1/commands/callback/${tenantPartner.id}/${this.supportedVersion}/${CommandType.CANCEL_RESERVATION}/${commandId}`;
+    options.queryParameters = queryParameters;
+
+    const cancelReservationRequest: OCPP1_6.CancelReservationRequest = {
+      reservationId,
+    };
+    await this.sendOCPPMessage(
+      this.config.commands.ocpp1_6.cancelReservationRequestUrl,
+      cancelReservationRequest,
+      options,
+      tenantPartner,
+      cancelReservation.response_url,
+      commandId,
+    );
+  }
+
+  public async sendSetChargingProfileCommand(
+    setChargingProfile: SetChargingProfile,
+    tenantPartner: ITenantPartnerDto,
+    chargingStation: IChargingStationDto,
+    commandId: string,
+    transaction: any,
+    chargingProfileId: number,
+  ): Promise<void> {
+    const options: IRequestOptions = {
+      additionalHeaders: this.config.commands.coreHeaders,
+    };
+    const queryParameters: IRequestQueryParams = {
+      params: {},
+    };
+    queryParameters.params['identifier'] = chargingStation.id;
+    queryParameters.params['tenantId'] = tenantPartner.tenant!.id!;
+    queryParameters.params['callbackUrl'] =
+      this.config.commands.ocpiBaseUrl +
+      `/2.2.1/chargingprofiles/callback/${tenantPartner.id}/${this.supportedVersion}/${ChargingProfilesCommandType.SET_CHARGING_PROFILE}/${commandId}`;
+    options.queryParameters = queryParameters;
+
+    const connectorId = this.findConnectorId(chargingStation, transaction);
+    if (connectorId === undefined) {
+      this.logger.error('SetChargingProfile failed, Connector not found', {
+        transactionId: transaction.id,
+      });
+      await this.postChargingProfileResult(
+        tenantPartner,
+        setChargingProfile.response_url,
+        { result: ChargingProfileResultType.REJECTED },
+        commandId,
+      );
+      return;
+    }
+    const chargingProfile = setChargingProfile.charging_profile;
+    const setChargingProfileRequest: OCPP1_6.SetChargingProfileRequest = {
+      connectorId,
+      csChargingProfiles: {
+        chargingProfileId,
+        transactionId: Number(transaction.transactionId),
+        stackLevel: 0,
+        chargingProfilePurpose:
+          OCPP1_6.SetChargingProfileRequestChargingProfilePurpose.TxProfile,
+        chargingProfileKind: chargingProfile.start_date_time
+          ? OCPP1_6.SetChargingProfileRequestChargingProfileKind.Absolute
+          : OCPP1_6.SetChargingProfileRequestChargingProfileKind.Relative,
+        chargingSchedule: {
+          duration: chargingProfile.duration,
+          startSchedule: chargingProfile.start_date_time
+            ? new Date(chargingProfile.start_date_time).toISOString()
+            : undefined,
+          chargingRateUnit:
+            chargingProfile.charging_rate_unit as OCPP1_6.SetChargingProfileRequestChargingRateUnit,
+          chargingSchedulePeriod: (
+            chargingProfile.charging_profile_period || []
+          ).map((period) => ({
+            startPeriod: period.start_period,
+            limit: period.limit,
+          })),
+          minChargingRate: chargingProfile.min_charging_rate,
+        },
+      },
+    };
+    await this.sendChargingProfileOCPPMessage(
+      this.config.commands.ocpp1_6.setChargingProfileRequestUrl,
+      setChargingProfileRequest,
+      options,
+      tenantPartner,
+      setChargingProfile.response_url,
+      commandId,
+    );
+  }
+
+  public async sendGetCompositeScheduleCommand(
+    duration: number,
+    responseUrl: string,
+    tenantPartner: ITenantPartnerDto,
+    chargingStation: IChargingStationDto,
+    commandId: string,
+    transaction: any,
+  ): Promise<void> {
+    const options: IRequestOptions = {
+      additionalHeaders: this.config.commands.coreHeaders,
+    };
+    const queryParameters: IRequestQueryParams = {
+      params: {},
+    };
+    queryParameters.params['identifier'] = chargingStation.id;
+    queryParameters.params['tenantId'] = tenantPartner.tenant!.id!;
+    queryParameters.params['callbackUrl'] =
+      this.config.commands.ocpiBaseUrl +
+      `/2.2.1/chargingprofiles/callback/${tenantPartner.id}/${this.supportedVersion}/${ChargingProfilesCommandType.GET_ACTIVE_CHARGING_PROFILE}/${commandId}`;
+    options.queryParameters = queryParameters;
+
+    const connectorId = this.findConnectorId(chargingStation, transaction);
+    if (connectorId === undefined) {
+      this.logger.error('GetCompositeSchedule failed, Connector not found', {
+        transactionId: transaction.id,
+      });
+      await this.postChargingProfileResult(
+        tenantPartner,
+        responseUrl,
+        { result: ChargingProfileResultType.REJECTED },
+        commandId,
+      );
+      return;
+    }
+    const getCompositeScheduleRequest: OCPP1_6.GetCompositeScheduleRequest = {
+      connectorId,
+      duration,
+    };
+    await this.sendChargingProfileOCPPMessage(
+      this.config.commands.ocpp1_6.getCompositeScheduleRequestUrl,
+      getCompositeScheduleRequest,
+      options,
+      tenantPartner,
+      responseUrl,
+      commandId,
+    );
+  }
+
+  public async sendClearChargingProfileCommand(
+    responseUrl: string,
+    tenantPartner: ITenantPartnerDto,
+    chargingStation: IChargingStationDto,
+    commandId: string,
+    transaction: any,
+    chargingProfileId?: number,
+  ): Promise<void> {
+    const options: IRequestOptions = {
+      additionalHeaders: this.config.commands.coreHeaders,
+    };
+    const queryParameters: IRequestQueryParams = {
+      params: {},
+    };
+    queryParameters.params['identifier'] = chargingStation.id;
+    queryParameters.params['tenantId'] = tenantPartner.tenant!.id!;
+    queryParameters.params['callbackUrl'] =
+      this.config.commands.ocpiBaseUrl +
+      `/2.2.1/chargingprofiles/callback/${tenantPartner.id}/${this.supportedVersion}/${ChargingProfilesCommandType.CLEAR_CHARGING_PROFILE}/${commandId}`;
+    options.queryParameters = queryParameters;
+
+    const clearChargingProfileRequest: OCPP1_6.ClearChargingProfileRequest =
+      chargingProfileId !== undefined
+        ? { id: chargingProfileId }
+        : {
+            connectorId: this.findConnectorId(chargingStation, transaction),
+            chargingProfilePurpose:
+              OCPP1_6.ClearChargingProfileRequestChargingProfilePurpose
+                .TxProfile,
+          };
+    await this.sendChargingProfileOCPPMessage(
+      this.config.commands.ocpp1_6.clearChargingProfileRequestUrl,
+      clearChargingProfileRequest,
+      options,
+      tenantPartner,
+      responseUrl,
+      commandId,
+    );
+  }
+
+  public async sendChangeAvailabilityCommand(
+    tenantId: number,
+    chargingStation: IChargingStationDto,
+    evseId: number,
+    operative: boolean,
+  ): Promise<boolean> {
+    const options: IRequestOptions = {
+      additionalHeaders: this.config.commands.coreHeaders,
+      queryParameters: {
+        params: { identifier: chargingStation.id, tenantId },
+      },
+    };
+    // OCPP 1.6 has no EVSEs, every connector of the EVSE is changed on its own
+    const connectorIds = Array.from(chargingStation.connectors || [])
+      .filter((connector) => connector.evseId === evseId)
+      .map((connector) => connector.connectorId);
+    if (connectorIds.length === 0) {
+      this.logger.error('ChangeAvailability failed, Connectors not found', {
+        stationId: chargingStation.id,
+        evseId,
+      });
+      return false;
+    }
+    let accepted = true;
+    for (const connectorId of connectorIds) {
+      const changeAvailabilityRequest: OCPP1_6.ChangeAvailabilityRequest = {
+        connectorId,
+        type: operative
+          ? OCPP1_6.ChangeAvailabilityRequestType.Operative
+          : OCPP1_6.ChangeAvailabilityRequestType.Inoperative,
+      };
+      accepted =
+        (await this.postOCPPMessage(
+          this.config.commands.ocpp1_6.changeAvailabilityRequestUrl,
+          changeAvailabilityRequest,
+          options,
+          COMMAND_RESPONSE_URL_NONE,
+        )) && accepted;
+    }
+    return accepted;
+  }
+
   public async handleAsyncCommandResponse(
     tenantPartner: ITenantPartnerDto,
-    command: CommandType,
+    command: CommandType | ChargingProfilesCommandType,
     responseUrl: string,
     response: any,
     commandId: string,
@@ -183,6 +510,41 @@ export class OCPP1_6_CommandHandler extends OCPPCommandHandler {
           response,
           commandId,
         );
+      case CommandType.RESERVE_NOW:
+        return this.handleReserveNowResponse(
+          tenantPartner,
+          responseUrl,
+          response,
+          commandId,
+        );
+      case CommandType.CANCEL_RESERVATION:
+        return this.handleCancelReservationResponse(
+          tenantPartner,
+          responseUrl,
+          response,
+          commandId,
+        );
+      case ChargingProfilesCommandType.SET_CHARGING_PROFILE:
+        return this.handleSetChargingProfileResponse(
+          tenantPartner,
+          responseUrl,
+          response,
+          commandId,
+        );
+      case ChargingProfilesCommandType.GET_ACTIVE_CHARGING_PROFILE:
+        return this.handleGetCompositeScheduleResponse(
+          tenantPartner,
+          responseUrl,
+          response,
+          commandId,
+        );
+      case ChargingProfilesCommandType.CLEAR_CHARGING_PROFILE:
+        return this.handleClearChargingProfileResponse(
+          tenantPartner,
+          responseUrl,
+          response,
+          commandId,
+        );
       default:
         throw new Error(`Unknown command type: ${command}`);
     }
@@ -361,4 +723,249 @@ export class OCPP1_6_CommandHandler extends OCPPCommandHandler {
         return;
     }
   }
+
+  private async handleReserveNowResponse(
+    tenantPartner: ITenantPartnerDto,
+    responseUrl: string,
+    response: any,
+    commandId: string,
+  ): Promise<void> {
+    const validatedResponse = this.validate<OCPP1_6.ReserveNowResponse>(
+      this.supportedVersion,
+      OCPP1_6.ReserveNowResponseSchema,
+      response,
+    );
+
+    let result: CommandResultType;
+    let text: string;
+    switch (validatedResponse.status) {
+      case OCPP1_6.ReserveNowResponseStatus.Accepted:
+        result = CommandResultType.ACCEPTED;
+        text = 'Charging station reservation successful';
+        break;
+      case OCPP1_6.ReserveNowResponseStatus.Occupied:
+        result = CommandResultType.EVSE_OCCUPIED;
+        text = 'Charging station already in use';
+        break;
+      case OCPP1_6.ReserveNowResponseStatus.Faulted:
+      case OCPP1_6.ReserveNowResponseStatus.Unavailable:
+        result = CommandResultType.EVSE_INOPERATIVE;
+        text = 'Charging station is not available';
+        break;
+      default:
+        result = CommandResultType.REJECTED;
+        text = 'Charging station rejected reservation';
+    }
+    await this.updateReservationStatus(
+      commandId,
+      result === CommandResultType.ACCEPTED
+        ? OcpiReservationStatus.RESERVED
+        : OcpiReservationStatus.REJECTED,
+    );
+    await this.commandsClientApi.postCommandResult(
+      tenantPartner.countryCode!,
+      tenantPartner.partyId!,
+      tenantPartner.tenant!.countryCode!,
+      tenantPartner.tenant!.partyId!,
+      tenantPartner.partnerProfileOCPI!,
+      responseUrl,
+      {
+        result,
+        message: {
+          language: 'en',
+          text,
+        },
+      },
+      commandId,
+    );
+  }
+
+  private async handleCancelReservationResponse(
+    tenantPartner: ITenantPartnerDto,
+    responseUrl: string,
+    response: any,
+    commandId: string,
+  ): Promise<void> {
+    const validatedResponse = this.validate<OCPP1_6.CancelReservationResponse>(
+      this.supportedVersion,
+      OCPP1_6.CancelReservationResponseSchema,
+      response,
+    );
+
+    switch (validatedResponse.status) {
+      case OCPP1_6.CancelReservationResponseStatus.Accepted:
+        await this.updateReservationStatus(
+          commandId,
+          OcpiReservationStatus.CANCELLED,
+        );
+        await this.commandsClientApi.postCommandResult(
+          tenantPartner.countryCode!,
+          tenantPartner.partyId!,
+          tenantPartner.tenant!.countryCode!,
+          tenantPartner.tenant!.partyId!,
+          tenantPartner.partnerProfileOCPI!,
+          responseUrl,
+          {
+            result: CommandResultType.ACCEPTED,
+            message: {
+              language: 'en',
+              text: 'Charging station cancel reservation successful',
+            },
+          },
+          commandId,
+        );
+        return;
+      case OCPP1_6.CancelReservationResponseStatus.Rejected:
+        await this.commandsClientApi.postCommandResult(
+          tenantPartner.countryCode!,
+          tenantPartner.partyId!,
+          tenantPartner.tenant!.countryCode!,
+          tenantPartner.tenant!.partyId!,
+          tenantPartner.partnerProfileOCPI!,
+          responseUrl,
+          {
+            result: CommandResultType.REJECTED,
+            message: {
+              language: 'en',
+              text: 'Charging station rejected cancel reservation',
+            },
+          },
+          commandId,
+        );
+        return;
+    }
+  }
+
+  private async handleSetChargingProfileResponse(
+    tenantPartner: ITenantPartnerDto,
+    responseUrl: string,
+    response: any,
+    commandId: string,
+  ): Promise<void> {
+    const validatedResponse = this.validate<OCPP1_6.SetChargingProfileResponse>(
+      this.supportedVersion,
+      OCPP1_6.SetChargingProfileResponseSchema,
+      response,
+    );
+
+    await this.postChargingProfileResult(
+      tenantPartner,
+      responseUrl,
+      {
+        result:
+          validatedResponse.status ===
+          OCPP1_6.SetChargingProfileResponseStatus.Accepted
+            ? ChargingProfileResultType.ACCEPTED
+            : ChargingProfileResultType.REJECTED,
+      },
+      commandId,
+    );
+  }
+
+  private async handleGetCompositeScheduleResponse(
+    tenantPartner: ITenantPartnerDto,
+    responseUrl: string,
+    response: any,
+    commandId: string,
+  ): Promise<void> {
+    const validatedResponse =
+      this.validate<OCPP1_6.GetCompositeScheduleResponse>(
+        this.supportedVersion,
+        OCPP1_6.GetCompositeScheduleResponseSchema,
+        response,
+      );
+
+    const schedule = validatedResponse.chargingSchedule;
+    if (
+      validatedResponse.status !==
+        OCPP1_6.GetCompositeScheduleResponseStatus.Accepted ||
+      !schedule
+    ) {
+      await this.postChargingProfileResult(
+        tenantPartner,
+        responseUrl,
+        { result: ChargingProfileResultType.REJECTED },
+        commandId,
+      );
+      return;
+    }
+    const startDateTime =
+      validatedResponse.scheduleStart ??
+      schedule.startSchedule ??
+      new Date().toISOString();
+    await this.postChargingProfileResult(
+      tenantPartner,
+      responseUrl,
+      {
+        result: ChargingProfileResultType.ACCEPTED,
+        profile: {
+          start_date_time: startDateTime,
+          charging_profile: {
+            start_date_time: startDateTime,
+            duration: schedule.duration,
+            charging_rate_unit: schedule.chargingRateUnit,
+            min_charging_rate: schedule.minChargingRate,
+            charging_profile_period: schedule.chargingSchedulePeriod.map(
+              (period) => ({
+                start_period: period.startPeriod,
+                limit: period.limit,
+              }),
+            ),
+          },
+        },
+      },
+      commandId,
+    );
+  }
+
+  private async handleClearChargingProfileResponse(
+    tenantPartner: ITenantPartnerDto,
+    responseUrl: string,
+    response: any,
+    commandId: string,
+  ): Promise<void> {
+    const validatedResponse =
+      this.validate<OCPP1_6.ClearChargingProfileResponse>(
+        this.supportedVersion,
+        OCPP1_6.ClearChargingProfileResponseSchema,
+        response,
+      );
+
+    switch (validatedResponse.status) {
+      case OCPP1_6.ClearChargingProfileResponseStatus.Accepted:
+        await this.ocpiGraphqlClient.request<
+          DeleteSessionChargingProfileByCommandIdMutationResult,
+          DeleteSessionChargingProfileByCommandIdMutationVariables
+        >(DELETE_SESSION_CHARGING_PROFILE_BY_COMMAND_ID_MUTATION, {
+          commandId,
+        });
+        await this.postChargingProfileResult(
+          tenantPartner,
+          responseUrl,
+          { result: ChargingProfileResultType.ACCEPTED },
+          commandId,
+        );
+        return;
+      case OCPP1_6.ClearChargingProfileResponseStatus.Unknown:
+        await this.postChargingProfileResult(
+          tenantPartner,
+          responseUrl,
+          { result: ChargingProfileResultType.UNKNOWN },
+          commandId,
+        );
+        return;
+    }
+  }
+
+  /**
+   * Maps the transaction's connector (Connectors.id) to the OCPP 1.6 connector id.
+   */
+  private findConnectorId(
+    chargingStation: IChargingStationDto,
+    transaction: any,
+  ): number | undefined {
+    return Array.from(chargingStation.connectors || []).find(
+      (connector) => connector.id === transaction.connectorId,
+    )?.connectorId;
+  }
 }
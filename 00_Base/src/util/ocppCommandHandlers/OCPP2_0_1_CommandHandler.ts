@@ -15,18 +15,35 @@ import type { StartSession } from '../../model/StartSession.js';
 import type { IRequestQueryParams } from 'typed-rest-client/Interfaces.js';
 import { OCPP2_0_1_Mapper } from '@citrineos/data';
 import type {
+  DeleteSessionChargingProfileByCommandIdMutationResult,
+  DeleteSessionChargingProfileByCommandIdMutationVariables,
   GetSequenceQueryResult,
   GetSequenceQueryVariables,
   UpsertSequenceMutationResult,
   UpsertSequenceMutationVariables,
 } from '../../graphql/index.js';
-import { GET_SEQUENCE, UPSERT_SEQUENCE } from '../../graphql/index.js';
+import {
+  DELETE_SESSION_CHARGING_PROFILE_BY_COMMAND_ID_MUTATION,
+  GET_SEQUENCE,
+  UPSERT_SEQUENCE,
+} from '../../graphql/index.js';
 import { TokensMapper } from '../../mapper/index.js';
+import { COMMAND_RESPONSE_URL_NONE } from '../Consts.js';
 import { EXTRACT_EVSE_ID } from '../../model/DTO/EvseDTO.js';
 import { CommandType } from '../../model/CommandType.js';
 import type { StopSession } from '../../model/StopSession.js';
-import type { UnlockConnector } from '../../index.js';
-import { CommandResultType } from '../../index.js';
+import type {
+  CancelReservation,
+  ReserveNow,
+  SetChargingProfile,
+  UnlockConnector,
+} from '../../index.js';
+import {
+  ChargingProfileResultType,
+  ChargingProfilesCommandType,
+  CommandResultType,
+  OcpiReservationStatus,
+} from '../../index.js';
 
 @Service({ id: OCPP_COMMAND_HANDLER, multiple: true })
 export class OCPP2_0_1_CommandHandler extends OCPPCommandHandler {
@@ -204,9 +221,321 @@ export class OCPP2_0_1_CommandHandler extends OCPPCommandHandler {
     );
   }
 
+  public async sendReserveNowCommand(
+    reserveNow: ReserveNow,
+    tenantPartner: ITenantPartnerDto,
+    chargingStation: IChargingStationDto,
+    commandId: string,
+    reservationId: number,
+  ): Promise<void> {
+    const options: IRequestOptions = {
+      additionalHeaders: this.config.commands.coreHeaders,
+    };
+    const queryParameters: IRequestQueryParams = {
+      params: {},
+    };
+    queryParameters.params['identifier'] = chargingStation.id;
+    queryParameters.params['tenantId'] = tenantPartner.tenant!.id!;
+    queryParameters.params['callbackUrl'] =
+      this.config.commands.ocpiBaseUrl +
+      `/2.2.1/commands/callback/${tenantPartner.id}/${this.supportedVersion}/${CommandType.RESERVE_NOW}/${commandId}`;
+    options.queryParameters = queryParameters;
+
+    // Without evse_uid the reservation is for any EVSE of the station, so evseId is omitted
+    let evseTypeId: number | null | undefined;
+    if (reserveNow.evse_uid) {
+      evseTypeId = Array.from(chargingStation.evses || []).find(
+        (evse) => evse.id === Number(EXTRACT_EVSE_ID(reserveNow.evse_uid!)),
+      )?.evseTypeId;
+      if (evseTypeId === undefined || evseTypeId === null) {
+        this.logger.error('ReserveNow failed, EVSE not found', {
+          reserveNow,
+        });
+        await this.updateReservationStatus(
+          commandId,
+          OcpiReservationStatus.REJECTED,
+        );
+        this.commandsClientApi
+          .postCommandResult(
+            tenantPartner.countryCode!,
+            tenantPartner.partyId!,
+            tenantPartner.tenant!.countryCode!,
+            tenantPartner.tenant!.partyId!,
+            tenantPartner.partnerProfileOCPI!,
+            reserveNow.response_url,
+            {
+              result: CommandResultType.FAILED,
+              message: {
+                language: 'en',
+                text: 'Charging station communication failed',
+              },
+            },
+            commandId,
+          )
+          .catch((error) => {
+            this.logger.error('Failed to post command result', { error });
+          });
+        return;
+      }
+    }
+    const reserveNowRequest: OCPP2_0_1.ReserveNowRequest = {
+      id: reservationId,
+      expiryDateTime: reserveNow.expiry_date.toISOString(),
+      idToken: {
+        idToken: TokensMapper.normalizeToken(reserveNow.token.uid)!,
+        type: OCPP2_0_1_Mapper.AuthorizationMapper.toIdTokenEnumType(
+          TokensMapper.mapOcpiTokenTypeToOcppIdTokenType(reserveNow.token.type),
+        ),
+      },
+      evseId: evseTypeId ?? undefined,
+    };
+    await this.sendOCPPMessage(
+      this.config.commands.ocpp2_0_1.reserveNowRequestUrl,
+      reserveNowRequest,
+      options,
+      tenantPartner,
+      reserveNow.response_url,
+      commandId,
+    );
+  }
+
+  public async sendCancelReservationCommand(
+    cancelReservation: CancelReservation,
+    tenantPartner: ITenantPartnerDto,
+    chargingStation: IChargingStationDto,
+    commandId: string,
+    reservationId: number,
+  ): Promise<void> {
+    const options: IRequestOptions = {
+      additionalHeaders: this.config.commands.coreHeaders,
+    };
+    const queryParameters: IRequestQueryParams = {
+      params: {},
+    };
+    queryParameters.params['identifier'] = chargingStation.id;
+    queryParameters.params['tenantId'] = tenantPartner.tenant!.id!;
+    queryParameters.params['callbackUrl'] =
+      this.config.commands.ocpiBaseUrl +
+      `/2.2.1/commands/callback/${tenantPartner.id}/${this.supportedVersion}/${CommandType.CANCEL_RESERVATION}/${commandId}`;
+    options.queryParameters = queryParameters;
+
+    const cancelReservationRequest: OCPP2_0_1.CancelReservationRequest = {
+      reservationId,
+    };
+    await this.sendOCPPMessage(
+      this.config.commands.ocpp2_0_1.cancelReservationRequestUrl,
+      cancelReservationRequest,
+      options,
+      tenantPartner,
+      cancelReservation.response_url,
+      commandId,
+    );
+  }
+
+  public async sendSetChargingProfileCommand(
+    setChargingProfile: SetChargingProfile,
+    tenantPartner: ITenantPartnerDto,
+    chargingStation: IChargingStationDto,
+    commandId: string,
+    transaction: any,
+    chargingProfileId: number,
+  ): Promise<void> {
+    const options: IRequestOptions = {
+      additionalHeaders: this.config.commands.coreHeaders,
+    };
+    const queryParameters: IRequestQueryParams = {
+      params: {},
+    };
+    queryParameters.params['identifier'] = chargingStation.id;
+    queryParameters.params['tenantId'] = tenantPartner.tenant!.id!;
+    queryParameters.params['callbackUrl'] =
+      this.config.commands.ocpiBaseUrl +
+      `/2.2.1/chargingprofiles/callback/${tenantPartner.id}/${this.supportedVersion}/${ChargingProfilesCommandType.SET_CHARGING_PROFILE}/${commandId}`;
+    options.queryParameters = queryParameters;
+
+    const evseTypeId = this.findEvseTypeId(chargingStation, transaction);
+    if (evseTypeId === undefined) {
+      this.logger.error('SetChargingProfile failed, EVSE not found', {
+        transactionId: transaction.id,
+      });
+      await this.postChargingProfileResult(
+        tenantPartner,
+        setChargingProfile.response_url,
+        { result: ChargingProfileResultType.REJECTED },
+        commandId,
+      );
+      return;
+    }
+    const chargingProfile = setChargingProfile.charging_profile;
+    const chargingSchedule: OCPP2_0_1.ChargingScheduleType = {
+      // The schedule belongs to a single profile, so the profile id is unique for it as well
+      id: chargingProfileId,
+      startSchedule: chargingProfile.start_date_time
+        ? new Date(chargingProfile.start_date_time).toISOString()
+        : undefined,
+      duration: chargingProfile.duration,
+      chargingRateUnit:
+        chargingProfile.charging_rate_unit as OCPP2_0_1.ChargingRateUnitEnumType,
+      chargingSchedulePeriod: (
+        chargingProfile.charging_profile_period || []
+      ).map((period) => ({
+        startPeriod: period.start_period,
+        limit: period.limit,
+      })) as OCPP2_0_1.ChargingScheduleType['chargingSchedulePeriod'],
+      minChargingRate: chargingProfile.min_charging_rate,
+    };
+    const setChargingProfileRequest: OCPP2_0_1.SetChargingProfileRequest = {
+      evseId: evseTypeId,
+      chargingProfile: {
+        id: chargingProfileId,
+        stackLevel: 0,
+        chargingProfilePurpose:
+          OCPP2_0_1.ChargingProfilePurposeEnumType.TxProfile,
+        chargingProfileKind: chargingProfile.start_date_time
+          ? OCPP2_0_1.ChargingProfileKindEnumType.Absolute
+          : OCPP2_0_1.ChargingProfileKindEnumType.Relative,
+        chargingSchedule: [chargingSchedule],
+        transactionId: transaction.transactionId,
+      },
+    };
+    await this.sendChargingProfileOCPPMessage(
+      this.config.commands.ocpp2_0_1.setChargingProfileRequestUrl,
+      setChargingProfileRequest,
+      options,
+      tenantPartner,
+      setChargingProfile.response_url,
+      commandId,
+    );
+  }
+
+  public async sendGetCompositeScheduleCommand(
+    duration: number,
+    responseUrl: string,
+    tenantPartner: ITenantPartnerDto,
+    chargingStation: IChargingStationDto,
+    commandId: string,
+    transaction: any,
+  ): Promise<void> {
+    const options: IRequestOptions = {
+      additionalHeaders: this.config.commands.coreHeaders,
+    };
+    const queryParameters: IRequestQueryParams = {
+      params: {},
+    };
+    queryParameters.params['identifier'] = chargingStation.id;
+    queryParameters.params['tenantId'] = tenantPartner.tenant!.id!;
+    queryParameters.params['callbackUrl'] =
+      this.config.commands.ocpiBaseUrl +
+      `/2.2.1/chargingprofiles/callback/${tenantPartner.id}/${this.supportedVersion}/${ChargingProfilesCommandType.GET_ACTIVE_CHARGING_PROFILE}/${commandId}`;
+    options.queryParameters = queryParameters;
+
+    const evseTypeId = this.findEvseTypeId(chargingStation, transaction);
+    if (evseTypeId === undefined) {
+      this.logger.error('GetCompositeSchedule failed, EVSE not found', {
+        transactionId: transaction.id,
+      });
+      await this.postChargingProfileResult(
+        tenantPartner,
+        responseUrl,
+        { result: ChargingProfileResultType.REJECTED },
+        commandId,
+      );
+      return;
+    }
+    const getCompositeScheduleRequest: OCPP2_0_1.GetCompositeScheduleRequest = {
+      duration,
+      evseId: evseTypeId,
+    };
+    await this.sendChargingProfileOCPPMessage(
+      this.config.commands.ocpp2_0_1.getCompositeScheduleRequestUrl,
+      getCompositeScheduleRequest,
+      options,
+      tenantPartner,
+      responseUrl,
+      commandId,
+    );
+  }
+
+  public async sendClearChargingProfileCommand(
+    responseUrl: string,
+    tenantPartner: ITenantPartnerDto,
+    chargingStation: IChargingStationDto,
+    commandId: string,
+    transaction: any,
+    chargingProfileId?: number,
+  ): Promise<void> {
+    const options: IRequestOptions = {
+      additionalHeaders: this.config.commands.coreHeaders,
+    };
+    const queryParameters: IRequestQueryParams = {
+      params: {},
+    };
+    queryParameters.params['identifier'] = chargingStation.id;
+    queryParameters.params['tenantId'] = tenantPartner.tenant!.id!;
+    queryParameters.params['callbackUrl'] =
+      this.config.commands.ocpiBaseUrl +
+      `/2.2.1/chargingprofiles/callback/${tenantPartner.id}/${this.supportedVersion}/${ChargingProfilesCommandType.CLEAR_CHARGING_PROFILE}/${commandId}`;
+    options.queryParameters = queryParameters;
+
+    const clearChargingProfileRequest: OCPP2_0_1.ClearChargingProfileRequest =
+      chargingProfileId !== undefined
+        ? { chargingProfileId }
+        : {
+            chargingProfileCriteria: {
+              evseId: this.findEvseTypeId(chargingStation, transaction),
+              chargingProfilePurpose:
+                OCPP2_0_1.ChargingProfilePurposeEnumType.TxProfile,
+            },
+          };
+    await this.sendChargingProfileOCPPMessage(
+      this.config.commands.ocpp2_0_1.clearChargingProfileRequestUrl,
+      clearChargingProfileRequest,
+      options,
+      tenantPartner,
+      responseUrl,
+      commandId,
+    );
+  }
+
+  public async sendChangeAvailabilityCommand(
+    tenantId: number,
+    chargingStation: IChargingStationDto,
+    evseId: number,
+    operative: boolean,
+  ): Promise<boolean> {
+    const options: IRequestOptions = {
+      additionalHeaders: this.config.commands.coreHeaders,
+      queryParameters: {
+        params: { identifier: chargingStation.id, tenantId },
+      },
+    };
+    const evseTypeId = Array.from(chargingStation.evses || []).find(
+      (evse) => evse.id === evseId,
+    )?.evseTypeId;
+    if (evseTypeId === undefined || evseTypeId === null) {
+      this.logger.error('ChangeAvailability failed, EVSE not found', {
+        stationId: chargingStation.id,
+        evseId,
+      });
+      return false;
+    }
+    const changeAvailabilityRequest: OCPP2_0_1.ChangeAvailabilityRequest = {
+      evse: { id: evseTypeId },
+      operationalStatus: operative
+        ? OCPP2_0_1.OperationalStatusEnumType.Operative
+        : OCPP2_0_1.OperationalStatusEnumType.Inoperative,
+    };
+    return this.postOCPPMessage(
+      this.config.commands.ocpp2_0_1.changeAvailabilityRequestUrl,
+      changeAvailabilityRequest,
+      options,
+      COMMAND_RESPONSE_URL_NONE,
+    );
+  }
+
   public async handleAsyncCommandResponse(
     tenantPartner: ITenantPartnerDto,
-    command: CommandType,
+    command: CommandType | ChargingProfilesCommandType,
     responseUrl: string,
     response: any,
     commandId: string,
@@ -233,6 +562,41 @@ export class OCPP2_0_1_CommandHandler extends OCPPCommandHandler {
           response,
           commandId,
         );
+      case CommandType.RESERVE_NOW:
+        return this.handleReserveNowResponse(
+          tenantPartner,
+          responseUrl,
+          response,
+          commandId,
+        );
+      case CommandType.CANCEL_RESERVATION:
+        return this.handleCancelReservationResponse(
+          tenantPartner,
+          responseUrl,
+          response,
+          commandId,
+        );
+      case ChargingProfilesCommandType.SET_CHARGING_PROFILE:
+        return this.handleSetChargingProfileResponse(
+          tenantPartner,
+          responseUrl,
+          response,
+          commandId,
+        );
+      case ChargingProfilesCommandType.GET_ACTIVE_CHARGING_PROFILE:
+        return this.handleGetCompositeScheduleResponse(
+          tenantPartner,
+          responseUrl,
+          response,
+          commandId,
+        );
+      case ChargingProfilesCommandType.CLEAR_CHARGING_PROFILE:
+        return this.handleClearChargingProfileResponse(
+          tenantPartner,
+          responseUrl,
+          response,
+          commandId,
+        );
       default:
         throw new Error(`Unknown command type: ${command}`);
     }
@@ -445,4 +809,266 @@ export class OCPP2_0_1_CommandHandler extends OCPPCommandHandler {
         );
     }
   }
+
+  private async handleReserveNowResponse(
+    tenantPartner: ITenantPartnerDto,
+    responseUrl: string,
+    response: any,
+    commandId: string,
+  ): Promise<void> {
+    const validatedResponse = this.validate<OCPP2_0_1.ReserveNowResponse>(
+      this.supportedVersion,
+      OCPP2_0_1.ReserveNowResponseSchema,
+      response,
+    );
+
+    let result: CommandResultType;
+    let text: string;
+    switch (validatedResponse.status) {
+      case OCPP2_0_1.ReserveNowStatusEnumType.Accepted:
+        result = CommandResultType.ACCEPTED;
+        text = 'Charging station reservation successful';
+        break;
+      case OCPP2_0_1.ReserveNowStatusEnumType.Occupied:
+        result = CommandResultType.EVSE_OCCUPIED;
+        text = 'Charging station already in use';
+        break;
+      case OCPP2_0_1.ReserveNowStatusEnumType.Faulted:
+      case OCPP2_0_1.ReserveNowStatusEnumType.Unavailable:
+        result = CommandResultType.EVSE_INOPERATIVE;
+        text = 'Charging station is not available';
+        break;
+      default:
+        result = CommandResultType.REJECTED;
+        text = 'Charging station rejected reservation';
+    }
+    if (result !== CommandResultType.ACCEPTED) {
+      this.logger.warn(`Reservation rejected by charging station`, {
+        statusInfo: validatedResponse.statusInfo,
+      });
+    }
+    await this.updateReservationStatus(
+      commandId,
+      result === CommandResultType.ACCEPTED
+        ? OcpiReservationStatus.RESERVED
+        : OcpiReservationStatus.REJECTED,
+    );
+    await this.commandsClientApi.postCommandResult(
+      tenantPartner.countryCode!,
+      tenantPartner.partyId!,
+      tenantPartner.tenant!.countryCode!,
+      tenantPartner.tenant!.partyId!,
+      tenantPartner.partnerProfileOCPI!,
+      responseUrl,
+      {
+        result,
+        message: {
+          language: 'en',
+          text,
+        },
+      },
+      commandId,
+    );
+  }
+
+  private async handleCancelReservationResponse(
+    tenantPartner: ITenantPartnerDto,
+    responseUrl: string,
+    response: any,
+    commandId: string,
+  ): Promise<void> {
+    const validatedResponse =
+      this.validate<OCPP2_0_1.CancelReservationResponse>(
+        this.supportedVersion,
+        OCPP2_0_1.CancelReservationResponseSchema,
+        response,
+      );
+
+    switch (validatedResponse.status) {
+      case OCPP2_0_1.CancelReservationStatusEnumType.Accepted:
+        await this.updateReservationStatus(
+          commandId,
+          OcpiReservationStatus.CANCELLED,
+        );
+        await this.commandsClientApi.postCommandResult(
+          tenantPartner.countryCode!,
+          tenantPartner.partyId!,
+          tenantPartner.tenant!.countryCode!,
+          tenantPartner.tenant!.partyId!,
+          tenantPartner.partnerProfileOCPI!,
+          responseUrl,
+          {
+            result: CommandResultType.ACCEPTED,
+            message: {
+              language: 'en',
+              text: 'Charging station cancel reservation successful',
+            },
+          },
+          commandId,
+        );
+        return;
+      case OCPP2_0_1.CancelReservationStatusEnumType.Rejected:
+        this.logger.warn(`Cancel reservation rejected by charging station`, {
+          statusInfo: validatedResponse.statusInfo,
+        });
+        await this.commandsClientApi.postCommandResult(
+          tenantPartner.countryCode!,
+          tenantPartner.partyId!,
+          tenantPartner.tenant!.countryCode!,
+          tenantPartner.tenant!.partyId!,
+          tenantPartner.partnerProfileOCPI!,
+          responseUrl,
+          {
+            result: CommandResultType.REJECTED,
+            message: {
+              language: 'en',
+              text: 'Charging station rejected cancel reservation',
+            },
+          },
+          commandId,
+        );
+        return;
+    }
+  }
+
+  private async handleSetChargingProfileResponse(
+    tenantPartner: ITenantPartnerDto,
+    responseUrl: string,
+    response: any,
+    commandId: string,
+  ): Promise<void> {
+    const validatedResponse =
+      this.validate<OCPP2_0_1.SetChargingProfileResponse>(
+        this.supportedVersion,
+        OCPP2_0_1.SetChargingProfileResponseSchema,
+        response,
+      );
+
+    if (
+      validatedResponse.status !==
+      OCPP2_0_1.ChargingProfileStatusEnumType.Accepted
+    ) {
+      this.logger.warn(`Charging profile rejected by charging station`, {
+        statusInfo: validatedResponse.statusInfo,
+      });
+    }
+    await this.postChargingProfileResult(
+      tenantPartner,
+      responseUrl,
+      {
+        result:
+          validatedResponse.status ===
+          OCPP2_0_1.ChargingProfileStatusEnumType.Accepted
+            ? ChargingProfileResultType.ACCEPTED
+            : ChargingProfileResultType.REJECTED,
+      },
+      commandId,
+    );
+  }
+
+  private async handleGetCompositeScheduleResponse(
+    tenantPartner: ITenantPartnerDto,
+    responseUrl: string,
+    response: any,
+    commandId: string,
+  ): Promise<void> {
+    const validatedResponse =
+      this.validate<OCPP2_0_1.GetCompositeScheduleResponse>(
+        this.supportedVersion,
+        OCPP2_0_1.GetCompositeScheduleResponseSchema,
+        response,
+      );
+
+    const schedule = validatedResponse.schedule;
+    if (
+      validatedResponse.status !== OCPP2_0_1.GenericStatusEnumType.Accepted ||
+      !schedule
+    ) {
+      this.logger.warn(`Composite schedule rejected by charging station`, {
+        statusInfo: validatedResponse.statusInfo,
+      });
+      await this.postChargingProfileResult(
+        tenantPartner,
+        responseUrl,
+        { result: ChargingProfileResultType.REJECTED },
+        commandId,
+      );
+      return;
+    }
+    await this.postChargingProfileResult(
+      tenantPartner,
+      responseUrl,
+      {
+        result: ChargingProfileResultType.ACCEPTED,
+        profile: {
+          start_date_time: schedule.scheduleStart,
+          charging_profile: {
+            start_date_time: schedule.scheduleStart,
+            duration: schedule.duration,
+            charging_rate_unit: schedule.chargingRateUnit,
+            charging_profile_period: schedule.chargingSchedulePeriod.map(
+              (period) => ({
+                start_period: period.startPeriod,
+                limit: period.limit,
+              }),
+            ),
+          },
+        },
+      },
+      commandId,
+    );
+  }
+
+  private async handleClearChargingProfileResponse(
+    tenantPartner: ITenantPartnerDto,
+    responseUrl: string,
+    response: any,
+    commandId: string,
+  ): Promise<void> {
+    const validatedResponse =
+      this.validate<OCPP2_0_1.ClearChargingProfileResponse>(
+        this.supportedVersion,
+        OCPP2_0_1.ClearChargingProfileResponseSchema,
+        response,
+      );
+
+    switch (validatedResponse.status) {
+      case OCPP2_0_1.ClearChargingProfileStatusEnumType.Accepted:
+        await this.ocpiGraphqlClient.request<
+          DeleteSessionChargingProfileByCommandIdMutationResult,
+          DeleteSessionChargingProfileByCommandIdMutationVariables
+        >(DELETE_SESSION_CHARGING_PROFILE_BY_COMMAND_ID_MUTATION, {
+          commandId,
+        });
+        await this.postChargingProfileResult(
+          tenantPartner,
+          responseUrl,
+          { result: ChargingProfileResultType.ACCEPTED },
+          commandId,
+        );
+        return;
+      case OCPP2_0_1.ClearChargingProfileStatusEnumType.Unknown:
+        await this.postChargingProfileResult(
+          tenantPartner,
+          responseUrl,
+          { result: ChargingProfileResultType.UNKNOWN },
+          commandId,
+        );
+        return;
+    }
+  }
+
+  /**
+   * Maps the transaction's EVSE (Evses.id) to the OCPP 2.0.1 evse id.
+   */
+  private findEvseTypeId(
+    chargingStation: IChargingStationDto,
+    transaction: any,
+  ): number | undefined {
+    return (
+      Array.from(chargingStation.evses || []).find(
+        (evse) => evse.id === transaction.evseId,
+      )?.evseTypeId ?? undefined
+    );
+  }
 }
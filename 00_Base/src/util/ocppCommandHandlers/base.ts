@@ -9,11 +9,20 @@ import {
   OCPPVersion,
 } from '@citrineos/base';
 import {
+  ActiveChargingProfileResult,
+  CancelReservation,
+  ChargingProfileResult,
+  ChargingProfileResultType,
+  ChargingProfilesCommandType,
+  ClearChargingProfileResult,
   CommandResultType,
   CommandType,
   ModuleId,
   OcpiConfig,
   OcpiConfigToken,
+  OcpiReservationStatus,
+  ReserveNow,
+  SetChargingProfile,
   StartSession,
   StopSession,
   UnlockConnector,
@@ -22,7 +31,15 @@ import { IRequestOptions, RestClient } from 'typed-rest-client';
 import { Logger, ILogObj } from 'tslog';
 import { Inject, Token } from 'typedi';
 import { OcpiGraphqlClient } from '../../graphql/OcpiGraphqlClient';
+import {
+  UpdateOcpiReservationByCommandIdMutationResult,
+  UpdateOcpiReservationByCommandIdMutationVariables,
+} from '../../graphql/operations';
+import { UPDATE_OCPI_RESERVATION_BY_COMMAND_ID_MUTATION } from '../../graphql/queries/reservation.queries';
+import { CommandLedgerService } from '../../services/CommandLedgerService';
+import { ChargingProfilesClientApi } from '../../trigger/ChargingProfilesClientApi';
 import { CommandsClientApi } from '../../trigger/CommandsClientApi';
+import { COMMAND_RESPONSE_URL_NONE } from '../Consts';
 import Ajv from 'ajv';
 import qs from 'qs';
 
@@ -45,6 +62,12 @@ export abstract class OCPPCommandHandler {
   @Inject()
   protected commandsClientApi!: CommandsClientApi;
 
+  @Inject()
+  protected chargingProfilesClientApi!: ChargingProfilesClientApi;
+
+  @Inject()
+  protected commandLedgerService!: CommandLedgerService;
+
   @Inject(OcpiConfigToken)
   protected config!: OcpiConfig;
 
@@ -76,9 +99,73 @@ export abstract class OCPPCommandHandler {
     commandId: string,
   ): Promise<void>;
 
+  /**
+   * @param reservationId - Id of the stored OcpiReservation, used as the OCPP reservation id.
+   */
+  abstract sendReserveNowCommand(
+    reserveNow: ReserveNow,
+    tenantPartner: ITenantPartnerDto,
+    chargingStation: IChargingStationDto,
+    commandId: string,
+    reservationId: number,
+  ): Promise<void>;
+
+  abstract sendCancelReservationCommand(
+    cancelReservation: CancelReservation,
+    tenantPartner: ITenantPartnerDto,
+    chargingStation: IChargingStationDto,
+    commandId: string,
+    reservationId: number,
+  ): Promise<void>;
+
+  /**
+   * @param chargingProfileId - Id of the stored SessionChargingProfile, used as the OCPP charging profile id.
+   */
+  abstract sendSetChargingProfileCommand(
+    setChargingProfile: SetChargingProfile,
+    tenantPartner: ITenantPartnerDto,
+    chargingStation: IChargingStationDto,
+    commandId: string,
+    transaction: any,
+    chargingProfileId: number,
+  ): Promise<void>;
+
+  abstract sendGetCompositeScheduleCommand(
+    duration: number,
+    responseUrl: string,
+    tenantPartner: ITenantPartnerDto,
+    chargingStation: IChargingStationDto,
+    commandId: string,
+    transaction: any,
+  ): Promise<void>;
+
+  /**
+   * @param chargingProfileId - Profile to clear, when unknown the TxProfiles of the session's EVSE are cleared.
+   */
+  abstract sendClearChargingProfileCommand(
+    responseUrl: string,
+    tenantPartner: ITenantPartnerDto,
+    chargingStation: IChargingStationDto,
+    commandId: string,
+    transaction: any,
+    chargingProfileId?: number,
+  ): Promise<void>;
+
+  /**
+   * Sends a ChangeAvailability for the EVSE on behalf of the CPO, no partner waits for its result.
+   * @param evseId - Id of the EVSE in core, its connectors must be part of the charging station.
+   * @returns Whether core accepted the request.
+   */
+  abstract sendChangeAvailabilityCommand(
+    tenantId: number,
+    chargingStation: IChargingStationDto,
+    evseId: number,
+    operative: boolean,
+  ): Promise<boolean>;
+
   abstract handleAsyncCommandResponse(
     tenantPartner: ITenantPartnerDto,
-    command: CommandType,
+    command: CommandType | ChargingProfilesCommandType,
     responseUrl: string,
     response: any,
     commandId: string,
@@ -92,6 +179,142 @@ export abstract class OCPPCommandHandler {
     responseUrl: string,
     commandId: string,
   ): Promise<void> {
+    if (
+      !(await this.sendCommandRequest(
+        url,
+        payload,
+        options,
+        responseUrl,
+        commandId,
+      ))
+    ) {
+      await this.commandsClientApi.postCommandResult(
+        tenantPartner.countryCode!,
+        tenantPartner.partyId!,
+        tenantPartner.tenant!.countryCode!,
+        tenantPartner.tenant!.partyId!,
+        tenantPartner.partnerProfileOCPI!,
+        responseUrl,
+        {
+          result: CommandResultType.FAILED,
+          message: {
+            language: 'en',
+            text: 'Charging station communication failed',
+          },
+        },
+        commandId,
+      );
+    }
+  }
+
+  /**
+   * Same as {@link sendOCPPMessage}, but answers a failed request with a ChargingProfileResult
+   * as expected by the ChargingProfiles module.
+   */
+  protected async sendChargingProfileOCPPMessage(
+    url: string,
+    payload: any,
+    options: IRequestOptions,
+    tenantPartner: ITenantPartnerDto,
+    responseUrl: string,
+    commandId: string,
+  ): Promise<void> {
+    if (
+      !(await this.sendCommandRequest(
+        url,
+        payload,
+        options,
+        responseUrl,
+        commandId,
+      ))
+    ) {
+      await this.postChargingProfileResult(
+        tenantPartner,
+        responseUrl,
+        { result: ChargingProfileResultType.REJECTED },
+        commandId,
+      );
+    }
+  }
+
+  protected async postChargingProfileResult(
+    tenantPartner: ITenantPartnerDto,
+    responseUrl: string,
+    result:
+      | ActiveChargingProfileResult
+      | ChargingProfileResult
+      | ClearChargingProfileResult,
+    commandId: string,
+  ): Promise<void> {
+    if (responseUrl === COMMAND_RESPONSE_URL_NONE) {
+      this.logger.info('Charging profile result', { commandId, result });
+      await this.commandLedgerService.claimResult(commandId, result.result);
+      return;
+    }
+    await this.chargingProfilesClientApi.postChargingProfileResult(
+      tenantPartner.countryCode!,
+      tenantPartner.partyId!,
+      tenantPartner.tenant!.countryCode!,
+      tenantPartner.tenant!.partyId!,
+      tenantPartner.partnerProfileOCPI!,
+      responseUrl,
+      result,
+      commandId,
+    );
+  }
+
+  /**
+   * Sends the OCPP request of a command and records in the command ledger whether core accepted it.
+   */
+  private async sendCommandRequest(
+    url: string,
+    payload: any,
+    options: IRequestOptions,
+    responseUrl: string,
+    commandId: string,
+  ): Promise<boolean> {
+    const confirmation = await this.requestOCPPMessage(
+      url,
+      payload,
+      options,
+      responseUrl,
+    );
+    if (!confirmation) {
+      await this.commandLedgerService.recordSendFailed(commandId);
+      return false;
+    }
+    await this.commandLedgerService.recordSent(
+      commandId,
+      typeof confirmation.payload === 'string'
+        ? confirmation.payload
+        : undefined,
+    );
+    return true;
+  }
+
+  protected async postOCPPMessage(
+    url: string,
+    payload: any,
+    options: IRequestOptions,
+    responseUrl: string,
+  ): Promise<boolean> {
+    return !!(await this.requestOCPPMessage(
+      url,
+      payload,
+      options,
+      responseUrl,
+    ));
+  }
+
+  /**
+   * @returns The confirmation of core, undefined when the request failed.
+   */
+  private async requestOCPPMessage(
+    url: string,
+    payload: any,
+    options: IRequestOptions,
+    responseUrl: string,
+  ): Promise<IMessageConfirmation | undefined> {
     this.logger.debug('Sending OCPP request', {
       url,
       payload,
@@ -124,22 +347,29 @@ export abstract class OCPPCommandHandler {
         statusCode: response?.statusCode,
         response: response?.result,
       });
-      await this.commandsClientApi.postCommandResult(
-        tenantPartner.countryCode!,
-        tenantPartner.partyId!,
-        tenantPartner.tenant!.countryCode!,
-        tenantPartner.tenant!.partyId!,
-        tenantPartner.partnerProfileOCPI!,
-        responseUrl,
-        {
-          result: CommandResultType.FAILED,
-          message: {
-            language: 'en',
-            text: 'Charging station communication failed',
-          },
-        },
+      return undefined;
+    }
+    return response.result[0];
+  }
+
+  protected async updateReservationStatus(
+    commandId: string,
+    status: OcpiReservationStatus,
+  ): Promise<void> {
+    try {
+      await this.ocpiGraphqlClient.request<
+        UpdateOcpiReservationByCommandIdMutationResult,
+        UpdateOcpiReservationByCommandIdMutationVariables
+      >(UPDATE_OCPI_RESERVATION_BY_COMMAND_ID_MUTATION, {
         commandId,
-      );
+        set: { status, updatedAt: new Date().toISOString() },
+      });
+    } catch (error) {
+      this.logger.error('Failed to update reservation status', {
+        commandId,
+        status,
+        error,
+      });
     }
   }
 
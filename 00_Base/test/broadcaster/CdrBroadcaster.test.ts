@@ -0,0 +1,114 @@
+// SPDX-FileCopyrightText: 2025 Contributors to the CitrineOS Project
+//
+// SPDX-License-Identifier: Apache-2.0
+
+import { ILogObj, Logger } from 'tslog';
+import { CdrBroadcaster } from '../../src/broadcaster/CdrBroadcaster';
+import { OcpiGraphqlClient } from '../../src/graphql/OcpiGraphqlClient';
+import {
+  GET_CDR_RECORDS_BY_TRANSACTION_ID_QUERY,
+  INSERT_REISSUED_CDR_RECORDS_MUTATION,
+} from '../../src/graphql/queries/cdr.queries';
+import { GET_TRANSACTION_BY_ID_QUERY } from '../../src/graphql/queries/transaction.queries';
+import { CdrMapper } from '../../src/mapper/CdrMapper';
+import { Cdr } from '../../src/model/Cdr';
+import { InvoiceReferenceService } from '../../src/services/InvoiceReferenceService';
+import { OutboxService } from '../../src/services/OutboxService';
+
+// The mapper index pulls in the whole module graph, the mapper is mocked below
+jest.mock('../../src/mapper', () => ({}));
+
+const tenantPartner = { id: 7, countryCode: 'NL', partyId: 'EMS' };
+
+const transaction = {
+  id: 5,
+  tenant: { id: 1, countryCode: 'NL', partyId: 'CPO' },
+  authorization: { tenantPartner },
+};
+
+function cdr(id: string, credit = false): Cdr {
+  return {
+    id,
+    credit,
+    cdr_token: { country_code: 'NL', party_id: 'EMS' },
+    total_cost: { excl_vat: credit ? -10 : 12 },
+  } as unknown as Cdr;
+}
+
+describe('CdrBroadcaster', () => {
+  let request: jest.Mock;
+  let enqueue: jest.Mock;
+  let insertError: Error | undefined;
+  let cdrBroadcaster: CdrBroadcaster;
+
+  beforeEach(() => {
+    insertError = undefined;
+    request = jest.fn(async (query: string) => {
+      switch (query) {
+        case GET_TRANSACTION_BY_ID_QUERY:
+          return { Transactions: [transaction] };
+        case GET_CDR_RECORDS_BY_TRANSACTION_ID_QUERY:
+          return {
+            CdrRecords: [
+              { id: 3, cdrId: 'CDR1', credit: false, cdrData: cdr('CDR1') },
+            ],
+          };
+        case INSERT_REISSUED_CDR_RECORDS_MUTATION:
+          if (insertError) {
+            throw insertError;
+          }
+          return { insert_CdrRecords: { returning: [] } };
+        default:
+          throw new Error('Unexpected query');
+      }
+    });
+    enqueue = jest.fn().mockResolvedValue(undefined);
+    cdrBroadcaster = new CdrBroadcaster(
+      new Logger<ILogObj>({ type: 'hidden' }),
+      {
+        mapTransactionsToCdrs: jest.fn().mockResolvedValue([cdr('CDR1')]),
+        mapToCreditCdr: jest.fn((_cdr: Cdr, id: string) => cdr(id, true)),
+      } as unknown as CdrMapper,
+      { enqueue } as unknown as OutboxService,
+      { request } as unknown as OcpiGraphqlClient,
+      {
+        generate: jest.fn().mockResolvedValue('INV1'),
+      } as unknown as InvoiceReferenceService,
+    );
+  });
+
+  it('stores the credit and replacement CDRs together before pushing them', async () => {
+    await cdrBroadcaster.reissueCdr(5);
+
+    const insert = request.mock.calls.find(
+      ([query]) => query === INSERT_REISSUED_CDR_RECORDS_MUTATION,
+    );
+    expect(
+      insert![1].objects.map((object: any) => [
+        object.cdrId,
+        object.originalCdrRecordId,
+      ]),
+    ).toEqual([
+      ['CDR1-C1', 3],
+      ['CDR1-R1', 3],
+    ]);
+    expect(enqueue.mock.calls.map((call) => call[4].id)).toEqual([
+      'CDR1-C1',
+      'CDR1-R1',
+    ]);
+    expect(request.mock.invocationCallOrder.at(-1)).toBeLessThan(
+      enqueue.mock.invocationCallOrder[0],
+    );
+  });
+
+  it('pushes nothing when the CDR ids were claimed by a concurrent reissue', async () => {
+    insertError = new Error(
+      'Uniqueness violation. duplicate key value violates unique constraint "CdrRecords_cdrId_key"',
+    );
+
+    await expect(cdrBroadcaster.reissueCdr(5)).rejects.toThrow(
+      'Uniqueness violation',
+    );
+    expect(enqueue).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,158 @@
+// SPDX-FileCopyrightText: 2025 Contributors to the CitrineOS Project
+//
+// SPDX-License-Identifier: Apache-2.0
+
+import { IMeterValueDto, ITenantDto } from '@citrineos/base';
+import { ILogObj, Logger } from 'tslog';
+import { SessionBroadcaster } from '../../src/broadcaster/SessionBroadcaster';
+import { OcpiConfig } from '../../src/config/ocpi.types';
+import { OcpiGraphqlClient } from '../../src/graphql/OcpiGraphqlClient';
+import {
+  DELETE_PENDING_SESSION_CHARGING_PERIODS_MUTATION,
+  GET_PENDING_SESSION_CHARGING_PERIODS_QUERY,
+  UPSERT_PENDING_SESSION_CHARGING_PERIODS_MUTATION,
+} from '../../src/graphql/queries/pendingSessionChargingPeriods.queries';
+import { GET_TRANSACTION_BY_ID_QUERY } from '../../src/graphql/queries/transaction.queries';
+import { SessionMapper } from '../../src/mapper/SessionMapper';
+import { OutboxService } from '../../src/services/OutboxService';
+
+const tenant = { id: 1, countryCode: 'NL', partyId: 'CPO' } as ITenantDto;
+
+function meterValue(timestamp: string): IMeterValueDto {
+  return {
+    transactionDatabaseId: 5,
+    timestamp,
+    sampledValue: [],
+  } as unknown as IMeterValueDto;
+}
+
+const transaction = {
+  id: 5,
+  tenant,
+  meterValues: [
+    meterValue('2025-01-15T10:00:00Z'),
+    meterValue('2025-01-15T10:01:00Z'),
+    meterValue('2025-01-15T10:02:00Z'),
+  ],
+};
+
+describe('SessionBroadcaster', () => {
+  let request: jest.Mock;
+  let mapChargingPeriodsToPartialSession: jest.Mock;
+  let sessionBroadcaster: SessionBroadcaster;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    request = jest.fn(async (query: string) => {
+      switch (query) {
+        case GET_PENDING_SESSION_CHARGING_PERIODS_QUERY:
+          return {
+            PendingSessionChargingPeriods: [
+              {
+                transactionId: 5,
+                windowStart: '2025-01-15T10:01:00Z',
+                flushAt: new Date(Date.now() + 30_000).toISOString(),
+              },
+            ],
+          };
+        case GET_TRANSACTION_BY_ID_QUERY:
+          return { Transactions: [transaction] };
+        default:
+          return {};
+      }
+    });
+    mapChargingPeriodsToPartialSession = jest
+      .fn()
+      .mockResolvedValue({ kwh: 2 });
+    sessionBroadcaster = new SessionBroadcaster(
+      new Logger<ILogObj>({ type: 'hidden' }),
+      { enqueue: jest.fn() } as unknown as OutboxService,
+      { mapChargingPeriodsToPartialSession } as unknown as SessionMapper,
+      { request } as unknown as OcpiGraphqlClient,
+      {
+        sessionChargingPeriods: { aggregationWindowSeconds: 60 },
+      } as OcpiConfig,
+    );
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  const queries = () => request.mock.calls.map(([query]) => query);
+
+  it('stores the window when it opens and removes it once pushed', async () => {
+    await sessionBroadcaster.broadcastPatchSessionChargingPeriod(
+      tenant,
+      meterValue('2025-01-15T10:01:00Z'),
+    );
+    await sessionBroadcaster.broadcastPatchSessionChargingPeriod(
+      tenant,
+      meterValue('2025-01-15T10:02:00Z'),
+    );
+
+    expect(
+      request.mock.calls.filter(
+        ([query]) => query === UPSERT_PENDING_SESSION_CHARGING_PERIODS_MUTATION,
+      ),
+    ).toEqual([
+      [
+        UPSERT_PENDING_SESSION_CHARGING_PERIODS_MUTATION,
+        {
+          object: expect.objectContaining({
+            transactionId: 5,
+            windowStart: '2025-01-15T10:01:00.000Z',
+          }),
+        },
+      ],
+    ]);
+
+    await sessionBroadcaster.flushSessionChargingPeriods(5);
+
+    expect(request).toHaveBeenCalledWith(
+      DELETE_PENDING_SESSION_CHARGING_PERIODS_MUTATION,
+      { transactionId: 5, windowStart: '2025-01-15T10:01:00.000Z' },
+    );
+  });
+
+  it('keeps the window opened while the previous one is pushed', async () => {
+    await sessionBroadcaster.broadcastPatchSessionChargingPeriod(
+      tenant,
+      meterValue('2025-01-15T10:01:00Z'),
+    );
+    let pushed!: () => void;
+    mapChargingPeriodsToPartialSession.mockReturnValueOnce(
+      new Promise((resolve) => (pushed = () => resolve({ kwh: 2 }))),
+    );
+
+    const flush = sessionBroadcaster.flushSessionChargingPeriods(5);
+    await sessionBroadcaster.broadcastPatchSessionChargingPeriod(
+      tenant,
+      meterValue('2025-01-15T10:02:00Z'),
+    );
+    pushed();
+    await flush;
+
+    expect(
+      request.mock.calls
+        .filter(
+          ([query]) =>
+            query === DELETE_PENDING_SESSION_CHARGING_PERIODS_MUTATION,
+        )
+        .map(([, variables]) => variables.windowStart),
+    ).toEqual(['2025-01-15T10:01:00.000Z']);
+  });
+
+  it('rebuilds an open window from the meter values stored since its start', async () => {
+    await sessionBroadcaster.start();
+    await jest.advanceTimersByTimeAsync(30_000);
+
+    expect(mapChargingPeriodsToPartialSession).toHaveBeenCalledWith(
+      transaction,
+      transaction.meterValues.slice(1),
+    );
+    expect(queries()).toContain(
+      DELETE_PENDING_SESSION_CHARGING_PERIODS_MUTATION,
+    );
+  });
+});
@@ -0,0 +1,105 @@
+// SPDX-FileCopyrightText: 2025 Contributors to the CitrineOS Project
+//
+// SPDX-License-Identifier: Apache-2.0
+
+import 'reflect-metadata';
+import { RetryMessageError } from '@citrineos/base';
+import { Consumer, EachMessagePayload } from 'kafkajs';
+import { ILogObj, Logger } from 'tslog';
+import { OcpiConfig } from '../../src/config/ocpi.types';
+import { AsDtoEventHandler } from '../../src/events/AsDtoEventHandler';
+import { KafkaDtoReceiver } from '../../src/events/kafka/receiver';
+import { AbstractDtoModule } from '../../src/events/module';
+import {
+  DtoEventObjectType,
+  DtoEventType,
+  IDtoEvent,
+  IDtoPayload,
+} from '../../src/events/types';
+
+const config = {
+  messageBroker: { kafka: { brokers: ['localhost:9092'] } },
+} as OcpiConfig;
+
+/**
+ * Receiver consuming from a mocked consumer instead of a broker.
+ */
+class TestKafkaDtoReceiver extends KafkaDtoReceiver {
+  constructor(consumer: Partial<Consumer>) {
+    super(config, new Logger<ILogObj>({ type: 'hidden' }));
+    this._consumer = consumer as Consumer;
+  }
+
+  receive(headers: Record<string, string>): Promise<void> {
+    return this._onEvent({
+      message: {
+        headers,
+        value: Buffer.from(JSON.stringify({ _context: headers })),
+      },
+    } as unknown as EachMessagePayload);
+  }
+}
+
+class TestDtoModule extends AbstractDtoModule {
+  handleLocation = jest.fn();
+
+  async init(): Promise<void> {}
+
+  @AsDtoEventHandler(
+    DtoEventType.INSERT,
+    DtoEventObjectType.Location,
+    'LocationNotification',
+  )
+  async onLocationInsert(event: IDtoEvent<IDtoPayload>): Promise<void> {
+    await this.handleLocation(event);
+  }
+}
+
+const locationInsert = {
+  eventType: DtoEventType.INSERT,
+  objectType: DtoEventObjectType.Location,
+  eventId: 'LocationNotification',
+};
+
+describe('KafkaDtoReceiver', () => {
+  let run: jest.Mock;
+  let receiver: TestKafkaDtoReceiver;
+  let module: TestDtoModule;
+
+  beforeEach(() => {
+    run = jest.fn().mockResolvedValue(undefined);
+    receiver = new TestKafkaDtoReceiver({ run });
+    module = new TestDtoModule(
+      config,
+      receiver,
+      new Logger<ILogObj>({ type: 'hidden' }),
+    );
+  });
+
+  it('starts consuming once all handlers are subscribed', async () => {
+    await receiver.subscribe(DtoEventType.UPDATE, DtoEventObjectType.Evse);
+
+    expect(run).not.toHaveBeenCalled();
+
+    await module.initHandlers();
+
+    expect(run).toHaveBeenCalledTimes(1);
+  });
+
+  it('rethrows retryable errors so Kafka redelivers the message', async () => {
+    await module.initHandlers();
+    module.handleLocation.mockRejectedValueOnce(new RetryMessageError('busy'));
+
+    await expect(receiver.receive(locationInsert)).rejects.toThrow(
+      RetryMessageError,
+    );
+  });
+
+  it('skips messages failing with other errors', async () => {
+    await module.initHandlers();
+    module.handleLocation.mockRejectedValueOnce(new Error('broken'));
+
+    await expect(receiver.receive(locationInsert)).resolves.toBeUndefined();
+    expect(module.handleLocation).toHaveBeenCalledTimes(1);
+  });
+});
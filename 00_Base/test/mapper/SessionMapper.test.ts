@@ -0,0 +1,134 @@
+// SPDX-FileCopyrightText: 2025 Contributors to the CitrineOS Project
+//
+// SPDX-License-Identifier: Apache-2.0
+
+import {
+  IMeterValueDto,
+  ITariffDto,
+  ITenantDto,
+  ITransactionDto,
+  OCPP2_0_1,
+} from '@citrineos/base';
+import { ILogObj, Logger } from 'tslog';
+import { OcpiGraphqlClient } from '../../src/graphql/OcpiGraphqlClient';
+import { GET_TRANSACTION_BY_ID_QUERY } from '../../src/graphql/queries/transaction.queries';
+import { SessionMapper } from '../../src/mapper/SessionMapper';
+import { AuthMethod } from '../../src/model/AuthMethod';
+import { SessionStatus } from '../../src/model/SessionStatus';
+import { LocationsService } from '../../src/services/LocationsService';
+
+const tenant = { id: 1, countryCode: 'NL', partyId: 'CPO' } as ITenantDto;
+
+const storedTransaction = {
+  id: 5,
+  tenant,
+  isActive: true,
+  totalKwh: 1.2,
+  chargingState: OCPP2_0_1.ChargingStateEnumType.Charging,
+  remoteStartId: 12,
+  customData: { auth_method: AuthMethod.AUTH_REQUEST },
+  transactionEvents: [],
+} as unknown as ITransactionDto;
+
+describe('SessionMapper', () => {
+  let request: jest.Mock;
+  let sessionMapper: SessionMapper;
+
+  beforeEach(() => {
+    request = jest.fn(async (query: string) => {
+      if (query === GET_TRANSACTION_BY_ID_QUERY) {
+        return { Transactions: [storedTransaction] };
+      }
+      throw new Error('Unexpected query');
+    });
+    sessionMapper = new SessionMapper(
+      new Logger<ILogObj>({ type: 'hidden' }),
+      {} as LocationsService,
+      { request } as unknown as OcpiGraphqlClient,
+    );
+    jest
+      .spyOn(sessionMapper, 'getLocationsTokensAndTariffsMapsForTransactions')
+      .mockResolvedValue([new Map(), new Map(), new Map()]);
+  });
+
+  const mapPartial = (transaction: Partial<ITransactionDto>) =>
+    sessionMapper.mapPartialTransactionToPartialSession({
+      id: 5,
+      tenant,
+      ...transaction,
+    });
+
+  it('derives the status of a charging update from the stored transaction', async () => {
+    const session = await mapPartial({
+      chargingState: OCPP2_0_1.ChargingStateEnumType.Charging,
+    });
+
+    expect(session.status).toBe(SessionStatus.ACTIVE);
+    expect(session).not.toHaveProperty('auth_method');
+  });
+
+  it('keeps the auth method stored when customData is updated', async () => {
+    const session = await mapPartial({
+      customData: { authorization_reference: 'REF1' },
+    });
+
+    expect(session.auth_method).toBe(AuthMethod.AUTH_REQUEST);
+    expect(session).not.toHaveProperty('status');
+  });
+
+  it('sends neither status nor auth method for unrelated updates', async () => {
+    const session = await mapPartial({
+      updatedAt: new Date('2025-01-15T10:00:00Z'),
+    });
+
+    expect(session).not.toHaveProperty('status');
+    expect(session).not.toHaveProperty('auth_method');
+    expect(request).not.toHaveBeenCalled();
+  });
+
+  it('completes an ended session when the stored transaction cannot be read', async () => {
+    request.mockRejectedValue(new Error('Hasura is down'));
+
+    const session = await mapPartial({
+      isActive: false,
+      stoppedReason: OCPP2_0_1.ReasonEnumType.DeAuthorized,
+    });
+
+    expect(session.status).toBe(SessionStatus.COMPLETED);
+    expect(session).not.toHaveProperty('auth_method');
+  });
+
+  it('prices the charging periods with all components of the tariff', async () => {
+    const energyImport = (timestamp: string, value: number) =>
+      ({
+        timestamp,
+        sampledValue: [
+          {
+            measurand:
+              OCPP2_0_1.MeasurandEnumType.Energy_Active_Import_Register,
+            value,
+            unitOfMeasure: { unit: 'kWh' },
+          },
+        ],
+      }) as unknown as IMeterValueDto;
+
+    const session = await sessionMapper.mapChargingPeriodsToPartialSession(
+      {
+        ...storedTransaction,
+        totalKwh: 0,
+        startTime: '2025-01-15T10:00:00Z',
+        tariff: {
+          id: 3,
+          currency: 'EUR',
+          pricePerKwh: 0.5,
+          pricePerSession: 1,
+        } as ITariffDto,
+        meterValues: [energyImport('2025-01-15T10:00:00Z', 0)],
+      } as ITransactionDto,
+      [energyImport('2025-01-15T10:10:00Z', 4)],
+    );
+
+    expect(session.kwh).toBe(4);
+    expect(session.total_cost).toMatchObject({ excl_vat: 3 });
+  });
+});
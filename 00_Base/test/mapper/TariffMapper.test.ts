@@ -0,0 +1,27 @@
+// SPDX-FileCopyrightText: 2025 Contributors to the CitrineOS Project
+//
+// SPDX-License-Identifier: Apache-2.0
+
+import { ITariffDto } from '@citrineos/base';
+import { TariffMapper } from '../../src/mapper/TariffMapper';
+import { TariffDimensionType } from '../../src/model/TariffDimensionType';
+
+describe('TariffMapper', () => {
+  it('maps the core tax rate fraction to a VAT percentage', () => {
+    const elements = TariffMapper.getTariffElements({
+      pricePerKwh: 0.25,
+      pricePerSession: 1,
+      taxRate: 0.0875,
+    } as Partial<ITariffDto>);
+
+    expect(elements[0].price_components).toEqual([
+      {
+        type: TariffDimensionType.ENERGY,
+        price: 0.25,
+        vat: 8.75,
+        step_size: 1,
+      },
+      { type: TariffDimensionType.FLAT, price: 1, vat: 8.75, step_size: 1 },
+    ]);
+  });
+});
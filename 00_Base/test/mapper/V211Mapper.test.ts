@@ -0,0 +1,330 @@
+// SPDX-FileCopyrightText: 2025 Contributors to the CitrineOS Project
+//
+// SPDX-License-Identifier: Apache-2.0
+
+import { V211Mapper } from '../../src/mapper/V211Mapper';
+import { AuthMethod } from '../../src/model/AuthMethod';
+import { Capability } from '../../src/model/Capability';
+import { CdrDimensionType } from '../../src/model/CdrDimensionType';
+import { ConnectorFormat } from '../../src/model/ConnectorFormat';
+import { ConnectorType } from '../../src/model/ConnectorType';
+import { CredentialsDTO } from '../../src/model/DTO/CredentialsDTO';
+import { LocationDTO } from '../../src/model/DTO/LocationDTO';
+import { TokenDTO } from '../../src/model/DTO/TokenDTO';
+import { EvseStatus } from '../../src/model/EvseStatus';
+import { InterfaceRole } from '../../src/model/InterfaceRole';
+import { ModuleId } from '../../src/model/ModuleId';
+import { ParkingType } from '../../src/model/ParkingType';
+import { PowerType } from '../../src/model/PowerType';
+import { Role } from '../../src/model/Role';
+import { Session } from '../../src/model/Session';
+import { SessionStatus } from '../../src/model/SessionStatus';
+import { TariffDimensionType } from '../../src/model/TariffDimensionType';
+import { TokenType } from '../../src/model/TokenType';
+import { WhitelistType } from '../../src/model/WhitelistType';
+import { V211CredentialsSchema } from '../../src/model/v211/V211Credentials';
+import {
+  V211Location,
+  V211LocationSchema,
+  V211LocationType,
+  V211PowerType,
+} from '../../src/model/v211/V211Location';
+import {
+  V211AuthMethod,
+  V211SessionSchema,
+  V211SessionStatus,
+} from '../../src/model/v211/V211Session';
+import { V211TariffSchema } from '../../src/model/v211/V211Tariff';
+import { V211TokenSchema } from '../../src/model/v211/V211Token';
+
+const LAST_UPDATED = '2025-01-15T10:00:00Z';
+
+const location: LocationDTO = {
+  country_code: 'NL',
+  party_id: 'CPO',
+  id: 'L1',
+  publish: true,
+  name: 'Central Station',
+  address: 'Stationsplein 1',
+  city: 'Amsterdam',
+  postal_code: '1012AB',
+  country: 'NLD',
+  coordinates: { latitude: '52.378000', longitude: '4.900000' },
+  parking_type: ParkingType.PARKING_GARAGE,
+  evses: [
+    {
+      uid: 'CS1-1',
+      evse_id: 'NL*CPO*E1',
+      status: EvseStatus.AVAILABLE,
+      capabilities: [
+        Capability.RFID_READER,
+        Capability.CONTACTLESS_CARD_SUPPORT,
+      ],
+      connectors: [
+        {
+          id: '1',
+          standard: ConnectorType.IEC_62196_T2,
+          format: ConnectorFormat.SOCKET,
+          power_type: PowerType.AC_3_PHASE,
+          max_voltage: 400,
+          max_amperage: 32,
+          tariff_ids: ['T1', 'T2'],
+          last_updated: LAST_UPDATED,
+        },
+      ],
+      last_updated: LAST_UPDATED,
+    },
+  ],
+  time_zone: 'Europe/Amsterdam',
+  last_updated: LAST_UPDATED,
+};
+
+describe('V211Mapper', () => {
+  it('keeps the credentials of the eMSP through a round trip', () => {
+    const credentials: CredentialsDTO = {
+      token: 'token-a',
+      url: 'https://emsp.example.com/ocpi/versions',
+      roles: [
+        {
+          role: Role.EMSP,
+          party_id: 'EMS',
+          country_code: 'NL',
+          business_details: { name: 'eMSP' },
+        },
+      ],
+    };
+
+    const v211Credentials = V211Mapper.toCredentials(credentials);
+
+    expect(V211CredentialsSchema.parse(v211Credentials)).toEqual(
+      v211Credentials,
+    );
+    expect(V211Mapper.fromCredentials(v211Credentials)).toEqual(credentials);
+  });
+
+  it('sends the CPO role of the credentials', () => {
+    const v211Credentials = V211Mapper.toCredentials({
+      token: 'token-c',
+      url: 'https://cpo.example.com/ocpi/versions',
+      roles: [
+        {
+          role: Role.HUB,
+          party_id: 'HUB',
+          country_code: 'DE',
+          business_details: { name: 'Hub' },
+        },
+        {
+          role: Role.CPO,
+          party_id: 'CPO',
+          country_code: 'NL',
+          business_details: { name: 'CPO' },
+        },
+      ],
+    });
+
+    expect(v211Credentials).toMatchObject({
+      party_id: 'CPO',
+      country_code: 'NL',
+      business_details: { name: 'CPO' },
+    });
+  });
+
+  it('keeps a token through a round trip', () => {
+    const token: TokenDTO = {
+      country_code: 'NL',
+      party_id: 'EMS',
+      uid: '012345678',
+      type: TokenType.RFID,
+      contract_id: 'NL-EMS-C12345678-X',
+      visual_number: 'DF000-2001-8999',
+      issuer: 'eMSP',
+      valid: true,
+      whitelist: WhitelistType.ALLOWED,
+      language: 'nl',
+      last_updated: LAST_UPDATED,
+    };
+
+    const v211Token = V211Mapper.toToken(token);
+
+    expect(V211TokenSchema.parse(v211Token)).toEqual(v211Token);
+    expect(V211Mapper.fromToken(v211Token, 'NL', 'EMS')).toEqual(token);
+  });
+
+  it('lists each module once and derives the roles of eMSP endpoints', () => {
+    const endpoints = V211Mapper.toEndpoints([
+      {
+        identifier: ModuleId.Credentials,
+        role: InterfaceRole.SENDER,
+        url: 'https://cpo.example.com/credentials',
+      },
+      {
+        identifier: ModuleId.Credentials,
+        role: InterfaceRole.RECEIVER,
+        url: 'https://cpo.example.com/credentials',
+      },
+      {
+        identifier: ModuleId.Locations,
+        role: InterfaceRole.SENDER,
+        url: 'https://cpo.example.com/locations',
+      },
+    ]);
+
+    expect(endpoints).toEqual([
+      {
+        identifier: ModuleId.Credentials,
+        url: 'https://cpo.example.com/credentials',
+      },
+      {
+        identifier: ModuleId.Locations,
+        url: 'https://cpo.example.com/locations',
+      },
+    ]);
+    expect(
+      endpoints.map((endpoint) => V211Mapper.fromEndpoint(endpoint)),
+    ).toEqual([
+      {
+        identifier: ModuleId.Credentials,
+        role: InterfaceRole.SENDER,
+        url: 'https://cpo.example.com/credentials',
+      },
+      {
+        identifier: ModuleId.Locations,
+        role: InterfaceRole.RECEIVER,
+        url: 'https://cpo.example.com/locations',
+      },
+    ]);
+  });
+
+  describe('locations', () => {
+    it('translates a complete location into a valid 2.1.1 location', () => {
+      const v211Location = V211Mapper.toLocation(location);
+
+      expect(() => V211LocationSchema.parse(v211Location)).not.toThrow();
+      expect(v211Location.type).toBe(V211LocationType.PARKING_GARAGE);
+      expect(v211Location.evses?.[0].capabilities).toEqual([
+        Capability.RFID_READER,
+      ]);
+      expect(v211Location.evses?.[0].connectors[0]).toMatchObject({
+        power_type: V211PowerType.AC_3_PHASE,
+        voltage: 400,
+        amperage: 32,
+        tariff_id: 'T1',
+      });
+    });
+
+    it('only sets the fields present in a PATCH', () => {
+      expect(
+        V211Mapper.toEvse({
+          status: EvseStatus.CHARGING,
+          last_updated: LAST_UPDATED,
+        }),
+      ).toEqual({ status: EvseStatus.CHARGING, last_updated: LAST_UPDATED });
+      expect(V211Mapper.toLocation({ name: 'Renamed' })).toEqual({
+        name: 'Renamed',
+      });
+    });
+  });
+
+  describe('sessions', () => {
+    const session: Session = {
+      country_code: 'NL',
+      party_id: 'CPO',
+      id: 'S1',
+      start_date_time: '2025-01-15T10:00:00Z',
+      kwh: 12.5,
+      cdr_token: {
+        uid: '012345678',
+        type: TokenType.RFID,
+        contract_id: 'NL-EMS-C12345678-X',
+        country_code: 'NL',
+        party_id: 'EMS',
+      },
+      auth_method: AuthMethod.COMMAND,
+      location_id: 'L1',
+      evse_uid: 'CS1-1',
+      connector_id: '1',
+      currency: 'EUR',
+      charging_periods: [
+        {
+          start_date_time: '2025-01-15T10:00:00Z',
+          dimensions: [
+            { type: CdrDimensionType.ENERGY, volume: 12.5 },
+            { type: CdrDimensionType.STATE_OF_CHARGE, volume: 80 },
+          ],
+        },
+        {
+          start_date_time: '2025-01-15T10:30:00Z',
+          dimensions: [{ type: CdrDimensionType.STATE_OF_CHARGE, volume: 90 }],
+        },
+      ],
+      total_cost: { excl_vat: 3.75, incl_vat: 4.54 },
+      status: SessionStatus.RESERVATION,
+      last_updated: LAST_UPDATED,
+    };
+
+    it('translates a session with its location into a valid 2.1.1 session', () => {
+      const v211Session = V211Mapper.toSession(
+        session,
+        V211Mapper.toLocation(location) as V211Location,
+      );
+
+      expect(() => V211SessionSchema.parse(v211Session)).not.toThrow();
+      expect(v211Session).toMatchObject({
+        start_datetime: session.start_date_time,
+        auth_id: '012345678',
+        auth_method: V211AuthMethod.AUTH_REQUEST,
+        total_cost: 3.75,
+        status: V211SessionStatus.PENDING,
+        charging_periods: [
+          {
+            start_date_time: '2025-01-15T10:00:00Z',
+            dimensions: [{ type: CdrDimensionType.ENERGY, volume: 12.5 }],
+          },
+        ],
+      });
+    });
+
+    it('only sets the fields present in a PATCH', () => {
+      expect(
+        V211Mapper.toSession({ kwh: 15, last_updated: LAST_UPDATED }),
+      ).toEqual({ kwh: 15, last_updated: LAST_UPDATED });
+    });
+  });
+
+  it('drops the tariff fields 2.1.1 does not have', () => {
+    const v211Tariff = V211Mapper.toTariff({
+      country_code: 'NL',
+      party_id: 'CPO',
+      id: 'T1',
+      currency: 'EUR',
+      elements: [
+        {
+          price_components: [
+            {
+              type: TariffDimensionType.ENERGY,
+              price: 0.3,
+              vat: 21,
+              step_size: 1,
+            },
+          ],
+          restrictions: { max_kwh: 10, reservation: undefined },
+        },
+      ],
+      last_updated: LAST_UPDATED,
+    });
+
+    expect(V211TariffSchema.parse(v211Tariff)).toEqual({
+      id: 'T1',
+      currency: 'EUR',
+      elements: [
+        {
+          price_components: [
+            { type: TariffDimensionType.ENERGY, price: 0.3, step_size: 1 },
+          ],
+          restrictions: { max_kwh: 10 },
+        },
+      ],
+      last_updated: LAST_UPDATED,
+    });
+  });
+});
@@ -0,0 +1,57 @@
+// SPDX-FileCopyrightText: 2025 Contributors to the CitrineOS Project
+//
+// SPDX-License-Identifier: Apache-2.0
+
+import { ILogObj, Logger } from 'tslog';
+import { OcpiConfig } from '../../src/config/ocpi.types';
+import { OcpiGraphqlClient } from '../../src/graphql/OcpiGraphqlClient';
+import { OcpiCommandState } from '../../src/model/OcpiCommand';
+import { CommandLedgerService } from '../../src/services/CommandLedgerService';
+
+/**
+ * Applies the conditional updates of the ledger to a single stored command.
+ */
+function createCommandStore(state: OcpiCommandState) {
+  const command = { state, transitions: [] as any[] };
+  const request = jest.fn(async (_query: string, variables: any) => {
+    const allowedStates: OcpiCommandState[] | undefined =
+      variables.where.state?._in;
+    if (allowedStates && !allowedStates.includes(command.state)) {
+      return { update_OcpiCommands: { affected_rows: 0 } };
+    }
+    Object.assign(command, variables.set);
+    command.transitions.push(...variables.append.transitions);
+    return { update_OcpiCommands: { affected_rows: 1 } };
+  });
+  return { command, request };
+}
+
+describe('CommandLedgerService', () => {
+  function createLedger(store: ReturnType<typeof createCommandStore>) {
+    return new CommandLedgerService(
+      new Logger<ILogObj>({ type: 'hidden' }),
+      {} as OcpiConfig,
+      { request: store.request } as unknown as OcpiGraphqlClient,
+    );
+  }
+
+  it('moves a sent command to RESPONDED', async () => {
+    const store = createCommandStore(OcpiCommandState.SENT);
+
+    await createLedger(store).recordResponse('C1', { status: 'Accepted' });
+
+    expect(store.command.state).toBe(OcpiCommandState.RESPONDED);
+  });
+
+  it('keeps a timed out command TIMED_OUT on a late response', async () => {
+    const store = createCommandStore(OcpiCommandState.TIMED_OUT);
+
+    await createLedger(store).recordResponse('C1', { status: 'Accepted' });
+
+    expect(store.command.state).toBe(OcpiCommandState.TIMED_OUT);
+    expect(store.command.transitions).toEqual([
+      expect.objectContaining({ detail: { status: 'Accepted' } }),
+    ]);
+    expect(store.command.transitions[0].state).toBeUndefined();
+  });
+});
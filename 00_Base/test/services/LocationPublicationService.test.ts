@@ -0,0 +1,157 @@
+// SPDX-FileCopyrightText: 2025 Contributors to the CitrineOS Project
+//
+// SPDX-License-Identifier: Apache-2.0
+
+import { HttpMethod } from '@citrineos/base';
+import { ILogObj, Logger } from 'tslog';
+import { NotFoundException } from '../../src/exception/NotFoundException';
+import { OcpiGraphqlClient } from '../../src/graphql/OcpiGraphqlClient';
+import {
+  GET_LOCATION_GROUPS_QUERY,
+  GET_LOCATION_PUBLICATION_QUERY,
+  GET_TENANT_LOCATION_IDS_QUERY,
+  UPSERT_TENANT_PARTNER_LOCATIONS_MUTATION,
+} from '../../src/graphql/queries/locationPublication.queries';
+import { GET_TENANT_PARTNER_BY_ID } from '../../src/graphql/queries/tenantPartner.queries';
+import { ModuleId } from '../../src/model/ModuleId';
+import { LocationPublicationService } from '../../src/services/LocationPublicationService';
+import { LocationsService } from '../../src/services/LocationsService';
+import { OutboxService } from '../../src/services/OutboxService';
+
+const tenantPartner = {
+  id: 7,
+  tenantId: 1,
+  tenant: { id: 1, countryCode: 'NL', partyId: 'CPO' },
+};
+
+/**
+ * Answers the publication queries for the locations 1 to 3 of tenant 1 and the group 10 holding
+ * locations 2 and 3.
+ */
+function createGraphqlClient() {
+  const tenantLocationIds = [1, 2, 3];
+  const locationGroups = [
+    {
+      id: 10,
+      tenantId: 1,
+      name: 'Garages',
+      LocationGroupLocations: [{ locationId: 2 }, { locationId: 3 }],
+    },
+  ];
+  return jest.fn(async (query: string, variables: any) => {
+    switch (query) {
+      case GET_TENANT_PARTNER_BY_ID:
+        return { TenantPartners_by_pk: tenantPartner };
+      case GET_TENANT_LOCATION_IDS_QUERY:
+        return {
+          Locations: tenantLocationIds
+            .filter((id) => variables.locationIds.includes(id))
+            .map((id) => ({ id })),
+        };
+      case GET_LOCATION_GROUPS_QUERY:
+        return {
+          LocationGroups: locationGroups.filter((locationGroup) =>
+            variables.where.id._in.includes(locationGroup.id),
+          ),
+        };
+      case UPSERT_TENANT_PARTNER_LOCATIONS_MUTATION:
+        return {
+          insert_TenantPartnerLocations: {
+            affected_rows: variables.objects.length,
+          },
+        };
+      case GET_LOCATION_PUBLICATION_QUERY:
+        return {
+          TenantPartners_by_pk: {
+            id: tenantPartner.id,
+            publishAllLocations: false,
+            TenantPartnerLocations: [],
+          },
+        };
+      default:
+        throw new Error('Unexpected query');
+    }
+  });
+}
+
+describe('LocationPublicationService', () => {
+  let request: ReturnType<typeof createGraphqlClient>;
+  let getLocationById: jest.Mock;
+  let enqueueBroadcast: jest.Mock;
+  let locationPublicationService: LocationPublicationService;
+
+  beforeEach(() => {
+    request = createGraphqlClient();
+    getLocationById = jest.fn(async (id: number) => ({
+      data: { id: String(id), evses: [] },
+    }));
+    enqueueBroadcast = jest.fn().mockResolvedValue(undefined);
+    locationPublicationService = new LocationPublicationService(
+      new Logger<ILogObj>({ type: 'hidden' }),
+      { request } as unknown as OcpiGraphqlClient,
+      { getLocationById } as unknown as LocationsService,
+      { enqueueBroadcast } as unknown as OutboxService,
+    );
+  });
+
+  const linkedLocationIds = () =>
+    request.mock.calls
+      .filter(([query]) => query === UPSERT_TENANT_PARTNER_LOCATIONS_MUTATION)
+      .flatMap(([, variables]) =>
+        variables.objects.map((object: any) => object.locationId),
+      );
+
+  it('publishes the locations of a group together with single locations', async () => {
+    await locationPublicationService.publish(tenantPartner.id, [1, 2], [10]);
+
+    expect(linkedLocationIds()).toEqual([1, 2, 3]);
+    await new Promise(setImmediate);
+    expect(enqueueBroadcast.mock.calls.map((call) => call[3])).toEqual([
+      '/NL/CPO/1',
+      '/NL/CPO/2',
+      '/NL/CPO/3',
+    ]);
+    expect(enqueueBroadcast).toHaveBeenCalledWith(
+      tenantPartner,
+      ModuleId.Locations,
+      HttpMethod.Put,
+      '/NL/CPO/1',
+      expect.objectContaining({ id: '1' }),
+    );
+  });
+
+  it('rejects a location of another tenant without linking any', async () => {
+    await expect(
+      locationPublicationService.publish(tenantPartner.id, [1, 4]),
+    ).rejects.toThrow(NotFoundException);
+
+    expect(linkedLocationIds()).toEqual([]);
+    expect(getLocationById).not.toHaveBeenCalled();
+  });
+
+  it('rejects a location group of another tenant', async () => {
+    await expect(
+      locationPublicationService.publish(tenantPartner.id, [], [11]),
+    ).rejects.toThrow('LocationGroup 11 not found for Tenant 1');
+  });
+
+  it('returns before the locations are read and enqueued', async () => {
+    let readLocation!: () => void;
+    getLocationById.mockReturnValueOnce(
+      new Promise((resolve) => {
+        readLocation = () => resolve({ data: { id: '1', evses: [] } });
+      }),
+    );
+
+    const publication = await locationPublicationService.publish(
+      tenantPartner.id,
+      [1],
+    );
+
+    expect(publication.tenantPartnerId).toBe(tenantPartner.id);
+    expect(enqueueBroadcast).not.toHaveBeenCalled();
+    readLocation();
+    await new Promise(setImmediate);
+    expect(enqueueBroadcast).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,110 @@
+// SPDX-FileCopyrightText: 2025 Contributors to the CitrineOS Project
+//
+// SPDX-License-Identifier: Apache-2.0
+
+import { ILogObj, Logger } from 'tslog';
+import { OcpiConfig } from '../../src/config/ocpi.types';
+import { OcpiGraphqlClient } from '../../src/graphql/OcpiGraphqlClient';
+import { ModuleId } from '../../src/model/ModuleId';
+import { OcpiTrafficDirection } from '../../src/model/OcpiTrafficLog';
+import {
+  OcpiTrafficAuditService,
+  OcpiTrafficRecord,
+} from '../../src/services/OcpiTrafficAuditService';
+
+const credentials = {
+  token: 'ebf3b399-779f-4497-9b9d-ac6ad3cc44d2',
+  url: 'https://emsp.example.com/ocpi/versions',
+  roles: [],
+};
+
+const startSession = {
+  response_url: 'https://emsp.example.com/commands/START_SESSION/1',
+  token: { country_code: 'NL', party_id: 'EMS', uid: '012345678' },
+  location_id: '1',
+};
+
+function inbound(
+  module: string,
+  requestBody: unknown,
+  responseBody?: unknown,
+): OcpiTrafficRecord {
+  return {
+    direction: OcpiTrafficDirection.INBOUND,
+    tenantPartnerId: 7,
+    module,
+    method: 'POST',
+    url: `/ocpi/2.2.1/${module}`,
+    latencyMs: 12,
+    requestBody,
+    responseBody,
+  };
+}
+
+describe('OcpiTrafficAuditService', () => {
+  let request: jest.Mock;
+
+  beforeEach(() => {
+    request = jest.fn().mockResolvedValue({});
+  });
+
+  function createAuditService(trafficAudit?: OcpiConfig['trafficAudit']) {
+    return new OcpiTrafficAuditService(
+      new Logger<ILogObj>({ type: 'hidden' }),
+      { trafficAudit } as OcpiConfig,
+      { request } as unknown as OcpiGraphqlClient,
+    );
+  }
+
+  async function recorded(
+    auditService: OcpiTrafficAuditService,
+    record: OcpiTrafficRecord,
+  ) {
+    auditService.record(record);
+    await new Promise(setImmediate);
+    return request.mock.calls[0][1].object;
+  }
+
+  const recordingBodies = {
+    enabled: true,
+    recordBodies: true,
+    redactedCredentialsFields: ['token'],
+    retentionDays: 30,
+  };
+
+  it('does not record bodies by default', async () => {
+    const object = await recorded(
+      createAuditService(),
+      inbound(ModuleId.Commands, startSession, { status_code: 1000 }),
+    );
+
+    expect(object.requestBody).toBeNull();
+    expect(object.responseBody).toBeNull();
+    expect(object.ocpiStatusCode).toBe(1000);
+  });
+
+  it('redacts the tokens of the credentials exchanged', async () => {
+    const object = await recorded(
+      createAuditService(recordingBodies),
+      inbound(ModuleId.Credentials, credentials, {
+        data: credentials,
+        status_code: 1000,
+      }),
+    );
+
+    expect(object.requestBody).toEqual({ ...credentials, token: '***' });
+    expect(object.responseBody).toEqual({
+      data: { ...credentials, token: '***' },
+      status_code: 1000,
+    });
+  });
+
+  it('keeps the tokens of other modules', async () => {
+    const object = await recorded(
+      createAuditService(recordingBodies),
+      inbound(ModuleId.Commands, startSession),
+    );
+
+    expect(object.requestBody).toEqual(startSession);
+  });
+});
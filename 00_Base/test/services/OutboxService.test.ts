@@ -0,0 +1,289 @@
+// SPDX-FileCopyrightText: 2025 Contributors to the CitrineOS Project
+//
+// SPDX-License-Identifier: Apache-2.0
+
+import { HttpMethod, ITenantPartnerDto } from '@citrineos/base';
+import { ILogObj, Logger } from 'tslog';
+import { OcpiConfig } from '../../src/config/ocpi.types';
+import { OcpiGraphqlClient } from '../../src/graphql/OcpiGraphqlClient';
+import {
+  CLAIM_OUTBOX_MESSAGE_MUTATION,
+  DELETE_OUTBOX_MESSAGE_MUTATION,
+  GET_OUTBOX_QUEUE_HEADS_QUERY,
+  INSERT_OUTBOX_MESSAGE_MUTATION,
+  RETRY_OUTBOX_MESSAGES_MUTATION,
+  UPDATE_OUTBOX_MESSAGE_MUTATION,
+} from '../../src/graphql/queries/outbox.queries';
+import { ModuleId } from '../../src/model/ModuleId';
+import { OutboxMessageStatus } from '../../src/model/OutboxMessage';
+import { HubClientInfoService } from '../../src/services/HubClientInfoService';
+import { OutboxService } from '../../src/services/OutboxService';
+import { V211TranslationService } from '../../src/services/V211TranslationService';
+import { CdrsClientApi } from '../../src/trigger/CdrsClientApi';
+import { LocationsClientApi } from '../../src/trigger/LocationsClientApi';
+import { SessionsClientApi } from '../../src/trigger/SessionsClientApi';
+import { TariffsClientApi } from '../../src/trigger/TariffsClientApi';
+
+interface StoredMessage {
+  id: number;
+  tenantPartnerId: number;
+  moduleId: string;
+  httpMethod: string;
+  path?: string | null;
+  body?: any;
+  queueKey: string;
+  status: string;
+  attempts: number;
+  nextAttemptAt: string;
+  TenantPartner: any;
+}
+
+/**
+ * In-memory stand-in for the OutboxMessages table, answering the outbox queries.
+ */
+function createOutboxStore() {
+  const messages: StoredMessage[] = [];
+  let nextId = 1;
+  const request = jest.fn(async (query: string, variables: any) => {
+    switch (query) {
+      case INSERT_OUTBOX_MESSAGE_MUTATION:
+        messages.push({
+          ...variables.object,
+          id: nextId++,
+          TenantPartner: tenantPartnerRow,
+        });
+        return { insert_OutboxMessages_one: { id: nextId - 1 } };
+      case GET_OUTBOX_QUEUE_HEADS_QUERY: {
+        const heads = new Map<string, StoredMessage>();
+        messages
+          .filter((m) => m.tenantPartnerId === variables.tenantPartnerId)
+          .sort((a, b) => a.id - b.id)
+          .forEach((m) => {
+            if (!heads.has(m.queueKey)) {
+              heads.set(m.queueKey, m);
+            }
+          });
+        return { OutboxMessages: [...heads.values()].map((m) => ({ ...m })) };
+      }
+      case CLAIM_OUTBOX_MESSAGE_MUTATION: {
+        const claimed = messages.find(
+          (m) =>
+            m.id === variables.id &&
+            m.status === OutboxMessageStatus.PENDING &&
+            new Date(m.nextAttemptAt) <= new Date(variables.now),
+        );
+        if (claimed) {
+          claimed.nextAttemptAt = variables.leasedUntil;
+        }
+        return { update_OutboxMessages: { affected_rows: claimed ? 1 : 0 } };
+      }
+      case DELETE_OUTBOX_MESSAGE_MUTATION:
+        messages.splice(
+          messages.findIndex((m) => m.id === variables.id),
+          1,
+        );
+        return { delete_OutboxMessages_by_pk: { id: variables.id } };
+      case UPDATE_OUTBOX_MESSAGE_MUTATION:
+        Object.assign(
+          messages.find((m) => m.id === variables.id)!,
+          variables.set,
+        );
+        return { update_OutboxMessages_by_pk: { id: variables.id } };
+      case RETRY_OUTBOX_MESSAGES_MUTATION: {
+        const retried = messages.filter(
+          (m) => m.status === variables.where.status?._eq,
+        );
+        retried.forEach((m) =>
+          Object.assign(m, {
+            status: OutboxMessageStatus.PENDING,
+            attempts: 0,
+            nextAttemptAt: variables.now,
+          }),
+        );
+        return { update_OutboxMessages: { affected_rows: retried.length } };
+      }
+      default:
+        throw new Error('Unexpected query');
+    }
+  });
+  return { messages, request };
+}
+
+const tenantPartnerRow = {
+  id: 1,
+  countryCode: 'NL',
+  partyId: 'EMS',
+  partnerProfileOCPI: { version: { version: '2.2.1' } },
+  tenantId: 1,
+  tenant: { id: 1, countryCode: 'NL', partyId: 'CPO' },
+};
+
+const tenantPartner = {
+  id: 1,
+  countryCode: 'NL',
+  partyId: 'EMS',
+} as ITenantPartnerDto;
+
+describe('OutboxService', () => {
+  let store: ReturnType<typeof createOutboxStore>;
+  let sessionsClientApi: { request: jest.Mock };
+  let tariffsClientApi: { request: jest.Mock };
+  let outboxService: OutboxService;
+
+  const createOutboxService = () =>
+    new OutboxService(
+      new Logger<ILogObj>({ type: 'hidden' }),
+      { outbox: { maxAttempts: 1 } } as OcpiConfig,
+      { request: store.request } as unknown as OcpiGraphqlClient,
+      {} as HubClientInfoService,
+      {} as V211TranslationService,
+      sessionsClientApi as unknown as SessionsClientApi,
+      { request: jest.fn() } as unknown as CdrsClientApi,
+      { request: jest.fn() } as unknown as LocationsClientApi,
+      tariffsClientApi as unknown as TariffsClientApi,
+    );
+
+  beforeEach(() => {
+    store = createOutboxStore();
+    sessionsClientApi = { request: jest.fn().mockResolvedValue(undefined) };
+    tariffsClientApi = { request: jest.fn().mockResolvedValue(undefined) };
+    outboxService = createOutboxService();
+  });
+
+  const sentPaths = (client: { request: jest.Mock }) =>
+    client.request.mock.calls.map((call) => [call[4], call[12]]);
+
+  it('resolves enqueue once the message is stored, before it is delivered', async () => {
+    let deliver!: () => void;
+    sessionsClientApi.request.mockReturnValue(
+      new Promise<void>((resolve) => (deliver = resolve)),
+    );
+
+    await outboxService.enqueue(
+      tenantPartner,
+      ModuleId.Sessions,
+      HttpMethod.Put,
+      '/NL/CPO/S1',
+      { id: 'S1' },
+    );
+
+    expect(store.messages).toHaveLength(1);
+    expect(store.messages[0].queueKey).toBe('sessions:NL/CPO/S1');
+
+    deliver();
+    await outboxService.drain(tenantPartner.id!);
+    expect(store.messages).toHaveLength(0);
+  });
+
+  it('queues EVSE updates with their location and CDRs by session', async () => {
+    await outboxService.enqueue(
+      tenantPartner,
+      ModuleId.Locations,
+      HttpMethod.Patch,
+      '/NL/CPO/L1/EVSE1/1',
+      { status: 'CHARGING' },
+    );
+    await outboxService.enqueue(
+      tenantPartner,
+      ModuleId.Cdrs,
+      HttpMethod.Post,
+      undefined,
+      { id: 'CDR1', session_id: 'S1' },
+    );
+
+    const queueKeys = store.request.mock.calls
+      .filter(([query]) => query === INSERT_OUTBOX_MESSAGE_MUTATION)
+      .map(([, variables]) => variables.object.queueKey);
+    expect(queueKeys).toEqual(['locations:NL/CPO/L1', 'cdrs:S1']);
+    await outboxService.drain(tenantPartner.id!);
+  });
+
+  it('does not block other objects behind a failing message', async () => {
+    sessionsClientApi.request.mockRejectedValue(new Error('Partner down'));
+
+    await outboxService.enqueue(
+      tenantPartner,
+      ModuleId.Sessions,
+      HttpMethod.Put,
+      '/NL/CPO/S1',
+      { id: 'S1' },
+    );
+    await outboxService.enqueue(
+      tenantPartner,
+      ModuleId.Tariffs,
+      HttpMethod.Put,
+      '/NL/CPO/T1',
+      { id: 'T1' },
+    );
+    await outboxService.drain(tenantPartner.id!);
+
+    expect(sentPaths(tariffsClientApi)).toEqual([
+      [HttpMethod.Put, '/NL/CPO/T1'],
+    ]);
+    expect(store.messages).toHaveLength(1);
+    expect(store.messages[0]).toMatchObject({
+      queueKey: 'sessions:NL/CPO/S1',
+      status: OutboxMessageStatus.DEAD_LETTER,
+      attempts: 1,
+    });
+  });
+
+  it('holds later updates of an object while its head is dead-lettered', async () => {
+    sessionsClientApi.request.mockRejectedValueOnce(new Error('Partner down'));
+
+    await outboxService.enqueue(
+      tenantPartner,
+      ModuleId.Sessions,
+      HttpMethod.Put,
+      '/NL/CPO/S1',
+      { id: 'S1' },
+    );
+    await outboxService.drain(tenantPartner.id!);
+    await outboxService.enqueue(
+      tenantPartner,
+      ModuleId.Sessions,
+      HttpMethod.Patch,
+      '/NL/CPO/S1',
+      { kwh: 2 },
+    );
+    await outboxService.drain(tenantPartner.id!);
+
+    expect(sentPaths(sessionsClientApi)).toEqual([
+      [HttpMethod.Put, '/NL/CPO/S1'],
+    ]);
+    expect(store.messages.map((m) => m.status)).toEqual([
+      OutboxMessageStatus.DEAD_LETTER,
+      OutboxMessageStatus.PENDING,
+    ]);
+
+    await outboxService.retryMessages(tenantPartner.id!);
+    await outboxService.drain(tenantPartner.id!);
+
+    expect(sentPaths(sessionsClientApi)).toEqual([
+      [HttpMethod.Put, '/NL/CPO/S1'],
+      [HttpMethod.Put, '/NL/CPO/S1'],
+      [HttpMethod.Patch, '/NL/CPO/S1'],
+    ]);
+    expect(store.messages).toHaveLength(0);
+  });
+
+  it('sends a message once when several instances drain the queue', async () => {
+    await outboxService.enqueue(
+      tenantPartner,
+      ModuleId.Sessions,
+      HttpMethod.Put,
+      '/NL/CPO/S1',
+      { id: 'S1' },
+    );
+
+    await Promise.all([
+      outboxService.drain(tenantPartner.id!),
+      createOutboxService().drain(tenantPartner.id!),
+    ]);
+
+    expect(sentPaths(sessionsClientApi)).toEqual([
+      [HttpMethod.Put, '/NL/CPO/S1'],
+    ]);
+    expect(store.messages).toHaveLength(0);
+  });
+});
@@ -0,0 +1,92 @@
+// SPDX-FileCopyrightText: 2025 Contributors to the CitrineOS Project
+//
+// SPDX-License-Identifier: Apache-2.0
+
+import 'reflect-metadata';
+import { ICache } from '@citrineos/base';
+import { ILogObj, Logger } from 'tslog';
+import { OcpiConfig } from '../../src/config/ocpi.types';
+import { PgNotifyEventSubscriber } from '../../src/events/pgNotify/subscriber';
+import { OcpiGraphqlClient } from '../../src/graphql/OcpiGraphqlClient';
+import { TenantPartnerTokenResolver } from '../../src/services/TenantPartnerTokenResolver';
+import { CacheWrapper } from '../../src/util/CacheWrapper';
+import { extractToken } from '../../src/util/decorators/AuthToken';
+
+const TOKEN = 'ebf3b399-779f-4497-9b9d-ac6ad3cc44d2';
+
+const tenantPartner = { id: 7, countryCode: 'NL', partyId: 'EMS' };
+
+/**
+ * Resolves the variants of the header the way the AuthMiddleware does.
+ */
+async function resolveHeader(
+  resolver: TenantPartnerTokenResolver,
+  authorization: string,
+) {
+  const tokens = extractToken(authorization, true);
+  for (const token of Array.isArray(tokens) ? tokens : [tokens]) {
+    const tenantPartners = await resolver.resolveAll(token);
+    if (tenantPartners.length > 0) {
+      return tenantPartners;
+    }
+  }
+  return [];
+}
+
+describe('TenantPartnerTokenResolver', () => {
+  let request: jest.Mock;
+  let set: jest.Mock;
+  let resolver: TenantPartnerTokenResolver;
+
+  beforeEach(() => {
+    const entries = new Map<string, string>();
+    set = jest.fn(async (key: string, value: string, namespace: string) => {
+      entries.set(`${namespace}:${key}`, value);
+      return true;
+    });
+    const cache = {
+      get: jest.fn(
+        async (key: string, namespace: string) =>
+          entries.get(`${namespace}:${key}`) ?? null,
+      ),
+      set,
+      remove: jest.fn(async (key: string, namespace: string) =>
+        entries.delete(`${namespace}:${key}`),
+      ),
+    } as unknown as ICache;
+    request = jest.fn(async (_query: string, variables: any) => ({
+      TenantPartners: variables.serverToken === TOKEN ? [tenantPartner] : [],
+    }));
+    resolver = new TenantPartnerTokenResolver(
+      new Logger<ILogObj>({ type: 'hidden' }),
+      { tenantPartnerCache: { unknownTokenTtlSeconds: 10 } } as OcpiConfig,
+      { request } as unknown as OcpiGraphqlClient,
+      { cache } as CacheWrapper,
+      {} as PgNotifyEventSubscriber,
+    );
+  });
+
+  it('looks a plain token up only once', async () => {
+    await resolveHeader(resolver, `Token ${TOKEN}`);
+    const lookups = request.mock.calls.length;
+
+    await expect(resolveHeader(resolver, `Token ${TOKEN}`)).resolves.toEqual([
+      tenantPartner,
+    ]);
+    expect(request).toHaveBeenCalledTimes(lookups);
+    expect(resolver.getMetrics()).toMatchObject({ misses: lookups });
+  });
+
+  it('caches unknown tokens for a shorter time', async () => {
+    await expect(resolver.resolveAll('unknown')).resolves.toEqual([]);
+    await expect(resolver.resolveAll('unknown')).resolves.toEqual([]);
+
+    expect(request).toHaveBeenCalledTimes(1);
+    expect(set).toHaveBeenCalledWith(
+      expect.any(String),
+      '[]',
+      expect.any(String),
+      10,
+    );
+  });
+});
@@ -0,0 +1,218 @@
+// SPDX-FileCopyrightText: 2025 Contributors to the CitrineOS Project
+//
+// SPDX-License-Identifier: Apache-2.0
+
+import { ILogObj, Logger } from 'tslog';
+import { OcpiConfig } from '../../src/config/ocpi.types';
+import { OcpiGraphqlClient } from '../../src/graphql/OcpiGraphqlClient';
+import { AsyncJobStatusFields } from '../../src/graphql/operations';
+import {
+  CLAIM_ASYNC_JOB_STATUS_MUTATION,
+  GET_ASYNC_JOB_STATUSES_QUERY,
+  UPDATE_ASYNC_JOB_STATUS_MUTATION,
+} from '../../src/graphql/queries/asyncJob.queries';
+import { GET_TENANT_PARTNER_BY_ID } from '../../src/graphql/queries/tenantPartner.queries';
+import { OcpiResponseStatusCode } from '../../src/model/OcpiResponse';
+import { TokensAdminService } from '../../src/services/TokensAdminService';
+import { TokensService } from '../../src/services/TokensService';
+import { TokensClientApi } from '../../src/trigger/TokensClientApi';
+import { AsyncJobName } from '../../src/types/asyncJob.types';
+
+interface StoredJob extends AsyncJobStatusFields {
+  lockedBy?: string | null;
+}
+
+const tenantPartner = {
+  id: 7,
+  countryCode: 'NL',
+  partyId: 'EMS',
+  tenantId: 1,
+  partnerProfileOCPI: {},
+  tenant: { id: 1, countryCode: 'NL', partyId: 'CPO' },
+};
+
+/**
+ * In-memory stand-in for the AsyncJobStatuses table, answering the job queries.
+ */
+function createJobStore() {
+  const jobs: StoredJob[] = [];
+  const request = jest.fn(async (query: string, variables: any) => {
+    switch (query) {
+      case GET_TENANT_PARTNER_BY_ID:
+        return { TenantPartners_by_pk: tenantPartner };
+      case GET_ASYNC_JOB_STATUSES_QUERY:
+        return {
+          AsyncJobStatuses: jobs
+            .filter(
+              (job) =>
+                (variables.where.finishedAt?._is_null !== true ||
+                  !job.finishedAt) &&
+                (variables.where.stoppedAt?._is_null !== true ||
+                  !job.stoppedAt),
+            )
+            .map((job) => ({ ...job })),
+        };
+      case CLAIM_ASYNC_JOB_STATUS_MUTATION: {
+        const job = jobs.find(
+          (job) =>
+            job.jobId === variables.jobId &&
+            !job.finishedAt &&
+            !job.stoppedAt &&
+            (!job.lockedUntil ||
+              new Date(job.lockedUntil) < new Date(variables.now) ||
+              job.lockedBy === variables.owner),
+        );
+        if (job) {
+          job.lockedBy = variables.owner;
+          job.lockedUntil = variables.lockedUntil;
+        }
+        return { update_AsyncJobStatuses: { affected_rows: job ? 1 : 0 } };
+      }
+      case UPDATE_ASYNC_JOB_STATUS_MUTATION: {
+        const job = jobs.find((job) => job.jobId === variables.jobId)!;
+        Object.assign(job, variables.set);
+        return { update_AsyncJobStatuses_by_pk: { ...job } };
+      }
+      default:
+        throw new Error('Unexpected query');
+    }
+  });
+  return { jobs, request };
+}
+
+function storedJob(job: Partial<StoredJob>): StoredJob {
+  return {
+    jobId: 'JOB1',
+    jobName: AsyncJobName.FETCH_OCPI_TOKENS,
+    tenantPartnerId: tenantPartner.id,
+    stopScheduled: false,
+    isFailed: false,
+    paginationParams: { offset: 100, limit: 100 },
+    createdAt: '2025-01-15T10:00:00Z',
+    updatedAt: '2025-01-15T10:00:00Z',
+    ...job,
+  };
+}
+
+const inOneMinute = () => new Date(Date.now() + 60_000).toISOString();
+const aMinuteAgo = () => new Date(Date.now() - 60_000).toISOString();
+
+async function settle(): Promise<void> {
+  for (let i = 0; i < 20; i++) {
+    await new Promise(setImmediate);
+  }
+}
+
+describe('TokensAdminService', () => {
+  let store: ReturnType<typeof createJobStore>;
+  let getTokens: jest.Mock;
+  let upsertToken: jest.Mock;
+  const services: TokensAdminService[] = [];
+
+  beforeEach(() => {
+    store = createJobStore();
+    // Two pages, the offset of the second one is given by the Link header of the first
+    getTokens = jest.fn(async (...args: any[]) => {
+      const offset = args[5].offset;
+      return offset === 100
+        ? {
+            status_code: OcpiResponseStatusCode.GenericSuccessCode,
+            data: [{ uid: 'T1' }, { uid: 'T2' }],
+            link: '<https://emsp.example.com/tokens?offset=102>',
+            offset: 102,
+            limit: 2,
+            total: 3,
+          }
+        : {
+            status_code: OcpiResponseStatusCode.GenericSuccessCode,
+            data: [{ uid: 'T3' }],
+            offset,
+            limit: 2,
+            total: 3,
+          };
+    });
+    upsertToken = jest.fn().mockResolvedValue(undefined);
+  });
+
+  afterEach(() => {
+    services.splice(0).forEach((service) => service.stop());
+  });
+
+  function startService(): TokensAdminService {
+    const service = new TokensAdminService(
+      new Logger<ILogObj>({ type: 'hidden' }),
+      { tokensSync: { leaseSeconds: 60 } } as OcpiConfig,
+      { request: store.request } as unknown as OcpiGraphqlClient,
+      { getTokens } as unknown as TokensClientApi,
+      { upsertToken } as unknown as TokensService,
+    );
+    services.push(service);
+    service.start();
+    return service;
+  }
+
+  const pulledPages = () => getTokens.mock.calls.map((call) => call[5]);
+
+  it('resumes an interrupted job from its offset and follows the Link header', async () => {
+    store.jobs.push(
+      storedJob({ lockedBy: 'stopped-instance', lockedUntil: aMinuteAgo() }),
+    );
+
+    startService();
+    await settle();
+
+    expect(upsertToken.mock.calls.map(([token]) => token.uid)).toEqual([
+      'T1',
+      'T2',
+      'T3',
+    ]);
+    expect(store.jobs[0]).toMatchObject({
+      paginationParams: { offset: 102, limit: 2 },
+      totalObjects: 3,
+      isFailed: false,
+      lockedBy: null,
+      lockedUntil: null,
+    });
+    expect(store.jobs[0].finishedAt).toBeDefined();
+  });
+
+  it('leaves a job to the instance holding its lease', async () => {
+    store.jobs.push(
+      storedJob({ lockedBy: 'other-instance', lockedUntil: inOneMinute() }),
+    );
+
+    startService();
+    await settle();
+
+    expect(getTokens).not.toHaveBeenCalled();
+    expect(store.jobs[0].finishedAt).toBeUndefined();
+  });
+
+  it('runs an interrupted job in a single instance', async () => {
+    store.jobs.push(storedJob({}));
+
+    startService();
+    startService();
+    await settle();
+
+    expect(pulledPages()).toHaveLength(2);
+    expect(store.jobs[0].finishedAt).toBeDefined();
+  });
+
+  it('stops a job whose stop was requested before its instance stopped', async () => {
+    store.jobs.push(
+      storedJob({
+        stopScheduled: true,
+        lockedBy: 'stopped-instance',
+        lockedUntil: aMinuteAgo(),
+      }),
+    );
+
+    startService();
+    await settle();
+
+    expect(getTokens).not.toHaveBeenCalled();
+    expect(store.jobs[0].stoppedAt).toBeDefined();
+    expect(store.jobs[0].lockedBy).toBeNull();
+  });
+});
@@ -0,0 +1,201 @@
+// SPDX-FileCopyrightText: 2025 Contributors to the CitrineOS Project
+//
+// SPDX-License-Identifier: Apache-2.0
+
+import { ILogObj, Logger } from 'tslog';
+import { AuthMethod } from '../../src/model/AuthMethod';
+import { Cdr } from '../../src/model/Cdr';
+import { CdrDimensionType } from '../../src/model/CdrDimensionType';
+import { ConnectorFormat } from '../../src/model/ConnectorFormat';
+import { ConnectorType } from '../../src/model/ConnectorType';
+import { LocationDTO } from '../../src/model/DTO/LocationDTO';
+import { EvseStatus } from '../../src/model/EvseStatus';
+import { ModuleId } from '../../src/model/ModuleId';
+import { PowerType } from '../../src/model/PowerType';
+import { Session } from '../../src/model/Session';
+import { SessionStatus } from '../../src/model/SessionStatus';
+import { TokenType } from '../../src/model/TokenType';
+import { V211CdrSchema } from '../../src/model/v211/V211Cdr';
+import { V211SessionSchema } from '../../src/model/v211/V211Session';
+import { LocationsService } from '../../src/services/LocationsService';
+import { V211TranslationService } from '../../src/services/V211TranslationService';
+
+const LAST_UPDATED = '2025-01-15T10:00:00Z';
+
+function connector(id: string, maxAmperage: number) {
+  return {
+    id,
+    standard: ConnectorType.IEC_62196_T2,
+    format: ConnectorFormat.SOCKET,
+    power_type: PowerType.AC_3_PHASE,
+    max_voltage: 400,
+    max_amperage: maxAmperage,
+    last_updated: LAST_UPDATED,
+  };
+}
+
+const location: LocationDTO = {
+  country_code: 'NL',
+  party_id: 'CPO',
+  id: '1',
+  publish: true,
+  address: 'Stationsplein 1',
+  city: 'Amsterdam',
+  postal_code: '1012AB',
+  country: 'NLD',
+  coordinates: { latitude: '52.378000', longitude: '4.900000' },
+  evses: [
+    {
+      uid: 'CS1-1',
+      status: EvseStatus.CHARGING,
+      connectors: [connector('1', 32), connector('2', 16)],
+      last_updated: LAST_UPDATED,
+    },
+    {
+      uid: 'CS1-2',
+      status: EvseStatus.AVAILABLE,
+      connectors: [connector('1', 32)],
+      last_updated: LAST_UPDATED,
+    },
+  ],
+  time_zone: 'Europe/Amsterdam',
+  last_updated: LAST_UPDATED,
+};
+
+const cdrToken = {
+  uid: '012345678',
+  type: TokenType.RFID,
+  contract_id: 'NL-EMS-C12345678-X',
+  country_code: 'NL',
+  party_id: 'EMS',
+};
+
+const session: Session = {
+  country_code: 'NL',
+  party_id: 'CPO',
+  id: 'S1',
+  start_date_time: '2025-01-15T10:00:00Z',
+  kwh: 12.5,
+  cdr_token: cdrToken,
+  auth_method: AuthMethod.WHITELIST,
+  location_id: '1',
+  evse_uid: 'CS1-1',
+  connector_id: '2',
+  currency: 'EUR',
+  status: SessionStatus.ACTIVE,
+  last_updated: LAST_UPDATED,
+};
+
+describe('V211TranslationService', () => {
+  let getLocationById: jest.Mock;
+  let translationService: V211TranslationService;
+
+  beforeEach(() => {
+    getLocationById = jest.fn().mockResolvedValue({ data: location });
+    translationService = new V211TranslationService(
+      new Logger<ILogObj>({ type: 'hidden' }),
+      { getLocationById } as unknown as LocationsService,
+    );
+  });
+
+  it('embeds the EVSE and connector of the session in its location', async () => {
+    const v211Session = await translationService.toV211(
+      ModuleId.Sessions,
+      session,
+    );
+
+    expect(() => V211SessionSchema.parse(v211Session)).not.toThrow();
+    expect(v211Session.location.evses).toHaveLength(1);
+    expect(v211Session.location.evses[0].uid).toBe('CS1-1');
+    expect(v211Session.location.evses[0].connectors).toEqual([
+      expect.objectContaining({ id: '2', amperage: 16 }),
+    ]);
+  });
+
+  it('looks up a location once per page', async () => {
+    const page = await translationService.toV211(ModuleId.Sessions, [
+      session,
+      { ...session, id: 'S2', evse_uid: 'CS1-2', connector_id: '1' },
+    ]);
+
+    expect(page).toHaveLength(2);
+    expect(getLocationById).toHaveBeenCalledTimes(1);
+    expect(getLocationById).toHaveBeenCalledWith(1);
+  });
+
+  it('does not look up the location of a session PATCH without it', async () => {
+    const patch = await translationService.toV211(ModuleId.Sessions, {
+      kwh: 15,
+      last_updated: LAST_UPDATED,
+    });
+
+    expect(patch).toEqual({ kwh: 15, last_updated: LAST_UPDATED });
+    expect(getLocationById).not.toHaveBeenCalled();
+  });
+
+  it('takes the voltage and amperage of a CDR from its connector', async () => {
+    const cdr: Cdr = {
+      country_code: 'NL',
+      party_id: 'CPO',
+      id: 'CDR1',
+      start_date_time: '2025-01-15T10:00:00Z',
+      end_date_time: '2025-01-15T11:00:00Z',
+      session_id: 'S1',
+      cdr_token: cdrToken,
+      auth_method: AuthMethod.COMMAND,
+      cdr_location: {
+        id: '1',
+        address: 'Stationsplein 1',
+        city: 'Amsterdam',
+        postal_code: '1012AB',
+        country: 'NLD',
+        coordinates: { latitude: '52.378000', longitude: '4.900000' },
+        evse_uid: 'CS1-1',
+        evse_id: 'NL*CPO*E1',
+        connector_id: '2',
+        connector_standard: ConnectorType.IEC_62196_T2,
+        connector_format: ConnectorFormat.SOCKET,
+        connector_power_type: PowerType.AC_3_PHASE,
+      },
+      currency: 'EUR',
+      charging_periods: [
+        {
+          start_date_time: '2025-01-15T10:00:00Z',
+          dimensions: [{ type: CdrDimensionType.ENERGY, volume: 12.5 }],
+        },
+      ],
+      total_cost: { excl_vat: 3.75, incl_vat: 4.54 },
+      total_energy: 12.5,
+      total_time: 1,
+      last_updated: LAST_UPDATED,
+    };
+
+    const v211Cdr = await translationService.toV211(ModuleId.Cdrs, cdr);
+
+    expect(() => V211CdrSchema.parse(v211Cdr)).not.toThrow();
+    expect(v211Cdr).toMatchObject({
+      stop_date_time: cdr.end_date_time,
+      auth_id: '012345678',
+      total_cost: 3.75,
+    });
+    expect(v211Cdr.location.evses[0].connectors[0]).toMatchObject({
+      id: '2',
+      voltage: 400,
+      amperage: 16,
+    });
+  });
+
+  it('tells EVSE and connector updates of the locations module apart', async () => {
+    await expect(
+      translationService.toV211(ModuleId.Locations, {
+        status: EvseStatus.AVAILABLE,
+        uid: 'CS1-1',
+      }),
+    ).resolves.toEqual({ status: EvseStatus.AVAILABLE, uid: 'CS1-1' });
+    await expect(
+      translationService.toV211(ModuleId.Locations, {
+        tariff_ids: ['T3'],
+      }),
+    ).resolves.toEqual({ tariff_id: 'T3' });
+  });
+});
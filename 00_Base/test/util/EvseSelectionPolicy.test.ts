@@ -0,0 +1,192 @@
+// SPDX-FileCopyrightText: 2025 Contributors to the CitrineOS Project
+//
+// SPDX-License-Identifier: Apache-2.0
+
+import { IChargingStationDto, ITenantPartnerDto } from '@citrineos/base';
+import { ILogObj, Logger } from 'tslog';
+import { OcpiConfig } from '../../src/config/ocpi.types';
+import { OcpiGraphqlClient } from '../../src/graphql/OcpiGraphqlClient';
+import { ConnectorFormat } from '../../src/model/ConnectorFormat';
+import { ConnectorType } from '../../src/model/ConnectorType';
+import { ConnectorDTO } from '../../src/model/DTO/ConnectorDTO';
+import { EvseStatus } from '../../src/model/EvseStatus';
+import { PowerType } from '../../src/model/PowerType';
+import { StartSession } from '../../src/model/StartSession';
+import { TokenType } from '../../src/model/TokenType';
+import { EvseSelectionService } from '../../src/services/EvseSelectionService';
+import {
+  EvseCandidate,
+  EvseSelectionContext,
+  FirstAvailableEvseSelectionPolicy,
+  PreferredEvseSelectionPolicy,
+} from '../../src/util/evseSelection';
+
+const LAST_UPDATED = '2025-01-15T10:00:00Z';
+
+function connector(
+  id: string,
+  standard: ConnectorType,
+  powerType: PowerType,
+  maxElectricPower: number,
+): ConnectorDTO {
+  return {
+    id,
+    standard,
+    format: ConnectorFormat.SOCKET,
+    power_type: powerType,
+    max_voltage: 400,
+    max_amperage: 32,
+    max_electric_power: maxElectricPower,
+    last_updated: LAST_UPDATED,
+  };
+}
+
+const AC = connector(
+  '1',
+  ConnectorType.IEC_62196_T2,
+  PowerType.AC_3_PHASE,
+  22000,
+);
+const DC = connector(
+  '1',
+  ConnectorType.IEC_62196_T2_COMBO,
+  PowerType.DC,
+  150000,
+);
+
+function candidate(
+  uid: string,
+  status: EvseStatus,
+  connectors: ConnectorDTO[],
+): EvseCandidate {
+  return {
+    chargingStation: { id: uid.split('-')[0] } as IChargingStationDto,
+    evse: { uid, status, connectors, last_updated: LAST_UPDATED },
+  };
+}
+
+const tenantPartner = {
+  id: 7,
+  countryCode: 'NL',
+  partyId: 'EMS',
+  tenant: { id: 1 },
+} as ITenantPartnerDto;
+
+const startSession = {
+  response_url: 'https://emsp.example.com/commands/START_SESSION/1',
+  token: {
+    country_code: 'NL',
+    party_id: 'EMS',
+    uid: '012345678',
+    type: TokenType.RFID,
+  },
+  location_id: '1',
+} as StartSession;
+
+function context(
+  tokenHistory: EvseSelectionContext['tokenHistory'] = [],
+): EvseSelectionContext {
+  return { startSession, tenantPartner, tokenHistory };
+}
+
+describe('FirstAvailableEvseSelectionPolicy', () => {
+  const policy = new FirstAvailableEvseSelectionPolicy();
+
+  it('picks the first AVAILABLE EVSE in location order', () => {
+    const selection = policy.selectEvse([
+      candidate('CS1-1', EvseStatus.UNKNOWN, [AC]),
+      candidate('CS1-2', EvseStatus.AVAILABLE, [DC]),
+      candidate('CS1-3', EvseStatus.AVAILABLE, [AC]),
+    ]);
+
+    expect(selection?.evse.uid).toBe('CS1-2');
+    expect(selection?.connector).toBe(DC);
+  });
+
+  it('falls back to the first EVSE when none is AVAILABLE', () => {
+    const selection = policy.selectEvse([
+      candidate('CS1-1', EvseStatus.UNKNOWN, [AC]),
+      candidate('CS1-2', EvseStatus.UNKNOWN, [DC]),
+    ]);
+
+    expect(selection?.evse.uid).toBe('CS1-1');
+  });
+});
+
+describe('PreferredEvseSelectionPolicy', () => {
+  const policy = new PreferredEvseSelectionPolicy();
+
+  it('prefers an AVAILABLE EVSE over a more powerful one of unknown status', () => {
+    const selection = policy.selectEvse(
+      [
+        candidate('CS1-1', EvseStatus.UNKNOWN, [DC]),
+        candidate('CS1-2', EvseStatus.AVAILABLE, [AC]),
+      ],
+      context(),
+    );
+
+    expect(selection?.evse.uid).toBe('CS1-2');
+  });
+
+  it('prefers the connector type the token charged with before', () => {
+    const selection = policy.selectEvse(
+      [
+        candidate('CS1-1', EvseStatus.AVAILABLE, [DC]),
+        candidate('CS1-2', EvseStatus.AVAILABLE, [AC]),
+      ],
+      context([
+        {
+          standard: ConnectorType.IEC_62196_T2,
+          power_type: PowerType.AC_3_PHASE,
+        },
+      ]),
+    );
+
+    expect(selection?.evse.uid).toBe('CS1-2');
+  });
+
+  it('picks the most powerful connector and keeps the location order on ties', () => {
+    const candidates = [
+      candidate('CS1-1', EvseStatus.AVAILABLE, [AC]),
+      candidate('CS1-2', EvseStatus.AVAILABLE, [AC, DC]),
+      candidate('CS1-3', EvseStatus.AVAILABLE, [DC]),
+    ];
+
+    const selection = policy.selectEvse(candidates, context());
+
+    expect(selection?.evse.uid).toBe('CS1-2');
+    expect(selection?.connector).toBe(DC);
+  });
+});
+
+describe('EvseSelectionService', () => {
+  it('only selects EVSEs of locations published to the partner', async () => {
+    const request = jest.fn().mockResolvedValue({ Locations: [] });
+    const evseSelectionService = new EvseSelectionService(
+      new Logger<ILogObj>({ type: 'hidden' }),
+      { commands: {} } as OcpiConfig,
+      { request } as unknown as OcpiGraphqlClient,
+      [new PreferredEvseSelectionPolicy()],
+    );
+
+    await expect(
+      evseSelectionService.selectEvse(startSession, tenantPartner),
+    ).resolves.toBeUndefined();
+    expect(request).toHaveBeenCalledTimes(1);
+    expect(request.mock.calls[0][1].where).toEqual({
+      id: { _eq: 1 },
+      Tenant: { TenantPartners: { id: { _eq: 7 } } },
+      _or: [
+        { TenantPartnerLocations: { tenantPartnerId: { _eq: 7 } } },
+        {
+          Tenant: {
+            TenantPartners: {
+              id: { _eq: 7 },
+              publishAllLocations: { _eq: true },
+            },
+          },
+        },
+      ],
+    });
+  });
+});
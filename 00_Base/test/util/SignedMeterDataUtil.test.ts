@@ -0,0 +1,239 @@
+// SPDX-FileCopyrightText: 2025 Contributors to the CitrineOS Project
+//
+// SPDX-License-Identifier: Apache-2.0
+
+import { IMeterValueDto, OCPP1_6, OCPP2_0_1 } from '@citrineos/base';
+import {
+  EDL_ENCODING_METHOD,
+  OCMF_ENCODING_METHOD,
+  SignedDataTransfer,
+  SignedMeterDataUtil,
+  SignedValueNature,
+} from '../../src/util/SignedMeterDataUtil';
+
+function ocmf(context: 'B' | 'E', kwh: number): string {
+  const reading = {
+    FV: '1.0',
+    GI: 'ABL SBC-301',
+    GS: '808829900001',
+    PG: 'T1',
+    MV: 'Phoenix Contact',
+    MS: 'BQ27400330016',
+    IS: true,
+    IT: 'ISO14443',
+    ID: '1F2D3A4F5506C7',
+    RD: [
+      {
+        TM: '2025-01-15T10:00:00,000+0000 S',
+        TX: context,
+        RV: kwh,
+        RI: '1-b:1.8.0',
+        RU: 'kWh',
+        RT: 'AC',
+        ST: 'G',
+      },
+    ],
+  };
+  return `OCMF|${JSON.stringify(reading)}|{"SA":"ECDSA-secp256r1-SHA256","SD":"3045022100${context}"}`;
+}
+
+const EDL_SIGNED_DATA =
+  '0901454D480001A0A6E6070000000000000000000000000000000000000000000000000000';
+const EDL_PUBLIC_KEY =
+  '3059301306072A8648CE3D020106082A8648CE3D03010703420004B3AF2A';
+
+function meterValue(
+  timestamp: string,
+  sampledValue: IMeterValueDto['sampledValue'],
+): IMeterValueDto {
+  return { timestamp, sampledValue } as IMeterValueDto;
+}
+
+function dataTransfer(timestamp: string, data: string): SignedDataTransfer {
+  return {
+    timestamp,
+    request: { vendorId: 'generalConfiguration', messageId: 'OCMF', data },
+  };
+}
+
+describe('SignedMeterDataUtil', () => {
+  it('reads base64 encoded OCMF from OCPP 2.0.1 signed meter values', () => {
+    const signedMeterValue = (data: string) => ({
+      signedMeterData: Buffer.from(data).toString('base64'),
+      signingMethod: 'ECDSA-secp256r1-SHA256',
+      encodingMethod: 'OCMF',
+      publicKey: '',
+    });
+    const transaction = {
+      transactionId: 'T1',
+      meterValues: [
+        meterValue('2025-01-15T11:00:00Z', [
+          {
+            value: 12.5,
+            context: OCPP2_0_1.ReadingContextEnumType.Transaction_End,
+            unitOfMeasure: { unit: 'kWh' },
+            signedMeterValue: signedMeterValue(ocmf('E', 12.5)),
+          },
+        ]),
+        meterValue('2025-01-15T10:00:00Z', [
+          {
+            value: 0,
+            context: OCPP2_0_1.ReadingContextEnumType.Transaction_Begin,
+            unitOfMeasure: { unit: 'kWh' },
+            signedMeterValue: signedMeterValue(ocmf('B', 0)),
+          },
+        ]),
+      ],
+    };
+
+    const signedData = SignedMeterDataUtil.getSignedData(
+      transaction,
+      [],
+      'https://transparency.example.com',
+    );
+
+    expect(signedData).toEqual({
+      encoding_method: OCMF_ENCODING_METHOD,
+      public_key: undefined,
+      signed_values: [
+        {
+          nature: SignedValueNature.Start,
+          plain_data: '0 kWh',
+          signed_data: ocmf('B', 0),
+        },
+        {
+          nature: SignedValueNature.End,
+          plain_data: '12.5 kWh',
+          signed_data: ocmf('E', 12.5),
+        },
+      ],
+      url: 'https://transparency.example.com',
+    });
+  });
+
+  it('reads OCPP 1.6 SignedData sampled values in the EDL format', () => {
+    const transaction = {
+      transactionId: '42',
+      meterValues: [
+        meterValue('2025-01-15T10:00:00Z', [
+          {
+            value: '0.000',
+            unit: OCPP1_6.MeterValuesRequestUnit.kWh,
+          },
+          {
+            value: JSON.stringify({
+              signedMeterData: EDL_SIGNED_DATA,
+              encodingMethod: 'EDL40 Mennekes',
+              publicKey: EDL_PUBLIC_KEY,
+            }),
+            context: OCPP1_6.MeterValuesRequestContext.Transaction_Begin,
+            format: OCPP1_6.MeterValuesRequestFormat.SignedData,
+          },
+        ]),
+      ],
+    };
+
+    expect(SignedMeterDataUtil.getSignedData(transaction)).toEqual({
+      encoding_method: EDL_ENCODING_METHOD,
+      public_key: EDL_PUBLIC_KEY,
+      signed_values: [
+        {
+          nature: SignedValueNature.Start,
+          plain_data: '',
+          signed_data: EDL_SIGNED_DATA,
+        },
+      ],
+      url: undefined,
+    });
+  });
+
+  it('reads OCPP 1.6 DataTransfer payloads of the transaction', () => {
+    const signedData = SignedMeterDataUtil.getSignedData(
+      { transactionId: '42', meterValues: [] },
+      [
+        dataTransfer(
+          '2025-01-15T10:00:01Z',
+          JSON.stringify({ transactionId: 42, signedMeterData: ocmf('B', 0) }),
+        ),
+        dataTransfer(
+          '2025-01-15T10:30:00Z',
+          JSON.stringify({ transactionId: 41, signedMeterData: ocmf('E', 7) }),
+        ),
+        dataTransfer('2025-01-15T10:45:00Z', 'firmware=1.2.3'),
+        dataTransfer(
+          '2025-01-15T11:00:01Z',
+          JSON.stringify({
+            transactionId: '42',
+            signedMeterData: ocmf('E', 20.25),
+          }),
+        ),
+      ],
+    );
+
+    expect(signedData?.encoding_method).toBe(OCMF_ENCODING_METHOD);
+    expect(signedData?.signed_values).toEqual([
+      {
+        nature: SignedValueNature.Start,
+        plain_data: '0 kWh',
+        signed_data: ocmf('B', 0),
+      },
+      {
+        nature: SignedValueNature.End,
+        plain_data: '20.25 kWh',
+        signed_data: ocmf('E', 20.25),
+      },
+    ]);
+  });
+
+  it('keeps a reading repeated in meter values and a DataTransfer once', () => {
+    const transaction = {
+      transactionId: '42',
+      meterValues: [
+        meterValue('2025-01-15T10:00:00Z', [
+          {
+            value: ocmf('B', 0),
+            format: OCPP1_6.MeterValuesRequestFormat.SignedData,
+          },
+        ]),
+      ],
+    };
+
+    const signedData = SignedMeterDataUtil.getSignedData(transaction, [
+      dataTransfer(
+        '2025-01-15T10:00:01Z',
+        JSON.stringify({ transactionId: 42, signedMeterData: ocmf('B', 0) }),
+      ),
+    ]);
+
+    expect(signedData?.signed_values).toHaveLength(1);
+  });
+
+  it('skips DataTransfer payloads that do not name the transaction', () => {
+    // The station may charge another transaction on its other connector in the same window
+    const signedData = SignedMeterDataUtil.getSignedData(
+      { transactionId: '42', meterValues: [] },
+      [
+        dataTransfer('2025-01-15T10:10:00Z', ocmf('B', 3)),
+        dataTransfer(
+          '2025-01-15T10:40:00Z',
+          JSON.stringify({ signedMeterData: ocmf('E', 9) }),
+        ),
+      ],
+    );
+
+    expect(signedData).toBeUndefined();
+  });
+
+  it('returns undefined without signed readings', () => {
+    expect(
+      SignedMeterDataUtil.getSignedData({
+        transactionId: '42',
+        meterValues: [
+          meterValue('2025-01-15T10:00:00Z', [
+            { value: 5, unitOfMeasure: { unit: 'kWh' } },
+          ]),
+        ],
+      }),
+    ).toBeUndefined();
+  });
+});
@@ -0,0 +1,318 @@
+// SPDX-FileCopyrightText: 2025 Contributors to the CitrineOS Project
+//
+// SPDX-License-Identifier: Apache-2.0
+
+import { CdrDimensionType } from '../../src/model/CdrDimensionType';
+import { ChargingPeriod } from '../../src/model/ChargingPeriod';
+import { DayOfWeek } from '../../src/model/DayOfWeek';
+import { ReservationRestrictionType } from '../../src/model/ReservationRestrictionType';
+import { TariffDimensionType } from '../../src/model/TariffDimensionType';
+import { TariffElement } from '../../src/model/TariffElement';
+import { TariffRestrictions } from '../../src/model/TariffRestrictions';
+import {
+  PricedTariff,
+  PricingInput,
+  TariffPricingEngine,
+} from '../../src/util/TariffPricingEngine';
+
+function element(
+  type: TariffDimensionType,
+  price: number,
+  options: {
+    vat?: number;
+    stepSize?: number;
+    restrictions?: TariffRestrictions;
+  } = {},
+): TariffElement {
+  return {
+    price_components: [
+      { type, price, vat: options.vat, step_size: options.stepSize ?? 1 },
+    ],
+    restrictions: options.restrictions,
+  };
+}
+
+function energyPeriod(start: string, kwh: number): ChargingPeriod {
+  return {
+    start_date_time: start,
+    dimensions: [{ type: CdrDimensionType.ENERGY, volume: kwh }],
+  };
+}
+
+function price(
+  tariff: PricedTariff | TariffElement[],
+  input: Partial<PricingInput>,
+) {
+  return TariffPricingEngine.price({
+    tariff: Array.isArray(tariff) ? { elements: tariff } : tariff,
+    chargingPeriods: [],
+    startDateTime: '2025-01-15T10:00:00Z',
+    endDateTime: '2025-01-15T11:00:00Z',
+    totalEnergy: 0,
+    ...input,
+  });
+}
+
+describe('TariffPricingEngine', () => {
+  describe('step_size', () => {
+    it('rounds the billed energy up to the step size and applies VAT as a percentage', () => {
+      const result = price(
+        [
+          element(TariffDimensionType.ENERGY, 0.25, {
+            vat: 10,
+            stepSize: 1000,
+          }),
+        ],
+        { totalEnergy: 10.2 },
+      );
+
+      expect(result.total_energy_cost).toEqual({
+        excl_vat: 2.75,
+        incl_vat: 3.025,
+      });
+      expect(result.total_cost).toEqual({ excl_vat: 2.75, incl_vat: 3.025 });
+    });
+
+    it('rounds the billed charging time up to the step size', () => {
+      const result = price(
+        [element(TariffDimensionType.TIME, 2, { stepSize: 300 })],
+        {
+          chargingPeriods: [energyPeriod('2025-01-15T10:00:00Z', 5)],
+          endDateTime: '2025-01-15T11:02:00Z',
+        },
+      );
+
+      // 62 minutes are billed as 65 minutes
+      expect(result.total_time_cost?.excl_vat).toBe(2.1667);
+    });
+
+    it('only rounds the volume of the component that is active last', () => {
+      const result = price(
+        [
+          element(TariffDimensionType.ENERGY, 0.3, {
+            stepSize: 1000,
+            restrictions: { max_kwh: 10.5 },
+          }),
+          element(TariffDimensionType.ENERGY, 0.2, { stepSize: 1000 }),
+        ],
+        { chargingPeriods: [energyPeriod('2025-01-15T10:00:00Z', 20.2)] },
+      );
+
+      // 10.5 kWh exactly at 0.30, the remaining 9.7 kWh rounded up to 10 kWh at 0.20
+      expect(result.total_energy_cost?.excl_vat).toBe(5.15);
+    });
+  });
+
+  describe('parking time', () => {
+    it('bills periods without energy as parking time', () => {
+      const result = price(
+        [
+          {
+            price_components: [
+              { type: TariffDimensionType.ENERGY, price: 0.3, step_size: 1 },
+              {
+                type: TariffDimensionType.PARKING_TIME,
+                price: 5,
+                step_size: 1,
+              },
+            ],
+          },
+        ],
+        {
+          chargingPeriods: [
+            energyPeriod('2025-01-15T10:00:00Z', 10),
+            energyPeriod('2025-01-15T11:00:00Z', 0),
+          ],
+          endDateTime: '2025-01-15T12:30:00Z',
+        },
+      );
+
+      expect(result.total_parking_time).toBe(1.5);
+      expect(result.total_parking_cost?.excl_vat).toBe(7.5);
+      expect(result.total_energy_cost?.excl_vat).toBe(3);
+      expect(result.total_cost.excl_vat).toBe(10.5);
+    });
+
+    it('uses the PARKING_TIME dimension of a period', () => {
+      const result = price([element(TariffDimensionType.PARKING_TIME, 4)], {
+        chargingPeriods: [
+          {
+            start_date_time: '2025-01-15T10:00:00Z',
+            dimensions: [
+              { type: CdrDimensionType.ENERGY, volume: 8 },
+              { type: CdrDimensionType.PARKING_TIME, volume: 0.25 },
+            ],
+          },
+        ],
+      });
+
+      expect(result.total_parking_time).toBe(0.25);
+      expect(result.total_parking_cost?.excl_vat).toBe(1);
+    });
+  });
+
+  describe('min_price and max_price', () => {
+    it('raises the total to min_price', () => {
+      const result = price(
+        {
+          elements: [element(TariffDimensionType.FLAT, 0.5, { vat: 21 })],
+          min_price: { excl_vat: 2, incl_vat: 2.42 },
+        },
+        { totalEnergy: 1 },
+      );
+
+      expect(result.total_fixed_cost).toEqual({
+        excl_vat: 0.5,
+        incl_vat: 0.605,
+      });
+      expect(result.total_cost).toEqual({ excl_vat: 2, incl_vat: 2.42 });
+    });
+
+    it('caps the total at max_price using the VAT of the computed total', () => {
+      const result = price(
+        {
+          elements: [element(TariffDimensionType.ENERGY, 1, { vat: 20 })],
+          max_price: { excl_vat: 20 },
+        },
+        { totalEnergy: 50 },
+      );
+
+      expect(result.total_energy_cost).toEqual({ excl_vat: 50, incl_vat: 60 });
+      expect(result.total_cost).toEqual({ excl_vat: 20, incl_vat: 24 });
+    });
+  });
+
+  describe('restrictions', () => {
+    const peakOffPeak = [
+      element(TariffDimensionType.ENERGY, 0.4, {
+        restrictions: { start_time: '17:00', end_time: '21:00' },
+      }),
+      element(TariffDimensionType.ENERGY, 0.2),
+    ];
+
+    it('splits a session without charging periods at the start of the peak', () => {
+      const result = price(peakOffPeak, {
+        startDateTime: '2025-01-15T16:00:00Z',
+        endDateTime: '2025-01-15T18:00:00Z',
+        totalEnergy: 20,
+      });
+
+      // 10 kWh off-peak at 0.20 and 10 kWh peak at 0.40
+      expect(result.total_energy_cost?.excl_vat).toBe(6);
+    });
+
+    it('splits a charging period at the end of the peak', () => {
+      const result = price(peakOffPeak, {
+        startDateTime: '2025-01-15T20:00:00Z',
+        endDateTime: '2025-01-15T22:00:00Z',
+        chargingPeriods: [energyPeriod('2025-01-15T20:00:00Z', 20)],
+      });
+
+      expect(result.total_energy_cost?.excl_vat).toBe(6);
+    });
+
+    it('evaluates the time of day in the time zone of the location', () => {
+      const result = price(peakOffPeak, {
+        // 16:00 - 18:00 in Amsterdam (UTC+1 in winter)
+        startDateTime: '2025-01-15T15:00:00Z',
+        endDateTime: '2025-01-15T17:00:00Z',
+        totalEnergy: 20,
+        timeZone: 'Europe/Amsterdam',
+      });
+
+      expect(result.total_energy_cost?.excl_vat).toBe(6);
+    });
+
+    it('finds the start of a restriction across a change to daylight saving time', () => {
+      const result = price(
+        [
+          element(TariffDimensionType.ENERGY, 0.4, {
+            restrictions: { start_time: '03:30', end_time: '06:00' },
+          }),
+          element(TariffDimensionType.ENERGY, 0.2),
+        ],
+        {
+          // 01:00 CET - 04:00 CEST, the clocks move from 02:00 to 03:00
+          startDateTime: '2025-03-30T00:00:00Z',
+          endDateTime: '2025-03-30T02:00:00Z',
+          totalEnergy: 20,
+          timeZone: 'Europe/Amsterdam',
+        },
+      );
+
+      // 03:30 CEST is 01:30 UTC: 15 kWh at 0.20 and 5 kWh at 0.40
+      expect(result.total_energy_cost?.excl_vat).toBe(5);
+    });
+
+    it('splits a charging period once max_kwh has been charged', () => {
+      const result = price(
+        [
+          element(TariffDimensionType.ENERGY, 0.3, {
+            restrictions: { max_kwh: 10 },
+          }),
+          element(TariffDimensionType.ENERGY, 0.2),
+        ],
+        {
+          endDateTime: '2025-01-15T13:00:00Z',
+          chargingPeriods: [energyPeriod('2025-01-15T10:00:00Z', 30)],
+        },
+      );
+
+      expect(result.total_energy_cost?.excl_vat).toBe(7);
+    });
+
+    it('splits at max_duration', () => {
+      const result = price(
+        [
+          element(TariffDimensionType.TIME, 1, {
+            restrictions: { max_duration: 1800 },
+          }),
+          element(TariffDimensionType.TIME, 3),
+        ],
+        { chargingPeriods: [energyPeriod('2025-01-15T10:00:00Z', 5)] },
+      );
+
+      expect(result.total_time_cost?.excl_vat).toBe(2);
+    });
+
+    it('splits at midnight for day_of_week restrictions', () => {
+      const result = price(
+        [
+          element(TariffDimensionType.ENERGY, 0.5, {
+            restrictions: {
+              day_of_week: [DayOfWeek.SATURDAY, DayOfWeek.SUNDAY],
+            },
+          }),
+          element(TariffDimensionType.ENERGY, 0.25),
+        ],
+        {
+          // Friday 23:00 to Saturday 01:00
+          startDateTime: '2025-01-17T23:00:00Z',
+          endDateTime: '2025-01-18T01:00:00Z',
+          totalEnergy: 4,
+        },
+      );
+
+      expect(result.total_energy_cost?.excl_vat).toBe(1.5);
+    });
+
+    it('does not apply elements restricted to reservations', () => {
+      const result = price(
+        [
+          {
+            price_components: [
+              { type: TariffDimensionType.ENERGY, price: 9, step_size: 1 },
+            ],
+            restrictions: {
+              reservation: ReservationRestrictionType.RESERVATION,
+            },
+          },
+          element(TariffDimensionType.ENERGY, 0.2),
+        ],
+        { totalEnergy: 10 },
+      );
+
+      expect(result.total_energy_cost?.excl_vat).toBe(2);
+    });
+  });
+});
@@ -0,0 +1,122 @@
+// SPDX-FileCopyrightText: 2025 Contributors to the CitrineOS Project
+//
+// SPDX-License-Identifier: Apache-2.0
+
+import { HttpStatus } from '@citrineos/base';
+import { ILogObj, Logger } from 'tslog';
+import Container from 'typedi';
+import { OcpiResponseStatusCode } from '../../../src/model/OcpiResponse';
+import {
+  TenantPartnerTokenResolver,
+  TokenTenantPartner,
+} from '../../../src/services/TenantPartnerTokenResolver';
+import { AuthMiddleware } from '../../../src/util/middleware/AuthMiddleware';
+
+const TOKEN = 'ebf3b399-779f-4497-9b9d-ac6ad3cc44d2';
+
+const hubPartner = {
+  id: 7,
+  countryCode: 'DE',
+  partyId: 'HUB',
+  tenantId: 1,
+  partnerProfileOCPI: {
+    endpoints: [{ identifier: 'sessions_RECEIVER' }],
+  },
+  tenant: { id: 1, countryCode: 'NL', partyId: 'CPO' },
+} as unknown as TokenTenantPartner;
+
+function createContext(
+  path: string,
+  routingHeaders: Record<string, string> = {},
+): any {
+  const headers = { authorization: `Token ${TOKEN}`, ...routingHeaders };
+  return {
+    request: { headers, originalUrl: path, path, method: 'GET', url: path },
+    req: { headers },
+    state: {},
+  };
+}
+
+function routingHeaders(fromCountryCode: string, fromPartyId: string) {
+  return {
+    'ocpi-from-country-code': fromCountryCode,
+    'ocpi-from-party-id': fromPartyId,
+    'ocpi-to-country-code': 'NL',
+    'ocpi-to-party-id': 'CPO',
+  };
+}
+
+describe('AuthMiddleware', () => {
+  let getConnectedHubClients: jest.Mock;
+  let next: jest.Mock;
+  let authMiddleware: AuthMiddleware;
+
+  beforeAll(() => {
+    Container.set(Logger, new Logger<ILogObj>({ type: 'hidden' }));
+  });
+
+  beforeEach(() => {
+    getConnectedHubClients = jest
+      .fn()
+      .mockResolvedValue([{ countryCode: 'FR', partyId: 'EMS' }]);
+    next = jest.fn().mockResolvedValue(undefined);
+    authMiddleware = new AuthMiddleware({
+      resolveAll: jest.fn().mockResolvedValue([hubPartner]),
+      getConnectedHubClients,
+    } as unknown as TenantPartnerTokenResolver);
+  });
+
+  const statusCode = (context: any) => JSON.parse(context.body).status_code;
+
+  it('accepts a request sent by the partner of the token', async () => {
+    const context = createContext(
+      '/ocpi/2.2.1/sessions',
+      routingHeaders('DE', 'HUB'),
+    );
+
+    await authMiddleware.use(context, next);
+
+    expect(next).toHaveBeenCalled();
+    expect(context.state.tenantPartner).toBe(hubPartner);
+    expect(getConnectedHubClients).not.toHaveBeenCalled();
+  });
+
+  it('accepts a request a hub forwards for a connected party', async () => {
+    const context = createContext(
+      '/ocpi/2.2.1/sessions',
+      routingHeaders('FR', 'EMS'),
+    );
+
+    await authMiddleware.use(context, next);
+
+    expect(next).toHaveBeenCalled();
+    expect(context.state.tenantPartner).toBe(hubPartner);
+    expect(getConnectedHubClients).toHaveBeenCalledWith(hubPartner.id);
+  });
+
+  it('rejects a sender that is neither the partner nor connected to it', async () => {
+    const context = createContext(
+      '/ocpi/2.2.1/sessions',
+      routingHeaders('BE', 'SPF'),
+    );
+
+    await authMiddleware.use(context, next);
+
+    expect(next).not.toHaveBeenCalled();
+    expect(context.status).toBe(HttpStatus.UNAUTHORIZED);
+    expect(statusCode(context)).toBe(OcpiResponseStatusCode.ClientUnknownToken);
+  });
+
+  it('rejects a module the partner did not register', async () => {
+    const context = createContext(
+      '/ocpi/2.2.1/tokens',
+      routingHeaders('DE', 'HUB'),
+    );
+
+    await authMiddleware.use(context, next);
+
+    expect(next).not.toHaveBeenCalled();
+    expect(context.status).toBe(HttpStatus.FORBIDDEN);
+    expect(statusCode(context)).toBe(OcpiResponseStatusCode.ClientGenericError);
+  });
+});
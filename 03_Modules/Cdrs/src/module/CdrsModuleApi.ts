@@ -6,21 +6,29 @@ import { ICdrsModuleApi } from './ICdrsModuleApi';
 
 import { HttpStatus, ITenantPartnerDto } from '@citrineos/base';
 import {
+  AsAdminEndpoint,
   AsOcpiFunctionalEndpoint,
   BaseController,
+  Cdr,
+  CdrResponse,
+  CdrResponseSchema,
+  CdrResponseSchemaName,
   CdrsService,
+  generateMockForSchema,
   generateMockOcpiPaginatedResponse,
   ModuleId,
-  OcpiResponseStatusCode,
   Paginated,
   PaginatedCdrResponse,
   PaginatedCdrResponseSchema,
   PaginatedCdrResponseSchemaName,
   PaginatedParams,
   ResponseSchema,
+  VersionNumber,
+  VersionNumberParam,
+  VersionedResponse,
   versionIdParam,
 } from '@citrineos/ocpi-base';
-import { Ctx, Get, JsonController } from 'routing-controllers';
+import { Ctx, Get, JsonController, Param, Post } from 'routing-controllers';
 
 import { Service } from 'typedi';
 
@@ -39,6 +47,7 @@ export class CdrsModuleApi extends BaseController implements ICdrsModuleApi {
 
   @Get()
   @AsOcpiFunctionalEndpoint()
+  @VersionedResponse(ModuleId.Cdrs)
   @ResponseSchema(PaginatedCdrResponseSchema, PaginatedCdrResponseSchemaName, {
     statusCode: HttpStatus.OK,
     description: 'Successful response',
@@ -51,23 +60,43 @@ export class CdrsModuleApi extends BaseController implements ICdrsModuleApi {
     @Paginated() paginationParams?: PaginatedParams,
   ): Promise<PaginatedCdrResponse> {
     const tenantPartner = ctx!.state!.tenantPartner as ITenantPartnerDto;
-    const cdrs = await this.cdrsService.getCdrs(
-      tenantPartner.countryCode!,
-      tenantPartner.partyId!,
-      tenantPartner.tenant!.countryCode!,
-      tenantPartner.tenant!.partyId!,
+    return this.cdrsService.getCdrs(
+      tenantPartner,
       paginationParams?.dateFrom,
       paginationParams?.dateTo,
       paginationParams?.offset,
       paginationParams?.limit,
     );
+  }
 
-    // TODO: need to append to header
+  @Get('/:cdr_id')
+  @AsOcpiFunctionalEndpoint()
+  @VersionedResponse(ModuleId.Cdrs)
+  @ResponseSchema(CdrResponseSchema, CdrResponseSchemaName, {
+    statusCode: HttpStatus.OK,
+    description: 'Successful response',
+    examples: {
+      success: generateMockForSchema(CdrResponseSchema, CdrResponseSchemaName),
+    },
+  })
+  async getCdrById(
+    @Ctx() ctx: any,
+    @Param('cdr_id') cdrId: string,
+  ): Promise<CdrResponse> {
+    const tenantPartner = ctx!.state!.tenantPartner as ITenantPartnerDto;
+    return this.cdrsService.getCdrById(cdrId, tenantPartner);
+  }
 
-    return {
-      timestamp: new Date().toISOString(),
-      status_code: OcpiResponseStatusCode.GenericSuccessCode,
-      ...cdrs,
-    };
+  /**
+   * Admin Endpoints
+   **/
+  @Post('/reissue/:transactionId')
+  @AsAdminEndpoint()
+  async reissueCdr(
+    @VersionNumberParam() _version: VersionNumber,
+    @Param('transactionId') transactionId: number,
+  ): Promise<{ creditCdr: Cdr; cdr: Cdr }> {
+    this.logger.info('reissueCdr', transactionId);
+    return this.cdrsService.reissueCdr(transactionId);
   }
 }
@@ -5,15 +5,18 @@
 import { IChargingProfilesModuleApi } from './IChargingProfilesModuleApi';
 
 import {
+  Body,
+  Ctx,
   Delete,
   Get,
   JsonController,
   Param,
+  Post,
   Put,
   QueryParam,
 } from 'routing-controllers';
 
-import { HttpStatus } from '@citrineos/base';
+import { HttpStatus, ITenantPartnerDto, OCPPVersion } from '@citrineos/base';
 import {
   AsOcpiFunctionalEndpoint,
   BaseController,
@@ -21,7 +24,9 @@ import {
   ChargingProfileResponse,
   ChargingProfileResponseSchema,
   ChargingProfileResponseSchemaName,
+  ChargingProfilesCommandType,
   ChargingProfilesService,
+  CommandExecutor,
   generateMockForSchema,
   ModuleId,
   ResponseSchema,
@@ -31,7 +36,7 @@ import {
   versionIdParam,
 } from '@citrineos/ocpi-base';
 
-import { Service } from 'typedi';
+import { Inject, Service } from 'typedi';
 
 @JsonController(`/:${versionIdParam}/${ModuleId.ChargingProfiles}`)
 @Service()
@@ -39,6 +44,9 @@ export class ChargingProfilesModuleApi
   extends BaseController
   implements IChargingProfilesModuleApi
 {
+  @Inject()
+  private commandExecutor!: CommandExecutor;
+
   constructor(readonly service: ChargingProfilesService) {
     super();
   }
@@ -63,11 +71,14 @@ export class ChargingProfilesModuleApi
     @Param('sessionId') sessionId: string,
     @QueryParam('duration', { required: true }) duration: number,
     @QueryParam('response_url', { required: true }) responseUrl: string,
+    @Ctx() ctx: any,
   ): Promise<ChargingProfileResponse> {
+    const tenantPartner = ctx.state.tenantPartner as ITenantPartnerDto;
     return this.service.getActiveChargingProfile(
       sessionId,
       duration,
       responseUrl,
+      tenantPartner,
     );
   }
 
@@ -90,8 +101,14 @@ export class ChargingProfilesModuleApi
   async deleteChargingProfile(
     @Param('sessionId') sessionId: string,
     @QueryParam('response_url', { required: true }) responseUrl: string,
+    @Ctx() ctx: any,
   ): Promise<ChargingProfileResponse> {
-    return this.service.deleteChargingProfile(sessionId, responseUrl);
+    const tenantPartner = ctx.state.tenantPartner as ITenantPartnerDto;
+    return this.service.deleteChargingProfile(
+      sessionId,
+      responseUrl,
+      tenantPartner,
+    );
   }
 
   @Put('/:sessionId')
@@ -114,7 +131,33 @@ export class ChargingProfilesModuleApi
     @Param('sessionId') sessionId: string,
     @BodyWithSchema(SetChargingProfileSchema, SetChargingProfileSchemaName)
     payload: SetChargingProfile,
+    @Ctx() ctx: any,
   ): Promise<ChargingProfileResponse> {
-    return this.service.putChargingProfile(sessionId, payload);
+    const tenantPartner = ctx.state.tenantPartner as ITenantPartnerDto;
+    return this.service.putChargingProfile(sessionId, payload, tenantPartner);
+  }
+
+  @Post('/callback/:tenantPartnerId/:ocppVersion/:command/:commandId')
+  async postAsynchronousResponse(
+    @Param('tenantPartnerId') tenantPartnerId: number,
+    @Param('ocppVersion') ocppVersion: OCPPVersion,
+    @Param('command') command: ChargingProfilesCommandType,
+    @Param('commandId') commandId: string,
+    @Body() response: any,
+  ): Promise<void> {
+    this.logger.debug('postAsynchronousResponse', {
+      tenantPartnerId,
+      ocppVersion,
+      command,
+      commandId,
+      response,
+    });
+    await this.commandExecutor.handleAsyncCommandResponse(
+      tenantPartnerId,
+      ocppVersion,
+      command,
+      commandId,
+      response,
+    );
   }
 }
@@ -3,7 +3,15 @@
 // SPDX-License-Identifier: Apache-2.0
 
 import { ICommandsModuleApi } from './ICommandsModuleApi';
-import { Body, Ctx, JsonController, Param, Post } from 'routing-controllers';
+import {
+  Body,
+  Ctx,
+  Get,
+  JsonController,
+  Param,
+  Post,
+  QueryParam,
+} from 'routing-controllers';
 import { HttpStatus, ITenantPartnerDto, OCPPVersion } from '@citrineos/base';
 import {
   AsAdminEndpoint,
@@ -13,6 +21,7 @@ import {
   CancelReservationSchema,
   CancelReservationSchemaName,
   CommandExecutor,
+  CommandLedgerService,
   CommandResponseSchema,
   CommandResponseSchemaName,
   CommandsService,
@@ -21,7 +30,13 @@ import {
   generateMockForSchema,
   ModuleId,
   MultipleTypes,
+  OcpiCommand,
+  OcpiCommandListResponse,
+  OcpiCommandListResponseSchema,
+  OcpiCommandListResponseSchemaName,
   OcpiCommandResponse,
+  OcpiCommandSchema,
+  OcpiCommandSchemaName,
   ReserveNow,
   ReserveNowSchema,
   ReserveNowSchemaName,
@@ -37,6 +52,8 @@ import {
   UnlockConnectorSchema,
   UnlockConnectorSchemaName,
   versionIdParam,
+  VersionNumber,
+  VersionNumberParam,
 } from '@citrineos/ocpi-base';
 import { Inject, Service } from 'typedi';
 
@@ -49,7 +66,10 @@ export class CommandsModuleApi
   @Inject()
   private commandsExecutor!: CommandExecutor;
 
-  constructor(readonly commandsService: CommandsService) {
+  constructor(
+    readonly commandsService: CommandsService,
+    readonly commandLedgerService: CommandLedgerService,
+  ) {
     super();
   }
 
@@ -157,4 +177,59 @@ export class CommandsModuleApi
       response,
     );
   }
+
+  /**
+   * Admin Endpoints
+   **/
+
+  /**
+   * Command ledger: state transitions and result delivery of the commands sent to charging
+   * stations, by command id or by session.
+   */
+  @Get('/ledger')
+  @AsAdminEndpoint()
+  @ResponseSchema(
+    OcpiCommandListResponseSchema,
+    OcpiCommandListResponseSchemaName,
+    {
+      statusCode: HttpStatus.OK,
+      description: 'Successful response',
+      examples: {
+        success: generateMockForSchema(
+          OcpiCommandListResponseSchema,
+          OcpiCommandListResponseSchemaName,
+        ),
+      },
+    },
+  )
+  async getCommands(
+    @VersionNumberParam() _version: VersionNumber,
+    @QueryParam('tenantPartnerId') tenantPartnerId?: number,
+    @QueryParam('sessionId') sessionId?: string,
+    @QueryParam('authorizationReference') authorizationReference?: string,
+    @QueryParam('offset') offset?: number,
+    @QueryParam('limit') limit?: number,
+  ): Promise<OcpiCommandListResponse> {
+    return this.commandLedgerService.listCommands(
+      { tenantPartnerId, sessionId, authorizationReference },
+      offset,
+      limit,
+    );
+  }
+
+  @Get('/ledger/:commandId')
+  @AsAdminEndpoint()
+  @ResponseSchema(OcpiCommandSchema, OcpiCommandSchemaName, {
+    statusCode: HttpStatus.OK,
+    description: 'Successful response',
+    examples: {
+      success: generateMockForSchema(OcpiCommandSchema, OcpiCommandSchemaName),
+    },
+  })
+  async getCommand(
+    @VersionNumberParam() _version: VersionNumber,
+    @Param('commandId') commandId: string,
+  ): Promise<OcpiCommand> {
+    return this.commandLedgerService.getCommand(commandId);
+  }
 }
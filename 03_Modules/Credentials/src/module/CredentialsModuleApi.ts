@@ -6,6 +6,7 @@ import {
   AdminCredentialsRequestDTO,
   AdminCredentialsRequestDTOSchema,
   AdminCredentialsRequestDTOSchemaName,
+  AsAdminEndpoint,
   AsOcpiRegistrationEndpoint,
   AuthToken,
   BaseController,
@@ -26,10 +27,27 @@ import {
   OcpiEmptyResponseSchemaName,
   OcpiLogger,
   OcpiResponseStatusCode,
+  OcpiTrafficAuditService,
+  OcpiTrafficLog,
+  OcpiTrafficLogListResponse,
+  OcpiTrafficLogListResponseSchema,
+  OcpiTrafficLogListResponseSchemaName,
+  OcpiTrafficLogSchema,
+  OcpiTrafficLogSchemaName,
+  OutboxMessageListResponse,
+  OutboxMessageListResponseSchema,
+  OutboxMessageListResponseSchemaName,
+  OutboxMessageStatus,
+  OutboxService,
   ResponseSchema,
+  TenantPartnerTokenCacheMetrics,
+  TenantPartnerTokenResolver,
   UnregisterClientRequestDTO,
   UnregisterClientRequestDTOSchema,
   UnregisterClientRequestDTOSchemaName,
+  V211Credentials,
+  V211Mapper,
+  VersionedResponse,
   versionIdParam,
   VersionNumber,
   VersionNumberParam,
@@ -67,12 +85,16 @@ export class CredentialsModuleApi
   constructor(
     readonly logger: OcpiLogger,
     readonly credentialsService: CredentialsService,
+    readonly outboxService: OutboxService,
+    readonly tenantPartnerTokenResolver: TenantPartnerTokenResolver,
+    readonly trafficAuditService: OcpiTrafficAuditService,
   ) {
     super();
   }
 
   @Get()
   @AsOcpiRegistrationEndpoint()
+  @VersionedResponse(ModuleId.Credentials)
   @ResponseSchema(CredentialsResponseSchema, CredentialsResponseSchemaName, {
     statusCode: HttpStatus.OK,
     description: 'Successful response',
@@ -96,6 +118,7 @@ export class CredentialsModuleApi
 
   @Post()
   @AsOcpiRegistrationEndpoint()
+  @VersionedResponse(ModuleId.Credentials)
   @ResponseSchema(CredentialsResponseSchema, CredentialsResponseSchemaName, {
     statusCode: HttpStatus.OK,
     description: 'Successful response',
@@ -110,13 +133,16 @@ export class CredentialsModuleApi
     @VersionNumberParam() version: VersionNumber,
     @Ctx() ctx: any,
     @BodyWithSchema(CredentialsDTOSchema, CredentialsDTOSchemaName)
-    credentials: CredentialsDTO,
+    credentials: CredentialsDTO | V211Credentials,
   ): Promise<CredentialsResponse> {
     this.logger.info('postCredentials', version, credentials);
     const tenantPartner = ctx!.state!.tenantPartner as ITenantPartnerDto;
+    const credentialsDto = V211Mapper.isV211(version)
+      ? V211Mapper.fromCredentials(credentials as V211Credentials)
+      : (credentials as CredentialsDTO);
     const serverCredentials = await this.credentialsService?.postCredentials(
       tenantPartner,
-      credentials,
+      credentialsDto,
       version,
     );
     return buildCredentialsResponse(serverCredentials);
@@ -124,6 +150,7 @@ export class CredentialsModuleApi
 
   @Put()
   @AsOcpiRegistrationEndpoint()
+  @VersionedResponse(ModuleId.Credentials)
   @ResponseSchema(CredentialsResponseSchema, CredentialsResponseSchemaName, {
     statusCode: HttpStatus.OK,
     description: 'Successful response',
@@ -138,13 +165,16 @@ export class CredentialsModuleApi
     @VersionNumberParam() version: VersionNumber,
     @Ctx() ctx: any,
     @BodyWithSchema(CredentialsDTOSchema, CredentialsDTOSchemaName)
-    credentials: CredentialsDTO,
+    credentials: CredentialsDTO | V211Credentials,
   ): Promise<CredentialsResponse> {
     this.logger.info('putCredentials', version, credentials);
     const tenantPartner = ctx!.state!.tenantPartner as ITenantPartnerDto;
+    const credentialsDto = V211Mapper.isV211(version)
+      ? V211Mapper.fromCredentials(credentials as V211Credentials)
+      : (credentials as CredentialsDTO);
     const serverCredentials = await this.credentialsService?.putCredentials(
       tenantPartner,
-      credentials,
+      credentialsDto,
     );
     return buildCredentialsResponse(serverCredentials);
   }
@@ -316,4 +346,142 @@ export class CredentialsModuleApi
 
     return buildCredentialsResponse(createdCredentials);
   }
+
+  /**
+   * Outbound push queue of a TenantPartner: lists pending and dead-lettered pushes,
+   * puts dead-lettered pushes back in the queue and purges them.
+   */
+  @Get('/outbox/:tenantPartnerId')
+  @AsAdminEndpoint()
+  @ResponseSchema(
+    OutboxMessageListResponseSchema,
+    OutboxMessageListResponseSchemaName,
+    {
+      statusCode: HttpStatus.OK,
+      description: 'Successful response',
+      examples: {
+        success: generateMockForSchema(
+          OutboxMessageListResponseSchema,
+          OutboxMessageListResponseSchemaName,
+        ),
+      },
+    },
+  )
+  async getOutboxMessages(
+    @VersionNumberParam() _version: VersionNumber,
+    @Param('tenantPartnerId') tenantPartnerId: number,
+    @QueryParam('status') status?: OutboxMessageStatus,
+    @QueryParam('offset') offset?: number,
+    @QueryParam('limit') limit?: number,
+  ): Promise<OutboxMessageListResponse> {
+    this.logger.info('getOutboxMessages', tenantPartnerId, status);
+    return this.outboxService.listMessages(
+      tenantPartnerId,
+      status,
+      offset,
+      limit,
+    );
+  }
+
+  @Post('/outbox/:tenantPartnerId/retry')
+  @AsAdminEndpoint()
+  async retryOutboxMessages(
+    @VersionNumberParam() _version: VersionNumber,
+    @Param('tenantPartnerId') tenantPartnerId: number,
+    @QueryParam('messageId') messageId?: number,
+  ): Promise<{ affectedRows: number }> {
+    this.logger.info('retryOutboxMessages', tenantPartnerId, messageId);
+    const affectedRows = await this.outboxService.retryMessages(
+      tenantPartnerId,
+      messageId,
+    );
+    return { affectedRows };
+  }
+
+  @Delete('/outbox/:tenantPartnerId')
+  @AsAdminEndpoint()
+  async purgeOutboxMessages(
+    @VersionNumberParam() _version: VersionNumber,
+    @Param('tenantPartnerId') tenantPartnerId: number,
+    @QueryParam('status') status?: OutboxMessageStatus,
+  ): Promise<{ affectedRows: number }> {
+    this.logger.info('purgeOutboxMessages', tenantPartnerId, status);
+    const affectedRows = await this.outboxService.purgeMessages(
+      tenantPartnerId,
+      status,
+    );
+    return { affectedRows };
+  }
+
+  @Get('/token-cache/metrics')
+  @AsAdminEndpoint()
+  async getTokenCacheMetrics(
+    @VersionNumberParam() _version: VersionNumber,
+  ): Promise<TenantPartnerTokenCacheMetrics> {
+    return this.tenantPartnerTokenResolver.getMetrics();
+  }
+
+  /**
+   * Audit log of the OCPI requests received from and sent to partners, searchable by partner,
+   * module, correlation id, session id and time range (ISO 8601 timestamps).
+   */
+  @Get('/traffic')
+  @AsAdminEndpoint()
+  @ResponseSchema(
+    OcpiTrafficLogListResponseSchema,
+    OcpiTrafficLogListResponseSchemaName,
+    {
+      statusCode: HttpStatus.OK,
+      description: 'Successful response',
+      examples: {
+        success: generateMockForSchema(
+          OcpiTrafficLogListResponseSchema,
+          OcpiTrafficLogListResponseSchemaName,
+        ),
+      },
+    },
+  )
+  async getTrafficLogs(
+    @VersionNumberParam() _version: VersionNumber,
+    @QueryParam('tenantPartnerId') tenantPartnerId?: number,
+    @QueryParam('module') module?: string,
+    @QueryParam('correlationId') correlationId?: string,
+    @QueryParam('sessionId') sessionId?: string,
+    @QueryParam('from') from?: string,
+    @QueryParam('to') to?: string,
+    @QueryParam('offset') offset?: number,
+    @QueryParam('limit') limit?: number,
+  ): Promise<OcpiTrafficLogListResponse> {
+    return this.trafficAuditService.listTrafficLogs(
+      {
+        tenantPartnerId,
+        module,
+        correlationId,
+        sessionId,
+        from: from ? new Date(from) : undefined,
+        to: to ? new Date(to) : undefined,
+      },
+      offset,
+      limit,
+    );
+  }
+
+  @Get('/traffic/:id')
+  @AsAdminEndpoint()
+  @ResponseSchema(OcpiTrafficLogSchema, OcpiTrafficLogSchemaName, {
+    statusCode: HttpStatus.OK,
+    description: 'Successful response',
+    examples: {
+      success: generateMockForSchema(
+        OcpiTrafficLogSchema,
+        OcpiTrafficLogSchemaName,
+      ),
+    },
+  })
+  async getTrafficLog(
+    @VersionNumberParam() _version: VersionNumber,
+    @Param('id') id: string,
+  ): Promise<OcpiTrafficLog> {
+    return this.trafficAuditService.getTrafficLog(id);
+  }
 }
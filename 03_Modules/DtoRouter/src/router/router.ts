@@ -5,6 +5,7 @@
 import {
   DtoEvent,
   DtoEventObjectType,
+  DtoEventSenderToken,
   DtoEventType,
   IDtoEventSender,
   IDtoEventSubscriber,
@@ -13,7 +14,6 @@ import {
   OcpiConfig,
   OcpiConfigToken,
   PgNotifyEventSubscriber,
-  RabbitMqDtoSender,
 } from '@citrineos/ocpi-base';
 import { ILogObj, Logger } from 'tslog';
 import { Inject, Service } from 'typedi';
@@ -21,13 +21,13 @@ import { Inject, Service } from 'typedi';
 @Service()
 export class DtoRouter implements IDtoRouter {
   protected _config: OcpiConfig;
-  protected readonly _sender: RabbitMqDtoSender;
+  protected readonly _sender: IDtoEventSender;
   protected _subscriber: PgNotifyEventSubscriber;
   protected readonly _logger: Logger<ILogObj>;
 
   constructor(
     @Inject(OcpiConfigToken) config: OcpiConfig,
-    sender: RabbitMqDtoSender,
+    @Inject(DtoEventSenderToken) sender: IDtoEventSender,
     subscriber: PgNotifyEventSubscriber,
     logger?: Logger<ILogObj>,
   ) {
@@ -84,7 +84,11 @@ export class DtoRouter implements IDtoRouter {
           `${eventId} received error for eventType ${eventType} and objectType ${objectType}: ${error.message}`,
         );
       },
-      () => {},
+      () => {
+        this._logger.warn(
+          `${eventId} lost its database connection, events sent meanwhile are replayed after reconnecting`,
+        );
+      },
     );
     return true;
   }
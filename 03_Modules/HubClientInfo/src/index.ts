@@ -0,0 +1,30 @@
+// SPDX-FileCopyrightText: 2025 Contributors to the CitrineOS Project
+//
+// SPDX-License-Identifier: Apache-2.0
+
+import { HubClientInfoModuleApi } from './module/HubClientInfoModuleApi';
+import {
+  CacheWrapper,
+  OcpiConfig,
+  OcpiConfigToken,
+  OcpiModule,
+} from '@citrineos/ocpi-base';
+import { ILogObj, Logger } from 'tslog';
+import { Inject, Service } from 'typedi';
+
+export { HubClientInfoModuleApi } from './module/HubClientInfoModuleApi';
+export { IHubClientInfoModuleApi } from './module/IHubClientInfoModuleApi';
+
+// The connected parties are used by the OutboxService to address broadcasts through a hub.
+@Service()
+export class HubClientInfoModule implements OcpiModule {
+  constructor(
+    @Inject(OcpiConfigToken) config: OcpiConfig,
+    readonly cache: CacheWrapper,
+    readonly logger?: Logger<ILogObj>,
+  ) {}
+
+  getController(): any {
+    return HubClientInfoModuleApi;
+  }
+}
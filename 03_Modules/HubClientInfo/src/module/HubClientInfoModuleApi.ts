@@ -0,0 +1,120 @@
+// SPDX-FileCopyrightText: 2025 Contributors to the CitrineOS Project
+//
+// SPDX-License-Identifier: Apache-2.0
+
+import { IHubClientInfoModuleApi } from './IHubClientInfoModuleApi';
+
+import { HttpStatus, ITenantPartnerDto } from '@citrineos/base';
+import {
+  AsOcpiFunctionalEndpoint,
+  BaseController,
+  BodyWithSchema,
+  buildOcpiEmptyResponse,
+  buildOcpiResponse,
+  ClientInfo,
+  ClientInfoResponse,
+  ClientInfoResponseSchema,
+  ClientInfoResponseSchemaName,
+  ClientInfoSchema,
+  ClientInfoSchemaName,
+  generateMockForSchema,
+  HubClientInfoService,
+  InvalidParamException,
+  ModuleId,
+  NotFoundException,
+  OcpiEmptyResponse,
+  OcpiEmptyResponseSchema,
+  OcpiEmptyResponseSchemaName,
+  OcpiResponseStatusCode,
+  ResponseSchema,
+  versionIdParam,
+  VersionNumber,
+  VersionNumberParam,
+} from '@citrineos/ocpi-base';
+import { Ctx, Get, JsonController, Param, Put } from 'routing-controllers';
+
+import { Service } from 'typedi';
+
+/**
+ * Receiver interface of the hubclientinfo module. The hub pushes the parties connected to it, which
+ * are stored per hub TenantPartner.
+ */
+@JsonController(`/:${versionIdParam}/${ModuleId.Hubclientinfo}`)
+@Service()
+export class HubClientInfoModuleApi
+  extends BaseController
+  implements IHubClientInfoModuleApi
+{
+  constructor(readonly hubClientInfoService: HubClientInfoService) {
+    super();
+  }
+
+  @Get('/:countryCode/:partyId')
+  @AsOcpiFunctionalEndpoint()
+  @ResponseSchema(ClientInfoResponseSchema, ClientInfoResponseSchemaName, {
+    statusCode: HttpStatus.OK,
+    description: 'Successful response',
+    examples: {
+      success: generateMockForSchema(
+        ClientInfoResponseSchema,
+        ClientInfoResponseSchemaName,
+      ),
+    },
+  })
+  async getClientInfo(
+    @VersionNumberParam() _version: VersionNumber,
+    @Param('countryCode') countryCode: string,
+    @Param('partyId') partyId: string,
+    @Ctx() ctx: any,
+  ): Promise<ClientInfoResponse> {
+    const tenantPartner = ctx!.state!.tenantPartner as ITenantPartnerDto;
+    const clientInfo = await this.hubClientInfoService.getClientInfo(
+      tenantPartner,
+      countryCode,
+      partyId,
+    );
+    if (!clientInfo) {
+      throw new NotFoundException(
+        `Client info not found for ${countryCode}_${partyId}`,
+      );
+    }
+    return buildOcpiResponse(
+      OcpiResponseStatusCode.GenericSuccessCode,
+      clientInfo,
+    );
+  }
+
+  @Put('/:countryCode/:partyId')
+  @AsOcpiFunctionalEndpoint()
+  @ResponseSchema(OcpiEmptyResponseSchema, OcpiEmptyResponseSchemaName, {
+    statusCode: HttpStatus.OK,
+    description: 'Successful response',
+    examples: {
+      success: generateMockForSchema(
+        OcpiEmptyResponseSchema,
+        OcpiEmptyResponseSchemaName,
+      ),
+    },
+  })
+  async putClientInfo(
+    @VersionNumberParam() _version: VersionNumber,
+    @Param('countryCode') countryCode: string,
+    @Param('partyId') partyId: string,
+    @BodyWithSchema(ClientInfoSchema, ClientInfoSchemaName)
+    clientInfo: ClientInfo,
+    @Ctx() ctx: any,
+  ): Promise<OcpiEmptyResponse> {
+    this.logger.info('putClientInfo', countryCode, partyId, clientInfo);
+    const tenantPartner = ctx!.state!.tenantPartner as ITenantPartnerDto;
+    if (
+      clientInfo.country_code !== countryCode ||
+      clientInfo.party_id !== partyId
+    ) {
+      throw new InvalidParamException(
+        'Path country_code and party_id must match the body',
+      );
+    }
+    await this.hubClientInfoService.putClientInfo(tenantPartner, clientInfo);
+    return buildOcpiEmptyResponse(OcpiResponseStatusCode.GenericSuccessCode);
+  }
+}
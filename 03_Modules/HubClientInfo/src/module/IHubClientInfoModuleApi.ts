@@ -0,0 +1,11 @@
+// SPDX-FileCopyrightText: 2025 Contributors to the CitrineOS Project
+//
+// SPDX-License-Identifier: Apache-2.0
+
+/**
+ * Interface for the HubClientInfo module API.
+ * This interface can be extended to define specific method contracts
+ * or augmented using TypeScript declaration merging.
+ */
+// eslint-disable-next-line @typescript-eslint/no-empty-object-type
+export interface IHubClientInfoModuleApi {}
@@ -5,9 +5,11 @@
 import {
   AbstractDtoModule,
   AsDtoEventHandler,
+  createDtoEventReceiver,
   DtoEventObjectType,
   DtoEventType,
   EvseMapper,
+  EvseStatusScheduleService,
   GET_CHARGING_STATION_BY_ID_QUERY,
   GetChargingStationByIdQueryResult,
   GetChargingStationByIdQueryVariables,
@@ -17,7 +19,6 @@ import {
   OcpiConfigToken,
   OcpiGraphqlClient,
   OcpiModule,
-  RabbitMqDtoReceiver,
 } from '@citrineos/ocpi-base';
 import { ILogObj, Logger } from 'tslog';
 import { LocationsModuleApi } from './module/LocationsModuleApi';
@@ -40,8 +41,9 @@ export class LocationsModule extends AbstractDtoModule implements OcpiModule {
     readonly logger: Logger<ILogObj>,
     readonly locationsBroadcaster: LocationsBroadcaster,
     readonly ocpiGraphqlClient: OcpiGraphqlClient,
+    readonly evseStatusScheduleService: EvseStatusScheduleService,
   ) {
-    super(config, new RabbitMqDtoReceiver(config, logger), logger);
+    super(config, createDtoEventReceiver(config, logger), logger);
   }
 
   getController(): any {
@@ -263,9 +265,11 @@ export class LocationsModule extends AbstractDtoModule implements OcpiModule {
         return;
       }
 
-      // Aggregate the status from all connectors
+      // Aggregate the status from all connectors, unless a planned period is in progress
       const aggregatedStatus =
-        EvseMapper.mapEvseStatusFromConnectors(connectorData);
+        (await this.evseStatusScheduleService.getScheduledStatus(
+          connectorDto.evseId!,
+        )) ?? EvseMapper.mapEvseStatusFromConnectors(connectorData);
 
       // Broadcast EVSE patch with aggregated status
       const evseDto: Partial<IEvseDto> = {
@@ -4,18 +4,51 @@
 
 import { HttpStatus, ITenantPartnerDto } from '@citrineos/base';
 import {
+  AdminEvseStatusScheduleDTO,
+  AdminEvseStatusScheduleDTOSchema,
+  AdminEvseStatusScheduleDTOSchemaName,
+  AdminEvseStatusScheduleRequest,
+  AdminEvseStatusScheduleRequestSchema,
+  AdminEvseStatusScheduleRequestSchemaName,
+  AdminLocationDTO,
+  AdminLocationDTOSchema,
+  AdminLocationDTOSchemaName,
+  AdminLocationsService,
+  AsAdminEndpoint,
   AsOcpiFunctionalEndpoint,
   BaseController,
+  BodyWithSchema,
   ConnectorResponse,
   ConnectorResponseSchema,
   ConnectorResponseSchemaName,
   EvseResponse,
   EvseResponseSchema,
   EvseResponseSchemaName,
+  EvseStatusScheduleService,
   EXTRACT_EVSE_ID,
   EXTRACT_STATION_ID,
   generateMockForSchema,
   generateMockOcpiPaginatedResponse,
+  LocationDTO,
+  LocationGroup,
+  LocationGroupRequest,
+  LocationGroupRequestSchema,
+  LocationGroupRequestSchemaName,
+  LocationGroupSchema,
+  LocationGroupSchemaName,
+  LocationPublication,
+  LocationPublicationModeRequest,
+  LocationPublicationModeRequestSchema,
+  LocationPublicationModeRequestSchemaName,
+  LocationPublicationRequest,
+  LocationPublicationRequestSchema,
+  LocationPublicationRequestSchemaName,
+  LocationPublicationSchema,
+  LocationPublicationSchemaName,
+  LocationPublicationService,
+  LocationPushListResponse,
+  LocationPushListResponseSchema,
+  LocationPushListResponseSchemaName,
   LocationResponse,
   LocationResponseSchema,
   LocationResponseSchemaName,
@@ -27,11 +60,21 @@ import {
   PaginatedLocationResponseSchemaName,
   PaginatedParams,
   ResponseSchema,
+  VersionedResponse,
   versionIdParam,
   VersionNumber,
   VersionNumberParam,
 } from '@citrineos/ocpi-base';
-import { Ctx, Get, JsonController, Param } from 'routing-controllers';
+import {
+  Ctx,
+  Delete,
+  Get,
+  JsonController,
+  Param,
+  Post,
+  Put,
+  QueryParam,
+} from 'routing-controllers';
 import { Service } from 'typedi';
 import { ILocationsModuleApi } from './ILocationsModuleApi';
 
@@ -52,6 +95,18 @@ const MOCK_CONNECTOR = generateMockForSchema(
   ConnectorResponseSchema,
   ConnectorResponseSchemaName,
 );
+const MOCK_LOCATION_PUBLICATION = generateMockForSchema(
+  LocationPublicationSchema,
+  LocationPublicationSchemaName,
+);
+const MOCK_LOCATION_GROUP = generateMockForSchema(
+  LocationGroupSchema,
+  LocationGroupSchemaName,
+);
+const MOCK_EVSE_STATUS_SCHEDULE = generateMockForSchema(
+  AdminEvseStatusScheduleDTOSchema,
+  AdminEvseStatusScheduleDTOSchemaName,
+);
 
 /**
  * Server API for the provisioning component.
@@ -66,17 +121,22 @@ export class LocationsModuleApi
    * Constructs a new instance of the class.
    *
    * @param {LocationsService} locationsService - The Locations service.
+   * @param {LocationPublicationService} locationPublicationService - The Location Publication service.
    * @param {AdminLocationsService} adminLocationsService - The Admin Locations service.
+   * @param {EvseStatusScheduleService} evseStatusScheduleService - The EVSE Status Schedule service.
    */
   constructor(
     readonly locationsService: LocationsService,
-    // readonly adminLocationsService: AdminLocationsService,
+    readonly locationPublicationService: LocationPublicationService,
+    readonly adminLocationsService: AdminLocationsService,
+    readonly evseStatusScheduleService: EvseStatusScheduleService,
   ) {
     super();
   }
 
   @Get()
   @AsOcpiFunctionalEndpoint()
+  @VersionedResponse(ModuleId.Locations)
   @ResponseSchema(
     PaginatedLocationResponseSchema,
     PaginatedLocationResponseSchemaName,
@@ -106,6 +166,7 @@ export class LocationsModuleApi
 
   @Get('/:location_id')
   @AsOcpiFunctionalEndpoint()
+  @VersionedResponse(ModuleId.Locations)
   @ResponseSchema(LocationResponseSchema, LocationResponseSchemaName, {
     statusCode: HttpStatus.OK,
     description: 'Successful response',
@@ -122,6 +183,7 @@ export class LocationsModuleApi
 
   @Get('/:location_id/:evse_uid')
   @AsOcpiFunctionalEndpoint()
+  @VersionedResponse(ModuleId.Locations)
   @ResponseSchema(EvseResponseSchema, EvseResponseSchemaName, {
     statusCode: HttpStatus.OK,
     description: 'Successful response',
@@ -146,6 +208,7 @@ export class LocationsModuleApi
 
   @Get('/:location_id/:evse_uid/:connector_id')
   @AsOcpiFunctionalEndpoint()
+  @VersionedResponse(ModuleId.Locations)
   @ResponseSchema(ConnectorResponseSchema, ConnectorResponseSchemaName, {
     statusCode: HttpStatus.OK,
     description: 'Successful response',
@@ -174,19 +237,329 @@ export class LocationsModuleApi
    * Admin Endpoints
    **/
 
-  // @Put('/admin')
-  // @AsAdminEndpoint()
-  // @ResponseSchema(OcpiEmptyResponse, {
-  //   statusCode: HttpStatus.OK,
-  //   description: 'Successful response',
-  // })
-  // async createLocation(
-  //   @QueryParam('broadcast') broadcast: boolean,
-  //   @Body() adminLocation: AdminLocationDTO,
-  // ): Promise<LocationDTO> {
-  //   return await this.adminLocationsService.createOrUpdateLocation(
-  //     adminLocation,
-  //     broadcast,
-  //   );
-  // }
+  /**
+   * Locations published to a TenantPartner: publishes and unpublishes locations, switches the
+   * partner to all locations of the tenant and lists when each location was last pushed to it.
+   * GET paths have four segments to not collide with the connector endpoint.
+   */
+  @Get('/admin/publications/:tenantPartnerId/locations')
+  @AsAdminEndpoint()
+  @ResponseSchema(LocationPublicationSchema, LocationPublicationSchemaName, {
+    statusCode: HttpStatus.OK,
+    description: 'Successful response',
+    examples: {
+      success: MOCK_LOCATION_PUBLICATION,
+    },
+  })
+  async getLocationPublication(
+    @VersionNumberParam() _version: VersionNumber,
+    @Param('tenantPartnerId') tenantPartnerId: number,
+  ): Promise<LocationPublication> {
+    return this.locationPublicationService.getPublication(tenantPartnerId);
+  }
+
+  @Post('/admin/publications/:tenantPartnerId/publish')
+  @AsAdminEndpoint()
+  @ResponseSchema(LocationPublicationSchema, LocationPublicationSchemaName, {
+    statusCode: HttpStatus.OK,
+    description: 'Successful response',
+    examples: {
+      success: MOCK_LOCATION_PUBLICATION,
+    },
+  })
+  async publishLocations(
+    @VersionNumberParam() _version: VersionNumber,
+    @Param('tenantPartnerId') tenantPartnerId: number,
+    @BodyWithSchema(
+      LocationPublicationRequestSchema,
+      LocationPublicationRequestSchemaName,
+    )
+    request: LocationPublicationRequest,
+  ): Promise<LocationPublication> {
+    this.logger.info('publishLocations', tenantPartnerId, request);
+    return this.locationPublicationService.publish(
+      tenantPartnerId,
+      request.locationIds,
+      request.locationGroupIds,
+    );
+  }
+
+  @Post('/admin/publications/:tenantPartnerId/unpublish')
+  @AsAdminEndpoint()
+  @ResponseSchema(LocationPublicationSchema, LocationPublicationSchemaName, {
+    statusCode: HttpStatus.OK,
+    description: 'Successful response',
+    examples: {
+      success: MOCK_LOCATION_PUBLICATION,
+    },
+  })
+  async unpublishLocations(
+    @VersionNumberParam() _version: VersionNumber,
+    @Param('tenantPartnerId') tenantPartnerId: number,
+    @BodyWithSchema(
+      LocationPublicationRequestSchema,
+      LocationPublicationRequestSchemaName,
+    )
+    request: LocationPublicationRequest,
+  ): Promise<LocationPublication> {
+    this.logger.info('unpublishLocations', tenantPartnerId, request);
+    return this.locationPublicationService.unpublish(
+      tenantPartnerId,
+      request.locationIds,
+      request.locationGroupIds,
+    );
+  }
+
+  @Put('/admin/publications/:tenantPartnerId/mode')
+  @AsAdminEndpoint()
+  @ResponseSchema(LocationPublicationSchema, LocationPublicationSchemaName, {
+    statusCode: HttpStatus.OK,
+    description: 'Successful response',
+    examples: {
+      success: MOCK_LOCATION_PUBLICATION,
+    },
+  })
+  async setLocationPublicationMode(
+    @VersionNumberParam() _version: VersionNumber,
+    @Param('tenantPartnerId') tenantPartnerId: number,
+    @BodyWithSchema(
+      LocationPublicationModeRequestSchema,
+      LocationPublicationModeRequestSchemaName,
+    )
+    request: LocationPublicationModeRequest,
+  ): Promise<LocationPublication> {
+    this.logger.info('setLocationPublicationMode', tenantPartnerId, request);
+    return this.locationPublicationService.setPublishAllLocations(
+      tenantPartnerId,
+      request.publishAllLocations,
+    );
+  }
+
+  @Get('/admin/publications/:tenantPartnerId/pushes')
+  @AsAdminEndpoint()
+  @ResponseSchema(
+    LocationPushListResponseSchema,
+    LocationPushListResponseSchemaName,
+    {
+      statusCode: HttpStatus.OK,
+      description: 'Successful response',
+      examples: {
+        success: generateMockForSchema(
+          LocationPushListResponseSchema,
+          LocationPushListResponseSchemaName,
+        ),
+      },
+    },
+  )
+  async getLocationPushes(
+    @VersionNumberParam() _version: VersionNumber,
+    @Param('tenantPartnerId') tenantPartnerId: number,
+    @QueryParam('locationId') locationId?: number,
+    @QueryParam('offset') offset?: number,
+    @QueryParam('limit') limit?: number,
+  ): Promise<LocationPushListResponse> {
+    return this.locationPublicationService.getPushes(
+      tenantPartnerId,
+      locationId,
+      offset,
+      limit,
+    );
+  }
+
+  /**
+   * Groups of locations of a Tenant, which can be published to and unpublished from a TenantPartner
+   * as a whole. GET paths have four segments to not collide with the connector endpoint.
+   */
+  @Get('/admin/location-groups/:tenantId/groups')
+  @AsAdminEndpoint()
+  @ResponseSchema(LocationGroupSchema, LocationGroupSchemaName, {
+    statusCode: HttpStatus.OK,
+    description: 'Successful response',
+    isArray: true,
+    examples: {
+      success: [MOCK_LOCATION_GROUP],
+    },
+  })
+  async getLocationGroups(
+    @VersionNumberParam() _version: VersionNumber,
+    @Param('tenantId') tenantId: number,
+  ): Promise<LocationGroup[]> {
+    return this.locationPublicationService.getLocationGroups(tenantId);
+  }
+
+  @Post('/admin/location-groups/:tenantId')
+  @AsAdminEndpoint()
+  @ResponseSchema(LocationGroupSchema, LocationGroupSchemaName, {
+    statusCode: HttpStatus.OK,
+    description: 'Successful response',
+    examples: {
+      success: MOCK_LOCATION_GROUP,
+    },
+  })
+  async createLocationGroup(
+    @VersionNumberParam() _version: VersionNumber,
+    @Param('tenantId') tenantId: number,
+    @BodyWithSchema(LocationGroupRequestSchema, LocationGroupRequestSchemaName)
+    request: LocationGroupRequest,
+  ): Promise<LocationGroup> {
+    this.logger.info('createLocationGroup', tenantId, request);
+    return this.locationPublicationService.createLocationGroup(
+      tenantId,
+      request,
+    );
+  }
+
+  @Put('/admin/location-groups/:tenantId/:locationGroupId')
+  @AsAdminEndpoint()
+  @ResponseSchema(LocationGroupSchema, LocationGroupSchemaName, {
+    statusCode: HttpStatus.OK,
+    description: 'Successful response',
+    examples: {
+      success: MOCK_LOCATION_GROUP,
+    },
+  })
+  async updateLocationGroup(
+    @VersionNumberParam() _version: VersionNumber,
+    @Param('tenantId') tenantId: number,
+    @Param('locationGroupId') locationGroupId: number,
+    @BodyWithSchema(LocationGroupRequestSchema, LocationGroupRequestSchemaName)
+    request: LocationGroupRequest,
+  ): Promise<LocationGroup> {
+    this.logger.info('updateLocationGroup', tenantId, locationGroupId, request);
+    return this.locationPublicationService.updateLocationGroup(
+      tenantId,
+      locationGroupId,
+      request,
+    );
+  }
+
+  @Delete('/admin/location-groups/:tenantId/:locationGroupId')
+  @AsAdminEndpoint()
+  @ResponseSchema(LocationGroupSchema, LocationGroupSchemaName, {
+    statusCode: HttpStatus.OK,
+    description: 'Successful response',
+    examples: {
+      success: MOCK_LOCATION_GROUP,
+    },
+  })
+  async deleteLocationGroup(
+    @VersionNumberParam() _version: VersionNumber,
+    @Param('tenantId') tenantId: number,
+    @Param('locationGroupId') locationGroupId: number,
+  ): Promise<LocationGroup> {
+    this.logger.info('deleteLocationGroup', tenantId, locationGroupId);
+    return this.locationPublicationService.deleteLocationGroup(
+      tenantId,
+      locationGroupId,
+    );
+  }
+
+  /**
+   * OCPI attributes of a location and its EVSEs that core cannot hold. Every edit is pushed to the
+   * partners as a PATCH of the edited attributes.
+   */
+  @Put('/admin')
+  @AsAdminEndpoint()
+  async createLocation(
+    @VersionNumberParam() _version: VersionNumber,
+    @BodyWithSchema(AdminLocationDTOSchema, AdminLocationDTOSchemaName)
+    adminLocation: AdminLocationDTO,
+  ): Promise<LocationDTO> {
+    this.logger.info('createLocation', adminLocation);
+    return await this.adminLocationsService.createOrUpdateLocation(
+      adminLocation,
+    );
+  }
+
+  @Get('/admin/locations/:locationId/extensions')
+  @AsAdminEndpoint()
+  async getLocationExtensions(
+    @VersionNumberParam() _version: VersionNumber,
+    @Param('locationId') locationId: number,
+  ): Promise<AdminLocationDTO> {
+    return this.adminLocationsService.getLocationExtensions(locationId);
+  }
+
+  @Delete('/admin/locations/:locationId/extensions')
+  @AsAdminEndpoint()
+  async deleteLocationExtensions(
+    @VersionNumberParam() _version: VersionNumber,
+    @Param('locationId') locationId: number,
+  ): Promise<LocationDTO> {
+    this.logger.info('deleteLocationExtensions', locationId);
+    return this.adminLocationsService.deleteLocationExtensions(locationId);
+  }
+
+  /**
+   * Planned periods an EVSE, identified by its id in core, is not available. They are published in
+   * the status_schedule of the EVSE and its status is pushed when each period starts and ends.
+   */
+  @Get('/admin/evses/:evseId/status-schedules')
+  @AsAdminEndpoint()
+  @ResponseSchema(
+    AdminEvseStatusScheduleDTOSchema,
+    AdminEvseStatusScheduleDTOSchemaName,
+    {
+      statusCode: HttpStatus.OK,
+      description: 'Successful response',
+      isArray: true,
+      examples: {
+        success: [MOCK_EVSE_STATUS_SCHEDULE],
+      },
+    },
+  )
+  async getEvseStatusSchedules(
+    @VersionNumberParam() _version: VersionNumber,
+    @Param('evseId') evseId: number,
+  ): Promise<AdminEvseStatusScheduleDTO[]> {
+    return this.evseStatusScheduleService.getSchedules(evseId);
+  }
+
+  @Post('/admin/evses/:evseId/status-schedules')
+  @AsAdminEndpoint()
+  @ResponseSchema(
+    AdminEvseStatusScheduleDTOSchema,
+    AdminEvseStatusScheduleDTOSchemaName,
+    {
+      statusCode: HttpStatus.OK,
+      description: 'Successful response',
+      examples: {
+        success: MOCK_EVSE_STATUS_SCHEDULE,
+      },
+    },
+  )
+  async createEvseStatusSchedule(
+    @VersionNumberParam() _version: VersionNumber,
+    @Param('evseId') evseId: number,
+    @BodyWithSchema(
+      AdminEvseStatusScheduleRequestSchema,
+      AdminEvseStatusScheduleRequestSchemaName,
+    )
+    request: AdminEvseStatusScheduleRequest,
+  ): Promise<AdminEvseStatusScheduleDTO> {
+    this.logger.info('createEvseStatusSchedule', evseId, request);
+    return this.evseStatusScheduleService.createSchedule(evseId, request);
+  }
+
+  @Delete('/admin/evses/:evseId/status-schedules/:scheduleId')
+  @AsAdminEndpoint()
+  @ResponseSchema(
+    AdminEvseStatusScheduleDTOSchema,
+    AdminEvseStatusScheduleDTOSchemaName,
+    {
+      statusCode: HttpStatus.OK,
+      description: 'Successful response',
+      examples: {
+        success: MOCK_EVSE_STATUS_SCHEDULE,
+      },
+    },
+  )
+  async deleteEvseStatusSchedule(
+    @VersionNumberParam() _version: VersionNumber,
+    @Param('evseId') evseId: number,
+    @Param('scheduleId') scheduleId: number,
+  ): Promise<AdminEvseStatusScheduleDTO> {
+    this.logger.info('deleteEvseStatusSchedule', evseId, scheduleId);
+    return this.evseStatusScheduleService.deleteSchedule(evseId, scheduleId);
+  }
 }
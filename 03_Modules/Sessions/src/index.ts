@@ -6,8 +6,10 @@ import { ICache, IMeterValueDto, ITransactionDto } from '@citrineos/base';
 import {
   AbstractDtoModule,
   AsDtoEventHandler,
+  AuthMethod,
   CacheWrapper,
   CdrBroadcaster,
+  createDtoEventReceiver,
   DtoEventObjectType,
   DtoEventType,
   GET_TRANSACTION_BY_ID_QUERY,
@@ -18,7 +20,7 @@ import {
   OcpiConfigToken,
   OcpiGraphqlClient,
   OcpiModule,
-  RabbitMqDtoReceiver,
+  SessionAuthorization,
   SessionBroadcaster,
   UPDATE_TRANSACTION_CUSTOM_DATA_MUTATION,
   UpdateTransactionCustomDataMutationResult,
@@ -44,7 +46,7 @@ export class SessionsModule extends AbstractDtoModule implements OcpiModule {
     readonly cdrBroadcaster: CdrBroadcaster,
     @Inject() cacheWrapper: CacheWrapper,
   ) {
-    super(config, new RabbitMqDtoReceiver(config, logger), logger);
+    super(config, createDtoEventReceiver(config, logger), logger);
     this.cache = cacheWrapper.cache;
   }
 
@@ -102,6 +104,25 @@ export class SessionsModule extends AbstractDtoModule implements OcpiModule {
     }
   }
 
+  /**
+   * Entries cached before the auth method was recorded only hold the authorization_reference of
+   * a StartSession command.
+   */
+  private parseSessionAuthorization(value: string): SessionAuthorization {
+    try {
+      const parsed = JSON.parse(value);
+      if (parsed?.auth_method) {
+        return parsed as SessionAuthorization;
+      }
+    } catch {
+      // Not JSON, a plain authorization_reference
+    }
+    return {
+      auth_method: AuthMethod.COMMAND,
+      authorization_reference: value,
+    };
+  }
+
   @AsDtoEventHandler(
     DtoEventType.INSERT,
     DtoEventObjectType.Transaction,
@@ -132,10 +153,10 @@ export class SessionsModule extends AbstractDtoModule implements OcpiModule {
       ? (fullTransactionResponse.Transactions[0] as ITransactionDto)
       : transactionDto;
 
-    // Associate token ID with authorization_reference if available in cache
+    // Associate token ID with the authorization of the session if available in cache
     if (fullTransactionDto.authorization?.idToken) {
       try {
-        const authorizationReference: string | null = await this.cache.get(
+        const cachedAuthorization: string | null = await this.cache.get(
           fullTransactionDto.authorization.idToken,
           TOKEN_ID_TO_AUTH_REF_CACHE_NAMESPACE,
         );
@@ -144,13 +165,17 @@ export class SessionsModule extends AbstractDtoModule implements OcpiModule {
           TOKEN_ID_TO_AUTH_REF_CACHE_NAMESPACE,
         );
 
-        if (authorizationReference) {
+        if (cachedAuthorization) {
+          const sessionAuthorization =
+            this.parseSessionAuthorization(cachedAuthorization);
           this._logger.debug(
-            `Found authorization_reference ${authorizationReference} for token ${fullTransactionDto.authorization.idToken}`,
+            `Found ${sessionAuthorization.auth_method} authorization ${sessionAuthorization.authorization_reference} for token ${fullTransactionDto.authorization.idToken}`,
           );
-          // Store authorization_reference in customData in database
+          // Store auth_method and authorization_reference in customData in database
           const customData = fullTransactionDto.customData || {};
-          customData.authorization_reference = authorizationReference;
+          customData.auth_method = sessionAuthorization.auth_method;
+          customData.authorization_reference =
+            sessionAuthorization.authorization_reference ?? undefined;
 
           await this.ocpiGraphqlClient.request<
             UpdateTransactionCustomDataMutationResult,
@@ -164,16 +189,16 @@ export class SessionsModule extends AbstractDtoModule implements OcpiModule {
           fullTransactionDto.customData = customData;
 
           this._logger.debug(
-            `Successfully updated transaction ${fullTransactionDto.id} with authorization_reference in database`,
+            `Successfully updated transaction ${fullTransactionDto.id} with session authorization in database`,
           );
         } else {
           this._logger.warn(
-            `No authorization_reference found in cache for token ${fullTransactionDto.authorization.idToken}`,
+            `No session authorization found in cache for token ${fullTransactionDto.authorization.idToken}`,
           );
         }
       } catch (error) {
         this._logger.error(
-          `Error retrieving or updating authorization_reference: ${error}`,
+          `Error retrieving or updating session authorization: ${error}`,
         );
       }
     }
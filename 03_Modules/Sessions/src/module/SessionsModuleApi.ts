@@ -25,6 +25,7 @@ import {
   PaginatedSessionResponseSchemaName,
   ResponseSchema,
   SessionsService,
+  VersionedResponse,
   versionIdParam,
 } from '@citrineos/ocpi-base';
 import { Ctx, Get, JsonController, Param, Put } from 'routing-controllers';
@@ -53,6 +54,7 @@ export class SessionsModuleApi
 
   @Get()
   @AsOcpiFunctionalEndpoint()
+  @VersionedResponse(ModuleId.Sessions)
   @ResponseSchema(
     PaginatedSessionResponseSchema,
     PaginatedSessionResponseSchemaName,
@@ -82,7 +84,7 @@ export class SessionsModuleApi
     );
   }
 
-  @Put('/{sessionId}/charging_preferences')
+  @Put('/:sessionId/charging_preferences')
   @AsOcpiFunctionalEndpoint()
   @ResponseSchema(
     ChargingPreferencesResponseSchema,
@@ -99,8 +101,14 @@ export class SessionsModuleApi
     @Param('sessionId') sessionId: string,
     @BodyWithSchema(ChargingPreferencesSchema, ChargingPreferencesSchemaName)
     body: ChargingPreferences,
+    @Ctx() ctx: any,
   ): Promise<ChargingPreferencesResponse> {
-    console.log('updateChargingPreferences', sessionId, body);
-    return MOCK_CHARGING_PREFERENCES;
+    const tenantPartner = ctx!.state!.tenantPartner as ITenantPartnerDto;
+
+    return this.sessionsService.updateChargingPreferences(
+      sessionId,
+      body,
+      tenantPartner,
+    );
   }
 }
@@ -5,13 +5,13 @@
 import {
   AbstractDtoModule,
   AsDtoEventHandler,
+  createDtoEventReceiver,
   DtoEventObjectType,
   DtoEventType,
   IDtoEvent,
   OcpiConfig,
   OcpiConfigToken,
   OcpiModule,
-  RabbitMqDtoReceiver,
   TariffsBroadcaster,
 } from '@citrineos/ocpi-base';
 import { ILogObj, Logger } from 'tslog';
@@ -29,7 +29,7 @@ export class TariffsModule extends AbstractDtoModule implements OcpiModule {
     logger: Logger<ILogObj>,
     readonly tariffsBroadcaster: TariffsBroadcaster,
   ) {
-    super(config, new RabbitMqDtoReceiver(config, logger), logger);
+    super(config, createDtoEventReceiver(config, logger), logger);
   }
 
   getController(): any {
@@ -4,12 +4,14 @@
 
 import { ITariffsModuleApi } from './ITariffsModuleApi';
 
-import { Ctx, Get, JsonController } from 'routing-controllers';
+import { Ctx, Get, JsonController, Param } from 'routing-controllers';
 
 import { HttpStatus, ITenantPartnerDto } from '@citrineos/base';
 import {
   AsOcpiFunctionalEndpoint,
   BaseController,
+  buildOcpiErrorResponse,
+  buildOcpiResponse,
   DEFAULT_LIMIT,
   DEFAULT_OFFSET,
   generateMockForSchema,
@@ -21,7 +23,11 @@ import {
   PaginatedTariffResponseSchema,
   PaginatedTariffResponseSchemaName,
   ResponseSchema,
+  TariffResponse,
+  TariffResponseSchema,
+  TariffResponseSchemaName,
   TariffsService,
+  VersionedResponse,
   versionIdParam,
   VersionNumber,
   VersionNumberParam,
@@ -44,6 +50,7 @@ export class TariffsModuleApi
 
   @Get()
   @AsOcpiFunctionalEndpoint()
+  @VersionedResponse(ModuleId.Tariffs)
   @ResponseSchema(
     PaginatedTariffResponseSchema,
     PaginatedTariffResponseSchemaName,
@@ -85,6 +92,50 @@ export class TariffsModuleApi
     };
   }
 
+  @Get('/:country_code/:party_id/:tariff_id')
+  @AsOcpiFunctionalEndpoint()
+  @VersionedResponse(ModuleId.Tariffs)
+  @ResponseSchema(TariffResponseSchema, TariffResponseSchemaName, {
+    statusCode: HttpStatus.OK,
+    description: 'Successful response',
+    examples: {
+      success: generateMockForSchema(
+        TariffResponseSchema,
+        TariffResponseSchemaName,
+      ),
+    },
+  })
+  async getTariffById(
+    @VersionNumberParam() _version: VersionNumber,
+    @Ctx() ctx: any,
+    @Param('country_code') countryCode: string,
+    @Param('party_id') partyId: string,
+    @Param('tariff_id') tariffId: string,
+  ): Promise<TariffResponse> {
+    const tenantPartner = ctx!.state!.tenantPartner as ITenantPartnerDto;
+    // Only tariffs of the CPO the partner is connected to can be requested
+    const tariff =
+      countryCode === tenantPartner.tenant!.countryCode &&
+      partyId === tenantPartner.tenant!.partyId &&
+      /^\d+$/.test(tariffId)
+        ? await this.tariffService.getTariffByKey({
+            id: Number(tariffId),
+            countryCode,
+            partyId,
+          })
+        : undefined;
+    if (!tariff) {
+      return buildOcpiErrorResponse(
+        OcpiResponseStatusCode.ClientGenericError,
+        `Tariff ${tariffId} not found`,
+      ) as TariffResponse;
+    }
+    return buildOcpiResponse(
+      OcpiResponseStatusCode.GenericSuccessCode,
+      tariff,
+    ) as TariffResponse;
+  }
+
   // TODO: auth & reorganize
   // @Post(`/tariff-broadcasts`)
   // async broadcastTariff(
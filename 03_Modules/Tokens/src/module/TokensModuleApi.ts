@@ -5,12 +5,14 @@
 import {
   Body,
   Ctx,
+  Delete,
   Get,
   JsonController,
   Param,
   Patch,
   Post,
   Put,
+  QueryParam,
 } from 'routing-controllers';
 import { Service } from 'typedi';
 
@@ -22,15 +24,21 @@ import {
 import {
   AsOcpiFunctionalEndpoint,
   AsAdminEndpoint,
+  AsyncJobAction,
+  AsyncJobRequest,
+  AsyncJobStatusResponse,
   BaseController,
   BodyWithSchema,
   BodyWithExample,
   buildOcpiEmptyResponse,
   buildOcpiResponse,
+  EnumParam,
   EnumQueryParam,
   generateMockForSchema,
+  HubClientInfoService,
   InvalidParamException,
   ModuleId,
+  NotFoundException,
   OcpiEmptyResponse,
   OcpiEmptyResponseSchema,
   OcpiEmptyResponseSchemaName,
@@ -43,12 +51,15 @@ import {
   TokenResponse,
   TokenResponseSchema,
   TokenResponseSchemaName,
-  // TokensAdminService,
+  TokensAdminService,
   TokensService,
   TokenType,
   TokenTypeSchema,
   TokenTypeSchemaName,
   UnknownTokenException,
+  V211Mapper,
+  V211Token,
+  VersionedResponse,
   versionIdParam,
   VersionNumber,
   VersionNumberParam,
@@ -85,13 +96,15 @@ export class TokensModuleApi
 {
   constructor(
     readonly tokensService: TokensService,
-    // readonly tokensFetchService: TokensAdminService,
+    readonly tokensAdminService: TokensAdminService,
+    readonly hubClientInfoService: HubClientInfoService,
   ) {
     super();
   }
 
   @Get('/:countryCode/:partyId/:tokenId')
   @AsOcpiFunctionalEndpoint()
+  @VersionedResponse(ModuleId.Tokens)
   @ResponseSchema(TokenResponseSchema, TokenResponseSchemaName, {
     statusCode: HttpStatus.OK,
     description: 'Successful response',
@@ -155,7 +168,8 @@ export class TokensModuleApi
     @Param('countryCode') countryCode: string,
     @Param('partyId') partyId: string,
     @Param('tokenId') tokenId: string,
-    @BodyWithExample(TokenDTOSchema, TokenTypeSchemaName) tokenDTO: TokenDTO,
+    @BodyWithExample(TokenDTOSchema, TokenTypeSchemaName)
+    tokenDTO: TokenDTO | V211Token,
     @EnumQueryParam('type', TokenTypeSchema, TokenTypeSchemaName)
     type?: TokenType,
     @Ctx() ctx?: any,
@@ -171,14 +185,7 @@ export class TokensModuleApi
       throw new InvalidParamException('Tenant information not available');
     }
 
-    if (
-      tenantPartner.countryCode !== countryCode ||
-      tenantPartner.partyId !== partyId
-    ) {
-      throw new WrongClientAccessException(
-        'Client is trying to access wrong resource',
-      );
-    }
+    await this.assertTokenOwner(tenantPartner, countryCode, partyId);
 
     if (tokenId !== tokenDTO.uid) {
       throw new InvalidParamException(
@@ -187,7 +194,13 @@ export class TokensModuleApi
     }
 
     await this.tokensService.upsertToken(
-      tokenDTO,
+      V211Mapper.isV211(version)
+        ? (V211Mapper.fromToken(
+            tokenDTO as V211Token,
+            countryCode,
+            partyId,
+          ) as TokenDTO)
+        : (tokenDTO as TokenDTO),
       tenantPartner.tenant.id,
       tenantPartner.id!,
     );
@@ -213,7 +226,7 @@ export class TokensModuleApi
     @Param('partyId') partyId: string,
     @Param('tokenUid') tokenUid: string,
     @BodyWithSchema(TokenDTOSchema, TokenDTOSchemaName)
-    token: Partial<TokenDTO>,
+    token: Partial<TokenDTO | V211Token>,
     @EnumQueryParam('type', TokenTypeSchema, TokenTypeSchemaName)
     type?: TokenType,
     @Ctx() ctx?: any,
@@ -222,14 +235,7 @@ export class TokensModuleApi
 
     const tenantPartner = ctx!.state!.tenantPartner as ITenantPartnerDto;
 
-    if (
-      tenantPartner?.countryCode !== countryCode ||
-      tenantPartner?.partyId !== partyId
-    ) {
-      throw new WrongClientAccessException(
-        'Client is trying to access wrong resource',
-      );
-    }
+    await this.assertTokenOwner(tenantPartner, countryCode, partyId);
 
     const tenantId = ctx?.state?.tenantPartner?.tenant?.id;
     const tenantPartnerId = ctx?.state?.tenantPartner?.id;
@@ -241,7 +247,13 @@ export class TokensModuleApi
     await this.tokensService.patchToken(
       tokenUid,
       type ?? TokenType.RFID,
-      token,
+      V211Mapper.isV211(version)
+        ? V211Mapper.fromToken(
+            token as Partial<V211Token>,
+            countryCode,
+            partyId,
+          )
+        : (token as Partial<TokenDTO>),
       tenantId,
       tenantPartnerId,
     );
@@ -262,65 +274,94 @@ export class TokensModuleApi
   /**
    * Admin Endpoints
    **/
-  // @Post('/fetch')
-  // async fetchTokens(
-  //   @VersionNumberParam() version: VersionNumber,
-  //   @Body(AsyncJobRequestSchema) asyncJobRequest: AsyncJobRequest,
-  // ): Promise<AsyncJobStatusResponse> {
-  //   const jobStatus =
-  //     await this.tokensFetchService.startFetchTokensByParty(asyncJobRequest);
-  //   return jobStatus;
-  // }
+  @Post('/fetch')
+  @AsAdminEndpoint()
+  async fetchTokens(
+    @VersionNumberParam() _version: VersionNumber,
+    @Body() asyncJobRequest: AsyncJobRequest,
+  ): Promise<AsyncJobStatusResponse> {
+    this.logger.info('fetchTokens', asyncJobRequest);
+    return this.tokensAdminService.startFetchTokensByParty(asyncJobRequest);
+  }
 
-  // @Post('/fetch/:jobId/:action')
-  // async fetchTokensAction(
-  //   @VersionNumberParam() version: VersionNumber,
-  //   @Param('jobId') jobId: string,
-  //   @Param('action') action: AsyncJobAction,
-  // ): Promise<AsyncJobStatusResponse> {
-  //   switch (action) {
-  //     case AsyncJobAction.RESUME:
-  //       return await this.tokensFetchService.resumeFetchTokens(jobId);
-  //     case AsyncJobAction.STOP:
-  //       return await this.tokensFetchService.stopFetchTokens(jobId);
-  //     default:
-  //       throw new BadRequestError('Action not found');
-  //   }
-  // }
+  @Post('/fetch/:jobId/:action')
+  @AsAdminEndpoint()
+  async fetchTokensAction(
+    @VersionNumberParam() _version: VersionNumber,
+    @Param('jobId') jobId: string,
+    @EnumParam('action', AsyncJobAction, 'AsyncJobAction')
+    action: AsyncJobAction,
+  ): Promise<AsyncJobStatusResponse> {
+    this.logger.info('fetchTokensAction', jobId, action);
+    switch (action) {
+      case AsyncJobAction.RESUME:
+        return this.tokensAdminService.resumeFetchTokens(jobId);
+      case AsyncJobAction.STOP:
+        return this.tokensAdminService.stopFetchTokens(jobId);
+      default:
+        throw new InvalidParamException(`Unknown action ${action}`);
+    }
+  }
 
-  // @Get('/fetch/:jobId')
-  // async getFetchTokensJobStatus(
-  //   @VersionNumberParam() version: VersionNumber,
-  //   @Param('jobId') jobId: string,
-  // ): Promise<AsyncJobStatusResponse> {
-  //   const jobStatus = await this.tokensFetchService.getFetchTokensJob(jobId);
-  //   if (!jobStatus) {
-  //     throw new NotFoundError('Job not found');
-  //   }
-  //   return jobStatus;
-  // }
+  @Get('/fetch/:jobId')
+  @AsAdminEndpoint()
+  async getFetchTokensJobStatus(
+    @VersionNumberParam() _version: VersionNumber,
+    @Param('jobId') jobId: string,
+  ): Promise<AsyncJobStatusResponse> {
+    const jobStatus = await this.tokensAdminService.getFetchTokensJob(jobId);
+    if (!jobStatus) {
+      throw new NotFoundException('Job not found');
+    }
+    return jobStatus;
+  }
 
-  // @Get('/fetch')
-  // async getActiveFetchTokensJobStatus(
-  //   @VersionNumberParam() version: VersionNumber,
-  //   @QueryParam('tenantPartnerId') tenantPartnerId: number,
-  //   @QueryParam('active', { required: false }) active: boolean,
-  // ): Promise<AsyncJobStatusResponse[]> {
-  //   return await this.tokensFetchService.getFetchTokensJobs(
-  //     tenantPartnerId,
-  //     active,
-  //   );
-  // }
+  @Get('/fetch')
+  @AsAdminEndpoint()
+  async getFetchTokensJobStatuses(
+    @VersionNumberParam() _version: VersionNumber,
+    @QueryParam('tenantPartnerId', { required: true }) tenantPartnerId: number,
+    @QueryParam('active', { required: false }) active?: boolean,
+  ): Promise<AsyncJobStatusResponse[]> {
+    return this.tokensAdminService.getFetchTokensJobs(tenantPartnerId, active);
+  }
+
+  @Delete('/fetch/:jobId')
+  @AsAdminEndpoint()
+  async deleteFetchTokensJobStatus(
+    @VersionNumberParam() _version: VersionNumber,
+    @Param('jobId') jobId: string,
+  ): Promise<AsyncJobStatusResponse> {
+    const jobStatus = await this.tokensAdminService.deleteFetchTokensJob(jobId);
+    if (!jobStatus) {
+      throw new NotFoundException('Job not found');
+    }
+    return jobStatus;
+  }
 
-  // @Delete('/fetch/:jobId')
-  // async deleteFetchTokensJobStatus(
-  //   @VersionNumberParam() version: VersionNumber,
-  //   @Param('jobId') jobId: string,
-  // ): Promise<AsyncJobStatusResponse> {
-  //   const jobStatus = await this.tokensFetchService.deleteFetchTokensJob(jobId);
-  //   if (!jobStatus) {
-  //     throw new NotFoundError('Job not found');
-  //   }
-  //   return jobStatus;
-  // }
+  /**
+   * Partners push their own tokens, a hub also pushes the tokens of the eMSPs connected to it.
+   */
+  private async assertTokenOwner(
+    tenantPartner: ITenantPartnerDto,
+    countryCode: string,
+    partyId: string,
+  ): Promise<void> {
+    if (
+      tenantPartner.countryCode === countryCode &&
+      tenantPartner.partyId === partyId
+    ) {
+      return;
+    }
+    const clientInfo = await this.hubClientInfoService.getClientInfo(
+      tenantPartner,
+      countryCode,
+      partyId,
+    );
+    if (!clientInfo) {
+      throw new WrongClientAccessException(
+        'Client is trying to access wrong resource',
+      );
+    }
+  }
 }
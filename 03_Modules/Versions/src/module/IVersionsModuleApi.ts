@@ -4,6 +4,7 @@
 
 import {
   VersionListResponseDTO,
+  V211VersionDetailsResponse,
   VersionDetailsResponseDTO,
   VersionNumber,
 } from '@citrineos/ocpi-base';
@@ -27,5 +28,5 @@ export interface IVersionsModuleApi {
   getVersionDetails(
     tenantId: number,
     versionNumber: VersionNumber,
-  ): Promise<VersionDetailsResponseDTO>;
+  ): Promise<VersionDetailsResponseDTO | V211VersionDetailsResponse>;
 }
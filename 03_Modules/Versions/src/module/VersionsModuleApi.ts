@@ -7,6 +7,7 @@ import {
   BaseController,
   ModuleId,
   ResponseSchema,
+  V211VersionDetailsResponse,
   VersionDetailsResponseDTO,
   versionIdParam,
   VersionListResponseDTO,
@@ -62,7 +63,7 @@ export class VersionsModuleApi
   async getVersionDetails(
     @Param('tenant_id') tenantId: number,
     @VersionNumberParam() versionNumber: VersionNumber,
-  ): Promise<VersionDetailsResponseDTO> {
+  ): Promise<VersionDetailsResponseDTO | V211VersionDetailsResponse> {
     return this.versionService.getVersionDetails(tenantId, versionNumber);
   }
 }
@@ -13,6 +13,8 @@ import { MemoryCache } from '@citrineos/util';
 import type { IDtoModule, OcpiConfig } from '@citrineos/ocpi-base';
 import {
   Container,
+  createDtoEventSender,
+  DtoEventSenderToken,
   getDtoEventHandlerMetaData,
   getOcpiSystemConfig,
   OcpiModule,
@@ -27,6 +29,7 @@ import { SessionsModule } from '@citrineos/ocpi-sessions';
 import { ChargingProfilesModule } from '@citrineos/ocpi-charging-profiles';
 import { TariffsModule } from '@citrineos/ocpi-tariffs';
 import { CdrsModule } from '@citrineos/ocpi-cdrs';
+import { HubClientInfoModule } from '@citrineos/ocpi-hubclientinfo';
 import { TokensModule } from '@citrineos/ocpi-tokens';
 import { DtoRouter } from '@citrineos/dto-router';
 import { createLocalOcpiConfig } from './config/envs/local.js';
@@ -127,6 +130,7 @@ export class CitrineOSServer {
       TariffsModule,
       CdrsModule,
       TokensModule,
+      HubClientInfoModule,
     ];
   }
 
@@ -165,6 +169,10 @@ export class CitrineOSServer {
   }
 
   private async initDtoRouter() {
+    Container.set(
+      DtoEventSenderToken,
+      createDtoEventSender(this.ocpiConfig!, this._logger),
+    );
     const dtoRouter: DtoRouter = Container.get(DtoRouter);
     await dtoRouter.init();
     for (const module of this.ocpiServer.modules) {
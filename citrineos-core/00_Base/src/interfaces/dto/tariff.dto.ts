@@ -13,4 +13,13 @@ export interface ITariffDto extends IBaseDto {
   authorizationAmount?: number | null;
   paymentFee?: number | null;
   taxRate?: number | null;
+  tariffAltText?: object[] | null;
+  tariffAltUrl?: string | null;
+  tariffType?: string | null;
+  elements?: object[] | null;
+  minPrice?: object | null;
+  maxPrice?: object | null;
+  energyMix?: object | null;
+  startDateTime?: Date | null;
+  endDateTime?: Date | null;
 }
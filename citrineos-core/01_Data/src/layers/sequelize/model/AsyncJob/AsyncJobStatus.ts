@@ -70,6 +70,12 @@ export class AsyncJobStatus extends BaseModelWithTenant {
   @Column(DataType.INTEGER) // Total number of objects in the client's system
   declare totalObjects?: number;
 
+  @Column(DataType.STRING) // Instance running the job
+  declare lockedBy?: string | null;
+
+  @Column(DataType.DATE) // End of the lease of the instance running the job
+  declare lockedUntil?: Date | null;
+
   toDTO(): AsyncJobStatusDTO {
     return {
       jobId: this.jobId,
@@ -101,6 +101,33 @@ export class Tariff extends BaseModelWithTenant implements ITariffDto {
   @Column(DataType.JSONB)
   declare tariffAltText?: object[] | null;
 
+  @Column(DataType.STRING)
+  declare tariffAltUrl?: string | null;
+
+  @Column(DataType.STRING(16))
+  declare tariffType?: string | null;
+
+  /**
+   * OCPI TariffElements, when set these take precedence over pricePerKwh, pricePerMin and pricePerSession.
+   */
+  @Column(DataType.JSONB)
+  declare elements?: object[] | null;
+
+  @Column(DataType.JSONB)
+  declare minPrice?: object | null;
+
+  @Column(DataType.JSONB)
+  declare maxPrice?: object | null;
+
+  @Column(DataType.JSONB)
+  declare energyMix?: object | null;
+
+  @Column(DataType.DATE)
+  declare startDateTime?: Date | null;
+
+  @Column(DataType.DATE)
+  declare endDateTime?: Date | null;
+
   declare id: number;
   declare updatedAt: CreationOptional<Date>;
 
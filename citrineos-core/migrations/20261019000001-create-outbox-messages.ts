@@ -0,0 +1,83 @@
+// SPDX-FileCopyrightText: 2025 Contributors to the CitrineOS Project
+//
+// SPDX-License-Identifier: Apache-2.0
+
+import { DataTypes, QueryInterface } from 'sequelize';
+
+module.exports = {
+  up: async (queryInterface: QueryInterface) => {
+    await queryInterface.createTable('OutboxMessages', {
+      id: {
+        type: DataTypes.INTEGER,
+        autoIncrement: true,
+        primaryKey: true,
+      },
+      // FK to TenantPartners.id – the partner this push is addressed to; messages are delivered in id order per partner
+      tenantPartnerId: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        references: { model: 'TenantPartners', key: 'id' },
+        onDelete: 'CASCADE',
+        onUpdate: 'CASCADE',
+      },
+      // OCPI module the push belongs to (sessions, cdrs, locations, tariffs) – selects the client api used to deliver it
+      moduleId: {
+        type: DataTypes.STRING(32),
+        allowNull: false,
+      },
+      httpMethod: {
+        type: DataTypes.STRING(8),
+        allowNull: false,
+      },
+      // Path appended to the partner's module endpoint url (e.g. /NL/ABC/1234)
+      path: {
+        type: DataTypes.STRING(512),
+        allowNull: true,
+      },
+      // Request body as it is sent to the partner
+      body: {
+        type: DataTypes.JSONB,
+        allowNull: true,
+      },
+      // PENDING until delivered (row is then removed) or DEAD_LETTER after the max number of attempts
+      status: {
+        type: DataTypes.STRING(16),
+        allowNull: false,
+        defaultValue: 'PENDING',
+      },
+      attempts: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        defaultValue: 0,
+      },
+      // Earliest time the next delivery attempt may be made (exponential backoff)
+      nextAttemptAt: {
+        type: DataTypes.DATE,
+        allowNull: false,
+      },
+      lastAttemptAt: {
+        type: DataTypes.DATE,
+        allowNull: true,
+      },
+      lastError: {
+        type: DataTypes.TEXT,
+        allowNull: true,
+      },
+      createdAt: {
+        type: DataTypes.DATE,
+        allowNull: false,
+      },
+      updatedAt: {
+        type: DataTypes.DATE,
+        allowNull: false,
+      },
+    });
+
+    await queryInterface.addIndex('OutboxMessages', ['tenantPartnerId', 'status', 'id']);
+    await queryInterface.addIndex('OutboxMessages', ['status', 'nextAttemptAt']);
+  },
+
+  down: async (queryInterface: QueryInterface) => {
+    await queryInterface.dropTable('OutboxMessages');
+  },
+};
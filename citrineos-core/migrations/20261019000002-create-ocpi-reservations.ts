@@ -0,0 +1,90 @@
+// SPDX-FileCopyrightText: 2025 Contributors to the CitrineOS Project
+//
+// SPDX-License-Identifier: Apache-2.0
+
+import { DataTypes, QueryInterface } from 'sequelize';
+
+module.exports = {
+  up: async (queryInterface: QueryInterface) => {
+    await queryInterface.createTable('OcpiReservations', {
+      // Also used as the OCPP reservation id sent to the charging station
+      id: {
+        type: DataTypes.INTEGER,
+        autoIncrement: true,
+        primaryKey: true,
+      },
+      // FK to TenantPartners.id – the eMSP that owns the reservation
+      tenantPartnerId: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        references: { model: 'TenantPartners', key: 'id' },
+        onDelete: 'CASCADE',
+        onUpdate: 'CASCADE',
+      },
+      // reservation_id as chosen by the eMSP, unique per partner
+      reservationId: {
+        type: DataTypes.STRING(36),
+        allowNull: false,
+      },
+      locationId: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        references: { model: 'Locations', key: 'id' },
+        onDelete: 'CASCADE',
+        onUpdate: 'CASCADE',
+      },
+      // Null for a location-level reservation (any EVSE of the location)
+      evseUid: {
+        type: DataTypes.STRING(36),
+        allowNull: true,
+      },
+      // Charging station the reservation was sent to
+      stationId: {
+        type: DataTypes.STRING,
+        allowNull: false,
+      },
+      expiryDate: {
+        type: DataTypes.DATE,
+        allowNull: false,
+      },
+      tokenUid: {
+        type: DataTypes.STRING(36),
+        allowNull: false,
+      },
+      authorizationReference: {
+        type: DataTypes.STRING(36),
+        allowNull: true,
+      },
+      // PENDING until the station answers, then RESERVED, REJECTED or CANCELLED
+      status: {
+        type: DataTypes.STRING(16),
+        allowNull: false,
+        defaultValue: 'PENDING',
+      },
+      // Id of the last command (ReserveNow or CancelReservation) sent for this reservation
+      commandId: {
+        type: DataTypes.STRING(36),
+        allowNull: true,
+      },
+      createdAt: {
+        type: DataTypes.DATE,
+        allowNull: false,
+      },
+      updatedAt: {
+        type: DataTypes.DATE,
+        allowNull: false,
+      },
+    });
+
+    await queryInterface.addConstraint('OcpiReservations', {
+      fields: ['tenantPartnerId', 'reservationId'],
+      type: 'unique',
+      name: 'OcpiReservations_tenantPartnerId_reservationId_key',
+    });
+    await queryInterface.addIndex('OcpiReservations', ['commandId']);
+  },
+
+  down: async (queryInterface: QueryInterface) => {
+    await queryInterface.dropTable('OcpiReservations');
+  },
+};
@@ -0,0 +1,63 @@
+// SPDX-FileCopyrightText: 2025 Contributors to the CitrineOS Project
+//
+// SPDX-License-Identifier: Apache-2.0
+
+import { DataTypes, QueryInterface } from 'sequelize';
+
+module.exports = {
+  up: async (queryInterface: QueryInterface) => {
+    await queryInterface.createTable('SessionChargingProfiles', {
+      // Also used as the OCPP charging profile (and charging schedule) id sent to the charging station
+      id: {
+        type: DataTypes.INTEGER,
+        autoIncrement: true,
+        primaryKey: true,
+      },
+      // FK to TenantPartners.id – the eMSP that set the profile
+      tenantPartnerId: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        references: { model: 'TenantPartners', key: 'id' },
+        onDelete: 'CASCADE',
+        onUpdate: 'CASCADE',
+      },
+      // FK to Transactions.id – the OCPI session the profile applies to, one profile per session
+      transactionId: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        unique: true,
+        references: { model: 'Transactions', key: 'id' },
+        onDelete: 'CASCADE',
+        onUpdate: 'CASCADE',
+      },
+      stationId: {
+        type: DataTypes.STRING,
+        allowNull: false,
+      },
+      // OCPI ChargingProfile as received from the eMSP
+      chargingProfile: {
+        type: DataTypes.JSONB,
+        allowNull: false,
+      },
+      // Id of the last command (SetChargingProfile or ClearChargingProfile) sent for this profile
+      commandId: {
+        type: DataTypes.STRING(36),
+        allowNull: true,
+      },
+      createdAt: {
+        type: DataTypes.DATE,
+        allowNull: false,
+      },
+      updatedAt: {
+        type: DataTypes.DATE,
+        allowNull: false,
+      },
+    });
+
+    await queryInterface.addIndex('SessionChargingProfiles', ['commandId']);
+  },
+
+  down: async (queryInterface: QueryInterface) => {
+    await queryInterface.dropTable('SessionChargingProfiles');
+  },
+};
@@ -0,0 +1,64 @@
+// SPDX-FileCopyrightText: 2025 Contributors to the CitrineOS Project
+//
+// SPDX-License-Identifier: Apache-2.0
+
+import { DataTypes, QueryInterface } from 'sequelize';
+
+module.exports = {
+  up: async (queryInterface: QueryInterface) => {
+    await queryInterface.createTable('SessionChargingPreferences', {
+      id: {
+        type: DataTypes.INTEGER,
+        autoIncrement: true,
+        primaryKey: true,
+      },
+      // FK to TenantPartners.id – the eMSP that set the preferences
+      tenantPartnerId: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        references: { model: 'TenantPartners', key: 'id' },
+        onDelete: 'CASCADE',
+        onUpdate: 'CASCADE',
+      },
+      // FK to Transactions.id – the OCPI session, only the last accepted preferences are kept
+      transactionId: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        unique: true,
+        references: { model: 'Transactions', key: 'id' },
+        onDelete: 'CASCADE',
+        onUpdate: 'CASCADE',
+      },
+      // OCPI ProfileType: CHEAP, FAST, GREEN or REGULAR
+      profileType: {
+        type: DataTypes.STRING(16),
+        allowNull: false,
+      },
+      departureTime: {
+        type: DataTypes.DATE,
+        allowNull: true,
+      },
+      // Energy the driver needs in kWh
+      energyNeed: {
+        type: DataTypes.DECIMAL,
+        allowNull: true,
+      },
+      dischargeAllowed: {
+        type: DataTypes.BOOLEAN,
+        allowNull: true,
+      },
+      createdAt: {
+        type: DataTypes.DATE,
+        allowNull: false,
+      },
+      updatedAt: {
+        type: DataTypes.DATE,
+        allowNull: false,
+      },
+    });
+  },
+
+  down: async (queryInterface: QueryInterface) => {
+    await queryInterface.dropTable('SessionChargingPreferences');
+  },
+};
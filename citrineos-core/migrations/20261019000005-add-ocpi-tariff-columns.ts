@@ -0,0 +1,70 @@
+// SPDX-FileCopyrightText: 2025 Contributors to the CitrineOS Project
+//
+// SPDX-License-Identifier: Apache-2.0
+
+import { DataTypes, QueryInterface } from 'sequelize';
+
+module.exports = {
+  up: async (queryInterface: QueryInterface) => {
+    // OCPI TariffType: AD_HOC_PAYMENT, PROFILE_CHEAP, PROFILE_FAST, PROFILE_GREEN or REGULAR
+    await queryInterface.addColumn('Tariffs', 'tariffType', {
+      type: DataTypes.STRING(16),
+      allowNull: true,
+    });
+    await queryInterface.addColumn('Tariffs', 'tariffAltUrl', {
+      type: DataTypes.STRING,
+      allowNull: true,
+    });
+    // OCPI Price objects ({ excl_vat, incl_vat }) the cost of a session is clamped to
+    await queryInterface.addColumn('Tariffs', 'minPrice', {
+      type: DataTypes.JSONB,
+      allowNull: true,
+    });
+    await queryInterface.addColumn('Tariffs', 'maxPrice', {
+      type: DataTypes.JSONB,
+      allowNull: true,
+    });
+    // OCPI TariffElements including restrictions and step sizes. When null the tariff consists of
+    // a single element built from pricePerKwh, pricePerMin and pricePerSession.
+    await queryInterface.addColumn('Tariffs', 'elements', {
+      type: DataTypes.JSONB,
+      allowNull: true,
+    });
+    await queryInterface.addColumn('Tariffs', 'energyMix', {
+      type: DataTypes.JSONB,
+      allowNull: true,
+    });
+    // Validity window of the tariff
+    await queryInterface.addColumn('Tariffs', 'startDateTime', {
+      type: DataTypes.DATE,
+      allowNull: true,
+    });
+    await queryInterface.addColumn('Tariffs', 'endDateTime', {
+      type: DataTypes.DATE,
+      allowNull: true,
+    });
+
+    // tariffAltText holds OCPI DisplayTexts, existing plain texts become a single English text
+    await queryInterface.sequelize.query(
+      `ALTER TABLE "Tariffs" ALTER COLUMN "tariffAltText" TYPE JSONB USING
+       CASE WHEN "tariffAltText" IS NULL THEN NULL
+       ELSE jsonb_build_array(jsonb_build_object('language', 'en', 'text', "tariffAltText"))
+       END;`,
+    );
+  },
+
+  down: async (queryInterface: QueryInterface) => {
+    await queryInterface.sequelize.query(
+      `ALTER TABLE "Tariffs" ALTER COLUMN "tariffAltText" TYPE VARCHAR(255) USING
+       "tariffAltText"->0->>'text';`,
+    );
+    await queryInterface.removeColumn('Tariffs', 'endDateTime');
+    await queryInterface.removeColumn('Tariffs', 'startDateTime');
+    await queryInterface.removeColumn('Tariffs', 'energyMix');
+    await queryInterface.removeColumn('Tariffs', 'elements');
+    await queryInterface.removeColumn('Tariffs', 'maxPrice');
+    await queryInterface.removeColumn('Tariffs', 'minPrice');
+    await queryInterface.removeColumn('Tariffs', 'tariffAltUrl');
+    await queryInterface.removeColumn('Tariffs', 'tariffType');
+  },
+};
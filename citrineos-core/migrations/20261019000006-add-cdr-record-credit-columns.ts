@@ -0,0 +1,74 @@
+// SPDX-FileCopyrightText: 2025 Contributors to the CitrineOS Project
+//
+// SPDX-License-Identifier: Apache-2.0
+
+import { DataTypes, QueryInterface } from 'sequelize';
+
+module.exports = {
+  up: async (queryInterface: QueryInterface) => {
+    // A reissued transaction has the original, a credit and a corrected CdrRecord
+    await queryInterface.removeConstraint('CdrRecords', 'CdrRecords_transactionId_key');
+    // Whether the CDR is a credit CDR cancelling the original CDR
+    await queryInterface.addColumn('CdrRecords', 'credit', {
+      type: DataTypes.BOOLEAN,
+      allowNull: false,
+      defaultValue: false,
+    });
+    // OCPI CDR id of the CDR a credit CDR cancels
+    await queryInterface.addColumn('CdrRecords', 'creditReferenceId', {
+      type: DataTypes.STRING(39),
+      allowNull: true,
+    });
+    await queryInterface.addColumn('CdrRecords', 'invoiceReferenceId', {
+      type: DataTypes.STRING(39),
+      allowNull: true,
+    });
+    // FK to the CdrRecord that was credited and corrected by this credit or corrected CdrRecord
+    await queryInterface.addColumn('CdrRecords', 'originalCdrRecordId', {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      references: { model: 'CdrRecords', key: 'id' },
+      onDelete: 'SET NULL',
+      onUpdate: 'CASCADE',
+    });
+    await queryInterface.addIndex('CdrRecords', ['originalCdrRecordId']);
+
+    await queryInterface.createTable('InvoiceReferenceSequences', {
+      // FK to Tenants.id – one invoice reference sequence per tenant
+      tenantId: {
+        type: DataTypes.INTEGER,
+        primaryKey: true,
+        references: { model: 'Tenants', key: 'id' },
+        onDelete: 'CASCADE',
+        onUpdate: 'CASCADE',
+      },
+      // Last sequence number used in an invoice reference
+      lastValue: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        defaultValue: 0,
+      },
+      createdAt: {
+        type: DataTypes.DATE,
+        allowNull: false,
+      },
+      updatedAt: {
+        type: DataTypes.DATE,
+        allowNull: false,
+      },
+    });
+  },
+
+  down: async (queryInterface: QueryInterface) => {
+    await queryInterface.dropTable('InvoiceReferenceSequences');
+    await queryInterface.removeColumn('CdrRecords', 'originalCdrRecordId');
+    await queryInterface.removeColumn('CdrRecords', 'invoiceReferenceId');
+    await queryInterface.removeColumn('CdrRecords', 'creditReferenceId');
+    await queryInterface.removeColumn('CdrRecords', 'credit');
+    await queryInterface.addConstraint('CdrRecords', {
+      fields: ['transactionId'],
+      type: 'unique',
+      name: 'CdrRecords_transactionId_key',
+    });
+  },
+};
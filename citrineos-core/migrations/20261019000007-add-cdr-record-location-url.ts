@@ -0,0 +1,19 @@
+// SPDX-FileCopyrightText: 2025 Contributors to the CitrineOS Project
+//
+// SPDX-License-Identifier: Apache-2.0
+
+import { DataTypes, QueryInterface } from 'sequelize';
+
+module.exports = {
+  up: async (queryInterface: QueryInterface) => {
+    // URL of the CDR in the eMSP system, returned in the Location header of the CDR POST
+    await queryInterface.addColumn('CdrRecords', 'locationUrl', {
+      type: DataTypes.STRING,
+      allowNull: true,
+    });
+  },
+
+  down: async (queryInterface: QueryInterface) => {
+    await queryInterface.removeColumn('CdrRecords', 'locationUrl');
+  },
+};
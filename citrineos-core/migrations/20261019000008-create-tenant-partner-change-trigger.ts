@@ -0,0 +1,37 @@
+// SPDX-FileCopyrightText: 2025 Contributors to the CitrineOS Project
+//
+// SPDX-License-Identifier: Apache-2.0
+
+import { QueryInterface } from 'sequelize';
+
+module.exports = {
+  up: async (queryInterface: QueryInterface) => {
+    // Notifies the OCPI server of changed TenantPartners so that their cached tokens are invalidated
+    await queryInterface.sequelize.query(`
+      CREATE OR REPLACE FUNCTION "notifyTenantPartnerChanged"() RETURNS trigger AS $$
+      BEGIN
+        PERFORM pg_notify(
+          'TenantPartnerChanged',
+          json_build_object(
+            'operation', TG_OP,
+            'data', json_build_object('id', COALESCE(NEW.id, OLD.id))
+          )::text
+        );
+        RETURN NULL;
+      END;
+      $$ LANGUAGE plpgsql;
+    `);
+    await queryInterface.sequelize.query(`
+      CREATE TRIGGER "TenantPartnerChanged"
+      AFTER UPDATE OR DELETE ON "TenantPartners"
+      FOR EACH ROW EXECUTE FUNCTION "notifyTenantPartnerChanged"();
+    `);
+  },
+
+  down: async (queryInterface: QueryInterface) => {
+    await queryInterface.sequelize.query(
+      'DROP TRIGGER IF EXISTS "TenantPartnerChanged" ON "TenantPartners";',
+    );
+    await queryInterface.sequelize.query('DROP FUNCTION IF EXISTS "notifyTenantPartnerChanged"();');
+  },
+};
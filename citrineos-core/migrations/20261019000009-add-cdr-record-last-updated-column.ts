@@ -0,0 +1,25 @@
+// SPDX-FileCopyrightText: 2025 Contributors to the CitrineOS Project
+//
+// SPDX-License-Identifier: Apache-2.0
+
+import { DataTypes, QueryInterface } from 'sequelize';
+
+module.exports = {
+  up: async (queryInterface: QueryInterface) => {
+    // last_updated of the stored CDR, used by GET /cdrs to filter on date_from and date_to
+    await queryInterface.addColumn('CdrRecords', 'lastUpdated', {
+      type: DataTypes.DATE,
+      allowNull: true,
+    });
+    await queryInterface.sequelize.query(`
+      UPDATE "CdrRecords"
+      SET "lastUpdated" = COALESCE(("cdrData"->>'last_updated')::timestamptz, "createdAt")
+    `);
+    await queryInterface.addIndex('CdrRecords', ['tenantPartnerId', 'lastUpdated']);
+  },
+
+  down: async (queryInterface: QueryInterface) => {
+    await queryInterface.removeIndex('CdrRecords', ['tenantPartnerId', 'lastUpdated']);
+    await queryInterface.removeColumn('CdrRecords', 'lastUpdated');
+  },
+};
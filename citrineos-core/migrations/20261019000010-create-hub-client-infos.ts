@@ -0,0 +1,66 @@
+// SPDX-FileCopyrightText: 2025 Contributors to the CitrineOS Project
+//
+// SPDX-License-Identifier: Apache-2.0
+
+import { DataTypes, QueryInterface } from 'sequelize';
+
+module.exports = {
+  up: async (queryInterface: QueryInterface) => {
+    await queryInterface.createTable('HubClientInfos', {
+      id: {
+        type: DataTypes.INTEGER,
+        autoIncrement: true,
+        primaryKey: true,
+      },
+      // FK to TenantPartners.id – the hub that pushed the ClientInfo
+      tenantPartnerId: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        references: { model: 'TenantPartners', key: 'id' },
+        onDelete: 'CASCADE',
+        onUpdate: 'CASCADE',
+      },
+      // Party connected to the hub
+      countryCode: {
+        type: DataTypes.STRING(2),
+        allowNull: false,
+      },
+      partyId: {
+        type: DataTypes.STRING(3),
+        allowNull: false,
+      },
+      // OCPI Role of the party: CPO, EMSP, HUB, NAP, NSP, OTHER or SCSP
+      role: {
+        type: DataTypes.STRING(8),
+        allowNull: false,
+      },
+      // OCPI ConnectionStatus: CONNECTED, OFFLINE, PLANNED or SUSPENDED
+      status: {
+        type: DataTypes.STRING(16),
+        allowNull: false,
+      },
+      // last_updated of the ClientInfo as sent by the hub
+      lastUpdated: {
+        type: DataTypes.DATE,
+        allowNull: false,
+      },
+      createdAt: {
+        type: DataTypes.DATE,
+        allowNull: false,
+      },
+      updatedAt: {
+        type: DataTypes.DATE,
+        allowNull: false,
+      },
+    });
+    await queryInterface.addConstraint('HubClientInfos', {
+      fields: ['tenantPartnerId', 'countryCode', 'partyId', 'role'],
+      type: 'unique',
+      name: 'HubClientInfos_tenantPartnerId_countryCode_partyId_role_key',
+    });
+  },
+
+  down: async (queryInterface: QueryInterface) => {
+    await queryInterface.dropTable('HubClientInfos');
+  },
+};
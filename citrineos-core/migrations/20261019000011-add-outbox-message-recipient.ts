@@ -0,0 +1,25 @@
+// SPDX-FileCopyrightText: 2025 Contributors to the CitrineOS Project
+//
+// SPDX-License-Identifier: Apache-2.0
+
+import { DataTypes, QueryInterface } from 'sequelize';
+
+module.exports = {
+  up: async (queryInterface: QueryInterface) => {
+    // Final recipient of a push sent through a hub, used for the OCPI-to-* routing headers.
+    // Null when the push is addressed to the TenantPartner itself.
+    await queryInterface.addColumn('OutboxMessages', 'toCountryCode', {
+      type: DataTypes.STRING(2),
+      allowNull: true,
+    });
+    await queryInterface.addColumn('OutboxMessages', 'toPartyId', {
+      type: DataTypes.STRING(3),
+      allowNull: true,
+    });
+  },
+
+  down: async (queryInterface: QueryInterface) => {
+    await queryInterface.removeColumn('OutboxMessages', 'toPartyId');
+    await queryInterface.removeColumn('OutboxMessages', 'toCountryCode');
+  },
+};
@@ -0,0 +1,70 @@
+// SPDX-FileCopyrightText: 2025 Contributors to the CitrineOS Project
+//
+// SPDX-License-Identifier: Apache-2.0
+
+import { DataTypes, QueryInterface } from 'sequelize';
+
+module.exports = {
+  up: async (queryInterface: QueryInterface) => {
+    // Publishes every location of the tenant to the partner, regardless of its TenantPartnerLocations
+    await queryInterface.addColumn('TenantPartners', 'publishAllLocations', {
+      type: DataTypes.BOOLEAN,
+      allowNull: false,
+      defaultValue: false,
+    });
+    // Last push of each location to each partner, updated once the partner accepted the push
+    await queryInterface.createTable('TenantPartnerLocationPushes', {
+      id: {
+        type: DataTypes.INTEGER,
+        autoIncrement: true,
+        primaryKey: true,
+      },
+      tenantPartnerId: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        references: { model: 'TenantPartners', key: 'id' },
+        onDelete: 'CASCADE',
+        onUpdate: 'CASCADE',
+      },
+      locationId: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        references: { model: 'Locations', key: 'id' },
+        onDelete: 'CASCADE',
+        onUpdate: 'CASCADE',
+      },
+      // PUT or PATCH
+      httpMethod: {
+        type: DataTypes.STRING(8),
+        allowNull: false,
+      },
+      // Path of the pushed object, i.e. the location, one of its EVSEs or connectors
+      path: {
+        type: DataTypes.STRING,
+        allowNull: false,
+      },
+      lastPushedAt: {
+        type: DataTypes.DATE,
+        allowNull: false,
+      },
+      createdAt: {
+        type: DataTypes.DATE,
+        allowNull: false,
+      },
+      updatedAt: {
+        type: DataTypes.DATE,
+        allowNull: false,
+      },
+    });
+    await queryInterface.addConstraint('TenantPartnerLocationPushes', {
+      fields: ['tenantPartnerId', 'locationId'],
+      type: 'unique',
+      name: 'TenantPartnerLocationPushes_tenantPartnerId_locationId_key',
+    });
+  },
+
+  down: async (queryInterface: QueryInterface) => {
+    await queryInterface.dropTable('TenantPartnerLocationPushes');
+    await queryInterface.removeColumn('TenantPartners', 'publishAllLocations');
+  },
+};
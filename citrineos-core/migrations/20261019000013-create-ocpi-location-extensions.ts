@@ -0,0 +1,119 @@
+// SPDX-FileCopyrightText: 2025 Contributors to the CitrineOS Project
+//
+// SPDX-License-Identifier: Apache-2.0
+
+import { DataTypes, QueryInterface } from 'sequelize';
+
+module.exports = {
+  up: async (queryInterface: QueryInterface) => {
+    // OCPI attributes of a location that core cannot hold, stored in their OCPI shape
+    await queryInterface.createTable('OcpiLocationExtensions', {
+      id: {
+        type: DataTypes.INTEGER,
+        autoIncrement: true,
+        primaryKey: true,
+      },
+      locationId: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        unique: true,
+        references: { model: 'Locations', key: 'id' },
+        onDelete: 'CASCADE',
+        onUpdate: 'CASCADE',
+      },
+      openingTimes: {
+        type: DataTypes.JSONB,
+        allowNull: true,
+      },
+      facilities: {
+        type: DataTypes.JSONB,
+        allowNull: true,
+      },
+      images: {
+        type: DataTypes.JSONB,
+        allowNull: true,
+      },
+      energyMix: {
+        type: DataTypes.JSONB,
+        allowNull: true,
+      },
+      parkingType: {
+        type: DataTypes.STRING,
+        allowNull: true,
+      },
+      relatedLocations: {
+        type: DataTypes.JSONB,
+        allowNull: true,
+      },
+      directions: {
+        type: DataTypes.JSONB,
+        allowNull: true,
+      },
+      operator: {
+        type: DataTypes.JSONB,
+        allowNull: true,
+      },
+      suboperator: {
+        type: DataTypes.JSONB,
+        allowNull: true,
+      },
+      owner: {
+        type: DataTypes.JSONB,
+        allowNull: true,
+      },
+      chargingWhenClosed: {
+        type: DataTypes.BOOLEAN,
+        allowNull: true,
+      },
+      createdAt: {
+        type: DataTypes.DATE,
+        allowNull: false,
+      },
+      updatedAt: {
+        type: DataTypes.DATE,
+        allowNull: false,
+      },
+    });
+    // OCPI attributes of an EVSE that override the ones derived from its charging station
+    await queryInterface.createTable('OcpiEvseExtensions', {
+      id: {
+        type: DataTypes.INTEGER,
+        autoIncrement: true,
+        primaryKey: true,
+      },
+      evseId: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        unique: true,
+        references: { model: 'Evses', key: 'id' },
+        onDelete: 'CASCADE',
+        onUpdate: 'CASCADE',
+      },
+      parkingRestrictions: {
+        type: DataTypes.JSONB,
+        allowNull: true,
+      },
+      floorLevel: {
+        type: DataTypes.STRING(4),
+        allowNull: true,
+      },
+      physicalReference: {
+        type: DataTypes.STRING(16),
+        allowNull: true,
+      },
+      createdAt: {
+        type: DataTypes.DATE,
+        allowNull: false,
+      },
+      updatedAt: {
+        type: DataTypes.DATE,
+        allowNull: false,
+      },
+    });
+  },
+
+  down: async (queryInterface: QueryInterface) => {
+    await queryInterface.dropTable('OcpiEvseExtensions');
+    await queryInterface.dropTable('OcpiLocationExtensions');
+  },
+};
@@ -0,0 +1,65 @@
+// SPDX-FileCopyrightText: 2025 Contributors to the CitrineOS Project
+//
+// SPDX-License-Identifier: Apache-2.0
+
+import { DataTypes, QueryInterface } from 'sequelize';
+
+module.exports = {
+  up: async (queryInterface: QueryInterface) => {
+    // Planned periods an EVSE is not available, e.g. maintenance windows, published in the
+    // status_schedule of the EVSE. startedAt and endedAt are set once the status change of the
+    // period start and end has been pushed.
+    await queryInterface.createTable('EvseStatusSchedules', {
+      id: {
+        type: DataTypes.INTEGER,
+        autoIncrement: true,
+        primaryKey: true,
+      },
+      evseId: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        references: { model: 'Evses', key: 'id' },
+        onDelete: 'CASCADE',
+        onUpdate: 'CASCADE',
+      },
+      status: {
+        type: DataTypes.STRING,
+        allowNull: false,
+      },
+      periodBegin: {
+        type: DataTypes.DATE,
+        allowNull: false,
+      },
+      periodEnd: {
+        type: DataTypes.DATE,
+        allowNull: true,
+      },
+      changeAvailability: {
+        type: DataTypes.BOOLEAN,
+        allowNull: false,
+        defaultValue: false,
+      },
+      startedAt: {
+        type: DataTypes.DATE,
+        allowNull: true,
+      },
+      endedAt: {
+        type: DataTypes.DATE,
+        allowNull: true,
+      },
+      createdAt: {
+        type: DataTypes.DATE,
+        allowNull: false,
+      },
+      updatedAt: {
+        type: DataTypes.DATE,
+        allowNull: false,
+      },
+    });
+    await queryInterface.addIndex('EvseStatusSchedules', ['evseId']);
+  },
+
+  down: async (queryInterface: QueryInterface) => {
+    await queryInterface.dropTable('EvseStatusSchedules');
+  },
+};
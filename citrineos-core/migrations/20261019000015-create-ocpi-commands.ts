@@ -0,0 +1,100 @@
+// SPDX-FileCopyrightText: 2025 Contributors to the CitrineOS Project
+//
+// SPDX-License-Identifier: Apache-2.0
+
+import { DataTypes, QueryInterface } from 'sequelize';
+
+module.exports = {
+  up: async (queryInterface: QueryInterface) => {
+    // Ledger of the commands sent to charging stations on behalf of a TenantPartner, so that
+    // commands that were not answered in time still get a result after a restart.
+    await queryInterface.createTable('OcpiCommands', {
+      // Command id used in the OCPP callback url and in the result posted to the response_url
+      id: {
+        type: DataTypes.STRING(36),
+        primaryKey: true,
+      },
+      tenantPartnerId: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        references: { model: 'TenantPartners', key: 'id' },
+        onDelete: 'CASCADE',
+        onUpdate: 'CASCADE',
+      },
+      stationId: {
+        type: DataTypes.STRING,
+        allowNull: false,
+      },
+      // OCPI CommandType or ChargingProfilesCommandType
+      command: {
+        type: DataTypes.STRING(32),
+        allowNull: false,
+      },
+      responseUrl: {
+        type: DataTypes.TEXT,
+        allowNull: false,
+      },
+      sessionId: {
+        type: DataTypes.STRING(36),
+        allowNull: true,
+      },
+      authorizationReference: {
+        type: DataTypes.STRING(36),
+        allowNull: true,
+      },
+      // Id of the OCPP call as returned by core
+      correlationId: {
+        type: DataTypes.STRING,
+        allowNull: true,
+      },
+      // REQUESTED, SENT, SEND_FAILED, RESPONDED or TIMED_OUT
+      state: {
+        type: DataTypes.STRING(16),
+        allowNull: false,
+      },
+      // Every state change with its timestamp
+      transitions: {
+        type: DataTypes.JSONB,
+        allowNull: false,
+        defaultValue: [],
+      },
+      expiresAt: {
+        type: DataTypes.DATE,
+        allowNull: false,
+      },
+      // Result posted to the response_url, set once by whoever resolves the command first
+      result: {
+        type: DataTypes.STRING(32),
+        allowNull: true,
+      },
+      // PENDING, DELIVERED, FAILED or NOT_REQUIRED
+      resultDeliveryStatus: {
+        type: DataTypes.STRING(16),
+        allowNull: false,
+      },
+      resultDeliveredAt: {
+        type: DataTypes.DATE,
+        allowNull: true,
+      },
+      resultError: {
+        type: DataTypes.TEXT,
+        allowNull: true,
+      },
+      createdAt: {
+        type: DataTypes.DATE,
+        allowNull: false,
+      },
+      updatedAt: {
+        type: DataTypes.DATE,
+        allowNull: false,
+      },
+    });
+    await queryInterface.addIndex('OcpiCommands', ['sessionId']);
+    await queryInterface.addIndex('OcpiCommands', ['authorizationReference']);
+    await queryInterface.addIndex('OcpiCommands', ['state', 'expiresAt']);
+  },
+
+  down: async (queryInterface: QueryInterface) => {
+    await queryInterface.dropTable('OcpiCommands');
+  },
+};
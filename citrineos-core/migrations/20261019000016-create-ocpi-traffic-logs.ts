@@ -0,0 +1,110 @@
+// SPDX-FileCopyrightText: 2025 Contributors to the CitrineOS Project
+//
+// SPDX-License-Identifier: Apache-2.0
+
+import { DataTypes, QueryInterface } from 'sequelize';
+
+module.exports = {
+  up: async (queryInterface: QueryInterface) => {
+    // Audit log of the OCPI requests received from and sent to partners, kept for the configured
+    // retention period to settle disputes
+    await queryInterface.createTable('OcpiTrafficLogs', {
+      id: {
+        type: DataTypes.STRING(36),
+        primaryKey: true,
+      },
+      // INBOUND or OUTBOUND
+      direction: {
+        type: DataTypes.STRING(8),
+        allowNull: false,
+      },
+      // Unknown for requests with an unknown token
+      tenantPartnerId: {
+        type: DataTypes.INTEGER,
+        allowNull: true,
+        references: { model: 'TenantPartners', key: 'id' },
+        onDelete: 'SET NULL',
+        onUpdate: 'CASCADE',
+      },
+      module: {
+        type: DataTypes.STRING(32),
+        allowNull: true,
+      },
+      method: {
+        type: DataTypes.STRING(8),
+        allowNull: false,
+      },
+      url: {
+        type: DataTypes.TEXT,
+        allowNull: false,
+      },
+      fromCountryCode: {
+        type: DataTypes.STRING(2),
+        allowNull: true,
+      },
+      fromPartyId: {
+        type: DataTypes.STRING(3),
+        allowNull: true,
+      },
+      toCountryCode: {
+        type: DataTypes.STRING(2),
+        allowNull: true,
+      },
+      toPartyId: {
+        type: DataTypes.STRING(3),
+        allowNull: true,
+      },
+      requestId: {
+        type: DataTypes.STRING,
+        allowNull: true,
+      },
+      correlationId: {
+        type: DataTypes.STRING,
+        allowNull: true,
+      },
+      sessionId: {
+        type: DataTypes.STRING(36),
+        allowNull: true,
+      },
+      // HTTP status code, absent when no response was received
+      httpStatus: {
+        type: DataTypes.INTEGER,
+        allowNull: true,
+      },
+      // status_code of the OCPI response
+      ocpiStatusCode: {
+        type: DataTypes.INTEGER,
+        allowNull: true,
+      },
+      latencyMs: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+      },
+      // Redacted bodies, absent when bodies are not recorded
+      requestBody: {
+        type: DataTypes.JSONB,
+        allowNull: true,
+      },
+      responseBody: {
+        type: DataTypes.JSONB,
+        allowNull: true,
+      },
+      error: {
+        type: DataTypes.TEXT,
+        allowNull: true,
+      },
+      createdAt: {
+        type: DataTypes.DATE,
+        allowNull: false,
+      },
+    });
+    await queryInterface.addIndex('OcpiTrafficLogs', ['tenantPartnerId', 'createdAt']);
+    await queryInterface.addIndex('OcpiTrafficLogs', ['correlationId']);
+    await queryInterface.addIndex('OcpiTrafficLogs', ['sessionId']);
+    await queryInterface.addIndex('OcpiTrafficLogs', ['createdAt']);
+  },
+
+  down: async (queryInterface: QueryInterface) => {
+    await queryInterface.dropTable('OcpiTrafficLogs');
+  },
+};
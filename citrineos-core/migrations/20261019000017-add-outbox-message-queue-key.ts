@@ -0,0 +1,35 @@
+// SPDX-FileCopyrightText: 2025 Contributors to the CitrineOS Project
+//
+// SPDX-License-Identifier: Apache-2.0
+
+import { DataTypes, QueryInterface } from 'sequelize';
+
+module.exports = {
+  up: async (queryInterface: QueryInterface) => {
+    // Queue a message is ordered in: the module and the object it is about (e.g. sessions:NL/ABC/1234),
+    // messages of different queues of a partner are delivered independently
+    await queryInterface.addColumn('OutboxMessages', 'queueKey', {
+      type: DataTypes.STRING(512),
+      allowNull: true,
+    });
+    await queryInterface.sequelize.query(`
+      UPDATE "OutboxMessages"
+      SET "queueKey" = "moduleId" || ':' || COALESCE(
+        NULLIF(array_to_string((string_to_array("path", '/'))[2:4], '/'), ''),
+        "body"->>'session_id',
+        "body"->>'id',
+        "id"::text
+      )
+    `);
+    await queryInterface.changeColumn('OutboxMessages', 'queueKey', {
+      type: DataTypes.STRING(512),
+      allowNull: false,
+    });
+    await queryInterface.addIndex('OutboxMessages', ['tenantPartnerId', 'queueKey', 'id']);
+  },
+
+  down: async (queryInterface: QueryInterface) => {
+    await queryInterface.removeIndex('OutboxMessages', ['tenantPartnerId', 'queueKey', 'id']);
+    await queryInterface.removeColumn('OutboxMessages', 'queueKey');
+  },
+};
@@ -0,0 +1,81 @@
+// SPDX-FileCopyrightText: 2025 Contributors to the CitrineOS Project
+//
+// SPDX-License-Identifier: Apache-2.0
+
+import { DataTypes, QueryInterface } from 'sequelize';
+
+module.exports = {
+  up: async (queryInterface: QueryInterface) => {
+    // Named sets of locations of a tenant, published to and unpublished from partners as a whole
+    await queryInterface.createTable('LocationGroups', {
+      id: {
+        type: DataTypes.INTEGER,
+        autoIncrement: true,
+        primaryKey: true,
+      },
+      tenantId: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        references: { model: 'Tenants', key: 'id' },
+        onDelete: 'CASCADE',
+        onUpdate: 'CASCADE',
+      },
+      name: {
+        type: DataTypes.STRING,
+        allowNull: false,
+      },
+      createdAt: {
+        type: DataTypes.DATE,
+        allowNull: false,
+      },
+      updatedAt: {
+        type: DataTypes.DATE,
+        allowNull: false,
+      },
+    });
+    await queryInterface.addConstraint('LocationGroups', {
+      fields: ['tenantId', 'name'],
+      type: 'unique',
+      name: 'LocationGroups_tenantId_name_key',
+    });
+    await queryInterface.createTable('LocationGroupLocations', {
+      id: {
+        type: DataTypes.INTEGER,
+        autoIncrement: true,
+        primaryKey: true,
+      },
+      locationGroupId: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        references: { model: 'LocationGroups', key: 'id' },
+        onDelete: 'CASCADE',
+        onUpdate: 'CASCADE',
+      },
+      locationId: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        references: { model: 'Locations', key: 'id' },
+        onDelete: 'CASCADE',
+        onUpdate: 'CASCADE',
+      },
+      createdAt: {
+        type: DataTypes.DATE,
+        allowNull: false,
+      },
+      updatedAt: {
+        type: DataTypes.DATE,
+        allowNull: false,
+      },
+    });
+    await queryInterface.addConstraint('LocationGroupLocations', {
+      fields: ['locationGroupId', 'locationId'],
+      type: 'unique',
+      name: 'LocationGroupLocations_locationGroupId_locationId_key',
+    });
+  },
+
+  down: async (queryInterface: QueryInterface) => {
+    await queryInterface.dropTable('LocationGroupLocations');
+    await queryInterface.dropTable('LocationGroups');
+  },
+};
@@ -0,0 +1,50 @@
+// SPDX-FileCopyrightText: 2025 Contributors to the CitrineOS Project
+//
+// SPDX-License-Identifier: Apache-2.0
+
+import { DataTypes, QueryInterface } from 'sequelize';
+
+module.exports = {
+  up: async (queryInterface: QueryInterface) => {
+    // Open aggregation window of the charging periods of a session, so that the meter values it
+    // collected are still pushed after a restart
+    await queryInterface.createTable('PendingSessionChargingPeriods', {
+      id: {
+        type: DataTypes.INTEGER,
+        autoIncrement: true,
+        primaryKey: true,
+      },
+      // FK to Transactions.id – the OCPI session, one open window per session
+      transactionId: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        unique: true,
+        references: { model: 'Transactions', key: 'id' },
+        onDelete: 'CASCADE',
+        onUpdate: 'CASCADE',
+      },
+      // Timestamp of the earliest meter value collected in the window
+      windowStart: {
+        type: DataTypes.DATE,
+        allowNull: false,
+      },
+      // When the window closes and its charging periods are pushed
+      flushAt: {
+        type: DataTypes.DATE,
+        allowNull: false,
+      },
+      createdAt: {
+        type: DataTypes.DATE,
+        allowNull: false,
+      },
+      updatedAt: {
+        type: DataTypes.DATE,
+        allowNull: false,
+      },
+    });
+  },
+
+  down: async (queryInterface: QueryInterface) => {
+    await queryInterface.dropTable('PendingSessionChargingPeriods');
+  },
+};
@@ -0,0 +1,34 @@
+// SPDX-FileCopyrightText: 2025 Contributors to the CitrineOS Project
+//
+// SPDX-License-Identifier: Apache-2.0
+
+import { DataTypes, QueryInterface } from 'sequelize';
+
+const ACTIVE_JOB_INDEX = 'AsyncJobStatuses_active_job_key';
+
+module.exports = {
+  up: async (queryInterface: QueryInterface) => {
+    // Instance running the job and the end of its lease, renewed while the job runs. A job whose
+    // lease expired is resumed by another instance
+    await queryInterface.addColumn('AsyncJobStatuses', 'lockedBy', {
+      type: DataTypes.STRING,
+      allowNull: true,
+    });
+    await queryInterface.addColumn('AsyncJobStatuses', 'lockedUntil', {
+      type: DataTypes.DATE,
+      allowNull: true,
+    });
+    // A single active job per partner and job name, also when instances start one concurrently
+    await queryInterface.addIndex('AsyncJobStatuses', ['tenantPartnerId', 'jobName'], {
+      name: ACTIVE_JOB_INDEX,
+      unique: true,
+      where: { finishedAt: null, stoppedAt: null },
+    });
+  },
+
+  down: async (queryInterface: QueryInterface) => {
+    await queryInterface.removeIndex('AsyncJobStatuses', ACTIVE_JOB_INDEX);
+    await queryInterface.removeColumn('AsyncJobStatuses', 'lockedUntil');
+    await queryInterface.removeColumn('AsyncJobStatuses', 'lockedBy');
+  },
+};
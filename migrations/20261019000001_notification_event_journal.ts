@@ -0,0 +1,99 @@
+// SPDX-FileCopyrightText: 2025 Contributors to the CitrineOS Project
+//
+// SPDX-License-Identifier: Apache-2.0
+
+'use strict';
+
+import { QueryInterface } from 'sequelize';
+
+const NOTIFY_FUNCTIONS = [
+  'ChargingStationNotify',
+  'TransactionNotify',
+  'TariffNotify',
+  'EvseNotify',
+  'MeterValueNotify',
+  'LocationNotify',
+  'ConnectorNotify',
+];
+
+/**
+ * Rewrites the notification trigger functions to call the given function instead of the other.
+ */
+const replaceNotifyCall = (from: string, to: string) => `
+  DO $$
+  DECLARE
+    fn text;
+    def text;
+  BEGIN
+    FOREACH fn IN ARRAY ARRAY['${NOTIFY_FUNCTIONS.join("', '")}'] LOOP
+      SELECT pg_get_functiondef(format('%I()', fn)::regprocedure) INTO def;
+      EXECUTE replace(def, '${from}(', '${to}(');
+    END LOOP;
+  END;
+  $$;
+`;
+
+export = {
+  up: async (queryInterface: QueryInterface) => {
+    // Every notification is journaled so that the OCPI server can replay the notifications it
+    // missed while it was disconnected
+    await queryInterface.sequelize.query(`
+      CREATE TABLE IF NOT EXISTS "DtoEventJournal" (
+        "id" BIGSERIAL PRIMARY KEY,
+        "channel" VARCHAR(255) NOT NULL,
+        "payload" JSONB NOT NULL,
+        "createdAt" TIMESTAMPTZ NOT NULL DEFAULT now()
+      );
+      CREATE INDEX IF NOT EXISTS "DtoEventJournal_channel_id"
+        ON "DtoEventJournal" ("channel", "id");
+      CREATE INDEX IF NOT EXISTS "DtoEventJournal_createdAt"
+        ON "DtoEventJournal" ("createdAt");
+    `);
+
+    // Last journal id handled per channel
+    await queryInterface.sequelize.query(`
+      CREATE TABLE IF NOT EXISTS "DtoEventJournalCursors" (
+        "channel" VARCHAR(255) PRIMARY KEY,
+        "lastEventId" BIGINT NOT NULL,
+        "updatedAt" TIMESTAMPTZ NOT NULL DEFAULT now()
+      );
+    `);
+
+    await queryInterface.sequelize.query(`
+      CREATE OR REPLACE FUNCTION "DtoEventJournalNotify"(p_channel text, p_payload text)
+      RETURNS void AS $$
+      DECLARE
+        eventId bigint;
+      BEGIN
+        INSERT INTO "DtoEventJournal" ("channel", "payload")
+        VALUES (p_channel, p_payload::jsonb)
+        RETURNING "id" INTO eventId;
+
+        PERFORM pg_notify(
+          p_channel,
+          (p_payload::jsonb || jsonb_build_object('journalId', eventId))::text
+        );
+      END;
+      $$ LANGUAGE plpgsql;
+    `);
+
+    await queryInterface.sequelize.query(
+      replaceNotifyCall('pg_notify', '"DtoEventJournalNotify"'),
+    );
+  },
+
+  down: async (queryInterface: QueryInterface) => {
+    await queryInterface.sequelize.query(
+      replaceNotifyCall('"DtoEventJournalNotify"', 'pg_notify'),
+    );
+
+    await queryInterface.sequelize.query(`
+      DROP FUNCTION IF EXISTS "DtoEventJournalNotify"(text, text);
+    `);
+
+    await queryInterface.sequelize.query(`
+      DROP TABLE IF EXISTS "DtoEventJournalCursors";
+      DROP TABLE IF EXISTS "DtoEventJournal";
+    `);
+  },
+};
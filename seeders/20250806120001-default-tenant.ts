@@ -15,6 +15,10 @@ export = {
           version: '2.2.1',
           versionDetailsUrl: 'http://localhost:8085/ocpi/versions/1/2.2.1',
         },
+        {
+          version: '2.1.1',
+          versionDetailsUrl: 'http://localhost:8085/ocpi/versions/1/2.1.1',
+        },
       ],
       versionEndpoints: {
         '2.2.1': [
@@ -47,6 +51,37 @@ export = {
             identifier: 'commands_RECEIVER',
           },
         ],
+        // Served without the roles, which OCPI 2.1.1 does not have
+        '2.1.1': [
+          {
+            url: `http://localhost:8085/ocpi/2.1.1/credentials`,
+            identifier: 'credentials',
+          },
+          {
+            url: `http://localhost:8085/ocpi/2.1.1/locations`,
+            identifier: 'locations_SENDER',
+          },
+          {
+            url: `http://localhost:8085/ocpi/2.1.1/tariffs`,
+            identifier: 'tariffs_SENDER',
+          },
+          {
+            url: `http://localhost:8085/ocpi/2.1.1/sessions`,
+            identifier: 'sessions_SENDER',
+          },
+          {
+            url: `http://localhost:8085/ocpi/2.1.1/cdrs`,
+            identifier: 'cdrs_SENDER',
+          },
+          {
+            url: `http://localhost:8085/ocpi/2.1.1/tokens`,
+            identifier: 'tokens_RECEIVER',
+          },
+          {
+            url: `http://localhost:8085/ocpi/2.1.1/commands`,
+            identifier: 'commands_RECEIVER',
+          },
+        ],
       },
       credentialsRole: {
         role: 'CPO',